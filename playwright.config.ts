@@ -47,5 +47,7 @@ export default defineConfig({
     command: 'npm run dev',
     port: 3000,
     reuseExistingServer: !process.env.CI,
+    // Serve the API from the in-browser mock backend unless explicitly disabled
+    env: { VITE_MOCK_API: process.env.VITE_MOCK_API ?? 'true' },
   },
 });
\ No newline at end of file
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  Button,
+  IconButton,
+  Tooltip,
+  Alert,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import {
+  ContentCopy as CopyIcon,
+  LinkOff as RevokeIcon,
+  Share as ShareIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  useGetClientReviewLinksQuery,
+  useCreateClientReviewLinkMutation,
+  useRevokeClientReviewLinkMutation,
+  type ApprovalRequest,
+  type ApprovalWorkflow,
+  type ClientReviewLink,
+} from '../../store/api/approvalApi';
+import { workflowStepFor } from '../../utils/approvalSla';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+interface ClientReviewLinksProps {
+  request: ApprovalRequest;
+  workflows: ApprovalWorkflow[];
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 7 * 24, label: '1 week' },
+  { hours: 30 * 24, label: '30 days' },
+];
+
+const DECISION_LABELS: Record<NonNullable<ClientReviewLink['decision']>['decision'], { label: string; color: 'success' | 'error' | 'warning' }> = {
+  approved: { label: 'Approved', color: 'success' },
+  rejected: { label: 'Rejected', color: 'error' },
+  changes_requested: { label: 'Changes requested', color: 'warning' },
+};
+
+const linkStatus = (link: ClientReviewLink): { label: string; color: 'default' | 'info' | 'success' | 'error' | 'warning' } => {
+  if (link.decision) return DECISION_LABELS[link.decision.decision];
+  if (link.revokedAt) return { label: 'Revoked', color: 'default' };
+  if (Date.parse(link.expiresAt) < Date.now()) return { label: 'Expired', color: 'default' };
+  return { label: link.lastOpenedAt ? 'Opened' : 'Sent', color: 'info' };
+};
+
+// Signed, expiring links that let a client without an account review and decide a step
+export const ClientReviewLinks: React.FC<ClientReviewLinksProps> = ({ request, workflows }) => {
+  const { data, isLoading } = useGetClientReviewLinksQuery(request.id);
+  const [createLink, { isLoading: isCreating, error: createError }] = useCreateClientReviewLinkMutation();
+  const [revokeLink, { error: revokeError }] = useRevokeClientReviewLinkMutation();
+
+  const steps = request.steps.filter((step) => step.status !== 'skipped');
+  const [reviewerEmail, setReviewerEmail] = useState('');
+  const [reviewerName, setReviewerName] = useState('');
+  const [stepId, setStepId] = useState(steps[steps.length - 1]?.stepId ?? '');
+  const [expiresInHours, setExpiresInHours] = useState(EXPIRY_OPTIONS[1].hours);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const links = data?.links ?? [];
+  const error = createError || revokeError;
+  const isOpen = request.status === 'pending' || request.status === 'escalated';
+  const stepName = (id: string) => {
+    const step = request.steps.find((candidate) => candidate.stepId === id);
+    return (step && workflowStepFor(workflows, request, step)?.name) || 'Step';
+  };
+
+  const handleCopy = async (link: ClientReviewLink) => {
+    await navigator.clipboard?.writeText(link.url);
+    setCopiedId(link.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleCreate = async () => {
+    try {
+      const { link } = await createLink({ requestId: request.id, reviewerEmail, reviewerName, stepId, expiresInHours }).unwrap();
+      setReviewerEmail('');
+      setReviewerName('');
+      await handleCopy(link);
+    } catch {
+      // Shown through createError
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>Client Review</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Share a link with a client who doesn't have an account. They can preview the content, comment and decide the
+        chosen step until the link expires or is revoked.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {getApiErrorMessage(error, 'Failed to update the review link')}
+        </Alert>
+      )}
+
+      {isOpen && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'flex-start', mb: 2 }}>
+          <TextField
+            size="small"
+            label="Client email"
+            type="email"
+            value={reviewerEmail}
+            onChange={(e) => setReviewerEmail(e.target.value)}
+            sx={{ flex: '2 1 200px' }}
+          />
+          <TextField
+            size="small"
+            label="Name (optional)"
+            value={reviewerName}
+            onChange={(e) => setReviewerName(e.target.value)}
+            sx={{ flex: '1 1 140px' }}
+          />
+          <TextField
+            select
+            size="small"
+            label="Decides"
+            value={stepId}
+            onChange={(e) => setStepId(e.target.value)}
+            sx={{ flex: '1 1 160px' }}
+          >
+            {steps.map((step) => (
+              <MenuItem key={step.id} value={step.stepId}>
+                {stepName(step.stepId)}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Expires in"
+            value={expiresInHours}
+            onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            sx={{ flex: '0 1 120px' }}
+          >
+            {EXPIRY_OPTIONS.map(({ hours, label }) => (
+              <MenuItem key={hours} value={hours}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Button
+            variant="contained"
+            startIcon={isCreating ? <CircularProgress size={16} /> : <ShareIcon />}
+            onClick={handleCreate}
+            disabled={isCreating || !reviewerEmail.trim() || !stepId}
+          >
+            Create Link
+          </Button>
+        </Box>
+      )}
+
+      {isLoading ? (
+        <CircularProgress size={24} />
+      ) : links.length ? (
+        <List dense disablePadding>
+          {links.map((link) => {
+            const status = linkStatus(link);
+            const usable = !link.revokedAt && !link.decision && Date.parse(link.expiresAt) > Date.now();
+            return (
+              <ListItem
+                key={link.id}
+                divider
+                secondaryAction={
+                  usable && (
+                    <Box>
+                      <Tooltip title={copiedId === link.id ? 'Copied' : 'Copy link'}>
+                        <IconButton size="small" onClick={() => handleCopy(link)} aria-label="Copy review link">
+                          <CopyIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Revoke">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => revokeLink({ requestId: request.id, linkId: link.id })}
+                          aria-label="Revoke review link"
+                        >
+                          <RevokeIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  )
+                }
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {link.reviewerName ? `${link.reviewerName} <${link.reviewerEmail}>` : link.reviewerEmail}
+                      <Chip size="small" label={status.label} color={status.color} />
+                    </Box>
+                  }
+                  secondary={`${stepName(link.stepId)} · ${
+                    link.revokedAt
+                      ? `Revoked ${format(new Date(link.revokedAt), 'MMM d, h:mm a')}`
+                      : `Expires ${format(new Date(link.expiresAt), 'MMM d, h:mm a')}`
+                  }${link.decision?.comment ? ` · "${link.decision.comment}"` : ''}`}
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          No review links yet
+        </Typography>
+      )}
+    </Box>
+  );
+};
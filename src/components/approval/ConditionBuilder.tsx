@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  TextField,
+  MenuItem,
+  IconButton,
+  Button,
+  Autocomplete,
+  Tooltip,
+  Chip,
+} from '@mui/material';
+import { Add as AddIcon, Close as CloseIcon, Code as CodeIcon, Tune as TuneIcon } from '@mui/icons-material';
+import {
+  CLAUSE_OPERATORS,
+  CONDITION_FIELDS,
+  conditionError,
+  formatConditionGroup,
+  toConditionGroup,
+  type ConditionClause,
+  type ConditionField,
+  type ConditionGroup,
+  type ConditionValue,
+} from '../../utils/approvalConditions';
+
+interface ConditionBuilderProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  helperText?: string;
+}
+
+const defaultValue = (field: ConditionField, operator: string): ConditionValue => {
+  const { type, options } = CONDITION_FIELDS[field];
+  if (operator === 'in') return options ? [options[options.length - 1]] : [];
+  if (type === 'number') return 0;
+  if (type === 'boolean') return true;
+  return options?.[0] ?? '';
+};
+
+const newClause = (field: ConditionField): ConditionClause => {
+  const { operator } = CLAUSE_OPERATORS[CONDITION_FIELDS[field].type][0];
+  return { field, operator, value: defaultValue(field, operator) };
+};
+
+// Edits a skipIf/requireIf condition as rows of clauses, or as text when it's more than the rows can show
+export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ label, value, onChange, helperText }) => {
+  const group = toConditionGroup(value);
+  const [asText, setAsText] = useState(group === null);
+  const problem = value.trim() ? conditionError(value) : null;
+
+  const updateGroup = (next: ConditionGroup) => onChange(formatConditionGroup(next));
+
+  const updateClause = (index: number, patch: Partial<ConditionClause>) => {
+    if (!group) return;
+    updateGroup({
+      ...group,
+      clauses: group.clauses.map((clause, i) => (i === index ? { ...clause, ...patch } : clause)),
+    });
+  };
+
+  const renderValueInput = (clause: ConditionClause, index: number) => {
+    const { type, options } = CONDITION_FIELDS[clause.field];
+
+    if (clause.operator === 'in') {
+      return (
+        <Autocomplete
+          multiple
+          freeSolo={!options}
+          size="small"
+          options={options ?? []}
+          value={(clause.value as string[]).map(String)}
+          onChange={(_, values) => updateClause(index, { value: values })}
+          renderTags={(values, getTagProps) =>
+            values.map((option, i) => <Chip size="small" label={option} {...getTagProps({ index: i })} />)
+          }
+          renderInput={(params) => <TextField {...params} placeholder="Values" />}
+          sx={{ flex: 1, minWidth: 180 }}
+        />
+      );
+    }
+    if (type === 'boolean') {
+      return (
+        <TextField
+          select
+          size="small"
+          value={clause.value ? 'yes' : 'no'}
+          onChange={(e) => updateClause(index, { value: e.target.value === 'yes' })}
+          sx={{ flex: 1 }}
+        >
+          <MenuItem value="yes">Yes</MenuItem>
+          <MenuItem value="no">No</MenuItem>
+        </TextField>
+      );
+    }
+    if (type === 'number') {
+      return (
+        <TextField
+          type="number"
+          size="small"
+          value={clause.value}
+          onChange={(e) => updateClause(index, { value: Number(e.target.value) })}
+          sx={{ flex: 1 }}
+        />
+      );
+    }
+    return options ? (
+      <TextField
+        select
+        size="small"
+        value={clause.value}
+        onChange={(e) => updateClause(index, { value: e.target.value })}
+        sx={{ flex: 1 }}
+      >
+        {options.map((option) => (
+          <MenuItem key={option} value={option}>
+            {option}
+          </MenuItem>
+        ))}
+      </TextField>
+    ) : (
+      <TextField
+        size="small"
+        placeholder="Value"
+        value={clause.value}
+        onChange={(e) => updateClause(index, { value: e.target.value })}
+        sx={{ flex: 1 }}
+      />
+    );
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+        <Typography variant="subtitle2">{label}</Typography>
+        <Box sx={{ flexGrow: 1 }} />
+        <Tooltip title={asText ? 'Edit with the builder' : 'Edit as text'}>
+          <span>
+            <IconButton size="small" disabled={asText && !group} onClick={() => setAsText(!asText)}>
+              {asText ? <TuneIcon fontSize="small" /> : <CodeIcon fontSize="small" />}
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Stack>
+
+      {asText || !group ? (
+        <TextField
+          fullWidth
+          size="small"
+          multiline
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder='priority in ["high", "urgent"] and platforms contains "linkedin"'
+          error={Boolean(problem)}
+          helperText={problem ?? (!group && value.trim() ? 'Too complex for the builder; edit it as text' : helperText)}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+        />
+      ) : (
+        <Stack spacing={1}>
+          {group.clauses.length > 1 && (
+            <TextField
+              select
+              size="small"
+              value={group.match}
+              onChange={(e) => updateGroup({ ...group, match: e.target.value as ConditionGroup['match'] })}
+              sx={{ width: 200 }}
+            >
+              <MenuItem value="all">All of these are true</MenuItem>
+              <MenuItem value="any">Any of these is true</MenuItem>
+            </TextField>
+          )}
+          {group.clauses.map((clause, index) => {
+            const operators = CLAUSE_OPERATORS[CONDITION_FIELDS[clause.field].type];
+            return (
+              <Stack key={index} direction="row" spacing={1} alignItems="center">
+                <TextField
+                  select
+                  size="small"
+                  value={clause.field}
+                  onChange={(e) => {
+                    const field = e.target.value as ConditionField;
+                    updateGroup({
+                      ...group,
+                      clauses: group.clauses.map((current, i) => (i === index ? newClause(field) : current)),
+                    });
+                  }}
+                  sx={{ width: 170 }}
+                >
+                  {Object.entries(CONDITION_FIELDS).map(([field, spec]) => (
+                    <MenuItem key={field} value={field}>
+                      {spec.label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  value={clause.operator}
+                  onChange={(e) => {
+                    const operator = e.target.value as ConditionClause['operator'];
+                    const changesShape = (operator === 'in') !== (clause.operator === 'in');
+                    updateClause(index, {
+                      operator,
+                      value: changesShape ? defaultValue(clause.field, operator) : clause.value,
+                    });
+                  }}
+                  sx={{ width: 150 }}
+                >
+                  {operators.map(({ operator, label: operatorLabel }) => (
+                    <MenuItem key={operator} value={operator}>
+                      {operatorLabel}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                {renderValueInput(clause, index)}
+                <IconButton
+                  size="small"
+                  onClick={() => updateGroup({ ...group, clauses: group.clauses.filter((_, i) => i !== index) })}
+                >
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </Stack>
+            );
+          })}
+          <Box>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => updateGroup({ ...group, clauses: [...group.clauses, newClause('priority')] })}
+            >
+              Add condition
+            </Button>
+          </Box>
+          {problem ? (
+            <Typography variant="caption" color="error">
+              {problem}
+            </Typography>
+          ) : (
+            helperText && (
+              <Typography variant="caption" color="text.secondary">
+                {helperText}
+              </Typography>
+            )
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+};
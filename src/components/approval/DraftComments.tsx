@@ -0,0 +1,482 @@
+import React, { useRef, useState } from 'react';
+import {
+  Box,
+  Grid,
+  Paper,
+  Typography,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
+  TextField,
+  Alert,
+  Chip,
+  Badge,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+  Divider,
+} from '@mui/material';
+import {
+  AddComment as CommentIcon,
+  RateReview as SuggestIcon,
+  CheckCircleOutline as ResolveIcon,
+  Replay as ReopenIcon,
+  Check as AcceptIcon,
+  Close as RejectIcon,
+  LinkOff as DetachedIcon,
+  Image as ImageIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  useGetApprovalRequestQuery,
+  useAddCommentMutation,
+  useResolveCommentThreadMutation,
+  useDecideSuggestionMutation,
+  type ApprovalComment,
+  type ApprovalRequest,
+} from '../../store/api/approvalApi';
+import { useGetMediaFileQuery } from '../../store/api/mediaApi';
+import { useAuth } from '../../hooks/useAuth';
+import { segmentText, createTextAnchor, type CommentAnchor } from '../../utils/commentAnchors';
+import { MentionField } from './MentionField';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+interface DraftCommentsProps {
+  request: ApprovalRequest;
+}
+
+type Mode = 'comment' | 'suggest';
+
+const threadOrder = (comment: ApprovalComment) =>
+  comment.anchor?.type === 'text' ? comment.anchor.start : comment.anchor?.type === 'media' ? Number.MAX_SAFE_INTEGER - 1 : Number.MAX_SAFE_INTEGER;
+
+// Offset in the content text of a DOM position inside one of the rendered segments
+const textOffset = (container: HTMLElement, node: Node, offset: number) => {
+  const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as HTMLElement);
+  const segment = element?.closest<HTMLElement>('[data-start]');
+  if (!segment || !container.contains(segment)) return null;
+  return Number(segment.dataset.start) + (node.nodeType === Node.TEXT_NODE ? offset : 0);
+};
+
+const MediaItem: React.FC<{
+  mediaId: string;
+  threads: number;
+  selected: boolean;
+  onSelect: (anchor: CommentAnchor) => void;
+}> = ({ mediaId, threads, selected, onSelect }) => {
+  const { data } = useGetMediaFileQuery(mediaId);
+  const file = data?.file;
+
+  // Where on the item the comment points, as percentages so it survives resizing
+  const handleClick = (e: React.MouseEvent<HTMLElement>) => {
+    const { left, top, width, height } = e.currentTarget.getBoundingClientRect();
+    onSelect({
+      type: 'media',
+      mediaId,
+      x: width ? Math.round(((e.clientX - left) / width) * 100) : undefined,
+      y: height ? Math.round(((e.clientY - top) / height) * 100) : undefined,
+    });
+  };
+
+  return (
+    <Tooltip title={file?.originalName ?? 'Media'}>
+      <Badge badgeContent={threads} color="warning" overlap="rectangular">
+        <Box
+          onClick={handleClick}
+          sx={{
+            width: 96,
+            height: 96,
+            borderRadius: 1,
+            overflow: 'hidden',
+            cursor: 'crosshair',
+            bgcolor: 'action.hover',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            outline: selected ? 2 : 0,
+            outlineColor: 'primary.main',
+          }}
+        >
+          {file?.thumbnailUrl || file?.type === 'image' ? (
+            <img src={file.thumbnailUrl || file.url} alt={file.metadata.alt || file.originalName} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+          ) : (
+            <ImageIcon color="disabled" />
+          )}
+        </Box>
+      </Badge>
+    </Tooltip>
+  );
+};
+
+const CommentBody: React.FC<{ comment: ApprovalComment }> = ({ comment }) => (
+  <Box>
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <Typography variant="subtitle2">{comment.userName}</Typography>
+      {comment.reviewerEmail && <Chip size="small" variant="outlined" label="Client" />}
+      <Typography variant="caption" color="text.secondary">
+        {format(new Date(comment.createdAt), 'MMM d, h:mm a')}
+      </Typography>
+    </Box>
+    {comment.message && (
+      <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+        {comment.message}
+      </Typography>
+    )}
+  </Box>
+);
+
+/**
+ * The draft under review with Google-Docs-style comments: select text or
+ * click a media item to comment on it, or switch to suggesting to propose
+ * a replacement the author can accept or reject.
+ */
+export const DraftComments: React.FC<DraftCommentsProps> = ({ request: initialRequest }) => {
+  const { user } = useAuth();
+  const { data } = useGetApprovalRequestQuery(initialRequest.id);
+  const [addComment, { isLoading: isAdding, error: addError }] = useAddCommentMutation();
+  const [resolveThread, { error: resolveError }] = useResolveCommentThreadMutation();
+  const [decideSuggestion, { error: decideError }] = useDecideSuggestionMutation();
+
+  const textRef = useRef<HTMLDivElement>(null);
+  const [mode, setMode] = useState<Mode>('comment');
+  const [anchor, setAnchor] = useState<CommentAnchor | null>(null);
+  const [message, setMessage] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const request = data?.request ?? initialRequest;
+  const { body } = request.content;
+  const isAuthor = user?.id === request.submittedBy;
+  const isOpen = request.status === 'pending' || request.status === 'escalated';
+  const error = addError || resolveError || decideError;
+
+  const threads = request.comments
+    .filter((comment) => !comment.parentId)
+    .sort((a, b) => threadOrder(a) - threadOrder(b));
+  const repliesTo = (id: string) => request.comments.filter((comment) => comment.parentId === id);
+  const openThreads = threads.filter((thread) => thread.status !== 'resolved');
+  const visibleThreads = (showResolved ? threads : openThreads).filter(
+    (thread) => !(thread.anchor?.type === 'text' && thread.anchor.detached)
+  );
+  const detachedThreads = openThreads.filter((thread) => thread.anchor?.type === 'text' && thread.anchor.detached);
+
+  const highlighted = openThreads.flatMap((thread) =>
+    thread.anchor?.type === 'text' && !thread.anchor.detached
+      ? [{ id: thread.id, start: thread.anchor.start, end: thread.anchor.end }]
+      : []
+  );
+  const suggestions = openThreads.filter(
+    (thread) => thread.suggestion?.status === 'open' && thread.anchor?.type === 'text' && !thread.anchor.detached
+  );
+  const suggestionIds = new Set(suggestions.map(({ id }) => id));
+  const segments = segmentText(body, highlighted);
+
+  // Suggested text shows up after the range it replaces, or at the point it's inserted
+  const insertionsAt = (at: number) =>
+    suggestions
+      .filter((thread) => thread.anchor?.type === 'text' && thread.anchor.end === at && thread.suggestion?.replacement)
+      .map((thread) => (
+        <Box
+          key={`insert-${thread.id}`}
+          component="span"
+          contentEditable={false}
+          onClick={() => setActiveId(thread.id)}
+          sx={{ color: 'success.dark', bgcolor: 'success.light', textDecoration: 'underline', userSelect: 'none', cursor: 'pointer' }}
+        >
+          {thread.suggestion!.replacement}
+        </Box>
+      ));
+
+  const handleSelection = () => {
+    const selection = window.getSelection();
+    if (!textRef.current || !selection || !selection.rangeCount) return;
+    const range = selection.getRangeAt(0);
+    const start = textOffset(textRef.current, range.startContainer, range.startOffset);
+    const end = textOffset(textRef.current, range.endContainer, range.endOffset);
+    if (start === null || end === null || (start === end && mode === 'comment')) return;
+
+    const selected = createTextAnchor(body, start, end);
+    setAnchor(selected);
+    setReplacement(selected.quote);
+  };
+
+  const handleAdd = async () => {
+    try {
+      await addComment({
+        requestId: request.id,
+        message,
+        anchor: anchor ?? undefined,
+        ...(mode === 'suggest' && anchor?.type === 'text' && { suggestion: { replacement } }),
+      }).unwrap();
+      setMessage('');
+      setReplacement('');
+      setAnchor(null);
+    } catch {
+      // Shown through addError
+    }
+  };
+
+  const handleReply = async (threadId: string) => {
+    try {
+      await addComment({ requestId: request.id, message: replies[threadId], parentId: threadId }).unwrap();
+      setReplies((current) => ({ ...current, [threadId]: '' }));
+    } catch {
+      // Shown through addError
+    }
+  };
+
+  const anchorLabel = (thread: ApprovalComment) => {
+    if (thread.anchor?.type === 'media') return 'On a media item';
+    if (thread.anchor?.type === 'text') return thread.anchor.quote ? `"${thread.anchor.quote}"` : 'Insertion';
+    return null;
+  };
+
+  const renderThread = (thread: ApprovalComment) => {
+    const resolved = thread.status === 'resolved';
+    const suggestion = thread.suggestion;
+    const label = anchorLabel(thread);
+
+    return (
+      <Paper
+        key={thread.id}
+        variant="outlined"
+        onClick={() => setActiveId(thread.id)}
+        sx={{ p: 1.5, mb: 1, opacity: resolved ? 0.7 : 1, borderColor: activeId === thread.id ? 'primary.main' : undefined }}
+      >
+        {label && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', borderLeft: 3, borderColor: 'divider', pl: 1, mb: 1, fontStyle: 'italic' }} noWrap>
+            {label}
+          </Typography>
+        )}
+        {suggestion && (
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="body2" component="span" sx={{ textDecoration: 'line-through', color: 'error.main' }}>
+              {thread.anchor?.type === 'text' ? thread.anchor.quote : ''}
+            </Typography>{' '}
+            <Typography variant="body2" component="span" sx={{ color: 'success.dark' }}>
+              {suggestion.replacement}
+            </Typography>
+            {suggestion.status !== 'open' && (
+              <Chip size="small" sx={{ ml: 1 }} label={suggestion.status} color={suggestion.status === 'accepted' ? 'success' : 'default'} />
+            )}
+          </Box>
+        )}
+        <CommentBody comment={thread} />
+        {repliesTo(thread.id).map((reply) => (
+          <Box key={reply.id} sx={{ mt: 1, pl: 1.5, borderLeft: 2, borderColor: 'divider' }}>
+            <CommentBody comment={reply} />
+          </Box>
+        ))}
+
+        <Box sx={{ display: 'flex', gap: 0.5, mt: 1, flexWrap: 'wrap' }}>
+          {suggestion?.status === 'open' && isAuthor && isOpen && (
+            <>
+              <Button
+                size="small"
+                color="success"
+                startIcon={<AcceptIcon />}
+                disabled={thread.anchor?.type === 'text' && thread.anchor.detached}
+                onClick={() => decideSuggestion({ requestId: request.id, commentId: thread.id, decision: 'accept' })}
+              >
+                Accept
+              </Button>
+              <Button
+                size="small"
+                color="error"
+                startIcon={<RejectIcon />}
+                onClick={() => decideSuggestion({ requestId: request.id, commentId: thread.id, decision: 'reject' })}
+              >
+                Reject
+              </Button>
+            </>
+          )}
+          {suggestion?.status !== 'open' && (
+            <Button
+              size="small"
+              startIcon={resolved ? <ReopenIcon /> : <ResolveIcon />}
+              onClick={() => resolveThread({ requestId: request.id, commentId: thread.id, resolved: !resolved })}
+            >
+              {resolved ? 'Reopen' : 'Resolve'}
+            </Button>
+          )}
+        </Box>
+
+        {activeId === thread.id && (
+          <Box sx={{ display: 'flex', gap: 1, mt: 1, alignItems: 'flex-start' }}>
+            <Box sx={{ flexGrow: 1 }}>
+              <MentionField
+                size="small"
+                fullWidth
+                multiline
+                placeholder="Reply, @mention to notify"
+                value={replies[thread.id] ?? ''}
+                onChange={(value) => setReplies((current) => ({ ...current, [thread.id]: value }))}
+              />
+            </Box>
+            <Button size="small" variant="contained" disabled={isAdding || !replies[thread.id]?.trim()} onClick={() => handleReply(thread.id)}>
+              Reply
+            </Button>
+          </Box>
+        )}
+      </Paper>
+    );
+  };
+
+  return (
+    <Grid container spacing={2}>
+      <Grid item xs={12} md={7}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6">Content</Typography>
+          {isOpen && (
+            <ToggleButtonGroup size="small" exclusive value={mode} onChange={(_, value: Mode | null) => value && setMode(value)}>
+              <ToggleButton value="comment">
+                <CommentIcon fontSize="small" sx={{ mr: 0.5 }} /> Comment
+              </ToggleButton>
+              <ToggleButton value="suggest">
+                <SuggestIcon fontSize="small" sx={{ mr: 0.5 }} /> Suggest
+              </ToggleButton>
+            </ToggleButtonGroup>
+          )}
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          {mode === 'suggest'
+            ? 'Select the text to replace, or click where to insert.'
+            : 'Select text or click a media item to comment on it.'}
+        </Typography>
+
+        <Paper
+          ref={textRef}
+          variant="outlined"
+          onMouseUp={isOpen ? handleSelection : undefined}
+          sx={{ p: 2, whiteSpace: 'pre-wrap', lineHeight: 1.7 }}
+        >
+          {insertionsAt(0)}
+          {segments.map((segment) => {
+            const suggested = segment.anchorIds.some((id) => suggestionIds.has(id));
+            const commented = segment.anchorIds.length > 0;
+            return (
+              <React.Fragment key={segment.start}>
+                <Box
+                  component="span"
+                  data-start={segment.start}
+                  onClick={commented ? () => setActiveId(segment.anchorIds[0]) : undefined}
+                  sx={{
+                    bgcolor: commented ? (segment.anchorIds.includes(activeId ?? '') ? 'warning.light' : 'rgba(255, 193, 7, 0.25)') : undefined,
+                    textDecoration: suggested ? 'line-through' : undefined,
+                    color: suggested ? 'error.main' : undefined,
+                  }}
+                >
+                  {segment.text}
+                </Box>
+                {insertionsAt(segment.end)}
+              </React.Fragment>
+            );
+          })}
+        </Paper>
+
+        {!!request.content.mediaFiles?.length && (
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mt: 2 }}>
+            {request.content.mediaFiles.map((mediaId) => (
+              <MediaItem
+                key={mediaId}
+                mediaId={mediaId}
+                threads={openThreads.filter((thread) => thread.anchor?.type === 'media' && thread.anchor.mediaId === mediaId).length}
+                selected={anchor?.type === 'media' && anchor.mediaId === mediaId}
+                onSelect={isOpen ? setAnchor : () => undefined}
+              />
+            ))}
+          </Box>
+        )}
+
+        {isOpen && (
+          <Box sx={{ mt: 2 }}>
+            {anchor && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Chip
+                  size="small"
+                  label={anchor.type === 'media' ? 'On the selected media item' : anchor.quote ? `On "${anchor.quote}"` : `At position ${anchor.start}`}
+                  onDelete={() => setAnchor(null)}
+                  sx={{ maxWidth: '100%' }}
+                />
+              </Box>
+            )}
+            {mode === 'suggest' && anchor?.type === 'text' && (
+              <TextField
+                size="small"
+                fullWidth
+                multiline
+                label="Replace with"
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                sx={{ mb: 1 }}
+              />
+            )}
+            <MentionField
+              size="small"
+              fullWidth
+              multiline
+              minRows={2}
+              placeholder={mode === 'suggest' ? 'Why the change? (optional)' : 'Add a comment, @mention to notify'}
+              value={message}
+              onChange={setMessage}
+            />
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+              <Button
+                variant="contained"
+                onClick={handleAdd}
+                disabled={
+                  isAdding ||
+                  (mode === 'suggest'
+                    ? anchor?.type !== 'text' || replacement === anchor.quote
+                    : !message.trim())
+                }
+              >
+                {mode === 'suggest' ? 'Suggest' : 'Comment'}
+              </Button>
+            </Box>
+          </Box>
+        )}
+      </Grid>
+
+      <Grid item xs={12} md={5}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6">Comments ({openThreads.length})</Typography>
+          <FormControlLabel
+            control={<Switch size="small" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />}
+            label="Resolved"
+          />
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 1 }}>
+            {getApiErrorMessage(error, 'Failed to update the comment')}
+          </Alert>
+        )}
+
+        {visibleThreads.length ? (
+          visibleThreads.map(renderThread)
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No open comments
+          </Typography>
+        )}
+
+        {detachedThreads.length > 0 && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <DetachedIcon fontSize="small" color="action" />
+              <Typography variant="subtitle2">Detached</Typography>
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+              The text these were on has been edited away.
+            </Typography>
+            {detachedThreads.map(renderThread)}
+          </>
+        )}
+      </Grid>
+    </Grid>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useRef, useState } from 'react';
+import { Box, TextField, Paper, List, ListItemButton, ListItemAvatar, ListItemText, Avatar, type TextFieldProps } from '@mui/material';
+import { useGetOrganizationMembersQuery } from '../../store/api/organizationApi';
+import { useTenant } from '../../contexts/TenantContext';
+
+type MentionFieldProps = Omit<TextFieldProps, 'value' | 'onChange'> & {
+  value: string;
+  onChange: (value: string) => void;
+};
+
+const MAX_MATCHES = 5;
+
+// The "@handle" being typed right before the caret, if any
+const mentionAt = (text: string, caret: number) => {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret));
+  return match ? { start: caret - match[2].length - 1, query: match[2].toLowerCase() } : null;
+};
+
+// A comment field that completes "@name" from the organization's members; the API notifies whoever is mentioned
+export const MentionField: React.FC<MentionFieldProps> = ({ value, onChange, ...props }) => {
+  const { currentOrganization } = useTenant();
+  const { data } = useGetOrganizationMembersQuery(currentOrganization?.id ?? '', { skip: !currentOrganization });
+  const inputRef = useRef<HTMLInputElement | HTMLTextAreaElement | null>(null);
+  const [caret, setCaret] = useState(0);
+
+  const mention = mentionAt(value, caret);
+  const matches = mention
+    ? (data?.members ?? [])
+        .filter(({ email, profile }) =>
+          [profile.firstName, profile.lastName, email.split('@')[0]].some((name) => name.toLowerCase().startsWith(mention.query))
+        )
+        .slice(0, MAX_MATCHES)
+    : [];
+
+  const insertMention = (handle: string) => {
+    if (!mention) return;
+    const next = `${value.slice(0, mention.start)}@${handle} ${value.slice(caret)}`;
+    const nextCaret = mention.start + handle.length + 2;
+    onChange(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  return (
+    <Box sx={{ position: 'relative' }}>
+      <TextField
+        {...props}
+        inputRef={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+        }}
+        onSelect={(e) => setCaret((e.target as HTMLInputElement).selectionStart ?? value.length)}
+      />
+      {matches.length > 0 && (
+        <Paper elevation={4} sx={{ position: 'absolute', left: 0, right: 0, top: '100%', zIndex: 1 }}>
+          <List dense disablePadding>
+            {matches.map(({ id, email, profile }) => (
+              <ListItemButton
+                key={id}
+                // Keep focus in the field so the caret survives the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(profile.firstName.toLowerCase())}
+              >
+                <ListItemAvatar sx={{ minWidth: 36 }}>
+                  <Avatar src={profile.avatar} sx={{ width: 24, height: 24 }}>
+                    {profile.firstName[0]}
+                  </Avatar>
+                </ListItemAvatar>
+                <ListItemText primary={`${profile.firstName} ${profile.lastName}`} secondary={email} />
+              </ListItemButton>
+            ))}
+          </List>
+        </Paper>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import { Timer as TimerIcon } from '@mui/icons-material';
+import type { ApprovalRequestStep, ApprovalStep } from '../../store/api/approvalApi';
+import { formatSla, stepSla, type SlaState } from '../../utils/approvalSla';
+
+interface SlaCountdownProps {
+  step: ApprovalRequestStep;
+  workflowStep?: ApprovalStep;
+}
+
+const STATE_COLORS: Record<SlaState, 'success' | 'warning' | 'error'> = {
+  on_track: 'success',
+  at_risk: 'warning',
+  breached: 'error',
+};
+
+// Time left on a step's timeout, ticking every second; renders nothing for steps without one
+export const SlaCountdown: React.FC<SlaCountdownProps> = ({ step, workflowStep }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const sla = stepSla(step, workflowStep, now);
+  const ticking = Boolean(sla) && step.status === 'pending';
+
+  useEffect(() => {
+    if (!ticking) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [ticking]);
+
+  if (!sla) return null;
+
+  return (
+    <Tooltip
+      title={`${workflowStep?.name}: due ${new Date(sla.deadline).toLocaleString()}${
+        workflowStep?.escalationUserId ? ', then escalated' : ''
+      }`}
+    >
+      <Chip
+        icon={<TimerIcon />}
+        label={formatSla(sla, step)}
+        size="small"
+        color={STATE_COLORS[sla.state]}
+        variant={sla.state === 'on_track' ? 'outlined' : 'filled'}
+      />
+    </Tooltip>
+  );
+};
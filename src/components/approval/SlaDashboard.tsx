@@ -0,0 +1,163 @@
+import React from 'react';
+import {
+  Grid,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Chip,
+  Alert,
+  LinearProgress,
+  Box,
+} from '@mui/material';
+import type { ApprovalStats } from '../../store/api/approvalApi';
+
+interface SlaDashboardProps {
+  stats: ApprovalStats;
+  onOpenRequest?: (requestId: string) => void;
+}
+
+const formatHours = (hours: number) => (hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${hours.toFixed(1)}h`);
+
+// Steps past their timeout right now, and how quickly each approver turns decisions around
+export const SlaDashboard: React.FC<SlaDashboardProps> = ({ stats, onOpenRequest }) => {
+  const { sla, byApprover, performance } = stats;
+  const decided = performance.onTimeApprovals + performance.lateApprovals;
+
+  const summary = [
+    { label: 'Breached', value: sla.breached, color: 'error.main' },
+    { label: 'At Risk', value: sla.atRisk, color: 'warning.main' },
+    { label: 'On Track', value: sla.onTrack, color: 'success.main' },
+    { label: 'Escalations', value: performance.escalations, color: 'text.primary' },
+    {
+      label: 'Decided On Time',
+      value: decided ? `${Math.round((performance.onTimeApprovals / decided) * 100)}%` : '—',
+      color: 'info.main',
+    },
+  ];
+
+  return (
+    <Grid container spacing={3}>
+      {summary.map(({ label, value, color }) => (
+        <Grid item xs={6} sm={4} md key={label}>
+          <Card>
+            <CardContent sx={{ textAlign: 'center' }}>
+              <Typography variant="h4" color={color}>
+                {value}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {label}
+              </Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+      ))}
+
+      <Grid item xs={12}>
+        <Card>
+          <CardHeader title="SLA Breaches" subheader="Steps waiting on a decision past their timeout" />
+          <CardContent>
+            {sla.breaches.length ? (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Content</TableCell>
+                    <TableCell>Step</TableCell>
+                    <TableCell>Assigned To</TableCell>
+                    <TableCell>Due</TableCell>
+                    <TableCell align="right">Overdue</TableCell>
+                    <TableCell>Escalated To</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sla.breaches.map((breach) => (
+                    <TableRow
+                      key={`${breach.requestId}-${breach.stepId}`}
+                      hover
+                      onClick={() => onOpenRequest?.(breach.requestId)}
+                      sx={{ cursor: onOpenRequest ? 'pointer' : undefined }}
+                    >
+                      <TableCell>{breach.title}</TableCell>
+                      <TableCell>{breach.stepName}</TableCell>
+                      <TableCell>{breach.assignees.join(', ') || 'Nobody'}</TableCell>
+                      <TableCell>{new Date(breach.deadline).toLocaleString()}</TableCell>
+                      <TableCell align="right">
+                        <Chip size="small" color="error" label={formatHours(breach.overdueHours)} />
+                      </TableCell>
+                      <TableCell>{breach.escalatedTo ?? 'Not escalated'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <Alert severity="success">Every open step is within its timeout.</Alert>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Grid item xs={12}>
+        <Card>
+          <CardHeader title="Approver Turnaround" subheader="Time from a step starting to each approver's decision" />
+          <CardContent>
+            {byApprover.length ? (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Approver</TableCell>
+                    <TableCell align="right">Decisions</TableCell>
+                    <TableCell align="right">Avg. Turnaround</TableCell>
+                    <TableCell sx={{ width: '25%' }}>On Time</TableCell>
+                    <TableCell align="right">Late</TableCell>
+                    <TableCell align="right">Escalated Away</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {byApprover.map((approver) => {
+                    const timed = approver.onTime + approver.late;
+                    const onTimeRate = timed ? (approver.onTime / timed) * 100 : null;
+                    return (
+                      <TableRow key={approver.userId}>
+                        <TableCell>{approver.name}</TableCell>
+                        <TableCell align="right">{approver.decisions}</TableCell>
+                        <TableCell align="right">{approver.decisions ? formatHours(approver.averageHours) : '—'}</TableCell>
+                        <TableCell>
+                          {onTimeRate === null ? (
+                            <Typography variant="caption" color="text.secondary">
+                              No timed steps
+                            </Typography>
+                          ) : (
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                              <LinearProgress
+                                variant="determinate"
+                                value={onTimeRate}
+                                color={onTimeRate >= 80 ? 'success' : onTimeRate >= 50 ? 'warning' : 'error'}
+                                sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+                              />
+                              <Typography variant="caption">{Math.round(onTimeRate)}%</Typography>
+                            </Box>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{approver.late}</TableCell>
+                        <TableCell align="right">{approver.escalations}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <Typography color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+                No decisions yet
+              </Typography>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+    </Grid>
+  );
+};
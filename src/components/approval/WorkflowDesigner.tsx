@@ -0,0 +1,425 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Grid,
+  Card,
+  CardHeader,
+  CardContent,
+  Paper,
+  Stack,
+  Typography,
+  TextField,
+  MenuItem,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  Autocomplete,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Save as SaveIcon,
+  ArrowForward as ArrowIcon,
+  Schedule as TimeoutIcon,
+  Undo as DiscardIcon,
+} from '@mui/icons-material';
+import {
+  useGetApprovalWorkflowsQuery,
+  useGetApprovalTemplatesQuery,
+  useCreateApprovalWorkflowMutation,
+  useUpdateApprovalWorkflowMutation,
+  type ApprovalStep,
+} from '../../store/api/approvalApi';
+import { useGetOrganizationMembersQuery } from '../../store/api/organizationApi';
+import { useTenant } from '../../contexts/TenantContext';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  arrangeSteps,
+  cloneSteps,
+  newStepId,
+  removeStep,
+  validateWorkflow,
+  workflowLayout,
+} from '../../utils/approvalWorkflowGraph';
+import { DEFAULT_REMINDER_THRESHOLDS } from '../../utils/approvalSla';
+import { WorkflowStepDialog, type WorkflowMember } from './WorkflowStepDialog';
+import { WorkflowDryRun } from './WorkflowDryRun';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+const newStep = (dependsOn: string[], userIds: string[] = []): ApprovalStep => ({
+  id: newStepId(),
+  order: 0,
+  name: 'New step',
+  type: 'review',
+  assignees: { userIds, anyOf: true },
+  isOptional: false,
+  dependsOn,
+});
+
+// Lays a workflow out as columns of parallel steps and saves it back to the approval API
+export const WorkflowDesigner: React.FC = () => {
+  const theme = useTheme();
+  const { user } = useAuth();
+  const { currentOrganization } = useTenant();
+  const { data: workflowsData, isLoading } = useGetApprovalWorkflowsQuery({});
+  const { data: templatesData } = useGetApprovalTemplatesQuery({ type: 'workflow' });
+  const { data: membersData } = useGetOrganizationMembersQuery(currentOrganization?.id ?? '', {
+    skip: !currentOrganization,
+  });
+  const [createWorkflow, { isLoading: creating }] = useCreateApprovalWorkflowMutation();
+  const [updateWorkflow, { isLoading: saving }] = useUpdateApprovalWorkflowMutation();
+
+  const workflows = workflowsData?.workflows ?? [];
+  const templates = (templatesData?.templates ?? []).filter(({ workflow }) => workflow?.steps.length);
+  const members: WorkflowMember[] = (membersData?.members ?? []).map(({ id, profile }) => ({
+    id,
+    name: `${profile.firstName} ${profile.lastName}`,
+  }));
+
+  const [workflowId, setWorkflowId] = useState('');
+  const workflow = workflows.find(({ id }) => id === workflowId) ?? workflows[0];
+  const savedSteps = useMemo(() => arrangeSteps(workflow?.steps ?? []), [workflow]);
+  const savedReminders = workflow?.sla?.reminderThresholds ?? DEFAULT_REMINDER_THRESHOLDS;
+  const [steps, setSteps] = useState<ApprovalStep[]>([]);
+  const [reminders, setReminders] = useState<number[]>([]);
+  const [editing, setEditing] = useState<{ step: ApprovalStep; isNew: boolean } | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [templateId, setTemplateId] = useState('');
+
+  // Edits start from the saved steps whenever another workflow is picked or it reloads
+  useEffect(() => {
+    setSteps(savedSteps);
+    setReminders(workflow?.sla?.reminderThresholds ?? DEFAULT_REMINDER_THRESHOLDS);
+    setSaved(false);
+  }, [savedSteps]);
+
+  const { stages, unreachable } = useMemo(() => workflowLayout(steps), [steps]);
+  const problems = useMemo(() => validateWorkflow(steps), [steps]);
+  const hasErrors = problems.some(({ severity }) => severity === 'error');
+  const dirty =
+    JSON.stringify(arrangeSteps(steps)) !== JSON.stringify(savedSteps) ||
+    JSON.stringify(reminders) !== JSON.stringify(savedReminders);
+
+  const memberName = (id: string) => members.find((member) => member.id === id)?.name ?? id;
+  const lastSteps = steps.filter(({ id }) => !steps.some(({ dependsOn }) => dependsOn?.includes(id)));
+
+  const changeSteps = (next: ApprovalStep[]) => {
+    setSteps(next);
+    setSaved(false);
+  };
+
+  const handleSaveStep = (step: ApprovalStep) => {
+    changeSteps(
+      steps.some(({ id }) => id === step.id)
+        ? steps.map((candidate) => (candidate.id === step.id ? step : candidate))
+        : [...steps, step]
+    );
+    setEditing(null);
+  };
+
+  const handleDeleteStep = (stepId: string) => {
+    changeSteps(removeStep(steps, stepId));
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    if (!workflow) return;
+    setSaveError(null);
+    try {
+      await updateWorkflow({
+        id: workflow.id,
+        steps: arrangeSteps(steps),
+        sla: { reminderThresholds: reminders },
+      }).unwrap();
+      setSaved(true);
+    } catch (err) {
+      setSaveError(getApiErrorMessage(err, 'Failed to save the workflow'));
+    }
+  };
+
+  const handleCreate = async () => {
+    const template = templates.find(({ id }) => id === templateId);
+    setSaveError(null);
+    try {
+      const { workflow: created } = await createWorkflow({
+        name: newName.trim(),
+        description: template?.description,
+        steps: arrangeSteps(
+          template ? cloneSteps(template.workflow!.steps) : [{ ...newStep([], user ? [user.id] : []), name: 'Review' }]
+        ),
+      }).unwrap();
+      setWorkflowId(created.id);
+      setCreateOpen(false);
+      setNewName('');
+      setTemplateId('');
+    } catch (err) {
+      setSaveError(getApiErrorMessage(err, 'Failed to create the workflow'));
+      setCreateOpen(false);
+    }
+  };
+
+  const renderStep = (step: ApprovalStep) => {
+    const stepProblems = problems.filter(({ stepId }) => stepId === step.id);
+    const severity = stepProblems.some(({ severity }) => severity === 'error')
+      ? 'error'
+      : stepProblems.length
+        ? 'warning'
+        : null;
+    const assignees = [
+      ...(step.assignees.userIds ?? []).map(memberName),
+      ...(step.assignees.roleIds ?? []).map((role) => `${role}s`),
+    ];
+
+    return (
+      <Paper
+        key={step.id}
+        variant="outlined"
+        onClick={() => setEditing({ step, isNew: false })}
+        sx={{
+          p: 1.5,
+          cursor: 'pointer',
+          borderColor: severity ? theme.palette[severity].main : undefined,
+          '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.04) },
+        }}
+      >
+        <Typography variant="subtitle2" noWrap>
+          {step.name || 'Unnamed step'}
+        </Typography>
+        <Typography variant="caption" color="text.secondary" component="div">
+          {assignees.length
+            ? `${step.assignees.anyOf === false ? 'All of' : 'Any of'}: ${assignees.join(', ')}`
+            : 'Nobody assigned'}
+        </Typography>
+        {step.timeoutHours ? (
+          <Stack direction="row" spacing={0.5} alignItems="center" sx={{ mt: 0.5 }}>
+            <TimeoutIcon sx={{ fontSize: 14 }} color="action" />
+            <Typography variant="caption" color="text.secondary">
+              {step.timeoutHours}h
+              {step.escalationUserId ? `, then ${memberName(step.escalationUserId)}` : ''}
+            </Typography>
+          </Stack>
+        ) : null}
+        <Stack direction="row" spacing={0.5} sx={{ mt: 1, flexWrap: 'wrap', gap: 0.5 }}>
+          <Chip size="small" label={step.type} />
+          {step.isOptional && <Chip size="small" label="Optional" variant="outlined" />}
+          {step.conditions?.requireIf && <Chip size="small" label="Conditional" color="info" variant="outlined" />}
+          {step.conditions?.skipIf && <Chip size="small" label="Can be skipped" variant="outlined" />}
+        </Stack>
+      </Paper>
+    );
+  };
+
+  const renderColumn = (title: string, columnSteps: ApprovalStep[], footer?: React.ReactNode) => (
+    <Stack spacing={1.5} sx={{ width: 240, flexShrink: 0 }}>
+      <Typography variant="overline" color="text.secondary">
+        {title}
+      </Typography>
+      {columnSteps.map(renderStep)}
+      {footer}
+    </Stack>
+  );
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <>
+      <Grid container spacing={3}>
+        <Grid item xs={12} lg={8}>
+          <Card>
+            <CardHeader
+              title="Workflow Designer"
+              subheader="Steps in the same column run in parallel; click a step to edit it"
+              action={
+                <Stack direction="row" spacing={1}>
+                  {workflow && (
+                    <TextField
+                      select
+                      size="small"
+                      value={workflow.id}
+                      onChange={(e) => setWorkflowId(e.target.value)}
+                      sx={{ minWidth: 200 }}
+                    >
+                      {workflows.map(({ id, name }) => (
+                        <MenuItem key={id} value={id}>
+                          {name}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                  <Button startIcon={<AddIcon />} onClick={() => setCreateOpen(true)}>
+                    New Workflow
+                  </Button>
+                </Stack>
+              }
+            />
+            <CardContent>
+              {!workflow ? (
+                <Alert severity="info">No approval workflows are set up yet. Create one to get started.</Alert>
+              ) : (
+                <>
+                  <Stack direction="row" spacing={1} alignItems="flex-start" sx={{ overflowX: 'auto', pb: 1 }}>
+                    {stages.map((stage, index) => (
+                      <React.Fragment key={index}>
+                        {index > 0 && <ArrowIcon color="action" sx={{ mt: 5, flexShrink: 0 }} />}
+                        {renderColumn(
+                          index === 0 ? 'Starts first' : `Then, stage ${index + 1}`,
+                          stage,
+                          <Button
+                            size="small"
+                            startIcon={<AddIcon />}
+                            onClick={() => setEditing({ step: newStep(stage[0].dependsOn ?? []), isNew: true })}
+                          >
+                            Parallel step
+                          </Button>
+                        )}
+                      </React.Fragment>
+                    ))}
+                    {stages.length > 0 && <ArrowIcon color="action" sx={{ mt: 5, flexShrink: 0 }} />}
+                    {renderColumn(
+                      stages.length ? 'Then' : 'Starts first',
+                      [],
+                      <Button
+                        variant="outlined"
+                        startIcon={<AddIcon />}
+                        onClick={() => setEditing({ step: newStep(lastSteps.map(({ id }) => id)), isNew: true })}
+                        sx={{ borderStyle: 'dashed' }}
+                      >
+                        Add step
+                      </Button>
+                    )}
+                    {unreachable.length > 0 && renderColumn("Can't start", unreachable)}
+                  </Stack>
+
+                  <Autocomplete
+                    multiple
+                    freeSolo
+                    size="small"
+                    options={['25', '50', '75', '90']}
+                    value={reminders.map(String)}
+                    onChange={(_, values) => {
+                      setReminders(
+                        Array.from(new Set(values.map(Number)))
+                          .filter((threshold) => threshold > 0 && threshold < 100)
+                          .sort((a, b) => a - b)
+                      );
+                      setSaved(false);
+                    }}
+                    renderTags={(values, getTagProps) =>
+                      values.map((value, index) => <Chip size="small" label={`${value}%`} {...getTagProps({ index })} />)
+                    }
+                    renderInput={(params) => (
+                      <TextField
+                        {...params}
+                        label="Remind assignees at"
+                        helperText="Percent of a step's timeout used up; steps without a timeout get no reminders"
+                      />
+                    )}
+                    sx={{ mt: 2, maxWidth: 480 }}
+                  />
+
+                  <Stack spacing={1} sx={{ mt: 2 }}>
+                    {problems.map(({ stepId, severity, message }) => (
+                      <Alert key={`${stepId}-${message}`} severity={severity}>
+                        {message}
+                      </Alert>
+                    ))}
+                    {saveError && (
+                      <Alert severity="error" onClose={() => setSaveError(null)}>
+                        {saveError}
+                      </Alert>
+                    )}
+                    {saved && (
+                      <Alert severity="success" onClose={() => setSaved(false)}>
+                        Workflow saved. New approval requests use it.
+                      </Alert>
+                    )}
+                  </Stack>
+                  <Stack direction="row" justifyContent="flex-end" spacing={1} sx={{ mt: 2 }}>
+                    <Button
+                      startIcon={<DiscardIcon />}
+                      disabled={!dirty}
+                      onClick={() => {
+                        changeSteps(savedSteps);
+                        setReminders(savedReminders);
+                      }}
+                    >
+                      Discard Changes
+                    </Button>
+                    <Button
+                      variant="contained"
+                      startIcon={<SaveIcon />}
+                      disabled={!dirty || hasErrors || saving}
+                      onClick={handleSave}
+                    >
+                      Save Workflow
+                    </Button>
+                  </Stack>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+
+        <Grid item xs={12} lg={4}>
+          <WorkflowDryRun steps={steps} />
+        </Grid>
+      </Grid>
+
+      <WorkflowStepDialog
+        step={editing?.step ?? null}
+        steps={steps}
+        members={members}
+        isNew={editing?.isNew ?? false}
+        onClose={() => setEditing(null)}
+        onSave={handleSaveStep}
+        onDelete={handleDeleteStep}
+      />
+
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>New Workflow</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField label="Name" value={newName} onChange={(e) => setNewName(e.target.value)} fullWidth autoFocus />
+            <TextField
+              select
+              label="Start from"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              helperText={templates.find(({ id }) => id === templateId)?.description ?? 'A single review step assigned to you'}
+              fullWidth
+            >
+              <MenuItem value="">Blank workflow</MenuItem>
+              {templates.map(({ id, name, workflow: template }) => (
+                <MenuItem key={id} value={id}>
+                  {name} ({template!.steps.length} steps)
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button variant="contained" disabled={!newName.trim() || creating} onClick={handleCreate}>
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
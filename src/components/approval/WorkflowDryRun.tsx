@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Card, CardHeader, CardContent, Stack, Typography, TextField, Alert, Autocomplete } from '@mui/material';
+import {
+  PlayArrow as DryRunIcon,
+  CheckCircle as IncludedIcon,
+  SkipNext as SkippedIcon,
+} from '@mui/icons-material';
+import type { ApprovalStep } from '../../store/api/approvalApi';
+import { useGetContentQuery } from '../../store/api/contentApi';
+import { contentFacts, contentRiskScore, routeSteps } from '../../utils/approvalConditions';
+
+interface WorkflowDryRunProps {
+  steps: ApprovalStep[];
+}
+
+// Shows which steps a piece of real content would go through, before the workflow is saved
+export const WorkflowDryRun: React.FC<WorkflowDryRunProps> = ({ steps }) => {
+  const { data: contentData } = useGetContentQuery({ limit: 100 });
+
+  const [contentId, setContentId] = useState<string | null>(null);
+  const [estimatedReach, setEstimatedReach] = useState(10000);
+  const [riskScore, setRiskScore] = useState<number | null>(null); // null follows the content's own score
+
+  const content = contentData?.content.find(({ id }) => id === contentId) ?? null;
+  const routes = useMemo(
+    () =>
+      content
+        ? routeSteps(steps, contentFacts(content, { estimatedReach, riskScore: riskScore ?? contentRiskScore(content) }))
+        : [],
+    [content, steps, estimatedReach, riskScore]
+  );
+
+  return (
+    <Card>
+      <CardHeader
+        avatar={<DryRunIcon color="primary" />}
+        title="Dry Run"
+        subheader="See which steps a piece of content would go through, with the workflow as edited"
+      />
+      <CardContent>
+        <Stack spacing={2}>
+          <Autocomplete
+            size="small"
+            options={contentData?.content ?? []}
+            getOptionLabel={(option) => option.title}
+            value={content}
+            onChange={(_, option) => {
+              setContentId(option?.id ?? null);
+              setRiskScore(null);
+            }}
+            renderInput={(params) => <TextField {...params} label="Content" />}
+          />
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Estimated reach"
+              type="number"
+              size="small"
+              value={estimatedReach}
+              onChange={(e) => setEstimatedReach(Number(e.target.value))}
+              fullWidth
+            />
+            <TextField
+              label="Risk score"
+              type="number"
+              size="small"
+              value={riskScore ?? (content ? contentRiskScore(content) : '')}
+              onChange={(e) => setRiskScore(Number(e.target.value))}
+              inputProps={{ min: 0, max: 100 }}
+              fullWidth
+            />
+          </Stack>
+
+          {content ? (
+            <Stack spacing={1}>
+              {routes.map(({ step, included, reason }) => (
+                <Stack
+                  key={step.id}
+                  direction="row"
+                  spacing={1.5}
+                  alignItems="flex-start"
+                  sx={{ opacity: included ? 1 : 0.6 }}
+                >
+                  {included ? <IncludedIcon color="success" /> : <SkippedIcon color="disabled" />}
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography variant="body2" fontWeight={600}>
+                      {step.name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-word' }}>
+                      {reason}
+                    </Typography>
+                  </Box>
+                </Stack>
+              ))}
+              {routes.every(({ included }) => !included) && (
+                <Alert severity="warning">Every step is skipped, so this content would be approved straight away.</Alert>
+              )}
+            </Stack>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              Pick a piece of content to run the workflow against it.
+            </Typography>
+          )}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  TextField,
+  MenuItem,
+  Button,
+  Autocomplete,
+  Chip,
+  Divider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  Switch,
+  Alert,
+} from '@mui/material';
+import type { ApprovalStep } from '../../store/api/approvalApi';
+import { validateWorkflow } from '../../utils/approvalWorkflowGraph';
+import { ConditionBuilder } from './ConditionBuilder';
+
+export interface WorkflowMember {
+  id: string;
+  name: string;
+}
+
+interface WorkflowStepDialogProps {
+  step: ApprovalStep | null;
+  steps: ApprovalStep[];
+  members: WorkflowMember[];
+  isNew: boolean;
+  onClose: () => void;
+  onSave: (step: ApprovalStep) => void;
+  onDelete: (stepId: string) => void;
+}
+
+const STEP_TYPES: { value: ApprovalStep['type']; label: string }[] = [
+  { value: 'review', label: 'Review' },
+  { value: 'approve', label: 'Approval' },
+  { value: 'brand', label: 'Brand check' },
+  { value: 'legal', label: 'Legal review' },
+  { value: 'manager', label: 'Manager sign-off' },
+];
+
+const ROLES = ['owner', 'admin', 'manager', 'member'];
+
+export const WorkflowStepDialog: React.FC<WorkflowStepDialogProps> = ({
+  step,
+  steps,
+  members,
+  isNew,
+  onClose,
+  onSave,
+  onDelete,
+}) => {
+  const [draft, setDraft] = useState<ApprovalStep | null>(step);
+
+  useEffect(() => {
+    setDraft(step);
+  }, [step]);
+
+  if (!draft) return null;
+
+  const update = (patch: Partial<ApprovalStep>) => setDraft({ ...draft, ...patch });
+  const updateAssignees = (patch: Partial<ApprovalStep['assignees']>) =>
+    update({ assignees: { ...draft.assignees, ...patch } });
+  const updateCondition = (key: 'skipIf' | 'requireIf', condition: string) =>
+    update({ conditions: { ...draft.conditions, [key]: condition || undefined } });
+
+  const others = steps.filter(({ id }) => id !== draft.id);
+  const memberName = (id: string) => members.find((member) => member.id === id)?.name ?? id;
+  const problems = validateWorkflow([...others, draft]).filter(({ stepId }) => stepId === draft.id);
+
+  return (
+    <Dialog open={Boolean(step)} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{isNew ? 'Add Step' : `Edit ${step?.name}`}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2.5}>
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Name"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              fullWidth
+              autoFocus
+            />
+            <TextField
+              select
+              label="Type"
+              value={draft.type}
+              onChange={(e) => update({ type: e.target.value as ApprovalStep['type'] })}
+              sx={{ minWidth: 200 }}
+            >
+              {STEP_TYPES.map(({ value, label }) => (
+                <MenuItem key={value} value={value}>
+                  {label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <Autocomplete
+            multiple
+            options={others.map(({ id }) => id)}
+            getOptionLabel={(id) => others.find((other) => other.id === id)?.name ?? 'Removed step'}
+            value={draft.dependsOn ?? []}
+            onChange={(_, dependsOn) => update({ dependsOn })}
+            renderTags={(ids, getTagProps) =>
+              ids.map((id, index) => (
+                <Chip size="small" label={others.find((other) => other.id === id)?.name ?? 'Removed step'} {...getTagProps({ index })} />
+              ))
+            }
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Starts after"
+                helperText="Leave empty to start as soon as content is submitted. Steps that start after the same steps run in parallel."
+              />
+            )}
+          />
+
+          <Divider />
+
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <Autocomplete
+              multiple
+              options={members.map(({ id }) => id)}
+              getOptionLabel={memberName}
+              value={draft.assignees.userIds ?? []}
+              onChange={(_, userIds) => updateAssignees({ userIds })}
+              renderTags={(ids, getTagProps) =>
+                ids.map((id, index) => <Chip size="small" label={memberName(id)} {...getTagProps({ index })} />)
+              }
+              renderInput={(params) => <TextField {...params} label="People" />}
+              sx={{ flex: 1 }}
+            />
+            <Autocomplete
+              multiple
+              options={ROLES}
+              value={draft.assignees.roleIds ?? []}
+              onChange={(_, roleIds) => updateAssignees({ roleIds })}
+              renderTags={(roles, getTagProps) =>
+                roles.map((role, index) => <Chip size="small" label={role} {...getTagProps({ index })} />)
+              }
+              renderInput={(params) => <TextField {...params} label="Roles" helperText="Everyone in the organization with the role" />}
+              sx={{ flex: 1 }}
+            />
+          </Stack>
+          <FormControl>
+            <FormLabel>Who has to approve</FormLabel>
+            <RadioGroup
+              row
+              value={draft.assignees.anyOf === false ? 'all' : 'any'}
+              onChange={(e) => updateAssignees({ anyOf: e.target.value === 'any' })}
+            >
+              <FormControlLabel value="any" control={<Radio />} label="Any one of them" />
+              <FormControlLabel value="all" control={<Radio />} label="All of them" />
+            </RadioGroup>
+          </FormControl>
+
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              label="Timeout (hours)"
+              type="number"
+              value={draft.timeoutHours ?? ''}
+              onChange={(e) => update({ timeoutHours: e.target.value === '' ? undefined : Number(e.target.value) })}
+              inputProps={{ min: 1 }}
+              helperText="Leave empty for no timeout"
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              label="Escalate to"
+              value={draft.escalationUserId ?? ''}
+              onChange={(e) => update({ escalationUserId: e.target.value || undefined })}
+              helperText="Takes over the step when it times out"
+              sx={{ flex: 1 }}
+            >
+              <MenuItem value="">Nobody</MenuItem>
+              {members.map(({ id, name }) => (
+                <MenuItem key={id} value={id}>
+                  {name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+          <FormControlLabel
+            control={<Switch checked={draft.isOptional} onChange={(e) => update({ isOptional: e.target.checked })} />}
+            label="Optional: a rejection here is noted but doesn't reject the content"
+          />
+
+          <Divider />
+
+          <ConditionBuilder
+            label="Skip this step when"
+            value={draft.conditions?.skipIf ?? ''}
+            onChange={(condition) => updateCondition('skipIf', condition)}
+            helperText="Leave empty to never skip"
+          />
+          <ConditionBuilder
+            label="Only run this step when"
+            value={draft.conditions?.requireIf ?? ''}
+            onChange={(condition) => updateCondition('requireIf', condition)}
+            helperText="Takes priority over the skip condition; leave empty to always run"
+          />
+
+          {problems.map(({ severity, message }) => (
+            <Alert key={message} severity={severity}>
+              {message}
+            </Alert>
+          ))}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {!isNew && (
+          <Button color="error" onClick={() => onDelete(draft.id)} sx={{ mr: 'auto' }}>
+            Delete Step
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={() => onSave(draft)}>
+          {isNew ? 'Add Step' : 'Apply'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
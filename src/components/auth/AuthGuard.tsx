@@ -2,33 +2,48 @@ import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { Box, CircularProgress } from '@mui/material';
 import { useAuth } from '../../hooks/useAuth';
+import { usePermissions } from '../../hooks/usePermissions';
+import { ForbiddenPage } from '../../pages/errors/ForbiddenPage';
+import type { AccessRequirement } from '../../utils/permissions';
 
-interface AuthGuardProps {
+interface AuthGuardProps extends AccessRequirement {
   children: React.ReactNode;
   requireAuth?: boolean;
 }
 
+const Loading: React.FC = () => (
+  <Box
+    sx={{
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      height: '100vh',
+      backgroundColor: 'background.default'
+    }}
+  >
+    <CircularProgress size={40} />
+  </Box>
+);
+
+// Permissions come from the tenant context, so this only renders inside TenantProvider
+const PermissionGate: React.FC<AccessRequirement & { children: React.ReactNode }> = ({ children, ...requirement }) => {
+  const { can, isLoading } = usePermissions();
+
+  if (isLoading) return <Loading />;
+  return can(requirement) ? <>{children}</> : <ForbiddenPage />;
+};
+
 export const AuthGuard: React.FC<AuthGuardProps> = ({ 
   children, 
-  requireAuth = true 
+  requireAuth = true,
+  permissions,
+  roles
 }) => {
   const { isAuthenticated, isLoading } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
-    return (
-      <Box
-        sx={{
-          display: 'flex',
-          justifyContent: 'center',
-          alignItems: 'center',
-          height: '100vh',
-          backgroundColor: 'background.default'
-        }}
-      >
-        <CircularProgress size={40} />
-      </Box>
-    );
+    return <Loading />;
   }
 
   if (requireAuth && !isAuthenticated) {
@@ -41,5 +56,9 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({
     return <Navigate to="/dashboard" replace />;
   }
 
+  if (permissions?.length || roles?.length) {
+    return <PermissionGate permissions={permissions} roles={roles}>{children}</PermissionGate>;
+  }
+
   return <>{children}</>;
 };
\ No newline at end of file
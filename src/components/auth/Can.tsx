@@ -0,0 +1,17 @@
+import React from 'react';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { AccessRequirement } from '../../utils/permissions';
+
+interface CanProps extends AccessRequirement {
+  children: React.ReactElement;
+  fallback?: React.ReactNode;
+  disable?: boolean; // render the child disabled instead of hiding it
+}
+
+// Renders its child only when the current user meets the requirement
+export const Can: React.FC<CanProps> = ({ children, fallback = null, disable = false, ...requirement }) => {
+  const { can } = usePermissions();
+
+  if (can(requirement)) return children;
+  return disable ? React.cloneElement(children, { disabled: true }) : <>{fallback}</>;
+};
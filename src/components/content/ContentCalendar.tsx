@@ -28,7 +28,15 @@ import {
   Publish as PublishIcon,
   Edit as EditIcon,
   TrendingUp as TrendingIcon,
+  Download as DownloadIcon,
 } from '@mui/icons-material';
+import {
+  buildIcsCalendar,
+  calendarEventUid,
+  contentDeepLink,
+  downloadIcsFile,
+  type CalendarExportEvent,
+} from '../../utils/calendarExport';
 
 interface ContentItem {
   id: string;
@@ -117,6 +125,31 @@ export const ContentCalendar: React.FC<ContentCalendarProps> = ({
     });
   };
 
+  // Scheduled and published posts of the visible month as an .ics download
+  const handleExportIcs = () => {
+    const events: CalendarExportEvent[] = content.flatMap((item) => {
+      const itemDate = item.scheduledDate || item.publishedDate;
+      if (!itemDate || item.status === 'draft') return [];
+
+      const start = new Date(itemDate);
+      if (start.getMonth() !== currentMonth || start.getFullYear() !== currentYear) return [];
+
+      return [{
+        uid: calendarEventUid(item.id, item.platform),
+        title: item.title,
+        start,
+        platform: item.platform,
+        platforms: [item.platform],
+        status: item.status,
+        url: contentDeepLink(item.id, window.location.origin),
+        description: item.description,
+      }];
+    });
+
+    const monthLabel = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
+    downloadIcsFile(buildIcsCalendar(events, { name: 'Content Calendar' }), `content-calendar-${monthLabel}`);
+  };
+
   const handleDateClick = (date: Date) => {
     setSelectedDate(date);
     setDayDetailsOpen(true);
@@ -265,6 +298,17 @@ export const ContentCalendar: React.FC<ContentCalendarProps> = ({
           <IconButton onClick={() => navigateMonth('next')}>
             <NextIcon />
           </IconButton>
+          <Tooltip title="Download this month as an .ics file for Outlook or Google Calendar">
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              onClick={handleExportIcs}
+              sx={{ ml: 1 }}
+            >
+              Export .ics
+            </Button>
+          </Tooltip>
         </Box>
       </Box>
 
@@ -47,6 +47,11 @@ import {
   ContentMedia 
 } from '../../store/api/contentApi';
 import { useTenant } from '../../contexts/TenantContext';
+import { measureText } from '../../utils/textMetrics';
+import { splitIntoThread } from '../../utils/threadSplitting';
+import { platformMediaIds, type MediaVariant } from '../../utils/mediaVariants';
+import { MediaVariantEditor } from '../media/MediaVariantEditor';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 const steps = ['Content Details', 'Platforms & Scheduling', 'Review & Publish'];
 
@@ -109,6 +114,7 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
 }) => {
   const [activeStep, setActiveStep] = useState(0);
   const [uploadedMedia, setUploadedMedia] = useState<ContentMedia[]>([]);
+  const [mediaVariants, setMediaVariants] = useState<MediaVariant[]>([]);
   const [tagInput, setTagInput] = useState('');
   
   const { currentWorkspace } = useTenant();
@@ -158,6 +164,7 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
     setActiveStep(0);
     reset();
     setUploadedMedia([]);
+    setMediaVariants([]);
     onClose();
   };
 
@@ -170,7 +177,14 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
         platforms: data.platforms.map(p => ({
           platform: p.platform,
           scheduledAt: data.scheduledAt?.toISOString(),
-          platformSpecific: p.platformSpecific
+          platformSpecific: p.platformSpecific,
+          ...(p.platformSpecific?.threadMode && {
+            thread: splitIntoThread(data.body, p.platform).map(body => ({ body, media: [] }))
+          }),
+          // Each platform publishes its own crop of an image where one was saved
+          ...(mediaVariants.some(v => v.platform === p.platform) && {
+            media: platformMediaIds(uploadedMedia.map(m => m.id), mediaVariants, p.platform)
+          })
         })),
         scheduledAt: data.scheduledAt?.toISOString(),
         tags: data.tags,
@@ -207,6 +221,7 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
 
   const handleRemoveMedia = (mediaId: string) => {
     setUploadedMedia(prev => prev.filter(m => m.id !== mediaId));
+    setMediaVariants(prev => prev.filter(v => v.originalId !== mediaId));
   };
 
   const addTag = () => {
@@ -233,18 +248,6 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
     }
   };
 
-  const getCharacterLimit = (platform: string, type: string) => {
-    const limits: Record<string, Record<string, number>> = {
-      twitter: { post: 280, thread: 280 },
-      linkedin: { post: 3000 },
-      facebook: { post: 63206 },
-      instagram: { post: 2200 },
-      youtube: { post: 5000 },
-      tiktok: { post: 300 }
-    };
-    return limits[platform]?.[type] || 1000;
-  };
-
   const renderStepContent = () => {
     switch (activeStep) {
       case 0:
@@ -505,7 +508,10 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
             {/* Platform-specific settings */}
             {platformFields.map((platform, index) => {
               const platformInfo = platformOptions.find(p => p.value === platform.platform);
-              const charLimit = getCharacterLimit(platform.platform, watchedData.type);
+              const characters = measureText(watchedData.body, platform.platform);
+              const threadLength = platform.platformSpecific?.threadMode
+                ? splitIntoThread(watchedData.body, platform.platform).length
+                : 0;
               
               return (
                 <Paper key={platform.platform} sx={{ p: 2, mb: 2 }}>
@@ -519,10 +525,16 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
                   </Box>
 
                   <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                    Character limit: {watchedData.body.length}/{charLimit}
+                    Character limit: {characters.count}/{characters.limit}
                   </Typography>
                   
-                  {watchedData.body.length > charLimit && (
+                  {threadLength > 1 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                      Posts as a thread of {threadLength}
+                    </Typography>
+                  )}
+
+                  {characters.isOver && !threadLength && (
                     <Alert severity="warning" sx={{ mb: 2 }}>
                       Content exceeds {platformInfo?.label} character limit
                     </Alert>
@@ -576,6 +588,24 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
               );
             })}
 
+            {/* Per-platform crops */}
+            {platformFields.length > 0 && uploadedMedia.some(m => m.type === 'image') && (
+              <Paper sx={{ p: 2, mb: 2 }}>
+                <Typography variant="h6" gutterBottom>
+                  Image Crops
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  Without a saved crop, a platform gets the original image.
+                </Typography>
+                <MediaVariantEditor
+                  media={uploadedMedia}
+                  platforms={platformFields.map(p => p.platform)}
+                  variants={mediaVariants}
+                  onChange={setMediaVariants}
+                />
+              </Paper>
+            )}
+
             {/* Scheduling */}
             <Divider sx={{ my: 3 }} />
             
@@ -666,6 +696,15 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
                   <Typography variant="subtitle2" gutterBottom>
                     Media: {uploadedMedia.length} file(s)
                   </Typography>
+                  {platformFields.map((platform) => {
+                    const cropped = mediaVariants.filter(v => v.platform === platform.platform);
+                    return cropped.length > 0 && (
+                      <Typography key={platform.platform} variant="body2" color="text.secondary">
+                        {platformOptions.find(p => p.value === platform.platform)?.label}:{' '}
+                        {cropped.map(v => v.preset.label).join(', ')}
+                      </Typography>
+                    );
+                  })}
                 </Box>
               )}
             </Paper>
@@ -707,7 +746,7 @@ export const CreateContentDialog: React.FC<CreateContentDialogProps> = ({
 
         {error && (
           <Alert severity="error" sx={{ mb: 2 }}>
-            {(error as any)?.data?.error?.message || 'Failed to create content'}
+            {getApiErrorMessage(error, 'Failed to create content')}
           </Alert>
         )}
 
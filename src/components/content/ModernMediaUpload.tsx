@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -49,8 +49,15 @@ import {
   CheckCircle,
   Error as ErrorIcon,
   Close,
+  Pause,
+  PlayArrow,
+  Refresh,
 } from '@mui/icons-material';
 
+import type { UploadProgress } from '../../store/api/mediaApi';
+import { useUploads } from '../../hooks/useUploads';
+import { UploadProgressList } from '../media/UploadProgressList';
+
 interface MediaFile {
   id: string;
   file: File;
@@ -61,7 +68,9 @@ interface MediaFile {
   thumbnail?: string;
   uploadProgress: number;
   uploadStatus: 'pending' | 'uploading' | 'completed' | 'error';
+  paused?: boolean;
   error?: string;
+  mediaId?: string;
   metadata?: {
     dimensions?: { width: number; height: number };
     duration?: number;
@@ -106,6 +115,21 @@ const optimizationSuggestions = [
   'Convert to optimal format',
 ];
 
+const UPLOAD_STATUS: Record<UploadProgress['status'], MediaFile['uploadStatus']> = {
+  pending: 'pending',
+  processing: 'uploading',
+  uploading: 'uploading',
+  paused: 'uploading',
+  completed: 'completed',
+  failed: 'error',
+};
+
+interface SelectedFile {
+  id: string;
+  file: File;
+  previewUrl?: string;
+}
+
 export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
   onFilesSelected,
   onFileRemove,
@@ -118,12 +142,44 @@ export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
   const theme = useTheme();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropZoneRef = useRef<HTMLDivElement>(null);
-  const [files, setFiles] = useState<MediaFile[]>([]);
+  const [selected, setSelected] = useState<SelectedFile[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<MediaFile | null>(null);
   const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
   const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; fileId: string } | null>(null);
+  const ids = useMemo(() => selected.map((item) => item.id), [selected]);
+  const { uploads, add, pause, resume, retry, cancel } = useUploads(ids);
+  const { uploads: allUploads } = useUploads();
+  const restoredUploads = allUploads.filter((upload) => upload.requiresFile);
+
+  // Local previews, with progress, dimensions and the stored file from the shared upload manager
+  const files = useMemo(
+    () =>
+      selected.map(({ id, file, previewUrl }): MediaFile => {
+        const upload = uploads.find((candidate) => candidate.fileId === id);
+        const metadata = upload?.media?.metadata;
+        return {
+          id,
+          file,
+          name: file.name,
+          size: file.size,
+          type: file.type,
+          url: upload?.media?.url,
+          thumbnail: upload?.media?.thumbnailUrl || previewUrl,
+          uploadProgress: upload?.progress ?? 0,
+          uploadStatus: upload ? UPLOAD_STATUS[upload.status] : 'pending',
+          paused: upload?.status === 'paused',
+          error: upload?.error,
+          mediaId: upload?.media?.id,
+          metadata: metadata && {
+            dimensions: metadata.width && metadata.height ? { width: metadata.width, height: metadata.height } : undefined,
+            duration: metadata.duration,
+            format: file.type,
+          },
+        };
+      }),
+    [selected, uploads]
+  );
 
   useEffect(() => {
     onFilesSelected(files);
@@ -132,117 +188,28 @@ export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
   const handleFileSelect = useCallback((selectedFiles: FileList | null) => {
     if (!selectedFiles) return;
 
-    const newFiles = Array.from(selectedFiles)
+    const accepted = Array.from(selectedFiles)
       .filter((file) => {
         if (!acceptedTypes.includes(file.type)) return false;
         if (file.size > maxFileSize * 1024 * 1024) return false;
         return true;
       })
-      .slice(0, maxFiles - files.length)
-      .map((file): MediaFile => ({
-        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        file,
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        uploadProgress: 0,
-        uploadStatus: 'pending',
-      }));
-
-    if (newFiles.length > 0) {
-      setFiles((prev) => [...prev, ...newFiles]);
-      uploadFiles(newFiles);
-    }
-  }, [acceptedTypes, maxFileSize, maxFiles, files.length]);
-
-  const uploadFiles = async (filesToUpload: MediaFile[]) => {
-    setIsUploading(true);
-
-    for (const file of filesToUpload) {
-      try {
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === file.id ? { ...f, uploadStatus: 'uploading' as const } : f
-          )
-        );
-
-        // Simulate upload progress
-        for (let progress = 0; progress <= 100; progress += 10) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-          setFiles((prev) =>
-            prev.map((f) =>
-              f.id === file.id ? { ...f, uploadProgress: progress } : f
-            )
-          );
-        }
-
-        // Generate preview URL
-        const url = URL.createObjectURL(file.file);
-        const thumbnail = file.type.startsWith('image/') ? url : undefined;
-
-        // Get metadata for images and videos
-        const metadata = await getFileMetadata(file.file);
-
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === file.id
-              ? {
-                  ...f,
-                  url,
-                  thumbnail,
-                  metadata,
-                  uploadStatus: 'completed' as const,
-                  uploadProgress: 100,
-                }
-              : f
-          )
-        );
-      } catch (error) {
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === file.id
-              ? {
-                  ...f,
-                  uploadStatus: 'error' as const,
-                  error: 'Upload failed',
-                }
-              : f
-          )
-        );
-      }
+      .slice(0, maxFiles - selected.length);
+
+    if (accepted.length > 0) {
+      const uploadIds = add(accepted);
+      setSelected((prev) => [
+        ...prev,
+        ...accepted
+          .map((file, index) => ({
+            id: uploadIds[index],
+            file,
+            previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+          }))
+          .filter((item) => !prev.some((existing) => existing.id === item.id)),
+      ]);
     }
-
-    setIsUploading(false);
-  };
-
-  const getFileMetadata = async (file: File): Promise<MediaFile['metadata']> => {
-    return new Promise((resolve) => {
-      if (file.type.startsWith('image/')) {
-        const img = new Image();
-        img.onload = () => {
-          resolve({
-            dimensions: { width: img.width, height: img.height },
-            format: file.type,
-          });
-        };
-        img.onerror = () => resolve({ format: file.type });
-        img.src = URL.createObjectURL(file);
-      } else if (file.type.startsWith('video/')) {
-        const video = document.createElement('video');
-        video.onloadedmetadata = () => {
-          resolve({
-            dimensions: { width: video.videoWidth, height: video.videoHeight },
-            duration: video.duration,
-            format: file.type,
-          });
-        };
-        video.onerror = () => resolve({ format: file.type });
-        video.src = URL.createObjectURL(file);
-      } else {
-        resolve({ format: file.type });
-      }
-    });
-  };
+  }, [acceptedTypes, maxFileSize, maxFiles, selected.length, add]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -266,11 +233,12 @@ export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
   );
 
   const handleRemoveFile = (fileId: string) => {
-    const file = files.find((f) => f.id === fileId);
-    if (file?.url) {
-      URL.revokeObjectURL(file.url);
+    const item = selected.find((f) => f.id === fileId);
+    if (item?.previewUrl) {
+      URL.revokeObjectURL(item.previewUrl);
     }
-    setFiles((prev) => prev.filter((f) => f.id !== fileId));
+    cancel(fileId);
+    setSelected((prev) => prev.filter((f) => f.id !== fileId));
     onFileRemove(fileId);
     setMenuAnchor(null);
   };
@@ -338,7 +306,10 @@ export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
           multiple
           accept={acceptedTypes.join(',')}
           style={{ display: 'none' }}
-          onChange={(e) => handleFileSelect(e.target.files)}
+          onChange={(e) => {
+            handleFileSelect(e.target.files);
+            e.target.value = '';
+          }}
         />
 
         <Zoom in={!isDragOver}>
@@ -391,6 +362,16 @@ export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
         </Typography>
       </Paper>
 
+      {/* Uploads interrupted by a reload */}
+      {restoredUploads.length > 0 && (
+        <Alert severity="info" sx={{ mt: 3, '& .MuiAlert-message': { flex: 1 } }}>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            Some uploads were interrupted. Select the same files again to pick up where they left off.
+          </Typography>
+          <UploadProgressList uploads={restoredUploads} onSelectFile={() => fileInputRef.current?.click()} dense />
+        </Alert>
+      )}
+
       {/* File List */}
       {files.length > 0 && (
         <Box sx={{ mt: 3 }}>
@@ -461,13 +442,8 @@ export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
                       {file.uploadStatus === 'error' && (
                         <ErrorIcon sx={{ color: theme.palette.error.main, fontSize: 20 }} />
                       )}
-                      {file.uploadStatus === 'uploading' && (
-                        <LinearProgress
-                          size={20}
-                          variant="determinate"
-                          value={file.uploadProgress}
-                          sx={{ width: 20, height: 20 }}
-                        />
+                      {file.paused && (
+                        <Pause sx={{ color: theme.palette.warning.main, fontSize: 20 }} />
                       )}
                     </Box>
 
@@ -540,21 +516,50 @@ export const ModernMediaUpload: React.FC<MediaUploadProps> = ({
 
                     {/* Upload Progress */}
                     {file.uploadStatus === 'uploading' && (
-                      <LinearProgress
-                        variant="determinate"
-                        value={file.uploadProgress}
-                        sx={{
-                          mt: 1,
-                          height: 4,
-                          borderRadius: 2,
-                          backgroundColor: alpha(theme.palette.primary.main, 0.1),
-                        }}
-                      />
+                      <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1 }}>
+                        <LinearProgress
+                          variant="determinate"
+                          value={file.uploadProgress}
+                          sx={{
+                            flex: 1,
+                            height: 4,
+                            borderRadius: 2,
+                            backgroundColor: alpha(file.paused ? theme.palette.warning.main : getStatusColor(file.uploadStatus), 0.1),
+                            '& .MuiLinearProgress-bar': {
+                              backgroundColor: file.paused ? theme.palette.warning.main : getStatusColor(file.uploadStatus),
+                            },
+                          }}
+                        />
+                        <Typography variant="caption" color="text.secondary">
+                          {file.uploadProgress}%
+                        </Typography>
+                        {!file.paused ? (
+                          <Tooltip title="Pause upload">
+                            <IconButton size="small" onClick={() => pause(file.id)}>
+                              <Pause fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        ) : (
+                          <Tooltip title="Resume upload">
+                            <IconButton size="small" onClick={() => resume(file.id)}>
+                              <PlayArrow fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Stack>
                     )}
 
                     {/* Error Message */}
                     {file.uploadStatus === 'error' && file.error && (
-                      <Alert severity="error" sx={{ mt: 1, p: 0.5 }}>
+                      <Alert
+                        severity="error"
+                        sx={{ mt: 1, p: 0.5 }}
+                        action={
+                          <IconButton size="small" onClick={() => retry(file.id)} aria-label="Retry upload">
+                            <Refresh fontSize="small" />
+                          </IconButton>
+                        }
+                      >
                         <Typography variant="caption">{file.error}</Typography>
                       </Alert>
                     )}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -33,10 +33,8 @@ import {
 import {
   FormatBold,
   FormatItalic,
-  FormatUnderlined,
   FormatListBulleted,
   FormatListNumbered,
-  FormatQuote,
   Link,
   Image,
   EmojiEmotions,
@@ -46,7 +44,6 @@ import {
   Tag,
   Schedule,
   Visibility,
-  Code,
   FormatClear,
   MoreVert,
   ContentCopy,
@@ -60,7 +57,29 @@ import {
   Lightbulb,
   Insights,
   Speed,
+  Policy,
+  AutoFixHigh,
 } from '@mui/icons-material';
+import { useBrandGuidelines } from '../../hooks/useBrandGuidelines';
+import { useContentRules } from '../../hooks/useContentRules';
+import {
+  applyTextEdits,
+  validateBrandGuidelines,
+  type BrandGuidelineRules,
+  type TextRange,
+  type ValidationError,
+} from '../../utils/contentValidation';
+import { emptyHistory, recordChange, redo, undo, type HistoryStep } from '../../utils/editHistory';
+import { parseMarkdown, renderDocument, type InlineMark } from '../../utils/richText';
+import {
+  activeMarks,
+  insertLink,
+  toggleList,
+  toggleMark,
+  type EditResult,
+} from '../../utils/richTextCommands';
+import { characterLimitOf, measureText } from '../../utils/textMetrics';
+import { runValidationRules } from '../../utils/validationRules';
 
 interface ContentPlatform {
   platform: string;
@@ -81,17 +100,10 @@ interface RichTextEditorProps {
   onSchedule?: () => void;
   onPreview?: () => void;
   showPlatformOptimization?: boolean;
+  brandGuidelines?: BrandGuidelineRules; // defaults to the active workspace's guidelines
+  contentPillar?: string; // for organization content rules scoped to pillars
 }
 
-const platformLimits: Record<string, number> = {
-  twitter: 280,
-  facebook: 63206,
-  instagram: 2200,
-  linkedin: 3000,
-  tiktok: 2200,
-  youtube: 5000,
-};
-
 const platformColors: Record<string, string> = {
   twitter: '#1DA1F2',
   facebook: '#1877F2',
@@ -121,13 +133,14 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
   onSchedule,
   onPreview,
   showPlatformOptimization = true,
+  brandGuidelines,
+  contentPillar,
 }) => {
   const theme = useTheme();
   const textFieldRef = useRef<HTMLTextAreaElement>(null);
-  const [formatting, setFormatting] = useState<string[]>([]);
-  const [selection, setSelection] = useState({ start: 0, end: 0 });
-  const [undoStack, setUndoStack] = useState<string[]>([]);
-  const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [selection, setSelection] = useState<TextRange>({ start: 0, end: 0 });
+  const [history, setHistory] = useState(emptyHistory);
+  const [outputTarget, setOutputTarget] = useState<string | null>(null);
   const [moreMenuAnchor, setMoreMenuAnchor] = useState<null | HTMLElement>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -139,10 +152,32 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
   const typingTimeout = useRef<NodeJS.Timeout>();
 
   const primaryPlatform = platforms[0]?.platform || 'twitter';
-  const characterLimit = maxLength || platformLimits[primaryPlatform] || 5000;
-  const remaining = characterLimit - value.length;
-  const isOverLimit = remaining < 0;
-  const progress = (value.length / characterLimit) * 100;
+  // Limits apply to what each platform publishes, not to the Markdown source
+  const document = useMemo(() => parseMarkdown(value), [value]);
+  const { count, limit: characterLimit, remaining, isOver: isOverLimit } = useMemo(
+    () =>
+      measureText(
+        renderDocument(document, primaryPlatform),
+        primaryPlatform,
+        maxLength || characterLimitOf(primaryPlatform)
+      ),
+    [document, primaryPlatform, maxLength]
+  );
+  const formatting = activeMarks(value, selection);
+  const outputTargets = [...platforms.map(({ platform }) => platform), 'email'];
+  const output = outputTargets.includes(outputTarget ?? '') ? outputTarget! : outputTargets[0];
+  const progress = (count / characterLimit) * 100;
+
+  const { rules: workspaceBrandRules } = useBrandGuidelines();
+  const brandRules = brandGuidelines ?? workspaceBrandRules;
+  const { rules: contentRules } = useContentRules();
+  const brandIssues = useMemo(() => {
+    const platformNames = platforms.map(({ platform }) => platform);
+    return [
+      ...(brandRules ? validateBrandGuidelines(value, brandRules, platformNames) : []),
+      ...runValidationRules(contentRules, { content: value, platforms: platformNames, pillar: contentPillar }),
+    ];
+  }, [value, brandRules, contentRules, platforms, contentPillar]);
 
   // Auto-save indicator
   useEffect(() => {
@@ -154,89 +189,99 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
     }
   }, [value, isTyping]);
 
-  const handleFormat = (event: React.MouseEvent<HTMLElement>, newFormats: string[]) => {
-    setFormatting(newFormats);
-  };
-
-  const handleTextChange = (newValue: string) => {
-    setUndoStack([...undoStack, value]);
-    setRedoStack([]);
+  // Typing coalesces into word-sized undo steps; toolbar commands and fixes are a step each
+  const handleTextChange = (newValue: string, coalesce = true) => {
+    setHistory((previous) => recordChange(previous, value, newValue, { coalesce }));
     onChange(newValue);
     setIsTyping(true);
   };
 
-  const handleUndo = () => {
-    if (undoStack.length > 0) {
-      const previousValue = undoStack[undoStack.length - 1];
-      setRedoStack([...redoStack, value]);
-      setUndoStack(undoStack.slice(0, -1));
-      onChange(previousValue);
-    }
+  const restoreSelection = (range: TextRange) => {
+    setSelection(range);
+    setTimeout(() => selectRange(range), 0);
   };
 
-  const handleRedo = () => {
-    if (redoStack.length > 0) {
-      const nextValue = redoStack[redoStack.length - 1];
-      setUndoStack([...undoStack, value]);
-      setRedoStack(redoStack.slice(0, -1));
-      onChange(nextValue);
-    }
+  const applyCommand = ({ text, selection: range }: EditResult) => {
+    handleTextChange(text, false);
+    restoreSelection(range);
   };
 
-  const insertAtCursor = (text: string) => {
-    if (textFieldRef.current) {
-      const start = textFieldRef.current.selectionStart || 0;
-      const end = textFieldRef.current.selectionEnd || 0;
-      const newValue = value.substring(0, start) + text + value.substring(end);
-      handleTextChange(newValue);
-      setTimeout(() => {
-        if (textFieldRef.current) {
-          textFieldRef.current.selectionStart = start + text.length;
-          textFieldRef.current.selectionEnd = start + text.length;
-          textFieldRef.current.focus();
-        }
-      }, 0);
-    }
+  const applyHistoryStep = (step: HistoryStep | null) => {
+    if (!step) return;
+    setHistory(step.history);
+    onChange(step.text);
+    restoreSelection(step.selection);
   };
 
-  const wrapSelection = (prefix: string, suffix: string) => {
-    if (textFieldRef.current) {
-      const start = textFieldRef.current.selectionStart || 0;
-      const end = textFieldRef.current.selectionEnd || 0;
-      const selectedText = value.substring(start, end);
-      const newText = prefix + (selectedText || 'text') + suffix;
-      const newValue = value.substring(0, start) + newText + value.substring(end);
-      handleTextChange(newValue);
+  const handleUndo = () => applyHistoryStep(undo(history, value));
+
+  const handleRedo = () => applyHistoryStep(redo(history, value));
+
+  const handleMark = (mark: InlineMark) => applyCommand(toggleMark(value, selection, mark));
+
+  const handleList = (ordered: boolean) => applyCommand(toggleList(value, selection, ordered));
+
+  const handleInsertLink = () => {
+    const url = window.prompt('Link URL');
+    if (url?.trim()) applyCommand(insertLink(value, selection, url));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey)) return;
+    const key = event.key.toLowerCase();
+    const action =
+      key === 'z' && event.shiftKey
+        ? handleRedo
+        : key === 'z'
+        ? handleUndo
+        : key === 'y'
+        ? handleRedo
+        : key === 'b'
+        ? () => handleMark('bold')
+        : key === 'i'
+        ? () => handleMark('italic')
+        : undefined;
+    if (action) {
+      event.preventDefault();
+      action();
     }
   };
 
-  const insertFormatting = (format: string) => {
-    const formatMap: Record<string, { prefix: string; suffix: string }> = {
-      bold: { prefix: '**', suffix: '**' },
-      italic: { prefix: '*', suffix: '*' },
-      underline: { prefix: '__', suffix: '__' },
-      code: { prefix: '`', suffix: '`' },
-      quote: { prefix: '\n> ', suffix: '' },
-    };
+  const handleSelect = (event: React.SyntheticEvent) => {
+    const { selectionStart, selectionEnd } = event.target as HTMLTextAreaElement;
+    setSelection({ start: selectionStart, end: selectionEnd });
+  };
 
-    if (formatMap[format]) {
-      const { prefix, suffix } = formatMap[format];
-      wrapSelection(prefix, suffix);
+  // 1-based line and column, as shown next to each brand and rule issue
+  const positionOf = (offset: number) => {
+    const before = value.slice(0, offset).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  };
+
+  const selectRange = ({ start, end }: TextRange) => {
+    if (textFieldRef.current) {
+      textFieldRef.current.focus();
+      textFieldRef.current.setSelectionRange(start, end);
     }
   };
 
-  const insertList = (type: 'bullet' | 'number') => {
-    const prefix = type === 'bullet' ? '\n• ' : '\n1. ';
-    insertAtCursor(prefix);
+  const applyBrandFix = (issue: ValidationError) => {
+    if (issue.autoFix?.edits) handleTextChange(applyTextEdits(value, issue.autoFix.edits), false);
+  };
+
+  const applyAllBrandFixes = () => {
+    handleTextChange(applyTextEdits(value, brandIssues.flatMap(issue => issue.autoFix?.edits ?? [])), false);
   };
 
   const getPlatformProgress = (platform: string) => {
-    const limit = platformLimits[platform] || 5000;
-    const platformProgress = (value.length / limit) * 100;
+    const { count: platformCount, limit, remaining: platformRemaining, isOver } = measureText(
+      renderDocument(document, platform),
+      platform
+    );
     return {
-      progress: Math.min(platformProgress, 100),
-      remaining: limit - value.length,
-      isOver: value.length > limit,
+      progress: Math.min((platformCount / limit) * 100, 100),
+      remaining: platformRemaining,
+      isOver,
       limit,
     };
   };
@@ -295,7 +340,6 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
             {/* Text Formatting Group */}
             <ToggleButtonGroup
               value={formatting}
-              onChange={handleFormat}
               size="small"
               sx={{
                 '& .MuiToggleButton-root': {
@@ -318,26 +362,16 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
                 },
               }}
             >
-              <ToggleButton value="bold" onClick={() => insertFormatting('bold')}>
+              <ToggleButton value="bold" onClick={() => handleMark('bold')}>
                 <Tooltip title="Bold (Ctrl+B)" arrow>
                   <FormatBold fontSize="small" />
                 </Tooltip>
               </ToggleButton>
-              <ToggleButton value="italic" onClick={() => insertFormatting('italic')}>
+              <ToggleButton value="italic" onClick={() => handleMark('italic')}>
                 <Tooltip title="Italic (Ctrl+I)" arrow>
                   <FormatItalic fontSize="small" />
                 </Tooltip>
               </ToggleButton>
-              <ToggleButton value="underline" onClick={() => insertFormatting('underline')}>
-                <Tooltip title="Underline (Ctrl+U)" arrow>
-                  <FormatUnderlined fontSize="small" />
-                </Tooltip>
-              </ToggleButton>
-              <ToggleButton value="code" onClick={() => insertFormatting('code')}>
-                <Tooltip title="Code" arrow>
-                  <Code fontSize="small" />
-                </Tooltip>
-              </ToggleButton>
             </ToggleButtonGroup>
 
             <Divider orientation="vertical" flexItem sx={{ mx: 1, opacity: 0.2 }} />
@@ -345,13 +379,12 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
             {/* Structure Tools */}
             <Stack direction="row" spacing={0.5}>
               {[
-                { icon: FormatListBulleted, action: () => insertList('bullet'), tooltip: 'Bullet List' },
+                { icon: FormatListBulleted, action: () => handleList(false), tooltip: 'Bullet List' },
                 {
                   icon: FormatListNumbered,
-                  action: () => insertList('number'),
+                  action: () => handleList(true),
                   tooltip: 'Numbered List',
                 },
-                { icon: FormatQuote, action: () => insertFormatting('quote'), tooltip: 'Quote' },
               ].map((tool, index) => (
                 <IconButton
                   key={index}
@@ -378,7 +411,7 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
             {/* Media & Enhancement Tools */}
             <Stack direction="row" spacing={0.5}>
               {[
-                { icon: Link, tooltip: 'Insert Link' },
+                { icon: Link, action: handleInsertLink, tooltip: 'Insert Link' },
                 { icon: Image, tooltip: 'Insert Image' },
                 { icon: EmojiEmotions, tooltip: 'Insert Emoji' },
                 { icon: Tag, action: onHashtagSuggest, tooltip: 'Hashtag Suggestions' },
@@ -439,7 +472,7 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
               <IconButton
                 size="small"
                 onClick={handleUndo}
-                disabled={undoStack.length === 0}
+                disabled={history.undo.length === 0}
                 sx={{ borderRadius: 2.5 }}
               >
                 <Tooltip title="Undo (Ctrl+Z)" arrow>
@@ -449,7 +482,7 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
               <IconButton
                 size="small"
                 onClick={handleRedo}
-                disabled={redoStack.length === 0}
+                disabled={history.redo.length === 0}
                 sx={{ borderRadius: 2.5 }}
               >
                 <Tooltip title="Redo (Ctrl+Shift+Z)" arrow>
@@ -484,6 +517,8 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
                 fullWidth
                 value={value}
                 onChange={(e) => handleTextChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onSelect={handleSelect}
                 placeholder={placeholder}
                 variant="standard"
                 InputProps={{
@@ -606,6 +641,44 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
                   })}
                 </Stack>
 
+                {/* Rendered Output */}
+                {value.trim() && (
+                  <Box sx={{ mb: 3 }}>
+                    <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+                      <Typography variant="subtitle2">Publishes As</Typography>
+                      <Box sx={{ flexGrow: 1 }} />
+                      <ToggleButtonGroup
+                        exclusive
+                        size="small"
+                        value={output}
+                        onChange={(_, target) => target && setOutputTarget(target)}
+                      >
+                        {outputTargets.map((target) => (
+                          <ToggleButton key={target} value={target} sx={{ px: 1, py: 0.25 }}>
+                            <Tooltip title={target.charAt(0).toUpperCase() + target.slice(1)} arrow>
+                              <span>{platformIcons[target] ?? '✉️'}</span>
+                            </Tooltip>
+                          </ToggleButton>
+                        ))}
+                      </ToggleButtonGroup>
+                    </Stack>
+                    <Card variant="outlined" sx={{ p: 1.5, maxHeight: 200, overflow: 'auto' }}>
+                      {output === 'email' ? (
+                        <Typography
+                          variant="body2"
+                          component="div"
+                          sx={{ '& p, & ul, & ol': { my: 0.5 } }}
+                          dangerouslySetInnerHTML={{ __html: renderDocument(document, 'email') }}
+                        />
+                      ) : (
+                        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                          {renderDocument(document, output)}
+                        </Typography>
+                      )}
+                    </Card>
+                  </Box>
+                )}
+
                 {/* AI Suggestions */}
                 <Accordion defaultExpanded>
                   <AccordionSummary expandIcon={<ExpandMore />}>
@@ -667,6 +740,75 @@ export const ModernRichTextEditor: React.FC<RichTextEditorProps> = ({
           )}
         </Grid>
 
+        {/* Brand Guideline Issues */}
+        {brandIssues.length > 0 && (
+          <Box
+            sx={{
+              px: 3,
+              py: 2,
+              borderTop: `1px solid ${alpha(theme.palette.divider, 0.06)}`,
+              background: alpha(theme.palette.warning.main, 0.04),
+            }}
+          >
+            <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1.5 }}>
+              <Policy color="warning" fontSize="small" />
+              <Typography variant="subtitle2" fontWeight={600}>
+                Brand Guidelines & Content Rules
+              </Typography>
+              <Chip size="small" label={brandIssues.length} color="warning" />
+              <Box sx={{ flexGrow: 1 }} />
+              {brandIssues.some(issue => issue.autoFix?.edits) && (
+                <Button
+                  size="small"
+                  startIcon={<AutoFixHigh />}
+                  onClick={applyAllBrandFixes}
+                  sx={{ borderRadius: 2.5 }}
+                >
+                  Fix All
+                </Button>
+              )}
+            </Stack>
+            <Stack spacing={1}>
+              {brandIssues.map((issue, index) => {
+                const location = issue.locations?.[0];
+                const position = location && positionOf(location.start);
+                return (
+                  <Stack
+                    key={`${issue.ruleId ?? issue.code}-${location?.start ?? index}`}
+                    direction="row"
+                    alignItems="center"
+                    spacing={1}
+                  >
+                    <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                      <Typography variant="body2">{issue.message}</Typography>
+                      {position && (
+                        <Typography variant="caption" color="text.secondary">
+                          Line {position.line}, column {position.column}
+                        </Typography>
+                      )}
+                    </Box>
+                    {location && (
+                      <Button size="small" onClick={() => selectRange(location)} sx={{ borderRadius: 2.5 }}>
+                        Show
+                      </Button>
+                    )}
+                    {issue.autoFix?.edits && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        onClick={() => applyBrandFix(issue)}
+                        sx={{ borderRadius: 2.5, textTransform: 'none', whiteSpace: 'nowrap' }}
+                      >
+                        {issue.autoFix.action}
+                      </Button>
+                    )}
+                  </Stack>
+                );
+              })}
+            </Stack>
+          </Box>
+        )}
+
         {/* Enhanced Footer */}
         <Box
           sx={{
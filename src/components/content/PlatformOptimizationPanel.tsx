@@ -59,6 +59,7 @@ import {
   ArrowUpward,
   ArrowDownward,
 } from '@mui/icons-material';
+import { characterLimitOf, countCharacters } from '../../utils/textMetrics';
 
 interface PlatformMetrics {
   platform: string;
@@ -102,15 +103,6 @@ interface PlatformOptimizationProps {
   showAdvancedMetrics?: boolean;
 }
 
-const platformLimits: Record<string, number> = {
-  twitter: 280,
-  facebook: 63206,
-  instagram: 2200,
-  linkedin: 3000,
-  tiktok: 2200,
-  youtube: 5000,
-};
-
 const platformColors: Record<string, string> = {
   twitter: '#1DA1F2',
   facebook: '#1877F2',
@@ -132,8 +124,8 @@ const platformIcons: Record<string, string> = {
 // Mock data for demonstration
 const getMockMetrics = (platform: string, content: string): PlatformMetrics => ({
   platform,
-  characterLimit: platformLimits[platform] || 5000,
-  currentLength: content.length,
+  characterLimit: characterLimitOf(platform),
+  currentLength: countCharacters(content, platform),
   optimizationScore: Math.floor(Math.random() * 40) + 60, // 60-100
   engagement: {
     predicted: Math.floor(Math.random() * 5) + 3, // 3-8%
@@ -338,7 +330,7 @@ export const PlatformOptimizationPanel: React.FC<PlatformOptimizationProps> = ({
           <Grid item xs={6} sm={3}>
             <Stack alignItems="center">
               <Typography variant="h4" color="primary" fontWeight={700}>
-                {content.length}
+                {countCharacters(content)}
               </Typography>
               <Typography variant="caption" color="text.secondary">
                 Characters
@@ -0,0 +1,36 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+
+import { PlatformPreview } from './PlatformPreview';
+import type { ContentPlatform } from '../../types/content';
+
+const renderPreview = (content: string, platform: ContentPlatform['platform'], extra: Partial<ContentPlatform> = {}) =>
+  render(<PlatformPreview content={content} platforms={[{ platform, ...extra }]} mediaFiles={[]} showAllPreviews={false} />);
+
+describe('PlatformPreview', () => {
+  it('shows Markdown the way each platform renders it', () => {
+    renderPreview('**Bold 1** and *it* for @acme', 'linkedin');
+    expect(screen.getByText('𝗕𝗼𝗹𝗱 𝟭 and 𝘪𝘵 for @acme')).toBeInTheDocument();
+  });
+
+  it('cuts X posts at the weighted limit', () => {
+    renderPreview('x'.repeat(300), 'twitter');
+    expect(screen.getByText(`${'x'.repeat(278)}…`)).toBeInTheDocument();
+  });
+
+  it('shows each post of a thread', () => {
+    renderPreview('First post\n\nSecond post', 'twitter', {
+      thread: [
+        { body: 'First post', media: [] },
+        { body: 'Second post', media: [] },
+      ],
+    });
+    expect(screen.getByText('First post')).toBeInTheDocument();
+    expect(screen.getByText('Second post')).toBeInTheDocument();
+  });
+
+  it('asks for content when there is none', () => {
+    renderPreview('  ', 'instagram');
+    expect(screen.getByText('Start typing to see your content preview')).toBeInTheDocument();
+  });
+});
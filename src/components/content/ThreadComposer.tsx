@@ -0,0 +1,376 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  FormControlLabel,
+  Switch,
+  IconButton,
+  Alert,
+  Chip,
+  Grid,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  AttachFile as AttachIcon,
+  Close as CloseIcon,
+  CallSplit as SplitIcon,
+  Schedule as ScheduleIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import {
+  useCreateContentMutation,
+  useUploadMediaMutation,
+  type Content,
+  type ContentPlatform,
+  type ThreadPost,
+} from '../../store/api/contentApi';
+import type { MediaFile } from '../../types/content';
+import { measureText } from '../../utils/textMetrics';
+import {
+  MAX_THREAD_POST_MEDIA,
+  numberThread,
+  splitIntoThread,
+  stripThreadNumbering,
+  threadProblems,
+} from '../../utils/threadSplitting';
+import { platformLabel } from '../../utils/platforms';
+import { PlatformPreview } from './PlatformPreview';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+interface ThreadComposerProps {
+  platform?: ContentPlatform['platform'];
+  onCreated?: (content: Content) => void;
+}
+
+const localMediaId = () => `local-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const ThreadComposer: React.FC<ThreadComposerProps> = ({ platform = 'twitter', onCreated }) => {
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [numbering, setNumbering] = useState(true);
+  const [posts, setPosts] = useState<ThreadPost<MediaFile>[]>([]);
+  const [edited, setEdited] = useState(false); // posts changed by hand since the last split
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<string | null>(null);
+
+  const [createContent, { isLoading: saving }] = useCreateContentMutation();
+  const [uploadMedia] = useUploadMediaMutation();
+
+  // Posts are kept without their "i/n" markers so they stay editable; markers are added on the way out
+  const split = (source: string, numbered: boolean, previous: ThreadPost<MediaFile>[]) =>
+    source.trim()
+      ? splitIntoThread(source, platform, { numbering: numbered })
+          .map(stripThreadNumbering)
+          .map((body, index) => ({ body, media: previous[index]?.media ?? [] }))
+      : [];
+
+  const bodies = posts.map(({ body }) => body);
+  const thread = (numbering ? numberThread(bodies) : bodies).map((body, index) => ({ body, media: posts[index].media }));
+  const uploading = posts.some(({ media }) => media.some(({ uploadStatus }) => uploadStatus === 'uploading'));
+  const problems = [
+    ...threadProblems(thread, platform),
+    ...(posts.some(({ media }) => media.some(({ uploadStatus }) => uploadStatus === 'error'))
+      ? ['Remove the attachments that failed to upload']
+      : []),
+  ];
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setSaved(null);
+    if (!edited) setPosts((previous) => split(value, numbering, previous));
+  };
+
+  const handleNumberingChange = (value: boolean) => {
+    setNumbering(value);
+    if (!edited) setPosts((previous) => split(text, value, previous));
+  };
+
+  const handleResplit = () => {
+    setEdited(false);
+    setPosts((previous) => split(text, numbering, previous));
+  };
+
+  const updatePost = (index: number, patch: Partial<ThreadPost<MediaFile>>) => {
+    setEdited(true);
+    setPosts((previous) => previous.map((post, i) => (i === index ? { ...post, ...patch } : post)));
+  };
+
+  const insertPost = (index: number) => {
+    setEdited(true);
+    setPosts((previous) => [...previous.slice(0, index), { body: '', media: [] }, ...previous.slice(index)]);
+  };
+
+  const removePost = (index: number) => {
+    setEdited(true);
+    setPosts((previous) => previous.filter((_, i) => i !== index));
+  };
+
+  const updateMedia = (id: string, patch: Partial<MediaFile>) =>
+    setPosts((previous) =>
+      previous.map((post) => ({
+        ...post,
+        media: post.media.map((file) => (file.id === id ? { ...file, ...patch } : file)),
+      }))
+    );
+
+  const removeMedia = (id: string) =>
+    setPosts((previous) => previous.map((post) => ({ ...post, media: post.media.filter((file) => file.id !== id) })));
+
+  const handleAttach = async (index: number, event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).slice(0, MAX_THREAD_POST_MEDIA - posts[index].media.length);
+    event.target.value = '';
+
+    const attached = files.map((file): MediaFile => {
+      const url = URL.createObjectURL(file);
+      return {
+        id: localMediaId(),
+        file,
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        url,
+        thumbnail: file.type.startsWith('image/') ? url : undefined,
+        uploadProgress: 0,
+        uploadStatus: 'uploading',
+      };
+    });
+    // Attachments stay with their post when the text is split again, so they don't count as an edit
+    setPosts((previous) =>
+      previous.map((post, i) => (i === index ? { ...post, media: [...post.media, ...attached] } : post))
+    );
+
+    for (const file of attached) {
+      const formData = new FormData();
+      formData.append('file', file.file);
+      try {
+        const { media } = await uploadMedia(formData).unwrap();
+        updateMedia(file.id, { id: media.id, url: media.url, uploadProgress: 100, uploadStatus: 'completed' });
+      } catch (err) {
+        updateMedia(file.id, {
+          uploadStatus: 'error',
+          error: getApiErrorMessage(err, 'Upload failed'),
+        });
+      }
+    }
+  };
+
+  const handleSave = async (schedule: boolean) => {
+    setSaveError(null);
+    try {
+      const { content } = await createContent({
+        title: title.trim() || bodies[0].slice(0, 60),
+        body: bodies.join('\n\n'),
+        type: 'thread',
+        platforms: [
+          {
+            platform,
+            platformSpecific: { threadMode: true },
+            thread: thread.map(({ body, media }) => ({ body, media: media.map(({ id }) => id) })),
+          },
+        ],
+        scheduledAt: schedule ? new Date(scheduledAt).toISOString() : undefined,
+      }).unwrap();
+
+      setSaved(schedule ? `Thread scheduled for ${new Date(scheduledAt).toLocaleString()}` : 'Thread saved as a draft');
+      setTitle('');
+      setText('');
+      setPosts([]);
+      setEdited(false);
+      setScheduledAt('');
+      onCreated?.(content);
+    } catch (err) {
+      setSaveError(getApiErrorMessage(err, 'Failed to save the thread'));
+    }
+  };
+
+  const canSave = posts.length > 0 && !problems.length && !uploading && !saving;
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12} lg={7}>
+        <Card>
+          <CardHeader
+            title={`${platformLabel(platform)} Thread`}
+            subheader="Write the whole thread; it is split between paragraphs and sentences to fit each post"
+          />
+          <CardContent>
+            <Stack spacing={2}>
+              <TextField label="Title" value={title} onChange={(e) => setTitle(e.target.value)} fullWidth size="small" />
+              <TextField
+                label="Thread text"
+                value={text}
+                onChange={(e) => handleTextChange(e.target.value)}
+                multiline
+                minRows={6}
+                fullWidth
+              />
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <FormControlLabel
+                  control={<Switch checked={numbering} onChange={(e) => handleNumberingChange(e.target.checked)} />}
+                  label='Number posts ("1/n")'
+                />
+                {posts.length > 0 && (
+                  <Chip label={`${posts.length} post${posts.length === 1 ? '' : 's'}`} color="primary" variant="outlined" />
+                )}
+              </Box>
+
+              {edited && (
+                <Alert
+                  severity="info"
+                  action={
+                    <Button color="inherit" size="small" startIcon={<SplitIcon />} onClick={handleResplit}>
+                      Re-split
+                    </Button>
+                  }
+                >
+                  Posts were edited by hand, so changes to the thread text no longer split them again.
+                </Alert>
+              )}
+
+              {posts.map((post, index) => {
+                const measured = measureText(thread[index].body, platform);
+                return (
+                  <Card key={index} variant="outlined">
+                    <CardContent sx={{ pb: '16px !important' }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                        <Typography variant="subtitle2">Post {index + 1}</Typography>
+                        <Stack direction="row" spacing={0.5} alignItems="center">
+                          <Typography variant="caption" color={measured.isOver ? 'error' : 'text.secondary'}>
+                            {measured.count} / {measured.limit}
+                          </Typography>
+                          <Tooltip title="Attach media">
+                            <span>
+                              <IconButton
+                                size="small"
+                                component="label"
+                                disabled={post.media.length >= MAX_THREAD_POST_MEDIA}
+                              >
+                                <AttachIcon fontSize="small" />
+                                <input
+                                  hidden
+                                  type="file"
+                                  accept="image/*,video/*"
+                                  multiple
+                                  onChange={(e) => handleAttach(index, e)}
+                                />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <Tooltip title="Add a post after this one">
+                            <IconButton size="small" onClick={() => insertPost(index + 1)}>
+                              <AddIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Remove post">
+                            <span>
+                              <IconButton size="small" disabled={posts.length === 1} onClick={() => removePost(index)}>
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </Stack>
+                      </Box>
+                      <TextField
+                        value={post.body}
+                        onChange={(e) => updatePost(index, { body: e.target.value })}
+                        multiline
+                        minRows={2}
+                        fullWidth
+                        size="small"
+                        error={measured.isOver}
+                        helperText={
+                          numbering && posts.length > 1 ? `Ends with "${index + 1}/${posts.length}" when posted` : undefined
+                        }
+                      />
+                      {post.media.length > 0 && (
+                        <Stack direction="row" spacing={1} sx={{ mt: 1, flexWrap: 'wrap' }}>
+                          {post.media.map((file) => (
+                            <Chip
+                              key={file.id}
+                              size="small"
+                              label={file.name}
+                              color={file.uploadStatus === 'error' ? 'error' : 'default'}
+                              icon={file.uploadStatus === 'uploading' ? <CircularProgress size={12} /> : undefined}
+                              onDelete={() => removeMedia(file.id)}
+                              deleteIcon={<CloseIcon />}
+                              title={file.error}
+                            />
+                          ))}
+                        </Stack>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+
+              {problems.length > 0 && (
+                <Alert severity="warning">
+                  {problems.map((problem) => (
+                    <div key={problem}>{problem}</div>
+                  ))}
+                </Alert>
+              )}
+              {saveError && (
+                <Alert severity="error" onClose={() => setSaveError(null)}>
+                  {saveError}
+                </Alert>
+              )}
+              {saved && (
+                <Alert severity="success" onClose={() => setSaved(null)}>
+                  {saved}
+                </Alert>
+              )}
+
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+                <TextField
+                  label="Schedule for"
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  size="small"
+                  InputLabelProps={{ shrink: true }}
+                />
+                <Box sx={{ flexGrow: 1 }} />
+                <Button startIcon={<SaveIcon />} disabled={!canSave} onClick={() => handleSave(false)}>
+                  Save Draft
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={<ScheduleIcon />}
+                  disabled={!canSave || !scheduledAt}
+                  onClick={() => handleSave(true)}
+                >
+                  Schedule Thread
+                </Button>
+              </Stack>
+            </Stack>
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Grid item xs={12} lg={5}>
+        <Card>
+          <CardHeader title="Preview" />
+          <CardContent>
+            <PlatformPreview
+              content={thread.map(({ body }) => body).join('\n\n')}
+              platforms={[{ platform, platformSpecific: { threadMode: true }, thread }]}
+              mediaFiles={[]}
+              showAllPreviews={false}
+            />
+          </CardContent>
+        </Card>
+      </Grid>
+    </Grid>
+  );
+};
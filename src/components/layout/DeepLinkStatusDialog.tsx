@@ -0,0 +1,39 @@
+import React from 'react';
+import { Alert, Box, Button, CircularProgress, Dialog, DialogActions, DialogContent, DialogTitle } from '@mui/material';
+
+interface DeepLinkStatusDialogProps {
+  open: boolean;
+  loading: boolean;
+  title: string;
+  notFoundMessage: string;
+  onClose: () => void;
+}
+
+/**
+ * Stands in for a record's dialog when it's opened from a deep link: a
+ * spinner while the record loads, then a not-found message if it doesn't
+ * exist. Closing it should navigate back to the list the link points into.
+ */
+export const DeepLinkStatusDialog: React.FC<DeepLinkStatusDialogProps> = ({
+  open,
+  loading,
+  title,
+  notFoundMessage,
+  onClose,
+}) => (
+  <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+    <DialogTitle>{title}</DialogTitle>
+    <DialogContent>
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress aria-label="Loading" />
+        </Box>
+      ) : (
+        <Alert severity="warning">{notFoundMessage}</Alert>
+      )}
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose}>Close</Button>
+    </DialogActions>
+  </Dialog>
+);
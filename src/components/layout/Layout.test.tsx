@@ -105,7 +105,10 @@ describe('Layout', () => {
 
     mockUseTenant.mockReturnValue({
       currentOrganization: mockOrganization,
-      currentWorkspace: mockWorkspace
+      currentWorkspace: mockWorkspace,
+      permissions: ['manage_organization', 'manage_billing', 'manage_team'],
+      role: 'owner',
+      permissionsLoading: false
     });
   });
 
@@ -16,6 +16,8 @@ import {
   Avatar,
   Menu,
   MenuItem,
+  Snackbar,
+  Alert,
   useTheme,
   useMediaQuery
 } from '@mui/material';
@@ -36,7 +38,11 @@ import {
   VideoLibrary as SocialIcon,
   Assessment as AdvancedAnalyticsIcon,
   Description as ReportsIcon,
-  AutoFixHigh as OptimizationIcon
+  AutoFixHigh as OptimizationIcon,
+  PhotoLibrary as MediaIcon,
+  FactCheck as ApprovalIcon,
+  ViewQuilt as TemplatesIcon,
+  Person as ProfileIcon
 } from '@mui/icons-material';
 import { OrganizationSwitcher } from '../organization/OrganizationSwitcher';
 import { WorkspaceSwitcher } from '../workspace/WorkspaceSwitcher';
@@ -44,7 +50,11 @@ import { AnnouncementCenterTrigger } from '../../features/onboarding/components/
 import { HelpCenterWidget } from '../../features/onboarding/components/HelpCenter/HelpCenterWidget';
 import { useContextualHelp } from '../../features/onboarding/hooks/useContextualHelp';
 import { useAuth } from '../../hooks/useAuth';
+import { useApprovalSla } from '../../hooks/useApprovalSla';
 import { useTenant } from '../../contexts/TenantContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { routeRequirement } from '../../utils/permissions';
+import { prefetchRoute } from '../../pages/lazyPages';
 
 const drawerWidth = 280;
 
@@ -61,6 +71,10 @@ const navigationItems = [
   { id: 'advanced-analytics', label: 'Advanced Analytics', icon: <AdvancedAnalyticsIcon />, path: '/analytics/advanced' },
   { id: 'reports', label: 'Reports', icon: <ReportsIcon />, path: '/reports' },
   { id: 'optimization', label: 'AI Optimization', icon: <OptimizationIcon />, path: '/optimization' },
+  { id: 'media', label: 'Media', icon: <MediaIcon />, path: '/media' },
+  { id: 'approval', label: 'Approvals', icon: <ApprovalIcon />, path: '/approval' },
+  { id: 'templates', label: 'Templates', icon: <TemplatesIcon />, path: '/templates' },
+  { id: 'notifications', label: 'Notifications', icon: <NotificationsIcon />, path: '/notifications' },
   { id: 'team', label: 'Team', icon: <PeopleIcon />, path: '/team' },
   { id: 'integrations', label: 'Integrations', icon: <IntegrationsIcon />, path: '/integrations' },
   { id: 'billing', label: 'Billing', icon: <BillingIcon />, path: '/billing' },
@@ -76,7 +90,11 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const { user, logout } = useAuth();
   const { currentOrganization, currentWorkspace } = useTenant();
+  const { can } = usePermissions();
+  const visibleItems = navigationItems.filter((item) => can(routeRequirement(item.path)));
   const { contextualArticles } = useContextualHelp();
+  // Approval reminders and escalations go out while someone who may escalate is signed in
+  const { error: slaError, dismissError: dismissSlaError } = useApprovalSla({ enabled: Boolean(user && currentOrganization) });
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -128,13 +146,15 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
       
       {/* Navigation */}
       <List>
-        {navigationItems.map((item) => {
+        {visibleItems.map((item) => {
           const isActive = location.pathname.startsWith(item.path);
           return (
             <ListItem key={item.id} disablePadding>
               <ListItemButton
                 selected={isActive}
                 onClick={() => handleNavigation(item.path)}
+                onMouseEnter={() => prefetchRoute(item.path)}
+                onFocus={() => prefetchRoute(item.path)}
                 data-testid={`nav-${item.id}`}
                 sx={{
                   mx: 1,
@@ -255,12 +275,20 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               </Box>
             </MenuItem>
             <Divider />
-            <MenuItem onClick={() => { handleNavigation('/settings/organization'); handleAccountMenuClose(); }}>
+            <MenuItem onClick={() => { handleNavigation('/profile'); handleAccountMenuClose(); }}>
               <ListItemIcon>
-                <BusinessIcon fontSize="small" />
+                <ProfileIcon fontSize="small" />
               </ListItemIcon>
-              Organization Settings
+              Profile
             </MenuItem>
+            {can(routeRequirement('/settings/organization')) && (
+              <MenuItem onClick={() => { handleNavigation('/settings/organization'); handleAccountMenuClose(); }}>
+                <ListItemIcon>
+                  <BusinessIcon fontSize="small" />
+                </ListItemIcon>
+                Organization Settings
+              </MenuItem>
+            )}
             <MenuItem onClick={() => { handleNavigation('/settings'); handleAccountMenuClose(); }}>
               <ListItemIcon>
                 <SettingsIcon fontSize="small" />
@@ -322,6 +350,12 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
         {children}
       </Box>
 
+      <Snackbar open={Boolean(slaError)} autoHideDuration={6000} onClose={dismissSlaError}>
+        <Alert severity="error" onClose={dismissSlaError}>
+          {slaError}
+        </Alert>
+      </Snackbar>
+
       {/* Help Center Widget */}
       <HelpCenterWidget 
         contextualHelp={contextualArticles}
@@ -0,0 +1,118 @@
+import React from 'react';
+import { useLocation } from 'react-router-dom';
+import { Box, Card, CardContent, Container, Grid, Paper, Skeleton } from '@mui/material';
+import { pageRoute } from '../../pages/lazyPages';
+
+export type PageLayout = 'auth' | 'dashboard' | 'analytics' | 'tabs' | 'cards' | 'form';
+
+const Header: React.FC = () => (
+  <Box sx={{ mb: 3 }}>
+    <Skeleton variant="text" width={280} height={48} />
+    <Skeleton variant="text" width={420} />
+  </Box>
+);
+
+const TabBar: React.FC = () => (
+  <Box sx={{ display: 'flex', gap: 3, mb: 3, borderBottom: 1, borderColor: 'divider', pb: 1 }}>
+    {[96, 112, 88, 104].map((width, index) => (
+      <Skeleton key={index} variant="text" width={width} height={32} />
+    ))}
+  </Box>
+);
+
+const StatCards: React.FC = () => (
+  <Grid container spacing={3} sx={{ mb: 3 }}>
+    {[0, 1, 2, 3].map((index) => (
+      <Grid item xs={12} sm={6} md={3} key={index}>
+        <Card>
+          <CardContent>
+            <Skeleton variant="text" width="60%" />
+            <Skeleton variant="text" width="40%" height={40} />
+          </CardContent>
+        </Card>
+      </Grid>
+    ))}
+  </Grid>
+);
+
+const Charts: React.FC = () => (
+  <Grid container spacing={3}>
+    <Grid item xs={12} md={8}>
+      <Skeleton variant="rounded" height={320} />
+    </Grid>
+    <Grid item xs={12} md={4}>
+      <Skeleton variant="rounded" height={320} />
+    </Grid>
+  </Grid>
+);
+
+const CardGrid: React.FC<{ count: number }> = ({ count }) => (
+  <Grid container spacing={3}>
+    {Array.from({ length: count }, (_, index) => (
+      <Grid item xs={12} sm={6} md={4} key={index}>
+        <Card>
+          <CardContent>
+            <Skeleton variant="text" width="70%" height={32} />
+            <Skeleton variant="text" />
+            <Skeleton variant="text" width="80%" />
+            <Skeleton variant="rounded" height={32} width={120} sx={{ mt: 2 }} />
+          </CardContent>
+        </Card>
+      </Grid>
+    ))}
+  </Grid>
+);
+
+const FormFields: React.FC = () => (
+  <Grid container spacing={3}>
+    <Grid item xs={12} md={8}>
+      <Paper sx={{ p: 3 }}>
+        {[0, 1, 2].map((index) => (
+          <Skeleton key={index} variant="rounded" height={56} sx={{ mb: 2 }} />
+        ))}
+        <Skeleton variant="rounded" height={160} />
+      </Paper>
+    </Grid>
+    <Grid item xs={12} md={4}>
+      <Skeleton variant="rounded" height={280} />
+    </Grid>
+  </Grid>
+);
+
+// Placeholder in the shape of a page while its chunk loads, so the page doesn't jump into place
+export const PageSkeleton: React.FC<{ layout: PageLayout }> = ({ layout }) => {
+  if (layout === 'auth') {
+    return (
+      <Container maxWidth="sm" sx={{ py: 8 }} data-testid="page-skeleton">
+        <Paper sx={{ p: 4 }}>
+          <Skeleton variant="text" width="50%" height={48} sx={{ mx: 'auto', mb: 3 }} />
+          <Skeleton variant="rounded" height={56} sx={{ mb: 2 }} />
+          <Skeleton variant="rounded" height={56} sx={{ mb: 3 }} />
+          <Skeleton variant="rounded" height={42} />
+        </Paper>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 3 }} data-testid="page-skeleton">
+      <Header />
+      {(layout === 'analytics' || layout === 'tabs' || layout === 'form') && <TabBar />}
+      {(layout === 'dashboard' || layout === 'analytics') && (
+        <>
+          <StatCards />
+          <Charts />
+        </>
+      )}
+      {layout === 'tabs' && <CardGrid count={6} />}
+      {layout === 'cards' && <CardGrid count={9} />}
+      {layout === 'form' && <FormFields />}
+    </Container>
+  );
+};
+
+// The skeleton for whichever page the current location routes to
+export const RouteSkeleton: React.FC = () => {
+  const { pathname } = useLocation();
+  return <PageSkeleton layout={pageRoute(pathname)?.layout ?? 'cards'} />;
+};
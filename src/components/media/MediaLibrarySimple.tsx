@@ -11,7 +11,8 @@ import {
 } from '@mui/material';
 import {
   Upload as UploadIcon,
-  Folder as FolderIcon
+  Folder as FolderIcon,
+  ArrowBack as BackIcon
 } from '@mui/icons-material';
 
 import {
@@ -23,10 +24,14 @@ import {
 
 interface MediaLibrarySimpleProps {
   onSelectFiles?: (files: MediaFile[]) => void;
+  folderId?: string; // controls the open folder when given, e.g. from the URL
+  onOpenFolder?: (folderId: string | undefined) => void;
 }
 
-export const MediaLibrarySimple: React.FC<MediaLibrarySimpleProps> = () => {
-  const [currentFolderId, setCurrentFolderId] = useState<string | undefined>();
+export const MediaLibrarySimple: React.FC<MediaLibrarySimpleProps> = ({ folderId, onOpenFolder }) => {
+  const [localFolderId, setLocalFolderId] = useState<string | undefined>();
+  const currentFolderId = onOpenFolder ? folderId : localFolderId;
+  const setCurrentFolderId = onOpenFolder ?? setLocalFolderId;
   
   // API calls
   const { data: foldersData } = useGetMediaFoldersQuery({ parentId: currentFolderId });
@@ -70,7 +75,14 @@ export const MediaLibrarySimple: React.FC<MediaLibrarySimpleProps> = () => {
   return (
     <Box sx={{ p: 2 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
-        <Typography variant="h6">Media Library</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {currentFolderId && (
+            <Button size="small" startIcon={<BackIcon />} onClick={() => setCurrentFolderId(undefined)}>
+              All media
+            </Button>
+          )}
+          <Typography variant="h6">Media Library</Typography>
+        </Box>
         <Button
           startIcon={<UploadIcon />}
           variant="contained"
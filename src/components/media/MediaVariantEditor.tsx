@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Stack,
+  Tab,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import {
+  CheckCircle as SavedIcon,
+  Crop as CropIcon,
+} from '@mui/icons-material';
+
+import type { ContentMedia } from '../../store/api/contentApi';
+import { useProcessMediaFileMutation } from '../../store/api/mediaApi';
+import { platformLabel } from '../../utils/platforms';
+import { maxImageBytes } from '../../utils/contentValidation';
+import { loadImage } from '../../utils/mediaProcessing';
+import {
+  CENTER,
+  cropPresetsFor,
+  cropRect,
+  renderVariant,
+  variantOperations,
+  type CropPreset,
+  type FocalPoint,
+  type MediaVariant,
+} from '../../utils/mediaVariants';
+
+interface MediaVariantEditorProps {
+  media: ContentMedia[];
+  platforms: string[];
+  variants: MediaVariant[];
+  onChange: (variants: MediaVariant[]) => void;
+}
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const sameFocus = (a: FocalPoint, b: FocalPoint) => Math.abs(a.x - b.x) < 0.001 && Math.abs(a.y - b.y) < 0.001;
+
+/**
+ * Crops each image for the selected platforms. Click the image to set its
+ * focal point, pick a preset per platform, then save: every platform gets
+ * a variant rendered in the browser, shrunk under its image size limit and
+ * stored next to the original.
+ */
+export const MediaVariantEditor: React.FC<MediaVariantEditorProps> = ({ media, platforms, variants, onChange }) => {
+  const images = media.filter((item) => item.type === 'image');
+  const croppable = platforms.filter((platform) => cropPresetsFor(platform).length > 0);
+
+  const [selectedId, setSelectedId] = useState<string>();
+  const [activePlatform, setActivePlatform] = useState<string>();
+  const [presets, setPresets] = useState<Record<string, string>>({}); // platform → preset ID
+  const [focalPoints, setFocalPoints] = useState<Record<string, FocalPoint>>({}); // media ID → focal point
+  const [sizes, setSizes] = useState<Record<string, { width: number; height: number }>>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string>();
+  const [processMediaFile] = useProcessMediaFileMutation();
+
+  const image = images.find((item) => item.id === selectedId) ?? images[0];
+  const platform = croppable.includes(activePlatform ?? '') ? activePlatform! : croppable[0];
+  if (!image || !platform) return null;
+
+  const variantOf = (target: string) =>
+    variants.find((variant) => variant.originalId === image.id && variant.platform === target);
+  const presetFor = (target: string): CropPreset => {
+    const options = cropPresetsFor(target);
+    const saved = variantOf(target)?.preset.id;
+    return options.find((preset) => preset.id === (presets[target] ?? saved)) ?? options[0];
+  };
+  const focus = focalPoints[image.id] ?? variants.find((variant) => variant.originalId === image.id)?.focalPoint ?? CENTER;
+  const size = sizes[image.id];
+  const preset = presetFor(platform);
+  const crop = size && cropRect(size, preset, focus);
+
+  // A saved variant is stale once its preset or focal point has moved on
+  const isCurrent = (target: string) => {
+    const variant = variantOf(target);
+    return Boolean(variant && variant.preset.id === presetFor(target).id && sameFocus(variant.focalPoint, focus));
+  };
+
+  const handleFocus = (event: React.MouseEvent<HTMLElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setFocalPoints((current) => ({
+      ...current,
+      [image.id]: {
+        x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+        y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height)),
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(undefined);
+    try {
+      const source = await loadImage(image.url);
+      const saved: MediaVariant[] = [];
+      for (const target of croppable.filter((target) => !isCurrent(target))) {
+        const targetPreset = presetFor(target);
+        const rendered = await renderVariant(source, targetPreset, focus, maxImageBytes(target));
+        const { file } = await processMediaFile({
+          id: image.id,
+          operations: variantOperations(rendered),
+          variant: { platform: target, preset: targetPreset.id, focalPoint: focus },
+          rendered: await readAsDataUrl(rendered.blob),
+        }).unwrap();
+        saved.push({ platform: target, originalId: image.id, preset: targetPreset, focalPoint: focus, file });
+      }
+      onChange([
+        ...variants.filter((variant) => !saved.some((entry) => entry.originalId === variant.originalId && entry.platform === variant.platform)),
+        ...saved,
+      ]);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Could not save the variants');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pending = croppable.filter((target) => !isCurrent(target)).length;
+
+  return (
+    <Box>
+      {images.length > 1 && (
+        <Stack direction="row" spacing={1} sx={{ mb: 2, overflowX: 'auto' }}>
+          {images.map((item) => (
+            <Box
+              key={item.id}
+              component="img"
+              src={item.thumbnail || item.url}
+              alt={item.filename}
+              onClick={() => setSelectedId(item.id)}
+              sx={{
+                width: 56,
+                height: 56,
+                objectFit: 'cover',
+                borderRadius: 1,
+                cursor: 'pointer',
+                border: 2,
+                borderColor: item.id === image.id ? 'primary.main' : 'transparent',
+              }}
+            />
+          ))}
+        </Stack>
+      )}
+
+      <Tabs value={platform} onChange={(_, value) => setActivePlatform(value)} variant="scrollable" sx={{ mb: 2 }}>
+        {croppable.map((target) => (
+          <Tab
+            key={target}
+            value={target}
+            label={platformLabel(target)}
+            icon={isCurrent(target) ? <SavedIcon fontSize="small" color="success" /> : undefined}
+            iconPosition="end"
+            sx={{ minHeight: 48 }}
+          />
+        ))}
+      </Tabs>
+
+      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }}>
+        {cropPresetsFor(platform).map((option) => (
+          <Chip
+            key={option.id}
+            label={option.label}
+            color={option.id === preset.id ? 'primary' : 'default'}
+            variant={option.id === preset.id ? 'filled' : 'outlined'}
+            onClick={() => setPresets((current) => ({ ...current, [platform]: option.id }))}
+          />
+        ))}
+      </Stack>
+
+      <Box
+        onClick={handleFocus}
+        sx={{ position: 'relative', overflow: 'hidden', cursor: 'crosshair', maxWidth: 480, borderRadius: 1, lineHeight: 0 }}
+      >
+        <img
+          src={image.url}
+          alt={image.alt || image.filename}
+          style={{ width: '100%', display: 'block' }}
+          onLoad={(event) => {
+            const { naturalWidth: width, naturalHeight: height } = event.currentTarget;
+            setSizes((current) => ({ ...current, [image.id]: { width, height } }));
+          }}
+        />
+        {crop && (
+          <Box
+            sx={{
+              position: 'absolute',
+              left: `${(crop.x / size.width) * 100}%`,
+              top: `${(crop.y / size.height) * 100}%`,
+              width: `${(crop.width / size.width) * 100}%`,
+              height: `${(crop.height / size.height) * 100}%`,
+              border: '2px solid white',
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+        <Box
+          sx={{
+            position: 'absolute',
+            left: `${focus.x * 100}%`,
+            top: `${focus.y * 100}%`,
+            width: 16,
+            height: 16,
+            ml: -1,
+            mt: -1,
+            borderRadius: '50%',
+            border: '2px solid white',
+            bgcolor: 'primary.main',
+            pointerEvents: 'none',
+          }}
+        />
+      </Box>
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        Click the image to set what each crop keeps in view.
+        {crop && ` ${platformLabel(platform)} crops ${crop.width}×${crop.height} of ${size.width}×${size.height}.`}
+      </Typography>
+
+      {variantOf(platform) && (
+        <Typography variant="body2" color={isCurrent(platform) ? 'text.secondary' : 'warning.main'} sx={{ mt: 1 }}>
+          {isCurrent(platform) ? 'Saved' : 'Changed since saved'}: {variantOf(platform)!.file.metadata.dimensions},{' '}
+          {formatFileSize(variantOf(platform)!.file.size)}
+        </Typography>
+      )}
+
+      {saveError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {saveError}
+        </Alert>
+      )}
+
+      <Button
+        variant="outlined"
+        startIcon={saving ? <CircularProgress size={16} /> : <CropIcon />}
+        onClick={handleSave}
+        disabled={saving || !pending}
+        sx={{ mt: 2 }}
+      >
+        {pending ? `Save ${pending} variant${pending === 1 ? '' : 's'}` : 'Variants saved'}
+      </Button>
+    </Box>
+  );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Pause as PauseIcon,
+  PlayArrow as ResumeIcon,
+  Refresh as RetryIcon,
+  Close as CancelIcon,
+  CheckCircle as CompletedIcon,
+} from '@mui/icons-material';
+
+import type { UploadProgress } from '../../store/api/mediaApi';
+import { uploadManager } from '../../store/uploads/mediaUploads';
+
+interface UploadProgressListProps {
+  uploads: UploadProgress[];
+  // Shown on uploads restored after a reload, which need their file picked again
+  onSelectFile?: () => void;
+  dense?: boolean;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const statusLabel = (upload: UploadProgress) => {
+  switch (upload.status) {
+    case 'pending':
+      return 'Waiting…';
+    case 'processing':
+      return 'Preparing…';
+    case 'uploading':
+      return `${formatFileSize(upload.uploadedBytes ?? 0)} of ${formatFileSize(upload.totalBytes ?? 0)}`;
+    case 'paused':
+      return upload.error ? `Paused: ${upload.error}` : 'Paused';
+    case 'completed':
+      return 'Uploaded';
+    case 'failed':
+      return upload.error || 'Upload failed';
+  }
+};
+
+export const UploadProgressList: React.FC<UploadProgressListProps> = ({ uploads, onSelectFile, dense }) => {
+  if (!uploads.length) return null;
+
+  return (
+    <List dense={dense} disablePadding>
+      {uploads.map((upload) => (
+        <ListItem key={upload.fileId} disableGutters sx={{ display: 'block' }}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Typography variant="body2" noWrap title={upload.filename}>
+                {upload.filename}
+              </Typography>
+              <Typography
+                variant="caption"
+                color={upload.status === 'failed' ? 'error' : 'text.secondary'}
+              >
+                {statusLabel(upload)}
+              </Typography>
+            </Box>
+
+            {upload.status === 'completed' && <CompletedIcon color="success" fontSize="small" />}
+            {upload.requiresFile && onSelectFile && (
+              <Button size="small" onClick={onSelectFile}>
+                Select file
+              </Button>
+            )}
+            {['pending', 'processing', 'uploading'].includes(upload.status) && (
+              <Tooltip title="Pause">
+                <IconButton size="small" onClick={() => uploadManager.pause(upload.fileId)}>
+                  <PauseIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            {upload.status === 'paused' && !upload.requiresFile && (
+              <Tooltip title="Resume">
+                <IconButton size="small" onClick={() => uploadManager.resume(upload.fileId)}>
+                  <ResumeIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            {upload.status === 'failed' && (
+              <Tooltip title="Retry">
+                <IconButton size="small" onClick={() => uploadManager.retry(upload.fileId)}>
+                  <RetryIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            {upload.status !== 'completed' && (
+              <Tooltip title="Cancel">
+                <IconButton size="small" onClick={() => uploadManager.cancel(upload.fileId)}>
+                  <CancelIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Stack>
+
+          {upload.status !== 'completed' && (
+            <LinearProgress
+              variant={upload.status === 'processing' ? 'indeterminate' : 'determinate'}
+              value={upload.progress}
+              color={upload.status === 'failed' ? 'error' : upload.status === 'paused' ? 'inherit' : 'primary'}
+              sx={{ mt: 0.5, height: 4, borderRadius: 2 }}
+            />
+          )}
+        </ListItem>
+      ))}
+    </List>
+  );
+};
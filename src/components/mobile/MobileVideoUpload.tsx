@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useMemo } from 'react';
 import {
   Box,
   Button,
@@ -39,6 +39,9 @@ import {
 import { TransitionProps } from '@mui/material/transitions';
 import { useTenant } from '../../contexts/TenantContext';
 import { useGenerateVideoCaptionsMutation, useGenerateContentMutation } from '../../store/api/aiContentApi';
+import type { MediaFile } from '../../store/api/mediaApi';
+import { useUploads } from '../../hooks/useUploads';
+import { UploadProgressList } from '../media/UploadProgressList';
 
 const Transition = React.forwardRef(function Transition(
   props: TransitionProps & {
@@ -54,6 +57,7 @@ interface VideoUploadData {
   recordedBlob?: Blob;
   thumbnail?: string;
   duration?: number;
+  media?: MediaFile;
   title?: string;
   description?: string;
   platforms?: string[];
@@ -90,6 +94,10 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
   const [uploadProgress, setUploadProgress] = useState(0);
   const [videoData, setVideoData] = useState<VideoUploadData>({});
   const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>(['youtube']);
+  const [uploadId, setUploadId] = useState<string>();
+  const uploadIds = useMemo(() => (uploadId ? [uploadId] : []), [uploadId]);
+  const { uploads, add, cancel } = useUploads(uploadIds);
+  const upload = uploads[0];
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -113,6 +121,9 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
       // Convert Blob to File if needed
       const file = videoFile instanceof File ? videoFile : new File([videoFile], 'recorded-video.webm', { type: 'video/webm' });
 
+      // Upload to the media library while the AI works on it
+      setUploadId(add([file])[0]);
+
       // Step 1: Generate video captions (20-40%)
       setUploadProgress(20);
       let captions: any[] = [];
@@ -197,7 +208,19 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
       setVideoData(prev => ({ ...prev, ...fallbackData }));
       setStep('review');
     }
-  }, [currentWorkspace, selectedPlatforms, generateVideoCaptions, generateContent]);
+  }, [currentWorkspace, selectedPlatforms, generateVideoCaptions, generateContent, add]);
+
+  // Stop an unfinished upload, or let go of a finished one
+  const releaseUpload = () => {
+    if (uploadId) cancel(uploadId);
+    setUploadId(undefined);
+  };
+
+  const handleClose = () => {
+    releaseUpload();
+    setStep('capture');
+    onClose();
+  };
 
   const startRecording = async () => {
     try {
@@ -275,9 +298,11 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
   const handleSubmit = () => {
     const finalData = {
       ...videoData,
+      media: upload?.media,
       platforms: selectedPlatforms
     };
     onUpload?.(finalData);
+    releaseUpload();
     onClose();
     // Reset state
     setStep('capture');
@@ -495,6 +520,18 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
         </CardContent>
       </Card>
 
+      {/* Upload */}
+      {upload && (
+        <Card sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="subtitle1" gutterBottom>
+              Upload
+            </Typography>
+            <UploadProgressList uploads={uploads} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* AI Enhancements */}
       <Card sx={{ mb: 3 }}>
         <CardContent>
@@ -558,12 +595,12 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
     <Dialog
       fullScreen
       open={open}
-      onClose={onClose}
+      onClose={handleClose}
       TransitionComponent={Transition}
     >
       <DialogTitle sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
         <Typography variant="h6">Mobile Video Upload</Typography>
-        <IconButton onClick={onClose}>
+        <IconButton onClick={handleClose}>
           <CloseIcon />
         </IconButton>
       </DialogTitle>
@@ -577,7 +614,10 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
       {step === 'review' && (
         <DialogActions sx={{ p: 2 }}>
           <Button 
-            onClick={() => setStep('capture')}
+            onClick={() => {
+              releaseUpload();
+              setStep('capture');
+            }}
             variant="outlined"
           >
             Back
@@ -586,7 +626,7 @@ export const MobileVideoUpload: React.FC<MobileVideoUploadProps> = ({
             onClick={handleSubmit}
             variant="contained"
             startIcon={<SendIcon />}
-            disabled={selectedPlatforms.length === 0}
+            disabled={selectedPlatforms.length === 0 || upload?.status !== 'completed'}
           >
             Schedule & Publish
           </Button>
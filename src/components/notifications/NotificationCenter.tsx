@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   IconButton,
@@ -36,7 +36,9 @@ import {
   Done as DoneIcon,
   DoneAll as DoneAllIcon,
   Delete as DeleteIcon,
-  Close as CloseIcon
+  Close as CloseIcon,
+  AccessTime as ReminderIcon,
+  PriorityHigh as EscalatedIcon
 } from '@mui/icons-material';
 
 import {
@@ -48,6 +50,7 @@ import {
   useDeleteMultipleNotificationsMutation,
   type Notification
 } from '../../store/api/notificationsApi';
+import { useRealtimeStatus } from '../../hooks/useRealtimeStatus';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -69,16 +72,20 @@ export const NotificationCenter: React.FC = () => {
   const [selectedNotifications, setSelectedNotifications] = useState<string[]>([]);
   const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; notification: Notification } | null>(null);
 
+  const { isLive } = useRealtimeStatus();
+
   // API calls
   const { 
     data: notificationsData, 
     isLoading, 
-    error,
-    refetch 
+    error
   } = useGetNotificationsQuery({
     page: 1,
     limit: 50,
     read: activeTab === 1 ? false : undefined
+  }, {
+    // New notifications are pushed into the cache while the realtime stream is up
+    pollingInterval: isLive ? 0 : 30000
   });
 
   const [markAsRead] = useMarkAsReadMutation();
@@ -87,15 +94,6 @@ export const NotificationCenter: React.FC = () => {
   const [markMultipleAsRead] = useMarkMultipleAsReadMutation();
   const [deleteMultipleNotifications] = useDeleteMultipleNotificationsMutation();
 
-  // Auto-refresh notifications
-  useEffect(() => {
-    const interval = setInterval(() => {
-      refetch();
-    }, 30000); // Refresh every 30 seconds
-
-    return () => clearInterval(interval);
-  }, [refetch]);
-
   const handleOpenNotifications = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
   };
@@ -184,6 +182,10 @@ export const NotificationCenter: React.FC = () => {
         return <CampaignIcon color="warning" />;
       case 'comment':
         return <CommentIcon color="info" />;
+      case 'approval_reminder':
+        return <ReminderIcon color="warning" />;
+      case 'approval_escalated':
+        return <EscalatedIcon color="error" />;
       case 'system':
         return <SettingsIcon color="action" />;
       case 'billing':
@@ -0,0 +1,514 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  Divider,
+  Alert,
+  IconButton,
+  FormControlLabel,
+  Switch,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  CheckCircle as CheckIcon,
+  Cancel as FailIcon,
+} from '@mui/icons-material';
+import { format, parseISO } from 'date-fns';
+import { useTenant } from '../../contexts/TenantContext';
+import {
+  useCreateContentRuleMutation,
+  useUpdateContentRuleMutation,
+  usePublishContentRuleMutation,
+  type ContentRule,
+  type ContentRuleDefinition,
+} from '../../store/api/organizationApi';
+import { platformLabel } from '../../utils/platforms';
+import {
+  CONTENT_RULE_KINDS,
+  compileContentRule,
+  contentRuleProblems,
+  contentRulePublishBlockers,
+  emptyContentRuleDefinition,
+  runValidationRules,
+  testContentRule,
+} from '../../utils/validationRules';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+interface ContentRuleEditorDialogProps {
+  open: boolean;
+  organizationId: string;
+  rule?: ContentRule; // a new rule when not given
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const PLATFORMS = ['linkedin', 'twitter', 'facebook', 'instagram', 'youtube', 'tiktok'];
+const SEVERITIES: ContentRuleDefinition['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const latestDefinition = (rule?: ContentRule) =>
+  rule?.versions[rule.versions.length - 1]?.definition ?? emptyContentRuleDefinition();
+
+// Drops the blank lines and padding the form allows while typing
+const cleanDefinition = (definition: ContentRuleDefinition): ContentRuleDefinition => ({
+  ...definition,
+  name: definition.name.trim(),
+  words: definition.words?.map((word) => word.trim()).filter(Boolean),
+  phrase: definition.phrase?.trim(),
+  samples: definition.samples.filter(({ text }) => text.trim()),
+});
+
+export const ContentRuleEditorDialog: React.FC<ContentRuleEditorDialogProps> = ({
+  open,
+  organizationId,
+  rule,
+  readOnly = false,
+  onClose,
+}) => {
+  const { workspaces } = useTenant();
+  const [definition, setDefinition] = useState<ContentRuleDefinition>(latestDefinition(rule));
+  const [sampleText, setSampleText] = useState('');
+  const [sampleFlagged, setSampleFlagged] = useState(true);
+  const [tryText, setTryText] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const [createRule, { isLoading: creating }] = useCreateContentRuleMutation();
+  const [updateRule, { isLoading: updating }] = useUpdateContentRuleMutation();
+  const [publishRule, { isLoading: publishing }] = usePublishContentRuleMutation();
+  const busy = creating || updating || publishing;
+
+  useEffect(() => {
+    if (open) {
+      setDefinition(latestDefinition(rule));
+      setSampleText('');
+      setTryText('');
+      setSaveError(null);
+    }
+  }, [open, rule]);
+
+  const pillars = useMemo(
+    () => Array.from(new Set(workspaces.flatMap(({ contentSettings }) => contentSettings.contentPillars))),
+    [workspaces]
+  );
+
+  const problems = contentRuleProblems(definition);
+  const sampleResults = useMemo(() => (problems.length ? [] : testContentRule(definition)), [definition, problems.length]);
+  const publishBlockers = contentRulePublishBlockers(cleanDefinition(definition));
+  const tryErrors = useMemo(
+    () =>
+      problems.length || !tryText
+        ? []
+        : runValidationRules([compileContentRule('preview', definition)], {
+            content: tryText,
+            platforms: definition.platforms,
+            pillar: definition.pillars[0],
+          }),
+    [definition, tryText, problems.length]
+  );
+
+  const update = (changes: Partial<ContentRuleDefinition>) => setDefinition((prev) => ({ ...prev, ...changes }));
+
+  const numberOrUndefined = (value: string) => (value === '' ? undefined : Math.max(0, Number(value)));
+
+  const addSample = () => {
+    update({ samples: [...definition.samples, { text: sampleText, expectViolation: sampleFlagged }] });
+    setSampleText('');
+  };
+
+  const save = async () => {
+    const body = cleanDefinition(definition);
+    // Unchanged rules keep their versions, so publishing doesn't add an identical one
+    if (rule && JSON.stringify(body) === JSON.stringify(cleanDefinition(latestDefinition(rule)))) return rule;
+
+    const { rule: saved } = rule
+      ? await updateRule({ organizationId, ruleId: rule.id, definition: body }).unwrap()
+      : await createRule({ organizationId, definition: body }).unwrap();
+    return saved;
+  };
+
+  const handleSave = async () => {
+    setSaveError(null);
+    try {
+      await save();
+      onClose();
+    } catch (error) {
+      setSaveError(getApiErrorMessage(error, 'Failed to save the rule'));
+    }
+  };
+
+  const handleSaveAndPublish = async () => {
+    setSaveError(null);
+    try {
+      const saved = await save();
+      await publishRule({ organizationId, ruleId: saved.id, version: saved.versions[saved.versions.length - 1].version }).unwrap();
+      onClose();
+    } catch (error) {
+      setSaveError(getApiErrorMessage(error, 'Failed to publish the rule'));
+    }
+  };
+
+  // Publishing an older version rolls the rule back to it
+  const handlePublishVersion = async (version: number) => {
+    setSaveError(null);
+    try {
+      await publishRule({ organizationId, ruleId: rule!.id, version }).unwrap();
+    } catch (error) {
+      setSaveError(getApiErrorMessage(error, 'Failed to publish the version'));
+    }
+  };
+
+  const renderKindFields = () => {
+    switch (definition.kind) {
+      case 'word_list':
+        return (
+          <TextField
+            label="Words and phrases"
+            multiline
+            minRows={3}
+            value={(definition.words ?? []).join('\n')}
+            onChange={(e) => update({ words: e.target.value.split('\n') })}
+            helperText="One per line. Write cheap → affordable to suggest a replacement."
+            fullWidth
+          />
+        );
+      case 'regex':
+        return (
+          <Stack spacing={2}>
+            <Stack direction="row" spacing={2}>
+              <TextField
+                label="Pattern"
+                value={definition.pattern ?? ''}
+                onChange={(e) => update({ pattern: e.target.value })}
+                sx={{ flex: 1, '& input': { fontFamily: 'monospace' } }}
+              />
+              <TextField
+                label="Flags"
+                value={definition.flags ?? ''}
+                onChange={(e) => update({ flags: e.target.value })}
+                helperText="e.g. i"
+                sx={{ width: 100 }}
+              />
+            </Stack>
+            <TextField
+              label="Replacement (optional)"
+              value={definition.replacement ?? ''}
+              onChange={(e) => update({ replacement: e.target.value || undefined })}
+              helperText="Offered as a fix for each match. $1 inserts the first group."
+              fullWidth
+            />
+          </Stack>
+        );
+      case 'required_phrase':
+        return (
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Required phrase"
+              value={definition.phrase ?? ''}
+              onChange={(e) => update({ phrase: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              label="Placement"
+              value={definition.placement ?? 'anywhere'}
+              onChange={(e) => update({ placement: e.target.value as ContentRuleDefinition['placement'] })}
+              sx={{ width: 160 }}
+            >
+              <MenuItem value="anywhere">Anywhere</MenuItem>
+              <MenuItem value="start">At the start</MenuItem>
+              <MenuItem value="end">At the end</MenuItem>
+            </TextField>
+          </Stack>
+        );
+      case 'length':
+        return (
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Minimum characters"
+              type="number"
+              value={definition.minLength ?? ''}
+              onChange={(e) => update({ minLength: numberOrUndefined(e.target.value) })}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Maximum characters"
+              type="number"
+              value={definition.maxLength ?? ''}
+              onChange={(e) => update({ maxLength: numberOrUndefined(e.target.value) })}
+              sx={{ flex: 1 }}
+            />
+          </Stack>
+        );
+    }
+  };
+
+  const renderScope = () => (
+    <Stack spacing={2}>
+      <Autocomplete
+        multiple
+        options={PLATFORMS}
+        value={definition.platforms}
+        onChange={(_, platforms) => update({ platforms })}
+        getOptionLabel={platformLabel}
+        renderInput={(params) => <TextField {...params} label="Platforms" placeholder="All platforms" />}
+      />
+      <Autocomplete
+        multiple
+        freeSolo
+        options={pillars}
+        value={definition.pillars}
+        onChange={(_, values) => update({ pillars: values })}
+        renderInput={(params) => <TextField {...params} label="Content pillars" placeholder="All pillars" />}
+      />
+      <Autocomplete
+        multiple
+        options={workspaces.map(({ id }) => id)}
+        value={definition.workspaceIds}
+        onChange={(_, workspaceIds) => update({ workspaceIds })}
+        getOptionLabel={(id) => workspaces.find((workspace) => workspace.id === id)?.name ?? id}
+        renderInput={(params) => <TextField {...params} label="Workspaces" placeholder="Shared with every workspace" />}
+      />
+    </Stack>
+  );
+
+  const renderSamples = () => (
+    <Stack spacing={1.5}>
+      <Typography variant="subtitle2">Sample Posts</Typography>
+      <Typography variant="body2" color="text.secondary">
+        A rule goes live only when it flags exactly the samples it should.
+      </Typography>
+      {definition.samples.map((sample, index) => {
+        const result = sampleResults[index];
+        return (
+          <Stack key={index} direction="row" spacing={1} alignItems="center">
+            {result &&
+              (result.passed ? <CheckIcon fontSize="small" color="success" /> : <FailIcon fontSize="small" color="error" />)}
+            <Typography variant="body2" sx={{ flex: 1, whiteSpace: 'pre-wrap' }}>
+              {sample.text}
+            </Typography>
+            <Chip
+              size="small"
+              label={sample.expectViolation ? 'Should be flagged' : 'Should pass'}
+              color={sample.expectViolation ? 'warning' : 'default'}
+            />
+            {!readOnly && (
+              <IconButton
+                size="small"
+                aria-label="Remove sample"
+                onClick={() => update({ samples: definition.samples.filter((_, i) => i !== index) })}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            )}
+          </Stack>
+        );
+      })}
+      {!readOnly && (
+        <Stack direction="row" spacing={1} alignItems="center">
+          <TextField
+            size="small"
+            placeholder="Paste a post to test against"
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+            multiline
+            sx={{ flex: 1 }}
+          />
+          <FormControlLabel
+            control={<Switch size="small" checked={sampleFlagged} onChange={(e) => setSampleFlagged(e.target.checked)} />}
+            label="Should be flagged"
+          />
+          <Button size="small" startIcon={<AddIcon />} onClick={addSample} disabled={!sampleText.trim()}>
+            Add
+          </Button>
+        </Stack>
+      )}
+    </Stack>
+  );
+
+  const renderTry = () => (
+    <Stack spacing={1.5}>
+      <Typography variant="subtitle2">Try It</Typography>
+      <TextField
+        multiline
+        minRows={2}
+        placeholder="Write a post to see what the rule reports"
+        value={tryText}
+        onChange={(e) => setTryText(e.target.value)}
+        fullWidth
+      />
+      {tryText && !problems.length && (
+        tryErrors.length ? (
+          tryErrors.map((error, index) => (
+            <Alert key={index} severity="warning">
+              {error.message}
+              {error.autoFix && (
+                <Typography variant="caption" display="block" sx={{ mt: 0.5, whiteSpace: 'pre-wrap' }}>
+                  {error.autoFix.action}: {error.autoFix.preview}
+                </Typography>
+              )}
+            </Alert>
+          ))
+        ) : (
+          <Alert severity="success">The rule has nothing to report</Alert>
+        )
+      )}
+    </Stack>
+  );
+
+  const renderVersions = () =>
+    rule && (
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Versions</Typography>
+        <List dense disablePadding>
+          {[...rule.versions].reverse().map(({ version, createdAt, publishedAt, definition: saved }) => {
+            const live = version === rule.liveVersion;
+            const blockers = contentRulePublishBlockers(saved);
+            return (
+              <ListItem
+                key={version}
+                disableGutters
+                secondaryAction={
+                  !live &&
+                  !readOnly && (
+                    <Button
+                      size="small"
+                      onClick={() => handlePublishVersion(version)}
+                      disabled={busy || blockers.length > 0}
+                      title={blockers.join('. ')}
+                    >
+                      {publishedAt ? 'Roll Back' : 'Publish'}
+                    </Button>
+                  )
+                }
+              >
+                <ListItemText
+                  primary={
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Typography variant="body2" fontWeight={600}>
+                        Version {version}
+                      </Typography>
+                      {live && <Chip size="small" color="success" label="Live" />}
+                      {!publishedAt && <Chip size="small" label="Draft" />}
+                    </Stack>
+                  }
+                  secondary={
+                    publishedAt
+                      ? `Published ${format(parseISO(publishedAt), 'MMM d, yyyy HH:mm')}`
+                      : `Saved ${format(parseISO(createdAt), 'MMM d, yyyy HH:mm')}`
+                  }
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      </Stack>
+    );
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+      <DialogTitle>
+        <Typography variant="h6" fontWeight={600}>
+          {rule ? rule.name : 'New Content Rule'}
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={3} sx={{ pt: 1 }}>
+          <Box component="fieldset" disabled={readOnly} sx={{ border: 0, p: 0, m: 0, minWidth: 0 }}>
+            <Stack spacing={2}>
+              <TextField label="Name" value={definition.name} onChange={(e) => update({ name: e.target.value })} fullWidth />
+              <TextField
+                label="Description"
+                value={definition.description ?? ''}
+                onChange={(e) => update({ description: e.target.value || undefined })}
+                fullWidth
+              />
+              <Stack direction="row" spacing={2}>
+                <TextField
+                  select
+                  label="Type"
+                  value={definition.kind}
+                  onChange={(e) => update({ kind: e.target.value as ContentRuleDefinition['kind'] })}
+                  helperText={CONTENT_RULE_KINDS.find(({ kind }) => kind === definition.kind)?.description}
+                  sx={{ flex: 1 }}
+                >
+                  {CONTENT_RULE_KINDS.map(({ kind, label }) => (
+                    <MenuItem key={kind} value={kind}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  label="Severity"
+                  value={definition.severity}
+                  onChange={(e) => update({ severity: e.target.value as ContentRuleDefinition['severity'] })}
+                  helperText="Critical and high block imports"
+                  sx={{ width: 200, textTransform: 'capitalize' }}
+                >
+                  {SEVERITIES.map((severity) => (
+                    <MenuItem key={severity} value={severity} sx={{ textTransform: 'capitalize' }}>
+                      {severity}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Stack>
+              {renderKindFields()}
+              <TextField
+                label="Message (optional)"
+                value={definition.message ?? ''}
+                onChange={(e) => update({ message: e.target.value || undefined })}
+                helperText="Shown to writers instead of the generated message"
+                fullWidth
+              />
+              {renderScope()}
+            </Stack>
+          </Box>
+
+          <Divider />
+          {renderSamples()}
+          <Divider />
+          {renderTry()}
+          {rule && <Divider />}
+          {renderVersions()}
+
+          {problems.length > 0 && !readOnly && <Alert severity="info">{problems.join('. ')}</Alert>}
+          {saveError && <Alert severity="error">{saveError}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 3 }}>
+        <Button onClick={onClose} disabled={busy} sx={{ borderRadius: 2 }}>
+          {readOnly ? 'Close' : 'Cancel'}
+        </Button>
+        {!readOnly && (
+          <>
+            <Button onClick={handleSave} disabled={busy || problems.length > 0} sx={{ borderRadius: 2 }}>
+              Save Draft
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleSaveAndPublish}
+              disabled={busy || publishBlockers.length > 0}
+              title={publishBlockers.join('. ')}
+              sx={{ borderRadius: 2 }}
+            >
+              Save & Publish
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Switch,
+  IconButton,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon, Visibility as ViewIcon } from '@mui/icons-material';
+import { useTenant } from '../../contexts/TenantContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  useGetContentRulesQuery,
+  useSetContentRuleEnabledMutation,
+  useDeleteContentRuleMutation,
+  type ContentRule,
+} from '../../store/api/organizationApi';
+import { platformLabel } from '../../utils/platforms';
+import { CONTENT_RULE_KINDS, liveContentRuleVersion } from '../../utils/validationRules';
+import { ContentRuleEditorDialog } from './ContentRuleEditorDialog';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+interface ContentRulesManagerProps {
+  organizationId: string;
+}
+
+const severityColors = {
+  low: 'default',
+  medium: 'warning',
+  high: 'error',
+  critical: 'error',
+} as const;
+
+export const ContentRulesManager: React.FC<ContentRulesManagerProps> = ({ organizationId }) => {
+  const { workspaces } = useTenant();
+  const { can } = usePermissions();
+  const canManage = can({ permissions: ['manage_organization'] });
+  const { data, isLoading, error } = useGetContentRulesQuery(organizationId);
+  const [setEnabled] = useSetContentRuleEnabledMutation();
+  const [deleteRule] = useDeleteContentRuleMutation();
+  const [editing, setEditing] = useState<{ rule?: ContentRule } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const rules = data?.rules ?? [];
+
+  const scopeOf = (rule: ContentRule) => {
+    const { definition } = rule.versions[rule.versions.length - 1];
+    const parts = [
+      definition.platforms.length ? definition.platforms.map(platformLabel).join(', ') : 'All platforms',
+      definition.pillars.length ? definition.pillars.join(', ') : '',
+      definition.workspaceIds.length
+        ? definition.workspaceIds.map((id) => workspaces.find((workspace) => workspace.id === id)?.name ?? id).join(', ')
+        : 'All workspaces',
+    ];
+    return parts.filter(Boolean).join(' · ');
+  };
+
+  const handleToggle = async (rule: ContentRule, enabled: boolean) => {
+    setActionError(null);
+    try {
+      await setEnabled({ organizationId, ruleId: rule.id, enabled }).unwrap();
+    } catch (err) {
+      setActionError(getApiErrorMessage(err, 'Failed to update the rule'));
+    }
+  };
+
+  const handleDelete = async (rule: ContentRule) => {
+    if (!window.confirm(`Delete "${rule.name}"? Workspaces stop being checked against it.`)) return;
+    setActionError(null);
+    try {
+      await deleteRule({ organizationId, ruleId: rule.id }).unwrap();
+    } catch (err) {
+      setActionError(getApiErrorMessage(err, 'Failed to delete the rule'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">Content Rules</Typography>
+          {canManage && (
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => setEditing({})}>
+              New Rule
+            </Button>
+          )}
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Rules every workspace's posts are checked against in the editor and on import. Edits are saved as a new
+          draft version; the live version keeps applying until the draft passes its sample posts and is published.
+        </Typography>
+
+        {isLoading && <LinearProgress sx={{ mb: 2 }} />}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {getApiErrorMessage(error, 'Failed to load content rules')}
+          </Alert>
+        )}
+        {actionError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setActionError(null)}>
+            {actionError}
+          </Alert>
+        )}
+
+        {!isLoading && !rules.length && !error && (
+          <Alert severity="info">No content rules yet. Add word lists, patterns or required disclosures.</Alert>
+        )}
+
+        {rules.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Rule</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Applies To</TableCell>
+                  <TableCell>Severity</TableCell>
+                  <TableCell>Version</TableCell>
+                  <TableCell>Enabled</TableCell>
+                  <TableCell align="right" />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rules.map((rule) => {
+                  const latest = rule.versions[rule.versions.length - 1];
+                  const live = liveContentRuleVersion(rule);
+                  return (
+                    <TableRow key={rule.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {rule.name}
+                        </Typography>
+                        {latest.definition.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {latest.definition.description}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {CONTENT_RULE_KINDS.find(({ kind }) => kind === latest.definition.kind)?.label}
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption">{scopeOf(rule)}</Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={(live ?? latest).definition.severity}
+                          color={severityColors[(live ?? latest).definition.severity]}
+                          sx={{ textTransform: 'capitalize' }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5}>
+                          {live ? (
+                            <Chip size="small" color="success" label={`v${live.version} live`} />
+                          ) : (
+                            <Chip size="small" label="Not live" />
+                          )}
+                          {latest.version !== live?.version && (
+                            <Chip size="small" variant="outlined" label={`v${latest.version} draft`} />
+                          )}
+                        </Stack>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          size="small"
+                          checked={rule.enabled}
+                          disabled={!canManage}
+                          onChange={(e) => handleToggle(rule, e.target.checked)}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          aria-label={canManage ? 'Edit rule' : 'View rule'}
+                          onClick={() => setEditing({ rule })}
+                        >
+                          {canManage ? <EditIcon fontSize="small" /> : <ViewIcon fontSize="small" />}
+                        </IconButton>
+                        {canManage && (
+                          <IconButton size="small" aria-label="Delete rule" onClick={() => handleDelete(rule)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      <ContentRuleEditorDialog
+        open={Boolean(editing)}
+        organizationId={organizationId}
+        rule={editing?.rule && rules.find(({ id }) => id === editing.rule!.id)}
+        readOnly={!canManage}
+        onClose={() => setEditing(null)}
+      />
+    </Card>
+  );
+};
@@ -39,7 +39,7 @@ import {
   MoreVert as MoreVertIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
-  Play as PlayIcon,
+  PlayArrow as PlayIcon,
   Pause as PauseIcon,
   Email as EmailIcon,
   Add as AddIcon,
@@ -59,7 +59,6 @@ import {
   Priority,
   Flag,
   Assignment,
-  Timeline,
   Notifications,
   MoreVert,
   ThumbUp,
@@ -79,6 +78,10 @@ import {
   Analytics,
 } from '@mui/icons-material';
 import { format, formatDistanceToNow, addDays, isAfter, isBefore } from 'date-fns';
+import { useGetApprovalWorkflowsQuery, type ApprovalWorkflow as SavedWorkflow } from '../../store/api/approvalApi';
+import { arrangeSteps } from '../../utils/approvalWorkflowGraph';
+import type { CommentAnchor } from '../../utils/commentAnchors';
+import { WorkflowDesigner } from '../approval/WorkflowDesigner';
 
 interface ApprovalWorkflowStep {
   id: string;
@@ -142,6 +145,9 @@ interface ContentSubmission {
     message: string;
     timestamp: Date;
     internal: boolean; // Internal comments vs public feedback
+    parentId?: string; // reply to another comment's thread
+    anchor?: CommentAnchor; // the text range or media item it's on
+    resolved?: boolean;
   }[];
   deadline?: Date;
   estimatedReach?: number;
@@ -182,94 +188,23 @@ const platformIcons: Record<string, string> = {
   tiktok: '🎵',
 };
 
-// Mock workflow steps
-const mockWorkflowSteps: ApprovalWorkflowStep[] = [
-  {
-    id: '1',
-    name: 'Content Review',
-    description: 'Initial content quality and compliance review',
-    type: 'review',
-    required: true,
-    assignees: [
-      { type: 'role', id: 'content_reviewer', name: 'Content Reviewers' },
-    ],
-    permissions: {
-      canEdit: true,
-      canReject: true,
-      canApprove: true,
-      canComment: true,
-      canReassign: false,
-    },
-    conditions: {
-      minApprovals: 1,
-      timeLimit: 24,
-    },
-  },
-  {
-    id: '2',
-    name: 'Brand Compliance',
-    description: 'Brand guidelines and messaging approval',
-    type: 'approval',
-    required: true,
-    assignees: [
-      { type: 'user', id: 'brand_manager', name: 'Sarah Wilson', avatar: '' },
-    ],
-    permissions: {
-      canEdit: false,
-      canReject: true,
-      canApprove: true,
-      canComment: true,
-      canReassign: true,
-    },
-    conditions: {
-      unanimousRequired: true,
-      timeLimit: 48,
-    },
-  },
-  {
-    id: '3',
-    name: 'Legal Review',
-    description: 'Legal compliance and risk assessment (high-risk content only)',
-    type: 'approval',
-    required: false,
-    assignees: [
-      { type: 'team', id: 'legal_team', name: 'Legal Team' },
-    ],
-    permissions: {
-      canEdit: false,
-      canReject: true,
-      canApprove: true,
-      canComment: true,
-      canReassign: false,
-    },
-    conditions: {
-      priorityThreshold: 'high',
-      unanimousRequired: true,
-      timeLimit: 72,
-    },
-  },
-  {
-    id: '4',
-    name: 'Final Approval',
-    description: 'Final sign-off before publishing',
-    type: 'final_approval',
-    required: true,
-    assignees: [
-      { type: 'user', id: 'marketing_director', name: 'Mike Johnson', avatar: '' },
-    ],
-    permissions: {
-      canEdit: false,
-      canReject: true,
-      canApprove: true,
-      canComment: true,
-      canReassign: true,
-    },
-    conditions: {
-      minApprovals: 1,
-      timeLimit: 12,
-    },
-  },
-];
+// Saved workflow steps in the shape the review queue shows, one after another by stage
+const toWorkflowSteps = (workflow?: SavedWorkflow): ApprovalWorkflowStep[] =>
+  arrangeSteps(workflow?.steps ?? [])
+    .sort((a, b) => a.order - b.order)
+    .map((step, index, steps) => ({
+      id: step.id,
+      name: step.name,
+      description: '',
+      type: index === steps.length - 1 ? 'final_approval' : step.type === 'review' ? 'review' : 'approval',
+      required: !step.isOptional,
+      assignees: [
+        ...(step.assignees.userIds ?? []).map((id) => ({ type: 'user' as const, id, name: id })),
+        ...(step.assignees.roleIds ?? []).map((id) => ({ type: 'role' as const, id, name: id })),
+      ],
+      permissions: { canEdit: false, canReject: true, canApprove: true, canComment: true, canReassign: true },
+      conditions: { unanimousRequired: step.assignees.anyOf === false, timeLimit: step.timeoutHours },
+    }));
 
 // Mock content submissions
 const mockSubmissions: ContentSubmission[] = [
@@ -402,7 +337,7 @@ const mockSubmissions: ContentSubmission[] = [
 ];
 
 export const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
-  workflows = [mockWorkflowSteps],
+  workflows,
   submissions = mockSubmissions,
   currentUser = {
     id: 'reviewer_1',
@@ -427,7 +362,11 @@ export const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
   const [viewMode, setViewMode] = useState<'queue' | 'analytics' | 'workflows'>('queue');
   const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; submission: ContentSubmission } | null>(null);
 
-  const workflowSteps = workflows[0] || mockWorkflowSteps;
+  const { data: workflowsData } = useGetApprovalWorkflowsQuery({}, { skip: Boolean(workflows?.length) });
+  const workflowSteps = useMemo(() => {
+    const saved = workflowsData?.workflows ?? [];
+    return workflows?.[0] ?? toWorkflowSteps(saved.find(({ isDefault }) => isDefault) ?? saved[0]);
+  }, [workflows, workflowsData]);
 
   // Filter submissions based on current user's assignments
   const mySubmissions = useMemo(() => {
@@ -1028,14 +967,7 @@ export const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
         </Paper>
       )}
 
-      {viewMode === 'workflows' && (
-        <Paper sx={{ p: 4, textAlign: 'center', borderRadius: 3 }}>
-          <Timeline sx={{ fontSize: 64, color: theme.palette.text.secondary, mb: 2 }} />
-          <Typography variant="h6" color="text.secondary">
-            Workflow management coming soon
-          </Typography>
-        </Paper>
-      )}
+      {viewMode === 'workflows' && <WorkflowDesigner />}
 
       {/* Review Dialog */}
       <Dialog
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -32,6 +32,7 @@ import {
   TableHead,
   TableRow,
   Checkbox,
+  Menu,
   alpha,
   useTheme,
 } from '@mui/material';
@@ -61,6 +62,13 @@ import {
   ContentCopy,
 } from '@mui/icons-material';
 import { format, addDays, addHours, parseISO } from 'date-fns';
+import { useGetContentCalendarQuery, type Content } from '../../store/api/contentApi';
+import { useGetTrendingInsightsQuery } from '../../store/api/advancedAnalyticsApi';
+import { assignSlots, DEFAULT_HORIZON_DAYS } from '../../utils/slotAssignment';
+import type { ScheduledPost } from '../../utils/scheduleConflicts';
+import { contentToSpreadsheetRows } from '../../utils/contentSpreadsheet';
+import { downloadSpreadsheet, type SpreadsheetFormat } from '../../utils/spreadsheet';
+import { ContentImportDialog } from './ContentImportDialog';
 
 interface BulkContent {
   id: string;
@@ -219,6 +227,11 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
   const [scheduling, setScheduling] = useState(false);
   const [schedulingProgress, setSchedulingProgress] = useState(0);
   const [schedulingResults, setSchedulingResults] = useState<{ success: number; failed: number; total: number } | null>(null);
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([]);
+  const [blackoutInput, setBlackoutInput] = useState('');
+  const [planStart, setPlanStart] = useState(() => new Date());
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
 
   const steps = ['Select Content', 'Configure Rules', 'Preview Schedule', 'Execute Scheduling'];
 
@@ -260,98 +273,93 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
     );
   };
 
+  // Content already on the calendar in the planning window, so new posts keep their distance
+  const calendarRange = useMemo(() => ({
+    startDate: planStart.toISOString(),
+    endDate: addDays(planStart, DEFAULT_HORIZON_DAYS + 1).toISOString(),
+  }), [planStart]);
+  const { data: calendarData } = useGetContentCalendarQuery(calendarRange);
+  const { data: insights } = useGetTrendingInsightsQuery({ timeframe: '90d' });
+
+  const existingPosts = useMemo(
+    () => (calendarData?.calendar ?? []).flatMap((item): ScheduledPost[] =>
+      item.platforms
+        .filter(platform => platform.status === 'scheduled' && (platform.scheduledAt ?? item.scheduledAt))
+        .map(platform => ({
+          contentId: item.id,
+          title: item.title,
+          platform: platform.platform,
+          scheduledAt: parseISO(platform.scheduledAt ?? item.scheduledAt!),
+        }))
+    ),
+    [calendarData]
+  );
+
   // Auto-schedule algorithm
-  const generateSchedule = useCallback(() => {
-    const enabledRules = schedulingRules.filter(rule => rule.enabled);
+  const schedulePlan = useMemo(() => {
     const contentToSchedule = bulkContent.filter(c => selectedContent.includes(c.id));
-    const scheduledContent: BulkContent[] = [];
-
-    let currentDate = new Date();
-    
-    // Sort content by priority
-    const sortedContent = [...contentToSchedule].sort((a, b) => {
-      const priorityOrder = { urgent: 4, high: 3, medium: 2, low: 1 };
-      return priorityOrder[b.priority] - priorityOrder[a.priority];
+    const plan = assignSlots(contentToSchedule, schedulingRules, {
+      start: planStart,
+      existing: existingPosts,
+      blackoutDates,
+      postingTimes: insights?.optimalPostingTimes,
     });
 
-    for (const content of sortedContent) {
-      let scheduled = false;
-      
-      // Find the best rule for this content
-      for (const rule of enabledRules) {
-        const contentPlatforms = content.platforms;
-        const rulePlatforms = rule.platforms;
-        
-        // Check if content platforms match rule platforms
-        const hasMatchingPlatform = contentPlatforms.some(platform => 
-          rulePlatforms.includes(platform)
-        );
-        
-        if (hasMatchingPlatform) {
-          // Find next available time slot
-          for (let dayOffset = 0; dayOffset < 30; dayOffset++) {
-            const checkDate = addDays(currentDate, dayOffset);
-            const dayOfWeek = checkDate.getDay();
-            
-            if (rule.daysOfWeek.includes(dayOfWeek)) {
-              for (const timeSlot of rule.timeSlots) {
-                const [hours, minutes] = timeSlot.split(':').map(Number);
-                const scheduleTime = new Date(checkDate);
-                scheduleTime.setHours(hours, minutes, 0, 0);
-                
-                // Check if this time slot is available (no conflicts)
-                const hasConflict = scheduledContent.some(sc => 
-                  sc.scheduledAt && 
-                  Math.abs(sc.scheduledAt.getTime() - scheduleTime.getTime()) < rule.spacing * 60 * 60 * 1000
-                );
-                
-                if (!hasConflict && scheduleTime > currentDate) {
-                  scheduledContent.push({
-                    ...content,
-                    scheduledAt: scheduleTime,
-                    status: 'scheduled',
-                  });
-                  scheduled = true;
-                  break;
-                }
-              }
-              
-              if (scheduled) break;
-            }
-          }
-          
-          if (scheduled) break;
-        }
-      }
-      
-      // If no rule matched, schedule for next business day at 9 AM
-      if (!scheduled) {
-        const nextBusinessDay = addDays(currentDate, 1);
-        nextBusinessDay.setHours(9, 0, 0, 0);
-        scheduledContent.push({
-          ...content,
-          scheduledAt: nextBusinessDay,
-          status: 'scheduled',
-        });
-      }
-    }
+    const scheduledContent: BulkContent[] = plan.assignments
+      .map(({ itemId, scheduledAt }) => ({
+        ...contentToSchedule.find(c => c.id === itemId)!,
+        scheduledAt,
+        status: 'scheduled' as const,
+      }))
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+    const unplaced = plan.unplaced.map(({ itemId, message }) => ({
+      content: contentToSchedule.find(c => c.id === itemId)!,
+      message,
+    }));
 
-    setBulkContent(prev => 
-      prev.map(content => {
-        const scheduled = scheduledContent.find(sc => sc.id === content.id);
-        return scheduled || content;
-      })
+    return { scheduledContent, unplaced };
+  }, [selectedContent, schedulingRules, bulkContent, planStart, existingPosts, blackoutDates, insights]);
+
+  // Imported drafts join the list already selected, ready for slot assignment
+  const handleImported = (created: Content[]) => {
+    setBulkContent(prev => [
+      ...prev,
+      ...created.map((item): BulkContent => ({
+        id: item.id,
+        title: item.title,
+        content: item.body,
+        platforms: item.platforms.map(({ platform }) => platform),
+        media: item.media.map(({ url, type }) => ({ url, type })),
+        tags: item.tags,
+        priority: item.priority,
+        status: 'pending',
+      })),
+    ]);
+    setSelectedContent(prev => [...prev, ...created.map(({ id }) => id)]);
+  };
+
+  // Same columns as the import, so the file can be edited and imported again
+  const handleExportCalendar = (fileFormat: SpreadsheetFormat) => {
+    setExportAnchor(null);
+    downloadSpreadsheet(
+      contentToSpreadsheetRows(calendarData?.calendar ?? []),
+      `content-calendar-${format(planStart, 'yyyy-MM-dd')}`,
+      fileFormat
     );
+  };
 
-    return scheduledContent;
-  }, [selectedContent, schedulingRules, bulkContent]);
+  const handleAddBlackoutDate = () => {
+    if (!blackoutInput || blackoutDates.includes(blackoutInput)) return;
+    setBlackoutDates(prev => [...prev, blackoutInput].sort());
+    setBlackoutInput('');
+  };
 
   // Execute scheduling
   const handleExecuteScheduling = async () => {
     setScheduling(true);
     setSchedulingProgress(0);
     
-    const scheduledContent = generateSchedule();
+    const { scheduledContent } = schedulePlan;
     const total = scheduledContent.length;
     let success = 0;
     let failed = 0;
@@ -370,6 +378,9 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
       setSchedulingProgress(((i + 1) / total) * 100);
     }
 
+    setBulkContent(prev =>
+      prev.map(content => scheduledContent.find(sc => sc.id === content.id) || content)
+    );
     setSchedulingResults({ success, failed, total });
     setScheduling(false);
     onSchedule?.(scheduledContent);
@@ -396,9 +407,27 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
             startIcon={<Upload />}
             size="small"
             sx={{ borderRadius: 2 }}
+            onClick={() => setImportOpen(true)}
+          >
+            Import
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            size="small"
+            sx={{ borderRadius: 2 }}
+            onClick={(e) => setExportAnchor(e.currentTarget)}
           >
-            Import CSV
+            Export Calendar
           </Button>
+          <Menu
+            anchorEl={exportAnchor}
+            open={Boolean(exportAnchor)}
+            onClose={() => setExportAnchor(null)}
+          >
+            <MenuItem onClick={() => handleExportCalendar('csv')}>CSV (.csv)</MenuItem>
+            <MenuItem onClick={() => handleExportCalendar('xlsx')}>Excel (.xlsx)</MenuItem>
+          </Menu>
           <FormControlLabel
             control={
               <Checkbox
@@ -625,12 +654,53 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
           </Grid>
         ))}
       </Grid>
+
+      {/* Blackout Dates */}
+      <Paper sx={{ p: 3, mt: 3, borderRadius: 2 }}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          Blackout Dates
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Nothing is scheduled on these days, whatever the rules say.
+        </Typography>
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+          <TextField
+            type="date"
+            size="small"
+            value={blackoutInput}
+            onChange={(e) => setBlackoutInput(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            label="Date"
+          />
+          <Button
+            variant="outlined"
+            startIcon={<Add />}
+            size="small"
+            onClick={handleAddBlackoutDate}
+            disabled={!blackoutInput}
+            sx={{ borderRadius: 2 }}
+          >
+            Add
+          </Button>
+        </Stack>
+        <Stack direction="row" spacing={0.5} flexWrap="wrap">
+          {blackoutDates.map((date) => (
+            <Chip
+              key={date}
+              label={format(parseISO(date), 'EEE, MMM d, yyyy')}
+              size="small"
+              onDelete={() => setBlackoutDates(prev => prev.filter(d => d !== date))}
+              sx={{ mb: 0.5 }}
+            />
+          ))}
+        </Stack>
+      </Paper>
     </Box>
   );
 
   // Render preview step
   const renderPreview = () => {
-    const scheduledContent = generateSchedule();
+    const { scheduledContent, unplaced } = schedulePlan;
     
     return (
       <Box>
@@ -652,13 +722,26 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
               startIcon={<AutoAwesome />}
               size="small"
               sx={{ borderRadius: 2 }}
-              onClick={generateSchedule}
+              onClick={() => setPlanStart(new Date())}
             >
               Regenerate
             </Button>
           </Stack>
         </Stack>
 
+        {unplaced.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+            <Typography variant="body2" fontWeight={600} sx={{ mb: 0.5 }}>
+              {unplaced.length} of {unplaced.length + scheduledContent.length} items could not be placed
+            </Typography>
+            {unplaced.map(({ content, message }) => (
+              <Typography key={content.id} variant="body2">
+                {content.title}: {message}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+
         <Grid container spacing={3}>
           {/* Schedule Summary */}
           <Grid item xs={12} md={4}>
@@ -711,9 +794,7 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
                 Scheduled Content Timeline
               </Typography>
               <Stack spacing={2}>
-                {scheduledContent
-                  .sort((a, b) => (a.scheduledAt?.getTime() || 0) - (b.scheduledAt?.getTime() || 0))
-                  .map((content) => (
+                {scheduledContent.map((content) => (
                   <Box key={content.id} sx={{ display: 'flex', alignItems: 'center', p: 2, borderRadius: 2, bgcolor: alpha(theme.palette.background.paper, 0.5), border: `1px solid ${alpha(theme.palette.divider, 0.1)}` }}>
                     <Box sx={{ width: 120, flexShrink: 0 }}>
                       <Typography variant="body2" fontWeight={600}>
@@ -874,10 +955,6 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
   );
 
   const handleNext = () => {
-    if (activeStep === 2) {
-      // Generate schedule before moving to execution step
-      generateSchedule();
-    }
     setActiveStep((prevActiveStep) => prevActiveStep + 1);
   };
 
@@ -968,6 +1045,12 @@ export const BulkScheduler: React.FC<BulkSchedulerProps> = ({
           </Stack>
         </Stack>
       </Paper>
+
+      <ContentImportDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={handleImported}
+      />
     </Box>
   );
 };
\ No newline at end of file
@@ -0,0 +1,363 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stepper,
+  Step,
+  StepLabel,
+  TextField,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  LinearProgress,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import {
+  Upload,
+  CheckCircle,
+  Error as ErrorIcon,
+  Warning,
+} from '@mui/icons-material';
+import { format, parseISO } from 'date-fns';
+import { useCreateContentMutation, type Content } from '../../store/api/contentApi';
+import { useGetMediaFilesQuery } from '../../store/api/mediaApi';
+import { useContentRules } from '../../hooks/useContentRules';
+import { platformLabel } from '../../utils/platforms';
+import {
+  CONTENT_COLUMNS,
+  buildContentImport,
+  detectColumnMapping,
+  missingRequiredColumns,
+  type ContentColumnMapping,
+} from '../../utils/contentSpreadsheet';
+import { readSpreadsheetFile, type SpreadsheetRows } from '../../utils/spreadsheet';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+interface ContentImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported?: (content: Content[]) => void;
+}
+
+interface ImportResults {
+  created: number;
+  failed: { rowNumber: number; message: string }[];
+}
+
+const steps = ['Upload File', 'Map Columns', 'Review Rows'];
+
+// Large enough to resolve media URLs against a typical workspace library in one request
+const MEDIA_LOOKUP_LIMIT = 500;
+
+export const ContentImportDialog: React.FC<ContentImportDialogProps> = ({
+  open,
+  onClose,
+  onImported,
+}) => {
+  const [activeStep, setActiveStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<SpreadsheetRows>([]);
+  const [mapping, setMapping] = useState<ContentColumnMapping>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState(0);
+  const [results, setResults] = useState<ImportResults | null>(null);
+
+  const [createContent] = useCreateContentMutation();
+  const { data: mediaData } = useGetMediaFilesQuery({ limit: MEDIA_LOOKUP_LIMIT }, { skip: !open });
+  const { rules } = useContentRules();
+
+  const headers = rows[0] ?? [];
+  const missingColumns = missingRequiredColumns(mapping);
+
+  const importRows = useMemo(
+    () => (activeStep === 2 ? buildContentImport(rows, mapping, { mediaLibrary: mediaData?.files, rules }) : []),
+    [activeStep, rows, mapping, mediaData, rules]
+  );
+  const readyRows = importRows.filter(row => row.request);
+  const visibleRows = problemsOnly
+    ? importRows.filter(row => row.errors.length || row.warnings.length)
+    : importRows;
+
+  const handleClose = () => {
+    if (importing) return;
+    setActiveStep(0);
+    setFileName('');
+    setRows([]);
+    setMapping({});
+    setFileError(null);
+    setProblemsOnly(false);
+    setResults(null);
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    try {
+      const sheet = await readSpreadsheetFile(file);
+      if (sheet.length < 2) {
+        setFileError(`${file.name} has no rows below the header row`);
+        return;
+      }
+      setFileName(file.name);
+      setRows(sheet);
+      setMapping(detectColumnMapping(sheet[0]));
+      setActiveStep(1);
+    } catch (error) {
+      setFileError((error as Error).message || `Could not read ${file.name}`);
+    }
+  };
+
+  const handleMappingChange = (field: keyof ContentColumnMapping, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  // Rows are created one at a time, so a failure only costs that row
+  const handleImport = async () => {
+    setImporting(true);
+    setImportProgress(0);
+
+    const created: Content[] = [];
+    const failed: ImportResults['failed'] = [];
+
+    for (let i = 0; i < readyRows.length; i++) {
+      const { rowNumber, request } = readyRows[i];
+      try {
+        const { content } = await createContent(request!).unwrap();
+        created.push(content);
+      } catch (error) {
+        failed.push({ rowNumber, message: getApiErrorMessage(error, 'Failed to create the draft') });
+      }
+      setImportProgress(((i + 1) / readyRows.length) * 100);
+    }
+
+    setResults({ created: created.length, failed });
+    setImporting(false);
+    if (created.length) onImported?.(created);
+  };
+
+  const renderUpload = () => (
+    <Stack spacing={3} alignItems="center" sx={{ py: 4 }}>
+      <Typography variant="body1" color="text.secondary" textAlign="center">
+        Upload a CSV or Excel (.xlsx) file with one post per row and a header row. Columns for title, body,
+        platforms, scheduled time, tags and media URLs are recognised automatically.
+      </Typography>
+      <Button variant="contained" component="label" startIcon={<Upload />} sx={{ borderRadius: 2 }}>
+        Choose File
+        <input hidden type="file" accept=".csv,.xlsx,text/csv" onChange={handleFileChange} />
+      </Button>
+      {fileError && (
+        <Alert severity="error" sx={{ width: '100%' }}>
+          {fileError}
+        </Alert>
+      )}
+    </Stack>
+  );
+
+  const renderMapping = () => (
+    <Stack spacing={2}>
+      <Typography variant="body2" color="text.secondary">
+        {fileName}: {rows.length - 1} rows. Check which column each field is read from.
+      </Typography>
+      {CONTENT_COLUMNS.map(({ field, header, required }) => {
+        const column = mapping[field];
+        const sample = column === undefined ? '' : rows[1]?.[column] ?? '';
+        return (
+          <Stack key={field} direction="row" spacing={2} alignItems="center">
+            <Typography variant="body2" fontWeight={600} sx={{ width: 140 }}>
+              {header}
+              {required && ' *'}
+            </Typography>
+            <TextField
+              select
+              size="small"
+              value={column ?? ''}
+              onChange={(e) => handleMappingChange(field, e.target.value)}
+              sx={{ width: 220 }}
+            >
+              <MenuItem value="">
+                <em>Not imported</em>
+              </MenuItem>
+              {headers.map((name, index) => (
+                <MenuItem key={index} value={index}>
+                  {name || `Column ${index + 1}`}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Typography variant="caption" color="text.secondary" noWrap sx={{ flex: 1 }}>
+              {sample}
+            </Typography>
+          </Stack>
+        );
+      })}
+      {missingColumns.length > 0 && (
+        <Alert severity="warning">
+          Choose a column for {missingColumns.map(({ header }) => header).join(', ')}
+        </Alert>
+      )}
+    </Stack>
+  );
+
+  const renderReview = () => {
+    const withErrors = importRows.length - readyRows.length;
+    const withWarnings = importRows.filter(row => row.request && row.warnings.length).length;
+
+    return (
+      <Stack spacing={2}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Chip icon={<CheckCircle />} label={`${readyRows.length} ready`} color="success" size="small" />
+          {withErrors > 0 && <Chip icon={<ErrorIcon />} label={`${withErrors} with errors`} color="error" size="small" />}
+          {withWarnings > 0 && <Chip icon={<Warning />} label={`${withWarnings} with warnings`} color="warning" size="small" />}
+          <Box sx={{ flex: 1 }} />
+          <FormControlLabel
+            control={<Switch size="small" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />}
+            label="Only rows with issues"
+          />
+        </Stack>
+
+        {withErrors > 0 && !results && (
+          <Alert severity="info">
+            Rows with errors are skipped. Fix them in the spreadsheet and import it again, or go back and change the
+            column mapping.
+          </Alert>
+        )}
+
+        {importing && <LinearProgress variant="determinate" value={importProgress} />}
+
+        {results && (
+          <Alert severity={results.failed.length ? 'warning' : 'success'}>
+            Created {results.created} draft{results.created === 1 ? '' : 's'}
+            {results.failed.length > 0 &&
+              `. Failed: ${results.failed.map(({ rowNumber, message }) => `row ${rowNumber} (${message})`).join(', ')}`}
+          </Alert>
+        )}
+
+        <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 400 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Row</TableCell>
+                <TableCell>Title</TableCell>
+                <TableCell>Platforms</TableCell>
+                <TableCell>Scheduled</TableCell>
+                <TableCell>Issues</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visibleRows.map(({ rowNumber, title, request, errors, warnings }) => (
+                <TableRow key={rowNumber} sx={{ verticalAlign: 'top' }}>
+                  <TableCell>{rowNumber}</TableCell>
+                  <TableCell>{title || '—'}</TableCell>
+                  <TableCell>
+                    {request?.platforms.map(({ platform }) => platformLabel(platform)).join(', ') ?? '—'}
+                  </TableCell>
+                  <TableCell>
+                    {request?.scheduledAt ? format(parseISO(request.scheduledAt), 'MMM d, yyyy HH:mm') : 'Draft'}
+                  </TableCell>
+                  <TableCell>
+                    {errors.map((message) => (
+                      <Typography key={message} variant="caption" color="error" display="block">
+                        {message}
+                      </Typography>
+                    ))}
+                    {warnings.map((message) => (
+                      <Typography key={message} variant="caption" color="warning.main" display="block">
+                        {message}
+                      </Typography>
+                    ))}
+                    {!errors.length && !warnings.length && (
+                      <CheckCircle fontSize="small" color="success" />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Stack>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 3 } }}
+    >
+      <DialogTitle>
+        <Typography variant="h6" fontWeight={600}>
+          Import Content Calendar
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={activeStep} sx={{ mb: 4 }}>
+          {steps.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {activeStep === 0 && renderUpload()}
+        {activeStep === 1 && renderMapping()}
+        {activeStep === 2 && renderReview()}
+      </DialogContent>
+      <DialogActions sx={{ p: 3 }}>
+        <Button onClick={handleClose} disabled={importing} sx={{ borderRadius: 2 }}>
+          {results ? 'Done' : 'Cancel'}
+        </Button>
+        {activeStep > 0 && !results && (
+          <Button onClick={() => setActiveStep(activeStep - 1)} disabled={importing} sx={{ borderRadius: 2 }}>
+            Back
+          </Button>
+        )}
+        {activeStep === 1 && (
+          <Button
+            variant="contained"
+            onClick={() => setActiveStep(2)}
+            disabled={missingColumns.length > 0}
+            sx={{ borderRadius: 2 }}
+          >
+            Next
+          </Button>
+        )}
+        {activeStep === 2 && !results && (
+          <Button
+            variant="contained"
+            onClick={handleImport}
+            disabled={importing || !readyRows.length}
+            sx={{ borderRadius: 2 }}
+          >
+            {importing ? 'Creating Drafts...' : `Create ${readyRows.length} Draft${readyRows.length === 1 ? '' : 's'}`}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -35,6 +35,8 @@ import {
   Divider,
   ToggleButton,
   ToggleButtonGroup,
+  Snackbar,
+  Alert,
 } from '@mui/material';
 import {
   ChevronLeft,
@@ -69,6 +71,7 @@ import {
   AccessTime,
   LocationOn,
   Language,
+  Download,
 } from '@mui/icons-material';
 import { 
   format, 
@@ -79,6 +82,8 @@ import {
   addDays,
   addMonths,
   subMonths,
+  addWeeks,
+  subWeeks,
   isSameMonth,
   isSameDay,
   isToday,
@@ -88,9 +93,38 @@ import {
   addHours,
   setHours,
   setMinutes,
+  getHours,
+  getMinutes,
+  isSameHour,
   parseISO,
 } from 'date-fns';
-import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
+import {
+  DragDropContext,
+  Droppable,
+  Draggable,
+  type DraggableProvided,
+  type DraggableStateSnapshot,
+  type DroppableProvided,
+  type DroppableStateSnapshot,
+  type DropResult,
+} from 'react-beautiful-dnd';
+import { useGetContentCalendarQuery, useScheduleContentMutation, type Content } from '../../store/api/contentApi';
+import { useTenant } from '../../contexts/TenantContext';
+import {
+  DEFAULT_MIN_SPACING_MINUTES,
+  findScheduleConflicts,
+  hasBlockingConflict,
+  type ScheduleConflict,
+  type ScheduledPost,
+} from '../../utils/scheduleConflicts';
+import {
+  buildIcsCalendar,
+  calendarEventUid,
+  contentDeepLink,
+  downloadIcsFile,
+  type CalendarExportEvent,
+} from '../../utils/calendarExport';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 interface ScheduledContent {
   id: string;
@@ -158,62 +192,51 @@ const optimalTimes: TimeSlot[] = [
   { time: '20:00', score: 80, label: 'Good', platforms: ['instagram', 'tiktok'] },
 ];
 
-// Mock scheduled content
-const mockScheduledContent: ScheduledContent[] = [
-  {
-    id: '1',
-    title: 'Product Launch Announcement',
-    content: '🚀 Exciting news! We\'re launching our new AI-powered feature...',
-    platforms: [
-      { platform: 'linkedin', status: 'scheduled' },
-      { platform: 'twitter', status: 'scheduled' },
-    ],
-    scheduledAt: addHours(new Date(), 2),
-    status: 'scheduled',
-    analytics: {
-      estimatedReach: 15000,
-      optimalScore: 92,
-    },
-  },
-  {
-    id: '2',
-    title: 'Weekly Tips Thread',
-    content: '💡 Here are 5 tips to boost your social media engagement...',
-    platforms: [
-      { platform: 'twitter', status: 'published' },
-      { platform: 'instagram', status: 'published' },
-    ],
-    scheduledAt: addDays(new Date(), -1),
-    status: 'published',
-    analytics: {
-      estimatedReach: 8500,
-      optimalScore: 78,
-    },
-  },
-  {
-    id: '3',
-    title: 'Behind the Scenes',
-    content: '👀 Take a peek behind the scenes of our creative process...',
-    platforms: [
-      { platform: 'instagram', status: 'scheduled' },
-      { platform: 'tiktok', status: 'scheduled' },
-    ],
-    scheduledAt: addDays(new Date(), 3),
-    status: 'scheduled',
-    analytics: {
-      estimatedReach: 12000,
-      optimalScore: 88,
-    },
-    recurrence: {
-      frequency: 'weekly',
-    },
-  },
-];
+// Maps calendar API content onto the scheduler's view model
+const toScheduledContent = (item: Content): ScheduledContent => ({
+  id: item.id,
+  title: item.title,
+  content: item.body,
+  platforms: item.platforms.map(({ platform, status }) => ({
+    platform,
+    status: status === 'scheduled' || status === 'published' || status === 'failed' ? status : undefined,
+  })),
+  scheduledAt: new Date(item.scheduledAt!),
+  status: item.status === 'scheduled' || item.status === 'published' || item.status === 'failed' ? item.status : 'draft',
+  media: item.media.map(({ url, type }) => ({ url, type })),
+});
+
+const toScheduledPosts = (content: ScheduledContent, scheduledAt = content.scheduledAt): ScheduledPost[] =>
+  content.platforms.map(({ platform }) => ({ contentId: content.id, title: content.title, platform, scheduledAt }));
+
+// Month cells keep the post's time of day; week cells set the hour and keep the minutes
+const dayDropId = (date: Date) => `day:${date.toISOString()}`;
+const hourDropId = (date: Date) => `hour:${date.toISOString()}`;
+
+const resolveDropTime = (droppableId: string, current: Date): Date | null => {
+  const separator = droppableId.indexOf(':');
+  const kind = droppableId.slice(0, separator);
+  const target = parseISO(droppableId.slice(separator + 1));
+  if (Number.isNaN(target.getTime())) return null;
+
+  const withMinutes = setMinutes(target, getMinutes(current));
+  return kind === 'hour' ? withMinutes : setHours(withMinutes, getHours(current));
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const WEEK_GRID_COLUMNS = '56px repeat(7, 1fr)';
+
+interface PendingMove {
+  content: ScheduledContent;
+  from: Date;
+  to: Date;
+  conflicts: ScheduleConflict[];
+}
 
 type ViewMode = 'month' | 'week' | 'day' | 'list';
 
 export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
-  scheduledContent = mockScheduledContent,
+  scheduledContent: scheduledContentProp,
   onContentSelect,
   onContentSchedule,
   onContentUpdate,
@@ -232,6 +255,44 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
   const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; content: ScheduledContent } | null>(null);
   const [hoveredDate, setHoveredDate] = useState<Date | null>(null);
   const [draggedContent, setDraggedContent] = useState<ScheduledContent | null>(null);
+  const [rescheduled, setRescheduled] = useState<Record<string, Date>>({});
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [lastMove, setLastMove] = useState<PendingMove | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const { currentWorkspace } = useTenant();
+  const [scheduleContent, { isLoading: isRescheduling }] = useScheduleContentMutation();
+
+  // The visible grid plus a day either side, so daily limits near the edges see their neighbours
+  const calendarRange = useMemo(() => ({
+    startDate: addDays(startOfWeek(startOfMonth(currentDate)), -1).toISOString(),
+    endDate: addDays(endOfWeek(endOfMonth(currentDate)), 1).toISOString(),
+  }), [currentDate]);
+  const { data: calendarData, isLoading: isCalendarLoading } = useGetContentCalendarQuery(calendarRange, {
+    skip: Boolean(scheduledContentProp),
+  });
+
+  const sourceContent = useMemo(
+    () => scheduledContentProp ?? (calendarData?.calendar ?? []).filter((item) => item.scheduledAt).map(toScheduledContent),
+    [scheduledContentProp, calendarData]
+  );
+
+  // Dropped posts show at their new time while the server round-trip is in flight
+  const scheduledContent = useMemo(
+    () => sourceContent.map((content) => (rescheduled[content.id] ? { ...content, scheduledAt: rescheduled[content.id] } : content)),
+    [sourceContent, rescheduled]
+  );
+
+  // Forget optimistic times once the refetched data agrees with them
+  useEffect(() => {
+    setRescheduled((previous) => {
+      const pending = Object.entries(previous).filter(
+        ([id, at]) => sourceContent.find((content) => content.id === id)?.scheduledAt.getTime() !== at.getTime()
+      );
+      return pending.length === Object.keys(previous).length ? previous : Object.fromEntries(pending);
+    });
+  }, [sourceContent]);
+
+  const minSpacingMinutes = currentWorkspace?.contentSettings.minPostSpacingMinutes ?? DEFAULT_MIN_SPACING_MINUTES;
 
   // Calculate calendar days
   const calendarDays = useMemo(() => {
@@ -257,11 +318,11 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
 
   // Handle navigation
   const handlePreviousMonth = () => {
-    setCurrentDate(subMonths(currentDate, 1));
+    setCurrentDate(viewMode === 'week' ? subWeeks(currentDate, 1) : subMonths(currentDate, 1));
   };
 
   const handleNextMonth = () => {
-    setCurrentDate(addMonths(currentDate, 1));
+    setCurrentDate(viewMode === 'week' ? addWeeks(currentDate, 1) : addMonths(currentDate, 1));
   };
 
   const handleToday = () => {
@@ -279,22 +340,60 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
     }
   };
 
-  // Handle drag and drop
-  const handleDragEnd = (result: any) => {
+  // Saves the new time on the server; the calendar shows it right away and rolls back on failure
+  const reschedule = async (content: ScheduledContent, to: Date) => {
+    setRescheduled((previous) => ({ ...previous, [content.id]: to }));
+    try {
+      await scheduleContent({
+        id: content.id,
+        scheduledAt: to.toISOString(),
+        platforms: content.platforms.map(({ platform }) => platform),
+      }).unwrap();
+      onContentUpdate?.({ ...content, scheduledAt: to });
+      return true;
+    } catch (error) {
+      setRescheduled(({ [content.id]: _failed, ...rest }) => rest);
+      setMoveError(getApiErrorMessage(error, `Failed to reschedule "${content.title}"`));
+      return false;
+    }
+  };
+
+  const commitMove = async (move: PendingMove) => {
+    setPendingMove(null);
+    if (await reschedule(move.content, move.to)) {
+      setLastMove(move);
+    }
+  };
+
+  const handleUndoMove = async () => {
+    if (!lastMove) return;
+    const { content, from, to } = lastMove;
+    setLastMove(null);
+    await reschedule({ ...content, scheduledAt: to }, from);
+  };
+
+  // Handle drag and drop: moves without conflicts save straight away, the rest wait for confirmation
+  const handleDragEnd = (result: DropResult) => {
     if (!result.destination) return;
 
-    const sourceDate = parseISO(result.source.droppableId);
-    const destDate = parseISO(result.destination.droppableId);
-    
-    if (!isSameDay(sourceDate, destDate)) {
-      const content = scheduledContent.find(c => c.id === result.draggableId);
-      if (content) {
-        const updatedContent = {
-          ...content,
-          scheduledAt: destDate,
-        };
-        onContentUpdate?.(updatedContent);
-      }
+    const content = scheduledContent.find(c => c.id === result.draggableId);
+    const to = content && resolveDropTime(result.destination.droppableId, content.scheduledAt);
+    if (!content || !to || to.getTime() === content.scheduledAt.getTime()) return;
+
+    const others = scheduledContent
+      .filter((other) => other.status !== 'draft' && other.status !== 'failed')
+      .flatMap((other) => toScheduledPosts(other));
+    const move: PendingMove = {
+      content,
+      from: content.scheduledAt,
+      to,
+      conflicts: findScheduleConflicts(toScheduledPosts(content, to), others, { minSpacingMinutes }),
+    };
+
+    if (move.conflicts.length) {
+      setPendingMove(move);
+    } else {
+      commitMove(move);
     }
   };
 
@@ -323,6 +422,29 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
     setMenuAnchor(null);
   };
 
+  // Every platform post of the visible month (narrowed by the platform filter) as an .ics download
+  const handleExportIcs = () => {
+    const events: CalendarExportEvent[] = scheduledContent
+      .filter((content) => content.status !== 'draft')
+      .flatMap((content) =>
+        content.platforms
+          .filter(({ platform }) => !filterPlatforms.length || filterPlatforms.includes(platform))
+          .map(({ platform, status, scheduledTime }) => ({
+            uid: calendarEventUid(content.id, platform),
+            title: content.title,
+            start: scheduledTime ?? content.scheduledAt,
+            platform,
+            platforms: content.platforms.map((config) => config.platform),
+            status: status ?? content.status,
+            url: contentDeepLink(content.id, window.location.origin),
+            description: content.content,
+          }))
+      )
+      .filter((event) => isSameMonth(event.start, currentDate));
+
+    downloadIcsFile(buildIcsCalendar(events, { name: 'Content Calendar' }), `content-calendar-${format(currentDate, 'yyyy-MM')}`);
+  };
+
   // Render calendar header
   const renderCalendarHeader = () => (
     <Box sx={{ mb: 3 }}>
@@ -333,7 +455,9 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
             <ChevronLeft />
           </IconButton>
           <Typography variant="h5" fontWeight={700} sx={{ minWidth: 200, textAlign: 'center' }}>
-            {format(currentDate, 'MMMM yyyy')}
+            {viewMode === 'week'
+              ? `${format(startOfWeek(currentDate), 'MMM d')} – ${format(endOfWeek(currentDate), 'MMM d, yyyy')}`
+              : format(currentDate, 'MMMM yyyy')}
           </Typography>
           <IconButton onClick={handleNextMonth} sx={{ borderRadius: 2 }}>
             <ChevronRight />
@@ -439,6 +563,18 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
         >
           Analytics
         </Button>
+
+        <Tooltip title="Download this month as an .ics file for Outlook or Google Calendar">
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={handleExportIcs}
+            size="small"
+            sx={{ borderRadius: 2 }}
+          >
+            Export .ics
+          </Button>
+        </Tooltip>
       </Stack>
     </Box>
   );
@@ -480,221 +616,292 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
     );
 
     return (
-      <DragDropContext onDragEnd={handleDragEnd}>
-        <Droppable droppableId={date.toISOString()} isDropDisabled={isPastDate}>
-          {(provided, snapshot) => (
-            <Paper
-              ref={provided.innerRef}
-              {...provided.droppableProps}
-              onClick={() => handleDateClick(date)}
-              onMouseEnter={() => setHoveredDate(date)}
-              onMouseLeave={() => setHoveredDate(null)}
-              sx={{
-                height: 120,
-                p: 1,
-                cursor: 'pointer',
-                position: 'relative',
-                overflow: 'hidden',
-                borderRadius: 2,
-                border: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
-                transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
-                background: isSelected
-                  ? alpha(theme.palette.primary.main, 0.08)
-                  : isPastDate
-                  ? alpha(theme.palette.action.disabled, 0.02)
-                  : snapshot.isDraggingOver
-                  ? alpha(theme.palette.primary.main, 0.04)
-                  : 'transparent',
-                '&:hover': {
-                  transform: 'translateY(-2px)',
-                  boxShadow: theme.shadows[4],
-                  borderColor: theme.palette.primary.main,
-                  background: alpha(theme.palette.primary.main, 0.04),
-                },
-                opacity: isCurrentMonth ? 1 : 0.4,
-              }}
-            >
-              {/* Date Number */}
-              <Stack direction="row" justifyContent="space-between" alignItems="flex-start" sx={{ mb: 0.5 }}>
-                <Typography
-                  variant="body2"
-                  sx={{
-                    fontWeight: isToday(date) ? 700 : 500,
-                    color: isToday(date)
-                      ? theme.palette.primary.main
-                      : isPastDate
-                      ? theme.palette.text.disabled
-                      : theme.palette.text.primary,
-                  }}
+      <Droppable droppableId={dayDropId(date)} isDropDisabled={isPastDate}>
+        {(provided, snapshot) => (
+          <Paper
+            ref={provided.innerRef}
+            {...provided.droppableProps}
+            onClick={() => handleDateClick(date)}
+            onMouseEnter={() => setHoveredDate(date)}
+            onMouseLeave={() => setHoveredDate(null)}
+            sx={{
+              height: 120,
+              p: 1,
+              cursor: 'pointer',
+              position: 'relative',
+              overflow: 'hidden',
+              borderRadius: 2,
+              border: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
+              transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+              background: isSelected
+                ? alpha(theme.palette.primary.main, 0.08)
+                : isPastDate
+                ? alpha(theme.palette.action.disabled, 0.02)
+                : snapshot.isDraggingOver
+                ? alpha(theme.palette.primary.main, 0.04)
+                : 'transparent',
+              '&:hover': {
+                transform: 'translateY(-2px)',
+                boxShadow: theme.shadows[4],
+                borderColor: theme.palette.primary.main,
+                background: alpha(theme.palette.primary.main, 0.04),
+              },
+              opacity: isCurrentMonth ? 1 : 0.4,
+            }}
+          >
+            {/* Date Number */}
+            <Stack direction="row" justifyContent="space-between" alignItems="flex-start" sx={{ mb: 0.5 }}>
+              <Typography
+                variant="body2"
+                sx={{
+                  fontWeight: isToday(date) ? 700 : 500,
+                  color: isToday(date)
+                    ? theme.palette.primary.main
+                    : isPastDate
+                    ? theme.palette.text.disabled
+                    : theme.palette.text.primary,
+                }}
+              >
+                {format(date, 'd')}
+              </Typography>
+              {isOptimalDay && (
+                <Tooltip title="Optimal posting time">
+                  <TrendingUp
+                    sx={{
+                      fontSize: 16,
+                      color: theme.palette.success.main,
+                      animation: 'pulse 2s infinite',
+                    }}
+                  />
+                </Tooltip>
+              )}
+            </Stack>
+
+            {/* Content Items */}
+            <Box sx={{ mt: 0.5 }}>
+              {dayContent.slice(0, 3).map((content, index) => (
+                <Draggable
+                  key={content.id}
+                  draggableId={content.id}
+                  index={index}
+                  isDragDisabled={isPastDate || content.status === 'published'}
                 >
-                  {format(date, 'd')}
-                </Typography>
-                {isOptimalDay && (
-                  <Tooltip title="Optimal posting time">
-                    <TrendingUp
+                  {(provided, snapshot) => (
+                    <Box
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      onClick={(e) => handleContentClick(content, e)}
+                      onContextMenu={(e) => handleContentMenu(e, content)}
                       sx={{
-                        fontSize: 16,
-                        color: theme.palette.success.main,
-                        animation: 'pulse 2s infinite',
-                      }}
-                    />
-                  </Tooltip>
-                )}
-              </Stack>
-
-              {/* Content Items */}
-              <Box sx={{ mt: 0.5 }}>
-                {dayContent.slice(0, 3).map((content, index) => (
-                  <Draggable
-                    key={content.id}
-                    draggableId={content.id}
-                    index={index}
-                    isDragDisabled={isPastDate || content.status === 'published'}
-                  >
-                    {(provided, snapshot) => (
-                      <Box
-                        ref={provided.innerRef}
-                        {...provided.draggableProps}
-                        onClick={(e) => handleContentClick(content, e)}
-                        onContextMenu={(e) => handleContentMenu(e, content)}
-                        sx={{
-                          mb: 0.5,
-                          p: 0.5,
-                          borderRadius: 1,
-                          fontSize: '0.7rem',
-                          cursor: 'pointer',
-                          position: 'relative',
-                          overflow: 'hidden',
-                          background: alpha(theme.palette.background.paper, 0.9),
-                          border: `1px solid ${alpha(theme.palette.divider, 0.2)}`,
-                          transition: 'all 0.2s ease',
-                          transform: snapshot.isDragging ? 'rotate(2deg)' : 'none',
-                          boxShadow: snapshot.isDragging ? theme.shadows[8] : 'none',
-                          '&:hover': {
-                            background: theme.palette.background.paper,
-                            borderColor: theme.palette.primary.main,
-                            '& .drag-handle': {
-                              opacity: 1,
-                            },
+                        mb: 0.5,
+                        p: 0.5,
+                        borderRadius: 1,
+                        fontSize: '0.7rem',
+                        cursor: 'pointer',
+                        position: 'relative',
+                        overflow: 'hidden',
+                        background: alpha(theme.palette.background.paper, 0.9),
+                        border: `1px solid ${alpha(theme.palette.divider, 0.2)}`,
+                        transition: 'all 0.2s ease',
+                        transform: snapshot.isDragging ? 'rotate(2deg)' : 'none',
+                        boxShadow: snapshot.isDragging ? theme.shadows[8] : 'none',
+                        '&:hover': {
+                          background: theme.palette.background.paper,
+                          borderColor: theme.palette.primary.main,
+                          '& .drag-handle': {
+                            opacity: 1,
                           },
-                        }}
-                      >
-                        <Stack direction="row" alignItems="center" spacing={0.5}>
-                          <Box
-                            {...provided.dragHandleProps}
-                            className="drag-handle"
-                            sx={{
-                              opacity: 0,
-                              transition: 'opacity 0.2s',
-                              cursor: 'grab',
-                              color: theme.palette.text.secondary,
-                            }}
-                          >
-                            <DragIndicator sx={{ fontSize: 14 }} />
-                          </Box>
-                          
-                          {/* Status Indicator */}
-                          {content.status === 'published' ? (
-                            <CheckCircle sx={{ fontSize: 12, color: theme.palette.success.main }} />
-                          ) : content.status === 'failed' ? (
-                            <ErrorIcon sx={{ fontSize: 12, color: theme.palette.error.main }} />
-                          ) : content.status === 'publishing' ? (
-                            <Circle sx={{ fontSize: 12, color: theme.palette.warning.main }} />
-                          ) : (
-                            <Schedule sx={{ fontSize: 12, color: theme.palette.info.main }} />
+                        },
+                      }}
+                    >
+                      <Stack direction="row" alignItems="center" spacing={0.5}>
+                        <Box
+                          {...provided.dragHandleProps}
+                          className="drag-handle"
+                          sx={{
+                            opacity: 0,
+                            transition: 'opacity 0.2s',
+                            cursor: 'grab',
+                            color: theme.palette.text.secondary,
+                          }}
+                        >
+                          <DragIndicator sx={{ fontSize: 14 }} />
+                        </Box>
+                        
+                        {/* Status Indicator */}
+                        {content.status === 'published' ? (
+                          <CheckCircle sx={{ fontSize: 12, color: theme.palette.success.main }} />
+                        ) : content.status === 'failed' ? (
+                          <ErrorIcon sx={{ fontSize: 12, color: theme.palette.error.main }} />
+                        ) : content.status === 'publishing' ? (
+                          <Circle sx={{ fontSize: 12, color: theme.palette.warning.main }} />
+                        ) : (
+                          <Schedule sx={{ fontSize: 12, color: theme.palette.info.main }} />
+                        )}
+                        
+                        {/* Platforms */}
+                        <Stack direction="row" spacing={0.25}>
+                          {content.platforms.slice(0, 2).map((p) => (
+                            <Typography key={p.platform} sx={{ fontSize: 10 }}>
+                              {platformIcons[p.platform]}
+                            </Typography>
+                          ))}
+                          {content.platforms.length > 2 && (
+                            <Typography sx={{ fontSize: 10, color: theme.palette.text.secondary }}>
+                              +{content.platforms.length - 2}
+                            </Typography>
                           )}
-                          
-                          {/* Platforms */}
-                          <Stack direction="row" spacing={0.25}>
-                            {content.platforms.slice(0, 2).map((p) => (
-                              <Typography key={p.platform} sx={{ fontSize: 10 }}>
-                                {platformIcons[p.platform]}
-                              </Typography>
-                            ))}
-                            {content.platforms.length > 2 && (
-                              <Typography sx={{ fontSize: 10, color: theme.palette.text.secondary }}>
-                                +{content.platforms.length - 2}
-                              </Typography>
-                            )}
-                          </Stack>
-                          
-                          {/* Title */}
-                          <Typography
-                            variant="caption"
-                            sx={{
-                              flex: 1,
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              whiteSpace: 'nowrap',
-                              fontSize: '0.7rem',
-                            }}
-                          >
-                            {content.title}
-                          </Typography>
                         </Stack>
-
-                        {/* Time */}
+                        
+                        {/* Title */}
                         <Typography
                           variant="caption"
                           sx={{
-                            fontSize: '0.65rem',
-                            color: theme.palette.text.secondary,
-                            mt: 0.25,
+                            flex: 1,
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                            fontSize: '0.7rem',
                           }}
                         >
-                          {format(content.scheduledAt, 'HH:mm')}
+                          {content.title}
                         </Typography>
-                      </Box>
-                    )}
-                  </Draggable>
-                ))}
-                {dayContent.length > 3 && (
-                  <Typography
-                    variant="caption"
+                      </Stack>
+
+                      {/* Time */}
+                      <Typography
+                        variant="caption"
+                        sx={{
+                          fontSize: '0.65rem',
+                          color: theme.palette.text.secondary,
+                          mt: 0.25,
+                        }}
+                      >
+                        {format(content.scheduledAt, 'HH:mm')}
+                      </Typography>
+                    </Box>
+                  )}
+                </Draggable>
+              ))}
+              {dayContent.length > 3 && (
+                <Typography
+                  variant="caption"
+                  sx={{
+                    fontSize: '0.65rem',
+                    color: theme.palette.primary.main,
+                    cursor: 'pointer',
+                    '&:hover': { textDecoration: 'underline' },
+                  }}
+                >
+                  +{dayContent.length - 3} more
+                </Typography>
+              )}
+            </Box>
+
+            {/* Quick Add Button */}
+            {isHovered && !isPastDate && (
+              <Fade in>
+                <IconButton
+                  size="small"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSelectedDate(date);
+                    setQuickScheduleOpen(true);
+                  }}
+                  sx={{
+                    position: 'absolute',
+                    bottom: 4,
+                    right: 4,
+                    width: 24,
+                    height: 24,
+                    bgcolor: theme.palette.primary.main,
+                    color: 'white',
+                    '&:hover': {
+                      bgcolor: theme.palette.primary.dark,
+                    },
+                  }}
+                >
+                  <Add sx={{ fontSize: 16 }} />
+                </IconButton>
+              </Fade>
+            )}
+            {provided.placeholder}
+          </Paper>
+        )}
+      </Droppable>
+    );
+  };
+
+  // Render one hour of one day in the week view; posts can be dropped on any future hour
+  const renderHourSlot = (slot: Date) => {
+    const slotContent = scheduledContent.filter((content) => isSameHour(content.scheduledAt, slot));
+    const isPastSlot = isPast(addHours(slot, 1));
+
+    return (
+      <Droppable key={slot.toISOString()} droppableId={hourDropId(slot)} isDropDisabled={isPastSlot}>
+        {(provided: DroppableProvided, snapshot: DroppableStateSnapshot) => (
+          <Box
+            ref={provided.innerRef}
+            {...provided.droppableProps}
+            sx={{
+              minHeight: 48,
+              p: 0.5,
+              borderLeft: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
+              bgcolor: snapshot.isDraggingOver
+                ? alpha(theme.palette.primary.main, 0.08)
+                : isPastSlot
+                ? alpha(theme.palette.action.disabled, 0.02)
+                : isToday(slot)
+                ? alpha(theme.palette.primary.main, 0.03)
+                : 'transparent',
+            }}
+          >
+            {slotContent.map((content, index) => (
+              <Draggable
+                key={content.id}
+                draggableId={content.id}
+                index={index}
+                isDragDisabled={isPastSlot || content.status === 'published'}
+              >
+                {(dragProvided: DraggableProvided, dragSnapshot: DraggableStateSnapshot) => (
+                  <Card
+                    ref={dragProvided.innerRef}
+                    {...dragProvided.draggableProps}
+                    {...dragProvided.dragHandleProps}
+                    onClick={(e: React.MouseEvent) => handleContentClick(content, e)}
+                    onContextMenu={(e: React.MouseEvent) => handleContentMenu(e, content)}
                     sx={{
-                      fontSize: '0.65rem',
-                      color: theme.palette.primary.main,
+                      mb: 0.5,
+                      p: 0.75,
                       cursor: 'pointer',
-                      '&:hover': { textDecoration: 'underline' },
+                      boxShadow: dragSnapshot.isDragging ? theme.shadows[8] : undefined,
+                      '&:hover': { boxShadow: theme.shadows[4] },
                     }}
                   >
-                    +{dayContent.length - 3} more
-                  </Typography>
+                    <Typography variant="caption" sx={{ display: 'block', fontWeight: 600 }}>
+                      {format(content.scheduledAt, 'HH:mm')}
+                    </Typography>
+                    <Typography
+                      variant="caption"
+                      sx={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                    >
+                      {content.title}
+                    </Typography>
+                    <Stack direction="row" spacing={0.25}>
+                      {content.platforms.slice(0, 3).map((p) => (
+                        <Typography key={p.platform} sx={{ fontSize: 10 }}>
+                          {platformIcons[p.platform]}
+                        </Typography>
+                      ))}
+                    </Stack>
+                  </Card>
                 )}
-              </Box>
-
-              {/* Quick Add Button */}
-              {isHovered && !isPastDate && (
-                <Fade in>
-                  <IconButton
-                    size="small"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setSelectedDate(date);
-                      setQuickScheduleOpen(true);
-                    }}
-                    sx={{
-                      position: 'absolute',
-                      bottom: 4,
-                      right: 4,
-                      width: 24,
-                      height: 24,
-                      bgcolor: theme.palette.primary.main,
-                      color: 'white',
-                      '&:hover': {
-                        bgcolor: theme.palette.primary.dark,
-                      },
-                    }}
-                  >
-                    <Add sx={{ fontSize: 16 }} />
-                  </IconButton>
-                </Fade>
-              )}
-              {provided.placeholder}
-            </Paper>
-          )}
-        </Droppable>
-      </DragDropContext>
+              </Draggable>
+            ))}
+            {provided.placeholder}
+          </Box>
+        )}
+      </Droppable>
     );
   };
 
@@ -783,7 +990,7 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
     </Paper>
   );
 
-  if (loading) {
+  if (loading || isCalendarLoading) {
     return (
       <Box>
         <Skeleton variant="rectangular" height={60} sx={{ mb: 2, borderRadius: 2 }} />
@@ -814,29 +1021,30 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
               backdropFilter: 'blur(20px)',
             }}
           >
-            {viewMode === 'month' && (
-              <>
-                {renderWeekdayHeaders()}
-                <Grid container spacing={1}>
-                  {calendarDays.map((date) => (
-                    <Grid item xs={12 / 7} key={date.toISOString()}>
-                      {renderCalendarDay(date)}
-                    </Grid>
-                  ))}
-                </Grid>
-              </>
-            )}
-            
-            {/* Week View */}
-            {viewMode === 'week' && (
-              <Box>
-                {/* Week Headers */}
-                <Grid container sx={{ mb: 2 }}>
-                  {Array.from({ length: 7 }, (_, i) => {
-                    const date = addDays(startOfWeek(currentDate), i);
-                    return (
-                      <Grid item xs key={i}>
-                        <Box sx={{ textAlign: 'center', p: 1 }}>
+            <DragDropContext onDragEnd={handleDragEnd}>
+              {viewMode === 'month' && (
+                <>
+                  {renderWeekdayHeaders()}
+                  <Grid container spacing={1}>
+                    {calendarDays.map((date) => (
+                      <Grid item xs={12 / 7} key={date.toISOString()}>
+                        {renderCalendarDay(date)}
+                      </Grid>
+                    ))}
+                  </Grid>
+                </>
+              )}
+
+              {/* Week View: one drop target per hour */}
+              {viewMode === 'week' && (
+                <Box>
+                  {/* Week Headers */}
+                  <Box sx={{ display: 'grid', gridTemplateColumns: WEEK_GRID_COLUMNS, mb: 1 }}>
+                    <Box />
+                    {Array.from({ length: 7 }, (_, i) => {
+                      const date = addDays(startOfWeek(currentDate), i);
+                      return (
+                        <Box key={i} sx={{ textAlign: 'center', p: 1 }}>
                           <Typography variant="caption" color="text.secondary">
                             {format(date, 'EEE')}
                           </Typography>
@@ -844,61 +1052,34 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
                             {format(date, 'd')}
                           </Typography>
                         </Box>
-                      </Grid>
-                    );
-                  })}
-                </Grid>
-                
-                {/* Week Grid */}
-                <Grid container spacing={1} sx={{ minHeight: 600 }}>
-                  {Array.from({ length: 7 }, (_, i) => {
-                    const date = addDays(startOfWeek(currentDate), i);
-                    const dayContent = getContentForDate(date);
-                    return (
-                      <Grid item xs key={i}>
-                        <Paper
-                          sx={{
-                            minHeight: 580,
-                            p: 1,
-                            bgcolor: isToday(date) ? alpha(theme.palette.primary.main, 0.03) : 'transparent',
-                            border: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
-                          }}
-                        >
-                          {dayContent.map((content, index) => (
-                            <Card
-                              key={content.id}
-                              sx={{
-                                mb: 1,
-                                p: 1,
-                                cursor: 'pointer',
-                                fontSize: '0.75rem',
-                                '&:hover': { boxShadow: theme.shadows[4] },
-                              }}
-                              onClick={(e) => handleContentClick(content, e)}
-                            >
-                              <Typography variant="caption" sx={{ display: 'block', fontWeight: 600 }}>
-                                {format(content.scheduledAt, 'HH:mm')}
-                              </Typography>
-                              <Typography variant="caption" sx={{ display: 'block', mb: 0.5 }}>
-                                {content.title}
-                              </Typography>
-                              <Stack direction="row" spacing={0.25}>
-                                {content.platforms.slice(0, 3).map((p) => (
-                                  <Typography key={p.platform} sx={{ fontSize: 10 }}>
-                                    {platformIcons[p.platform]}
-                                  </Typography>
-                                ))}
-                              </Stack>
-                            </Card>
-                          ))}
-                        </Paper>
-                      </Grid>
-                    );
-                  })}
-                </Grid>
-              </Box>
-            )}
-            
+                      );
+                    })}
+                  </Box>
+
+                  {/* Hour Grid */}
+                  <Box sx={{ maxHeight: 600, overflowY: 'auto' }}>
+                    {HOURS.map((hour) => (
+                      <Box
+                        key={hour}
+                        sx={{
+                          display: 'grid',
+                          gridTemplateColumns: WEEK_GRID_COLUMNS,
+                          borderTop: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
+                        }}
+                      >
+                        <Typography variant="caption" color="text.secondary" sx={{ pr: 1, pt: 0.5, textAlign: 'right' }}>
+                          {`${hour.toString().padStart(2, '0')}:00`}
+                        </Typography>
+                        {Array.from({ length: 7 }, (_, i) =>
+                          renderHourSlot(setHours(addDays(startOfWeek(currentDate), i), hour))
+                        )}
+                      </Box>
+                    ))}
+                  </Box>
+                </Box>
+              )}
+            </DragDropContext>
+
             {/* Day View */}
             {viewMode === 'day' && (
               <Box>
@@ -1156,6 +1337,65 @@ export const ModernCalendarScheduler: React.FC<CalendarSchedulerProps> = ({
         </MenuItem>
       </Menu>
 
+      {/* Reschedule Conflicts Dialog */}
+      <Dialog
+        open={Boolean(pendingMove)}
+        onClose={() => setPendingMove(null)}
+        maxWidth="sm"
+        fullWidth
+        PaperProps={{ sx: { borderRadius: 3 } }}
+      >
+        {pendingMove && (
+          <>
+            <DialogTitle>Reschedule "{pendingMove.content.title}"?</DialogTitle>
+            <DialogContent>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {format(pendingMove.from, 'EEE, MMM d HH:mm')} → {format(pendingMove.to, 'EEE, MMM d HH:mm')}
+              </Typography>
+              <Stack spacing={1}>
+                {pendingMove.conflicts.map((conflict, index) => (
+                  <Alert key={index} severity={conflict.severity}>
+                    {conflict.message}
+                  </Alert>
+                ))}
+              </Stack>
+            </DialogContent>
+            <DialogActions sx={{ p: 3, pt: 1 }}>
+              <Button onClick={() => setPendingMove(null)} sx={{ borderRadius: 2 }}>
+                Cancel
+              </Button>
+              <Button
+                variant="contained"
+                color="warning"
+                onClick={() => commitMove(pendingMove)}
+                disabled={hasBlockingConflict(pendingMove.conflicts) || isRescheduling}
+                sx={{ borderRadius: 2 }}
+              >
+                Reschedule Anyway
+              </Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+
+      <Snackbar
+        open={Boolean(lastMove)}
+        autoHideDuration={8000}
+        onClose={(_, reason) => reason !== 'clickaway' && setLastMove(null)}
+        message={lastMove && `Moved "${lastMove.content.title}" to ${format(lastMove.to, 'EEE, MMM d HH:mm')}`}
+        action={
+          <Button color="secondary" size="small" onClick={handleUndoMove} disabled={isRescheduling}>
+            Undo
+          </Button>
+        }
+      />
+
+      <Snackbar open={Boolean(moveError)} autoHideDuration={6000} onClose={() => setMoveError(null)}>
+        <Alert severity="error" onClose={() => setMoveError(null)}>
+          {moveError}
+        </Alert>
+      </Snackbar>
+
       {/* Quick Schedule Dialog */}
       <Dialog
         open={quickScheduleOpen}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -39,6 +39,8 @@ import {
   Collapse,
   Tooltip,
   CircularProgress,
+  Tabs,
+  Tab,
   alpha,
   useTheme,
 } from '@mui/material';
@@ -68,13 +70,32 @@ import {
   Notifications,
   NotificationsOff,
   Psychology,
-  Analytics2,
+  Analytics,
   TrendingUp,
   InfoOutlined,
   ExpandMore,
   ExpandLess,
 } from '@mui/icons-material';
-import { format, formatDistanceToNow, isAfter, isBefore, addMinutes, parseISO } from 'date-fns';
+import { format, formatDistanceToNow, isAfter, parseISO } from 'date-fns';
+import { useGetContentQuery, type Content, type ContentPlatform } from '../../store/api/contentApi';
+import {
+  useGetPublishingJobsQuery,
+  useGetQueueStateQuery,
+  usePauseQueueMutation,
+  useResumeQueueMutation,
+  useRequeueJobsMutation,
+  useCancelJobsMutation,
+  type PlatformQueueState,
+  type PublishingJob,
+  type PublishingJobStatus,
+} from '../../store/api/publishingApi';
+import { useRealtimeStatus } from '../../hooks/useRealtimeStatus';
+import { useTenant } from '../../contexts/TenantContext';
+import { DEFAULT_MAX_ATTEMPTS } from '../../utils/publishingQueue';
+import { platformLabel } from '../../utils/platforms';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+type QueuePlatformStatus = 'pending' | 'publishing' | 'published' | 'failed' | 'cancelled';
 
 interface QueueItem {
   id: string;
@@ -82,11 +103,13 @@ interface QueueItem {
   content: string;
   platforms: {
     platform: string;
-    status: 'pending' | 'publishing' | 'published' | 'failed' | 'cancelled';
+    status: QueuePlatformStatus;
     scheduledAt: Date;
     publishedAt?: Date;
     error?: string;
     retryCount: number;
+    nextAttemptAt?: Date; // set while a retry is scheduled
+    jobId?: string;
     postId?: string;
     url?: string;
   }[];
@@ -122,12 +145,9 @@ interface QueueStatus {
 
 interface PublishingQueueProps {
   queueItems?: QueueItem[];
-  autoPublish?: boolean;
-  onItemUpdate?: (item: QueueItem) => void;
   onItemDelete?: (itemId: string) => void;
-  onQueueStart?: () => void;
-  onQueueStop?: () => void;
   onQueuePause?: () => void;
+  onQueueResume?: () => void;
 }
 
 const platformColors: Record<string, string> = {
@@ -148,150 +168,117 @@ const platformIcons: Record<string, string> = {
   tiktok: '🎵',
 };
 
-// Mock queue data
-const mockQueueItems: QueueItem[] = [
-  {
-    id: '1',
-    title: 'Weekly Marketing Tips',
-    content: '🚀 5 proven strategies to boost your social media engagement this week...',
-    platforms: [
-      {
-        platform: 'linkedin',
-        status: 'publishing',
-        scheduledAt: new Date(),
-        retryCount: 0,
-      },
-      {
-        platform: 'twitter',
-        status: 'pending',
-        scheduledAt: addMinutes(new Date(), 5),
-        retryCount: 0,
-      },
-    ],
-    priority: 'high',
-    tags: ['marketing', 'tips', 'engagement'],
-    createdBy: 'John Doe',
-    scheduledAt: new Date(),
-    estimatedDuration: 45,
-    retryAttempts: 0,
-    maxRetries: 3,
-    analytics: {
-      estimatedReach: 15000,
-    },
-  },
-  {
-    id: '2',
-    title: 'Product Feature Announcement',
-    content: '✨ Introducing our latest AI-powered analytics dashboard...',
-    platforms: [
-      {
-        platform: 'linkedin',
-        status: 'published',
-        scheduledAt: addMinutes(new Date(), -30),
-        publishedAt: addMinutes(new Date(), -25),
-        retryCount: 0,
-        postId: 'urn:li:activity:123456789',
-        url: 'https://linkedin.com/posts/activity-123456789',
-      },
-      {
-        platform: 'twitter',
-        status: 'published',
-        scheduledAt: addMinutes(new Date(), -25),
-        publishedAt: addMinutes(new Date(), -20),
-        retryCount: 0,
-        postId: '1234567890123456789',
-        url: 'https://twitter.com/user/status/1234567890123456789',
-      },
-    ],
-    priority: 'medium',
-    tags: ['product', 'announcement', 'AI'],
-    createdBy: 'Jane Smith',
-    scheduledAt: addMinutes(new Date(), -30),
-    estimatedDuration: 30,
-    actualDuration: 28,
-    retryAttempts: 0,
-    maxRetries: 3,
-    analytics: {
-      estimatedReach: 12000,
-      actualReach: 13500,
-      engagementRate: 8.2,
-    },
-  },
-  {
-    id: '3',
-    title: 'Industry Report Release',
-    content: '📊 Our latest research reveals key trends in social media marketing...',
-    platforms: [
-      {
-        platform: 'linkedin',
-        status: 'failed',
-        scheduledAt: addMinutes(new Date(), -60),
-        retryCount: 2,
-        error: 'Rate limit exceeded. Retrying in 15 minutes.',
-      },
-      {
-        platform: 'facebook',
-        status: 'cancelled',
-        scheduledAt: addMinutes(new Date(), -55),
-        retryCount: 0,
-      },
-    ],
-    priority: 'urgent',
-    tags: ['research', 'insights', 'trends'],
-    createdBy: 'Mike Johnson',
-    scheduledAt: addMinutes(new Date(), -60),
+const toQueueStatus = (status: ContentPlatform['status']): QueuePlatformStatus => {
+  if (status === 'draft' || status === 'scheduled') return 'pending';
+  return status;
+};
+
+const JOB_QUEUE_STATUS: Record<PublishingJobStatus, QueuePlatformStatus> = {
+  queued: 'pending',
+  retry_scheduled: 'pending',
+  publishing: 'publishing',
+  published: 'published',
+  dead_lettered: 'failed',
+  cancelled: 'cancelled',
+};
+
+const postKey = (contentId: string, platform: string) => `${contentId}:${platform}`;
+
+// Jobs come newest first, so the first one per platform post is its current attempt
+const indexJobs = (jobs: PublishingJob[]) =>
+  jobs.reduce((index, job) => {
+    const key = postKey(job.contentId, job.platform);
+    if (!index.has(key)) index.set(key, job);
+    return index;
+  }, new Map<string, PublishingJob>());
+
+const toQueueItem = (content: Content, jobs: Map<string, PublishingJob>): QueueItem => {
+  const platformJobs = content.platforms.map(platform => jobs.get(postKey(content.id, platform.platform)));
+
+  return {
+    id: content.id,
+    title: content.title,
+    content: content.body,
+    platforms: content.platforms.map((platform, index) => {
+      const job = platformJobs[index];
+      return {
+        platform: platform.platform,
+        status: job ? JOB_QUEUE_STATUS[job.status] : toQueueStatus(platform.status),
+        scheduledAt: parseISO(platform.scheduledAt ?? content.scheduledAt ?? content.createdAt),
+        publishedAt: platform.publishedAt ? parseISO(platform.publishedAt) : undefined,
+        error: job?.lastError?.message ?? platform.publishingResult?.error,
+        retryCount: job?.attempts ?? 0,
+        nextAttemptAt: job?.nextAttemptAt ? parseISO(job.nextAttemptAt) : undefined,
+        jobId: job?.id,
+        postId: job?.result?.postId ?? platform.publishingResult?.postId,
+        url: job?.result?.url ?? platform.publishingResult?.url,
+      };
+    }),
+    priority: content.priority,
+    media: content.media.map(media => ({ url: media.url, type: media.type, alt: media.alt })),
+    tags: content.tags,
+    createdBy: content.createdBy,
+    scheduledAt: parseISO(content.scheduledAt ?? content.createdAt),
     estimatedDuration: 60,
-    retryAttempts: 2,
-    maxRetries: 3,
-    failureReason: 'API rate limit exceeded',
-    analytics: {
-      estimatedReach: 20000,
-    },
-  },
-  {
-    id: '4',
-    title: 'Team Behind the Scenes',
-    content: '👀 Take a look at our creative process and amazing team culture...',
-    platforms: [
-      {
-        platform: 'instagram',
-        status: 'pending',
-        scheduledAt: addMinutes(new Date(), 15),
-        retryCount: 0,
-      },
-      {
-        platform: 'tiktok',
-        status: 'pending',
-        scheduledAt: addMinutes(new Date(), 20),
-        retryCount: 0,
-      },
-    ],
-    priority: 'low',
-    tags: ['culture', 'team', 'process'],
-    createdBy: 'Sarah Wilson',
-    scheduledAt: addMinutes(new Date(), 15),
-    estimatedDuration: 90,
-    retryAttempts: 0,
-    maxRetries: 3,
-    analytics: {
-      estimatedReach: 8500,
-    },
-  },
-];
+    retryAttempts: platformJobs.reduce((sum, job) => sum + (job?.attempts ?? 0), 0),
+    maxRetries: platformJobs.find(Boolean)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    failureReason: content.platforms.find(platform => platform.publishingResult?.error)?.publishingResult?.error,
+    analytics: content.analytics ? { estimatedReach: content.analytics.impressions } : undefined,
+  };
+};
+
+// Dead-lettered posts, and scheduled retries that can be brought forward
+const isRetryable = (platform: QueueItem['platforms'][number]) =>
+  Boolean(platform.jobId) && (platform.status === 'failed' || Boolean(platform.nextAttemptAt));
+
+const isCancellable = (platform: QueueItem['platforms'][number]) =>
+  Boolean(platform.jobId) && (platform.status === 'pending' || platform.status === 'failed');
+
+const jobIdsOf = (items: QueueItem[], include: (platform: QueueItem['platforms'][number]) => boolean) =>
+  items.flatMap(item => item.platforms.filter(include).map(platform => platform.jobId!));
 
 export const PublishingQueue: React.FC<PublishingQueueProps> = ({
-  queueItems = mockQueueItems,
-  autoPublish = true,
-  onItemUpdate,
+  queueItems,
   onItemDelete,
-  onQueueStart,
-  onQueueStop,
   onQueuePause,
+  onQueueResume,
 }) => {
   const theme = useTheme();
-  const [items, setItems] = useState<QueueItem[]>(queueItems);
-  const [isRunning, setIsRunning] = useState(autoPublish);
-  const [isPaused, setIsPaused] = useState(false);
+  const { isLive } = useRealtimeStatus();
+  const { currentWorkspace } = useTenant();
+  const workspaceId = currentWorkspace?.id;
+  // Without items from the caller the queue shows the workspace's scheduled content and its
+  // publishing jobs; updates arrive through the realtime stream, or by polling when it is down
+  const pollingInterval = isLive ? 0 : 30000;
+  const { data: contentData, isLoading } = useGetContentQuery(
+    { status: ['scheduled', 'published', 'failed'], limit: 100 },
+    { skip: Boolean(queueItems), pollingInterval }
+  );
+  const { data: jobsData } = useGetPublishingJobsQuery(
+    { workspaceId },
+    { skip: Boolean(queueItems) || !workspaceId, pollingInterval }
+  );
+  const { data: queueData } = useGetQueueStateQuery(workspaceId ?? '', { skip: !workspaceId, pollingInterval });
+  const [pauseQueue, { isLoading: isPausing }] = usePauseQueueMutation();
+  const [resumeQueue, { isLoading: isResuming }] = useResumeQueueMutation();
+  const [requeueJobs, { isLoading: isRequeueing }] = useRequeueJobsMutation();
+  const [cancelJobs, { isLoading: isCancelling }] = useCancelJobsMutation();
+
+  const queueState = queueData?.state;
+  const isPaused = Boolean(queueState?.paused);
+  const items = useMemo(() => {
+    if (queueItems) return queueItems;
+    const jobs = indexJobs(jobsData?.jobs ?? []);
+    return contentData?.content.map(content => toQueueItem(content, jobs)) ?? [];
+  }, [queueItems, contentData, jobsData]);
+  const deadLetters = useMemo(
+    () => (jobsData?.jobs ?? []).filter(job => job.status === 'dead_lettered'),
+    [jobsData]
+  );
+
+  const [view, setView] = useState<'queue' | 'dead_letter'>('queue');
+  const [selectedDeadLetters, setSelectedDeadLetters] = useState<string[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterPlatform, setFilterPlatform] = useState<string>('all');
@@ -336,11 +323,11 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
       failed,
       cancelled: statusCounts.cancelled || 0,
       estimatedTimeToCompletion,
-      currentThroughput: isRunning ? 12 : 0, // items per hour
+      currentThroughput: queueState?.publishedLastHour ?? 0, // items per hour
       errorRate,
       successRate,
     };
-  }, [items, isRunning]);
+  }, [items, queueState]);
 
   // Filter and sort items
   const filteredItems = useMemo(() => {
@@ -379,74 +366,45 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
     return filtered;
   }, [items, filterStatus, filterPlatform, sortBy]);
 
-  // Simulate publishing process
-  useEffect(() => {
-    if (!isRunning || isPaused) return;
-
-    const interval = setInterval(() => {
-      setItems(prev => prev.map(item => {
-        const updatedPlatforms = item.platforms.map(platform => {
-          if (platform.status === 'pending' && isBefore(platform.scheduledAt, new Date())) {
-            // Start publishing
-            return { ...platform, status: 'publishing' as const };
-          } else if (platform.status === 'publishing') {
-            // Simulate publishing completion
-            const shouldComplete = Math.random() > 0.1; // 90% success rate
-            const shouldFail = Math.random() < 0.05; // 5% failure rate
-            
-            if (shouldFail && platform.retryCount < 3) {
-              return {
-                ...platform,
-                status: 'failed' as const,
-                error: 'Rate limit exceeded. Retrying...',
-                retryCount: platform.retryCount + 1,
-              };
-            } else if (shouldComplete) {
-              return {
-                ...platform,
-                status: 'published' as const,
-                publishedAt: new Date(),
-                postId: `${platform.platform}_${Date.now()}`,
-                url: `https://${platform.platform}.com/post/${Date.now()}`,
-              };
-            }
-          } else if (platform.status === 'failed' && platform.retryCount < 3) {
-            // Retry failed posts after delay
-            const timeSinceFailure = new Date().getTime() - (item.scheduledAt.getTime() + 60000);
-            if (timeSinceFailure > 15 * 60 * 1000) { // Retry after 15 minutes
-              return {
-                ...platform,
-                status: 'pending' as const,
-                scheduledAt: addMinutes(new Date(), 1),
-              };
-            }
-          }
-          return platform;
-        });
-
-        return { ...item, platforms: updatedPlatforms };
-      }));
-    }, 2000); // Check every 2 seconds
-
-    return () => clearInterval(interval);
-  }, [isRunning, isPaused]);
-
-  // Handle queue controls
-  const handleQueueStart = () => {
-    setIsRunning(true);
-    setIsPaused(false);
-    onQueueStart?.();
+  const runQueueAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (error) {
+      setActionError(getApiErrorMessage(error, 'Failed to update the publishing queue'));
+    }
+  };
+
+  // Handle queue controls; pauses apply to the current workspace only
+  const handleQueueToggle = () => {
+    if (!workspaceId) return;
+    if (isPaused) {
+      runQueueAction(() => resumeQueue({ workspaceId }).unwrap());
+      onQueueResume?.();
+    } else {
+      runQueueAction(() => pauseQueue({ workspaceId }).unwrap());
+      onQueuePause?.();
+    }
   };
 
-  const handleQueuePause = () => {
-    setIsPaused(!isPaused);
-    onQueuePause?.();
+  const handlePlatformToggle = ({ platform, paused }: PlatformQueueState) => {
+    if (!workspaceId) return;
+    runQueueAction(() =>
+      paused ? resumeQueue({ workspaceId, platform }).unwrap() : pauseQueue({ workspaceId, platform }).unwrap()
+    );
+  };
+
+  const handleRequeue = (ids: string[]) => {
+    if (!ids.length) return;
+    runQueueAction(async () => {
+      await requeueJobs({ ids }).unwrap();
+      setSelectedDeadLetters(prev => prev.filter(id => !ids.includes(id)));
+    });
   };
 
-  const handleQueueStop = () => {
-    setIsRunning(false);
-    setIsPaused(false);
-    onQueueStop?.();
+  const handleCancel = (ids: string[]) => {
+    if (!ids.length) return;
+    runQueueAction(() => cancelJobs({ ids }).unwrap());
   };
 
   // Handle item actions
@@ -471,31 +429,25 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
   };
 
   const handleRetryItem = (item: QueueItem) => {
-    const updatedItem = {
-      ...item,
-      platforms: item.platforms.map(p => ({
-        ...p,
-        status: 'pending' as const,
-        scheduledAt: new Date(),
-        error: undefined,
-      })),
-      retryAttempts: item.retryAttempts + 1,
-    };
-    setItems(prev => prev.map(i => i.id === item.id ? updatedItem : i));
-    onItemUpdate?.(updatedItem);
+    handleRequeue(jobIdsOf([item], isRetryable));
     setMenuAnchor(null);
   };
 
   const handleCancelItem = (item: QueueItem) => {
-    const updatedItem = {
-      ...item,
-      platforms: item.platforms.map(p => ({ ...p, status: 'cancelled' as const })),
-    };
-    setItems(prev => prev.map(i => i.id === item.id ? updatedItem : i));
-    onItemUpdate?.(updatedItem);
+    handleCancel(jobIdsOf([item], isCancellable));
     setMenuAnchor(null);
   };
 
+  const selectedQueueItems = items.filter(item => selectedItems.includes(item.id));
+
+  const handleDeadLetterSelect = (jobId: string) => {
+    setSelectedDeadLetters(prev =>
+      prev.includes(jobId)
+        ? prev.filter(id => id !== jobId)
+        : [...prev, jobId]
+    );
+  };
+
   const toggleItemExpanded = (itemId: string) => {
     setExpandedItems(prev =>
       prev.includes(itemId)
@@ -515,38 +467,27 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
           </Typography>
           <Typography variant="body2" color="text.secondary">
             {queueStatus.totalItems} items • {queueStatus.pending} pending • {queueStatus.publishing} publishing
+            {isPaused && ' • paused'}
           </Typography>
         </Box>
         
         <Stack direction="row" spacing={1} alignItems="center">
-          <Tooltip title={isRunning ? (isPaused ? 'Resume Queue' : 'Pause Queue') : 'Start Queue'}>
-            <IconButton
-              onClick={isRunning ? handleQueuePause : handleQueueStart}
-              sx={{
-                bgcolor: isRunning && !isPaused ? theme.palette.success.main : theme.palette.primary.main,
-                color: 'white',
-                '&:hover': {
-                  bgcolor: isRunning && !isPaused ? theme.palette.success.dark : theme.palette.primary.dark,
-                },
-              }}
-            >
-              {isRunning ? (isPaused ? <PlayArrow /> : <Pause />) : <PlayArrow />}
-            </IconButton>
-          </Tooltip>
-          
-          <Tooltip title="Stop Queue">
-            <IconButton
-              onClick={handleQueueStop}
-              disabled={!isRunning}
-              sx={{
-                bgcolor: theme.palette.error.main,
-                color: 'white',
-                '&:hover': { bgcolor: theme.palette.error.dark },
-                '&.Mui-disabled': { bgcolor: alpha(theme.palette.error.main, 0.3) },
-              }}
-            >
-              <Stop />
-            </IconButton>
+          <Tooltip title={isPaused ? 'Resume Queue' : 'Pause Queue'}>
+            <span>
+              <IconButton
+                onClick={handleQueueToggle}
+                disabled={!workspaceId || isPausing || isResuming}
+                sx={{
+                  bgcolor: isPaused ? theme.palette.primary.main : theme.palette.success.main,
+                  color: 'white',
+                  '&:hover': {
+                    bgcolor: isPaused ? theme.palette.primary.dark : theme.palette.success.dark,
+                  },
+                }}
+              >
+                {isPaused ? <PlayArrow /> : <Pause />}
+              </IconButton>
+            </span>
           </Tooltip>
           
           <FormControlLabel
@@ -610,8 +551,53 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
         </Grid>
       </Grid>
 
+      {/* Platform Lanes */}
+      {queueState && (
+        <Grid container spacing={1} sx={{ mt: 2 }}>
+          {queueState.platforms.map((platform) => (
+            <Grid item xs={6} sm={4} md={2} key={platform.platform}>
+              <Paper
+                variant="outlined"
+                sx={{ p: 1, borderRadius: 2, display: 'flex', alignItems: 'center', gap: 1, opacity: platform.paused ? 0.7 : 1 }}
+              >
+                <Avatar
+                  sx={{
+                    width: 28,
+                    height: 28,
+                    bgcolor: alpha(platformColors[platform.platform], 0.1),
+                    color: platformColors[platform.platform],
+                    fontSize: 14,
+                  }}
+                >
+                  {platformIcons[platform.platform]}
+                </Avatar>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="caption" fontWeight={600} sx={{ display: 'block' }}>
+                    {platformLabel(platform.platform)}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {platform.paused ? 'Paused' : `${platform.active}/${platform.concurrencyLimit} active`} • {platform.waiting} waiting
+                  </Typography>
+                </Box>
+                <Tooltip title={`${platform.paused ? 'Resume' : 'Pause'} ${platformLabel(platform.platform)}`}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() => handlePlatformToggle(platform)}
+                      disabled={isPaused || isPausing || isResuming}
+                    >
+                      {platform.paused ? <PlayArrow fontSize="small" /> : <Pause fontSize="small" />}
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+
       {/* Progress Bar */}
-      {isRunning && !isPaused && queueStatus.pending > 0 && (
+      {!isPaused && queueStatus.pending > 0 && (
         <Box sx={{ mt: 3 }}>
           <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
             <Typography variant="body2" color="text.secondary">
@@ -632,13 +618,13 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
       {/* Status Alerts */}
       {queueStatus.failed > 0 && (
         <Alert severity="warning" sx={{ mt: 2 }}>
-          {queueStatus.failed} items failed to publish. Check individual items for details and retry options.
+          {queueStatus.failed} posts failed to publish. Fix the cause, then re-queue them from the Dead Letter tab.
         </Alert>
       )}
 
-      {!isRunning && queueStatus.pending > 0 && (
+      {isPaused && queueStatus.pending > 0 && (
         <Alert severity="info" sx={{ mt: 2 }}>
-          Queue is stopped. {queueStatus.pending} items are waiting to be published.
+          Publishing is paused for this workspace. {queueStatus.pending} posts are waiting to be published.
         </Alert>
       )}
     </Paper>
@@ -712,6 +698,8 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
                 startIcon={<PlayArrow />}
                 size="small"
                 sx={{ borderRadius: 2 }}
+                onClick={() => handleRequeue(jobIdsOf(selectedQueueItems, isRetryable))}
+                disabled={isRequeueing || !jobIdsOf(selectedQueueItems, isRetryable).length}
               >
                 Retry Selected ({selectedItems.length})
               </Button>
@@ -721,6 +709,8 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
                 size="small"
                 color="error"
                 sx={{ borderRadius: 2 }}
+                onClick={() => handleCancel(jobIdsOf(selectedQueueItems, isCancellable))}
+                disabled={isCancelling || !jobIdsOf(selectedQueueItems, isCancellable).length}
               >
                 Cancel Selected
               </Button>
@@ -898,9 +888,14 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
                               }
                               variant="outlined"
                             />
-                            {platform.status === 'failed' && platform.retryCount > 0 && (
+                            {platform.status !== 'published' && platform.retryCount > 0 && (
+                              <Typography variant="caption" color="text.secondary">
+                                Attempt {platform.retryCount}/{item.maxRetries}
+                              </Typography>
+                            )}
+                            {platform.nextAttemptAt && (
                               <Typography variant="caption" color="text.secondary">
-                                Retry {platform.retryCount}/{item.maxRetries}
+                                Retrying {formatDistanceToNow(platform.nextAttemptAt, { addSuffix: true })}
                               </Typography>
                             )}
                             {platform.publishedAt && (
@@ -1016,27 +1011,163 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
     );
   };
 
+  // Render dead-letter queue
+  const renderDeadLetters = () => (
+    <Paper sx={{ p: 2, borderRadius: 2 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} sx={{ mb: 2 }}>
+        <Box>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Dead Letter Queue
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            These posts failed permanently or ran out of retries. Fix the cause, such as reconnecting the account, then re-queue them.
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="contained"
+            startIcon={<Refresh />}
+            size="small"
+            sx={{ borderRadius: 2 }}
+            onClick={() => handleRequeue(selectedDeadLetters)}
+            disabled={isRequeueing || selectedDeadLetters.length === 0}
+          >
+            Re-queue Selected ({selectedDeadLetters.length})
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Stop />}
+            size="small"
+            color="error"
+            sx={{ borderRadius: 2 }}
+            onClick={() => handleCancel(selectedDeadLetters)}
+            disabled={isCancelling || selectedDeadLetters.length === 0}
+          >
+            Discard
+          </Button>
+        </Stack>
+      </Stack>
+
+      {deadLetters.length === 0 ? (
+        <Box sx={{ p: 4, textAlign: 'center' }}>
+          <CheckCircle sx={{ fontSize: 48, color: theme.palette.success.main, mb: 1 }} />
+          <Typography variant="body2" color="text.secondary">
+            Nothing in the dead-letter queue
+          </Typography>
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={selectedDeadLetters.length === deadLetters.length}
+                    indeterminate={selectedDeadLetters.length > 0 && selectedDeadLetters.length < deadLetters.length}
+                    onChange={() =>
+                      setSelectedDeadLetters(
+                        selectedDeadLetters.length === deadLetters.length ? [] : deadLetters.map(job => job.id)
+                      )
+                    }
+                  />
+                </TableCell>
+                <TableCell>Content</TableCell>
+                <TableCell>Platform</TableCell>
+                <TableCell>Error</TableCell>
+                <TableCell align="right">Attempts</TableCell>
+                <TableCell>Failed</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {deadLetters.map((job) => (
+                <TableRow key={job.id} hover selected={selectedDeadLetters.includes(job.id)}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={selectedDeadLetters.includes(job.id)}
+                      onChange={() => handleDeadLetterSelect(job.id)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>
+                      {job.title}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {platformIcons[job.platform]} {platformLabel(job.platform)}
+                  </TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Chip
+                        label={job.lastError?.code ?? 'UNKNOWN'}
+                        size="small"
+                        color={job.lastError?.kind === 'terminal' ? 'error' : 'warning'}
+                        variant="outlined"
+                      />
+                      <Typography variant="body2" color="text.secondary">
+                        {job.lastError?.message}
+                      </Typography>
+                    </Stack>
+                  </TableCell>
+                  <TableCell align="right">
+                    {job.attempts}/{job.maxAttempts}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="caption" color="text.secondary">
+                      {job.completedAt ? formatDistanceToNow(parseISO(job.completedAt), { addSuffix: true }) : '—'}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+
   return (
     <Box>
+      {actionError && (
+        <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 2 }}>
+          {actionError}
+        </Alert>
+      )}
+
       {renderQueueStatus()}
-      {renderQueueControls()}
-
-      {/* Queue Items */}
-      <Box>
-        {filteredItems.length === 0 ? (
-          <Paper sx={{ p: 4, textAlign: 'center', borderRadius: 3 }}>
-            <CloudOff sx={{ fontSize: 64, color: theme.palette.text.secondary, mb: 2 }} />
-            <Typography variant="h6" color="text.secondary" sx={{ mb: 1 }}>
-              No items in queue
-            </Typography>
-            <Typography variant="body2" color="text.secondary">
-              Schedule some content to see it appear here
-            </Typography>
-          </Paper>
-        ) : (
-          filteredItems.map(renderQueueItem)
-        )}
-      </Box>
+
+      {!queueItems && (
+        <Tabs value={view} onChange={(_, value) => setView(value)} sx={{ mb: 2 }}>
+          <Tab value="queue" label="Queue" />
+          <Tab value="dead_letter" label={`Dead Letter (${deadLetters.length})`} />
+        </Tabs>
+      )}
+
+      {view === 'dead_letter' ? renderDeadLetters() : (
+        <>
+          {renderQueueControls()}
+
+          {/* Queue Items */}
+          <Box>
+            {isLoading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+                <CircularProgress />
+              </Box>
+            ) : filteredItems.length === 0 ? (
+              <Paper sx={{ p: 4, textAlign: 'center', borderRadius: 3 }}>
+                <CloudOff sx={{ fontSize: 64, color: theme.palette.text.secondary, mb: 2 }} />
+                <Typography variant="h6" color="text.secondary" sx={{ mb: 1 }}>
+                  No items in queue
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Schedule some content to see it appear here
+                </Typography>
+              </Paper>
+            ) : (
+              filteredItems.map(renderQueueItem)
+            )}
+          </Box>
+        </>
+      )}
 
       {/* Context Menu */}
       <Menu
@@ -1051,7 +1182,7 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
           </ListItemIcon>
           <ListItemText>View Details</ListItemText>
         </MenuItem>
-        <MenuItem onClick={() => handleRetryItem(menuAnchor!.item)} disabled={!menuAnchor?.item.platforms.some(p => p.status === 'failed')}>
+        <MenuItem onClick={() => handleRetryItem(menuAnchor!.item)} disabled={!menuAnchor?.item.platforms.some(isRetryable)}>
           <ListItemIcon>
             <Refresh fontSize="small" />
           </ListItemIcon>
@@ -1070,7 +1201,11 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
           <ListItemText>Duplicate</ListItemText>
         </MenuItem>
         <Divider />
-        <MenuItem onClick={() => handleCancelItem(menuAnchor!.item)} sx={{ color: 'error.main' }}>
+        <MenuItem
+          onClick={() => handleCancelItem(menuAnchor!.item)}
+          disabled={!menuAnchor?.item.platforms.some(isCancellable)}
+          sx={{ color: 'error.main' }}
+        >
           <ListItemIcon>
             <Stop fontSize="small" sx={{ color: 'error.main' }} />
           </ListItemIcon>
@@ -1111,7 +1246,7 @@ export const PublishingQueue: React.FC<PublishingQueueProps> = ({
               <Button onClick={() => setDetailsItem(null)} sx={{ borderRadius: 2 }}>
                 Close
               </Button>
-              <Button startIcon={<Analytics2 />} sx={{ borderRadius: 2 }}>
+              <Button startIcon={<Analytics />} sx={{ borderRadius: 2 }}>
                 View Analytics
               </Button>
             </DialogActions>
@@ -68,58 +68,30 @@ import {
 } from '@mui/icons-material';
 import { 
   format, 
-  addDays, 
   addWeeks, 
-  addMonths, 
   startOfWeek, 
   endOfWeek,
   isSameDay,
   isAfter,
   isBefore,
   parseISO,
-  setHours,
-  setMinutes,
 } from 'date-fns';
-
-interface RecurrenceRule {
-  id: string;
-  name: string;
-  description: string;
-  enabled: boolean;
-  frequency: 'daily' | 'weekly' | 'monthly' | 'custom';
-  interval: number; // Every X days/weeks/months
-  daysOfWeek?: number[]; // 0-6 (Sunday-Saturday)
-  daysOfMonth?: number[]; // 1-31
-  times: string[]; // ["09:00", "17:00"]
-  platforms: string[];
-  contentTemplate?: {
-    title: string;
-    content: string;
-    tags: string[];
-    media?: { type: string; url: string }[];
-  };
-  scheduling: {
-    startDate: Date;
-    endDate?: Date;
-    maxPosts?: number;
-    timezone: string;
-  };
-  optimization: {
-    adaptTiming: boolean;
-    skipWeekends: boolean;
-    skipHolidays: boolean;
-    respectRateLimit: boolean;
-    optimalSpacing: number; // minimum hours between posts
-  };
-  analytics: {
-    totalScheduled: number;
-    published: number;
-    failed: number;
-    averageEngagement: number;
-    lastRun?: Date;
-    nextRun?: Date;
-  };
-}
+import type { RecurrenceRule } from '../../types/scheduling';
+import {
+  exportRecurrenceRule,
+  getHolidayCalendars,
+  getUpcomingOccurrences,
+  importRecurrenceRule,
+  DEFAULT_HOLIDAY_CALENDAR,
+} from '../../utils/recurrence';
+import {
+  toRecurrenceRule,
+  toRecurrenceRuleRequest,
+  useCreateRecurrenceRuleMutation,
+  useDeleteRecurrenceRuleMutation,
+  useGetRecurrenceRulesQuery,
+  useUpdateRecurrenceRuleMutation,
+} from '../../store/api/schedulingApi';
 
 interface RecurringPost {
   id: string;
@@ -129,20 +101,13 @@ interface RecurringPost {
   content: string;
   platforms: string[];
   scheduledAt: Date;
+  timeZone: string;
   status: 'scheduled' | 'published' | 'failed' | 'cancelled';
   generatedAt: Date;
   adaptedTiming?: boolean;
   optimizationScore?: number;
 }
 
-interface RecurringSchedulerProps {
-  rules?: RecurrenceRule[];
-  onRuleCreate?: (rule: Omit<RecurrenceRule, 'id' | 'analytics'>) => void;
-  onRuleUpdate?: (rule: RecurrenceRule) => void;
-  onRuleDelete?: (ruleId: string) => void;
-  onRuleToggle?: (ruleId: string, enabled: boolean) => void;
-}
-
 const platformColors: Record<string, string> = {
   linkedin: '#0A66C2',
   twitter: '#1DA1F2',
@@ -161,154 +126,35 @@ const platformIcons: Record<string, string> = {
   tiktok: '🎵',
 };
 
-// Mock recurring rules
-const mockRecurrenceRules: RecurrenceRule[] = [
-  {
-    id: '1',
-    name: 'Weekly Marketing Tips',
-    description: 'Share marketing tips every Tuesday and Thursday',
-    enabled: true,
-    frequency: 'weekly',
-    interval: 1,
-    daysOfWeek: [2, 4], // Tuesday, Thursday
-    times: ['09:00', '17:00'],
-    platforms: ['linkedin', 'twitter'],
-    contentTemplate: {
-      title: 'Weekly Marketing Tip #{week}',
-      content: '💡 Marketing Tip of the Week: {tip}\n\nWhat strategies are working for your business? Share in the comments! 👇\n\n#MarketingTips #BusinessGrowth #SocialMedia',
-      tags: ['marketing', 'tips', 'weekly'],
-    },
-    scheduling: {
-      startDate: new Date(),
-      endDate: addMonths(new Date(), 6),
-      timezone: 'UTC',
-    },
-    optimization: {
-      adaptTiming: true,
-      skipWeekends: false,
-      skipHolidays: true,
-      respectRateLimit: true,
-      optimalSpacing: 4,
-    },
-    analytics: {
-      totalScheduled: 48,
-      published: 42,
-      failed: 2,
-      averageEngagement: 8.5,
-      lastRun: addDays(new Date(), -3),
-      nextRun: addDays(new Date(), 1),
-    },
-  },
-  {
-    id: '2',
-    name: 'Daily Motivational Quotes',
-    description: 'Inspire followers with daily motivational content',
-    enabled: true,
-    frequency: 'daily',
-    interval: 1,
-    times: ['08:00'],
-    platforms: ['instagram', 'facebook', 'twitter'],
-    contentTemplate: {
-      title: 'Daily Motivation',
-      content: '🌟 "{quote}"\n\n{author}\n\nStart your day with positivity! What motivates you today? 💪\n\n#Motivation #Inspiration #MondayMotivation #Success',
-      tags: ['motivation', 'quotes', 'daily'],
-    },
-    scheduling: {
-      startDate: new Date(),
-      maxPosts: 365,
-      timezone: 'UTC',
-    },
-    optimization: {
-      adaptTiming: true,
-      skipWeekends: true,
-      skipHolidays: true,
-      respectRateLimit: true,
-      optimalSpacing: 24,
-    },
-    analytics: {
-      totalScheduled: 90,
-      published: 87,
-      failed: 1,
-      averageEngagement: 6.2,
-      lastRun: addDays(new Date(), -1),
-      nextRun: addDays(new Date(), 1),
-    },
-  },
-  {
-    id: '3',
-    name: 'Monthly Industry Report',
-    description: 'Share comprehensive industry insights monthly',
-    enabled: false,
-    frequency: 'monthly',
-    interval: 1,
-    daysOfMonth: [1], // First day of month
-    times: ['12:00'],
-    platforms: ['linkedin'],
-    contentTemplate: {
-      title: '{Month} Industry Report - Key Insights',
-      content: '📊 Monthly Industry Report for {month}:\n\n• Key trend 1\n• Important development 2\n• Market insight 3\n\nFull report in comments 👇\n\n#IndustryReport #MarketTrends #BusinessIntelligence',
-      tags: ['report', 'industry', 'monthly'],
-    },
-    scheduling: {
-      startDate: new Date(),
-      endDate: addMonths(new Date(), 12),
-      timezone: 'UTC',
-    },
-    optimization: {
-      adaptTiming: false,
-      skipWeekends: true,
-      skipHolidays: true,
-      respectRateLimit: true,
-      optimalSpacing: 0,
-    },
-    analytics: {
-      totalScheduled: 3,
-      published: 3,
-      failed: 0,
-      averageEngagement: 12.8,
-      lastRun: addDays(new Date(), -30),
-      nextRun: addDays(new Date(), 1),
-    },
-  },
-];
+const UPCOMING_POSTS_PER_RULE = 5;
+
+// Custom rules hold a user-supplied RRULE; a broken one shouldn't take the whole view down
+const safeUpcomingOccurrences = (rule: RecurrenceRule, count: number): Date[] => {
+  try {
+    return getUpcomingOccurrences(rule, count);
+  } catch {
+    return [];
+  }
+};
 
-// Mock upcoming posts
-const mockUpcomingPosts: RecurringPost[] = [
-  {
-    id: '1',
-    ruleId: '1',
-    ruleName: 'Weekly Marketing Tips',
-    title: 'Weekly Marketing Tip #12',
-    content: '💡 Marketing Tip of the Week: Use storytelling to connect emotionally with your audience...',
-    platforms: ['linkedin', 'twitter'],
-    scheduledAt: addDays(new Date(), 1),
-    status: 'scheduled',
-    generatedAt: new Date(),
-    adaptedTiming: true,
-    optimizationScore: 92,
-  },
-  {
-    id: '2',
-    ruleId: '2',
-    ruleName: 'Daily Motivational Quotes',
-    title: 'Daily Motivation',
-    content: '🌟 "Success is not final, failure is not fatal: it is the courage to continue that counts."',
-    platforms: ['instagram', 'facebook', 'twitter'],
-    scheduledAt: addDays(new Date(), 1),
-    status: 'scheduled',
-    generatedAt: addDays(new Date(), -1),
-    optimizationScore: 85,
-  },
-];
+const formatInTimeZone = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(date);
 
-export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
-  rules = mockRecurrenceRules,
-  onRuleCreate,
-  onRuleUpdate,
-  onRuleDelete,
-  onRuleToggle,
-}) => {
+export const RecurringScheduler: React.FC = () => {
   const theme = useTheme();
+  const { data, isLoading } = useGetRecurrenceRulesQuery();
+  const [createRule] = useCreateRecurrenceRuleMutation();
+  const [updateRule] = useUpdateRecurrenceRuleMutation();
+  const [deleteRule] = useDeleteRecurrenceRuleMutation();
+  const rules = useMemo(() => data?.rules.map(toRecurrenceRule) ?? [], [data]);
   const [selectedRule, setSelectedRule] = useState<RecurrenceRule | null>(null);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -322,14 +168,28 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
 
   // Calculate upcoming posts
   const upcomingPosts = useMemo(() => {
-    return mockUpcomingPosts.sort((a, b) => 
-      new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime()
-    );
-  }, []);
+    const generatedAt = new Date();
+    return activeRules
+      .flatMap((rule): RecurringPost[] =>
+        safeUpcomingOccurrences(rule, UPCOMING_POSTS_PER_RULE).map((scheduledAt) => ({
+          id: `${rule.id}-${scheduledAt.getTime()}`,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          title: rule.contentTemplate?.title || rule.name,
+          content: rule.contentTemplate?.content || rule.description,
+          platforms: rule.platforms,
+          scheduledAt,
+          timeZone: rule.scheduling.timezone,
+          status: 'scheduled',
+          generatedAt,
+        }))
+      )
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  }, [activeRules]);
 
   // Handle rule actions
   const handleRuleToggle = (ruleId: string, enabled: boolean) => {
-    onRuleToggle?.(ruleId, enabled);
+    updateRule({ id: ruleId, enabled });
   };
 
   const handleRuleEdit = (rule: RecurrenceRule) => {
@@ -338,7 +198,7 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
   };
 
   const handleRuleDelete = (ruleId: string) => {
-    onRuleDelete?.(ruleId);
+    deleteRule(ruleId);
   };
 
   const toggleRuleExpanded = (ruleId: string) => {
@@ -349,45 +209,15 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
     );
   };
 
-  // Calculate next run time for a rule
-  const calculateNextRun = (rule: RecurrenceRule): Date | null => {
-    const now = new Date();
-    const { frequency, interval, daysOfWeek, daysOfMonth, times } = rule;
-
-    if (!times.length) return null;
-
-    let nextDate = new Date(now);
-    const [hours, minutes] = times[0].split(':').map(Number);
-
-    switch (frequency) {
-      case 'daily':
-        nextDate = addDays(now, interval);
-        break;
-      case 'weekly':
-        if (daysOfWeek && daysOfWeek.length > 0) {
-          // Find next occurrence of specified days
-          const currentDay = now.getDay();
-          const nextDay = daysOfWeek.find(day => day > currentDay) || daysOfWeek[0];
-          const daysToAdd = nextDay > currentDay ? nextDay - currentDay : 7 - currentDay + nextDay;
-          nextDate = addDays(now, daysToAdd);
-        }
-        break;
-      case 'monthly':
-        if (daysOfMonth && daysOfMonth.length > 0) {
-          nextDate = addMonths(now, interval);
-          nextDate.setDate(daysOfMonth[0]);
-        }
-        break;
-    }
-
-    nextDate = setHours(setMinutes(nextDate, minutes), hours);
-    return nextDate;
+  const handleCopyRRule = (rule: RecurrenceRule) => {
+    navigator.clipboard?.writeText(exportRecurrenceRule(rule));
   };
 
   // Render rule card
   const renderRuleCard = (rule: RecurrenceRule) => {
     const isExpanded = expandedRules.includes(rule.id);
-    const nextRun = calculateNextRun(rule);
+    const nextOccurrences = safeUpcomingOccurrences(rule, UPCOMING_POSTS_PER_RULE);
+    const nextRun = nextOccurrences[0] ?? null;
     const successRate = rule.analytics.totalScheduled > 0 
       ? (rule.analytics.published / rule.analytics.totalScheduled) * 100 
       : 0;
@@ -521,7 +351,7 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
                         Frequency
                       </Typography>
                       <Typography variant="body2">
-                        Every {rule.interval} {rule.frequency}
+                        {rule.frequency === 'custom' ? rule.rrule : `Every ${rule.interval} ${rule.frequency}`}
                         {rule.daysOfWeek && rule.daysOfWeek.length > 0 && (
                           <span> on {rule.daysOfWeek.map(day => 
                             ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][day]
@@ -553,6 +383,24 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
                         }
                       </Typography>
                     </Box>
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">
+                        Next Posts ({rule.scheduling.timezone})
+                      </Typography>
+                      {nextOccurrences.length ? (
+                        <Stack spacing={0.25}>
+                          {nextOccurrences.map((date) => (
+                            <Typography key={date.getTime()} variant="body2">
+                              {formatInTimeZone(date, rule.scheduling.timezone)}
+                            </Typography>
+                          ))}
+                        </Stack>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">
+                          No upcoming posts
+                        </Typography>
+                      )}
+                    </Box>
                   </Stack>
                 </Grid>
 
@@ -668,6 +516,17 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
                 >
                   Duplicate
                 </Button>
+                <Tooltip title="Copy as iCalendar RRULE">
+                  <Button
+                    variant="outlined"
+                    startIcon={<Repeat />}
+                    onClick={() => handleCopyRRule(rule)}
+                    disabled={rule.frequency === 'custom' && !rule.rrule}
+                    sx={{ borderRadius: 2 }}
+                  >
+                    Copy RRULE
+                  </Button>
+                </Tooltip>
                 <Button
                   variant="outlined"
                   startIcon={<Analytics />}
@@ -731,9 +590,11 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
                     <Stack spacing={1}>
                       <Stack direction="row" alignItems="center" spacing={0.5}>
                         <AccessTime sx={{ fontSize: 16, color: theme.palette.text.secondary }} />
-                        <Typography variant="body2">
-                          {format(post.scheduledAt, 'MMM d, HH:mm')}
-                        </Typography>
+                        <Tooltip title={post.timeZone}>
+                          <Typography variant="body2">
+                            {formatInTimeZone(post.scheduledAt, post.timeZone)}
+                          </Typography>
+                        </Tooltip>
                       </Stack>
                       <Stack direction="row" spacing={0.5}>
                         {post.platforms.map((platform) => (
@@ -794,9 +655,12 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
     const [newRule, setNewRule] = useState({
       name: '',
       description: '',
-      frequency: 'weekly' as const,
+      frequency: 'weekly' as RecurrenceRule['frequency'],
       interval: 1,
       daysOfWeek: [] as number[],
+      daysOfMonth: undefined as number[] | undefined,
+      rrule: undefined as string | undefined,
+      exceptions: undefined as Date[] | undefined,
       times: ['09:00'],
       platforms: [] as string[],
       contentTemplate: {
@@ -806,25 +670,42 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
       },
     });
 
+    const [scheduling, setScheduling] = useState<RecurrenceRule['scheduling']>({
+      startDate: new Date(),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    });
+    const [optimization, setOptimization] = useState<RecurrenceRule['optimization']>({
+      adaptTiming: true,
+      skipWeekends: false,
+      skipHolidays: true,
+      holidayCalendar: DEFAULT_HOLIDAY_CALENDAR,
+      respectRateLimit: true,
+      optimalSpacing: 4,
+    });
+    const [icalendarText, setIcalendarText] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+
     const steps = ['Basic Info', 'Schedule', 'Content', 'Optimization'];
 
+    const handleImport = () => {
+      try {
+        const { scheduling: importedScheduling, ...pattern } = importRecurrenceRule(icalendarText, scheduling.timezone);
+        setNewRule({ ...newRule, ...pattern, daysOfWeek: pattern.daysOfWeek ?? [] });
+        setScheduling(importedScheduling);
+        setImportError(null);
+      } catch (error) {
+        setImportError(error instanceof Error ? error.message : 'Could not read this rule');
+      }
+    };
+
     const handleCreate = () => {
       const rule: Omit<RecurrenceRule, 'id' | 'analytics'> = {
         ...newRule,
         enabled: true,
-        scheduling: {
-          startDate: new Date(),
-          timezone: 'UTC',
-        },
-        optimization: {
-          adaptTiming: true,
-          skipWeekends: false,
-          skipHolidays: true,
-          respectRateLimit: true,
-          optimalSpacing: 4,
-        },
+        scheduling,
+        optimization,
       };
-      onRuleCreate?.(rule);
+      createRule(toRecurrenceRuleRequest(rule));
       setCreateDialogOpen(false);
       setActiveStep(0);
     };
@@ -884,8 +765,37 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
                   <MenuItem value="daily">Daily</MenuItem>
                   <MenuItem value="weekly">Weekly</MenuItem>
                   <MenuItem value="monthly">Monthly</MenuItem>
+                  <MenuItem value="custom">Custom (RRULE)</MenuItem>
                 </Select>
               </FormControl>
+
+              {newRule.frequency === 'custom' ? (
+                <TextField
+                  fullWidth
+                  label="RRULE"
+                  value={newRule.rrule ?? ''}
+                  onChange={(e) => setNewRule({ ...newRule, rrule: e.target.value })}
+                  placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+                  helperText="iCalendar recurrence rule; times, end date and post limit are set separately"
+                />
+              ) : (
+                <TextField
+                  type="number"
+                  label="Repeat every"
+                  value={newRule.interval}
+                  onChange={(e) => setNewRule({ ...newRule, interval: Math.max(1, Number(e.target.value) || 1) })}
+                  inputProps={{ min: 1 }}
+                  sx={{ width: 150 }}
+                />
+              )}
+
+              <TextField
+                fullWidth
+                label="Time Zone"
+                value={scheduling.timezone}
+                onChange={(e) => setScheduling({ ...scheduling, timezone: e.target.value })}
+                helperText="Posts keep this local time across daylight saving changes"
+              />
               
               {newRule.frequency === 'weekly' && (
                 <Box>
@@ -936,6 +846,30 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
                   </Button>
                 </Stack>
               </Box>
+
+              <Divider />
+              <Box>
+                <FormLabel component="legend">Import from iCalendar</FormLabel>
+                <Stack direction="row" spacing={1} alignItems="flex-start" sx={{ mt: 1 }}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    multiline
+                    minRows={2}
+                    value={icalendarText}
+                    onChange={(e) => setIcalendarText(e.target.value)}
+                    placeholder={'DTSTART;TZID=Europe/Berlin:20240101T090000\nRRULE:FREQ=WEEKLY;BYDAY=TU,TH'}
+                  />
+                  <Button variant="outlined" onClick={handleImport} disabled={!icalendarText.trim()}>
+                    Import
+                  </Button>
+                </Stack>
+                {importError && (
+                  <Alert severity="error" sx={{ mt: 1 }}>
+                    {importError}
+                  </Alert>
+                )}
+              </Box>
             </Stack>
           )}
 
@@ -985,19 +919,55 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
                 Optimization settings help improve post performance automatically.
               </Alert>
               <FormControlLabel
-                control={<Switch defaultChecked />}
+                control={
+                  <Switch
+                    checked={optimization.adaptTiming}
+                    onChange={(e) => setOptimization({ ...optimization, adaptTiming: e.target.checked })}
+                  />
+                }
                 label="Adapt timing based on audience activity"
               />
               <FormControlLabel
-                control={<Switch />}
+                control={
+                  <Switch
+                    checked={optimization.skipWeekends}
+                    onChange={(e) => setOptimization({ ...optimization, skipWeekends: e.target.checked })}
+                  />
+                }
                 label="Skip weekends"
               />
               <FormControlLabel
-                control={<Switch defaultChecked />}
+                control={
+                  <Switch
+                    checked={optimization.skipHolidays}
+                    onChange={(e) => setOptimization({ ...optimization, skipHolidays: e.target.checked })}
+                  />
+                }
                 label="Skip holidays"
               />
+              {optimization.skipHolidays && (
+                <FormControl fullWidth size="small">
+                  <InputLabel>Holiday Calendar</InputLabel>
+                  <Select
+                    value={optimization.holidayCalendar ?? DEFAULT_HOLIDAY_CALENDAR}
+                    onChange={(e) => setOptimization({ ...optimization, holidayCalendar: e.target.value })}
+                    label="Holiday Calendar"
+                  >
+                    {getHolidayCalendars().map((calendar) => (
+                      <MenuItem key={calendar.id} value={calendar.id}>
+                        {calendar.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
               <FormControlLabel
-                control={<Switch defaultChecked />}
+                control={
+                  <Switch
+                    checked={optimization.respectRateLimit}
+                    onChange={(e) => setOptimization({ ...optimization, respectRateLimit: e.target.checked })}
+                  />
+                }
                 label="Respect platform rate limits"
               />
             </Stack>
@@ -1098,7 +1068,7 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
           <Grid item xs={6} sm={3}>
             <Box sx={{ textAlign: 'center', p: 2, borderRadius: 2, bgcolor: alpha(theme.palette.warning.main, 0.05) }}>
               <Typography variant="h4" fontWeight={600} color="warning.main">
-                {(rules.reduce((sum, rule) => sum + rule.analytics.averageEngagement, 0) / rules.length).toFixed(1)}%
+                {(rules.length ? rules.reduce((sum, rule) => sum + rule.analytics.averageEngagement, 0) / rules.length : 0).toFixed(1)}%
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Avg Engagement
@@ -1138,6 +1108,8 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
       </Paper>
 
       {/* Content */}
+      {isLoading && <LinearProgress sx={{ mb: 2 }} />}
+
       {viewMode === 'rules' && (
         <Box>
           {/* Active Rules */}
@@ -1160,7 +1132,7 @@ export const RecurringScheduler: React.FC<RecurringSchedulerProps> = ({
             </Box>
           )}
 
-          {rules.length === 0 && (
+          {!isLoading && rules.length === 0 && (
             <Paper sx={{ p: 4, textAlign: 'center', borderRadius: 3 }}>
               <Repeat sx={{ fontSize: 64, color: theme.palette.text.secondary, mb: 2 }} />
               <Typography variant="h6" color="text.secondary" sx={{ mb: 1 }}>
@@ -14,7 +14,7 @@
  * - Privacy level selection
  * - Content settings (comments, duets, stitching)
  * - Publishing to connected TikTok accounts
- * - Upload progress tracking
+ * - Resumable upload to the media library, started as soon as a video is chosen
  * - Error handling and validation
  * 
  * @props
@@ -32,7 +32,7 @@
  * - Resolution: 720x1280 to 1080x1920
  */
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import {
   Box,
   Card,
@@ -76,6 +76,8 @@ import {
 } from '@mui/icons-material';
 import { useDropzone } from 'react-dropzone';
 import { usePublishContentMutation } from '../../store/api/socialPlatformsApi';
+import { useUploads } from '../../hooks/useUploads';
+import { UploadProgressList } from '../media/UploadProgressList';
 
 interface TikTokConnection {
   id: string;
@@ -142,6 +144,9 @@ const TikTokVideoUpload: React.FC<TikTokVideoUploadProps> = ({
   });
   const [previewOpen, setPreviewOpen] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [uploadId, setUploadId] = useState<string>();
+  const uploadIds = useMemo(() => (uploadId ? [uploadId] : []), [uploadId]);
+  const { uploads, add, cancel, whenComplete } = useUploads(uploadIds);
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -223,6 +228,7 @@ const TikTokVideoUpload: React.FC<TikTokVideoUploadProps> = ({
       try {
         const validatedVideo = await validateVideo(acceptedFiles[0]);
         setVideoFile(validatedVideo);
+        setUploadId(add([validatedVideo.file])[0]);
       } catch (error) {
         onUploadError(error instanceof Error ? error.message : 'Invalid video file');
       }
@@ -269,83 +275,75 @@ const TikTokVideoUpload: React.FC<TikTokVideoUploadProps> = ({
       isUploading: true,
       progress: 0,
       status: 'uploading',
-      message: 'Uploading video to TikTok...',
+      message: 'Finishing the video upload...',
     });
 
     try {
-      // Convert file to base64 for upload
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const videoData = e.target?.result as string;
-        const base64Data = videoData.split(',')[1]; // Remove data:video/mp4;base64, prefix
-
-        try {
-          const result = await publishContent({
-            connectionId: selectedConnection,
-            content: {
-              text: caption,
-              mediaType: 'video',
-              hashtags,
-            },
-            publishOptions: {
-              publishNow: true,
-            },
-            // TikTok specific data
-            platform: 'tiktok',
-            videoData: base64Data,
-            videoInfo: {
-              title: caption.substring(0, 150), // TikTok title limit
-              description: caption,
-              privacyLevel,
-              commentDisabled: settings.commentDisabled,
-              duetDisabled: settings.duetDisabled,
-              stitchDisabled: settings.stitchDisabled,
-              autoAddMusic: settings.autoAddMusic,
-              hashtags,
-            },
-          }).unwrap();
-
-          setUploadState({
-            isUploading: false,
-            progress: 100,
-            status: 'success',
-            message: 'Video uploaded successfully!',
-          });
-
-          onUploadSuccess(result);
-
-          // Reset form
-          setTimeout(() => {
-            setVideoFile(null);
-            setCaption('');
-            setHashtags([]);
-            setUploadState({
-              isUploading: false,
-              progress: 0,
-              status: 'idle',
-              message: '',
-            });
-          }, 3000);
-        } catch (error: any) {
-          setUploadState({
-            isUploading: false,
-            progress: 0,
-            status: 'error',
-            message: error.message || 'Failed to upload video',
-          });
-          onUploadError(error.message || 'Failed to upload video');
-        }
-      };
+      // The video has been uploading since it was chosen; publish once it's in the media library
+      const media = await whenComplete(uploadId!);
+
+      setUploadState({
+        isUploading: true,
+        progress: 100,
+        status: 'processing',
+        message: 'Publishing video to TikTok...',
+      });
+
+      const result = await publishContent({
+        connectionId: selectedConnection,
+        content: {
+          text: caption,
+          mediaUrls: [media.url],
+          mediaType: 'video',
+          hashtags,
+        },
+        publishOptions: {
+          publishNow: true,
+        },
+        // TikTok specific data
+        platform: 'tiktok',
+        videoInfo: {
+          title: caption.substring(0, 150), // TikTok title limit
+          description: caption,
+          privacyLevel,
+          commentDisabled: settings.commentDisabled,
+          duetDisabled: settings.duetDisabled,
+          stitchDisabled: settings.stitchDisabled,
+          autoAddMusic: settings.autoAddMusic,
+          hashtags,
+        },
+      }).unwrap();
+
+      setUploadState({
+        isUploading: false,
+        progress: 100,
+        status: 'success',
+        message: 'Video uploaded successfully!',
+      });
 
-      reader.readAsDataURL(videoFile.file);
+      onUploadSuccess(result);
+
+      // Reset form
+      setTimeout(() => {
+        removeVideo();
+        setCaption('');
+        setHashtags([]);
+        setUploadState({
+          isUploading: false,
+          progress: 0,
+          status: 'idle',
+          message: '',
+        });
+      }, 3000);
     } catch (error: any) {
+      const message = error?.data?.error?.message || error?.message || 'Failed to upload video';
       setUploadState({
         isUploading: false,
         progress: 0,
         status: 'error',
-        message: error.message || 'Failed to upload video',
+        message,
       });
-      onUploadError(error.message || 'Failed to upload video');
+      onUploadError(message);
     }
   };
 
@@ -355,6 +353,10 @@ const TikTokVideoUpload: React.FC<TikTokVideoUploadProps> = ({
       URL.revokeObjectURL(videoFile.preview);
       setVideoFile(null);
     }
+    if (uploadId) {
+      cancel(uploadId);
+      setUploadId(undefined);
+    }
   };
 
   // Get aspect ratio recommendation
@@ -458,6 +460,10 @@ const TikTokVideoUpload: React.FC<TikTokVideoUploadProps> = ({
                   {aspectRatioRec.text}
                 </Alert>
               )}
+
+              <Box sx={{ mt: 2 }}>
+                <UploadProgressList uploads={uploads} dense />
+              </Box>
             </CardContent>
           </Card>
         )}
@@ -26,6 +26,7 @@ import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 
 import { useInviteUserMutation } from '../../store/api/organizationApi';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 interface InviteUserDialogProps {
   open: boolean;
@@ -241,7 +242,7 @@ export const InviteUserDialog: React.FC<InviteUserDialogProps> = ({
             {/* Error Display */}
             {error && (
               <Alert severity="error">
-                {(error as any)?.data?.error?.message || 'Failed to send invitation'}
+                {getApiErrorMessage(error, 'Failed to send invitation')}
               </Alert>
             )}
           </Box>
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+  IconButton,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  InputAdornment,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  ContentCopy as CopyIcon,
+  Event as CalendarIcon,
+  Refresh as RegenerateIcon,
+  LinkOff as RevokeIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  useGetCalendarFeedQuery,
+  useCreateCalendarFeedMutation,
+  useRevokeCalendarFeedMutation,
+} from '../../store/api/workspaceApi';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+interface CalendarFeedSettingsProps {
+  workspaceId: string;
+}
+
+// Calendar apps subscribe to webcal:// links instead of downloading the file once
+const toWebcalUrl = (url: string) => url.replace(/^https?:/, 'webcal:');
+
+export const CalendarFeedSettings: React.FC<CalendarFeedSettingsProps> = ({ workspaceId }) => {
+  const { data, isLoading } = useGetCalendarFeedQuery(workspaceId);
+  const [createFeed, { isLoading: isCreating, error: createError }] = useCreateCalendarFeedMutation();
+  const [revokeFeed, { isLoading: isRevoking, error: revokeError }] = useRevokeCalendarFeedMutation();
+  const [copied, setCopied] = useState(false);
+  const [confirmRevoke, setConfirmRevoke] = useState(false);
+
+  const feed = data?.feed;
+  const error = createError || revokeError;
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    await navigator.clipboard?.writeText(feed.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRevoke = async () => {
+    setConfirmRevoke(false);
+    await revokeFeed(workspaceId);
+  };
+
+  return (
+    <Card data-testid="calendar-feed-settings">
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <CalendarIcon color="primary" />
+          <Typography variant="h6">Calendar Feed</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Subscribe to this workspace's content calendar from Outlook, Google Calendar or Apple Calendar.
+          Anyone with the link can see scheduled posts, so revoke it if it is shared by mistake.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {getApiErrorMessage(error, 'Failed to update the calendar feed')}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <CircularProgress size={24} />
+        ) : feed ? (
+          <Box>
+            <TextField
+              fullWidth
+              size="small"
+              label="Feed URL"
+              value={feed.url}
+              InputProps={{
+                readOnly: true,
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <Tooltip title={copied ? 'Copied' : 'Copy link'}>
+                      <IconButton size="small" onClick={handleCopy} aria-label="Copy feed URL">
+                        <CopyIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </InputAdornment>
+                ),
+              }}
+              helperText={`Created ${format(new Date(feed.createdAt), 'MMM d, yyyy')}${
+                feed.lastAccessedAt ? ` · Last synced ${format(new Date(feed.lastAccessedAt), 'MMM d, yyyy h:mm a')}` : ''
+              }`}
+            />
+            <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+              <Button variant="outlined" size="small" href={toWebcalUrl(feed.url)} startIcon={<CalendarIcon />}>
+                Subscribe
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<RegenerateIcon />}
+                onClick={() => createFeed(workspaceId)}
+                disabled={isCreating}
+              >
+                Regenerate Link
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                color="error"
+                startIcon={<RevokeIcon />}
+                onClick={() => setConfirmRevoke(true)}
+                disabled={isRevoking}
+              >
+                Revoke
+              </Button>
+            </Box>
+          </Box>
+        ) : (
+          <Button
+            variant="contained"
+            startIcon={isCreating ? <CircularProgress size={16} /> : <CalendarIcon />}
+            onClick={() => createFeed(workspaceId)}
+            disabled={isCreating}
+          >
+            Generate Feed URL
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={confirmRevoke} onClose={() => setConfirmRevoke(false)}>
+        <DialogTitle>Revoke calendar feed?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Calendars subscribed to this link will stop updating. You can generate a new link at any time.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmRevoke(false)}>Cancel</Button>
+          <Button color="error" onClick={handleRevoke}>
+            Revoke
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
@@ -25,6 +25,7 @@ import { useForm, Controller } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { useCreateWorkspaceMutation } from '../../store/api/workspaceApi';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 const schema = yup.object({
   name: yup.string().required('Workspace name is required'),
@@ -355,7 +356,7 @@ export const CreateWorkspaceDialog: React.FC<CreateWorkspaceDialogProps> = ({
 
         {error && (
           <Alert severity="error" sx={{ mb: 2 }}>
-            {(error as any)?.data?.error?.message || 'Failed to create workspace'}
+            {getApiErrorMessage(error, 'Failed to create workspace')}
           </Alert>
         )}
 
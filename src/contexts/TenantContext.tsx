@@ -12,6 +12,8 @@ import {
 } from '../store/slices/tenantSlice';
 import { useGetOrganizationsQuery } from '../store/api/organizationApi';
 import { useGetWorkspacesQuery } from '../store/api/workspaceApi';
+import { computePermissions, organizationRole, type OrganizationRole } from '../utils/permissions';
+import { getApiErrorMessage } from '../store/api/baseApi';
 
 interface TenantContextType {
   currentOrganization: Organization | null;
@@ -23,6 +25,8 @@ interface TenantContextType {
   switchOrganization: (organization: Organization) => void;
   switchWorkspace: (workspace: ClientWorkspace | null) => void;
   permissions: string[];
+  role: OrganizationRole | null; // in the current organization
+  permissionsLoading: boolean;
 }
 
 const TenantContext = createContext<TenantContextType | undefined>(undefined);
@@ -85,9 +89,7 @@ export const TenantProvider: React.FC<TenantProviderProps> = ({ children }) => {
   useEffect(() => {
     if (orgsError || workspacesError) {
       const errorMessage = 
-        (orgsError as any)?.data?.error?.message ||
-        (workspacesError as any)?.data?.error?.message ||
-        'Failed to load tenant data';
+        getApiErrorMessage(orgsError ?? workspacesError, 'Failed to load tenant data');
       dispatch(setError(errorMessage));
     } else {
       dispatch(setError(null));
@@ -118,53 +120,14 @@ export const TenantProvider: React.FC<TenantProviderProps> = ({ children }) => {
   };
 
   // Compute user permissions based on current context
-  const permissions = React.useMemo(() => {
-    const perms: string[] = [];
-    
-    if (user && currentOrganization) {
-      const orgMembership = user.organizationMemberships.find(
-        m => m.organizationId === currentOrganization.id
-      );
-      
-      if (orgMembership) {
-        // Add organization permissions
-        Object.entries(orgMembership.permissions).forEach(([key, value]) => {
-          if (value) {
-            perms.push(key);
-          }
-        });
-        
-        // Add role-based permissions
-        switch (orgMembership.role) {
-          case 'owner':
-            perms.push('manage_organization', 'manage_billing', 'manage_team', 'create_workspaces', 'manage_workspaces', 'view_all_analytics');
-            break;
-          case 'admin':
-            perms.push('manage_team', 'create_workspaces', 'manage_workspaces', 'view_all_analytics');
-            break;
-          case 'manager':
-            perms.push('create_workspaces', 'manage_workspaces');
-            break;
-        }
-      }
-    }
+  const permissions = React.useMemo(
+    () => computePermissions(user, currentOrganization?.id, currentWorkspace?.id),
+    [user, currentOrganization, currentWorkspace]
+  );
+  const role = organizationRole(user, currentOrganization?.id);
 
-    if (user && currentWorkspace) {
-      const workspaceAccess = user.workspaceAccess.find(
-        a => a.workspaceId === currentWorkspace.id
-      );
-      
-      if (workspaceAccess) {
-        Object.entries(workspaceAccess.permissions).forEach(([key, value]) => {
-          if (value) {
-            perms.push(`workspace_${key}`);
-          }
-        });
-      }
-    }
-    
-    return [...new Set(perms)]; // Remove duplicates
-  }, [user, currentOrganization, currentWorkspace]);
+  // Until an organization is picked there's nothing to check permissions against
+  const permissionsLoading = orgsLoading || (!currentOrganization && organizations.length > 0);
 
   const value: TenantContextType = {
     currentOrganization,
@@ -176,6 +139,8 @@ export const TenantProvider: React.FC<TenantProviderProps> = ({ children }) => {
     switchOrganization,
     switchWorkspace,
     permissions,
+    role,
+    permissionsLoading,
   };
 
   return (
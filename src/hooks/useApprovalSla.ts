@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  useGetApprovalWorkflowsQuery,
+  useLazyGetApprovalRequestsQuery,
+  useEscalateStepMutation,
+  useRemindStepMutation,
+  type ApprovalRequest,
+} from '../store/api/approvalApi';
+import { getApiErrorMessage } from '../store/api/baseApi';
+import { slaActions } from '../utils/approvalSla';
+import { APPROVAL_ESCALATION_ACCESS } from '../utils/permissions';
+import { usePermissions } from './usePermissions';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const PAGE_SIZE = 100;
+const OPEN_STATUSES: ApprovalRequest['status'][] = ['pending', 'escalated'];
+
+/**
+ * Approval SLA Hook
+ *
+ * Sweeps open approval requests once a minute and carries out the SLA
+ * actions that are due: reminding assignees as a step's timeout runs down
+ * and escalating it through `escalateStep` once the timeout has passed.
+ * Only owners, admins and managers run the sweep, since escalating
+ * reassigns the step. The API ignores reminders that were already sent and
+ * steps that were already escalated, so several of them can be signed in
+ * at once. An action that fails is reported through `error` and not tried
+ * again this session.
+ *
+ * @hook
+ * @example
+ * const { error, dismissError } = useApprovalSla({ enabled: Boolean(user) });
+ */
+export const useApprovalSla = ({ enabled = true }: { enabled?: boolean } = {}) => {
+  const { can } = usePermissions();
+  const active = enabled && can(APPROVAL_ESCALATION_ACCESS);
+
+  const { data: workflowsData } = useGetApprovalWorkflowsQuery({}, { skip: !active });
+  const [fetchRequests] = useLazyGetApprovalRequestsQuery();
+  const [remindStep] = useRemindStepMutation();
+  const [escalateStep] = useEscalateStepMutation();
+
+  const [error, setError] = useState<string | null>(null);
+  // Actions in flight or failed; neither is sent again
+  const attempted = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!active || !workflowsData) return;
+    let cancelled = false;
+
+    const fetchOpenRequests = async () => {
+      const requests: ApprovalRequest[] = [];
+      for (const status of OPEN_STATUSES) {
+        for (let page = 1, hasMore = true; hasMore; page += 1) {
+          const result = await fetchRequests({ status, page, limit: PAGE_SIZE }).unwrap();
+          requests.push(...result.requests);
+          hasMore = result.hasMore;
+        }
+      }
+      return requests;
+    };
+
+    const sweep = async () => {
+      let requests: ApprovalRequest[];
+      try {
+        requests = await fetchOpenRequests();
+      } catch {
+        return; // The next sweep fetches again
+      }
+      if (cancelled) return;
+
+      slaActions(requests, workflowsData.workflows, Date.now()).forEach((action) => {
+        const key = `${action.type}:${action.stepId}:${action.type === 'remind' ? action.threshold : ''}`;
+        if (attempted.current.has(key)) return;
+        attempted.current.add(key);
+
+        const { requestId, stepId } = action;
+        const call =
+          action.type === 'remind'
+            ? remindStep({ requestId, stepId, threshold: action.threshold })
+            : escalateStep({ requestId, stepId, escalateTo: action.escalateTo, reason: action.reason });
+        call
+          .unwrap()
+          .then(() => attempted.current.delete(key))
+          .catch((failure) => setError(getApiErrorMessage(failure, `Failed to ${action.type} an overdue approval step`)));
+      });
+    };
+
+    void sweep();
+    const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [active, workflowsData, fetchRequests, remindStep, escalateStep]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { error, dismissError };
+};
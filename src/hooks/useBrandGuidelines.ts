@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { useTenant } from '../contexts/TenantContext';
+import { useGetBrandGuidelinesQuery } from '../store/api/templatesApi';
+import { brandGuidelineRules } from '../utils/contentValidation';
+
+/**
+ * Brand Guidelines Hook
+ *
+ * Loads the active workspace's brand guidelines and turns them into the
+ * rules `ContentValidator` checks copy against. `rules` is undefined while
+ * loading, when the workspace has no guidelines, or when they are inactive.
+ *
+ * @hook
+ * @example
+ * const { rules } = useBrandGuidelines();
+ * const errors = rules ? validateBrandGuidelines(body, rules, platforms) : [];
+ */
+export const useBrandGuidelines = () => {
+  const { currentWorkspace } = useTenant();
+  const { data: guidelines, isLoading } = useGetBrandGuidelinesQuery(
+    { workspaceId: currentWorkspace?.id },
+    { skip: !currentWorkspace }
+  );
+
+  const rules = useMemo(
+    () => (guidelines?.isActive ? brandGuidelineRules(guidelines) : undefined),
+    [guidelines]
+  );
+
+  return { guidelines, rules, isLoading };
+};
@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { useTenant } from '../contexts/TenantContext';
+import { useGetContentRulesQuery } from '../store/api/organizationApi';
+import { liveContentRules } from '../utils/validationRules';
+
+/**
+ * Content Rules Hook
+ *
+ * Loads the current organization's content rules and compiles the live
+ * versions that apply to the current workspace, ready to pass to
+ * `ContentValidator` as `rules`. Drafts and disabled rules are left out.
+ *
+ * @hook
+ * @example
+ * const { rules } = useContentRules();
+ * const { errors } = validateContent(body, platforms, [], { rules, contentPillar });
+ */
+export const useContentRules = () => {
+  const { currentOrganization, currentWorkspace } = useTenant();
+  const { data, isLoading } = useGetContentRulesQuery(currentOrganization?.id ?? '', {
+    skip: !currentOrganization,
+  });
+
+  const rules = useMemo(
+    () => liveContentRules(data?.rules ?? [], currentWorkspace?.id),
+    [data, currentWorkspace?.id]
+  );
+
+  return { rules, isLoading };
+};
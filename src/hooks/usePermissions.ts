@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useTenant } from '../contexts/TenantContext';
+import { hasAccess, type AccessRequirement } from '../utils/permissions';
+
+/**
+ * Permissions Hook
+ *
+ * The current user's permissions and organization role, with `can` to
+ * check an access requirement for hiding or disabling actions. Use `<Can>`
+ * when the check only decides whether something renders.
+ *
+ * @hook
+ * @example
+ * const { can } = usePermissions();
+ * <Button disabled={!can({ permissions: ['manage_team'] })}>Invite</Button>
+ */
+export const usePermissions = () => {
+  const { permissions, role, permissionsLoading } = useTenant();
+
+  const can = useCallback(
+    (requirement?: AccessRequirement) => hasAccess({ permissions, role }, requirement),
+    [permissions, role]
+  );
+
+  return { permissions, role, can, isLoading: permissionsLoading };
+};
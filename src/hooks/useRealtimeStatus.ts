@@ -0,0 +1,26 @@
+import { useSelector } from 'react-redux';
+import type { RootState } from '../store/store';
+
+/**
+ * Realtime Status Hook
+ *
+ * Exposes the state of the realtime event stream. `isLive` is true while
+ * events are arriving, so components can drop their own polling and rely on
+ * the stream to keep RTK Query caches fresh.
+ *
+ * @hook
+ * @example
+ * const { isLive } = useRealtimeStatus();
+ * const { data } = useGetNotificationsQuery(filters, { pollingInterval: isLive ? 0 : 30000 });
+ */
+export const useRealtimeStatus = () => {
+  const { status, transport, lastEventAt, reconnectAttempt } = useSelector((state: RootState) => state.realtime);
+
+  return {
+    status,
+    transport,
+    lastEventAt,
+    reconnectAttempt,
+    isLive: status === 'connected',
+  };
+};
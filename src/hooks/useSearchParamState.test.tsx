@@ -0,0 +1,58 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, useLocation } from 'react-router-dom';
+import { describe, it, expect } from 'vitest';
+
+import { useSearchParamState } from './useSearchParamState';
+
+const TABS = ['all', 'assigned', 'pending'] as const;
+
+const TabState = () => {
+  const [tab, setTab] = useSearchParamState('tab', TABS[0], TABS);
+  const { search } = useLocation();
+  return (
+    <>
+      <div data-testid="tab">{tab}</div>
+      <div data-testid="search">{search}</div>
+      {TABS.map((value) => (
+        <button key={value} onClick={() => setTab(value)}>
+          {value}
+        </button>
+      ))}
+    </>
+  );
+};
+
+const renderAt = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <TabState />
+    </MemoryRouter>
+  );
+
+describe('useSearchParamState', () => {
+  it('reads the value from the URL', () => {
+    renderAt('/approval?tab=pending');
+
+    expect(screen.getByTestId('tab')).toHaveTextContent('pending');
+  });
+
+  it('falls back to the default for values it does not allow', () => {
+    renderAt('/approval?tab=archived');
+    expect(screen.getByTestId('tab')).toHaveTextContent('all');
+  });
+
+  it('writes the value to the URL and keeps other params', () => {
+    renderAt('/approval?category=social');
+    fireEvent.click(screen.getByRole('button', { name: 'assigned' }));
+
+    expect(screen.getByTestId('tab')).toHaveTextContent('assigned');
+    expect(screen.getByTestId('search')).toHaveTextContent('?category=social&tab=assigned');
+  });
+
+  it('leaves the default out of the URL', () => {
+    renderAt('/approval?tab=pending&category=social');
+    fireEvent.click(screen.getByRole('button', { name: 'all' }));
+
+    expect(screen.getByTestId('search')).toHaveTextContent(/^\?category=social$/);
+  });
+});
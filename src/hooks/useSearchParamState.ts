@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Search Param State Hook
+ *
+ * `useState` backed by a URL search param, so tabs and filters survive a
+ * reload and a copied link opens the same view. The default value is left
+ * out of the URL, and values outside `allowed` read as the default.
+ *
+ * @hook
+ * @example
+ * const [tab, setTab] = useSearchParamState('tab', 'all', ['all', 'assigned', 'pending']);
+ */
+export const useSearchParamState = <T extends string>(name: string, defaultValue: T, allowed?: readonly T[]) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const raw = searchParams.get(name);
+  const value = raw !== null && (!allowed || allowed.includes(raw as T)) ? (raw as T) : defaultValue;
+
+  const setValue = useCallback(
+    (next: T) =>
+      setSearchParams(
+        (current) => {
+          const params = new URLSearchParams(current);
+          if (next === defaultValue) params.delete(name);
+          else params.set(name, next);
+          return params;
+        },
+        { replace: true }
+      ),
+    [name, defaultValue, setSearchParams]
+  );
+
+  return [value, setValue] as const;
+};
@@ -0,0 +1,33 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { uploadManager } from '../store/uploads/mediaUploads';
+
+const actions = {
+  add: (files: File[], options?: Parameters<typeof uploadManager.add>[1]) => uploadManager.add(files, options),
+  pause: (id: string) => uploadManager.pause(id),
+  resume: (id: string) => uploadManager.resume(id),
+  retry: (id: string) => uploadManager.retry(id),
+  cancel: (id: string) => uploadManager.cancel(id),
+  whenComplete: (id: string) => uploadManager.whenComplete(id),
+};
+
+/**
+ * Uploads Hook
+ *
+ * Progress of the shared media uploads, plus the actions to control them.
+ * Pass the ids returned by `add` to follow just those uploads; without ids
+ * every upload is returned, including ones restored after a reload.
+ *
+ * @hook
+ * @example
+ * const { uploads, add } = useUploads(ids);
+ * setIds(add(files, { folderId }));
+ */
+export const useUploads = (ids?: string[]) => {
+  const all = useSyncExternalStore(uploadManager.subscribe, uploadManager.getSnapshot);
+  const uploads = useMemo(
+    () => (ids ? all.filter((upload) => ids.includes(upload.fileId)) : all),
+    [all, ids]
+  );
+
+  return { uploads, ...actions };
+};
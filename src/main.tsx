@@ -8,16 +8,27 @@ import CssBaseline from '@mui/material/CssBaseline';
 import App from './App';
 import { store } from './store/store';
 import { theme } from './theme/theme';
+import { config } from './config/environment';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <Provider store={store}>
-      <BrowserRouter>
-        <ThemeProvider theme={theme}>
-          <CssBaseline />
-          <App />
-        </ThemeProvider>
-      </BrowserRouter>
-    </Provider>
-  </React.StrictMode>,
-);
\ No newline at end of file
+const bootstrap = async () => {
+  // The mock backend must be in place before the first query fires
+  if (config.development.mockApi) {
+    const { startMockApi } = await import('./mocks');
+    await startMockApi();
+  }
+
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <Provider store={store}>
+        <BrowserRouter>
+          <ThemeProvider theme={theme}>
+            <CssBaseline />
+            <App />
+          </ThemeProvider>
+        </BrowserRouter>
+      </Provider>
+    </React.StrictMode>,
+  );
+};
+
+bootstrap();
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { mockDb } from './db';
+import { createSeedData } from './fixtures';
+
+// jsdom has no IndexedDB, so these run against the in-memory fallback
+describe('MockDatabase', () => {
+  beforeEach(async () => {
+    await mockDb.reset();
+  });
+
+  it('seeds every collection from the fixtures', () => {
+    const seed = createSeedData();
+
+    expect(mockDb.list('users').map((user) => user.id)).toEqual(seed.users.map((user) => user.id));
+    expect(mockDb.list('recurrenceRules')).toHaveLength(seed.recurrenceRules.length);
+    expect(mockDb.find('organizations', 'org_agency')).toMatchObject({ name: 'Northwind Digital' });
+  });
+
+  it('inserts, updates and removes records', () => {
+    mockDb.insert('reports', { id: 'report_1', name: 'Weekly' });
+    expect(mockDb.update('reports', 'report_1', { name: 'Monthly', id: 'ignored' })).toEqual({ id: 'report_1', name: 'Monthly' });
+
+    expect(mockDb.remove('reports', 'report_1')).toBe(true);
+    expect(mockDb.remove('reports', 'report_1')).toBe(false);
+    expect(mockDb.find('reports', 'report_1')).toBeUndefined();
+  });
+
+  it('leaves missing records alone', () => {
+    expect(mockDb.update('reports', 'missing', { name: 'Nope' })).toBeUndefined();
+    expect(mockDb.list('reports')).toEqual([]);
+  });
+
+  it('drops changes on reset', async () => {
+    mockDb.remove('users', 'user_demo');
+
+    await mockDb.reset();
+
+    expect(mockDb.find('users', 'user_demo')).toBeDefined();
+  });
+});
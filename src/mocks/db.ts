@@ -0,0 +1,154 @@
+/**
+ * Mock Database
+ *
+ * In-memory collections persisted to IndexedDB so mock data survives reloads.
+ * Falls back to memory only when IndexedDB is unavailable (jsdom, private mode).
+ */
+
+import { createSeedData, SEED_VERSION, type SeedData } from './fixtures';
+
+const DB_NAME = 'contentautopilot-mock-api';
+const STORE_NAME = 'collections';
+const META_KEY = '__meta__';
+
+export type CollectionName = keyof SeedData;
+type MockRecord = { id: string } & Record<string, any>;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class MockDatabase {
+  private collections = new Map<string, Map<string, MockRecord>>();
+  private idb: IDBDatabase | null = null;
+  private pendingWrites = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  async init(): Promise<void> {
+    this.idb = await this.openIndexedDb();
+
+    const stored = this.idb ? await this.readAll() : null;
+    if (stored && stored[META_KEY]?.[0]?.version === SEED_VERSION) {
+      Object.entries(stored).forEach(([name, records]) => {
+        if (name !== META_KEY) this.load(name, records);
+      });
+      return;
+    }
+
+    await this.reset();
+  }
+
+  // Drop all data and re-seed from fixtures
+  async reset(): Promise<void> {
+    this.collections.clear();
+    const seed = createSeedData();
+    Object.entries(seed).forEach(([name, records]) => this.load(name, records as MockRecord[]));
+
+    if (this.idb) {
+      const tx = this.idb.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      store.clear();
+      this.collections.forEach((records, name) => store.put(Array.from(records.values()), name));
+      store.put([{ id: META_KEY, version: SEED_VERSION }], META_KEY);
+      await new Promise((resolve, reject) => {
+        tx.oncomplete = resolve;
+        tx.onerror = () => reject(tx.error);
+      });
+    }
+  }
+
+  list<T = MockRecord>(name: CollectionName): T[] {
+    return Array.from(this.collection(name).values()) as T[];
+  }
+
+  find<T = MockRecord>(name: CollectionName, id: string): T | undefined {
+    return this.collection(name).get(id) as T | undefined;
+  }
+
+  insert<T extends MockRecord>(name: CollectionName, record: T): T {
+    this.collection(name).set(record.id, record);
+    this.schedulePersist(name);
+    return record;
+  }
+
+  update<T = MockRecord>(name: CollectionName, id: string, patch: Partial<T>): T | undefined {
+    const existing = this.collection(name).get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...patch, id } as MockRecord;
+    this.collection(name).set(id, updated);
+    this.schedulePersist(name);
+    return updated as T;
+  }
+
+  remove(name: CollectionName, id: string): boolean {
+    const removed = this.collection(name).delete(id);
+    if (removed) this.schedulePersist(name);
+    return removed;
+  }
+
+  private collection(name: string): Map<string, MockRecord> {
+    let records = this.collections.get(name);
+    if (!records) {
+      records = new Map();
+      this.collections.set(name, records);
+    }
+    return records;
+  }
+
+  private load(name: string, records: MockRecord[]) {
+    this.collections.set(name, new Map(records.map((record) => [record.id, record])));
+  }
+
+  private openIndexedDb(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Mock API: IndexedDB unavailable, data will not persist', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  private async readAll(): Promise<Record<string, MockRecord[]>> {
+    const store = this.idb!.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll()),
+    ]);
+
+    return Object.fromEntries(keys.map((key, index) => [String(key), values[index] as MockRecord[]]));
+  }
+
+  // Batch writes so bursts of mutations hit IndexedDB once
+  private schedulePersist(name: string) {
+    if (!this.idb) return;
+
+    this.pendingWrites.add(name);
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      const tx = this.idb!.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      this.pendingWrites.forEach((collection) => {
+        store.put(Array.from(this.collection(collection).values()), collection);
+      });
+      this.pendingWrites.clear();
+    }, 50);
+  }
+}
+
+export const mockDb = new MockDatabase();
+
+export type { MockDatabase, MockRecord };
@@ -0,0 +1,48 @@
+/**
+ * Mock realtime event log
+ *
+ * Handlers record what changed here and `GET /realtime/events` replays it, so
+ * the realtime client can run against the mock API on its polling transport.
+ * The log only lives in memory; a cursor from before a reload can't be
+ * replayed and the client is told to resync instead.
+ */
+
+import { now } from './router';
+import type { MockDatabase } from './db';
+import type { Notification } from '../store/api/notificationsApi';
+import type { RealtimeEvent } from '../store/realtime/types';
+
+type NewRealtimeEvent<T = RealtimeEvent> = T extends RealtimeEvent ? Omit<T, 'id' | 'occurredAt'> : never;
+
+const MAX_EVENTS = 500;
+
+let sequence = 0;
+const log: RealtimeEvent[] = [];
+
+export const emitEvent = (event: NewRealtimeEvent) => {
+  log.push({ ...event, id: String(++sequence), occurredAt: now() } as RealtimeEvent);
+  if (log.length > MAX_EVENTS) log.shift();
+};
+
+export const latestEventId = () => String(sequence);
+
+// Events after the cursor, or null when the cursor is unknown or already trimmed from the log
+export const eventsSince = (cursor: string): RealtimeEvent[] | null => {
+  const after = Number(cursor);
+  if (!Number.isInteger(after) || after > sequence) return null;
+  if (log.length && after < Number(log[0].id) - 1) return null;
+  return log.filter((event) => Number(event.id) > after);
+};
+
+export const workspaceScope = (db: MockDatabase, workspaceId: string) => ({
+  organizationId: db.find<{ id: string; organizationId: string }>('workspaces', workspaceId)?.organizationId || '',
+  workspaceId,
+});
+
+export const emitNotification = (notification: Notification) =>
+  emitEvent({
+    type: 'notification.created',
+    organizationId: notification.organizationId,
+    workspaceId: notification.workspaceId,
+    payload: { notification },
+  });
@@ -0,0 +1,883 @@
+/**
+ * Mock API Fixtures
+ *
+ * Seed data for the in-browser mock API. Dates are relative to the moment the
+ * database is seeded so the calendar, queue and analytics always have recent
+ * and upcoming activity. Bump SEED_VERSION whenever the shape changes so
+ * persisted databases are re-seeded.
+ */
+
+import type { User } from '../store/slices/authSlice';
+import type { Organization, ClientWorkspace } from '../store/slices/tenantSlice';
+import type { ContentRule, ContentRuleDefinition } from '../store/api/organizationApi';
+import type { Content, ContentPlatform } from '../store/api/contentApi';
+import type { ApprovalWorkflow, ApprovalRequest, ApprovalTemplate, ClientReviewLink } from '../store/api/approvalApi';
+import type { MediaFile, MediaFolder, UploadSession } from '../store/api/mediaApi';
+import type { Notification } from '../store/api/notificationsApi';
+import type { SocialPlatformConnection } from '../store/api/socialPlatformsApi';
+import type { ContentTemplate, BrandGuidelines } from '../store/api/templatesApi';
+import type { CalendarFeed } from '../store/api/workspaceApi';
+import type { PublishingJob, QueuePause } from '../store/api/publishingApi';
+import type { RecurrenceRuleRecord } from '../store/api/schedulingApi';
+import type { UserProfile } from '../store/api/userProfileApi';
+import type { Subscription } from '../store/api/billingApi';
+import type { RateLimitRule, UsageAlert } from '../store/api/usageApi';
+import type { GeneratedReport, ReportSchedule } from '../store/api/reportGenerationApi';
+import { DEFAULT_MAX_ATTEMPTS } from '../utils/publishingQueue';
+
+export const SEED_VERSION = 10;
+
+export type MockUser = User & { password: string };
+export type MockMediaFile = MediaFile & { folderId?: string };
+// Received chunks live in memory, so they're worked out per request rather than stored
+export type MockMediaUpload = Omit<UploadSession, 'receivedChunks'> & {
+  organizationId: string;
+  workspaceId?: string;
+  folderId?: string;
+  tags: string[];
+  uploadedBy: string;
+};
+export type MockCalendarFeed = CalendarFeed & { id: string; token: string };
+export type MockRecurrenceRule = RecurrenceRuleRecord & { workspaceId: string };
+
+export interface SeedData {
+  users: MockUser[];
+  organizations: Organization[];
+  workspaces: ClientWorkspace[];
+  content: Content[];
+  approvalWorkflows: ApprovalWorkflow[];
+  approvalRequests: ApprovalRequest[];
+  approvalTemplates: ApprovalTemplate[];
+  clientReviewLinks: ClientReviewLink[];
+  mediaFolders: MediaFolder[];
+  mediaFiles: MockMediaFile[];
+  mediaUploads: MockMediaUpload[];
+  notifications: Notification[];
+  socialConnections: SocialPlatformConnection[];
+  templates: ContentTemplate[];
+  brandGuidelines: BrandGuidelines[];
+  calendarFeeds: MockCalendarFeed[];
+  publishingJobs: PublishingJob[];
+  queuePauses: QueuePause[];
+  contentRules: ContentRule[];
+  recurrenceRules: MockRecurrenceRule[];
+  userProfiles: UserProfile[]; // created from the user the first time it's read
+  subscriptions: Subscription[]; // only kept once a subscription is cancelled or resumed
+  rateLimitRules: RateLimitRule[];
+  usageAlerts: UsageAlert[];
+  reports: GeneratedReport[];
+  reportSchedules: ReportSchedule[];
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Deterministic PRNG so metrics are stable between re-seeds
+const createRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const placeholderImage = (label: string, color: string, width = 1200, height = 1200) =>
+  `data:image/svg+xml;utf8,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="${color}"/><text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="64" text-anchor="middle" dominant-baseline="middle">${label}</text></svg>`
+  )}`;
+
+const createUser = (
+  id: string,
+  email: string,
+  password: string,
+  firstName: string,
+  lastName: string,
+  organizationId: string,
+  role: User['organizationMemberships'][number]['role'],
+  workspaceIds: string[]
+): MockUser => ({
+  id,
+  email,
+  password,
+  profile: {
+    firstName,
+    lastName,
+    title: role === 'owner' ? 'Founder' : 'Content Manager',
+    timezone: 'America/New_York',
+  },
+  organizationMemberships: [
+    {
+      organizationId,
+      role,
+      permissions: {},
+      joinedAt: '2024-01-15T09:00:00.000Z',
+    },
+  ],
+  workspaceAccess: workspaceIds.map((workspaceId) => ({
+    workspaceId,
+    role: role === 'member' ? 'contributor' : 'admin',
+    permissions: {},
+    grantedAt: '2024-01-15T09:00:00.000Z',
+  })),
+  preferences: {
+    defaultOrganization: organizationId,
+    dashboardLayout: 'grid',
+    notifications: { email: true, push: true },
+  },
+});
+
+const createOrganization = (
+  id: string,
+  name: string,
+  type: Organization['type'],
+  plan: Organization['subscription']['plan'],
+  clientWorkspaces: number
+): Organization => ({
+  id,
+  name,
+  slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+  type,
+  subscription: {
+    plan,
+    status: 'active',
+    currentPeriodEnd: new Date(Date.now() + 20 * DAY).toISOString(),
+  },
+  settings: {
+    whiteLabel: { enabled: plan === 'enterprise' },
+    features: {},
+  },
+  limits: {
+    clientWorkspaces: plan === 'creator' ? 1 : 25,
+    contentPerMonth: plan === 'creator' ? 100 : 2000,
+    teamMembers: plan === 'creator' ? 1 : 20,
+    storageGB: plan === 'creator' ? 5 : 100,
+  },
+  usage: {
+    clientWorkspaces,
+    contentGenerated: 186,
+    teamMembers: 3,
+    storageUsed: 12.4,
+  },
+});
+
+const createWorkspace = (
+  id: string,
+  organizationId: string,
+  companyName: string,
+  industry: string,
+  toneOfVoice: ClientWorkspace['branding']['toneOfVoice'],
+  primary: string,
+  pillars: string[],
+  platforms: string[]
+): ClientWorkspace => ({
+  id,
+  organizationId,
+  name: companyName,
+  slug: companyName.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+  client: {
+    companyName,
+    industry,
+    website: `https://${companyName.toLowerCase().replace(/[^a-z0-9]+/g, '')}.example.com`,
+  },
+  branding: {
+    brandVoice: `${toneOfVoice} and helpful`,
+    toneOfVoice,
+    targetAudience: `${industry} customers aged 25-45`,
+    keyMessages: [`${companyName} makes every day better`],
+    brandColors: { primary, secondary: '#1f2937' },
+  },
+  contentSettings: {
+    defaultVoice: toneOfVoice,
+    contentPillars: pillars,
+    defaultPlatforms: platforms,
+    approvalRequired: true,
+    autoPublish: false,
+    minPostSpacingMinutes: 60,
+  },
+  status: 'active',
+  totalContent: 0,
+  totalPublished: 0,
+});
+
+const CONTENT_SEEDS: {
+  title: string;
+  body: string;
+  type: Content['type'];
+  platforms: ContentPlatform['platform'][];
+  pillar: string;
+  tags: string[];
+}[] = [
+  { title: 'Monday motivation', body: 'New week, new goals. What is the one thing you want to get done this week? ☕️ #MondayMotivation', type: 'post', platforms: ['linkedin', 'twitter'], pillar: 'Community', tags: ['motivation'] },
+  { title: 'Seasonal menu launch', body: 'Our autumn menu is here 🍂 Maple oat latte, pumpkin cold brew and a brand new cardamom bun. Which one are you trying first?', type: 'carousel', platforms: ['instagram', 'facebook'], pillar: 'Product', tags: ['launch', 'menu'] },
+  { title: 'Behind the roast', body: 'Ever wondered how we pick our beans? Meet Ana, our head roaster, and follow a single batch from farm to cup.', type: 'video', platforms: ['youtube', 'linkedin'], pillar: 'Education', tags: ['behind-the-scenes'] },
+  { title: 'Latte art in 15 seconds', body: 'Pour, wiggle, pull through. Save this for your next attempt at home! #LatteArt #BaristaTips', type: 'reel', platforms: ['instagram', 'tiktok'], pillar: 'Education', tags: ['tips'] },
+  { title: 'Sustainability report', body: 'We cut our packaging waste by 38% this year. Here is how we did it, and what is next for 2025.', type: 'post', platforms: ['linkedin'], pillar: 'Impact', tags: ['sustainability', 'report'] },
+  { title: 'Customer spotlight', body: 'Shout out to @janedoe who has visited our Main St. store 200 times this year! Your next coffee is on us 🎉', type: 'post', platforms: ['twitter', 'instagram'], pillar: 'Community', tags: ['ugc'] },
+  { title: '5 brewing mistakes', body: 'Mistake #1: water that is too hot. A thread on the five most common brewing mistakes and how to fix them 🧵', type: 'thread', platforms: ['twitter'], pillar: 'Education', tags: ['tips', 'thread'] },
+  { title: 'Weekend hours', body: 'Heads up! All stores open at 8am this weekend for the city marathon. Runners get a free espresso shot.', type: 'story', platforms: ['instagram', 'facebook'], pillar: 'Community', tags: ['announcement'] },
+  { title: 'Hiring baristas', body: 'We are hiring! Join a team that cares about great coffee and even better people. Apply via the link in bio.', type: 'post', platforms: ['linkedin', 'facebook'], pillar: 'Culture', tags: ['hiring'] },
+  { title: 'Cold brew science', body: 'Why does cold brew taste smoother? Lower extraction temperature means fewer bitter compounds. Science you can sip.', type: 'post', platforms: ['twitter', 'linkedin'], pillar: 'Education', tags: ['science'] },
+  { title: 'Loyalty app update', body: 'Our app now lets you order ahead and skip the line. Update today and get double points all week.', type: 'post', platforms: ['instagram', 'twitter', 'facebook'], pillar: 'Product', tags: ['app', 'launch'] },
+  { title: 'Farm partner visit', body: 'This month our team visited our partner farm in Huila, Colombia. Direct trade means fair prices and better coffee.', type: 'video', platforms: ['youtube', 'instagram'], pillar: 'Impact', tags: ['sourcing'] },
+];
+
+// Day offsets relative to seeding, paired with a status that makes sense for that date
+const CONTENT_SCHEDULE: { offsetDays: number; hour: number; status: Content['status'] }[] = [
+  { offsetDays: -12, hour: 9, status: 'published' },
+  { offsetDays: -9, hour: 12, status: 'published' },
+  { offsetDays: -6, hour: 17, status: 'published' },
+  { offsetDays: -3, hour: 10, status: 'published' },
+  { offsetDays: -1, hour: 15, status: 'failed' },
+  { offsetDays: 1, hour: 9, status: 'scheduled' },
+  { offsetDays: 2, hour: 12, status: 'scheduled' },
+  { offsetDays: 3, hour: 18, status: 'pending_review' },
+  { offsetDays: 5, hour: 11, status: 'approved' },
+  { offsetDays: 7, hour: 9, status: 'pending_review' },
+  { offsetDays: 9, hour: 14, status: 'draft' },
+  { offsetDays: 12, hour: 16, status: 'draft' },
+];
+
+const atHour = (offsetDays: number, hour: number) => {
+  const date = new Date(Date.now() + offsetDays * DAY);
+  date.setHours(hour, 0, 0, 0);
+  return date.toISOString();
+};
+
+const platformStatus = (status: Content['status']): ContentPlatform['status'] => {
+  switch (status) {
+    case 'published':
+      return 'published';
+    case 'failed':
+      return 'failed';
+    case 'scheduled':
+    case 'approved':
+      return 'scheduled';
+    default:
+      return 'draft';
+  }
+};
+
+const createContent = (workspaceId: string, userId: string, random: () => number, prefix: string): Content[] =>
+  CONTENT_SEEDS.map((seed, index) => {
+    const schedule = CONTENT_SCHEDULE[index % CONTENT_SCHEDULE.length];
+    const scheduledAt = atHour(schedule.offsetDays, schedule.hour);
+    const published = schedule.status === 'published';
+    const impressions = Math.round(2000 + random() * 18000);
+
+    return {
+      id: `${prefix}_content_${index + 1}`,
+      workspaceId,
+      title: seed.title,
+      body: seed.body,
+      type: seed.type,
+      status: schedule.status,
+      priority: index % 5 === 0 ? 'high' : 'medium',
+      media: [],
+      platforms: seed.platforms.map((platform) => ({
+        platform,
+        scheduledAt,
+        status: platformStatus(schedule.status),
+        ...(published && { publishedAt: scheduledAt, publishingResult: { postId: `${platform}_${index}`, url: `https://${platform}.com/p/${index}` } }),
+        ...(schedule.status === 'failed' && { publishingResult: { error: 'Access token expired for this account' } }),
+      })),
+      scheduledAt,
+      publishedAt: published ? scheduledAt : undefined,
+      tags: seed.tags,
+      contentPillar: seed.pillar,
+      aiGenerated: index % 3 === 0,
+      approvalRequired: true,
+      ...(published && {
+        approvedBy: userId,
+        analytics: {
+          impressions,
+          engagements: Math.round(impressions * (0.02 + random() * 0.06)),
+          clicks: Math.round(impressions * (0.005 + random() * 0.02)),
+          shares: Math.round(impressions * random() * 0.01),
+          comments: Math.round(impressions * random() * 0.008),
+          likes: Math.round(impressions * (0.01 + random() * 0.04)),
+        },
+      }),
+      createdBy: userId,
+      createdAt: atHour(schedule.offsetDays - 4, 10),
+      updatedAt: atHour(Math.min(schedule.offsetDays - 1, 0), 11),
+      version: 1,
+    };
+  });
+
+const createApprovalRequest = (content: Content, workflow: ApprovalWorkflow, userId: string): ApprovalRequest => ({
+  id: `approval_${content.id}`,
+  contentId: content.id,
+  workflowId: workflow.id,
+  submittedBy: userId,
+  currentStepId: workflow.steps[0].id,
+  status: 'pending',
+  priority: content.priority,
+  content: {
+    title: content.title,
+    body: content.body,
+    type: content.type,
+    platforms: content.platforms.map((platform) => platform.platform),
+    scheduledAt: content.scheduledAt,
+    mediaFiles: content.media.map((media) => media.id),
+    estimatedReach: 12000,
+  },
+  steps: workflow.steps.map((step, index) => ({
+    id: `${content.id}_${step.id}`,
+    stepId: step.id,
+    status: 'pending',
+    assignedTo: step.assignees.userIds || [],
+    approvals: [],
+    startedAt: index === 0 ? content.updatedAt : undefined,
+  })),
+  comments: [],
+  history: [
+    {
+      id: `history_${content.id}_1`,
+      action: 'submitted',
+      userId,
+      userName: 'Demo Agency',
+      timestamp: content.updatedAt,
+    },
+  ],
+  submittedAt: content.updatedAt,
+  dueAt: content.scheduledAt,
+  tags: content.tags,
+});
+
+// Failed seed content lands in the dead-letter queue, as if its token had expired mid-publish
+const createDeadLetteredJobs = (content: Content): PublishingJob[] =>
+  content.platforms.map((platform) => {
+    const error = {
+      code: 'AUTH_EXPIRED',
+      message: platform.publishingResult?.error || 'Access token expired for this account',
+      kind: 'terminal' as const,
+      httpStatus: 401,
+      occurredAt: content.scheduledAt!,
+    };
+
+    return {
+      id: `job_${content.id}_${platform.platform}`,
+      contentId: content.id,
+      workspaceId: content.workspaceId,
+      platform: platform.platform,
+      title: content.title,
+      priority: content.priority,
+      status: 'dead_lettered',
+      scheduledAt: content.scheduledAt!,
+      attempts: 1,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      startedAt: content.scheduledAt,
+      completedAt: content.scheduledAt,
+      lastError: error,
+      errors: [error],
+      createdAt: content.scheduledAt!,
+      updatedAt: content.scheduledAt!,
+    };
+  });
+
+const createMediaFile = (
+  id: string,
+  workspaceId: string,
+  folderId: string,
+  name: string,
+  color: string,
+  tags: string[],
+  uploadedBy: string,
+  daysAgo: number,
+  width = 1200,
+  height = 1200
+): MockMediaFile => ({
+  id,
+  folderId,
+  organizationId: 'org_agency',
+  workspaceId,
+  filename: `${id}.svg`,
+  originalName: name,
+  mimeType: 'image/svg+xml',
+  size: 180_000 + name.length * 1000,
+  url: placeholderImage(name, color, width, height),
+  thumbnailUrl: placeholderImage(name, color, 320, Math.round((320 * height) / width)),
+  type: 'image',
+  metadata: {
+    width,
+    height,
+    alt: name,
+    tags,
+    dimensions: `${width}x${height}`,
+  },
+  usage: { contentIds: [], usageCount: 0 },
+  uploadedBy,
+  uploadedAt: new Date(Date.now() - daysAgo * DAY).toISOString(),
+  updatedAt: new Date(Date.now() - daysAgo * DAY).toISOString(),
+});
+
+const createBrandGuidelines = (workspace: ClientWorkspace, userId: string): BrandGuidelines => ({
+  id: `brand_${workspace.id}`,
+  organizationId: workspace.organizationId,
+  workspaceId: workspace.id,
+  brand: {
+    name: workspace.client.companyName,
+    tagline: workspace.branding.keyMessages[0],
+    description: `${workspace.client.companyName} brand guidelines`,
+    values: ['Craft', 'Community', 'Sustainability'],
+    personality: ['Warm', 'Knowledgeable', 'Upbeat'],
+    targetAudience: {
+      demographics: ['25-45', 'Urban professionals'],
+      interests: ['Coffee', 'Food', 'Sustainability'],
+      painPoints: ['Long queues', 'Inconsistent quality'],
+    },
+  },
+  visual: {
+    logo: { primary: placeholderImage('Logo', workspace.branding.brandColors.primary, 400, 400), variants: [] },
+    colors: {
+      primary: [{ name: 'Primary', hex: workspace.branding.brandColors.primary, usage: 'Headlines and CTAs' }],
+      secondary: [{ name: 'Ink', hex: workspace.branding.brandColors.secondary, usage: 'Body text' }],
+      accent: [],
+      neutral: [],
+    },
+    typography: {
+      primary: { name: 'Body', family: 'Inter', weights: ['400', '600'], usage: 'All copy' },
+    },
+    imagery: {
+      style: ['Natural light', 'Candid'],
+      subjects: ['People', 'Product close-ups'],
+      composition: ['Rule of thirds'],
+      lighting: ['Warm'],
+      avoid: ['Stock photos with fake smiles'],
+    },
+  },
+  voice: {
+    tone: 'friendly',
+    personality: ['Warm', 'Curious'],
+    doUse: ['community', 'craft', 'fresh'],
+    doNotUse: ['cheap → affordable', 'guys → everyone', 'world-class', 'synergy'],
+    examples: {
+      good: ['Come say hi, the kettle is on.'],
+      bad: ['Buy our world-class cheap coffee now!!!'],
+    },
+    grammarRules: ['Use sentence case for headlines', 'Avoid exclamation mark chains'],
+  },
+  content: {
+    messaging: {
+      keyMessages: workspace.branding.keyMessages,
+      valuePropositions: ['Ethically sourced', 'Roasted weekly'],
+      taglines: ['Brewed with care'],
+      boilerplate: `${workspace.client.companyName} roasts small-batch coffee and serves it in neighbourhood cafés.`,
+    },
+    guidelines: {
+      postFrequency: { instagram: 'daily', linkedin: '3x per week', twitter: 'daily' },
+      hashtagStrategy: {
+        recommended: ['#CoffeeLovers', '#BrewedWithCare'],
+        avoid: ['#ad', '#follow4follow', '#like4like'],
+        maxPerPost: 3,
+      },
+      contentTypes: [
+        { type: 'Education', percentage: 40, guidelines: ['Teach one thing per post'] },
+        { type: 'Community', percentage: 35, guidelines: ['Feature real customers'] },
+        { type: 'Product', percentage: 25, guidelines: ['Lead with taste, not price'] },
+      ],
+      approvalRequired: true,
+    },
+  },
+  platformSpecific: [],
+  compliance: {
+    legal: {
+      disclaimers: [],
+      requiredDisclosures: ['#ad for paid partnerships'],
+      copyrightNotice: `© ${new Date().getFullYear()} ${workspace.client.companyName}`,
+    },
+    industry: { regulations: [], certifications: ['Fair Trade'], standards: [] },
+  },
+  isActive: true,
+  version: 1,
+  createdBy: userId,
+  createdAt: '2024-02-01T09:00:00.000Z',
+  updatedAt: '2024-02-01T09:00:00.000Z',
+});
+
+// A rule with one version, live unless `draft`
+const createContentRule = (
+  id: string,
+  organizationId: string,
+  definition: ContentRuleDefinition,
+  userId: string,
+  draft = false
+): ContentRule => ({
+  id,
+  organizationId,
+  name: definition.name,
+  versions: [
+    {
+      version: 1,
+      definition,
+      createdBy: userId,
+      createdAt: '2024-03-01T09:00:00.000Z',
+      publishedAt: draft ? undefined : '2024-03-01T10:00:00.000Z',
+    },
+  ],
+  liveVersion: draft ? undefined : 1,
+  enabled: true,
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+});
+
+const createRecurrenceRules = (workspaceId: string): MockRecurrenceRule[] => {
+  const at = (days: number) => new Date(Date.now() + days * DAY).toISOString();
+  return [
+    {
+      id: 'recurrence_tips',
+      workspaceId,
+      name: 'Weekly Marketing Tips',
+      description: 'Share marketing tips every Tuesday and Thursday',
+      enabled: true,
+      frequency: 'weekly',
+      interval: 1,
+      daysOfWeek: [2, 4], // Tuesday, Thursday
+      times: ['09:00', '17:00'],
+      platforms: ['linkedin', 'twitter'],
+      contentTemplate: {
+        title: 'Weekly Marketing Tip #{week}',
+        content: '💡 Marketing Tip of the Week: {tip}\n\nWhat strategies are working for your business? Share in the comments! 👇\n\n#MarketingTips #BusinessGrowth #SocialMedia',
+        tags: ['marketing', 'tips', 'weekly'],
+      },
+      scheduling: { startDate: at(0), endDate: at(182), timezone: 'UTC' },
+      optimization: { adaptTiming: true, skipWeekends: false, skipHolidays: true, respectRateLimit: true, optimalSpacing: 4 },
+      analytics: { totalScheduled: 48, published: 42, failed: 2, averageEngagement: 8.5, lastRun: at(-3), nextRun: at(1) },
+    },
+    {
+      id: 'recurrence_quotes',
+      workspaceId,
+      name: 'Daily Motivational Quotes',
+      description: 'Inspire followers with daily motivational content',
+      enabled: true,
+      frequency: 'daily',
+      interval: 1,
+      times: ['08:00'],
+      platforms: ['instagram', 'facebook', 'twitter'],
+      contentTemplate: {
+        title: 'Daily Motivation',
+        content: '🌟 "{quote}"\n\n{author}\n\nStart your day with positivity! What motivates you today? 💪\n\n#Motivation #Inspiration #MondayMotivation #Success',
+        tags: ['motivation', 'quotes', 'daily'],
+      },
+      scheduling: { startDate: at(0), maxPosts: 365, timezone: 'UTC' },
+      optimization: { adaptTiming: true, skipWeekends: true, skipHolidays: true, respectRateLimit: true, optimalSpacing: 24 },
+      analytics: { totalScheduled: 90, published: 87, failed: 1, averageEngagement: 6.2, lastRun: at(-1), nextRun: at(1) },
+    },
+    {
+      id: 'recurrence_report',
+      workspaceId,
+      name: 'Monthly Industry Report',
+      description: 'Share comprehensive industry insights monthly',
+      enabled: false,
+      frequency: 'monthly',
+      interval: 1,
+      daysOfMonth: [1], // First day of month
+      times: ['12:00'],
+      platforms: ['linkedin'],
+      contentTemplate: {
+        title: '{Month} Industry Report - Key Insights',
+        content: '📊 Monthly Industry Report for {month}:\n\n• Key trend 1\n• Important development 2\n• Market insight 3\n\nFull report in comments 👇\n\n#IndustryReport #MarketTrends #BusinessIntelligence',
+        tags: ['report', 'industry', 'monthly'],
+      },
+      scheduling: { startDate: at(0), endDate: at(365), timezone: 'UTC' },
+      optimization: { adaptTiming: false, skipWeekends: true, skipHolidays: true, respectRateLimit: true, optimalSpacing: 0 },
+      analytics: { totalScheduled: 3, published: 3, failed: 0, averageEngagement: 12.8, lastRun: at(-30), nextRun: at(1) },
+    },
+  ];
+};
+
+const createReportSchedule = (organizationId: string): ReportSchedule => ({
+  id: 'report_schedule_weekly',
+  organizationId,
+  templateId: 'report_template_performance',
+  name: 'Weekly performance digest',
+  frequency: 'weekly',
+  dayOfWeek: 1,
+  time: '08:00',
+  timezone: 'America/New_York',
+  recipients: ['demo@agency.com'],
+  isActive: true,
+  lastGenerated: new Date(Date.now() - 3 * DAY).toISOString(),
+  nextScheduled: new Date(Date.now() + 4 * DAY).toISOString(),
+  filters: { timeframe: 'last7days' },
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: '2024-03-01T09:00:00.000Z',
+});
+
+const createUsageAlert = (organizationId: string, createdBy: string): UsageAlert => ({
+  id: 'usage_alert_posts',
+  organizationId,
+  type: 'quota',
+  metric: 'contentPublished',
+  threshold: { value: 80, unit: 'percent', operator: '>=' },
+  notifications: { email: true, inApp: true },
+  actions: { notify: true },
+  status: 'active',
+  triggerCount: 0,
+  isActive: true,
+  createdBy,
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: '2024-03-01T09:00:00.000Z',
+});
+
+export const createSeedData = (): SeedData => {
+  const random = createRandom(42);
+
+  const organizations = [
+    createOrganization('org_agency', 'Northwind Digital', 'agency', 'agency', 3),
+    createOrganization('org_freelancer', 'Studio Solo', 'freelancer', 'creator', 1),
+    createOrganization('org_enterprise', 'Globex Corporation', 'enterprise', 'enterprise', 1),
+  ];
+
+  const workspaces = [
+    createWorkspace('ws_acme', 'org_agency', 'Acme Coffee Co', 'Food & Beverage', 'friendly', '#8b5e3c', ['Education', 'Community', 'Product', 'Impact'], ['instagram', 'linkedin', 'twitter']),
+    createWorkspace('ws_brightside', 'org_agency', 'Brightside Fitness', 'Health & Fitness', 'playful', '#f97316', ['Workouts', 'Nutrition', 'Community'], ['instagram', 'tiktok', 'youtube']),
+    createWorkspace('ws_lumen', 'org_agency', 'Lumen Health', 'Healthcare', 'professional', '#2563eb', ['Education', 'Culture'], ['linkedin', 'facebook']),
+    createWorkspace('ws_solo', 'org_freelancer', 'Solo Portfolio', 'Design', 'casual', '#10b981', ['Work', 'Process'], ['instagram', 'linkedin']),
+    createWorkspace('ws_globex', 'org_enterprise', 'Globex Brand', 'Technology', 'authoritative', '#111827', ['Innovation', 'Culture'], ['linkedin', 'twitter']),
+  ];
+
+  const users = [
+    createUser('user_demo', 'demo@agency.com', 'demo123', 'Demo', 'Agency', 'org_agency', 'owner', ['ws_acme', 'ws_brightside', 'ws_lumen']),
+    createUser('user_maria', 'maria@agency.com', 'maria123', 'Maria', 'Lopez', 'org_agency', 'member', ['ws_acme']),
+    createUser('user_freelancer', 'test@freelancer.com', 'test123', 'Sam', 'Taylor', 'org_freelancer', 'owner', ['ws_solo']),
+    createUser('user_john', 'john@enterprise.com', 'john123', 'John', 'Smith', 'org_enterprise', 'owner', ['ws_globex']),
+    createUser('user_admin', 'admin@contentautopilot.com', 'admin123', 'Platform', 'Admin', 'org_agency', 'admin', ['ws_acme', 'ws_brightside', 'ws_lumen']),
+  ];
+
+  const content = [
+    ...createContent('ws_acme', 'user_demo', random, 'acme'),
+    ...createContent('ws_brightside', 'user_maria', random, 'brightside').slice(0, 6),
+  ];
+
+  workspaces.forEach((workspace) => {
+    const workspaceContent = content.filter((item) => item.workspaceId === workspace.id);
+    workspace.totalContent = workspaceContent.length;
+    workspace.totalPublished = workspaceContent.filter((item) => item.status === 'published').length;
+  });
+
+  const approvalWorkflows: ApprovalWorkflow[] = [
+    {
+      id: 'workflow_standard',
+      name: 'Standard review',
+      description: 'Copy review by the account manager, then client sign-off',
+      organizationId: 'org_agency',
+      steps: [
+        { id: 'step_review', order: 1, name: 'Copy review', type: 'review', assignees: { userIds: ['user_maria'], anyOf: true }, timeoutHours: 24, escalationUserId: 'user_demo', isOptional: false },
+        { id: 'step_client', order: 2, name: 'Client approval', type: 'approve', assignees: { userIds: ['user_demo'], anyOf: true }, timeoutHours: 48, isOptional: false },
+      ],
+      isDefault: true,
+      isActive: true,
+      conditions: {},
+      notifications: { onSubmission: true, onApproval: true, onRejection: true, onEscalation: true },
+      createdBy: 'user_demo',
+      createdAt: '2024-02-01T09:00:00.000Z',
+      updatedAt: '2024-02-01T09:00:00.000Z',
+    },
+  ];
+
+  const approvalRequests = content
+    .filter((item) => item.status === 'pending_review')
+    .map((item) => createApprovalRequest(item, approvalWorkflows[0], item.createdBy));
+
+  const approvalTemplates: ApprovalTemplate[] = [
+    {
+      id: 'template_quick_review',
+      name: 'Quick review',
+      description: 'One reviewer signs off, for low-risk posts',
+      type: 'workflow',
+      organizationId: 'org_agency',
+      workflow: {
+        steps: [
+          { id: 'step_review', order: 1, name: 'Review', type: 'review', assignees: { roleIds: ['owner', 'admin'], anyOf: true }, isOptional: false },
+        ],
+      },
+      isDefault: false,
+      createdAt: '2024-02-01T09:00:00.000Z',
+      updatedAt: '2024-02-01T09:00:00.000Z',
+    },
+    {
+      id: 'template_regulated',
+      name: 'Regulated sign-off',
+      description: 'Copy review, then brand and legal side by side, then the client',
+      type: 'workflow',
+      organizationId: 'org_agency',
+      workflow: {
+        steps: [
+          { id: 'step_copy', order: 1, name: 'Copy review', type: 'review', assignees: { userIds: ['user_maria'], anyOf: true }, timeoutHours: 24, escalationUserId: 'user_demo', isOptional: false, dependsOn: [] },
+          { id: 'step_brand', order: 2, name: 'Brand check', type: 'brand', assignees: { userIds: ['user_maria'], anyOf: true }, timeoutHours: 24, escalationUserId: 'user_demo', isOptional: true, dependsOn: ['step_copy'] },
+          { id: 'step_legal', order: 2, name: 'Legal review', type: 'legal', assignees: { roleIds: ['admin'], anyOf: true }, timeoutHours: 48, escalationUserId: 'user_demo', isOptional: false, dependsOn: ['step_copy'], conditions: { requireIf: 'riskScore >= 40 or tags contains "regulated"' } },
+          { id: 'step_client', order: 3, name: 'Client approval', type: 'approve', assignees: { userIds: ['user_demo', 'user_maria'], anyOf: false }, timeoutHours: 48, isOptional: false, dependsOn: ['step_brand', 'step_legal'] },
+        ],
+      },
+      isDefault: true,
+      createdAt: '2024-02-01T09:00:00.000Z',
+      updatedAt: '2024-02-01T09:00:00.000Z',
+    },
+  ];
+
+  const mediaFolders: MediaFolder[] = [
+    { id: 'folder_brand', name: 'Brand assets', organizationId: 'org_agency', workspaceId: 'ws_acme', fileCount: 2, totalSize: 0, createdBy: 'user_demo', createdAt: '2024-02-01T09:00:00.000Z', updatedAt: '2024-02-01T09:00:00.000Z' },
+    { id: 'folder_campaigns', name: 'Autumn campaign', organizationId: 'org_agency', workspaceId: 'ws_acme', fileCount: 4, totalSize: 0, createdBy: 'user_demo', createdAt: '2024-09-01T09:00:00.000Z', updatedAt: '2024-09-01T09:00:00.000Z' },
+  ];
+
+  const mediaFiles = [
+    createMediaFile('media_logo', 'ws_acme', 'folder_brand', 'Acme logo', '#8b5e3c', ['brand'], 'user_demo', 60, 800, 800),
+    createMediaFile('media_storefront', 'ws_acme', 'folder_brand', 'Main St storefront', '#6b7280', ['brand'], 'user_demo', 45, 1920, 1080),
+    createMediaFile('media_latte', 'ws_acme', 'folder_campaigns', 'Maple oat latte', '#b45309', ['menu'], 'user_maria', 10),
+    createMediaFile('media_bun', 'ws_acme', 'folder_campaigns', 'Cardamom bun', '#d97706', ['menu'], 'user_maria', 9, 1080, 1350),
+    createMediaFile('media_coldbrew', 'ws_acme', 'folder_campaigns', 'Pumpkin cold brew', '#c2410c', ['menu'], 'user_maria', 8, 1080, 1920),
+    createMediaFile('media_roaster', 'ws_acme', 'folder_campaigns', 'Ana at the roaster', '#374151', ['people'], 'user_demo', 5, 1920, 1080),
+  ];
+
+  const notifications: Notification[] = [
+    { id: 'notif_1', type: 'content_published', title: 'Post published', message: '"Behind the roast" was published to YouTube and LinkedIn', read: false, priority: 'low', organizationId: 'org_agency', workspaceId: 'ws_acme', userId: 'user_demo', actionUrl: '/content', createdAt: new Date(Date.now() - 2 * HOUR).toISOString() },
+    { id: 'notif_2', type: 'content_failed', title: 'Publishing failed', message: '"Customer spotlight" failed on Instagram: access token expired', read: false, priority: 'high', organizationId: 'org_agency', workspaceId: 'ws_acme', userId: 'user_demo', actionUrl: '/content', actionText: 'Reconnect', createdAt: new Date(Date.now() - 20 * HOUR).toISOString() },
+    { id: 'notif_3', type: 'mention', title: 'Maria mentioned you', message: '@Demo can you double-check the price in the menu post?', read: false, priority: 'medium', organizationId: 'org_agency', workspaceId: 'ws_acme', userId: 'user_demo', createdAt: new Date(Date.now() - 26 * HOUR).toISOString() },
+    { id: 'notif_4', type: 'content_approved', title: 'Content approved', message: '"Sustainability report" was approved by the client', read: true, priority: 'low', organizationId: 'org_agency', workspaceId: 'ws_acme', userId: 'user_demo', createdAt: new Date(Date.now() - 3 * DAY).toISOString(), readAt: new Date(Date.now() - 2 * DAY).toISOString() },
+    { id: 'notif_5', type: 'system', title: 'Scheduled maintenance', message: 'Publishing will be paused on Sunday 02:00–03:00 UTC', read: true, priority: 'low', organizationId: 'org_agency', userId: 'user_demo', createdAt: new Date(Date.now() - 5 * DAY).toISOString() },
+  ];
+
+  const socialConnections: SocialPlatformConnection[] = (['instagram', 'linkedin', 'twitter', 'facebook', 'tiktok', 'youtube'] as const).map(
+    (platform, index) => ({
+      id: `conn_${platform}`,
+      platform,
+      accountId: `acct_${platform}`,
+      accountName: 'Acme Coffee Co',
+      accountHandle: '@acmecoffee',
+      isActive: platform !== 'tiktok',
+      connectedAt: '2024-02-01T09:00:00.000Z',
+      lastSyncAt: new Date(Date.now() - (index + 1) * HOUR).toISOString(),
+      accessToken: 'mock-encrypted-token',
+      permissions: ['publish', 'read_insights'],
+      metadata: {
+        followerCount: Math.round(4000 + random() * 40000),
+        postCount: Math.round(100 + random() * 900),
+        businessAccount: true,
+      },
+    })
+  );
+
+  const templates: ContentTemplate[] = [
+    {
+      id: 'template_launch',
+      name: 'Product launch',
+      description: 'Announce a new product with a clear call to action',
+      category: 'social_post',
+      organizationId: 'org_agency',
+      content: { body: 'Introducing {{product}} ✨ {{benefit}}. Available {{availability}}.', callToAction: 'Try it today', hashtags: ['#NewIn'] },
+      variables: [
+        { name: 'product', type: 'text', label: 'Product name', required: true },
+        { name: 'benefit', type: 'text', label: 'Key benefit', required: true },
+        { name: 'availability', type: 'text', label: 'Availability', required: false, defaultValue: 'in all stores' },
+      ],
+      platforms: [{ platform: 'instagram', enabled: true }, { platform: 'linkedin', enabled: true }],
+      brandGuidelines: { tone: 'friendly', voice: ['Warm'], doNotUse: ['cheap'] },
+      usage: { useCount: 14, averagePerformance: 4.2 },
+      tags: ['launch'],
+      isPublic: false,
+      isFeatured: true,
+      version: 1,
+      createdBy: 'user_demo',
+      createdAt: '2024-03-01T09:00:00.000Z',
+      updatedAt: '2024-03-01T09:00:00.000Z',
+    },
+    {
+      id: 'template_tip',
+      name: 'Quick tip',
+      description: 'Short educational post with one actionable tip',
+      category: 'social_post',
+      organizationId: 'org_agency',
+      content: { body: 'Quick tip: {{tip}}. {{why}}', hashtags: ['#Tips'] },
+      variables: [
+        { name: 'tip', type: 'text', label: 'Tip', required: true },
+        { name: 'why', type: 'text', label: 'Why it works', required: false },
+      ],
+      platforms: [{ platform: 'twitter', enabled: true }, { platform: 'linkedin', enabled: true }],
+      brandGuidelines: { tone: 'friendly', voice: ['Helpful'], doNotUse: [] },
+      usage: { useCount: 31, averagePerformance: 3.8 },
+      tags: ['education'],
+      isPublic: true,
+      isFeatured: false,
+      version: 2,
+      createdBy: 'user_maria',
+      createdAt: '2024-03-10T09:00:00.000Z',
+      updatedAt: '2024-05-02T09:00:00.000Z',
+    },
+  ];
+
+  const brandGuidelines = workspaces
+    .filter((workspace) => workspace.organizationId === 'org_agency')
+    .map((workspace) => createBrandGuidelines(workspace, 'user_demo'));
+
+  const contentRules = [
+    createContentRule('rule_health_claims', 'org_agency', {
+      name: 'No health claims',
+      description: 'Regulated wording our health and fitness clients cannot publish',
+      kind: 'word_list',
+      severity: 'high',
+      words: ['cure', 'guaranteed results', 'miracle', 'clinically proven → shown in studies'],
+      platforms: [],
+      pillars: [],
+      workspaceIds: ['ws_brightside', 'ws_lumen'],
+      samples: [
+        { text: 'This miracle smoothie melts fat overnight', expectViolation: true },
+        { text: 'A smoothie recipe to fuel your morning run', expectViolation: false },
+      ],
+    }, 'user_demo'),
+    createContentRule('rule_phone_numbers', 'org_agency', {
+      name: 'No personal phone numbers',
+      kind: 'regex',
+      severity: 'critical',
+      message: 'Phone numbers must not be published; link to the contact page instead',
+      pattern: '\\(?\\d{3}\\)?[-. ]\\d{3}[-. ]\\d{4}',
+      platforms: [],
+      pillars: [],
+      workspaceIds: [],
+      samples: [
+        { text: 'Call Ana on 555-123-4567 to book', expectViolation: true },
+        { text: 'Book through the link in bio', expectViolation: false },
+      ],
+    }, 'user_demo'),
+    createContentRule('rule_instagram_giveaway', 'org_agency', {
+      name: 'Instagram giveaway disclosure',
+      description: 'Meta requires a release on every Instagram promotion',
+      kind: 'required_phrase',
+      severity: 'medium',
+      phrase: 'This promotion is not sponsored or endorsed by Instagram.',
+      placement: 'end',
+      platforms: ['instagram'],
+      pillars: ['Community'],
+      workspaceIds: [],
+      samples: [
+        { text: 'Win a year of coffee! Tag a friend to enter.', expectViolation: true },
+      ],
+    }, 'user_demo', true),
+  ];
+
+  return {
+    users,
+    organizations,
+    workspaces,
+    content,
+    approvalWorkflows,
+    approvalRequests,
+    approvalTemplates,
+    clientReviewLinks: [],
+    mediaFolders,
+    mediaFiles,
+    mediaUploads: [],
+    notifications,
+    socialConnections,
+    templates,
+    brandGuidelines,
+    calendarFeeds: [],
+    publishingJobs: content.filter((item) => item.status === 'failed').flatMap(createDeadLetteredJobs),
+    queuePauses: [],
+    contentRules,
+    recurrenceRules: createRecurrenceRules('ws_acme'),
+    userProfiles: [],
+    subscriptions: [],
+    rateLimitRules: [],
+    usageAlerts: [createUsageAlert('org_agency', 'user_demo')],
+    reports: [],
+    reportSchedules: [createReportSchedule('org_agency')],
+  };
+};
@@ -0,0 +1,148 @@
+import { MockRouter, MockRequest, json, paginate, listParam } from '../router';
+import { getScopedWorkspaceIds } from '../session';
+import type { Content } from '../../store/api/contentApi';
+import type { AnalyticsMetrics, ContentPerformance } from '../../store/api/analyticsApi';
+import type { SocialPlatformConnection } from '../../store/api/socialPlatformsApi';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const PERIOD_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, quarter: 90, year: 365 };
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Each platform gets an even share of the content's totals
+const toPerformance = (item: Content): ContentPerformance[] =>
+  item.platforms.map((platform) => {
+    const share = 1 / item.platforms.length;
+    const impressions = Math.round(item.analytics!.impressions * share);
+    const engagements = Math.round(item.analytics!.engagements * share);
+    return {
+      id: `${item.id}_${platform.platform}`,
+      contentId: item.id,
+      platform: platform.platform,
+      title: item.title,
+      type: item.type,
+      publishedAt: item.publishedAt!,
+      metrics: {
+        likes: Math.round(engagements * 0.7),
+        comments: Math.round(engagements * 0.1),
+        shares: Math.round(item.analytics!.shares * share),
+        saves: Math.round(engagements * 0.05),
+        clicks: Math.round(item.analytics!.clicks * share),
+        impressions,
+        reach: Math.round(impressions * 0.8),
+        engagementRate: impressions ? (engagements / impressions) * 100 : 0,
+        ctr: impressions ? (item.analytics!.clicks * share / impressions) * 100 : 0,
+        cpm: 0,
+        cpc: 0,
+      },
+      sentiment: { positive: 0.7, neutral: 0.25, negative: 0.05, score: 0.65 },
+      tags: item.tags,
+      score: Math.min(100, Math.round((engagements / Math.max(impressions, 1)) * 1000)),
+    };
+  });
+
+const publishedContent = (req: MockRequest, workspaceIds = getScopedWorkspaceIds(req)) =>
+  req.db
+    .list<Content>('content')
+    .filter((item) => workspaceIds.includes(item.workspaceId) && item.analytics && item.publishedAt);
+
+export const registerAnalyticsRoutes = (router: MockRouter) => {
+  router.get('/analytics/overview', (req) => {
+    const workspaceId = req.query.get('workspaceId');
+    const workspaceIds = workspaceId ? [workspaceId] : getScopedWorkspaceIds(req);
+    const days = PERIOD_DAYS[req.query.get('period') || 'month'] ?? 30;
+    const since = new Date(Date.now() - days * DAY).toISOString();
+    const platforms = listParam(req.query, 'platforms');
+
+    const content = req.db
+      .list<Content>('content')
+      .filter((item) => workspaceIds.includes(item.workspaceId));
+    const performance = publishedContent(req, workspaceIds)
+      .filter((item) => item.publishedAt! >= since)
+      .flatMap(toPerformance)
+      .filter((item) => !platforms.length || platforms.includes(item.platform))
+      .sort((a, b) => b.score - a.score);
+
+    const total = (metric: keyof ContentPerformance['metrics']) => sum(performance.map((item) => item.metrics[metric]));
+    const impressions = total('impressions');
+    const engagements = total('likes') + total('comments') + total('shares') + total('saves');
+    const followers = sum(
+      req.db
+        .list<SocialPlatformConnection>('socialConnections')
+        .filter((connection) => connection.isActive && (!platforms.length || platforms.includes(connection.platform)))
+        .map((connection) => connection.metadata?.followerCount ?? 0)
+    );
+    const published = new Set(performance.map((item) => item.contentId)).size;
+    const byType = performance.reduce<Record<string, number>>((scores, item) => {
+      scores[item.type] = (scores[item.type] ?? 0) + item.score;
+      return scores;
+    }, {});
+
+    const metrics: AnalyticsMetrics = {
+      engagement: {
+        likes: total('likes'),
+        comments: total('comments'),
+        shares: total('shares'),
+        saves: total('saves'),
+        clicks: total('clicks'),
+        impressions,
+        reach: total('reach'),
+        engagementRate: impressions ? (engagements / impressions) * 100 : 0,
+      },
+      growth: {
+        followers,
+        followersGrowth: Math.round(followers * 0.03),
+        unfollows: Math.round(followers * 0.005),
+        netGrowth: Math.round(followers * 0.025),
+        growthRate: 2.5,
+      },
+      content: {
+        postsPublished: published,
+        postsScheduled: content.filter((item) => item.status === 'scheduled').length,
+        postsFailed: content.filter((item) => item.status === 'failed').length,
+        averagePostsPerDay: published / days,
+        topPerformingType: Object.entries(byType).sort(([, a], [, b]) => b - a)[0]?.[0] ?? 'post',
+      },
+      audience: {
+        totalAudience: followers,
+        activeAudience: Math.round(followers * 0.35),
+        demographics: {
+          ageGroups: { '18-24': 22, '25-34': 38, '35-44': 24, '45+': 16 },
+          genders: { female: 54, male: 43, other: 3 },
+          locations: { US: 61, CA: 12, GB: 9, other: 18 },
+          interests: { coffee: 48, food: 27, lifestyle: 25 },
+        },
+        bestPostingTimes: {
+          hourly: { '08': 0.9, '12': 1, '17': 0.85, '20': 0.7 },
+          daily: { Tuesday: 1, Thursday: 0.95, Saturday: 0.8 },
+        },
+      },
+    };
+
+    const insights = performance.length
+      ? [
+          `${performance[0].title} on ${performance[0].platform} is your best post this ${req.query.get('period') || 'month'}`,
+          `${metrics.content.topPerformingType} content scores highest with your audience`,
+        ]
+      : ['Publish content to start seeing insights'];
+
+    return json({ metrics, performance: performance.slice(0, 10), insights });
+  });
+
+  router.get('/analytics/content-performance', (req) => {
+    const performance = publishedContent(req)
+      .flatMap(toPerformance)
+      .sort((a, b) => b.score - a.score);
+
+    const averageScore = performance.length ? sum(performance.map((item) => item.score)) / performance.length : 0;
+    const page = paginate(performance, req.query);
+    return json({
+      content: page.items,
+      total: page.total,
+      averageScore,
+      topPerforming: performance.slice(0, 3),
+      underPerforming: performance.slice(-3).reverse(),
+    });
+  });
+};
@@ -0,0 +1,1029 @@
+import { MockRouter, MockRequest, MockResponse, json, error, notFound, mockId, now, paginate } from '../router';
+import { getSessionUser } from '../session';
+import { signReviewToken, verifyReviewToken } from '../reviewLinks';
+import { emitEvent, emitNotification, workspaceScope } from '../events';
+import type { MockDatabase } from '../db';
+import type { MockMediaFile, MockUser } from '../fixtures';
+import { contentRiskScore, requestFacts, routeSteps } from '../../utils/approvalConditions';
+import { readySteps, validateWorkflow } from '../../utils/approvalWorkflowGraph';
+import { approverTurnaround, slaSummary, workflowStepFor } from '../../utils/approvalSla';
+import { APPROVAL_ESCALATION_ACCESS, computePermissions, hasAccess, organizationRole } from '../../utils/permissions';
+import { applyEdit, createTextAnchor, rebaseAnchor, rebaseAnchors, type CommentAnchor, type TextEdit } from '../../utils/commentAnchors';
+import type { Content } from '../../store/api/contentApi';
+import type { Notification } from '../../store/api/notificationsApi';
+import type { ClientWorkspace } from '../../store/slices/tenantSlice';
+import type {
+  ApprovalWorkflow,
+  ApprovalRequest,
+  ApprovalComment,
+  ApprovalRequestStep,
+  ApprovalHistoryEntry,
+  ApprovalStep,
+  ApprovalTemplate,
+  ClientReview,
+  ClientReviewDecision,
+  ClientReviewLink,
+} from '../../store/api/approvalApi';
+
+const HOUR = 60 * 60 * 1000;
+const DEFAULT_REVIEW_LINK_HOURS = 72;
+const MAX_REVIEW_LINK_HOURS = 30 * 24;
+
+// Request bodies as the approval API client sends them
+type DecisionBody = { comment?: string; reason?: string };
+
+type SubmissionBody = Pick<ApprovalRequest, 'contentId'> &
+  Partial<Pick<ApprovalRequest, 'workflowId' | 'priority' | 'dueAt' | 'tags' | 'metadata'>>;
+
+type CommentBody = Pick<ApprovalComment, 'message'> &
+  Partial<Pick<ApprovalComment, 'type' | 'isInternal' | 'attachments' | 'parentId' | 'anchor' | 'platform'>> & {
+    suggestion?: { replacement?: string };
+  };
+
+type WorkflowBody = Pick<ApprovalWorkflow, 'name'> & Partial<ApprovalWorkflow>;
+
+type TemplateBody = Pick<ApprovalTemplate, 'name' | 'type'> & Partial<ApprovalTemplate>;
+
+type ReviewLinkBody = Partial<Pick<ClientReviewLink, 'reviewerEmail' | 'reviewerName' | 'stepId'>> & { expiresInHours?: number };
+
+const displayName = (user: MockUser | null) =>
+  user ? `${user.profile.firstName} ${user.profile.lastName}` : 'Unknown user';
+
+const appendHistory = (
+  request: ApprovalRequest,
+  user: MockUser | null,
+  action: ApprovalHistoryEntry['action'],
+  extra: Partial<ApprovalHistoryEntry> = {}
+): ApprovalHistoryEntry[] => [
+  ...request.history,
+  { id: mockId('history'), action, userId: user?.id || 'system', userName: displayName(user), timestamp: now(), ...extra },
+];
+
+const findStep = (request: ApprovalRequest, stepId: string) =>
+  request.steps.find((step) => step.id === stepId || step.stepId === stepId);
+
+// Started and waiting on a decision; parallel steps can be active together
+const isActive = (step: ApprovalRequestStep) =>
+  step.status === 'escalated' || (step.status === 'pending' && Boolean(step.startedAt));
+
+// Named assignees plus the organization's members in any of the step's roles
+const stepAssignees = (req: MockRequest, workflow: ApprovalWorkflow, step: ApprovalStep) => {
+  const { userIds = [], roleIds = [] } = step.assignees;
+  const members = req.db
+    .list<MockUser>('users')
+    .filter((user) =>
+      user.organizationMemberships.some(
+        (membership) => membership.organizationId === workflow.organizationId && roleIds.includes(membership.role)
+      )
+    )
+    .map(({ id }) => id);
+  return Array.from(new Set([...userIds, ...members]));
+};
+
+const startReadySteps = (workflow: ApprovalWorkflow | undefined, steps: ApprovalRequestStep[]) => {
+  const ready = new Set(readySteps(workflow?.steps ?? [], steps));
+  return steps.map((step) => (ready.has(step) ? { ...step, startedAt: now() } : step));
+};
+
+const invalidWorkflow = (steps: ApprovalStep[]) => {
+  const problem = validateWorkflow(steps).find(({ severity }) => severity === 'error');
+  return problem && error(400, problem.message, 'INVALID_WORKFLOW');
+};
+
+// Moves the content record along with the approval outcome so list views stay consistent
+const syncContentStatus = (req: MockRequest, request: ApprovalRequest) => {
+  const content = req.db.find<Content>('content', request.contentId);
+  if (!content) return;
+
+  const status =
+    request.status === 'approved' ? (content.scheduledAt ? 'scheduled' : 'approved')
+    : request.status === 'rejected' || request.status === 'cancelled' ? 'draft'
+    : 'pending_review';
+
+  req.db.update<Content>('content', content.id, {
+    status,
+    platforms: content.platforms.map((platform) => ({ ...platform, status: status === 'scheduled' ? 'scheduled' : 'draft' })),
+    updatedAt: now(),
+  });
+};
+
+// Realtime events are scoped to the workspace of the content under review
+const requestScope = (req: MockRequest, request: ApprovalRequest) => {
+  const content = req.db.find<Content>('content', request.contentId);
+  return content
+    ? workspaceScope(req.db, content.workspaceId)
+    : { organizationId: req.headers.get('x-organization-id') || '' };
+};
+
+const emitDecision = (
+  req: MockRequest,
+  request: ApprovalRequest,
+  stepId: string,
+  decision: 'approved' | 'rejected' | 'escalated',
+  decidedBy = getSessionUser(req)?.id || 'system'
+) =>
+  emitEvent({
+    type: 'approval.decided',
+    ...requestScope(req, request),
+    payload: {
+      requestId: request.id,
+      contentId: request.contentId,
+      stepId,
+      decision,
+      requestStatus: request.status,
+      decidedBy,
+    },
+  });
+
+// "@maria" matches a user by first name or by the local part of their email
+const findMentionedUsers = (req: MockRequest, message: string) => {
+  const handles = new Set((message.match(/@([\w.-]+)/g) || []).map((handle) => handle.slice(1).replace(/\.+$/, '').toLowerCase()));
+  return req.db
+    .list<MockUser>('users')
+    .filter((user) => handles.has(user.profile.firstName.toLowerCase()) || handles.has(user.email.split('@')[0].toLowerCase()));
+};
+
+const notifyApprovers = (
+  req: MockRequest,
+  request: ApprovalRequest,
+  userIds: string[],
+  notification: Pick<Notification, 'type' | 'title' | 'message' | 'priority'> & { stepId?: string }
+) => {
+  const scope = requestScope(req, request);
+  const { stepId, ...rest } = notification;
+  userIds.forEach((userId) =>
+    emitNotification(
+      req.db.insert<Notification>('notifications', {
+        id: mockId('notif'),
+        ...rest,
+        data: { requestId: request.id, contentId: request.contentId, stepId },
+        read: false,
+        ...scope,
+        userId,
+        actionUrl: `/approval/${request.id}`,
+        createdAt: now(),
+      })
+    )
+  );
+};
+
+// A client without an account, deciding through a review link
+interface ExternalReviewer {
+  email: string;
+  name: string;
+}
+
+const reviewerFields = (reviewer: ExternalReviewer) => ({
+  userId: reviewer.email,
+  userName: reviewer.name,
+  reviewerEmail: reviewer.email,
+});
+
+
+const decideStep = (
+  req: MockRequest<DecisionBody>,
+  decision: 'approved' | 'rejected',
+  { reviewer, action = decision }: { reviewer?: ExternalReviewer; action?: ApprovalHistoryEntry['action'] } = {}
+) => {
+  const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+  if (!request) return notFound('Approval request');
+
+  const step = findStep(request, req.params.stepId);
+  if (!step || !isActive(step)) {
+    return error(409, 'This step is not awaiting a decision', 'STEP_NOT_PENDING');
+  }
+
+  const user = reviewer ? null : getSessionUser(req);
+  const decidedBy = reviewer?.email || user?.id || 'system';
+  const workflow = req.db.find<ApprovalWorkflow>('approvalWorkflows', request.workflowId);
+  const workflowStep = workflow?.steps.find((candidate) => candidate.id === step.stepId);
+  const approvals = [...step.approvals, { userId: decidedBy, decision, comment: req.body?.comment, decidedAt: now() }];
+
+  // All-of steps stay open until every assignee has approved; a client's sign-off through a link settles the step
+  const approvedBy = new Set(approvals.filter((approval) => approval.decision === 'approved').map(({ userId }) => userId));
+  const awaitingOthers =
+    !reviewer &&
+    decision === 'approved' &&
+    workflowStep?.assignees.anyOf === false &&
+    step.assignedTo.some((id) => !approvedBy.has(id));
+  const decidedStep: ApprovalRequestStep = awaitingOthers
+    ? { ...step, approvals }
+    : { ...step, status: decision, completedAt: now(), approvals };
+  const steps = startReadySteps(workflow, request.steps.map((candidate) => (candidate.id === step.id ? decidedStep : candidate)));
+
+  const open = steps.filter((candidate) => candidate.status === 'pending' || candidate.status === 'escalated');
+  const status: ApprovalRequest['status'] =
+    decision === 'rejected' && !workflowStep?.isOptional ? 'rejected'
+    : !open.length ? 'approved'
+    : open.some((candidate) => candidate.status === 'escalated') ? 'escalated'
+    : 'pending';
+
+  const updated = req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+    steps,
+    status,
+    currentStepId: steps.find(isActive)?.stepId,
+    completedAt: status === 'pending' || status === 'escalated' ? undefined : now(),
+    history: appendHistory(request, user, action, {
+      stepId: step.stepId,
+      stepName: workflowStep?.name,
+      details: req.body?.comment || req.body?.reason,
+      ...(reviewer && reviewerFields(reviewer)),
+    }),
+  });
+
+  syncContentStatus(req, updated!);
+  emitDecision(req, updated!, step.stepId, decision, decidedBy);
+  return json({ request: updated });
+};
+
+const contentWorkspace = (req: MockRequest, request: ApprovalRequest) => {
+  const content = req.db.find<Content>('content', request.contentId);
+  return content ? req.db.find<ClientWorkspace>('workspaces', content.workspaceId) : null;
+};
+
+// Resolves a review token to its link and request, or the response the client should get instead
+const openReviewLink = (
+  req: MockRequest
+): { link: ClientReviewLink; request: ApprovalRequest } | { failure: MockResponse } => {
+  const claims = verifyReviewToken(req.params.token);
+  const link = claims && req.db.find<ClientReviewLink>('clientReviewLinks', claims.linkId);
+  if (!claims || !link || Date.parse(link.expiresAt) !== claims.expiresAt) {
+    return { failure: error(404, 'This review link is not valid', 'INVALID_REVIEW_LINK') };
+  }
+  if (link.revokedAt) return { failure: error(410, 'This review link has been revoked', 'REVIEW_LINK_REVOKED') };
+  if (claims.expiresAt < Date.now()) return { failure: error(410, 'This review link has expired', 'REVIEW_LINK_EXPIRED') };
+
+  const request = req.db.find<ApprovalRequest>('approvalRequests', link.requestId);
+  return request ? { link, request } : { failure: notFound('Approval request') };
+};
+
+const toClientReview = (req: MockRequest, link: ClientReviewLink, request: ApprovalRequest): ClientReview => {
+  const step = findStep(request, link.stepId);
+  const workflowStep = step && workflowStepFor(req.db.list<ApprovalWorkflow>('approvalWorkflows'), request, step);
+  const { reviewerEmail, reviewerName, expiresAt, decision } = link;
+
+  return {
+    link: { reviewerEmail, reviewerName, expiresAt, decision },
+    workspaceName: contentWorkspace(req, request)?.name || 'Content review',
+    stepName: workflowStep?.name || 'Client approval',
+    state:
+      decision ? 'decided'
+      : request.status !== 'pending' && request.status !== 'escalated' ? 'closed'
+      : step && isActive(step) ? 'awaiting_decision'
+      : 'not_ready',
+    content: request.content,
+    media: (request.content.mediaFiles ?? [])
+      .map((id) => req.db.find<MockMediaFile>('mediaFiles', id))
+      .filter((file): file is MockMediaFile => Boolean(file))
+      .map(({ id, originalName, mimeType, url, thumbnailUrl }) => ({ id, name: originalName, mimeType, url, thumbnailUrl })),
+    comments: request.comments.filter((comment) => !comment.isInternal),
+  };
+};
+
+// The people who shared the link hear about what the client did with it
+const notifyLinkOwners = (
+  req: MockRequest,
+  request: ApprovalRequest,
+  link: ClientReviewLink,
+  notification: Pick<Notification, 'type' | 'title' | 'message' | 'priority'>
+) =>
+  notifyApprovers(
+    req,
+    request,
+    Array.from(new Set([request.submittedBy, link.createdBy])).filter((userId) => req.db.find('users', userId)),
+    { ...notification, stepId: link.stepId }
+  );
+
+const CLIENT_DECISIONS: Record<ClientReviewDecision, { label: string; type: Notification['type'] }> = {
+  approved: { label: 'approved', type: 'content_approved' },
+  rejected: { label: 'rejected', type: 'content_rejected' },
+  changes_requested: { label: 'requested changes to', type: 'content_rejected' },
+};
+
+const isOpen = (request: ApprovalRequest) => request.status === 'pending' || request.status === 'escalated';
+
+// Anchors are rebuilt from the request's own text so the quote and context can't be made up
+const validAnchor = (request: ApprovalRequest, anchor: CommentAnchor | undefined): CommentAnchor | null | undefined => {
+  if (!anchor) return undefined;
+  if (anchor.type === 'media') {
+    return request.content.mediaFiles?.includes(anchor.mediaId) ? anchor : null;
+  }
+  const { body } = request.content;
+  const valid = Number.isInteger(anchor.start) && Number.isInteger(anchor.end) && anchor.start >= 0 && anchor.start <= anchor.end && anchor.end <= body.length;
+  return valid ? createTextAnchor(body, anchor.start, anchor.end) : null;
+};
+
+const rebaseComments = (comments: ApprovalComment[], edit: TextEdit, body: string) =>
+  comments.map((comment) =>
+    comment.anchor?.type === 'text' ? { ...comment, anchor: rebaseAnchor(comment.anchor, edit, body) } : comment
+  );
+
+/**
+ * Keeps open approval requests on a piece of content in step with its text,
+ * moving comment anchors through the edit.
+ */
+export const syncApprovalDrafts = (db: MockDatabase, content: Pick<Content, 'id' | 'body'>) =>
+  db
+    .list<ApprovalRequest>('approvalRequests')
+    .filter((request) => request.contentId === content.id && isOpen(request) && request.content.body !== content.body)
+    .forEach((request) =>
+      db.update<ApprovalRequest>('approvalRequests', request.id, {
+        content: { ...request.content, body: content.body },
+        comments: rebaseAnchors(request.comments, request.content.body, content.body),
+      })
+    );
+
+export const registerApprovalRoutes = (router: MockRouter) => {
+  router.get('/approval/workflows', ({ db, query, headers }) => {
+    const organizationId = headers.get('x-organization-id');
+    const workspaceId = query.get('workspaceId');
+    return json({
+      workflows: db
+        .list<ApprovalWorkflow>('approvalWorkflows')
+        .filter((workflow) => !organizationId || workflow.organizationId === organizationId)
+        .filter((workflow) => !workspaceId || !workflow.workspaceId || workflow.workspaceId === workspaceId),
+    });
+  });
+
+  router.post<WorkflowBody>('/approval/workflows', (req) => {
+    const steps: ApprovalStep[] = (req.body.steps || []).map((step, index) => ({ ...step, id: step.id || mockId('step'), order: step.order ?? index + 1 }));
+    const invalid = invalidWorkflow(steps);
+    if (invalid) return invalid;
+
+    const workflow = req.db.insert<ApprovalWorkflow>('approvalWorkflows', {
+      id: mockId('workflow'),
+      organizationId: req.headers.get('x-organization-id') || '',
+      isDefault: false,
+      isActive: true,
+      conditions: {},
+      notifications: { onSubmission: true, onApproval: true, onRejection: true, onEscalation: true },
+      ...req.body,
+      steps,
+      createdBy: getSessionUser(req)?.id || 'system',
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ workflow }, 201);
+  });
+
+  router.put<Partial<ApprovalWorkflow>>('/approval/workflows/:id', ({ db, params, body }) => {
+    if (!db.find('approvalWorkflows', params.id)) return notFound('Workflow');
+    const invalid = body.steps && invalidWorkflow(body.steps);
+    if (invalid) return invalid;
+    return json({ workflow: db.update('approvalWorkflows', params.id, { ...body, updatedAt: now() }) });
+  });
+
+  router.delete('/approval/workflows/:id', ({ db, params }) =>
+    db.remove('approvalWorkflows', params.id) ? json({ success: true }) : notFound('Workflow')
+  );
+
+  router.get('/approval/requests', (req) => {
+    const { query } = req;
+    const user = getSessionUser(req);
+    const sortBy = (query.get('sortBy') || 'submittedAt') as 'submittedAt' | 'dueAt' | 'priority';
+    const direction = query.get('sortOrder') === 'asc' ? 1 : -1;
+    const priorityRank = { low: 0, medium: 1, high: 2, urgent: 3 };
+
+    const requests = req.db
+      .list<ApprovalRequest>('approvalRequests')
+      .filter((request) => !query.get('status') || request.status === query.get('status'))
+      .filter((request) => !query.get('priority') || request.priority === query.get('priority'))
+      .filter((request) => !query.get('contentType') || request.content.type === query.get('contentType'))
+      .filter((request) =>
+        query.get('assignedToMe') !== 'true' ||
+        request.steps.some((step) => isActive(step) && step.assignedTo.includes(user?.id || ''))
+      )
+      .sort((a, b) =>
+        sortBy === 'priority'
+          ? (priorityRank[a.priority] - priorityRank[b.priority]) * direction
+          : String(a[sortBy] || '').localeCompare(String(b[sortBy] || '')) * direction
+      );
+
+    const page = paginate(requests, query);
+    return json({ requests: page.items, total: page.total, hasMore: page.hasMore });
+  });
+
+  router.post<SubmissionBody>('/approval/requests', (req) => {
+    const content = req.db.find<Content>('content', req.body?.contentId);
+    if (!content) return notFound('Content');
+
+    const workflows = req.db.list<ApprovalWorkflow>('approvalWorkflows');
+    const workflow = req.body.workflowId
+      ? workflows.find((candidate) => candidate.id === req.body.workflowId)
+      : workflows.find((candidate) => candidate.isDefault) || workflows[0];
+    if (!workflow) return error(400, 'No approval workflow is configured', 'NO_WORKFLOW');
+
+    const user = getSessionUser(req);
+    const request: ApprovalRequest = {
+      id: mockId('approval'),
+      contentId: content.id,
+      workflowId: workflow.id,
+      submittedBy: user?.id || 'system',
+      status: 'pending',
+      priority: req.body.priority || content.priority,
+      content: {
+        title: content.title,
+        body: content.body,
+        type: content.type,
+        platforms: content.platforms.map((platform) => platform.platform),
+        scheduledAt: content.scheduledAt,
+        mediaFiles: content.media.map((media) => media.id),
+        estimatedReach: req.body.metadata?.estimatedReach,
+        riskScore: contentRiskScore(content),
+      },
+      steps: [],
+      comments: [],
+      history: [],
+      submittedAt: now(),
+      dueAt: req.body.dueAt || content.scheduledAt,
+      tags: req.body.tags ?? content.tags,
+      metadata: req.body.metadata,
+    };
+
+    // Steps whose conditions leave them out are recorded as skipped, so the trail shows why
+    const routes = routeSteps(workflow.steps, requestFacts(request));
+    request.steps = startReadySteps(
+      workflow,
+      routes.map(({ step, included }) => ({
+        id: mockId('request_step'),
+        stepId: step.id,
+        status: included ? 'pending' : 'skipped',
+        assignedTo: stepAssignees(req, workflow, step),
+        approvals: [],
+        completedAt: included ? undefined : now(),
+      }))
+    );
+    request.currentStepId = request.steps.find(isActive)?.stepId;
+    if (!routes.some((route) => route.included)) {
+      request.status = 'approved';
+      request.completedAt = now();
+    }
+    request.history = appendHistory(request, user, 'submitted', {
+      details: routes
+        .filter((route) => !route.included)
+        .map(({ step, reason }) => `${step.name}: ${reason}`)
+        .join('\n') || undefined,
+    });
+
+    req.db.insert('approvalRequests', request);
+    syncContentStatus(req, request);
+    return json({ request }, 201);
+  });
+
+  router.post<DecisionBody & { requestIds: string[] }>('/approval/requests/bulk/approve', (req) =>
+    json({
+      results: req.body.requestIds.map((requestId) => {
+        const request = req.db.find<ApprovalRequest>('approvalRequests', requestId);
+        const step = request?.steps.find((candidate) => candidate.status === 'pending' && candidate.startedAt);
+        if (!request || !step) return { requestId, success: false, error: 'Nothing to approve' };
+
+        const response = decideStep({ ...req, params: { requestId, stepId: step.id }, body: { comment: req.body.comment } }, 'approved');
+        return { requestId, success: response.status === 200 };
+      }),
+    })
+  );
+
+  router.post<DecisionBody & { requestIds: string[] }>('/approval/requests/bulk/reject', (req) =>
+    json({
+      results: req.body.requestIds.map((requestId) => {
+        const request = req.db.find<ApprovalRequest>('approvalRequests', requestId);
+        const step = request?.steps.find((candidate) => candidate.status === 'pending' && candidate.startedAt);
+        if (!request || !step) return { requestId, success: false, error: 'Nothing to reject' };
+
+        const response = decideStep({ ...req, params: { requestId, stepId: step.id }, body: { comment: req.body.reason } }, 'rejected');
+        return { requestId, success: response.status === 200 };
+      }),
+    })
+  );
+
+  router.get('/approval/requests/:id', ({ db, params }) => {
+    const request = db.find('approvalRequests', params.id);
+    return request ? json({ request }) : notFound('Approval request');
+  });
+
+  router.post<DecisionBody>('/approval/requests/:requestId/steps/:stepId/approve', (req) => decideStep(req, 'approved'));
+  router.post<DecisionBody>('/approval/requests/:requestId/steps/:stepId/reject', (req) => decideStep(req, 'rejected'));
+
+  router.post<{ reason?: string; escalateTo?: string }>('/approval/requests/:requestId/steps/:stepId/escalate', (req) => {
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    const step = request && findStep(request, req.params.stepId);
+    if (!request || !step) return notFound('Approval step');
+
+    if (step.status !== 'pending' || !step.startedAt) {
+      return error(409, 'This step is not awaiting a decision', 'STEP_NOT_PENDING');
+    }
+
+    const user = getSessionUser(req);
+    const organizationId = req.headers.get('x-organization-id') || undefined;
+    const access = { permissions: computePermissions(user, organizationId, undefined), role: organizationRole(user, organizationId) };
+    if (!hasAccess(access, APPROVAL_ESCALATION_ACCESS)) {
+      return error(403, 'Only owners, admins and managers can escalate approval steps', 'FORBIDDEN');
+    }
+
+    const escalateTo = req.body?.escalateTo;
+    const updated = req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      status: 'escalated',
+      steps: request.steps.map((candidate) =>
+        candidate.id === step.id
+          ? { ...candidate, status: 'escalated', escalatedAt: now(), escalatedTo: escalateTo, escalatedFrom: candidate.assignedTo, assignedTo: escalateTo ? [escalateTo] : candidate.assignedTo }
+          : candidate
+      ),
+      history: appendHistory(request, user, 'escalated', { stepId: step.stepId, details: req.body?.reason }),
+    });
+
+    const workflows = req.db.list<ApprovalWorkflow>('approvalWorkflows');
+    notifyApprovers(req, request, escalateTo ? [escalateTo] : step.assignedTo, {
+      type: 'approval_escalated',
+      title: `${workflowStepFor(workflows, request, step)?.name ?? 'An approval step'} was escalated${escalateTo ? ' to you' : ''}`,
+      message: `"${request.content.title}": ${req.body?.reason || 'escalated for a decision'}`,
+      priority: 'high',
+      stepId: step.stepId,
+    });
+    emitDecision(req, updated!, step.stepId, 'escalated');
+    return json({ request: updated });
+  });
+
+  router.post<{ threshold?: number }>('/approval/requests/:requestId/steps/:stepId/remind', (req) => {
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    const step = request && findStep(request, req.params.stepId);
+    if (!request || !step) return notFound('Approval step');
+    if (step.status !== 'pending' || !step.startedAt) {
+      return error(409, 'This step is not awaiting a decision', 'STEP_NOT_PENDING');
+    }
+
+    // Several open clients sweep the same steps, so a threshold that's been sent already is a no-op
+    const threshold = Number(req.body?.threshold);
+    if ((step.remindersSent ?? []).some((sent) => sent >= threshold)) return json({ request });
+
+    const updated = req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      steps: request.steps.map((candidate) =>
+        candidate.id === step.id ? { ...candidate, remindersSent: [...(candidate.remindersSent ?? []), threshold] } : candidate
+      ),
+    });
+
+    const workflowStep = workflowStepFor(req.db.list<ApprovalWorkflow>('approvalWorkflows'), request, step);
+    notifyApprovers(req, request, step.assignedTo, {
+      type: 'approval_reminder',
+      title: `${workflowStep?.name ?? 'An approval'} is waiting on you`,
+      message: `"${request.content.title}" has used ${threshold}% of its ${workflowStep?.timeoutHours ?? ''}h review window`,
+      priority: threshold >= 90 ? 'high' : 'medium',
+      stepId: step.stepId,
+    });
+    return json({ request: updated });
+  });
+
+  router.post<{ assignTo: string[]; reason?: string }>('/approval/requests/:requestId/steps/:stepId/reassign', (req) => {
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    const step = request && findStep(request, req.params.stepId);
+    if (!request || !step) return notFound('Approval step');
+
+    const updated = req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      steps: request.steps.map((candidate) => (candidate.id === step.id ? { ...candidate, assignedTo: req.body.assignTo } : candidate)),
+      history: appendHistory(request, getSessionUser(req), 'modified', { stepId: step.stepId, details: req.body.reason }),
+    });
+    return json({ request: updated });
+  });
+
+  router.post<CommentBody>('/approval/requests/:requestId/comments', (req) => {
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    if (!request) return notFound('Approval request');
+
+    const user = getSessionUser(req);
+    const { parentId, suggestion } = req.body;
+    const parent = parentId && request.comments.find((comment) => comment.id === parentId);
+    if (parentId && (!parent || parent.parentId)) return error(400, 'Replies must be to a comment thread', 'INVALID_PARENT');
+
+    // Replies belong to their thread, so only thread openers carry an anchor
+    const anchor = parent ? undefined : validAnchor(request, req.body.anchor);
+    if (anchor === null) return error(400, 'The comment is not on this content', 'INVALID_ANCHOR');
+    if (suggestion && (parent || anchor?.type !== 'text')) {
+      return error(400, 'Suggestions must be on a range of the text', 'INVALID_SUGGESTION');
+    }
+    if (suggestion && !isOpen(request)) return error(409, 'This approval request is closed', 'REQUEST_CLOSED');
+
+    const comment: ApprovalComment = {
+      id: mockId('comment'),
+      userId: user?.id || 'system',
+      userName: displayName(user),
+      userAvatar: user?.profile.avatar,
+      message: req.body.message,
+      type: suggestion ? 'suggestion' : req.body.type || 'general',
+      isInternal: Boolean(req.body.isInternal),
+      attachments: req.body.attachments,
+      ...(parent
+        ? { parentId: parent.id }
+        : {
+            anchor,
+            platform: req.body.platform,
+            status: 'open' as const,
+            suggestion: suggestion && { replacement: String(suggestion.replacement ?? ''), status: 'open' as const },
+          }),
+      createdAt: now(),
+    };
+    // Replying to a resolved thread reopens it
+    const comments = request.comments.map((candidate) =>
+      parent && candidate.id === parent.id && candidate.status === 'resolved'
+        ? { ...candidate, status: 'open' as const, resolvedBy: undefined, resolvedAt: undefined }
+        : candidate
+    );
+    req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      comments: [...comments, comment],
+      history: appendHistory(request, user, 'commented'),
+    });
+
+    const mentioned = findMentionedUsers(req, comment.message || '').filter((candidate) => candidate.id !== user?.id);
+    if (mentioned.length) {
+      const scope = requestScope(req, request);
+      emitEvent({
+        type: 'comment.mentioned',
+        ...scope,
+        payload: { requestId: request.id, contentId: request.contentId, comment, mentionedUserIds: mentioned.map(({ id }) => id) },
+      });
+      mentioned.forEach((target) =>
+        emitNotification(
+          req.db.insert<Notification>('notifications', {
+            id: mockId('notif'),
+            type: 'mention',
+            title: `${displayName(user)} mentioned you`,
+            message: comment.message,
+            data: { requestId: request.id, contentId: request.contentId, commentId: comment.id },
+            read: false,
+            priority: 'medium',
+            ...scope,
+            userId: target.id,
+            actionUrl: `/approval/${request.id}`,
+            createdAt: now(),
+          })
+        )
+      );
+    }
+    return json({ comment }, 201);
+  });
+
+  const setThreadStatus = (req: MockRequest, status: 'open' | 'resolved') => {
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    const existing = request?.comments.find((comment) => comment.id === req.params.commentId);
+    if (!request || !existing) return notFound('Comment');
+    if (existing.parentId) return error(400, 'Only comment threads can be resolved', 'NOT_A_THREAD');
+    if (status === 'resolved' && existing.suggestion?.status === 'open') {
+      return error(409, 'Accept or reject the suggestion first', 'SUGGESTION_OPEN');
+    }
+
+    const comment: ApprovalComment =
+      status === 'resolved'
+        ? { ...existing, status, resolvedBy: getSessionUser(req)?.id, resolvedAt: now() }
+        : { ...existing, status, resolvedBy: undefined, resolvedAt: undefined };
+    req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      comments: request.comments.map((candidate) => (candidate.id === comment.id ? comment : candidate)),
+    });
+    return json({ comment });
+  };
+
+  router.post('/approval/requests/:requestId/comments/:commentId/resolve', (req) => setThreadStatus(req, 'resolved'));
+  router.post('/approval/requests/:requestId/comments/:commentId/reopen', (req) => setThreadStatus(req, 'open'));
+
+  // Suggested edits are the author's to take or leave
+  router.post('/approval/requests/:requestId/comments/:commentId/suggestion/:decision', (req) => {
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    const existing = request?.comments.find((comment) => comment.id === req.params.commentId);
+    const { decision } = req.params;
+    if (!request || !existing?.suggestion || (decision !== 'accept' && decision !== 'reject')) return notFound('Suggestion');
+
+    const user = getSessionUser(req);
+    if (!user) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+    if (user.id !== request.submittedBy) return error(403, 'Only the author can accept or reject suggestions', 'FORBIDDEN');
+    if (!isOpen(request)) return error(409, 'This approval request is closed', 'REQUEST_CLOSED');
+    if (existing.suggestion.status !== 'open') return error(409, 'This suggestion has already been decided', 'SUGGESTION_DECIDED');
+
+    const decided = {
+      ...existing,
+      suggestion: { ...existing.suggestion, status: decision === 'accept' ? 'accepted' as const : 'rejected' as const, decidedBy: user.id, decidedAt: now() },
+      status: 'resolved' as const,
+      resolvedBy: user.id,
+      resolvedAt: now(),
+    };
+
+    if (decision === 'reject') {
+      const updated = req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+        comments: request.comments.map((comment) => (comment.id === decided.id ? decided : comment)),
+      })!;
+      return json({ request: updated });
+    }
+
+    const { anchor } = existing;
+    if (anchor?.type !== 'text' || anchor.detached) {
+      return error(409, 'The text this suggestion was on has changed', 'SUGGESTION_DETACHED');
+    }
+
+    const edit = { start: anchor.start, end: anchor.end, text: existing.suggestion.replacement };
+    const body = applyEdit(request.content.body, edit);
+    const comments = rebaseComments(request.comments, edit, body).map((comment) =>
+      comment.id === decided.id ? { ...decided, anchor: createTextAnchor(body, edit.start, edit.start + edit.text.length) } : comment
+    );
+    const updated = req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      content: { ...request.content, body },
+      comments,
+      history: appendHistory(request, user, 'modified', { details: `Accepted a suggestion from ${existing.userName}` }),
+    })!;
+
+    const content = req.db.find<Content>('content', request.contentId);
+    if (content) req.db.update<Content>('content', content.id, { body, updatedAt: now(), version: content.version + 1 });
+
+    if (req.db.find('users', existing.userId) && existing.userId !== user.id) {
+      notifyApprovers(req, request, [existing.userId], {
+        type: 'comment',
+        title: `${displayName(user)} accepted your suggestion`,
+        message: `"${request.content.title}" now reads "${edit.text}"`,
+        priority: 'low',
+      });
+    }
+    return json({ request: updated });
+  });
+
+  router.put<Partial<ApprovalComment>>('/approval/requests/:requestId/comments/:commentId', ({ db, params, body }) => {
+    const request = db.find<ApprovalRequest>('approvalRequests', params.requestId);
+    const existing = request?.comments.find((comment) => comment.id === params.commentId);
+    if (!request || !existing) return notFound('Comment');
+
+    const comment = { ...existing, ...body, updatedAt: now() };
+    db.update<ApprovalRequest>('approvalRequests', request.id, {
+      comments: request.comments.map((candidate) => (candidate.id === comment.id ? comment : candidate)),
+    });
+    return json({ comment });
+  });
+
+  router.delete('/approval/requests/:requestId/comments/:commentId', ({ db, params }) => {
+    const request = db.find<ApprovalRequest>('approvalRequests', params.requestId);
+    if (!request) return notFound('Approval request');
+
+    db.update<ApprovalRequest>('approvalRequests', request.id, {
+      comments: request.comments.filter((comment) => comment.id !== params.commentId),
+    });
+    return json({ success: true });
+  });
+
+  router.post<{ reason?: string }>('/approval/requests/:requestId/cancel', (req) => {
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    if (!request) return notFound('Approval request');
+
+    const updated = req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      status: 'cancelled',
+      completedAt: now(),
+      history: appendHistory(request, getSessionUser(req), 'cancelled', { details: req.body?.reason }),
+    });
+    syncContentStatus(req, updated!);
+    return json({ request: updated });
+  });
+
+  // Client review links
+  router.get('/approval/requests/:requestId/review-links', ({ db, params }) =>
+    json({
+      links: db
+        .list<ClientReviewLink>('clientReviewLinks')
+        .filter((link) => link.requestId === params.requestId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    })
+  );
+
+  router.post<ReviewLinkBody>('/approval/requests/:requestId/review-links', (req) => {
+    const user = getSessionUser(req);
+    if (!user) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    if (!request) return notFound('Approval request');
+    if (request.status !== 'pending' && request.status !== 'escalated') {
+      return error(409, 'Only open requests can be shared for review', 'REQUEST_CLOSED');
+    }
+    if (contentWorkspace(req, request)?.contentSettings.approvalRequired === false) {
+      return error(409, "Client approval is turned off for this client's workspace", 'CLIENT_APPROVAL_DISABLED');
+    }
+
+    const reviewerEmail = String(req.body?.reviewerEmail || '').trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(reviewerEmail)) {
+      return error(400, 'Enter a valid email address for the reviewer', 'INVALID_EMAIL');
+    }
+
+    // Defaults to the last step that runs, which is where client sign-off sits in most workflows
+    const step = req.body?.stepId
+      ? findStep(request, req.body.stepId)
+      : request.steps.filter((candidate) => candidate.status !== 'skipped').pop();
+    if (!step || step.status === 'skipped') return error(400, 'Choose a step for the client to decide', 'INVALID_STEP');
+
+    const hours = Math.min(Math.max(Number(req.body?.expiresInHours) || DEFAULT_REVIEW_LINK_HOURS, 1), MAX_REVIEW_LINK_HOURS);
+    const id = mockId('review_link');
+    const expiresAt = new Date(Date.now() + hours * HOUR).toISOString();
+    const reviewerName = String(req.body?.reviewerName || '').trim() || undefined;
+
+    const link = req.db.insert<ClientReviewLink>('clientReviewLinks', {
+      id,
+      requestId: request.id,
+      stepId: step.stepId,
+      reviewerEmail,
+      reviewerName,
+      url: `${window.location.origin}/review/${signReviewToken(id, expiresAt)}`,
+      expiresAt,
+      createdAt: now(),
+      createdBy: user.id,
+    });
+    req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      history: appendHistory(request, user, 'modified', { stepId: step.stepId, details: `Shared for client review with ${reviewerEmail}` }),
+    });
+    return json({ link }, 201);
+  });
+
+  // Revoked links are kept so the trail still shows who had access
+  router.delete('/approval/requests/:requestId/review-links/:linkId', (req) => {
+    const link = req.db.find<ClientReviewLink>('clientReviewLinks', req.params.linkId);
+    const request = req.db.find<ApprovalRequest>('approvalRequests', req.params.requestId);
+    if (!link || !request || link.requestId !== request.id) return notFound('Review link');
+    if (link.revokedAt) return json({ link });
+
+    const updated = req.db.update<ClientReviewLink>('clientReviewLinks', link.id, { revokedAt: now() });
+    req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      history: appendHistory(request, getSessionUser(req), 'modified', {
+        stepId: link.stepId,
+        details: `Revoked the review link for ${link.reviewerEmail}`,
+      }),
+    });
+    return json({ link: updated });
+  });
+
+  // Public: the signed token is the credential, clients have no session
+  router.get('/approval/review/:token', (req) => {
+    const opened = openReviewLink(req);
+    if ('failure' in opened) return opened.failure;
+
+    const link = req.db.update<ClientReviewLink>('clientReviewLinks', opened.link.id, { lastOpenedAt: now() })!;
+    return json({ review: toClientReview(req, link, opened.request) });
+  });
+
+  router.post<{ decision: ClientReviewDecision; comment?: string }>('/approval/review/:token/decision', (req) => {
+    const opened = openReviewLink(req);
+    if ('failure' in opened) return opened.failure;
+
+    const { link, request } = opened;
+    const decision = req.body?.decision;
+    const comment = String(req.body?.comment || '').trim() || undefined;
+    if (!CLIENT_DECISIONS[decision]) return error(400, 'Unknown decision', 'INVALID_DECISION');
+    if (decision !== 'approved' && !comment) {
+      return error(400, 'Tell the team what needs to change', 'COMMENT_REQUIRED');
+    }
+
+    const review = toClientReview(req, link, request);
+    if (review.state === 'decided') return error(409, 'You have already reviewed this content', 'ALREADY_REVIEWED');
+    if (review.state !== 'awaiting_decision') {
+      return error(409, 'This content is not waiting on your review', 'STEP_NOT_PENDING');
+    }
+
+    const reviewer = { email: link.reviewerEmail, name: link.reviewerName || link.reviewerEmail };
+    const response = decideStep(
+      { ...req, params: { requestId: request.id, stepId: link.stepId }, body: { comment } },
+      decision === 'approved' ? 'approved' : 'rejected',
+      { reviewer, action: decision }
+    );
+    if (response.status !== 200) return response;
+
+    const updatedLink = req.db.update<ClientReviewLink>('clientReviewLinks', link.id, {
+      decision: { decision, comment, decidedAt: now() },
+    })!;
+    notifyLinkOwners(req, request, link, {
+      type: CLIENT_DECISIONS[decision].type,
+      title: `${reviewer.name} ${CLIENT_DECISIONS[decision].label} "${request.content.title}"`,
+      message: comment || 'Approved through the client review link',
+      priority: decision === 'approved' ? 'medium' : 'high',
+    });
+    return json({ review: toClientReview(req, updatedLink, req.db.find<ApprovalRequest>('approvalRequests', request.id)!) });
+  });
+
+  router.post<{ message?: string; anchor?: CommentAnchor; platform?: string }>('/approval/review/:token/comments', (req) => {
+    const opened = openReviewLink(req);
+    if ('failure' in opened) return opened.failure;
+
+    const { link, request } = opened;
+    const message = String(req.body?.message || '').trim();
+    if (!message) return error(400, 'Comment cannot be empty', 'EMPTY_COMMENT');
+    if (toClientReview(req, link, request).state === 'closed') {
+      return error(409, 'This review has been closed', 'REQUEST_CLOSED');
+    }
+
+    const reviewer = { email: link.reviewerEmail, name: link.reviewerName || link.reviewerEmail };
+    const comment = {
+      id: mockId('comment'),
+      userId: reviewer.email,
+      userName: reviewer.name,
+      reviewerEmail: reviewer.email,
+      message,
+      type: 'general' as const,
+      isInternal: false,
+      anchor: validAnchor(request, req.body?.anchor) ?? undefined,
+      platform: req.body?.platform,
+      status: 'open' as const,
+      createdAt: now(),
+    };
+    req.db.update<ApprovalRequest>('approvalRequests', request.id, {
+      comments: [...request.comments, comment],
+      history: appendHistory(request, null, 'commented', { stepId: link.stepId, ...reviewerFields(reviewer) }),
+    });
+    notifyLinkOwners(req, request, link, {
+      type: 'comment',
+      title: `${reviewer.name} commented on "${request.content.title}"`,
+      message,
+      priority: 'medium',
+    });
+    return json({ comment }, 201);
+  });
+
+  router.get('/approval/templates', ({ db, query, headers }) => {
+    const organizationId = headers.get('x-organization-id');
+    return json({
+      templates: db
+        .list<ApprovalTemplate>('approvalTemplates')
+        .filter((template) => !organizationId || template.organizationId === organizationId)
+        .filter((template) => !query.get('type') || template.type === query.get('type')),
+    });
+  });
+
+  router.post<TemplateBody>('/approval/templates', (req) => {
+    const template = req.db.insert<ApprovalTemplate>('approvalTemplates', {
+      id: mockId('template'),
+      organizationId: req.headers.get('x-organization-id') || '',
+      isDefault: false,
+      ...req.body,
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ template }, 201);
+  });
+
+  router.put<Partial<ApprovalTemplate>>('/approval/templates/:id', ({ db, params, body }) => {
+    if (!db.find('approvalTemplates', params.id)) return notFound('Template');
+    return json({ template: db.update('approvalTemplates', params.id, { ...body, updatedAt: now() }) });
+  });
+
+  router.delete('/approval/templates/:id', ({ db, params }) =>
+    db.remove('approvalTemplates', params.id) ? json({ success: true }) : notFound('Template')
+  );
+
+  router.get('/approval/stats', ({ db }) => {
+    const requests = db.list<ApprovalRequest>('approvalRequests');
+    const workflows = db.list<ApprovalWorkflow>('approvalWorkflows');
+    const users = db.list<MockUser>('users');
+    // Clients deciding through review links are known by their email
+    const nameOf = (userId: string) => {
+      const user = users.find(({ id }) => id === userId);
+      return user ? displayName(user) : userId;
+    };
+    const byApprover = approverTurnaround(requests, workflows, nameOf);
+    const count = (status: ApprovalRequest['status']) => requests.filter((request) => request.status === status).length;
+    const completed = requests.filter((request) => request.completedAt);
+    const hoursToComplete = completed.map((request) => (Date.parse(request.completedAt!) - Date.parse(request.submittedAt)) / HOUR);
+
+    return json({
+      total: requests.length,
+      pending: count('pending'),
+      approved: count('approved'),
+      rejected: count('rejected'),
+      escalated: count('escalated'),
+      averageTimeToApproval: hoursToComplete.length ? hoursToComplete.reduce((sum, hours) => sum + hours, 0) / hoursToComplete.length : 0,
+      averageStepsPerRequest: requests.length ? requests.reduce((sum, request) => sum + request.steps.length, 0) / requests.length : 0,
+      approvalRate: completed.length ? (count('approved') / completed.length) * 100 : 0,
+      byPriority: {
+        low: requests.filter((request) => request.priority === 'low').length,
+        medium: requests.filter((request) => request.priority === 'medium').length,
+        high: requests.filter((request) => request.priority === 'high').length,
+        urgent: requests.filter((request) => request.priority === 'urgent').length,
+      },
+      byWorkflow: requests.reduce<Record<string, number>>((acc, request) => ({ ...acc, [request.workflowId]: (acc[request.workflowId] || 0) + 1 }), {}),
+      byStep: {},
+      performance: {
+        onTimeApprovals: byApprover.reduce((sum, approver) => sum + approver.onTime, 0),
+        lateApprovals: byApprover.reduce((sum, approver) => sum + approver.late, 0),
+        escalations: requests.reduce((sum, request) => sum + request.steps.filter((step) => step.escalatedAt).length, 0),
+        bottlenecks: [],
+      },
+      sla: slaSummary(requests, workflows, nameOf),
+      byApprover,
+    });
+  });
+
+  router.get('/approval/my-assignments', (req) => {
+    const user = getSessionUser(req);
+    const workflows = req.db.list<ApprovalWorkflow>('approvalWorkflows');
+
+    const assignments = req.db
+      .list<ApprovalRequest>('approvalRequests')
+      .filter((request) => request.status === 'pending' || request.status === 'escalated')
+      .filter((request) => !req.query.get('priority') || request.priority === req.query.get('priority'))
+      .flatMap((request) => {
+        const step = request.steps.find((candidate) => isActive(candidate) && candidate.assignedTo.includes(user?.id || ''));
+        if (!step) return [];
+
+        const timeoutHours = workflows.find((workflow) => workflow.id === request.workflowId)?.steps.find((candidate) => candidate.id === step.stepId)?.timeoutHours;
+        const overdueMs = timeoutHours && step.startedAt ? Date.now() - Date.parse(step.startedAt) - timeoutHours * HOUR : 0;
+        return [{ request, step, daysOverdue: overdueMs > 0 ? Math.ceil(overdueMs / (24 * HOUR)) : undefined }];
+      })
+      .filter((assignment) => req.query.get('status') !== 'overdue' || assignment.daysOverdue);
+
+    return json({ assignments, total: assignments.length });
+  });
+};
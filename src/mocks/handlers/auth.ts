@@ -0,0 +1,78 @@
+import { MockRouter, json, error, mockId, now } from '../router';
+import { issueTokens, getSessionUser, toPublicUser, userIdFromRefreshToken } from '../session';
+import type { MockUser } from '../fixtures';
+import type { Organization } from '../../store/slices/tenantSlice';
+import type { ChangePasswordRequest, LoginRequest, RegisterRequest } from '../../store/api/authApi';
+
+export const registerAuthRoutes = (router: MockRouter) => {
+  router.post<Partial<LoginRequest>>('/auth/login', ({ db, body }) => {
+    const user = db
+      .list<MockUser>('users')
+      .find((candidate) => candidate.email.toLowerCase() === String(body?.email).toLowerCase());
+
+    if (!user || user.password !== body?.password) {
+      return error(401, 'Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    const organization = db.find('organizations', user.organizationMemberships[0]?.organizationId);
+    return json({ success: true, data: { user: toPublicUser(user), organization, tokens: issueTokens(user.id) } });
+  });
+
+  router.post<RegisterRequest>('/auth/register', ({ db, body }) => {
+    const exists = db.list<MockUser>('users').some((user) => user.email === body?.email);
+    if (exists) {
+      return error(409, 'An account with this email already exists', 'EMAIL_IN_USE');
+    }
+
+    const organization = db.insert<Organization>('organizations', {
+      id: mockId('org'),
+      name: body.organizationName,
+      slug: String(body.organizationName).toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      type: body.organizationType,
+      subscription: { plan: body.plan || 'creator', status: 'active', currentPeriodEnd: now() },
+      settings: { whiteLabel: { enabled: false }, features: {} },
+      limits: { clientWorkspaces: 1, contentPerMonth: 100, teamMembers: 1, storageGB: 5 },
+      usage: { clientWorkspaces: 0, contentGenerated: 0, teamMembers: 1, storageUsed: 0 },
+    });
+
+    const user = db.insert<MockUser>('users', {
+      id: mockId('user'),
+      email: body.email,
+      password: body.password,
+      profile: { firstName: body.firstName, lastName: body.lastName, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+      organizationMemberships: [{ organizationId: organization.id, role: 'owner', permissions: {}, joinedAt: now() }],
+      workspaceAccess: [],
+      preferences: { defaultOrganization: organization.id, dashboardLayout: 'grid', notifications: {} },
+    });
+
+    return json({ success: true, data: { user: toPublicUser(user), organization, tokens: issueTokens(user.id) } }, 201);
+  });
+
+  router.post<{ refreshToken?: string }>('/auth/refresh', ({ db, body }) => {
+    const userId = userIdFromRefreshToken(body?.refreshToken);
+    if (!userId || !db.find('users', userId)) {
+      return error(401, 'Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+    return json({ success: true, data: issueTokens(userId) });
+  });
+
+  router.post('/auth/logout', () => json({ success: true }));
+
+  router.get('/auth/me', (req) => {
+    const user = getSessionUser(req);
+    return user ? json({ success: true, data: { user: toPublicUser(user) } }) : error(401, 'Not authenticated', 'UNAUTHORIZED');
+  });
+
+  router.post('/auth/forgot-password', () => json({ message: 'If an account exists, a reset link has been sent.' }));
+  router.post('/auth/reset-password', () => json({ message: 'Password has been reset.' }));
+
+  router.post<Partial<ChangePasswordRequest>>('/auth/change-password', (req) => {
+    const user = getSessionUser(req);
+    if (!user) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+    if (user.password !== req.body?.currentPassword) {
+      return error(400, 'Current password is incorrect', 'INVALID_PASSWORD');
+    }
+    req.db.update<MockUser>('users', user.id, { password: req.body.newPassword });
+    return json({ message: 'Password changed.' });
+  });
+};
@@ -0,0 +1,97 @@
+import { MockRouter, MockRequest, json, error, notFound, now } from '../router';
+import type { Organization } from '../../store/slices/tenantSlice';
+import type { CreatePortalSessionRequest, Subscription, SubscriptionPlan } from '../../store/api/billingApi';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type PlanId = Organization['subscription']['plan'];
+
+const plan = (
+  id: PlanId,
+  displayName: string,
+  description: string,
+  price: number,
+  features: SubscriptionPlan['features'],
+  popular = false
+): SubscriptionPlan => ({
+  id,
+  name: id,
+  displayName,
+  description,
+  price,
+  currency: 'usd',
+  interval: 'month',
+  features,
+  popular,
+  stripePriceId: `price_mock_${id}`,
+});
+
+const PLANS: Record<PlanId, SubscriptionPlan> = {
+  creator: plan('creator', 'Creator', 'For freelancers managing their own brand', 29, {
+    workspaces: 1, teamMembers: 1, socialAccounts: 5, monthlyPosts: 100,
+    analytics: true, aiFeatures: true, whiteLabel: false, apiAccess: false, prioritySupport: false, customIntegrations: false,
+  }),
+  agency: plan('agency', 'Agency', 'For agencies running several client brands', 149, {
+    workspaces: 25, teamMembers: 20, socialAccounts: 100, monthlyPosts: 2000,
+    analytics: true, aiFeatures: true, whiteLabel: false, apiAccess: true, prioritySupport: true, customIntegrations: false,
+  }, true),
+  studio: plan('studio', 'Studio', 'For studios that need white-label reporting', 299, {
+    workspaces: 50, teamMembers: 50, socialAccounts: 250, monthlyPosts: 5000,
+    analytics: true, aiFeatures: true, whiteLabel: true, apiAccess: true, prioritySupport: true, customIntegrations: false,
+  }),
+  enterprise: plan('enterprise', 'Enterprise', 'Custom limits, SSO and dedicated support', 999, {
+    workspaces: 500, teamMembers: 500, socialAccounts: 1000, monthlyPosts: 50000,
+    analytics: true, aiFeatures: true, whiteLabel: true, apiAccess: true, prioritySupport: true, customIntegrations: true,
+  }),
+};
+
+// The organization's plan is the source of truth; cancellation state is kept alongside it
+const subscriptionFor = (req: MockRequest): Subscription | null => {
+  const organization = req.db.find<Organization>('organizations', req.headers.get('x-organization-id') || '');
+  if (!organization) return null;
+
+  return {
+    id: organization.id,
+    organizationId: organization.id,
+    planId: organization.subscription.plan,
+    plan: PLANS[organization.subscription.plan],
+    status: organization.subscription.status,
+    currentPeriodStart: new Date(Date.parse(organization.subscription.currentPeriodEnd) - 30 * DAY).toISOString(),
+    currentPeriodEnd: organization.subscription.currentPeriodEnd,
+    cancelAtPeriodEnd: req.db.find<Subscription>('subscriptions', organization.id)?.cancelAtPeriodEnd ?? false,
+    stripeSubscriptionId: `sub_mock_${organization.id}`,
+  };
+};
+
+export const registerBillingRoutes = (router: MockRouter) => {
+  router.get('/billing/plans', () => json({ plans: Object.values(PLANS) }));
+
+  router.get('/billing/subscription', (req) => json({ subscription: subscriptionFor(req) }));
+
+  router.post<{ cancelAtPeriodEnd?: boolean }>('/billing/subscription/cancel', (req) => {
+    const subscription = subscriptionFor(req);
+    if (!subscription) return notFound('Subscription');
+
+    if (req.body?.cancelAtPeriodEnd === false) {
+      req.db.update<Organization>('organizations', subscription.organizationId, {
+        subscription: { plan: subscription.plan.id as PlanId, status: 'canceled', currentPeriodEnd: now() },
+      });
+      return json({ subscription: subscriptionFor(req) });
+    }
+    return json({ subscription: req.db.insert<Subscription>('subscriptions', { ...subscription, cancelAtPeriodEnd: true }) });
+  });
+
+  router.post('/billing/subscription/resume', (req) => {
+    const subscription = subscriptionFor(req);
+    if (!subscription) return notFound('Subscription');
+    if (subscription.status === 'canceled') {
+      return error(400, 'This subscription has ended; choose a plan to start a new one', 'SUBSCRIPTION_ENDED');
+    }
+    return json({ subscription: req.db.insert<Subscription>('subscriptions', { ...subscription, cancelAtPeriodEnd: false }) });
+  });
+
+  // There's no Stripe behind the mock, so the portal sends the user straight back
+  router.post<Partial<CreatePortalSessionRequest>>('/billing/portal', ({ body }) =>
+    json({ portalUrl: body?.returnUrl || window.location.origin })
+  );
+};
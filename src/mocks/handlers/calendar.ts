@@ -0,0 +1,100 @@
+import { MockRouter, json, error, notFound, now, text, listParam } from '../router';
+import { getSessionUser, getScopedWorkspaceIds } from '../session';
+import { API_ROOT } from '../../store/api/baseApi';
+import { buildIcsCalendar, contentToCalendarEvents } from '../../utils/calendarExport';
+import type { MockDatabase } from '../db';
+import type { MockCalendarFeed } from '../fixtures';
+import type { Content } from '../../store/api/contentApi';
+import type { ClientWorkspace } from '../../store/slices/tenantSlice';
+
+const FEED_REFRESH_MINUTES = 60;
+const FEED_HISTORY_DAYS = 30;
+
+const createToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const feedUrl = (token: string) => `${window.location.origin}${API_ROOT}/calendar-feeds/${token}.ics`;
+
+const toPublicFeed = ({ id: _id, token: _token, ...feed }: MockCalendarFeed) => feed;
+
+const findFeed = (db: MockDatabase, workspaceId: string) =>
+  db.list<MockCalendarFeed>('calendarFeeds').find((feed) => feed.workspaceId === workspaceId);
+
+// Scheduled content in a workspace and date range, earliest first (shared by /content/calendar)
+export const listCalendarContent = (db: MockDatabase, workspaceIds: string[], query: URLSearchParams) => {
+  const start = query.get('startDate') || '';
+  const end = query.get('endDate') || '9999-12-31';
+  const platforms = listParam(query, 'platforms');
+  const status = listParam(query, 'status');
+
+  return db
+    .list<Content>('content')
+    .filter((item) => workspaceIds.includes(item.workspaceId))
+    .filter((item) => item.scheduledAt && item.scheduledAt >= start && item.scheduledAt <= end)
+    .filter((item) => !platforms.length || item.platforms.some((p) => platforms.includes(p.platform)))
+    .filter((item) => !status.length || status.includes(item.status))
+    .sort((a, b) => a.scheduledAt!.localeCompare(b.scheduledAt!));
+};
+
+const workspaceName = (db: MockDatabase, workspaceId: string) =>
+  db.find<ClientWorkspace>('workspaces', workspaceId)?.name || 'Content Calendar';
+
+// Must be registered before the content routes so /content/:id doesn't swallow /content/calendar.ics
+export const registerCalendarRoutes = (router: MockRouter) => {
+  router.get('/content/calendar.ics', (req) => {
+    const workspaceIds = req.query.get('workspaceId') ? [req.query.get('workspaceId')!] : getScopedWorkspaceIds(req);
+    const events = contentToCalendarEvents(listCalendarContent(req.db, workspaceIds, req.query), window.location.origin);
+    const name = workspaceIds.length === 1 ? workspaceName(req.db, workspaceIds[0]) : 'Content Calendar';
+    return text(buildIcsCalendar(events, { name }), 'text/calendar');
+  });
+
+  router.get('/workspaces/:id/calendar-feed', ({ db, params }) => {
+    const feed = findFeed(db, params.id);
+    return json({ feed: feed ? toPublicFeed(feed) : null });
+  });
+
+  router.post('/workspaces/:id/calendar-feed', (req) => {
+    const user = getSessionUser(req);
+    if (!user) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+    if (!req.db.find('workspaces', req.params.id)) return notFound('Workspace');
+
+    // One live URL per workspace: regenerating revokes the previous token
+    const existing = findFeed(req.db, req.params.id);
+    if (existing) req.db.remove('calendarFeeds', existing.id);
+
+    const token = createToken();
+    const feed = req.db.insert<MockCalendarFeed>('calendarFeeds', {
+      id: `feed_${token.slice(0, 12)}`,
+      token,
+      workspaceId: req.params.id,
+      url: feedUrl(token),
+      createdAt: now(),
+      createdBy: user.id,
+    });
+    return json({ feed: toPublicFeed(feed) }, 201);
+  });
+
+  router.delete('/workspaces/:id/calendar-feed', ({ db, params }) => {
+    const feed = findFeed(db, params.id);
+    if (!feed) return notFound('Calendar feed');
+    db.remove('calendarFeeds', feed.id);
+    return json({ message: 'Calendar feed revoked' });
+  });
+
+  // Public: the token is the credential, calendar apps send no auth headers
+  router.get('/calendar-feeds/:token', ({ db, params }) => {
+    const token = params.token.replace(/\.ics$/, '');
+    const feed = db.list<MockCalendarFeed>('calendarFeeds').find((candidate) => candidate.token === token);
+    if (!feed) return notFound('Calendar feed');
+
+    db.update<MockCalendarFeed>('calendarFeeds', feed.id, { lastAccessedAt: now() });
+    const query = new URLSearchParams({
+      startDate: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    const events = contentToCalendarEvents(listCalendarContent(db, [feed.workspaceId], query), window.location.origin);
+    return text(
+      buildIcsCalendar(events, { name: workspaceName(db, feed.workspaceId), refreshIntervalMinutes: FEED_REFRESH_MINUTES }),
+      'text/calendar'
+    );
+  });
+};
@@ -0,0 +1,279 @@
+import { MockRouter, json, error, notFound, mockId, now, paginate, listParam } from '../router';
+import { getSessionUser, getScopedWorkspaceIds } from '../session';
+import { emitEvent, workspaceScope } from '../events';
+import { listCalendarContent } from './calendar';
+import { syncApprovalDrafts } from './approval';
+import type { MockDatabase } from '../db';
+import { threadProblems } from '../../utils/threadSplitting';
+import type {
+  BulkActionRequest,
+  Content,
+  ContentMedia,
+  ContentPlatform,
+  CreateContentRequest,
+} from '../../store/api/contentApi';
+
+const platformStatusFor = (status: Content['status']): ContentPlatform['status'] =>
+  status === 'scheduled' ? 'scheduled' : status === 'published' ? 'published' : 'draft';
+
+type PlatformInput = CreateContentRequest['platforms'][number];
+
+// Thread posts carry their own media; those files are attached to the content too
+const attachedMedia = (db: MockDatabase, media: string[] = [], platforms: PlatformInput[] = []) =>
+  Array.from(new Set([...media, ...platforms.flatMap(({ thread = [] }) => thread.flatMap((post) => post.media))]))
+    .map((id) => db.find<ContentMedia>('mediaFiles', id))
+    .filter((file): file is ContentMedia => Boolean(file));
+
+const invalidThread = (platforms: PlatformInput[] = []) => {
+  const [problem] = platforms.flatMap(({ platform, thread }) => (thread ? threadProblems(thread, platform) : []));
+  return problem && error(400, problem, 'VALIDATION_ERROR');
+};
+
+const withStatus = (content: Content, status: Content['status'], patch: Partial<Content> = {}): Partial<Content> => ({
+  ...patch,
+  status,
+  platforms: content.platforms.map((platform) => ({
+    ...platform,
+    status: platformStatusFor(status),
+    ...(patch.scheduledAt && { scheduledAt: patch.scheduledAt }),
+    ...(status === 'published' && { publishedAt: now() }),
+  })),
+  updatedAt: now(),
+  version: content.version + 1,
+});
+
+const emitPublished = (db: MockDatabase, content: Content) =>
+  content.platforms.forEach((platform) =>
+    emitEvent({
+      type: 'publishing.status_changed',
+      ...workspaceScope(db, content.workspaceId),
+      payload: {
+        contentId: content.id,
+        platform: platform.platform,
+        status: platform.status,
+        contentStatus: content.status,
+        publishedAt: platform.publishedAt,
+      },
+    })
+  );
+
+export const registerContentRoutes = (router: MockRouter) => {
+  router.get('/content', (req) => {
+    const { query } = req;
+    const workspaceIds = getScopedWorkspaceIds(req);
+    const status = listParam(query, 'status');
+    const platforms = listParam(query, 'platforms');
+    const tags = listParam(query, 'tags');
+    const priority = listParam(query, 'priority');
+    const search = (query.get('search') || '').toLowerCase();
+
+    const content = req.db
+      .list<Content>('content')
+      .filter((item) => workspaceIds.includes(item.workspaceId))
+      .filter((item) => !status.length || status.includes(item.status))
+      .filter((item) => !platforms.length || item.platforms.some((p) => platforms.includes(p.platform)))
+      .filter((item) => !tags.length || item.tags.some((tag) => tags.includes(tag)))
+      .filter((item) => !priority.length || priority.includes(item.priority))
+      .filter((item) => !query.get('createdBy') || item.createdBy === query.get('createdBy'))
+      .filter((item) => !search || `${item.title} ${item.body}`.toLowerCase().includes(search))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    const page = paginate(content, query);
+    return json({ content: page.items, total: page.total, page: page.page, limit: page.limit });
+  });
+
+  router.post<CreateContentRequest>('/content', (req) => {
+    const user = getSessionUser(req);
+    const workspaceId = req.headers.get('x-workspace-id') || getScopedWorkspaceIds(req)[0];
+    const { media, platforms, ...data } = req.body;
+    const threadError = invalidThread(platforms);
+    if (threadError) return threadError;
+
+    const content = req.db.insert<Content>('content', {
+      id: mockId('content'),
+      workspaceId,
+      priority: 'medium',
+      tags: [],
+      ...data,
+      status: data.scheduledAt ? 'scheduled' : 'draft',
+      media: attachedMedia(req.db, media, platforms),
+      platforms: (platforms || []).map((platform) => ({
+        ...platform,
+        scheduledAt: platform.scheduledAt || data.scheduledAt,
+        status: data.scheduledAt ? 'scheduled' : 'draft',
+      })),
+      aiGenerated: false,
+      approvalRequired: false,
+      createdBy: user?.id || 'anonymous',
+      createdAt: now(),
+      updatedAt: now(),
+      version: 1,
+    });
+    return json({ content }, 201);
+  });
+
+  router.get('/content/calendar', (req) => {
+    const workspaceIds = req.query.get('workspaceId') ? [req.query.get('workspaceId')!] : getScopedWorkspaceIds(req);
+    return json({ calendar: listCalendarContent(req.db, workspaceIds, req.query) });
+  });
+
+  router.get('/content/analytics', (req) => {
+    const published = req.db
+      .list<Content>('content')
+      .filter((item) => getScopedWorkspaceIds(req).includes(item.workspaceId) && item.analytics);
+
+    const totals = published.reduce(
+      (acc, item) => ({
+        impressions: acc.impressions + item.analytics!.impressions,
+        engagements: acc.engagements + item.analytics!.engagements,
+        clicks: acc.clicks + item.analytics!.clicks,
+        shares: acc.shares + item.analytics!.shares,
+      }),
+      { impressions: 0, engagements: 0, clicks: 0, shares: 0 }
+    );
+
+    return json({
+      analytics: {
+        totalImpressions: totals.impressions,
+        totalEngagements: totals.engagements,
+        totalClicks: totals.clicks,
+        totalShares: totals.shares,
+        engagementRate: totals.impressions ? (totals.engagements / totals.impressions) * 100 : 0,
+        platformBreakdown: {},
+        timeSeriesData: published.map((item) => ({
+          date: item.publishedAt!.slice(0, 10),
+          impressions: item.analytics!.impressions,
+          engagements: item.analytics!.engagements,
+        })),
+      },
+    });
+  });
+
+  router.get('/content/templates', ({ db }) => json({ templates: db.list('templates') }));
+
+  router.post<BulkActionRequest>('/content/bulk', ({ db, body }) => {
+    const results = body.contentIds.map((id) => {
+      const content = db.find<Content>('content', id);
+      if (!content) return { id, success: false, error: 'Content not found' };
+
+      switch (body.action) {
+        case 'delete':
+          db.remove('content', id);
+          break;
+        case 'duplicate':
+          db.insert('content', { ...content, id: mockId('content'), title: `${content.title} (copy)`, status: 'draft', createdAt: now(), updatedAt: now() });
+          break;
+        case 'approve':
+          db.update('content', id, withStatus(content, body.scheduledAt ? 'scheduled' : 'approved', { scheduledAt: body.scheduledAt }));
+          break;
+        case 'reject':
+          db.update('content', id, withStatus(content, 'draft', { rejectionReason: body.reason, rejectedAt: now() }));
+          break;
+        case 'publish':
+          emitPublished(db, db.update<Content>('content', id, withStatus(content, 'published', { publishedAt: now() }))!);
+          break;
+        case 'archive':
+          db.update('content', id, withStatus(content, 'archived'));
+          break;
+      }
+      return { id, success: true };
+    });
+    return json({ success: true, results });
+  });
+
+  router.get('/content/:id', ({ db, params }) => {
+    const content = db.find('content', params.id);
+    return content ? json({ content }) : notFound('Content');
+  });
+
+  router.put<Partial<CreateContentRequest>>('/content/:id', ({ db, params, body }) => {
+    const existing = db.find<Content>('content', params.id);
+    if (!existing) return notFound('Content');
+
+    const { media, platforms, ...data } = body;
+    const threadError = invalidThread(platforms);
+    if (threadError) return threadError;
+
+    const content = db.update<Content>('content', params.id, {
+      ...data,
+      // Editing doesn't change where each platform is in publishing
+      ...(platforms && {
+        platforms: platforms.map((platform) => ({
+          ...platform,
+          status: existing.platforms.find((current) => current.platform === platform.platform)?.status ?? platformStatusFor(existing.status),
+        })),
+      }),
+      ...((media || platforms) && {
+        media: attachedMedia(db, media ?? existing.media.map(({ id }) => id), platforms ?? existing.platforms),
+      }),
+      updatedAt: now(),
+      version: existing.version + 1,
+    })!;
+    if (data.body !== undefined) syncApprovalDrafts(db, content);
+    return json({ content });
+  });
+
+  router.delete('/content/:id', ({ db, params }) =>
+    db.remove('content', params.id) ? json({ success: true }) : notFound('Content')
+  );
+
+  router.post('/content/:id/duplicate', ({ db, params }) => {
+    const existing = db.find<Content>('content', params.id);
+    if (!existing) return notFound('Content');
+
+    const content = db.insert<Content>('content', {
+      ...existing,
+      id: mockId('content'),
+      title: `${existing.title} (copy)`,
+      status: 'draft',
+      platforms: existing.platforms.map(({ publishingResult: _result, publishedAt: _at, ...platform }) => ({ ...platform, status: 'draft' })),
+      publishedAt: undefined,
+      analytics: undefined,
+      createdAt: now(),
+      updatedAt: now(),
+      version: 1,
+    });
+    return json({ content }, 201);
+  });
+
+  router.post('/content/:id/approve', (req) => {
+    const existing = req.db.find<Content>('content', req.params.id);
+    if (!existing) return notFound('Content');
+
+    const status = existing.scheduledAt ? 'scheduled' : 'approved';
+    const content = req.db.update('content', existing.id, withStatus(existing, status, { approvedBy: getSessionUser(req)?.id, approvedAt: now() }));
+    return json({ content });
+  });
+
+  router.post<{ reason?: string }>('/content/:id/reject', (req) => {
+    const existing = req.db.find<Content>('content', req.params.id);
+    if (!existing) return notFound('Content');
+
+    const content = req.db.update(
+      'content',
+      existing.id,
+      withStatus(existing, 'draft', { rejectedBy: getSessionUser(req)?.id, rejectedAt: now(), rejectionReason: req.body?.reason })
+    );
+    return json({ content });
+  });
+
+  router.post<{ scheduledAt?: string }>('/content/:id/schedule', ({ db, params, body }) => {
+    const existing = db.find<Content>('content', params.id);
+    if (!existing) return notFound('Content');
+    if (!body?.scheduledAt || Number.isNaN(Date.parse(body.scheduledAt))) {
+      return error(400, 'scheduledAt must be a valid ISO date', 'VALIDATION_ERROR');
+    }
+
+    const content = db.update('content', existing.id, withStatus(existing, 'scheduled', { scheduledAt: body.scheduledAt }));
+    return json({ content });
+  });
+
+  router.post('/content/:id/publish', ({ db, params }) => {
+    const existing = db.find<Content>('content', params.id);
+    if (!existing) return notFound('Content');
+
+    const content = db.update<Content>('content', existing.id, withStatus(existing, 'published', { publishedAt: now() }))!;
+    emitPublished(db, content);
+    return json({ content });
+  });
+};
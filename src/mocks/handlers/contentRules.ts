@@ -0,0 +1,91 @@
+import { MockRouter, json, error, notFound, mockId, now } from '../router';
+import { getSessionUser } from '../session';
+import { contentRulePublishBlockers, contentRuleProblems } from '../../utils/validationRules';
+import type { ContentRule, ContentRuleDefinition } from '../../store/api/organizationApi';
+
+const invalidDefinition = (definition: ContentRuleDefinition) => {
+  const problems = contentRuleProblems(definition);
+  return problems.length ? error(422, problems.join('. '), 'INVALID_RULE') : null;
+};
+
+export const registerContentRuleRoutes = (router: MockRouter) => {
+  router.get('/organizations/:id/content-rules', ({ db, params }) =>
+    json({ rules: db.list<ContentRule>('contentRules').filter((rule) => rule.organizationId === params.id) })
+  );
+
+  router.post('/organizations/:id/content-rules', (req) => {
+    const definition = req.body as ContentRuleDefinition;
+    const invalid = invalidDefinition(definition);
+    if (invalid) return invalid;
+
+    const timestamp = now();
+    const rule = req.db.insert<ContentRule>('contentRules', {
+      id: mockId('rule'),
+      organizationId: req.params.id,
+      name: definition.name,
+      versions: [{ version: 1, definition, createdBy: getSessionUser(req)?.id || '', createdAt: timestamp }],
+      enabled: true,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    return json({ rule }, 201);
+  });
+
+  // An unpublished latest version is edited in place; otherwise the edit becomes a new version
+  router.put('/organizations/:id/content-rules/:ruleId', (req) => {
+    const existing = req.db.find<ContentRule>('contentRules', req.params.ruleId);
+    if (!existing) return notFound('Content rule');
+
+    const definition = req.body as ContentRuleDefinition;
+    const invalid = invalidDefinition(definition);
+    if (invalid) return invalid;
+
+    const latest = existing.versions[existing.versions.length - 1];
+    const draft = {
+      version: latest.publishedAt ? latest.version + 1 : latest.version,
+      definition,
+      createdBy: getSessionUser(req)?.id || '',
+      createdAt: now(),
+    };
+    const versions = latest.publishedAt ? [...existing.versions, draft] : [...existing.versions.slice(0, -1), draft];
+
+    const rule = req.db.update<ContentRule>('contentRules', existing.id, {
+      name: definition.name,
+      versions,
+      updatedAt: now(),
+    });
+    return json({ rule });
+  });
+
+  router.post<{ version?: number }>('/organizations/:id/content-rules/:ruleId/publish', ({ db, params, body }) => {
+    const existing = db.find<ContentRule>('contentRules', params.ruleId);
+    if (!existing) return notFound('Content rule');
+
+    const target = existing.versions.find(({ version }) => version === body?.version);
+    if (!target) return notFound('Rule version');
+
+    const blockers = contentRulePublishBlockers(target.definition);
+    if (blockers.length) return error(422, blockers.join('. '), 'RULE_NOT_READY');
+
+    const timestamp = now();
+    const rule = db.update<ContentRule>('contentRules', existing.id, {
+      liveVersion: target.version,
+      versions: existing.versions.map((version) =>
+        version.version === target.version ? { ...version, publishedAt: version.publishedAt ?? timestamp } : version
+      ),
+      updatedAt: timestamp,
+    });
+    return json({ rule });
+  });
+
+  router.patch<{ enabled?: boolean }>('/organizations/:id/content-rules/:ruleId', ({ db, params, body }) => {
+    if (!db.find('contentRules', params.ruleId)) return notFound('Content rule');
+
+    const rule = db.update<ContentRule>('contentRules', params.ruleId, { enabled: Boolean(body?.enabled), updatedAt: now() });
+    return json({ rule });
+  });
+
+  router.delete('/organizations/:id/content-rules/:ruleId', ({ db, params }) =>
+    db.remove('contentRules', params.ruleId) ? json({ success: true }) : notFound('Content rule')
+  );
+};
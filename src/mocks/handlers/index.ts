@@ -0,0 +1,42 @@
+import { MockRouter } from '../router';
+import { registerAuthRoutes } from './auth';
+import { registerTenantRoutes } from './tenants';
+import { registerContentRuleRoutes } from './contentRules';
+import { registerCalendarRoutes } from './calendar';
+import { registerContentRoutes } from './content';
+import { registerApprovalRoutes } from './approval';
+import { registerMediaRoutes } from './media';
+import { registerNotificationRoutes } from './notifications';
+import { registerWorkspaceRoutes } from './workspace';
+import { registerPublishingRoutes } from './publishing';
+import { registerRealtimeRoutes } from './realtime';
+import { registerAnalyticsRoutes } from './analytics';
+import { registerProfileRoutes } from './profile';
+import { registerBillingRoutes } from './billing';
+import { registerUsageRoutes } from './usage';
+import { registerReportRoutes } from './reports';
+import { registerSchedulingRoutes } from './scheduling';
+
+export const createMockRouter = () => {
+  const router = new MockRouter();
+
+  registerAuthRoutes(router);
+  registerTenantRoutes(router);
+  registerContentRuleRoutes(router);
+  registerCalendarRoutes(router);
+  registerContentRoutes(router);
+  registerApprovalRoutes(router);
+  registerMediaRoutes(router);
+  registerNotificationRoutes(router);
+  registerWorkspaceRoutes(router);
+  registerPublishingRoutes(router);
+  registerRealtimeRoutes(router);
+  registerAnalyticsRoutes(router);
+  registerProfileRoutes(router);
+  registerBillingRoutes(router);
+  registerUsageRoutes(router);
+  registerReportRoutes(router);
+  registerSchedulingRoutes(router);
+
+  return router;
+};
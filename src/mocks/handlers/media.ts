@@ -0,0 +1,452 @@
+import { MockRouter, MockRequest, json, error, notFound, mockId, now, paginate } from '../router';
+import { getSessionUser, getScopedWorkspaceIds } from '../session';
+import type { MockMediaFile, MockMediaUpload } from '../fixtures';
+import type {
+  BulkOperationRequest,
+  MediaFile,
+  MediaFilters,
+  MediaFolder,
+  MediaVariantSpec,
+  UploadSession,
+} from '../../store/api/mediaApi';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type ProcessBody = {
+  operations?: { resize?: { width?: number; height?: number }; crop?: { width: number; height: number } };
+  variant?: MediaVariantSpec;
+  rendered?: string;
+};
+
+type UploadSessionBody = Partial<Pick<MockMediaUpload, 'filename' | 'mimeType' | 'size' | 'folderId' | 'tags'>>;
+
+type FolderBody = Pick<MediaFolder, 'name'> & Partial<Pick<MediaFolder, 'description' | 'parentId'>>;
+
+const MIN_CHUNK_BYTES = 5 * 1024 * 1024;
+const MAX_UPLOAD_CHUNKS = 10000;
+const UPLOAD_TTL_MS = DAY;
+
+// Chunks received for each upload session; lost on reload, so the client sends them again
+const uploadChunks = new Map<string, Map<number, Blob>>();
+
+// Small files are inlined so they survive a reload; larger ones only live for the session
+const PERSISTED_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+// Also used for avatar uploads (/user/avatar)
+export const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const dataUrlType = (url: string) => /^data:([^;,]+)/.exec(url)?.[1];
+
+// Decoded size of a base64 data URL, without decoding it
+const dataUrlBytes = (url: string) => {
+  const data = url.slice(url.indexOf(',') + 1);
+  return Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+};
+
+const mediaTypeOf = (mimeType: string): MediaFile['type'] =>
+  mimeType.startsWith('image/') ? 'image'
+  : mimeType.startsWith('video/') ? 'video'
+  : mimeType.startsWith('audio/') ? 'audio'
+  : 'document';
+
+interface UploadDetails {
+  metadata?: Partial<MediaFile['metadata']>;
+  thumbnailUrl?: string;
+}
+
+const storeUploads = async (
+  req: MockRequest,
+  files: File[],
+  folderId?: string,
+  tags: string[] = [],
+  { metadata, thumbnailUrl }: UploadDetails = {}
+) => {
+  const workspaceId = getScopedWorkspaceIds(req)[0];
+  const uploadedBy = getSessionUser(req)?.id || 'anonymous';
+
+  return Promise.all(
+    files.map(async (file) => {
+      const url = file.size <= PERSISTED_UPLOAD_BYTES ? await readAsDataUrl(file) : URL.createObjectURL(file);
+      const id = mockId('media');
+      return req.db.insert<MockMediaFile>('mediaFiles', {
+        id,
+        folderId,
+        organizationId: req.headers.get('x-organization-id') || '',
+        workspaceId,
+        filename: `${id}-${file.name}`,
+        originalName: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        size: file.size,
+        url,
+        thumbnailUrl: thumbnailUrl ?? (file.type.startsWith('image/') ? url : undefined),
+        type: mediaTypeOf(file.type),
+        metadata: {
+          ...metadata,
+          ...(metadata?.width && metadata.height && { dimensions: `${metadata.width}x${metadata.height}` }),
+          tags,
+          alt: file.name,
+        },
+        usage: { contentIds: [], usageCount: 0 },
+        uploadedBy,
+        uploadedAt: now(),
+        updatedAt: now(),
+      });
+    })
+  );
+};
+
+const toUploadSession = ({ id, filename, mimeType, size, chunkSize, totalChunks, expiresAt }: MockMediaUpload): UploadSession => ({
+  id,
+  filename,
+  mimeType,
+  size,
+  chunkSize,
+  totalChunks,
+  receivedChunks: Array.from(uploadChunks.get(id)?.keys() ?? []).sort((a, b) => a - b),
+  expiresAt,
+});
+
+const findUpload = (req: MockRequest) => {
+  const upload = req.db.find<MockMediaUpload>('mediaUploads', req.params.id);
+  if (upload && Date.parse(upload.expiresAt) < Date.now()) {
+    req.db.remove('mediaUploads', upload.id);
+    uploadChunks.delete(upload.id);
+    return undefined;
+  }
+  return upload;
+};
+
+const formFiles = (body: unknown, field: string): File[] =>
+  body instanceof FormData ? (body.getAll(field).filter((value) => value instanceof File) as File[]) : [];
+
+const parseFilters = (raw: string | null): MediaFilters => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const applyFilters = (files: MockMediaFile[], filters: MediaFilters) => {
+  const search = filters.search?.toLowerCase();
+  return files
+    .filter((file) => !filters.type || file.type === filters.type)
+    .filter((file) => !filters.folderId || file.folderId === filters.folderId)
+    .filter((file) => !filters.tags?.length || filters.tags.some((tag) => file.metadata.tags.includes(tag)))
+    .filter((file) => !filters.dateRange || (file.uploadedAt >= filters.dateRange.start && file.uploadedAt <= filters.dateRange.end))
+    .filter((file) => !filters.sizeRange || (file.size >= filters.sizeRange.min && file.size <= filters.sizeRange.max))
+    .filter((file) => !search || `${file.originalName} ${file.metadata.alt || ''} ${file.metadata.tags.join(' ')}`.toLowerCase().includes(search));
+};
+
+// The content creation API uses its own, flatter media shape
+const toLibraryItem = (file: MockMediaFile) => ({
+  id: file.id,
+  originalName: file.originalName,
+  filename: file.filename,
+  mimetype: file.mimeType,
+  size: file.size,
+  url: file.url,
+  thumbnailUrl: file.thumbnailUrl,
+  altText: file.metadata.alt,
+  uploadedAt: file.uploadedAt,
+  uploadedBy: file.uploadedBy,
+});
+
+// Platform variants belong to their original and stay out of the library
+const scopedFiles = (req: MockRequest) => {
+  const workspaceIds = getScopedWorkspaceIds(req);
+  return req.db
+    .list<MockMediaFile>('mediaFiles')
+    .filter((file) => !file.variant && (!file.workspaceId || workspaceIds.includes(file.workspaceId)));
+};
+
+export const registerMediaRoutes = (router: MockRouter) => {
+  router.get('/media/files', (req) => {
+    const sortBy = (req.query.get('sortBy') || 'uploadedAt') as 'uploadedAt' | 'filename' | 'size' | 'type';
+    const direction = req.query.get('sortOrder') === 'asc' ? 1 : -1;
+    const files = applyFilters(scopedFiles(req), parseFilters(req.query.get('filters'))).sort((a, b) =>
+      sortBy === 'size' ? (a.size - b.size) * direction : String(a[sortBy]).localeCompare(String(b[sortBy])) * direction
+    );
+
+    const page = paginate(files, req.query, 24);
+    return json({ files: page.items, total: page.total, page: page.page, limit: page.limit, hasMore: page.hasMore });
+  });
+
+  router.get('/media/files/:id', ({ db, params }) => {
+    const file = db.find('mediaFiles', params.id);
+    return file ? json({ file }) : notFound('Media file');
+  });
+
+  router.put<Partial<MediaFile['metadata']> & { folderId?: string }>('/media/files/:id', ({ db, params, body }) => {
+    const existing = db.find<MockMediaFile>('mediaFiles', params.id);
+    if (!existing) return notFound('Media file');
+
+    const file = db.update<MockMediaFile>('mediaFiles', params.id, {
+      metadata: { ...existing.metadata, ...body },
+      ...(body.folderId !== undefined && { folderId: body.folderId }),
+      updatedAt: now(),
+    });
+    return json({ file });
+  });
+
+  router.delete('/media/files/:id', ({ db, params }) =>
+    db.remove('mediaFiles', params.id) ? json({ success: true }) : notFound('Media file')
+  );
+
+  router.post('/media/files/:id/download', ({ db, params }) => {
+    const file = db.find<MockMediaFile>('mediaFiles', params.id);
+    return file ? json({ downloadUrl: file.url }) : notFound('Media file');
+  });
+
+  router.post<ProcessBody>('/media/files/:id/process', ({ db, params, body }) => {
+    const existing = db.find<MockMediaFile>('mediaFiles', params.id);
+    if (!existing) return notFound('Media file');
+
+    const { resize, crop } = body?.operations || {};
+    const width = resize?.width ?? crop?.width ?? existing.metadata.width;
+    const height = resize?.height ?? crop?.height ?? existing.metadata.height;
+    const metadata = { ...existing.metadata, width, height, dimensions: width && height ? `${width}x${height}` : existing.metadata.dimensions };
+
+    if (!body?.variant) {
+      return json({ file: db.update<MockMediaFile>('mediaFiles', params.id, { metadata, updatedAt: now() }) });
+    }
+
+    // One variant per platform: saving again replaces the last one
+    const { platform, preset, focalPoint } = body.variant;
+    db.list<MockMediaFile>('mediaFiles')
+      .filter(({ variant }) => variant?.originalId === existing.id && variant.platform === platform)
+      .forEach(({ id }) => db.remove('mediaFiles', id));
+
+    const url = body.rendered || existing.url;
+    const id = mockId('media');
+    const file = db.insert<MockMediaFile>('mediaFiles', {
+      ...existing,
+      id,
+      filename: `${id}-${platform}-${existing.originalName}`,
+      mimeType: dataUrlType(url) || existing.mimeType,
+      size: body.rendered ? dataUrlBytes(body.rendered) : existing.size,
+      url,
+      thumbnailUrl: url,
+      metadata,
+      variant: { originalId: existing.id, platform, preset, focalPoint },
+      usage: { contentIds: [], usageCount: 0 },
+      uploadedAt: now(),
+      updatedAt: now(),
+    });
+    return json({ file }, 201);
+  });
+
+  router.post('/media/upload', async (req) => {
+    const tags = req.body instanceof FormData && req.body.get('tags') ? JSON.parse(String(req.body.get('tags'))) : [];
+    const folderId = req.body instanceof FormData ? (req.body.get('folderId') as string | null) || undefined : undefined;
+    const files = await storeUploads(req, formFiles(req.body, 'files'), folderId, tags);
+    return json({ files, failed: [] }, 201);
+  });
+
+  router.post<UploadSessionBody>('/media/uploads', (req) => {
+    const { filename, mimeType, size, folderId, tags = [] } = req.body || {};
+    if (!filename || !size || !Number.isInteger(size) || size < 0) {
+      return error(400, 'filename and a positive size are required', 'VALIDATION_ERROR');
+    }
+
+    const chunkSize = Math.max(MIN_CHUNK_BYTES, Math.ceil(size / MAX_UPLOAD_CHUNKS));
+    const upload = req.db.insert<MockMediaUpload>('mediaUploads', {
+      id: mockId('upload'),
+      filename,
+      mimeType: mimeType || 'application/octet-stream',
+      size,
+      chunkSize,
+      totalChunks: Math.ceil(size / chunkSize),
+      expiresAt: new Date(Date.now() + UPLOAD_TTL_MS).toISOString(),
+      organizationId: req.headers.get('x-organization-id') || '',
+      workspaceId: getScopedWorkspaceIds(req)[0],
+      folderId,
+      tags,
+      uploadedBy: getSessionUser(req)?.id || 'anonymous',
+    });
+    uploadChunks.set(upload.id, new Map());
+    return json({ upload: toUploadSession(upload) }, 201);
+  });
+
+  router.get('/media/uploads/:id', (req) => {
+    const upload = findUpload(req);
+    return upload ? json({ upload: toUploadSession(upload) }) : notFound('Upload');
+  });
+
+  router.put('/media/uploads/:id/chunks/:index', (req) => {
+    const upload = findUpload(req);
+    if (!upload) return notFound('Upload');
+
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+      return error(400, `Chunk ${req.params.index} is out of range`, 'VALIDATION_ERROR');
+    }
+    const expectedSize = Math.min(upload.chunkSize, upload.size - index * upload.chunkSize);
+    if (!(req.body instanceof Blob) || req.body.size !== expectedSize) {
+      return error(400, `Chunk ${index} must be ${expectedSize} bytes`, 'VALIDATION_ERROR');
+    }
+
+    const chunks = uploadChunks.get(upload.id) ?? new Map<number, Blob>();
+    uploadChunks.set(upload.id, chunks.set(index, req.body));
+    return json({ upload: toUploadSession(upload) });
+  });
+
+  router.post<{ metadata?: Partial<MediaFile['metadata']>; thumbnail?: string }>('/media/uploads/:id/complete', async (req) => {
+    const upload = findUpload(req);
+    if (!upload) return notFound('Upload');
+
+    const chunks = uploadChunks.get(upload.id);
+    const parts = Array.from({ length: upload.totalChunks }, (_, index) => chunks?.get(index));
+    if (parts.some((part) => !part)) {
+      return error(409, `${parts.filter((part) => !part).length} chunks have not been received`, 'UPLOAD_INCOMPLETE');
+    }
+
+    const file = new File(parts as Blob[], upload.filename, { type: upload.mimeType });
+    const [stored] = await storeUploads(req, [file], upload.folderId, upload.tags, {
+      metadata: req.body?.metadata,
+      thumbnailUrl: req.body?.thumbnail,
+    });
+    req.db.remove('mediaUploads', upload.id);
+    uploadChunks.delete(upload.id);
+    return json({ file: stored }, 201);
+  });
+
+  router.delete('/media/uploads/:id', ({ db, params }) => {
+    uploadChunks.delete(params.id);
+    return db.remove('mediaUploads', params.id) ? json({ success: true }) : notFound('Upload');
+  });
+
+  router.post<BulkOperationRequest>('/media/bulk', ({ db, body }) =>
+    json({
+      success: true,
+      results: body.fileIds.map((fileId) => {
+        const file = db.find<MockMediaFile>('mediaFiles', fileId);
+        if (!file) return { fileId, success: false, error: 'Media file not found' };
+
+        if (body.operation === 'delete') db.remove('mediaFiles', fileId);
+        if (body.operation === 'move') db.update<MockMediaFile>('mediaFiles', fileId, { folderId: body.targetFolderId });
+        if (body.operation === 'tag') {
+          db.update<MockMediaFile>('mediaFiles', fileId, {
+            metadata: { ...file.metadata, tags: Array.from(new Set([...file.metadata.tags, ...(body.tags || [])])) },
+          });
+        }
+        return { fileId, success: true };
+      }),
+    })
+  );
+
+  router.get('/media/folders', (req) => {
+    const parentId = req.query.get('parentId') || undefined;
+    const files = req.db.list<MockMediaFile>('mediaFiles');
+    const folders = req.db
+      .list<MediaFolder>('mediaFolders')
+      .filter((folder) => folder.parentId === parentId)
+      .map((folder) => {
+        const contained = files.filter((file) => file.folderId === folder.id);
+        return { ...folder, fileCount: contained.length, totalSize: contained.reduce((sum, file) => sum + file.size, 0) };
+      });
+    return json({ folders });
+  });
+
+  router.post<FolderBody>('/media/folders', (req) => {
+    const folder = req.db.insert<MediaFolder>('mediaFolders', {
+      id: mockId('folder'),
+      ...req.body,
+      organizationId: req.headers.get('x-organization-id') || '',
+      workspaceId: getScopedWorkspaceIds(req)[0],
+      fileCount: 0,
+      totalSize: 0,
+      createdBy: getSessionUser(req)?.id || 'anonymous',
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ folder }, 201);
+  });
+
+  router.put<Partial<FolderBody>>('/media/folders/:id', ({ db, params, body }) => {
+    if (!db.find('mediaFolders', params.id)) return notFound('Folder');
+    return json({ folder: db.update('mediaFolders', params.id, { ...body, updatedAt: now() }) });
+  });
+
+  router.delete('/media/folders/:id', ({ db, params }) => {
+    db.list<MockMediaFile>('mediaFiles')
+      .filter((file) => file.folderId === params.id)
+      .forEach((file) => db.update<MockMediaFile>('mediaFiles', file.id, { folderId: undefined }));
+    return db.remove('mediaFolders', params.id) ? json({ success: true }) : notFound('Folder');
+  });
+
+  router.get('/media/stats', (req) => {
+    const files = scopedFiles(req);
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const uploadedWithin = (days: number) => files.filter((file) => Date.now() - Date.parse(file.uploadedAt) <= days * DAY).length;
+
+    return json({
+      totalFiles: files.length,
+      totalSize,
+      storageUsed: totalSize,
+      storageLimit: 10 * 1024 * 1024 * 1024,
+      filesByType: {
+        images: files.filter((file) => file.type === 'image').length,
+        videos: files.filter((file) => file.type === 'video').length,
+        audio: files.filter((file) => file.type === 'audio').length,
+        documents: files.filter((file) => file.type === 'document').length,
+      },
+      recentActivity: { uploadsToday: uploadedWithin(1), uploadsThisWeek: uploadedWithin(7), uploadsThisMonth: uploadedWithin(30) },
+    });
+  });
+
+  router.get('/media/search', (req) => {
+    const files = applyFilters(scopedFiles(req), { ...parseFilters(req.query.get('filters')), search: req.query.get('query') || '' });
+    const tags = Array.from(new Set(files.flatMap((file) => file.metadata.tags)));
+    return json({ files: files.slice(0, Number(req.query.get('limit')) || 20), suggestions: tags.slice(0, 5) });
+  });
+
+  router.get('/media/recent', (req) => {
+    const files = scopedFiles(req).sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+    return json({ files: files.slice(0, Number(req.query.get('limit')) || 10) });
+  });
+
+  router.get('/media/tags', (req) =>
+    json({ tags: Array.from(new Set(scopedFiles(req).flatMap((file) => file.metadata.tags))).sort() })
+  );
+
+  // Media picker and uploads used by the content creation flow
+  router.get('/content-creation/media', (req) => {
+    const mimetype = req.query.get('mimetype');
+    const media = applyFilters(scopedFiles(req), { search: req.query.get('search') || undefined })
+      .filter((file) => !mimetype || file.mimeType.startsWith(mimetype))
+      .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+    return json({ success: true, data: { media: media.slice(0, Number(req.query.get('limit')) || 50).map(toLibraryItem), total: media.length } });
+  });
+
+  router.post('/content-creation/media/upload', async (req) => {
+    const uploads = (await storeUploads(req, formFiles(req.body, 'files'))).map(toLibraryItem);
+    return json(
+      { success: true, data: { uploads, totalFiles: uploads.length, successCount: uploads.length, failureCount: 0 } },
+      201
+    );
+  });
+
+  router.post('/content/media', async (req) => {
+    const [file] = await storeUploads(req, [...formFiles(req.body, 'file'), ...formFiles(req.body, 'files')].slice(0, 1));
+    if (!file) return error(400, 'No file provided', 'VALIDATION_ERROR');
+
+    return json({
+      media: {
+        id: file.id,
+        type: file.type === 'video' ? 'video' : file.type === 'image' ? 'image' : 'document',
+        url: file.url,
+        filename: file.originalName,
+        size: file.size,
+        mimeType: file.mimeType,
+        thumbnail: file.thumbnailUrl,
+      },
+    }, 201);
+  });
+};
@@ -0,0 +1,144 @@
+import { MockRouter, MockRequest, json, notFound, mockId, now, paginate } from '../router';
+import { getSessionUser } from '../session';
+import { emitNotification } from '../events';
+import type { Notification, NotificationPreferences } from '../../store/api/notificationsApi';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type NotificationBody = Pick<Notification, 'type' | 'title' | 'message'> &
+  Partial<Pick<Notification, 'priority' | 'data' | 'workspaceId' | 'actionUrl' | 'actionText' | 'expiresAt'>> & {
+    targetUsers?: string[];
+  };
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  email: {
+    contentPublished: true,
+    contentFailed: true,
+    teamInvitations: true,
+    contentApproval: true,
+    mentions: true,
+    comments: true,
+    systemUpdates: false,
+    billing: true,
+    weeklyDigest: true,
+  },
+  push: {
+    contentPublished: false,
+    contentFailed: true,
+    teamInvitations: true,
+    contentApproval: true,
+    mentions: true,
+    comments: false,
+    urgent: true,
+  },
+  inApp: {
+    all: true,
+    sound: false,
+    desktop: false,
+    quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  },
+};
+
+// Preferences are per browser, which is all the mock needs
+let preferences = DEFAULT_PREFERENCES;
+
+const ownNotifications = (req: MockRequest) => {
+  const userId = getSessionUser(req)?.id;
+  return req.db
+    .list<Notification>('notifications')
+    .filter((notification) => notification.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const registerNotificationRoutes = (router: MockRouter) => {
+  router.get('/notifications', (req) => {
+    const { query } = req;
+    const own = ownNotifications(req);
+    const notifications = own
+      .filter((notification) => !query.get('type') || notification.type === query.get('type'))
+      .filter((notification) => !query.get('priority') || notification.priority === query.get('priority'))
+      .filter((notification) => !query.has('read') || String(notification.read) === query.get('read'))
+      .filter((notification) => !query.get('workspaceId') || notification.workspaceId === query.get('workspaceId'));
+
+    const page = paginate(notifications, query);
+    return json({
+      notifications: page.items,
+      total: page.total,
+      unread: own.filter((notification) => !notification.read).length,
+      hasMore: page.hasMore,
+    });
+  });
+
+  router.post<NotificationBody>('/notifications', (req) => {
+    const userId = getSessionUser(req)?.id || '';
+    const { targetUsers, ...data } = req.body;
+    const created = (targetUsers || [userId]).map((target) =>
+      req.db.insert<Notification>('notifications', {
+        id: mockId('notif'),
+        priority: 'medium',
+        ...data,
+        read: false,
+        organizationId: req.headers.get('x-organization-id') || '',
+        userId: target,
+        createdAt: now(),
+      })
+    );
+    created.forEach(emitNotification);
+    return json({ notification: created[0] }, 201);
+  });
+
+  router.patch<{ ids: string[] }>('/notifications/bulk/read', ({ db, body }) => {
+    body.ids.forEach((id) => db.update('notifications', id, { read: true, readAt: now() }));
+    return json({ count: body.ids.length });
+  });
+
+  router.delete<{ ids: string[] }>('/notifications/bulk/delete', ({ db, body }) =>
+    json({ count: body.ids.filter((id) => db.remove('notifications', id)).length })
+  );
+
+  router.patch<{ workspaceId?: string }>('/notifications/read-all', (req) => {
+    const unread = ownNotifications(req)
+      .filter((notification) => !notification.read)
+      .filter((notification) => !req.body?.workspaceId || notification.workspaceId === req.body.workspaceId);
+    unread.forEach((notification) => req.db.update('notifications', notification.id, { read: true, readAt: now() }));
+    return json({ count: unread.length });
+  });
+
+  router.get('/notifications/preferences', () => json({ preferences }));
+
+  router.put<Partial<NotificationPreferences>>('/notifications/preferences', ({ body }) => {
+    preferences = {
+      email: { ...preferences.email, ...body.email },
+      push: { ...preferences.push, ...body.push },
+      inApp: { ...preferences.inApp, ...body.inApp },
+    };
+    return json({ preferences });
+  });
+
+  router.get('/notifications/channels', () => json({ channels: [] }));
+
+  router.get('/notifications/stats', (req) => {
+    const own = ownNotifications(req);
+    const tally = <K extends 'type' | 'priority'>(key: K) =>
+      own.reduce<Record<string, number>>((acc, notification) => ({ ...acc, [notification[key]]: (acc[notification[key]] || 0) + 1 }), {});
+    const within = (days: number) => own.filter((notification) => Date.now() - Date.parse(notification.createdAt) <= days * DAY).length;
+
+    return json({
+      total: own.length,
+      unread: own.filter((notification) => !notification.read).length,
+      byType: tally('type'),
+      byPriority: tally('priority'),
+      recent: { today: within(1), thisWeek: within(7), thisMonth: within(30) },
+      delivery: { emailsSent: 0, pushsSent: 0, deliveryRate: 100, openRate: 0, clickRate: 0 },
+    });
+  });
+
+  router.patch('/notifications/:id/read', ({ db, params }) => {
+    if (!db.find('notifications', params.id)) return notFound('Notification');
+    return json({ notification: db.update('notifications', params.id, { read: true, readAt: now() }) });
+  });
+
+  router.delete('/notifications/:id', ({ db, params }) =>
+    db.remove('notifications', params.id) ? json({ success: true }) : notFound('Notification')
+  );
+};
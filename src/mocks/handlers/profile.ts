@@ -0,0 +1,181 @@
+import { MockRouter, MockRequest, MockHandler, json, error, now } from '../router';
+import { getSessionUser } from '../session';
+import { readAsDataUrl } from './media';
+import type { MockDatabase } from '../db';
+import type { MockUser } from '../fixtures';
+import type { Content } from '../../store/api/contentApi';
+import type { ChangePasswordRequest, UpdatePreferencesRequest, UpdateProfileRequest, UserProfile } from '../../store/api/userProfileApi';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Name, title, bio, timezone and avatar live on the user so /auth/me stays in step
+const SHARED_FIELDS = ['firstName', 'lastName', 'title', 'bio', 'timezone', 'avatar'] as const;
+
+const createBackupCodes = () => Array.from({ length: 8 }, () => Math.random().toString(36).slice(2, 10));
+
+const createProfile = (user: MockUser): UserProfile => ({
+  id: user.id,
+  email: user.email,
+  profile: { ...user.profile, language: 'en' },
+  preferences: {
+    emailNotifications: { contentApproval: true, teamInvites: true, systemUpdates: true, weeklyDigest: false, securityAlerts: true },
+    pushNotifications: { contentPublished: true, teamMentions: true, taskAssignments: true },
+    appearance: { theme: 'system', compactMode: false, language: 'en' },
+    dashboard: { defaultView: 'overview', showMetrics: true, autoRefresh: true },
+  },
+  security: {
+    twoFactorEnabled: false,
+    lastPasswordChange: user.organizationMemberships[0]?.joinedAt ?? now(),
+    activeSessions: 1,
+  },
+  activity: { lastLoginAt: now(), lastActiveAt: now(), loginCount: 1, currentStreak: 1 },
+  verification: { emailVerified: true, phoneVerified: false },
+});
+
+const profileFor = (db: MockDatabase, user: MockUser): UserProfile => {
+  const stored = db.find<UserProfile>('userProfiles', user.id) ?? db.insert<UserProfile>('userProfiles', createProfile(user));
+  return { ...stored, email: user.email, profile: { ...stored.profile, ...user.profile } };
+};
+
+const updateProfile = (db: MockDatabase, user: MockUser, patch: Partial<UserProfile>) => {
+  const profile = { ...profileFor(db, user), ...patch };
+  db.update<MockUser>('users', user.id, {
+    profile: {
+      ...user.profile,
+      ...Object.fromEntries(SHARED_FIELDS.map((field) => [field, profile.profile[field]])),
+    },
+  });
+  return db.update<UserProfile>('userProfiles', user.id, profile)!;
+};
+
+// Every /user route acts on whoever is signed in
+const withUser = <Body>(handler: (req: MockRequest<Body>, user: MockUser) => ReturnType<MockHandler>) =>
+  (req: MockRequest<Body>) => {
+    const user = getSessionUser(req);
+    return user ? handler(req, user) : error(401, 'Not authenticated', 'UNAUTHORIZED');
+  };
+
+export const registerProfileRoutes = (router: MockRouter) => {
+  router.get('/user/profile', withUser(({ db }, user) => json({ user: profileFor(db, user) })));
+
+  router.put<UpdateProfileRequest>(
+    '/user/profile',
+    withUser(({ db, body }, user) => {
+      const current = profileFor(db, user);
+      return json({ user: updateProfile(db, user, { profile: { ...current.profile, ...body?.profile } }) });
+    })
+  );
+
+  router.put<UpdatePreferencesRequest>(
+    '/user/preferences',
+    withUser(({ db, body }, user) => {
+      const { preferences } = profileFor(db, user);
+      return json({
+        user: updateProfile(db, user, {
+          preferences: {
+            emailNotifications: { ...preferences.emailNotifications, ...body?.emailNotifications },
+            pushNotifications: { ...preferences.pushNotifications, ...body?.pushNotifications },
+            appearance: { ...preferences.appearance, ...body?.appearance },
+            dashboard: { ...preferences.dashboard, ...body?.dashboard },
+          },
+        }),
+      });
+    })
+  );
+
+  router.put<Partial<ChangePasswordRequest>>(
+    '/user/password',
+    withUser(({ db, body }, user) => {
+      if (user.password !== body?.currentPassword) {
+        return error(400, 'Current password is incorrect', 'INVALID_PASSWORD');
+      }
+      if (!body.newPassword || body.newPassword !== body.confirmPassword) {
+        return error(400, 'New passwords do not match', 'PASSWORD_MISMATCH');
+      }
+      db.update<MockUser>('users', user.id, { password: body.newPassword });
+      updateProfile(db, user, { security: { ...profileFor(db, user).security, lastPasswordChange: now() } });
+      return json({ success: true });
+    })
+  );
+
+  router.post(
+    '/user/avatar',
+    withUser(async ({ db, body }, user) => {
+      const avatar = body instanceof FormData ? body.get('avatar') : null;
+      if (!(avatar instanceof File) || !avatar.type.startsWith('image/')) {
+        return error(400, 'Choose an image for your avatar', 'VALIDATION_ERROR');
+      }
+      const current = profileFor(db, user);
+      return json({ user: updateProfile(db, user, { profile: { ...current.profile, avatar: await readAsDataUrl(avatar) } }) });
+    })
+  );
+
+  router.delete(
+    '/user/avatar',
+    withUser(({ db }, user) => {
+      const current = profileFor(db, user);
+      return json({ user: updateProfile(db, user, { profile: { ...current.profile, avatar: undefined } }) });
+    })
+  );
+
+  router.post(
+    '/user/two-factor/setup',
+    withUser((_, user) =>
+      json({
+        qrCode: `otpauth://totp/ContentAutopilot:${encodeURIComponent(user.email)}?secret=MOCKSECRET`,
+        secret: 'MOCKSECRET',
+        backupCodes: createBackupCodes(),
+      })
+    )
+  );
+
+  router.post<{ code?: string }>(
+    '/user/two-factor/enable',
+    withUser(({ db, body }, user) => {
+      if (!/^\d{6}$/.test(body?.code ?? '')) {
+        return error(400, 'Enter the 6-digit code from your authenticator app', 'INVALID_CODE');
+      }
+      const backupCodes = createBackupCodes();
+      const security = { ...profileFor(db, user).security, twoFactorEnabled: true, backupCodes };
+      return json({ user: updateProfile(db, user, { security }), backupCodes });
+    })
+  );
+
+  router.post<{ password?: string }>(
+    '/user/two-factor/disable',
+    withUser(({ db, body }, user) => {
+      if (!body?.password) {
+        return error(400, 'Password is required', 'VALIDATION_ERROR');
+      }
+      const security = { ...profileFor(db, user).security, twoFactorEnabled: false, backupCodes: undefined };
+      return json({ user: updateProfile(db, user, { security }) });
+    })
+  );
+
+  router.post('/user/verify-email/resend', withUser(() => json({ success: true })));
+
+  router.get(
+    '/user/stats',
+    withUser(({ db }, user) => {
+      const created = db.list<Content>('content').filter((item) => item.createdBy === user.id);
+      const published = created.filter((item) => item.status === 'published');
+      const engagementRates = published
+        .filter((item) => item.analytics?.impressions)
+        .map((item) => (item.analytics!.engagements / item.analytics!.impressions) * 100);
+      const joinedAt = Math.min(...user.organizationMemberships.map((membership) => Date.parse(membership.joinedAt)));
+
+      return json({
+        stats: {
+          contentCreated: created.length,
+          postsPublished: published.length,
+          teamCollaborations: user.workspaceAccess.length,
+          organizationsJoined: user.organizationMemberships.length,
+          daysActive: Number.isFinite(joinedAt) ? Math.max(1, Math.round((Date.now() - joinedAt) / DAY)) : 1,
+          averageEngagement: engagementRates.length
+            ? engagementRates.reduce((sum, rate) => sum + rate, 0) / engagementRates.length
+            : 0,
+        },
+      });
+    })
+  );
+};
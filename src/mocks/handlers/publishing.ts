@@ -0,0 +1,370 @@
+import { MockRouter, MockRequest, json, error, mockId, now, listParam } from '../router';
+import { getSessionUser, getScopedWorkspaceIds } from '../session';
+import { emitEvent, emitNotification, workspaceScope } from '../events';
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  PLATFORM_CONCURRENCY_LIMITS,
+  applyAttemptResult,
+  canCancelJob,
+  canRequeueJob,
+  isJobPaused,
+  requeueJob,
+  selectRunnableJobs,
+  startJob,
+  type PublishAttemptOutcome,
+} from '../../utils/publishingQueue';
+import { platformLabel } from '../../utils/platforms';
+import { threadProblems } from '../../utils/threadSplitting';
+import { maxImageBytes } from '../../utils/contentValidation';
+import type { MockDatabase } from '../db';
+import type { Content, ContentPlatform } from '../../store/api/contentApi';
+import type { MediaFile } from '../../store/api/mediaApi';
+import type { Notification } from '../../store/api/notificationsApi';
+import type { SocialPlatformConnection } from '../../store/api/socialPlatformsApi';
+import type {
+  PublishingJob,
+  PublishingJobStatus,
+  PublishingPlatform,
+  QueuePause,
+  QueueState,
+} from '../../store/api/publishingApi';
+
+// How long a simulated publish call stays in flight, so concurrency caps are visible
+const PUBLISH_DURATION_MS = 2500;
+const TRANSIENT_FAILURE_RATE = 0.15;
+const HOUR = 60 * 60 * 1000;
+
+type QueueBody = { workspaceId?: string; platform?: PublishingPlatform; reason?: string };
+
+const JOB_STATUSES: PublishingJobStatus[] = ['queued', 'publishing', 'retry_scheduled', 'published', 'dead_lettered', 'cancelled'];
+
+const TRANSIENT_ERRORS = [
+  { code: 'RATE_LIMITED', message: 'Rate limit reached, try again later', httpStatus: 429, retryAfterSeconds: 60 },
+  { code: 'TIMEOUT', message: 'The platform did not respond in time', httpStatus: 504 },
+  { code: 'PLATFORM_UNAVAILABLE', message: 'The platform API is temporarily unavailable', httpStatus: 503 },
+];
+
+// Stand-in for the platform API call: disconnected accounts always fail, the rest fail now and then
+const simulatePublish = (db: MockDatabase, job: PublishingJob): PublishAttemptOutcome => {
+  const connection = db.list<SocialPlatformConnection>('socialConnections').find(({ platform }) => platform === job.platform);
+  if (!connection?.isActive) {
+    return {
+      ok: false,
+      error: {
+        code: 'ACCOUNT_DISCONNECTED',
+        message: `${platformLabel(job.platform)} account is disconnected. Reconnect it, then re-queue the post.`,
+        httpStatus: 401,
+      },
+    };
+  }
+
+  if (Math.random() < TRANSIENT_FAILURE_RATE) {
+    return { ok: false, error: TRANSIENT_ERRORS[Math.floor(Math.random() * TRANSIENT_ERRORS.length)] };
+  }
+
+  // Each platform sends its own variants where it has them, and rejects images over its limit
+  const content = db.find<Content>('content', job.contentId);
+  const entry = content?.platforms.find(({ platform }) => platform === job.platform);
+  const limit = maxImageBytes(job.platform);
+  const oversized = (entry?.media ?? content?.media.map(({ id }) => id) ?? [])
+    .map((id) => db.find<MediaFile>('mediaFiles', id))
+    .find((file) => file?.type === 'image' && limit && file.size > limit);
+  if (oversized && limit) {
+    return {
+      ok: false,
+      error: {
+        code: 'MEDIA_TOO_LARGE',
+        message: `"${oversized.originalName}" is over ${platformLabel(job.platform)}'s ${limit / (1024 * 1024)} MB image limit`,
+        httpStatus: 413,
+      },
+    };
+  }
+
+  // A thread goes out as a chain of replies; the first post is the one that is linked
+  const thread = entry?.thread;
+  if (thread?.length) {
+    const [problem] = threadProblems(thread, job.platform);
+    if (problem) return { ok: false, error: { code: 'THREAD_INVALID', message: problem, httpStatus: 422 } };
+
+    const threadPostIds = thread.map(() => mockId(job.platform));
+    return { ok: true, postId: threadPostIds[0], url: `https://${job.platform}.com/p/${job.contentId}`, threadPostIds };
+  }
+
+  return { ok: true, postId: mockId(job.platform), url: `https://${job.platform}.com/p/${job.contentId}` };
+};
+
+const toPlatformStatus = (status: PublishingJobStatus): ContentPlatform['status'] => {
+  if (status === 'published') return 'published';
+  if (status === 'dead_lettered') return 'failed';
+  if (status === 'cancelled') return 'cancelled';
+  return 'scheduled';
+};
+
+// Same rule as the client's realtime cache patching; re-queued posts bring failed content back to scheduled
+const deriveContentStatus = (content: Content): Content['status'] => {
+  const statuses = content.platforms.map(({ status }) => status);
+  if (statuses.some((status) => status === 'scheduled' || status === 'draft')) {
+    return content.status === 'failed' ? 'scheduled' : content.status;
+  }
+  if (statuses.some((status) => status === 'failed')) return 'failed';
+  if (statuses.every((status) => status === 'published')) return 'published';
+  return content.status;
+};
+
+const notify = (db: MockDatabase, content: Content, notification: Pick<Notification, 'type' | 'title' | 'message' | 'priority'>) =>
+  emitNotification(
+    db.insert<Notification>('notifications', {
+      id: mockId('notif'),
+      ...notification,
+      data: { contentId: content.id },
+      read: false,
+      ...workspaceScope(db, content.workspaceId),
+      userId: content.createdBy,
+      actionUrl: `/content/${content.id}`,
+      createdAt: now(),
+    })
+  );
+
+// Mirrors a job onto its content's platform entry and tells subscribed clients
+const syncContent = (db: MockDatabase, job: PublishingJob) => {
+  const content = db.find<Content>('content', job.contentId);
+  if (!content) return;
+
+  const status = toPlatformStatus(job.status);
+  const publishedAt = job.status === 'published' ? job.completedAt : undefined;
+  const error = job.status === 'queued' ? undefined : job.lastError?.message;
+  const platforms = content.platforms.map((platform) =>
+    platform.platform === job.platform
+      ? {
+          ...platform,
+          status,
+          publishedAt: publishedAt ?? platform.publishedAt,
+          publishingResult: job.result ? { postId: job.result.postId, url: job.result.url } : error ? { error } : undefined,
+          thread: platform.thread?.map((post, index) => {
+            const postId = job.result?.threadPostIds?.[index];
+            return { ...post, publishingResult: postId ? { postId, url: `https://${job.platform}.com/p/${postId}` } : undefined };
+          }),
+        }
+      : platform
+  );
+  const contentStatus = deriveContentStatus({ ...content, platforms });
+  const justPublished = contentStatus === 'published' && content.status !== 'published';
+
+  const updated = db.update<Content>('content', content.id, {
+    platforms,
+    status: contentStatus,
+    ...(justPublished && { publishedAt: now() }),
+    updatedAt: now(),
+  })!;
+
+  emitEvent({
+    type: 'publishing.status_changed',
+    ...workspaceScope(db, content.workspaceId),
+    payload: {
+      contentId: content.id,
+      platform: job.platform,
+      status,
+      contentStatus,
+      publishedAt,
+      postId: job.result?.postId,
+      url: job.result?.url,
+      error,
+    },
+  });
+
+  if (justPublished) {
+    const count = updated.platforms.length;
+    notify(db, updated, {
+      type: 'content_published',
+      title: 'Content published',
+      message: `"${content.title}" was published to ${count} platform${count === 1 ? '' : 's'}`,
+      priority: 'low',
+    });
+  }
+
+  if (job.status === 'dead_lettered') {
+    notify(db, updated, {
+      type: 'content_failed',
+      title: 'Publishing failed',
+      message: `"${content.title}" failed on ${platformLabel(job.platform)}: ${job.lastError?.message}`,
+      priority: 'high',
+    });
+  }
+};
+
+const saveJob = (db: MockDatabase, job: PublishingJob) => db.update<PublishingJob>('publishingJobs', job.id, job)!;
+
+// Due platform posts that have no job for their current slot yet
+const enqueueDueContent = (db: MockDatabase) => {
+  const jobs = db.list<PublishingJob>('publishingJobs');
+  const timestamp = now();
+
+  db.list<Content>('content')
+    .filter((content) => content.status === 'scheduled' && content.scheduledAt && content.scheduledAt <= timestamp)
+    .forEach((content) =>
+      content.platforms
+        .filter((platform) => platform.status === 'scheduled')
+        .forEach((platform) => {
+          const scheduledAt = platform.scheduledAt ?? content.scheduledAt!;
+          const exists = jobs.some(
+            (job) => job.contentId === content.id && job.platform === platform.platform && job.scheduledAt === scheduledAt
+          );
+          if (exists || scheduledAt > timestamp) return;
+
+          db.insert<PublishingJob>('publishingJobs', {
+            id: mockId('job'),
+            contentId: content.id,
+            workspaceId: content.workspaceId,
+            platform: platform.platform,
+            title: content.title,
+            priority: content.priority,
+            status: 'queued',
+            scheduledAt,
+            attempts: 0,
+            maxAttempts: DEFAULT_MAX_ATTEMPTS,
+            errors: [],
+            createdAt: timestamp,
+            updatedAt: timestamp,
+          });
+        })
+    );
+};
+
+/**
+ * One tick of the publishing worker. There is no scheduler behind the mock,
+ * so this runs whenever a client polls the realtime stream or the queue:
+ * due posts are enqueued, finished calls are settled and free slots are
+ * filled with the next runnable jobs.
+ */
+export const runPublishingQueue = (db: MockDatabase) => {
+  enqueueDueContent(db);
+
+  const current = new Date();
+  db.list<PublishingJob>('publishingJobs')
+    .filter((job) => job.status === 'publishing' && new Date(job.startedAt!).getTime() + PUBLISH_DURATION_MS <= current.getTime())
+    .forEach((job) => syncContent(db, saveJob(db, applyAttemptResult(job, simulatePublish(db, job), current))));
+
+  selectRunnableJobs(db.list<PublishingJob>('publishingJobs'), db.list<QueuePause>('queuePauses'), { now: current })
+    .forEach((job) => saveJob(db, startJob(job, current)));
+};
+
+// A queue action names its workspace in the body; reads name it in the query
+const requestWorkspaceId = (req: MockRequest, workspaceId?: string) =>
+  req.query.get('workspaceId') || workspaceId || getScopedWorkspaceIds(req)[0];
+
+const findPause = (db: MockDatabase, workspaceId: string, platform?: PublishingPlatform) =>
+  db.list<QueuePause>('queuePauses').find((pause) => pause.workspaceId === workspaceId && pause.platform === platform);
+
+const buildQueueState = (db: MockDatabase, workspaceId: string): QueueState => {
+  const all = db.list<PublishingJob>('publishingJobs');
+  const jobs = all.filter((job) => job.workspaceId === workspaceId);
+  const pauses = db.list<QueuePause>('queuePauses').filter((pause) => pause.workspaceId === workspaceId);
+  const hourAgo = new Date(Date.now() - HOUR).toISOString();
+
+  return {
+    workspaceId,
+    paused: pauses.some((pause) => !pause.platform),
+    pauses,
+    platforms: (Object.keys(PLATFORM_CONCURRENCY_LIMITS) as PublishingPlatform[]).map((platform) => ({
+      platform,
+      concurrencyLimit: PLATFORM_CONCURRENCY_LIMITS[platform],
+      // The cap is shared by every workspace publishing to the platform
+      active: all.filter((job) => job.platform === platform && job.status === 'publishing').length,
+      waiting: jobs.filter((job) => job.platform === platform && (job.status === 'queued' || job.status === 'retry_scheduled')).length,
+      paused: isJobPaused({ workspaceId, platform }, pauses),
+    })),
+    counts: Object.fromEntries(
+      JOB_STATUSES.map((status) => [status, jobs.filter((job) => job.status === status).length])
+    ) as Record<PublishingJobStatus, number>,
+    publishedLastHour: jobs.filter((job) => job.status === 'published' && job.completedAt! >= hourAgo).length,
+    failedLastHour: jobs.flatMap((job) => job.errors).filter((failure) => failure.occurredAt >= hourAgo).length,
+  };
+};
+
+// Applies `change` to the listed jobs in scope that `allowed` accepts
+const updateJobs = (
+  req: MockRequest<{ ids?: string[] } | undefined>,
+  allowed: (job: PublishingJob) => boolean,
+  change: (job: PublishingJob) => PublishingJob
+) => {
+  const workspaceIds = getScopedWorkspaceIds(req);
+  return (req.body?.ids || [])
+    .map((id) => req.db.find<PublishingJob>('publishingJobs', id))
+    .filter((job): job is PublishingJob => Boolean(job && workspaceIds.includes(job.workspaceId) && allowed(job)))
+    .map((job) => {
+      const updated = saveJob(req.db, change(job));
+      syncContent(req.db, updated);
+      return updated;
+    });
+};
+
+export const registerPublishingRoutes = (router: MockRouter) => {
+  router.get('/publishing/jobs', (req) => {
+    runPublishingQueue(req.db);
+
+    const workspaceIds = req.query.get('workspaceId') ? [req.query.get('workspaceId')!] : getScopedWorkspaceIds(req);
+    const status = listParam(req.query, 'status');
+    const platform = req.query.get('platform');
+    const contentId = req.query.get('contentId');
+
+    const jobs = req.db
+      .list<PublishingJob>('publishingJobs')
+      .filter((job) => workspaceIds.includes(job.workspaceId))
+      .filter((job) => !status.length || status.includes(job.status))
+      .filter((job) => !platform || job.platform === platform)
+      .filter((job) => !contentId || job.contentId === contentId)
+      .sort((a, b) => b.scheduledAt.localeCompare(a.scheduledAt));
+
+    return json({ jobs });
+  });
+
+  router.get('/publishing/queue', (req) => {
+    runPublishingQueue(req.db);
+    return json({ state: buildQueueState(req.db, requestWorkspaceId(req)) });
+  });
+
+  router.post<QueueBody | undefined>('/publishing/queue/pause', (req) => {
+    const user = getSessionUser(req);
+    if (!user) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+
+    const workspaceId = requestWorkspaceId(req, req.body?.workspaceId);
+    const platform = req.body?.platform;
+    const existing = findPause(req.db, workspaceId, platform);
+    if (existing) return json({ pause: existing });
+
+    const pause = req.db.insert<QueuePause>('queuePauses', {
+      id: mockId('pause'),
+      workspaceId,
+      platform,
+      reason: req.body?.reason,
+      pausedBy: user.id,
+      pausedAt: now(),
+    });
+    return json({ pause }, 201);
+  });
+
+  router.post<QueueBody | undefined>('/publishing/queue/resume', (req) => {
+    const user = getSessionUser(req);
+    if (!user) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+
+    const pause = findPause(req.db, requestWorkspaceId(req, req.body?.workspaceId), req.body?.platform);
+    if (pause) req.db.remove('queuePauses', pause.id);
+    return json({ message: 'Queue resumed' });
+  });
+
+  router.post<{ ids?: string[] } | undefined>('/publishing/jobs/requeue', (req) => {
+    if (!getSessionUser(req)) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+
+    const jobs = updateJobs(req, canRequeueJob, (job) => requeueJob(job));
+    if (!jobs.length) return error(400, 'None of these jobs can be re-queued', 'VALIDATION_ERROR');
+    return json({ jobs });
+  });
+
+  router.post<{ ids?: string[] } | undefined>('/publishing/jobs/cancel', (req) => {
+    if (!getSessionUser(req)) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+
+    const jobs = updateJobs(req, canCancelJob, (job) => ({ ...job, status: 'cancelled', nextAttemptAt: undefined, updatedAt: now() }));
+    if (!jobs.length) return error(400, 'None of these jobs can be cancelled', 'VALIDATION_ERROR');
+    return json({ jobs });
+  });
+};
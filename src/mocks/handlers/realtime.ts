@@ -0,0 +1,34 @@
+import { MockRouter, json, error } from '../router';
+import { getSessionUser } from '../session';
+import { eventsSince, latestEventId } from '../events';
+import { runPublishingQueue } from './publishing';
+import type { RealtimeEvent } from '../../store/realtime/types';
+
+const isVisibleTo = (event: RealtimeEvent, userId: string, organizationId: string | null, workspaceId: string | null) => {
+  if (organizationId && event.organizationId !== organizationId) return false;
+  if (workspaceId && event.workspaceId && event.workspaceId !== workspaceId) return false;
+  return event.type !== 'notification.created' || event.payload.notification.userId === userId;
+};
+
+export const registerRealtimeRoutes = (router: MockRouter) => {
+  router.get('/realtime/events', (req) => {
+    const user = getSessionUser(req);
+    if (!user) return error(401, 'Not authenticated', 'UNAUTHORIZED');
+
+    runPublishingQueue(req.db);
+
+    // The first poll only establishes the cursor
+    const since = req.query.get('since');
+    if (!since) return json({ events: [], cursor: latestEventId() });
+
+    const events = eventsSince(since);
+    if (!events) return json({ events: [], cursor: latestEventId(), resync: true });
+
+    const organizationId = req.headers.get('x-organization-id');
+    const workspaceId = req.headers.get('x-workspace-id');
+    return json({
+      events: events.filter((event) => isVisibleTo(event, user.id, organizationId, workspaceId)),
+      cursor: latestEventId(),
+    });
+  });
+};
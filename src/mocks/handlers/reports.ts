@@ -0,0 +1,201 @@
+import { MockRouter, MockRequest, json, error, notFound, mockId, now, paginate } from '../router';
+import { getScopedWorkspaceIds } from '../session';
+import type { Content } from '../../store/api/contentApi';
+import type {
+  CreateScheduleRequest,
+  GeneratedReport,
+  GenerateReportRequest,
+  ReportSchedule,
+  ReportTemplate,
+} from '../../store/api/reportGenerationApi';
+
+const DAY = 24 * 60 * 60 * 1000;
+const REPORT_TTL_MS = 30 * DAY;
+
+const TIMEFRAME_DAYS: Record<string, number> = { last7days: 7, last30days: 30, last90days: 90, lastYear: 365 };
+
+const section = (id: string, type: ReportTemplate['sections'][number]['type'], title: string, order: number) => ({
+  id,
+  type,
+  title,
+  configuration: {},
+  order,
+});
+
+const REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'report_template_performance',
+    name: 'Content performance',
+    type: 'performance',
+    description: 'Reach, engagement and top posts for the period',
+    sections: [section('summary', 'metrics_summary', 'Summary', 1), section('top', 'tables', 'Top posts', 2)],
+    defaultFilters: { timeframe: 'last30days' },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'report_template_comprehensive',
+    name: 'Monthly client report',
+    type: 'comprehensive',
+    description: 'Everything a client review needs: results, insights and next steps',
+    sections: [
+      section('summary', 'metrics_summary', 'Summary', 1),
+      section('trend', 'charts', 'Engagement over time', 2),
+      section('insights', 'insights', 'Insights', 3),
+      section('next', 'recommendations', 'Recommendations', 4),
+    ],
+    defaultFilters: { timeframe: 'last30days' },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+const organizationId = (req: MockRequest) => req.headers.get('x-organization-id') || '';
+
+const ownReports = (req: MockRequest) =>
+  req.db.list<GeneratedReport>('reports').filter((report) => report.organizationId === organizationId(req));
+
+// Reports are rendered straight away as CSV, whatever format was asked for
+const renderReport = (req: MockRequest, filters: GenerateReportRequest['filters']) => {
+  const since = Date.now() - (TIMEFRAME_DAYS[filters.timeframe] ?? 30) * DAY;
+  const workspaceIds = getScopedWorkspaceIds(req);
+  const rows = req.db
+    .list<Content>('content')
+    .filter((item) => workspaceIds.includes(item.workspaceId) && item.publishedAt && Date.parse(item.publishedAt) >= since)
+    .filter((item) => !filters.platforms?.length || item.platforms.some((platform) => filters.platforms!.includes(platform.platform)))
+    .filter((item) => !filters.contentTypes?.length || filters.contentTypes.includes(item.type))
+    .map((item) => [
+      JSON.stringify(item.title),
+      item.platforms.map((platform) => platform.platform).join(' '),
+      item.publishedAt,
+      item.analytics?.impressions ?? 0,
+      item.analytics?.engagements ?? 0,
+    ]);
+  const csv = [['title', 'platforms', 'publishedAt', 'impressions', 'engagements'], ...rows].map((row) => row.join(',')).join('\n');
+  return { csv, dataPoints: rows.length * 4 };
+};
+
+// Next run of a schedule after `from`, in the browser's time zone
+const nextRun = (schedule: Pick<ReportSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'time'>, from = new Date()) => {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const next = new Date(from);
+  next.setHours(hours || 0, minutes || 0, 0, 0);
+  if (schedule.frequency === 'weekly') {
+    next.setDate(next.getDate() + (((schedule.dayOfWeek ?? 1) - next.getDay() + 7) % 7));
+  } else if (schedule.frequency === 'monthly' || schedule.frequency === 'quarterly') {
+    next.setDate(schedule.dayOfMonth ?? 1);
+  }
+  while (next <= from) {
+    if (schedule.frequency === 'daily') next.setDate(next.getDate() + 1);
+    else if (schedule.frequency === 'weekly') next.setDate(next.getDate() + 7);
+    else next.setMonth(next.getMonth() + (schedule.frequency === 'quarterly' ? 3 : 1));
+  }
+  return next.toISOString();
+};
+
+export const registerReportRoutes = (router: MockRouter) => {
+  router.get('/reports/templates', () => json({ templates: REPORT_TEMPLATES }));
+
+  router.get('/reports/schedules', (req) =>
+    json({
+      schedules: req.db
+        .list<ReportSchedule>('reportSchedules')
+        .filter((schedule) => schedule.organizationId === organizationId(req)),
+    })
+  );
+
+  router.post<CreateScheduleRequest>('/reports/schedules', (req) => {
+    if (!REPORT_TEMPLATES.some((template) => template.id === req.body?.templateId)) {
+      return error(400, 'Choose a report template', 'VALIDATION_ERROR');
+    }
+    const schedule = req.db.insert<ReportSchedule>('reportSchedules', {
+      ...req.body,
+      id: mockId('report_schedule'),
+      organizationId: organizationId(req),
+      isActive: true,
+      nextScheduled: nextRun(req.body),
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ schedule }, 201);
+  });
+
+  router.put<Partial<CreateScheduleRequest> & { isActive?: boolean }>('/reports/schedules/:id', ({ db, params, body }) => {
+    const existing = db.find<ReportSchedule>('reportSchedules', params.id);
+    if (!existing) return notFound('Report schedule');
+
+    const updated = { ...existing, ...body };
+    const schedule = db.update<ReportSchedule>('reportSchedules', params.id, {
+      ...body,
+      nextScheduled: nextRun(updated),
+      updatedAt: now(),
+    });
+    return json({ schedule });
+  });
+
+  router.delete('/reports/schedules/:id', ({ db, params }) =>
+    db.remove('reportSchedules', params.id) ? json({ message: 'Report schedule deleted' }) : notFound('Report schedule')
+  );
+
+  router.post<GenerateReportRequest>('/reports/generate', (req) => {
+    const template = REPORT_TEMPLATES.find((candidate) => candidate.id === req.body?.templateId);
+    if (!template) return error(400, 'Choose a report template', 'VALIDATION_ERROR');
+
+    const started = performance.now();
+    const filters = { ...template.defaultFilters, ...req.body.filters };
+    const { csv, dataPoints } = renderReport(req, filters);
+    const report = req.db.insert<GeneratedReport>('reports', {
+      id: mockId('report'),
+      organizationId: organizationId(req),
+      templateId: template.id,
+      name: `${template.name} – ${new Date().toLocaleDateString()}`,
+      type: template.type,
+      format: req.body.format ?? 'csv',
+      status: 'completed',
+      fileUrl: `data:text/csv;charset=utf-8,${encodeURIComponent(csv)}`,
+      fileSize: new Blob([csv]).size,
+      generatedAt: now(),
+      expiresAt: new Date(Date.now() + REPORT_TTL_MS).toISOString(),
+      filters,
+      metadata: {
+        sections: template.sections.length,
+        dataPoints,
+        generationTime: Math.round(performance.now() - started),
+      },
+    });
+    return json({ report }, 201);
+  });
+
+  router.get('/reports', (req) => {
+    const type = req.query.get('type');
+    const status = req.query.get('status');
+    const reports = ownReports(req)
+      .filter((report) => (!type || report.type === type) && (!status || report.status === status))
+      .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+    const page = paginate(reports, req.query, 10);
+    const totalPages = Math.max(1, Math.ceil(page.total / page.limit));
+
+    return json({
+      reports: page.items,
+      totalCount: page.total,
+      currentPage: page.page,
+      totalPages,
+      hasNextPage: page.hasMore,
+      hasPreviousPage: page.page > 1,
+    });
+  });
+
+  router.get('/reports/:id', ({ db, params }) => {
+    const report = db.find<GeneratedReport>('reports', params.id);
+    return report ? json({ report }) : notFound('Report');
+  });
+
+  router.get('/reports/:id/download', ({ db, params }) => {
+    const report = db.find<GeneratedReport>('reports', params.id);
+    return report?.fileUrl ? json({ downloadUrl: report.fileUrl }) : notFound('Report');
+  });
+
+  router.delete('/reports/:id', ({ db, params }) =>
+    db.remove('reports', params.id) ? json({ message: 'Report deleted' }) : notFound('Report')
+  );
+};
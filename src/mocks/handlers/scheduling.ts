@@ -0,0 +1,33 @@
+import { MockRouter, json, notFound, mockId } from '../router';
+import { getScopedWorkspaceIds } from '../session';
+import type { MockRecurrenceRule } from '../fixtures';
+import type { RecurrenceRuleRequest } from '../../store/api/schedulingApi';
+
+export const registerSchedulingRoutes = (router: MockRouter) => {
+  router.get('/scheduling/recurrence-rules', (req) => {
+    const workspaceIds = getScopedWorkspaceIds(req);
+    const rules = req.db
+      .list<MockRecurrenceRule>('recurrenceRules')
+      .filter((rule) => workspaceIds.includes(rule.workspaceId));
+    return json({ rules });
+  });
+
+  router.post<RecurrenceRuleRequest>('/scheduling/recurrence-rules', (req) => {
+    const rule = req.db.insert<MockRecurrenceRule>('recurrenceRules', {
+      ...req.body,
+      id: mockId('recurrence'),
+      workspaceId: getScopedWorkspaceIds(req)[0],
+      analytics: { totalScheduled: 0, published: 0, failed: 0, averageEngagement: 0 },
+    });
+    return json({ rule }, 201);
+  });
+
+  router.put<Partial<RecurrenceRuleRequest>>('/scheduling/recurrence-rules/:id', ({ db, params, body }) => {
+    const rule = db.update<MockRecurrenceRule>('recurrenceRules', params.id, body);
+    return rule ? json({ rule }) : notFound('Recurrence rule');
+  });
+
+  router.delete('/scheduling/recurrence-rules/:id', ({ db, params }) =>
+    db.remove('recurrenceRules', params.id) ? json({ success: true }) : notFound('Recurrence rule')
+  );
+};
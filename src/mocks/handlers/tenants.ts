@@ -0,0 +1,108 @@
+import { MockRouter, json, notFound, mockId } from '../router';
+import { getSessionUser, toPublicUser } from '../session';
+import type { MockUser } from '../fixtures';
+import type { Organization, ClientWorkspace } from '../../store/slices/tenantSlice';
+
+type NewWorkspaceBody = Pick<ClientWorkspace, 'name' | 'client'> & { branding?: Partial<ClientWorkspace['branding']> };
+
+export const registerTenantRoutes = (router: MockRouter) => {
+  router.get('/organizations', (req) => {
+    const user = getSessionUser(req);
+    const memberOf = new Set(user?.organizationMemberships.map((membership) => membership.organizationId));
+    return json({ organizations: req.db.list<Organization>('organizations').filter((org) => memberOf.has(org.id)) });
+  });
+
+  router.get('/organizations/:id', ({ db, params }) => {
+    const organization = db.find('organizations', params.id);
+    return organization ? json({ organization }) : notFound('Organization');
+  });
+
+  router.put<Partial<Organization>>('/organizations/:id', ({ db, params, body }) => {
+    const existing = db.find<Organization>('organizations', params.id);
+    if (!existing) return notFound('Organization');
+
+    const organization = db.update<Organization>('organizations', params.id, {
+      ...body,
+      settings: { ...existing.settings, ...body?.settings },
+    });
+    return json({ organization });
+  });
+
+  router.get('/organizations/:id/members', ({ db, params }) => {
+    const members = db
+      .list<MockUser>('users')
+      .map((user) => ({ user, membership: user.organizationMemberships.find((m) => m.organizationId === params.id) }))
+      .filter(({ membership }) => membership)
+      .map(({ user, membership }) => ({
+        ...toPublicUser(user),
+        role: membership!.role,
+        permissions: membership!.permissions,
+        joinedAt: membership!.joinedAt,
+        lastActiveAt: new Date().toISOString(),
+      }));
+    return json({ members });
+  });
+
+  router.get('/organizations/:id/invites', () => json({ invites: [] }));
+
+  router.get('/workspaces', (req) => {
+    const organizationId = req.headers.get('x-organization-id');
+    return json({
+      workspaces: req.db
+        .list<ClientWorkspace>('workspaces')
+        .filter((workspace) => !organizationId || workspace.organizationId === organizationId),
+    });
+  });
+
+  router.post<NewWorkspaceBody>('/workspaces', (req) => {
+    const { body } = req;
+    const organizationId = req.headers.get('x-organization-id') || '';
+    const workspace = req.db.insert<ClientWorkspace>('workspaces', {
+      id: mockId('ws'),
+      organizationId,
+      name: body.name,
+      slug: String(body.name).toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      client: body.client,
+      branding: {
+        brandVoice: body.branding?.brandVoice || '',
+        toneOfVoice: body.branding?.toneOfVoice || 'professional',
+        targetAudience: body.branding?.targetAudience || '',
+        keyMessages: [],
+        brandColors: { primary: '#1976d2', secondary: '#1f2937', ...body.branding?.brandColors },
+      },
+      contentSettings: {
+        defaultVoice: body.branding?.toneOfVoice || 'professional',
+        contentPillars: [],
+        defaultPlatforms: [],
+        approvalRequired: true,
+        autoPublish: false,
+        minPostSpacingMinutes: 60,
+      },
+      status: 'active',
+      totalContent: 0,
+      totalPublished: 0,
+    });
+    return json({ workspace }, 201);
+  });
+
+  router.get('/workspaces/:id', ({ db, params }) => {
+    const workspace = db.find('workspaces', params.id);
+    return workspace ? json({ workspace }) : notFound('Workspace');
+  });
+
+  router.put<Partial<ClientWorkspace>>('/workspaces/:id', ({ db, params, body }) => {
+    const existing = db.find<ClientWorkspace>('workspaces', params.id);
+    if (!existing) return notFound('Workspace');
+
+    const workspace = db.update<ClientWorkspace>('workspaces', params.id, {
+      ...body,
+      client: { ...existing.client, ...body?.client },
+      branding: { ...existing.branding, ...body?.branding },
+    });
+    return json({ workspace });
+  });
+
+  router.delete('/workspaces/:id', ({ db, params }) =>
+    db.remove('workspaces', params.id) ? json({ success: true }) : notFound('Workspace')
+  );
+};
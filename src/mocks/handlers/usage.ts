@@ -0,0 +1,240 @@
+import { MockRouter, MockRequest, json, mockId, now } from '../router';
+import { getSessionUser, getScopedWorkspaceIds } from '../session';
+import type { Content } from '../../store/api/contentApi';
+import type { ContentTemplate } from '../../store/api/templatesApi';
+import type { MockMediaFile } from '../fixtures';
+import type { Organization } from '../../store/slices/tenantSlice';
+import type { RateLimitRule, UsageAlert, UsageMetrics } from '../../store/api/usageApi';
+
+const DAY = 24 * 60 * 60 * 1000;
+const PERIOD_MS = { hour: 60 * 60 * 1000, day: DAY, month: 30 * DAY };
+
+// Per-unit prices in USD
+const PRICES = { request: 0.00002, storageByte: 0.023 / 1024 ** 3, bandwidthByte: 0.09 / 1024 ** 3, published: 0.01 };
+
+type Period = keyof typeof PERIOD_MS;
+
+type RateLimitBody = Pick<RateLimitRule, 'endpoint' | 'method' | 'limits'> &
+  Partial<Pick<RateLimitRule, 'tiers' | 'whitelist' | 'blacklist'>>;
+
+type AlertBody = Pick<UsageAlert, 'type' | 'metric' | 'threshold' | 'notifications'> & Partial<Pick<UsageAlert, 'actions'>>;
+
+const organizationOf = (req: MockRequest) =>
+  req.db.find<Organization>('organizations', req.headers.get('x-organization-id') || '');
+
+// Usage in [start, end) worked out from the content and media the organization actually has
+const measure = (req: MockRequest, start: number, end: number, type: Period): UsageMetrics => {
+  const workspaceIds = getScopedWorkspaceIds(req);
+  const within = (date?: string) => Boolean(date) && Date.parse(date!) >= start && Date.parse(date!) < end;
+  const content = req.db.list<Content>('content').filter((item) => workspaceIds.includes(item.workspaceId));
+  const media = req.db.list<MockMediaFile>('mediaFiles').filter((file) => !file.workspaceId || workspaceIds.includes(file.workspaceId));
+
+  const published = content.filter((item) => within(item.publishedAt)).length;
+  const scheduled = content.filter((item) => within(item.scheduledAt)).length;
+  const uploaded = media.filter((file) => within(file.uploadedAt));
+  const totalRequests = 40 * (content.filter((item) => within(item.updatedAt)).length + uploaded.length) + 120 * published;
+  const failedRequests = Math.round(totalRequests * 0.012);
+  const mediaStorage = media.reduce((sum, file) => sum + file.size, 0);
+  const documentStorage = content.reduce((sum, item) => sum + item.body.length * 2, 0);
+  const outgoing = totalRequests * 2048;
+
+  const costs = {
+    api: totalRequests * PRICES.request,
+    storage: (mediaStorage + documentStorage) * PRICES.storageByte,
+    bandwidth: outgoing * PRICES.bandwidthByte,
+    features: published * PRICES.published,
+  };
+
+  return {
+    id: `usage_${type}_${start}`,
+    organizationId: organizationOf(req)?.id ?? '',
+    period: { start: new Date(start).toISOString(), end: new Date(end).toISOString(), type },
+    api: {
+      totalRequests,
+      successfulRequests: totalRequests - failedRequests,
+      failedRequests,
+      averageResponseTime: 142,
+      endpointUsage: {
+        '/content': { requests: Math.round(totalRequests * 0.6), errors: Math.round(failedRequests * 0.5), averageResponseTime: 120 },
+        '/media': { requests: Math.round(totalRequests * 0.3), errors: Math.round(failedRequests * 0.4), averageResponseTime: 210 },
+        '/analytics': { requests: Math.round(totalRequests * 0.1), errors: Math.round(failedRequests * 0.1), averageResponseTime: 95 },
+      },
+    },
+    features: {
+      contentScheduled: scheduled,
+      contentPublished: published,
+      templatesUsed: req.db.list<ContentTemplate>('templates').filter((template) => within(template.usage.lastUsedAt)).length,
+      analysisRuns: published,
+      mediaUploaded: uploaded.length,
+      membersActive: new Set(content.filter((item) => within(item.updatedAt)).map((item) => item.updatedBy ?? item.createdBy)).size,
+      workspacesCreated: 0,
+    },
+    storage: { mediaStorage, documentStorage, databaseSize: documentStorage, totalStorage: mediaStorage + documentStorage * 2 },
+    bandwidth: { incoming: uploaded.reduce((sum, file) => sum + file.size, 0), outgoing, total: outgoing },
+    rateLimits: [],
+    costs: { ...costs, total: costs.api + costs.storage + costs.bandwidth + costs.features },
+  };
+};
+
+const quotaStatus = (req: MockRequest) => {
+  const organization = organizationOf(req);
+  if (!organization) return [];
+
+  return (
+    [
+      ['Workspaces', organization.usage.clientWorkspaces, organization.limits.clientWorkspaces],
+      ['Content this month', organization.usage.contentGenerated, organization.limits.contentPerMonth],
+      ['Team members', organization.usage.teamMembers, organization.limits.teamMembers],
+      ['Storage (GB)', organization.usage.storageUsed, organization.limits.storageGB],
+    ] as const
+  ).map(([feature, used, limit]) => {
+    const percentage = limit ? (used / limit) * 100 : 0;
+    return {
+      feature,
+      used,
+      limit,
+      percentage,
+      status: percentage >= 100 ? 'exceeded' : percentage >= 90 ? 'critical' : percentage >= 75 ? 'warning' : 'normal',
+    } as const;
+  });
+};
+
+const toCsv = (rows: (string | number)[][]) => rows.map((row) => row.join(',')).join('\n');
+
+export const registerUsageRoutes = (router: MockRouter) => {
+  router.get('/usage/metrics', (req) => {
+    const type = (req.query.get('period') as Period | null) ?? 'day';
+    const length = PERIOD_MS[type] ?? DAY;
+    const end = Date.now();
+    const historical = Array.from({ length: 6 }, (_, index) => measure(req, end - (index + 2) * length, end - (index + 1) * length, type));
+    const current = measure(req, end - length, end, type);
+    const month = measure(req, end - 30 * DAY, end, 'month');
+
+    return json({
+      current,
+      historical,
+      projections: {
+        nextPeriod: { api: current.api, features: current.features, costs: current.costs },
+        endOfMonth: { costs: month.costs },
+      },
+    });
+  });
+
+  router.get('/usage/rate-limits', (req) => {
+    const organizationId = organizationOf(req)?.id;
+    const rules = req.db.list<RateLimitRule>('rateLimitRules').filter((rule) => rule.organizationId === organizationId);
+    const resetTime = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    return json({
+      rules,
+      currentLimits: rules
+        .filter((rule) => rule.isActive)
+        .map((rule) => ({ endpoint: rule.endpoint, remaining: rule.limits.requests, resetTime, violations: 0 })),
+    });
+  });
+
+  router.post<RateLimitBody>('/usage/rate-limits', (req) => {
+    const rule = req.db.insert<RateLimitRule>('rateLimitRules', {
+      tiers: [],
+      whitelist: [],
+      blacklist: [],
+      ...req.body,
+      id: mockId('ratelimit'),
+      organizationId: organizationOf(req)?.id ?? '',
+      isActive: true,
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ rule }, 201);
+  });
+
+  router.get('/usage/alerts', (req) => {
+    const organizationId = organizationOf(req)?.id;
+    const status = req.query.get('status');
+    const alerts = req.db
+      .list<UsageAlert>('usageAlerts')
+      .filter((alert) => alert.organizationId === organizationId && (!status || alert.status === status));
+    return json({
+      alerts,
+      activeAlerts: alerts.filter((alert) => alert.isActive),
+      recentTriggers: alerts
+        .filter((alert) => alert.lastTriggered)
+        .map((alert) => ({
+          alert,
+          triggeredAt: alert.lastTriggered!,
+          value: alert.threshold.value,
+          resolved: alert.status === 'resolved',
+        })),
+    });
+  });
+
+  router.post<AlertBody>('/usage/alerts', (req) => {
+    const alert = req.db.insert<UsageAlert>('usageAlerts', {
+      actions: { notify: true },
+      ...req.body,
+      id: mockId('alert'),
+      organizationId: organizationOf(req)?.id ?? '',
+      status: 'active',
+      triggerCount: 0,
+      isActive: true,
+      createdBy: getSessionUser(req)?.id ?? '',
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ alert }, 201);
+  });
+
+  router.get('/usage/realtime', (req) => {
+    const { api } = measure(req, Date.now() - PERIOD_MS.hour, Date.now(), 'hour');
+    return json({
+      realtime: {
+        activeConnections: 1,
+        requestsPerSecond: Math.round((api.totalRequests / 3600) * 100) / 100,
+        errorRate: api.totalRequests ? Math.round((api.failedRequests / api.totalRequests) * 1000) / 10 : 0,
+        averageResponseTime: api.averageResponseTime,
+      },
+      quotaStatus: quotaStatus(req),
+    });
+  });
+
+  // The mock only writes CSV; other formats get the same rows so the download still opens
+  router.post<{ startDate: string; endDate: string; format: string }>('/usage/reports/generate', (req) => {
+    const usage = measure(req, Date.parse(req.body.startDate), Date.parse(req.body.endDate), 'day');
+    const csv = toCsv([
+      ['metric', 'value'],
+      ['requests', usage.api.totalRequests],
+      ['failed requests', usage.api.failedRequests],
+      ['content published', usage.features.contentPublished],
+      ['media uploaded', usage.features.mediaUploaded],
+      ['storage bytes', usage.storage.totalStorage],
+      ['cost usd', usage.costs.total.toFixed(2)],
+    ]);
+    return json({ reportId: mockId('usage_report'), downloadUrl: `data:text/csv;charset=utf-8,${encodeURIComponent(csv)}` });
+  });
+
+  router.get('/usage/cost-analysis', (req) => {
+    const end = Date.now();
+    const current = measure(req, end - 30 * DAY, end, 'month');
+    const last = measure(req, end - 60 * DAY, end - 30 * DAY, 'month');
+    const change = current.costs.total - last.costs.total;
+    const { total, ...breakdown } = current.costs;
+
+    return json({
+      current: {
+        total,
+        breakdown,
+        comparison: { lastPeriod: last.costs.total, change, changePercent: last.costs.total ? (change / last.costs.total) * 100 : 0 },
+      },
+      projections: { nextMonth: total, yearEnd: total * (12 - new Date().getMonth()), potential: total * 0.85 },
+      optimization: current.storage.mediaStorage
+        ? [
+            {
+              feature: 'storage',
+              currentCost: current.costs.storage,
+              potentialSaving: current.costs.storage * 0.3,
+              recommendation: 'Archive media that no published content uses',
+            },
+          ]
+        : [],
+    });
+  });
+};
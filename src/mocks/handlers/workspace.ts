@@ -0,0 +1,209 @@
+import { MockRouter, json, error, notFound, mockId, now, paginate } from '../router';
+import { getSessionUser, getScopedWorkspaceIds } from '../session';
+import type { Content } from '../../store/api/contentApi';
+import type { ContentTemplate, BrandGuidelines } from '../../store/api/templatesApi';
+import type { CreateDraftRequest, ValidateContentRequest } from '../../store/api/contentCreationApi';
+import type { SocialPlatformConnection } from '../../store/api/socialPlatformsApi';
+import { PLATFORM_TEXT_RULES, countCharacters } from '../../utils/textMetrics';
+
+type GuidelinesBody = Omit<BrandGuidelines, 'id' | 'organizationId' | 'isActive' | 'version' | 'createdBy' | 'createdAt' | 'updatedAt'>;
+
+type TemplateBody = Pick<ContentTemplate, 'name' | 'category' | 'content' | 'platforms'> & Partial<ContentTemplate>;
+
+// Falls back to the first workspace in scope when the client leaves it out
+type DraftBody = Omit<CreateDraftRequest, 'workspaceId'> & Partial<Pick<CreateDraftRequest, 'workspaceId'>>;
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+export const registerWorkspaceRoutes = (router: MockRouter) => {
+  // Templates and brand guidelines (templatesApi)
+  router.get('/templates/brand-guidelines', (req) => {
+    const workspaceId = req.query.get('workspaceId') || getScopedWorkspaceIds(req)[0];
+    const guidelines = req.db.list<BrandGuidelines>('brandGuidelines').find((candidate) => candidate.workspaceId === workspaceId);
+    return guidelines ? json(guidelines) : notFound('Brand guidelines');
+  });
+
+  router.post<GuidelinesBody>('/templates/brand-guidelines', (req) => {
+    const guidelines = req.db.insert<BrandGuidelines>('brandGuidelines', {
+      id: mockId('brand'),
+      organizationId: req.headers.get('x-organization-id') || '',
+      ...req.body,
+      isActive: true,
+      version: 1,
+      createdBy: getSessionUser(req)?.id || 'anonymous',
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ guidelines }, 201);
+  });
+
+  router.put<Partial<BrandGuidelines>>('/templates/brand-guidelines/:id', ({ db, params, body }) => {
+    const existing = db.find<BrandGuidelines>('brandGuidelines', params.id);
+    if (!existing) return notFound('Brand guidelines');
+    return json({ guidelines: db.update('brandGuidelines', params.id, { ...body, version: existing.version + 1, updatedAt: now() }) });
+  });
+
+  router.get('/templates/categories', () => json({ categories: [] }));
+
+  router.get('/templates', ({ db, query }) => {
+    const search = (query.get('search') || '').toLowerCase();
+    const templates = db
+      .list<ContentTemplate>('templates')
+      .filter((template) => !query.get('category') || template.category === query.get('category'))
+      .filter((template) => !query.get('platform') || template.platforms.some((platform) => platform.platform === query.get('platform')))
+      .filter((template) => !search || `${template.name} ${template.description || ''}`.toLowerCase().includes(search));
+
+    const page = paginate(templates, query);
+    return json({ templates: page.items, total: page.total, categories: [] });
+  });
+
+  router.get('/templates/:id', ({ db, params }) => {
+    const template = db.find('templates', params.id);
+    return template ? json(template) : notFound('Template');
+  });
+
+  router.post<TemplateBody>('/templates', (req) => {
+    if (!req.body?.name?.trim() || !req.body.content?.body?.trim()) {
+      return error(400, 'Templates need a name and content', 'VALIDATION_ERROR');
+    }
+    const template = req.db.insert<ContentTemplate>('templates', {
+      variables: [],
+      brandGuidelines: { tone: 'professional', voice: [], doNotUse: [] },
+      tags: [],
+      isPublic: false,
+      ...req.body,
+      id: mockId('template'),
+      organizationId: req.headers.get('x-organization-id') || '',
+      usage: { useCount: 0 },
+      isFeatured: false,
+      version: 1,
+      createdBy: getSessionUser(req)?.id || 'anonymous',
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return json({ template }, 201);
+  });
+
+  router.put<Partial<ContentTemplate>>('/templates/:id', ({ db, params, body }) => {
+    const existing = db.find<ContentTemplate>('templates', params.id);
+    if (!existing) return notFound('Template');
+    const { id: _id, organizationId: _organizationId, ...changes } = body;
+    return json({ template: db.update('templates', params.id, { ...changes, version: existing.version + 1, updatedAt: now() }) });
+  });
+
+  // Platform connections (socialPlatformsApi)
+  router.get('/social-platforms/connections', ({ db }) => json({ connections: db.list('socialConnections') }));
+
+  router.post('/social-platforms/connections/:id/refresh', ({ db, params }) => {
+    if (!db.find('socialConnections', params.id)) return notFound('Connection');
+    return json({ connection: db.update<SocialPlatformConnection>('socialConnections', params.id, { isActive: true, lastSyncAt: now() }) });
+  });
+
+  router.post('/social-platforms/connections/:id/test', ({ db, params }) => {
+    const connection = db.find<SocialPlatformConnection>('socialConnections', params.id);
+    if (!connection) return notFound('Connection');
+    return json({ success: connection.isActive, message: connection.isActive ? 'Connection is healthy' : 'Access token has expired' });
+  });
+
+  router.delete('/social-platforms/connections/:id', ({ db, params }) =>
+    db.remove('socialConnections', params.id) ? json({ message: 'Disconnected' }) : notFound('Connection')
+  );
+
+  // Drafts and validation (contentCreationApi)
+  router.post<DraftBody>('/content-creation/draft', (req) => {
+    const text = req.body.content?.text || '';
+    const hashtags = req.body.content?.hashtags || [];
+    const mentions = req.body.content?.mentions || [];
+
+    const draft = {
+      id: mockId('draft'),
+      workspaceId: getScopedWorkspaceIds(req)[0],
+      settings: {},
+      tags: [],
+      ...req.body,
+      content: { text, hashtags, mentions, media: [] },
+      organizationId: req.headers.get('x-organization-id') || '',
+      createdBy: getSessionUser(req)?.id || 'anonymous',
+      status: 'draft',
+      metadata: {
+        characterCount: countCharacters(text),
+        wordCount: countWords(text),
+        hashtagCount: hashtags.length,
+        mentionCount: mentions.length,
+        estimatedReadTime: Math.max(1, Math.ceil(countWords(text) / 200)),
+      },
+      createdAt: now(),
+      updatedAt: now(),
+    };
+
+    // Drafts are stored as draft content so they show up in the content list
+    req.db.insert<Content>('content', {
+      id: draft.id,
+      workspaceId: draft.workspaceId,
+      title: draft.title,
+      body: text,
+      type: draft.type === 'article' ? 'post' : draft.type,
+      status: 'draft',
+      priority: 'medium',
+      media: [],
+      platforms: draft.platforms.map((platform) => ({ platform, status: 'draft' } as Content['platforms'][number])),
+      tags: hashtags,
+      aiGenerated: false,
+      approvalRequired: false,
+      createdBy: draft.createdBy,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+      version: 1,
+    });
+    return json({ success: true, data: draft }, 201);
+  });
+
+  router.put<Partial<CreateDraftRequest>>('/content-creation/draft/:id', ({ db, params, body }) => {
+    const existing = db.find<Content>('content', params.id);
+    if (!existing) return notFound('Draft');
+
+    const updatedAt = now();
+    db.update<Content>('content', params.id, {
+      ...(body.title && { title: body.title }),
+      ...(body.content?.text !== undefined && { body: body.content.text }),
+      updatedAt,
+      version: existing.version + 1,
+    });
+    return json({ success: true, data: { ...body, id: params.id, status: 'draft', updatedAt } });
+  });
+
+  router.post<ValidateContentRequest>('/content-creation/validate', ({ body }) => {
+    const text = body?.content?.text;
+    if (typeof text !== 'string') return error(400, 'content.text is required', 'VALIDATION_ERROR');
+
+    const hashtags: string[] = body.content.hashtags || [];
+    const results = body.platforms.map((platform) => {
+      const limit = PLATFORM_TEXT_RULES[platform]?.limit ?? Infinity;
+      const characterCount = countCharacters(text, platform);
+      const errors = characterCount > limit ? [`Content exceeds ${platform} limit of ${limit} characters`] : [];
+      const warnings = hashtags.length > 5 ? ['Consider using 5 or fewer hashtags'] : [];
+      return {
+        platform,
+        isValid: errors.length === 0,
+        errors,
+        warnings,
+        characterCount,
+        recommendations: text.length < 40 ? ['Short posts perform better with a clear call to action'] : [],
+      };
+    });
+
+    return json({
+      success: true,
+      data: {
+        isValid: results.every((result) => result.isValid),
+        results,
+        overall: {
+          errors: results.reduce((sum, result) => sum + result.errors.length, 0),
+          warnings: results.reduce((sum, result) => sum + result.warnings.length, 0),
+          validPlatforms: results.filter((result) => result.isValid).length,
+          totalPlatforms: results.length,
+        },
+      },
+    });
+  });
+};
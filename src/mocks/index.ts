@@ -0,0 +1,100 @@
+/**
+ * In-browser Mock API
+ *
+ * Serves every request under `/api/{version}` from an IndexedDB-backed fake
+ * backend when `config.development.mockApi` is enabled, so the app and the
+ * Playwright suites run fully offline. Requests that no handler covers get a
+ * 404 with code `MOCK_NOT_IMPLEMENTED` instead of silently hitting the network.
+ */
+
+import { config } from '../config/environment';
+import { API_ROOT } from '../store/api/baseApi';
+import { mockDb } from './db';
+import { createMockRouter } from './handlers';
+import { error, type HttpMethod, type MockResponse } from './router';
+
+const LATENCY_MS = { min: 80, max: 250 };
+
+declare global {
+  interface Window {
+    __mockApi?: { reset: () => Promise<void> };
+  }
+}
+
+const delay = () =>
+  new Promise((resolve) => setTimeout(resolve, LATENCY_MS.min + Math.random() * (LATENCY_MS.max - LATENCY_MS.min)));
+
+const readBody = async (request: Request) => {
+  if (request.method === 'GET' || request.method === 'HEAD') return undefined;
+
+  const contentType = request.headers.get('content-type') || '';
+  if (contentType.includes('multipart/form-data')) return request.formData();
+  if (contentType.includes('application/octet-stream')) return request.blob();
+
+  const text = await request.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const toResponse = ({ status, body, headers }: MockResponse) => {
+  const isJson = !headers?.['content-type'] || headers['content-type'].includes('json');
+  const payload = body === undefined ? null : isJson ? JSON.stringify(body) : String(body);
+  return new Response(payload, {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+};
+
+export const startMockApi = async () => {
+  await mockDb.init();
+
+  const router = createMockRouter();
+  const networkFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+
+    if (url.origin !== window.location.origin || !url.pathname.startsWith(API_ROOT)) {
+      return networkFetch(input, init);
+    }
+
+    const path = url.pathname.slice(API_ROOT.length) || '/';
+    const method = request.method.toUpperCase() as HttpMethod;
+    const match = router.match(method, path);
+
+    await delay();
+
+    let response: MockResponse;
+    if (!match) {
+      response = error(404, `Mock API has no handler for ${method} ${path}`, 'MOCK_NOT_IMPLEMENTED');
+    } else {
+      try {
+        response = await match.handler({
+          method,
+          path,
+          params: match.params,
+          query: url.searchParams,
+          body: await readBody(request),
+          headers: request.headers,
+          db: mockDb,
+        });
+      } catch (handlerError) {
+        console.error(`Mock API: ${method} ${path} failed`, handlerError);
+        response = error(500, 'Mock API handler failed', 'MOCK_HANDLER_ERROR');
+      }
+    }
+
+    if (config.development.debugMode) {
+      console.debug(`[mock-api] ${method} ${path} → ${response.status}`, response.body);
+    }
+    return toResponse(response);
+  };
+
+  window.__mockApi = { reset: () => mockDb.reset() };
+  console.info(`Mock API enabled: requests to ${API_ROOT} are served in the browser`);
+};
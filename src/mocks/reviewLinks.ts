@@ -0,0 +1,41 @@
+/**
+ * Client review link tokens
+ *
+ * A token is `<linkId>.<expiry>.<signature>`, the signature being a keyed
+ * hash of the link id and expiry. Editing the expiry breaks the signature,
+ * so a token can't outlive the expiry it was issued with; revocation is
+ * checked against the stored link. The real API signs with HMAC-SHA256;
+ * the mock only needs tampered tokens to fail, and has to work outside
+ * secure contexts where `crypto.subtle` is missing.
+ */
+
+const SIGNING_SECRET = 'mock-client-review-signing-secret';
+
+// 53-bit string hash (cyrb53), seeded so the secret is part of every signature
+const keyedHash = (input: string, seed: number) => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const sign = (payload: string) =>
+  [1, 2, 3].map((seed) => keyedHash(`${SIGNING_SECRET}:${payload}`, seed)).join('');
+
+export const signReviewToken = (linkId: string, expiresAt: string) => {
+  const payload = `${linkId}.${Date.parse(expiresAt).toString(36)}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+// The link id and expiry the token was signed with, or null when it was tampered with
+export const verifyReviewToken = (token: string): { linkId: string; expiresAt: number } | null => {
+  const [linkId, expiry, signature, ...rest] = token.split('.');
+  if (!linkId || !expiry || !signature || rest.length) return null;
+  return sign(`${linkId}.${expiry}`) === signature ? { linkId, expiresAt: parseInt(expiry, 36) } : null;
+};
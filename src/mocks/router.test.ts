@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+
+import { MockRouter, json, error, paginate, listParam } from './router';
+
+describe('MockRouter', () => {
+  const handler = () => json({ ok: true });
+
+  it('matches on method and path and decodes params', () => {
+    const router = new MockRouter().get('/content/:id', handler).delete('/content/:id', handler);
+
+    expect(router.match('GET', '/content/summer%20launch')).toEqual({ handler, params: { id: 'summer launch' } });
+    expect(router.match('POST', '/content/1')).toBeNull();
+    expect(router.match('GET', '/content/1/versions')).toBeNull();
+  });
+
+  it('ignores a trailing slash', () => {
+    const router = new MockRouter().get('/reports', handler);
+
+    expect(router.match('GET', '/reports/')).not.toBeNull();
+  });
+
+  it('lets the first registered route win', () => {
+    const specific = () => json({ templates: [] });
+    const router = new MockRouter().get('/reports/templates', specific).get('/reports/:id', handler);
+
+    expect(router.match('GET', '/reports/templates')?.handler).toBe(specific);
+    expect(router.match('GET', '/reports/report_1')?.params).toEqual({ id: 'report_1' });
+  });
+});
+
+describe('router helpers', () => {
+  it('wraps errors in the API envelope', () => {
+    expect(error(404, 'Report not found', 'NOT_FOUND')).toEqual({
+      status: 404,
+      body: { success: false, error: { message: 'Report not found', code: 'NOT_FOUND' } },
+    });
+  });
+
+  it('pages through items from the query string', () => {
+    const items = Array.from({ length: 25 }, (_, index) => index);
+
+    expect(paginate(items, new URLSearchParams('page=3&limit=10'))).toEqual({
+      items: [20, 21, 22, 23, 24],
+      total: 25,
+      page: 3,
+      limit: 10,
+      hasMore: false,
+    });
+    expect(paginate(items, new URLSearchParams('page=0&limit=nope'), 5)).toMatchObject({ page: 1, limit: 5, hasMore: true });
+  });
+
+  it('splits comma separated query values', () => {
+    expect(listParam(new URLSearchParams('platforms=instagram, linkedin,,'), 'platforms')).toEqual(['instagram', 'linkedin']);
+    expect(listParam(new URLSearchParams(), 'platforms')).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Mock Router
+ *
+ * Minimal path router for the in-browser mock API. Paths are relative to
+ * `/api/{version}` and support `:param` segments.
+ */
+
+import type { MockDatabase } from './db';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// `Body` is what the route expects the client to send; nothing checks it
+export interface MockRequest<Body = unknown> {
+  method: HttpMethod;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Body;
+  headers: Headers;
+  db: MockDatabase;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler<Body = unknown> = (req: MockRequest<Body>) => MockResponse | Promise<MockResponse>;
+
+interface RouteDefinition {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+}
+
+export const json = (body: unknown, status = 200): MockResponse => ({ status, body });
+
+// Non-JSON bodies (text/calendar, text/csv) are sent as-is
+export const text = (body: string, contentType = 'text/plain', status = 200): MockResponse => ({
+  status,
+  body,
+  headers: { 'content-type': `${contentType}; charset=utf-8` },
+});
+
+export const error = (status: number, message: string, code?: string): MockResponse => ({
+  status,
+  body: { success: false, error: { message, code } },
+});
+
+export const notFound = (resource = 'Resource') => error(404, `${resource} not found`, 'NOT_FOUND');
+
+const compilePath = (path: string) => {
+  const paramNames: string[] = [];
+  const source = path
+    .replace(/\/+$/, '')
+    .replace(/:([A-Za-z]+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    });
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+};
+
+export class MockRouter {
+  private routes: RouteDefinition[] = [];
+
+  get<Body = unknown>(path: string, handler: MockHandler<Body>) {
+    return this.add('GET', path, handler);
+  }
+
+  post<Body = unknown>(path: string, handler: MockHandler<Body>) {
+    return this.add('POST', path, handler);
+  }
+
+  put<Body = unknown>(path: string, handler: MockHandler<Body>) {
+    return this.add('PUT', path, handler);
+  }
+
+  patch<Body = unknown>(path: string, handler: MockHandler<Body>) {
+    return this.add('PATCH', path, handler);
+  }
+
+  delete<Body = unknown>(path: string, handler: MockHandler<Body>) {
+    return this.add('DELETE', path, handler);
+  }
+
+  match(method: HttpMethod, path: string): { handler: MockHandler; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+
+      const match = route.pattern.exec(path);
+      if (match) {
+        const params = Object.fromEntries(
+          route.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+        );
+        return { handler: route.handler, params };
+      }
+    }
+    return null;
+  }
+
+  private add<Body>(method: HttpMethod, path: string, handler: MockHandler<Body>) {
+    this.routes.push({ method, handler: handler as MockHandler, ...compilePath(path) });
+    return this;
+  }
+}
+
+// Shared helpers for handlers
+
+export const mockId = (prefix: string) =>
+  `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const now = () => new Date().toISOString();
+
+export const paginate = <T>(items: T[], query: URLSearchParams, defaultLimit = 20) => {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const limit = Math.max(1, Number(query.get('limit')) || defaultLimit);
+  const start = (page - 1) * limit;
+  return {
+    items: items.slice(start, start + limit),
+    total: items.length,
+    page,
+    limit,
+    hasMore: start + limit < items.length,
+  };
+};
+
+export const listParam = (query: URLSearchParams, name: string): string[] =>
+  (query.get(name) || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
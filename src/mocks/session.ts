@@ -0,0 +1,47 @@
+/**
+ * Mock session helpers
+ *
+ * Tokens are stateless strings that encode the user id and expiry, so the
+ * client's refresh flow is exercised for real once an access token expires.
+ */
+
+import type { MockRequest } from './router';
+import type { MockUser } from './fixtures';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+export const issueTokens = (userId: string) => ({
+  accessToken: `mock-access.${userId}.${Date.now() + ACCESS_TOKEN_TTL_MS}`,
+  refreshToken: `mock-refresh.${userId}`,
+  expiresIn: ACCESS_TOKEN_TTL_MS / 1000,
+});
+
+export const userIdFromRefreshToken = (token: string | undefined): string | null => {
+  const [kind, userId] = (token || '').split('.');
+  return kind === 'mock-refresh' && userId ? userId : null;
+};
+
+export const getSessionUser = (req: MockRequest): MockUser | null => {
+  const [, token] = (req.headers.get('authorization') || '').split(' ');
+  const [kind, userId, expiresAt] = (token || '').split('.');
+
+  if (kind !== 'mock-access' || Number(expiresAt) < Date.now()) {
+    return null;
+  }
+
+  return req.db.find<MockUser>('users', userId) || null;
+};
+
+export const toPublicUser = ({ password: _password, ...user }: MockUser) => user;
+
+// Workspaces the request is scoped to: the x-workspace-id header, otherwise every workspace in the org
+export const getScopedWorkspaceIds = (req: MockRequest): string[] => {
+  const workspaceId = req.headers.get('x-workspace-id');
+  if (workspaceId) return [workspaceId];
+
+  const organizationId = req.headers.get('x-organization-id');
+  return req.db
+    .list<{ id: string; organizationId: string }>('workspaces')
+    .filter((workspace) => !organizationId || workspace.organizationId === organizationId)
+    .map((workspace) => workspace.id);
+};
@@ -0,0 +1,78 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+import { ApprovalPage } from './ApprovalPage';
+
+const mockUseGetApprovalRequestQuery = vi.fn();
+
+vi.mock('../../store/api/approvalApi', () => {
+  const query = () => ({ data: undefined, isLoading: false });
+  const mutation = () => [vi.fn()];
+  return {
+    useGetApprovalRequestsQuery: () => ({ data: { requests: [], total: 0, hasMore: false }, isLoading: false }),
+    useGetApprovalRequestQuery: (id: string, options: unknown) => mockUseGetApprovalRequestQuery(id, options),
+    useGetApprovalWorkflowsQuery: query,
+    useGetApprovalStatsQuery: query,
+    useGetMyAssignmentsQuery: query,
+    useApproveStepMutation: mutation,
+    useRejectStepMutation: mutation,
+    useAddCommentMutation: mutation,
+  };
+});
+
+vi.mock('../../hooks/useRealtimeStatus', () => ({
+  useRealtimeStatus: () => ({ isLive: true }),
+}));
+
+// These fetch their own data and aren't what's under test
+vi.mock('../../components/approval/WorkflowDesigner', () => ({ WorkflowDesigner: () => null }));
+vi.mock('../../components/approval/SlaDashboard', () => ({ SlaDashboard: () => null }));
+vi.mock('../../components/approval/ClientReviewLinks', () => ({ ClientReviewLinks: () => null }));
+vi.mock('../../components/approval/DraftComments', () => ({ DraftComments: () => null }));
+
+const CurrentPath = () => {
+  const { pathname, search } = useLocation();
+  return <div data-testid="path">{`${pathname}${search}`}</div>;
+};
+
+const renderAt = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/approval" element={<ApprovalPage />} />
+        <Route path="/approval/:requestId" element={<ApprovalPage />} />
+      </Routes>
+      <CurrentPath />
+    </MemoryRouter>
+  );
+
+describe('ApprovalPage', () => {
+  beforeEach(() => {
+    mockUseGetApprovalRequestQuery.mockReset();
+    mockUseGetApprovalRequestQuery.mockReturnValue({ data: undefined, isLoading: false });
+  });
+
+  it('fetches a linked request that is not on the current page of the list', () => {
+    mockUseGetApprovalRequestQuery.mockReturnValue({ data: undefined, isLoading: true });
+    renderAt('/approval/request-1');
+
+    expect(mockUseGetApprovalRequestQuery).toHaveBeenCalledWith('request-1', { skip: false });
+    expect(screen.getByRole('progressbar', { name: 'Loading' })).toBeInTheDocument();
+  });
+
+  it('says so when the linked request does not exist and goes back to the list, keeping the tab', () => {
+    renderAt('/approval/missing?tab=pending');
+
+    expect(screen.getByText("This approval request doesn't exist or you no longer have access to it.")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+    expect(screen.getByTestId('path')).toHaveTextContent(/^\/approval\?tab=pending$/);
+  });
+
+  it('opens the tab named in the URL', () => {
+    renderAt('/approval?tab=pending');
+
+    expect(screen.getByRole('tab', { selected: true })).toHaveTextContent('Pending');
+  });
+});
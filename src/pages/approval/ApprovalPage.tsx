@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -43,19 +44,33 @@ import {
   ThumbDown as ThumbDownIcon,
   TrendingUp as TrendingUpIcon,
   AccessTime as TimeIcon,
-  Assignment as AssignmentIcon
+  Assignment as AssignmentIcon,
+  AccountTree as WorkflowIcon,
+  Timer as SlaIcon
 } from '@mui/icons-material';
 
 import {
   useGetApprovalRequestsQuery,
+  useGetApprovalRequestQuery,
+  useGetApprovalWorkflowsQuery,
   useGetApprovalStatsQuery,
   useGetMyAssignmentsQuery,
   useApproveStepMutation,
   useRejectStepMutation,
   useAddCommentMutation,
   type ApprovalRequest,
-  type ApprovalRequestStep
+  type ApprovalRequestStep,
+  type ApprovalWorkflow
 } from '../../store/api/approvalApi';
+import { useRealtimeStatus } from '../../hooks/useRealtimeStatus';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
+import { WorkflowDesigner } from '../../components/approval/WorkflowDesigner';
+import { SlaCountdown } from '../../components/approval/SlaCountdown';
+import { SlaDashboard } from '../../components/approval/SlaDashboard';
+import { ClientReviewLinks } from '../../components/approval/ClientReviewLinks';
+import { DraftComments } from '../../components/approval/DraftComments';
+import { DeepLinkStatusDialog } from '../../components/layout/DeepLinkStatusDialog';
+import { workflowStepFor } from '../../utils/approvalSla';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -71,9 +86,14 @@ const TabPanel: React.FC<TabPanelProps> = ({ children, value, index }) => {
   );
 };
 
+const TABS = ['all', 'assigned', 'pending', 'analytics', 'sla', 'workflows'] as const;
+
 export const ApprovalPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState(0);
-  const [selectedRequest, setSelectedRequest] = useState<ApprovalRequest | null>(null);
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const { requestId } = useParams<{ requestId: string }>();
+  const [tab, setTab] = useSearchParamState('tab', TABS[0], TABS);
+  const activeTab = TABS.indexOf(tab);
   const [actionDialog, setActionDialog] = useState<{
     open: boolean;
     type: 'approve' | 'reject' | 'comment';
@@ -82,23 +102,37 @@ export const ApprovalPage: React.FC = () => {
   }>({ open: false, type: 'approve' });
   const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; request: ApprovalRequest } | null>(null);
 
+  const { isLive } = useRealtimeStatus();
+  // Decisions made elsewhere invalidate these queries through the realtime stream
+  const pollingInterval = isLive ? 0 : 60000;
+
   // API calls
   const { data: requestsData, isLoading: requestsLoading } = useGetApprovalRequestsQuery({
     page: 1,
     limit: 20,
     assignedToMe: activeTab === 1,
     status: activeTab === 2 ? 'pending' : undefined
-  });
+  }, { pollingInterval });
+
+  const { data: assignmentsData } = useGetMyAssignmentsQuery({}, { pollingInterval });
+  const { data: workflowsData } = useGetApprovalWorkflowsQuery({});
+  const workflows = workflowsData?.workflows ?? [];
+  const { data: statsData, isLoading: statsLoading } = useGetApprovalStatsQuery({ period: 'month' }, { pollingInterval });
 
-  const { data: assignmentsData } = useGetMyAssignmentsQuery({});
-  const { data: statsData, isLoading: statsLoading } = useGetApprovalStatsQuery({ period: 'month' });
+  // The open request comes from the URL, so it may not be on the current page of the list
+  const { data: requestData, isLoading: requestLoading } = useGetApprovalRequestQuery(requestId ?? '', { skip: !requestId });
+  const detailsRequest = requestId
+    ? requestsData?.requests.find((request) => request.id === requestId) ?? requestData?.request ?? null
+    : null;
+  const openRequest = (id: string) => navigate(`/approval/${id}${search}`);
+  const closeRequest = () => navigate(`/approval${search}`);
 
   const [approveStep] = useApproveStepMutation();
   const [rejectStep] = useRejectStepMutation();
   const [addComment] = useAddCommentMutation();
 
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
-    setActiveTab(newValue);
+    setTab(TABS[newValue]);
   };
 
   const handleApprove = async (requestId: string, stepId: string, comment?: string) => {
@@ -185,9 +219,14 @@ export const ApprovalPage: React.FC = () => {
   return (
     <Container maxWidth="xl" sx={{ py: 3 }}>
       <Box sx={{ mb: 3 }}>
-        <Typography variant="h4" gutterBottom>
-          Content Approval
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <Typography variant="h4" gutterBottom>
+            Content Approval
+          </Typography>
+          {isLive && (
+            <Chip label="Live" color="success" size="small" variant="outlined" sx={{ mb: 1 }} />
+          )}
+        </Box>
         <Typography variant="body1" color="text.secondary">
           Review and approve content before publication
         </Typography>
@@ -216,6 +255,16 @@ export const ApprovalPage: React.FC = () => {
               icon={<AnalyticsIcon />} 
               iconPosition="start"
             />
+            <Tab 
+              label="SLA" 
+              icon={<SlaIcon />} 
+              iconPosition="start"
+            />
+            <Tab 
+              label="Workflows" 
+              icon={<WorkflowIcon />} 
+              iconPosition="start"
+            />
           </Tabs>
         </Box>
 
@@ -298,7 +347,7 @@ export const ApprovalPage: React.FC = () => {
                             cursor: 'pointer',
                             '&:hover': { bgcolor: 'action.hover' }
                           }}
-                          onClick={() => setSelectedRequest(request)}
+                          onClick={() => openRequest(request.id)}
                         >
                           <ListItemIcon>
                             {getStatusIcon(request.status)}
@@ -320,6 +369,13 @@ export const ApprovalPage: React.FC = () => {
                                   size="small"
                                   color={getPriorityColor(request.priority) as any}
                                 />
+                                {request.steps.map((step) => (
+                                  <SlaCountdown
+                                    key={step.id}
+                                    step={step}
+                                    workflowStep={workflowStepFor(workflows, request, step)}
+                                  />
+                                ))}
                               </Box>
                             }
                             secondary={
@@ -426,19 +482,13 @@ export const ApprovalPage: React.FC = () => {
                                 <Typography variant="subtitle1">
                                   {request.content.title}
                                 </Typography>
-                                {daysOverdue && daysOverdue > 0 && (
-                                  <Chip
-                                    label={`${daysOverdue} days overdue`}
-                                    size="small"
-                                    color="error"
-                                  />
-                                )}
+                                <SlaCountdown step={step} workflowStep={workflowStepFor(workflows, request, step)} />
                               </Box>
                             }
                             secondary={
                               <Box>
                                 <Typography variant="body2" color="text.secondary">
-                                  Step: {step.stepId} • Priority: {request.priority}
+                                  Step: {workflowStepFor(workflows, request, step)?.name ?? step.stepId} • Priority: {request.priority}
                                 </Typography>
                                 <Typography variant="caption" color="text.secondary">
                                   Due: {request.dueAt ? new Date(request.dueAt).toLocaleDateString() : 'No deadline'}
@@ -600,6 +650,25 @@ export const ApprovalPage: React.FC = () => {
             </Grid>
           )}
         </TabPanel>
+
+        {/* SLA Tab */}
+        <TabPanel value={activeTab} index={4}>
+          {statsLoading ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <CircularProgress />
+            </Box>
+          ) : statsData && (
+            <SlaDashboard
+              stats={statsData}
+              onOpenRequest={openRequest}
+            />
+          )}
+        </TabPanel>
+
+        {/* Workflows Tab */}
+        <TabPanel value={activeTab} index={5}>
+          <WorkflowDesigner />
+        </TabPanel>
       </Paper>
 
       {/* Request Menu */}
@@ -609,7 +678,7 @@ export const ApprovalPage: React.FC = () => {
         onClose={() => setMenuAnchor(null)}
       >
         <MenuItem onClick={() => {
-          setSelectedRequest(menuAnchor!.request);
+          openRequest(menuAnchor!.request.id);
           setMenuAnchor(null);
         }}>
           <ViewIcon sx={{ mr: 1 }} />
@@ -660,11 +729,19 @@ export const ApprovalPage: React.FC = () => {
       />
 
       {/* Request Details Dialog */}
-      {selectedRequest && (
+      <DeepLinkStatusDialog
+        open={Boolean(requestId && !detailsRequest)}
+        loading={requestLoading}
+        title="Approval request"
+        notFoundMessage="This approval request doesn't exist or you no longer have access to it."
+        onClose={closeRequest}
+      />
+      {detailsRequest && (
         <RequestDetailsDialog
-          request={selectedRequest}
-          open={Boolean(selectedRequest)}
-          onClose={() => setSelectedRequest(null)}
+          request={detailsRequest}
+          workflows={workflows}
+          open={Boolean(detailsRequest)}
+          onClose={closeRequest}
         />
       )}
     </Container>
@@ -769,17 +846,19 @@ const ActionDialog: React.FC<ActionDialogProps> = ({
 // Request Details Dialog Component
 interface RequestDetailsDialogProps {
   request: ApprovalRequest;
+  workflows: ApprovalWorkflow[];
   open: boolean;
   onClose: () => void;
 }
 
 const RequestDetailsDialog: React.FC<RequestDetailsDialogProps> = ({
   request,
+  workflows,
   open,
   onClose
 }) => {
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
       <DialogTitle>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <Typography variant="h6">{request.content.title}</Typography>
@@ -792,10 +871,11 @@ const RequestDetailsDialog: React.FC<RequestDetailsDialogProps> = ({
       </DialogTitle>
       <DialogContent>
         <Grid container spacing={2}>
+          <Grid item xs={12}>
+            <DraftComments request={request} />
+          </Grid>
+
           <Grid item xs={12} md={8}>
-            <Typography variant="h6" gutterBottom>Content</Typography>
-            <Typography paragraph>{request.content.body}</Typography>
-            
             <Typography variant="h6" gutterBottom>Details</Typography>
             <Typography variant="body2" color="text.secondary">
               Type: {request.content.type}
@@ -819,13 +899,34 @@ const RequestDetailsDialog: React.FC<RequestDetailsDialogProps> = ({
                     </Avatar>
                   </ListItemIcon>
                   <ListItemText
-                    primary={`Step ${index + 1}`}
+                    primary={workflowStepFor(workflows, request, step)?.name ?? `Step ${index + 1}`}
                     secondary={step.status}
                   />
                 </ListItem>
               ))}
             </List>
           </Grid>
+
+          <Grid item xs={12}>
+            <ClientReviewLinks request={request} workflows={workflows} />
+          </Grid>
+
+          {request.history.length > 0 && (
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>History</Typography>
+              <List dense disablePadding>
+                {[...request.history].reverse().map((entry) => (
+                  <ListItem key={entry.id} disableGutters>
+                    <ListItemText
+                      primary={`${entry.userName}${entry.reviewerEmail && entry.reviewerEmail !== entry.userName ? ` (${entry.reviewerEmail})` : ''} ${entry.action.replace('_', ' ')}${entry.stepName ? ` · ${entry.stepName}` : ''}`}
+                      secondary={`${new Date(entry.timestamp).toLocaleString()}${entry.details ? ` · ${entry.details}` : ''}`}
+                    />
+                    {entry.reviewerEmail && <Chip size="small" variant="outlined" label="Client" />}
+                  </ListItem>
+                ))}
+              </List>
+            </Grid>
+          )}
         </Grid>
       </DialogContent>
       <DialogActions>
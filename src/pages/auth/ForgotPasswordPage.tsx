@@ -17,6 +17,7 @@ import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 
 import { useForgotPasswordMutation } from '../../store/api/authApi';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 const schema = yup.object({
   email: yup.string().email('Invalid email address').required('Email is required'),
@@ -122,7 +123,7 @@ export const ForgotPasswordPage: React.FC = () => {
 
             {error && (
               <Alert severity="error" sx={{ mb: 3 }}>
-                {(error as any)?.data?.error?.message || 'Something went wrong. Please try again.'}
+                {getApiErrorMessage(error, 'Something went wrong. Please try again.')}
               </Alert>
             )}
 
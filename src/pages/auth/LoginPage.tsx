@@ -21,6 +21,7 @@ import * as yup from 'yup';
 
 import { useLoginMutation } from '../../store/api/authApi';
 import { setCredentials } from '../../store/slices/authSlice';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 const schema = yup.object({
   email: yup.string().email('Invalid email address').required('Email is required'),
@@ -102,7 +103,7 @@ export const LoginPage: React.FC = () => {
 
             {error && (
               <Alert severity="error" sx={{ mb: 3 }}>
-                {(error as any)?.data?.error?.message || 'Login failed. Please try again.'}
+                {getApiErrorMessage(error, 'Login failed. Please try again.')}
               </Alert>
             )}
 
@@ -35,6 +35,7 @@ import * as yup from 'yup';
 
 import { useRegisterMutation } from '../../store/api/authApi';
 import { setCredentials } from '../../store/slices/authSlice';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 const schema = yup.object({
   firstName: yup.string().required('First name is required'),
@@ -140,7 +141,7 @@ export const RegisterPage: React.FC = () => {
 
             {error && (
               <Alert severity="error" sx={{ mb: 3 }}>
-                {(error as any)?.data?.error?.message || 'Registration failed. Please try again.'}
+                {getApiErrorMessage(error, 'Registration failed. Please try again.')}
               </Alert>
             )}
 
@@ -18,6 +18,7 @@ import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 
 import { useResetPasswordMutation } from '../../store/api/authApi';
+import { getApiErrorMessage } from '../../store/api/baseApi';
 
 const schema = yup.object({
   password: yup
@@ -182,7 +183,7 @@ export const ResetPasswordPage: React.FC = () => {
 
             {error && (
               <Alert severity="error" sx={{ mb: 3 }}>
-                {(error as any)?.data?.error?.message || 'Something went wrong. Please try again.'}
+                {getApiErrorMessage(error, 'Something went wrong. Please try again.')}
               </Alert>
             )}
 
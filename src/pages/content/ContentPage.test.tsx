@@ -0,0 +1,87 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+import { ContentPage } from './ContentPage';
+import { contentDeepLink } from '../../utils/calendarExport';
+
+const mockUseGetContentByIdQuery = vi.fn();
+
+vi.mock('../../store/api/contentApi', () => ({
+  useGetContentQuery: () => ({ data: { content: [] } }),
+  useGetContentByIdQuery: (id: string, options: unknown) => mockUseGetContentByIdQuery(id, options),
+}));
+
+vi.mock('../../contexts/TenantContext', () => ({
+  useTenant: () => ({ currentWorkspace: { id: 'ws_acme', name: 'Acme', client: { companyName: 'Acme' } } }),
+}));
+
+// The views fetch their own data; the dialog shows which post it was opened with
+vi.mock('../../components/content/ContentScheduler', () => ({ ContentScheduler: () => null }));
+vi.mock('../../components/content/ContentListView', () => ({ ContentListView: () => null }));
+vi.mock('../../components/content/ContentTimeline', () => ({ ContentTimeline: () => null }));
+vi.mock('../../components/content/CreateContentDialog', () => ({
+  CreateContentDialog: ({ open, initialData, onClose }: { open: boolean; initialData?: { title?: string }; onClose: () => void }) =>
+    open ? (
+      <div role="dialog">
+        Editing {initialData?.title}
+        <button onClick={onClose}>Cancel</button>
+      </div>
+    ) : null,
+}));
+
+const CurrentPath = () => <div data-testid="path">{useLocation().pathname}</div>;
+
+// Same content routes as App
+const follow = (link: string) =>
+  render(
+    <MemoryRouter initialEntries={[new URL(link).pathname]}>
+      <Routes>
+        <Route path="/content/*" element={<ContentPage />} />
+        <Route path="/content/:contentId" element={<ContentPage />} />
+        <Route path="/content/social/*" element={<div>Social composer</div>} />
+      </Routes>
+      <CurrentPath />
+    </MemoryRouter>
+  );
+
+describe('ContentPage', () => {
+  beforeEach(() => {
+    mockUseGetContentByIdQuery.mockReset();
+    mockUseGetContentByIdQuery.mockReturnValue({ data: undefined, isLoading: false });
+  });
+
+  it('opens the post a calendar deep link points to', () => {
+    mockUseGetContentByIdQuery.mockReturnValue({
+      data: { content: { id: 'content_1', title: 'Cold brew launch', body: '', platforms: [], tags: [] } },
+      isLoading: false,
+    });
+    follow(contentDeepLink('content_1', 'https://app.example.com'));
+
+    expect(mockUseGetContentByIdQuery).toHaveBeenCalledWith('content_1', { skip: false });
+    expect(screen.getByRole('dialog')).toHaveTextContent('Editing Cold brew launch');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(screen.getByTestId('path')).toHaveTextContent(/^\/content$/);
+  });
+
+  it('shows a spinner while the linked post loads', () => {
+    mockUseGetContentByIdQuery.mockReturnValue({ data: undefined, isLoading: true });
+    follow(contentDeepLink('content_1', 'https://app.example.com/'));
+
+    expect(screen.getByRole('progressbar', { name: 'Loading' })).toBeInTheDocument();
+  });
+
+  it('says so when the linked post does not exist', () => {
+    follow(contentDeepLink('content_gone', 'https://app.example.com'));
+
+    expect(screen.getByText("This content doesn't exist or has been deleted.")).toBeInTheDocument();
+  });
+
+  it('leaves the social composer route alone', () => {
+    follow('https://app.example.com/content/social');
+
+    expect(screen.getByText('Social composer')).toBeInTheDocument();
+    expect(mockUseGetContentByIdQuery).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -36,8 +37,9 @@ import { ContentScheduler } from '../../components/content/ContentScheduler';
 import { ContentListView } from '../../components/content/ContentListView';
 import { ContentTimeline } from '../../components/content/ContentTimeline';
 import { CreateContentDialog } from '../../components/content/CreateContentDialog';
+import { DeepLinkStatusDialog } from '../../components/layout/DeepLinkStatusDialog';
 import { useTenant } from '../../contexts/TenantContext';
-import { useGetContentQuery, Content } from '../../store/api/contentApi';
+import { useGetContentQuery, useGetContentByIdQuery, Content } from '../../store/api/contentApi';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -62,6 +64,9 @@ function TabPanel(props: TabPanelProps) {
 }
 
 export const ContentPage: React.FC = () => {
+  const navigate = useNavigate();
+  // `/content/:contentId` (calendar feeds, notifications) opens that post for editing
+  const { contentId } = useParams<{ contentId: string }>();
   const [tabValue, setTabValue] = useState(0);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [selectedContent, setSelectedContent] = useState<Content | null>(null);
@@ -75,6 +80,16 @@ export const ContentPage: React.FC = () => {
     status: ['draft', 'pending_review', 'approved', 'scheduled', 'published']
   });
 
+  const { data: linkedData, isLoading: linkedLoading } = useGetContentByIdQuery(contentId ?? '', { skip: !contentId });
+  const linkedContent = contentId ? linkedData?.content : undefined;
+  const editingContent = selectedContent ?? linkedContent ?? null;
+
+  const closeContentDialog = () => {
+    setCreateDialogOpen(false);
+    setSelectedContent(null);
+    if (contentId) navigate('/content');
+  };
+
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
@@ -305,25 +320,27 @@ export const ContentPage: React.FC = () => {
       </Paper>
 
       {/* Create/Edit Content Dialog */}
+      <DeepLinkStatusDialog
+        open={Boolean(contentId && !linkedContent && !selectedContent)}
+        loading={linkedLoading}
+        title="Edit Content"
+        notFoundMessage="This content doesn't exist or has been deleted."
+        onClose={closeContentDialog}
+      />
       <CreateContentDialog
-        open={createDialogOpen}
-        onClose={() => {
-          setCreateDialogOpen(false);
-          setSelectedContent(null);
-        }}
-        onSuccess={() => {
-          setCreateDialogOpen(false);
-          setSelectedContent(null);
-        }}
-        initialData={selectedContent ? {
-          title: selectedContent.title,
-          body: selectedContent.body,
-          type: selectedContent.type,
-          platforms: selectedContent.platforms,
-          tags: selectedContent.tags,
-          priority: selectedContent.priority,
-          category: selectedContent.category,
-          contentPillar: selectedContent.contentPillar
+        key={editingContent?.id ?? 'new'}
+        open={createDialogOpen || Boolean(linkedContent)}
+        onClose={closeContentDialog}
+        onSuccess={closeContentDialog}
+        initialData={editingContent ? {
+          title: editingContent.title,
+          body: editingContent.body,
+          type: editingContent.type,
+          platforms: editingContent.platforms,
+          tags: editingContent.tags,
+          priority: editingContent.priority,
+          category: editingContent.category,
+          contentPillar: editingContent.contentPillar
         } : undefined}
       />
     </Container>
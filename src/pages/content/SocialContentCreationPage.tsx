@@ -10,6 +10,7 @@
  * @features
  * - Platform-specific content creation tabs
  * - TikTok video upload with analytics preview
+ * - Thread composer that splits long text into posts that fit
  * - Multi-platform content publishing
  * - Real-time preview and validation
  * - Draft saving and scheduling
@@ -20,11 +21,12 @@
  * @components
  * - TikTokVideoUpload - Dedicated TikTok video upload component
  * - TikTokAnalytics - TikTok performance analytics
+ * - ThreadComposer - Thread writing with automatic splitting
  * - CreateContentDialog - General content creation dialog
  * - ConnectPlatformDialog - Platform connection interface
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { Suspense, useState, useEffect } from 'react';
 import {
   Container,
   Typography,
@@ -73,8 +75,12 @@ import {
 } from '../../store/api/socialPlatformsApi';
 import { CreateContentDialog } from '../../components/content/CreateContentDialog';
 import { ConnectPlatformDialog } from '../../components/integrations/ConnectPlatformDialog';
+import { ThreadComposer } from '../../components/content/ThreadComposer';
 import TikTokVideoUpload from '../../components/social/TikTokVideoUpload';
-import TikTokAnalytics from '../../components/social/TikTokAnalytics';
+import { lazyWithPrefetch } from '../../utils/lazyWithPrefetch';
+
+// Only the analytics dialog draws charts, so recharts loads when it opens
+const TikTokAnalytics = lazyWithPrefetch(() => import('../../components/social/TikTokAnalytics'), 'default');
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -491,7 +497,11 @@ export const SocialContentCreationPage: React.FC = () => {
           </TabPanel>
 
           {/* Other Platform Tabs */}
-          {tabs.slice(2).map((tab, index) => (
+          {tabs.slice(2).map((tab, index) => tab.label === 'Twitter' ? (
+            <TabPanel value={activeTab} index={index + 2} key={tab.label}>
+              <ThreadComposer platform="twitter" />
+            </TabPanel>
+          ) : (
             <TabPanel value={activeTab} index={index + 2} key={tab.label}>
               <Alert severity="info" sx={{ mb: 3 }}>
                 {tab.label} content creation interface coming soon. For now, use the general content creator.
@@ -544,11 +554,13 @@ export const SocialContentCreationPage: React.FC = () => {
         <DialogTitle>TikTok Analytics</DialogTitle>
         <DialogContent>
           {selectedConnection && (
-            <TikTokAnalytics
-              connectionId={selectedConnection.id}
-              timeframe="30d"
-              onInsightClick={(insight) => console.log('Insight clicked:', insight)}
-            />
+            <Suspense fallback={<LinearProgress />}>
+              <TikTokAnalytics
+                connectionId={selectedConnection.id}
+                timeframe="30d"
+                onInsightClick={(insight) => console.log('Insight clicked:', insight)}
+              />
+            </Suspense>
           )}
         </DialogContent>
         <DialogActions>
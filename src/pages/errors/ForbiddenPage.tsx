@@ -0,0 +1,38 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Container, Box, Typography, Button } from '@mui/material';
+import { Lock as LockIcon } from '@mui/icons-material';
+import { useTenant } from '../../contexts/TenantContext';
+
+// Shown in place of a page the signed-in user isn't allowed to open
+export const ForbiddenPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentOrganization } = useTenant();
+
+  return (
+    <Container maxWidth="sm">
+      <Box sx={{ textAlign: 'center', py: 10 }} data-testid="forbidden-page">
+        <LockIcon sx={{ fontSize: 64, color: 'text.disabled', mb: 2 }} />
+        <Typography variant="overline" color="text.secondary">
+          403
+        </Typography>
+        <Typography variant="h4" gutterBottom>
+          You don't have access to this page
+        </Typography>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
+          {currentOrganization
+            ? `Your role in ${currentOrganization.name} doesn't include it. Ask an owner or admin if you need access.`
+            : "You aren't a member of an organization that includes it."}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, justifyContent: 'center' }}>
+          <Button variant="outlined" onClick={() => navigate(-1)}>
+            Go Back
+          </Button>
+          <Button variant="contained" onClick={() => navigate('/dashboard')}>
+            Dashboard
+          </Button>
+        </Box>
+      </Box>
+    </Container>
+  );
+};
@@ -0,0 +1,85 @@
+/**
+ * Lazy Pages
+ *
+ * Every routed page, loaded on demand in its own chunk. `PAGE_ROUTES` maps
+ * the sections to their page and the skeleton shown while its chunk
+ * loads; nested paths use the closest entry.
+ */
+
+import { lazyWithPrefetch, type PrefetchableComponent } from '../utils/lazyWithPrefetch';
+import { closestPathEntry } from '../utils/routeMatching';
+import type { PageLayout } from '../components/layout/PageSkeleton';
+
+export const LoginPage = lazyWithPrefetch(() => import('./auth/LoginPage'), 'LoginPage');
+export const RegisterPage = lazyWithPrefetch(() => import('./auth/RegisterPage'), 'RegisterPage');
+export const ForgotPasswordPage = lazyWithPrefetch(() => import('./auth/ForgotPasswordPage'), 'ForgotPasswordPage');
+export const ResetPasswordPage = lazyWithPrefetch(() => import('./auth/ResetPasswordPage'), 'ResetPasswordPage');
+export const DashboardPage = lazyWithPrefetch(() => import('./dashboard/DashboardPage'), 'DashboardPage');
+export const ContentPage = lazyWithPrefetch(() => import('./content/ContentPage'), 'ContentPage');
+export const SocialContentCreationPage = lazyWithPrefetch(() => import('./content/SocialContentCreationPage'), 'SocialContentCreationPage');
+export const AnalyticsPage = lazyWithPrefetch(() => import('./analytics/AnalyticsPage'), 'AnalyticsPage');
+export const AdvancedAnalyticsPage = lazyWithPrefetch(() => import('./analytics/AdvancedAnalyticsPage'), 'AdvancedAnalyticsPage');
+export const SettingsPage = lazyWithPrefetch(() => import('./settings/SettingsPage'), 'SettingsPage');
+export const OrganizationSettingsPage = lazyWithPrefetch(() => import('./settings/OrganizationSettingsPage'), 'OrganizationSettingsPage');
+export const TeamPage = lazyWithPrefetch(() => import('./team/TeamPage'), 'TeamPage');
+export const SocialPlatformsPage = lazyWithPrefetch(() => import('./integrations/SocialPlatformsPage'), 'SocialPlatformsPage');
+export const BillingPage = lazyWithPrefetch(() => import('./billing/BillingPage'), 'BillingPage');
+export const UsagePage = lazyWithPrefetch(() => import('./usage/UsagePage'), 'UsagePage');
+export const AdminDashboard = lazyWithPrefetch(() => import('./admin/AdminDashboard'), 'AdminDashboard');
+export const EmailPage = lazyWithPrefetch(() => import('./email/EmailPage'), 'EmailPage');
+export const OnboardingPage = lazyWithPrefetch(() => import('./onboarding/OnboardingPage'), 'OnboardingPage');
+export const PerformancePage = lazyWithPrefetch(() => import('./performance/PerformancePage'), 'PerformancePage');
+export const AIInsightsPage = lazyWithPrefetch(() => import('./insights/AIInsightsPage'), 'AIInsightsPage');
+export const CompetitiveIntelligencePage = lazyWithPrefetch(() => import('./competitive/CompetitiveIntelligencePage'), 'CompetitiveIntelligencePage');
+export const ReportsPage = lazyWithPrefetch(() => import('./reports/ReportsPage'), 'ReportsPage');
+export const ContentOptimizationPage = lazyWithPrefetch(() => import('./optimization/ContentOptimizationPage'), 'ContentOptimizationPage');
+export const ClientReviewPage = lazyWithPrefetch(() => import('./review/ClientReviewPage'), 'ClientReviewPage');
+export const MediaPage = lazyWithPrefetch(() => import('./media/MediaPage'), 'MediaPage');
+export const ApprovalPage = lazyWithPrefetch(() => import('./approval/ApprovalPage'), 'ApprovalPage');
+export const TemplatesPage = lazyWithPrefetch(() => import('./templates/TemplatesPage'), 'TemplatesPage');
+export const NotificationsPage = lazyWithPrefetch(() => import('./notifications/NotificationsPage'), 'NotificationsPage');
+export const ProfilePage = lazyWithPrefetch(() => import('./profile/ProfilePage'), 'ProfilePage');
+
+interface PageRoute {
+  page: PrefetchableComponent;
+  layout: PageLayout;
+}
+
+export const PAGE_ROUTES: Record<string, PageRoute> = {
+  '/login': { page: LoginPage, layout: 'auth' },
+  '/register': { page: RegisterPage, layout: 'auth' },
+  '/forgot-password': { page: ForgotPasswordPage, layout: 'auth' },
+  '/reset-password': { page: ResetPasswordPage, layout: 'auth' },
+  '/review': { page: ClientReviewPage, layout: 'tabs' },
+  '/dashboard': { page: DashboardPage, layout: 'dashboard' },
+  '/content': { page: ContentPage, layout: 'tabs' },
+  '/content/social': { page: SocialContentCreationPage, layout: 'form' },
+  '/analytics': { page: AnalyticsPage, layout: 'analytics' },
+  '/analytics/advanced': { page: AdvancedAnalyticsPage, layout: 'analytics' },
+  '/team': { page: TeamPage, layout: 'tabs' },
+  '/integrations': { page: SocialPlatformsPage, layout: 'cards' },
+  '/billing': { page: BillingPage, layout: 'tabs' },
+  '/settings': { page: SettingsPage, layout: 'form' },
+  '/settings/organization': { page: OrganizationSettingsPage, layout: 'tabs' },
+  '/usage': { page: UsagePage, layout: 'analytics' },
+  '/admin': { page: AdminDashboard, layout: 'analytics' },
+  '/email': { page: EmailPage, layout: 'tabs' },
+  '/onboarding': { page: OnboardingPage, layout: 'form' },
+  '/performance': { page: PerformancePage, layout: 'analytics' },
+  '/insights': { page: AIInsightsPage, layout: 'analytics' },
+  '/competitive-intelligence': { page: CompetitiveIntelligencePage, layout: 'analytics' },
+  '/reports': { page: ReportsPage, layout: 'tabs' },
+  '/optimization': { page: ContentOptimizationPage, layout: 'tabs' },
+  '/media': { page: MediaPage, layout: 'tabs' },
+  '/approval': { page: ApprovalPage, layout: 'tabs' },
+  '/templates': { page: TemplatesPage, layout: 'tabs' },
+  '/notifications': { page: NotificationsPage, layout: 'tabs' },
+  '/profile': { page: ProfilePage, layout: 'tabs' },
+};
+
+export const pageRoute = (pathname: string): PageRoute | undefined => closestPathEntry(PAGE_ROUTES, pathname);
+
+// Start loading a section's chunk ahead of navigation; a failure is left for the navigation to retry
+export const prefetchRoute = (pathname: string) => {
+  pageRoute(pathname)?.page.prefetch().catch(() => undefined);
+};
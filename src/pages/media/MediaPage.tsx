@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import {
   Box,
   Container,
@@ -39,6 +40,7 @@ import {
 } from '@mui/icons-material';
 
 import { MediaLibrarySimple } from '../../components/media/MediaLibrarySimple';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
 import {
   useGetMediaStatsQuery,
   useGetRecentMediaQuery,
@@ -66,8 +68,13 @@ const TabPanel: React.FC<TabPanelProps> = ({ children, value, index, ...other })
   );
 };
 
+const TABS = ['library', 'analytics', 'recent', 'settings'] as const;
+
 export const MediaPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState(0);
+  const navigate = useNavigate();
+  const { folderId } = useParams<{ folderId: string }>();
+  const [tab, setTab] = useSearchParamState('tab', TABS[0], TABS);
+  const activeTab = TABS.indexOf(tab);
   const [previewDialog, setPreviewDialog] = useState<MediaFile | null>(null);
 
   // API queries
@@ -76,7 +83,7 @@ export const MediaPage: React.FC = () => {
   const { data: usageData } = useGetMediaUsageQuery({ days: 30 });
 
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
-    setActiveTab(newValue);
+    setTab(TABS[newValue]);
   };
 
   const formatFileSize = (bytes: number) => {
@@ -137,7 +144,10 @@ export const MediaPage: React.FC = () => {
         {/* Library Tab */}
         <TabPanel value={activeTab} index={0}>
           <Box sx={{ height: 'calc(100vh - 200px)' }}>
-            <MediaLibrarySimple />
+            <MediaLibrarySimple
+              folderId={folderId}
+              onOpenFolder={(id) => navigate(id ? `/media/folders/${id}` : '/media')}
+            />
           </Box>
         </TabPanel>
 
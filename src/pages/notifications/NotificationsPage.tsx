@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -59,6 +60,8 @@ import {
   type NotificationChannel,
   type NotificationPreferences
 } from '../../store/api/notificationsApi';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
+import { DeepLinkStatusDialog } from '../../components/layout/DeepLinkStatusDialog';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -74,17 +77,19 @@ const TabPanel: React.FC<TabPanelProps> = ({ children, value, index }) => {
   );
 };
 
+const TABS = ['overview', 'preferences', 'channels', 'analytics'] as const;
+
 export const NotificationsPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState(0);
-  const [channelDialog, setChannelDialog] = useState<{
-    open: boolean;
-    channel?: NotificationChannel;
-  }>({ open: false });
+  const navigate = useNavigate();
+  // `/notifications/channels/new` and `/notifications/channels/:channelId` open the channel dialog
+  const { channelId } = useParams<{ channelId: string }>();
+  const [tab, setTab] = useSearchParamState('tab', TABS[0], TABS);
+  const activeTab = channelId ? TABS.indexOf('channels') : TABS.indexOf(tab);
 
   // API calls
   const { data: notificationsData } = useGetNotificationsQuery({ limit: 10 });
   const { data: preferencesData } = useGetNotificationPreferencesQuery();
-  const { data: channelsData } = useGetNotificationChannelsQuery();
+  const { data: channelsData, isLoading: channelsLoading } = useGetNotificationChannelsQuery();
   const { data: statsData, isLoading: statsLoading } = useGetNotificationStatsQuery({ period: 'week' });
 
   const [updatePreferences] = useUpdateNotificationPreferencesMutation();
@@ -94,8 +99,15 @@ export const NotificationsPage: React.FC = () => {
   const [testChannel] = useTestNotificationChannelMutation();
   const [sendTestNotification] = useSendTestNotificationMutation();
 
+  const editingChannel = channelsData?.channels.find(({ id }) => id === channelId);
+  const closeChannelDialog = () => navigate('/notifications?tab=channels');
+
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
-    setActiveTab(newValue);
+    if (channelId) {
+      navigate(newValue === 0 ? '/notifications' : `/notifications?tab=${TABS[newValue]}`);
+    } else {
+      setTab(TABS[newValue]);
+    }
   };
 
   const handlePreferenceChange = async (
@@ -407,7 +419,7 @@ export const NotificationsPage: React.FC = () => {
             <Button
               variant="contained"
               startIcon={<AddIcon />}
-              onClick={() => setChannelDialog({ open: true })}
+              onClick={() => navigate('/notifications/channels/new')}
             >
               Add Channel
             </Button>
@@ -441,7 +453,7 @@ export const NotificationsPage: React.FC = () => {
                       <Button
                         size="small"
                         startIcon={<EditIcon />}
-                        onClick={() => setChannelDialog({ open: true, channel })}
+                        onClick={() => navigate(`/notifications/channels/${channel.id}`)}
                       >
                         Edit
                       </Button>
@@ -564,18 +576,25 @@ export const NotificationsPage: React.FC = () => {
       </Paper>
 
       {/* Channel Dialog */}
+      <DeepLinkStatusDialog
+        open={Boolean(channelId && channelId !== 'new' && !editingChannel)}
+        loading={channelsLoading}
+        title="Edit Channel"
+        notFoundMessage="This channel doesn't exist or has been deleted."
+        onClose={closeChannelDialog}
+      />
       <ChannelDialog
-        open={channelDialog.open}
-        channel={channelDialog.channel}
-        onClose={() => setChannelDialog({ open: false })}
+        open={channelId === 'new' || Boolean(editingChannel)}
+        channel={editingChannel}
+        onClose={closeChannelDialog}
         onSave={async (data) => {
           try {
-            if (channelDialog.channel) {
-              await updateChannel({ id: channelDialog.channel.id, ...data }).unwrap();
+            if (editingChannel) {
+              await updateChannel({ id: editingChannel.id, ...data }).unwrap();
             } else {
               await createChannel(data).unwrap();
             }
-            setChannelDialog({ open: false });
+            closeChannelDialog();
           } catch (error) {
             console.error('Failed to save channel:', error);
           }
@@ -16,7 +16,7 @@
  * - Optimization trends and analytics
  */
 
-import React, { useState } from 'react';
+import React, { Suspense, useState } from 'react';
 import {
   Box,
   Container,
@@ -57,13 +57,19 @@ import {
 import { ContentOptimizerComponent } from '../../components/optimization/ContentOptimizerComponent';
 import { OptimizationRecommendationsComponent } from '../../components/optimization/OptimizationRecommendationsComponent';
 import { ABTestingComponent } from '../../components/optimization/ABTestingComponent';
-import { OptimizationTrendsComponent } from '../../components/optimization/OptimizationTrendsComponent';
 import { ContentOptimizationDialog } from '../../components/optimization/ContentOptimizationDialog';
 import { CreateABTestDialog } from '../../components/optimization/CreateABTestDialog';
 import {
   useGetOptimizationTrendsQuery,
   useGetABTestsQuery,
 } from '../../store/api/aiContentOptimizationApi';
+import { lazyWithPrefetch } from '../../utils/lazyWithPrefetch';
+
+// Charts load with the Trends tab so recharts stays out of the page chunk
+const OptimizationTrendsComponent = lazyWithPrefetch(
+  () => import('../../components/optimization/OptimizationTrendsComponent'),
+  'OptimizationTrendsComponent'
+);
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -274,10 +280,12 @@ export const ContentOptimizationPage: React.FC = () => {
         </TabPanel>
 
         <TabPanel value={activeTab} index={3}>
-          <OptimizationTrendsComponent 
-            trends={trendsData?.trends}
-            loading={trendsLoading}
-          />
+          <Suspense fallback={<LinearProgress />}>
+            <OptimizationTrendsComponent 
+              trends={trendsData?.trends}
+              loading={trendsLoading}
+            />
+          </Suspense>
         </TabPanel>
       </Card>
 
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   Container,
   Typography,
@@ -22,6 +22,7 @@ import { SecuritySettings } from '../../components/profile/SecuritySettings';
 import { ActivityLog } from '../../components/profile/ActivityLog';
 import { SessionManagementSimple } from '../../components/profile/SessionManagementSimple';
 import { useGetUserProfileQuery } from '../../store/api/userProfileApi';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -45,13 +46,16 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
+const TABS = ['profile', 'preferences', 'security', 'activity', 'sessions'] as const;
+
 export const ProfilePage: React.FC = () => {
-  const [tabValue, setTabValue] = useState(0);
+  const [tab, setTab] = useSearchParamState('tab', TABS[0], TABS);
+  const tabValue = TABS.indexOf(tab);
   
   const { data: profileData, isLoading, error } = useGetUserProfileQuery();
 
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
-    setTabValue(newValue);
+    setTab(TABS[newValue]);
   };
 
   if (error) {
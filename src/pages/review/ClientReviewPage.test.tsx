@@ -0,0 +1,89 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+import { ClientReviewPage } from './ClientReviewPage';
+import type { ClientReview } from '../../store/api/approvalApi';
+
+const mockUseGetClientReviewQuery = vi.fn();
+const mockSubmitReview = vi.fn();
+const mockAddComment = vi.fn();
+
+vi.mock('../../store/api/approvalApi', () => ({
+  useGetClientReviewQuery: (token: string) => mockUseGetClientReviewQuery(token),
+  useSubmitClientReviewMutation: () => [mockSubmitReview, { isLoading: false }],
+  useAddClientReviewCommentMutation: () => [mockAddComment, { isLoading: false }],
+}));
+
+const review: ClientReview = {
+  link: { reviewerEmail: 'client@acme.com', reviewerName: 'Casey', expiresAt: '2030-01-01T12:00:00Z' },
+  workspaceName: 'Acme',
+  stepName: 'Client sign-off',
+  state: 'awaiting_decision',
+  content: { title: 'Cold brew launch', body: '**Launch day** for cold brew', type: 'post', platforms: ['linkedin', 'twitter'] },
+  media: [],
+  comments: [
+    {
+      id: 'comment-1',
+      userId: 'user-1',
+      userName: 'Sam',
+      message: 'Ready for you',
+      type: 'general',
+      isInternal: false,
+      platform: 'twitter',
+      createdAt: '2029-12-30T09:00:00Z',
+    },
+  ],
+};
+
+const renderPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/review/abc123']}>
+      <Routes>
+        <Route path="/review/:token" element={<ClientReviewPage />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('ClientReviewPage', () => {
+  beforeEach(() => {
+    [mockUseGetClientReviewQuery, mockSubmitReview, mockAddComment].forEach((mock) => mock.mockReset());
+    mockUseGetClientReviewQuery.mockReturnValue({ data: { review }, isLoading: false });
+  });
+
+  it('loads the review for the token and previews the first platform', () => {
+    renderPage();
+
+    expect(mockUseGetClientReviewQuery).toHaveBeenCalledWith('abc123');
+    expect(screen.getByText('Cold brew launch')).toBeInTheDocument();
+    expect(screen.getByText('𝗟𝗮𝘂𝗻𝗰𝗵 𝗱𝗮𝘆 for cold brew')).toBeInTheDocument();
+    expect(screen.getByText('No comments yet')).toBeInTheDocument();
+  });
+
+  it('shows the comments left on the platform being previewed', () => {
+    renderPage();
+    fireEvent.click(screen.getByRole('tab', { name: 'twitter' }));
+
+    expect(screen.getByText('Launch day for cold brew')).toBeInTheDocument();
+    expect(screen.getByText('Ready for you')).toBeInTheDocument();
+  });
+
+  it('asks for a note before requesting changes', () => {
+    renderPage();
+    fireEvent.click(screen.getByRole('button', { name: 'Request Changes' }));
+
+    expect(screen.getByLabelText('What needs to change?')).toBeInTheDocument();
+    const buttons = screen.getAllByRole('button', { name: 'Request Changes' });
+    expect(buttons[buttons.length - 1]).toBeDisabled();
+  });
+
+  it('explains when the link cannot be opened', () => {
+    mockUseGetClientReviewQuery.mockReturnValue({
+      isLoading: false,
+      error: { status: 410, data: { error: { message: 'This review link has expired' } } },
+    });
+    renderPage();
+
+    expect(screen.getByText('This review link has expired')).toBeInTheDocument();
+  });
+});
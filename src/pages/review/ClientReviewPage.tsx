@@ -0,0 +1,345 @@
+import React, { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Paper,
+  Typography,
+  Tabs,
+  Tab,
+  Grid,
+  Card,
+  CardContent,
+  CardHeader,
+  Button,
+  TextField,
+  Alert,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  IconButton,
+} from '@mui/material';
+import {
+  ThumbUp as ApproveIcon,
+  ThumbDown as RejectIcon,
+  Edit as ChangesIcon,
+  FormatQuote as QuoteIcon,
+  Close as ClearIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+
+import {
+  useGetClientReviewQuery,
+  useSubmitClientReviewMutation,
+  useAddClientReviewCommentMutation,
+  type ApprovalComment,
+  type ClientReview,
+  type ClientReviewDecision,
+} from '../../store/api/approvalApi';
+import { PlatformPreview } from '../../components/content/PlatformPreview';
+import { findQuote } from '../../utils/commentAnchors';
+import type { ContentPlatform, MediaFile } from '../../types/content';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+
+const MAX_QUOTE_LENGTH = 280;
+
+const DECISIONS: Record<ClientReviewDecision, { label: string; done: string; color: 'success' | 'error' | 'warning' }> = {
+  approved: { label: 'Approve', done: 'You approved this content', color: 'success' },
+  changes_requested: { label: 'Request Changes', done: 'You asked for changes', color: 'warning' },
+  rejected: { label: 'Reject', done: 'You rejected this content', color: 'error' },
+};
+
+const STATE_MESSAGES: Record<Exclude<ClientReview['state'], 'awaiting_decision'>, string> = {
+  decided: 'You have already reviewed this content.',
+  not_ready: "This content isn't ready for your decision yet. You can still look through it and leave comments.",
+  closed: 'This review has been closed by the team.',
+};
+
+// The previews only read a file's type and URLs
+const toPreviewMedia = (media: ClientReview['media']): MediaFile[] =>
+  media.map(({ id, name, mimeType, url, thumbnailUrl }) => ({
+    id,
+    name,
+    type: mimeType,
+    url,
+    thumbnail: thumbnailUrl,
+    size: 0,
+    uploadProgress: 100,
+    uploadStatus: 'completed',
+  } as MediaFile));
+
+const CommentItem: React.FC<{ comment: ApprovalComment }> = ({ comment }) => (
+  <ListItem alignItems="flex-start" disableGutters divider>
+    <ListItemText
+      primary={
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="subtitle2">{comment.userName}</Typography>
+          {comment.platform && (
+            <Chip size="small" variant="outlined" label={comment.platform} sx={{ textTransform: 'capitalize' }} />
+          )}
+          <Typography variant="caption" color="text.secondary">
+            {format(new Date(comment.createdAt), 'MMM d, h:mm a')}
+          </Typography>
+        </Box>
+      }
+      secondary={
+        <>
+          {comment.anchor?.type === 'text' && comment.anchor.quote && (
+            <Typography
+              component="span"
+              variant="body2"
+              sx={{ display: 'block', borderLeft: 3, borderColor: 'divider', pl: 1, my: 0.5, fontStyle: 'italic' }}
+            >
+              {comment.anchor.quote}
+            </Typography>
+          )}
+          <Typography component="span" variant="body2" color="text.primary" sx={{ whiteSpace: 'pre-wrap' }}>
+            {comment.message}
+          </Typography>
+        </>
+      }
+    />
+  </ListItem>
+);
+
+/**
+ * Public page behind a client review link. The token in the URL is the only
+ * credential, so it renders outside the app layout and needs no account.
+ */
+export const ClientReviewPage: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const { data, isLoading, error } = useGetClientReviewQuery(token);
+  const [submitReview, { isLoading: isSubmitting, error: submitError }] = useSubmitClientReviewMutation();
+  const [addComment, { isLoading: isCommenting, error: commentError }] = useAddClientReviewCommentMutation();
+
+  const [platform, setPlatform] = useState<string | null>(null);
+  const [quote, setQuote] = useState('');
+  const [message, setMessage] = useState('');
+  const [pendingDecision, setPendingDecision] = useState<ClientReviewDecision | null>(null);
+  const [decisionComment, setDecisionComment] = useState('');
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!data) {
+    return (
+      <Container maxWidth="sm" sx={{ py: 8 }}>
+        <Alert severity="error">
+          {getApiErrorMessage(error, 'This review link could not be opened')}
+        </Alert>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          Ask the team that shared it with you for a new link.
+        </Typography>
+      </Container>
+    );
+  }
+
+  const { review } = data;
+  const platforms = review.content.platforms.length ? review.content.platforms : ['linkedin'];
+  const currentPlatform = platform && platforms.includes(platform) ? platform : platforms[0];
+  const comments = review.comments.filter(
+    (comment) => !comment.platform || comment.platform === currentPlatform
+  );
+  const canComment = review.state !== 'closed';
+  const decided = review.link.decision;
+
+  // Selecting copy in the preview anchors the next comment to it
+  const handleSelection = () => {
+    const selected = window.getSelection()?.toString().trim() ?? '';
+    if (selected) setQuote(selected.slice(0, MAX_QUOTE_LENGTH));
+  };
+
+  const handleComment = async () => {
+    try {
+      // Previews can reformat the copy, so a quote that isn't in the text is left unanchored
+      const anchor = quote ? findQuote(review.content.body, quote) ?? undefined : undefined;
+      await addComment({ token, message, anchor, platform: currentPlatform }).unwrap();
+      setMessage('');
+      setQuote('');
+    } catch {
+      // Shown through commentError
+    }
+  };
+
+  const handleDecision = async () => {
+    if (!pendingDecision) return;
+    try {
+      await submitReview({ token, decision: pendingDecision, comment: decisionComment || undefined }).unwrap();
+      setPendingDecision(null);
+      setDecisionComment('');
+    } catch {
+      // Shown in the dialog through submitError
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'grey.50', py: 4 }}>
+      <Container maxWidth="lg">
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Typography variant="overline" color="text.secondary">
+            {review.workspaceName} · {review.stepName}
+          </Typography>
+          <Typography variant="h4" gutterBottom>
+            {review.content.title}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Reviewing as {review.link.reviewerName ? `${review.link.reviewerName} (${review.link.reviewerEmail})` : review.link.reviewerEmail}
+            {' · '}Link expires {format(new Date(review.link.expiresAt), 'MMM d, yyyy h:mm a')}
+            {review.content.scheduledAt && ` · Scheduled for ${format(new Date(review.content.scheduledAt), 'MMM d, yyyy h:mm a')}`}
+          </Typography>
+        </Paper>
+
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={7}>
+            <Card>
+              <Tabs
+                value={currentPlatform}
+                onChange={(_, value) => setPlatform(value)}
+                variant="scrollable"
+                sx={{ borderBottom: 1, borderColor: 'divider' }}
+              >
+                {platforms.map((name) => (
+                  <Tab key={name} value={name} label={name} sx={{ textTransform: 'capitalize' }} />
+                ))}
+              </Tabs>
+              <CardContent onMouseUp={handleSelection}>
+                <PlatformPreview
+                  content={review.content.body}
+                  platforms={[{ platform: currentPlatform as ContentPlatform['platform'] }]}
+                  mediaFiles={toPreviewMedia(review.media)}
+                  showAllPreviews={false}
+                />
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid item xs={12} md={5}>
+            <Card sx={{ mb: 3 }}>
+              <CardHeader title="Your Decision" />
+              <CardContent>
+                {decided ? (
+                  <Alert severity={DECISIONS[decided.decision].color}>
+                    {DECISIONS[decided.decision].done} on {format(new Date(decided.decidedAt), 'MMM d, h:mm a')}
+                    {decided.comment && `: "${decided.comment}"`}
+                  </Alert>
+                ) : review.state === 'awaiting_decision' ? (
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                    <Button variant="contained" color="success" startIcon={<ApproveIcon />} onClick={() => setPendingDecision('approved')}>
+                      Approve
+                    </Button>
+                    <Button variant="outlined" color="warning" startIcon={<ChangesIcon />} onClick={() => setPendingDecision('changes_requested')}>
+                      Request Changes
+                    </Button>
+                    <Button variant="outlined" color="error" startIcon={<RejectIcon />} onClick={() => setPendingDecision('rejected')}>
+                      Reject
+                    </Button>
+                  </Box>
+                ) : (
+                  <Alert severity="info">{STATE_MESSAGES[review.state]}</Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader title="Comments" subheader={`On the ${currentPlatform} version. Select text in the preview to comment on it.`} />
+              <CardContent>
+                {comments.length ? (
+                  <List dense disablePadding sx={{ mb: 2 }}>
+                    {comments.map((comment) => (
+                      <CommentItem key={comment.id} comment={comment} />
+                    ))}
+                  </List>
+                ) : (
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    No comments yet
+                  </Typography>
+                )}
+
+                {canComment && (
+                  <>
+                    {commentError && (
+                      <Alert severity="error" sx={{ mb: 1 }}>
+                        {getApiErrorMessage(commentError, 'Failed to add the comment')}
+                      </Alert>
+                    )}
+                    {quote && (
+                      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mb: 1, p: 1, bgcolor: 'action.hover', borderRadius: 1 }}>
+                        <QuoteIcon fontSize="small" color="action" />
+                        <Typography variant="body2" sx={{ flexGrow: 1, fontStyle: 'italic' }}>
+                          {quote}
+                        </Typography>
+                        <IconButton size="small" onClick={() => setQuote('')} aria-label="Clear quote">
+                          <ClearIcon fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    )}
+                    <TextField
+                      fullWidth
+                      multiline
+                      minRows={2}
+                      placeholder={quote ? 'Comment on the selected copy' : 'Leave a comment for the team'}
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                    />
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+                      <Button variant="contained" onClick={handleComment} disabled={isCommenting || !message.trim()}>
+                        Comment
+                      </Button>
+                    </Box>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+        </Grid>
+      </Container>
+
+      <Dialog open={Boolean(pendingDecision)} onClose={() => setPendingDecision(null)} maxWidth="sm" fullWidth>
+        {pendingDecision && (
+          <>
+            <DialogTitle>{DECISIONS[pendingDecision].label}</DialogTitle>
+            <DialogContent>
+              {submitError && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {getApiErrorMessage(submitError, 'Failed to send your decision')}
+                </Alert>
+              )}
+              <TextField
+                autoFocus
+                fullWidth
+                multiline
+                minRows={3}
+                sx={{ mt: 1 }}
+                label={pendingDecision === 'approved' ? 'Note for the team (optional)' : 'What needs to change?'}
+                value={decisionComment}
+                onChange={(e) => setDecisionComment(e.target.value)}
+              />
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setPendingDecision(null)}>Cancel</Button>
+              <Button
+                variant="contained"
+                color={DECISIONS[pendingDecision].color}
+                onClick={handleDecision}
+                disabled={isSubmitting || (pendingDecision !== 'approved' && !decisionComment.trim())}
+              >
+                {DECISIONS[pendingDecision].label}
+              </Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Box>
+  );
+};
@@ -40,9 +40,11 @@ import {
   Edit as EditIcon,
   Add as AddIcon,
   Delete as DeleteIcon,
-  CheckCircle as CheckIcon
+  CheckCircle as CheckIcon,
+  Rule as RulesIcon
 } from '@mui/icons-material';
 import { useTenant } from '../../contexts/TenantContext';
+import { ContentRulesManager } from '../../components/organization/ContentRulesManager';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -89,6 +91,7 @@ export const OrganizationSettingsPage: React.FC = () => {
     { label: 'Subscription', icon: <PaymentIcon /> },
     { label: 'Team', icon: <TeamIcon /> },
     { label: 'Branding', icon: <BrandingIcon /> },
+    { label: 'Content Rules', icon: <RulesIcon /> },
     { label: 'API & Integrations', icon: <ApiIcon /> },
     { label: 'Usage & Limits', icon: <StorageIcon /> }
   ];
@@ -601,9 +604,12 @@ export const OrganizationSettingsPage: React.FC = () => {
           {renderBrandingTab()}
         </TabPanel>
         <TabPanel value={currentTab} index={4}>
-          {renderApiTab()}
+          <ContentRulesManager organizationId={currentOrganization.id} />
         </TabPanel>
         <TabPanel value={currentTab} index={5}>
+          {renderApiTab()}
+        </TabPanel>
+        <TabPanel value={currentTab} index={6}>
           {renderUsageTab()}
         </TabPanel>
       </Paper>
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Routes, Route } from 'react-router-dom';
 import { Container, Typography, Box } from '@mui/material';
+import { useTenant } from '../../contexts/TenantContext';
+import { CalendarFeedSettings } from '../../components/workspace/CalendarFeedSettings';
 
 export const SettingsPage: React.FC = () => {
   return (
@@ -56,6 +58,8 @@ const OrganizationSettings: React.FC = () => {
 };
 
 const WorkspaceSettings: React.FC = () => {
+  const { currentWorkspace } = useTenant();
+
   return (
     <Box>
       <Typography variant="h5" gutterBottom>
@@ -79,6 +83,12 @@ const WorkspaceSettings: React.FC = () => {
         <Box data-testid="member-item">Admin</Box>
         <Box data-testid="invite-workspace-member">Invite Member</Box>
       </Box>
+
+      {currentWorkspace && (
+        <Box sx={{ mt: 3 }}>
+          <CalendarFeedSettings workspaceId={currentWorkspace.id} />
+        </Box>
+      )}
     </Box>
   );
 };
@@ -18,6 +18,7 @@ import {
 import { TeamMembersView } from '../../components/team/TeamMembersView';
 import { TeamInvitesView } from '../../components/team/TeamInvitesView';
 import { InviteUserDialog } from '../../components/team/InviteUserDialog';
+import { Can } from '../../components/auth/Can';
 import { useTenant } from '../../contexts/TenantContext';
 
 interface TabPanelProps {
@@ -75,14 +76,16 @@ export const TeamPage: React.FC = () => {
           </Typography>
         </Box>
 
-        <Button
-          variant="contained"
-          startIcon={<PersonAddIcon />}
-          onClick={() => setInviteDialogOpen(true)}
-          size="large"
-        >
-          Invite Member
-        </Button>
+        <Can permissions={['manage_team']} disable>
+          <Button
+            variant="contained"
+            startIcon={<PersonAddIcon />}
+            onClick={() => setInviteDialogOpen(true)}
+            size="large"
+          >
+            Invite Member
+          </Button>
+        </Can>
       </Box>
 
       {/* Team Management Tabs */}
@@ -0,0 +1,71 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+import { TemplatesPage } from './TemplatesPage';
+
+const mockUseGetTemplateQuery = vi.fn();
+
+vi.mock('../../store/api/templatesApi', () => {
+  const query = () => ({ data: undefined, isLoading: false });
+  const mutation = () => [vi.fn()];
+  return {
+    useGetTemplatesQuery: () => ({ data: { templates: [] }, isLoading: false }),
+    useGetTemplateQuery: (id: string, options: unknown) => mockUseGetTemplateQuery(id, options),
+    useGetTemplateCategoriesQuery: query,
+    useGetBrandGuidelinesQuery: query,
+    useGetBrandAssetsQuery: query,
+    useGetTemplateAnalyticsQuery: query,
+    useCreateTemplateMutation: mutation,
+    useUpdateTemplateMutation: mutation,
+    useDeleteTemplateMutation: mutation,
+    useDuplicateTemplateMutation: mutation,
+    useCreateBrandGuidelinesMutation: mutation,
+    useUploadBrandAssetMutation: mutation,
+    useCheckBrandComplianceMutation: mutation,
+  };
+});
+
+const CurrentPath = () => <div data-testid="path">{useLocation().pathname}</div>;
+
+const renderAt = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/templates" element={<TemplatesPage />} />
+        <Route path="/templates/:id/edit" element={<TemplatesPage />} />
+      </Routes>
+      <CurrentPath />
+    </MemoryRouter>
+  );
+
+describe('TemplatesPage', () => {
+  beforeEach(() => {
+    mockUseGetTemplateQuery.mockReset();
+    mockUseGetTemplateQuery.mockReturnValue({ data: undefined, isLoading: false });
+  });
+
+  it('loads the template named in an edit link', () => {
+    mockUseGetTemplateQuery.mockReturnValue({ data: undefined, isLoading: true });
+    renderAt('/templates/template-1/edit');
+
+    expect(mockUseGetTemplateQuery).toHaveBeenCalledWith('template-1', { skip: false });
+    expect(screen.getByRole('progressbar', { name: 'Loading' })).toBeInTheDocument();
+  });
+
+  it('says so when the linked template does not exist and goes back to the list', () => {
+    renderAt('/templates/missing/edit');
+
+    expect(screen.getByText("This template doesn't exist or has been deleted.")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+    expect(screen.getByTestId('path')).toHaveTextContent(/^\/templates$/);
+  });
+
+  it('opens no dialog on the list itself', () => {
+    renderAt('/templates');
+
+    expect(mockUseGetTemplateQuery).toHaveBeenCalledWith('', { skip: true });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
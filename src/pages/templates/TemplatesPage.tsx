@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useLocation, useMatch, useNavigate, useParams } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -24,6 +25,7 @@ import {
   InputLabel,
   Select,
   Alert,
+  Snackbar,
   CircularProgress,
   Avatar,
   List,
@@ -54,8 +56,10 @@ import {
 
 import {
   useGetTemplatesQuery,
+  useGetTemplateQuery,
   useGetTemplateCategoriesQuery,
   useCreateTemplateMutation,
+  useUpdateTemplateMutation,
   useDeleteTemplateMutation,
   useDuplicateTemplateMutation,
   useGetBrandGuidelinesQuery,
@@ -68,6 +72,9 @@ import {
   type BrandGuidelines,
   type BrandAsset
 } from '../../store/api/templatesApi';
+import { getApiErrorMessage } from '../../store/api/baseApi';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
+import { DeepLinkStatusDialog } from '../../components/layout/DeepLinkStatusDialog';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -83,10 +90,17 @@ const TabPanel: React.FC<TabPanelProps> = ({ children, value, index }) => {
   );
 };
 
+const TABS = ['templates', 'guidelines', 'assets', 'analytics'] as const;
+
 export const TemplatesPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState(0);
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [templateDialog, setTemplateDialog] = useState(false);
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  // `/templates/new` and `/templates/:id/edit` open the template dialog
+  const { id: editingId } = useParams<{ id: string }>();
+  const isCreating = Boolean(useMatch('/templates/new'));
+  const [tab, setTab] = useSearchParamState('tab', TABS[0], TABS);
+  const activeTab = TABS.indexOf(tab);
+  const [selectedCategory, setSelectedCategory] = useSearchParamState<string>('category', 'all');
   const [brandGuidelinesDialog, setBrandGuidelinesDialog] = useState(false);
   const [assetUploadDialog, setAssetUploadDialog] = useState(false);
   const [complianceDialog, setComplianceDialog] = useState<{
@@ -95,6 +109,7 @@ export const TemplatesPage: React.FC = () => {
     result?: any;
   }>({ open: false });
   const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; template: ContentTemplate } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   // API calls
   const { data: templatesData, isLoading: templatesLoading } = useGetTemplatesQuery({
@@ -102,12 +117,14 @@ export const TemplatesPage: React.FC = () => {
     limit: 20
   });
 
+  const { data: editingTemplate, isLoading: editingLoading } = useGetTemplateQuery(editingId ?? '', { skip: !editingId });
   const { data: categoriesData } = useGetTemplateCategoriesQuery();
   const { data: brandGuidelines } = useGetBrandGuidelinesQuery({});
   const { data: brandAssets } = useGetBrandAssetsQuery({});
   const { data: analyticsData } = useGetTemplateAnalyticsQuery({ period: 'month' });
 
   const [createTemplate] = useCreateTemplateMutation();
+  const [updateTemplate] = useUpdateTemplateMutation();
   const [deleteTemplate] = useDeleteTemplateMutation();
   const [duplicateTemplate] = useDuplicateTemplateMutation();
   const [createBrandGuidelines] = useCreateBrandGuidelinesMutation();
@@ -115,9 +132,11 @@ export const TemplatesPage: React.FC = () => {
   const [checkBrandCompliance] = useCheckBrandComplianceMutation();
 
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
-    setActiveTab(newValue);
+    setTab(TABS[newValue]);
   };
 
+  const closeTemplateDialog = () => navigate(`/templates${search}`);
+
   const handleCreateTemplate = async (templateData: {
     name: string;
     category: ContentTemplate['category'];
@@ -132,9 +151,23 @@ export const TemplatesPage: React.FC = () => {
           { platform: 'facebook', enabled: true }
         ]
       }).unwrap();
-      setTemplateDialog(false);
+      closeTemplateDialog();
+    } catch (error) {
+      setActionError(getApiErrorMessage(error, 'Failed to create template'));
+    }
+  };
+
+  const handleUpdateTemplate = async (templateData: {
+    name: string;
+    category: ContentTemplate['category'];
+    content: ContentTemplate['content'];
+  }) => {
+    if (!editingId) return;
+    try {
+      await updateTemplate({ id: editingId, ...templateData }).unwrap();
+      closeTemplateDialog();
     } catch (error) {
-      console.error('Failed to create template:', error);
+      setActionError(getApiErrorMessage(error, 'Failed to update template'));
     }
   };
 
@@ -143,7 +176,7 @@ export const TemplatesPage: React.FC = () => {
       await deleteTemplate(templateId).unwrap();
       setMenuAnchor(null);
     } catch (error) {
-      console.error('Failed to delete template:', error);
+      setActionError(getApiErrorMessage(error, 'Failed to delete template'));
     }
   };
 
@@ -152,7 +185,7 @@ export const TemplatesPage: React.FC = () => {
       await duplicateTemplate({ id: templateId }).unwrap();
       setMenuAnchor(null);
     } catch (error) {
-      console.error('Failed to duplicate template:', error);
+      setActionError(getApiErrorMessage(error, 'Failed to duplicate template'));
     }
   };
 
@@ -229,7 +262,7 @@ export const TemplatesPage: React.FC = () => {
       }).unwrap();
       setBrandGuidelinesDialog(false);
     } catch (error) {
-      console.error('Failed to create brand guidelines:', error);
+      setActionError(getApiErrorMessage(error, 'Failed to create brand guidelines'));
     }
   };
 
@@ -250,7 +283,7 @@ export const TemplatesPage: React.FC = () => {
       }).unwrap();
       setAssetUploadDialog(false);
     } catch (error) {
-      console.error('Failed to upload asset:', error);
+      setActionError(getApiErrorMessage(error, 'Failed to upload asset'));
     }
   };
 
@@ -262,7 +295,7 @@ export const TemplatesPage: React.FC = () => {
       }).unwrap();
       setComplianceDialog({ open: true, content, result });
     } catch (error) {
-      console.error('Failed to check compliance:', error);
+      setActionError(getApiErrorMessage(error, 'Failed to check compliance'));
     }
   };
 
@@ -340,7 +373,7 @@ export const TemplatesPage: React.FC = () => {
             <Button
               variant="contained"
               startIcon={<AddIcon />}
-              onClick={() => setTemplateDialog(true)}
+              onClick={() => navigate(`/templates/new${search}`)}
             >
               Create Template
             </Button>
@@ -720,7 +753,12 @@ export const TemplatesPage: React.FC = () => {
         open={Boolean(menuAnchor)}
         onClose={() => setMenuAnchor(null)}
       >
-        <MenuItem onClick={() => setMenuAnchor(null)}>
+        <MenuItem onClick={() => {
+          if (menuAnchor?.template) {
+            navigate(`/templates/${menuAnchor.template.id}/edit${search}`);
+          }
+          setMenuAnchor(null);
+        }}>
           <EditIcon sx={{ mr: 1 }} />
           Edit Template
         </MenuItem>
@@ -745,11 +783,20 @@ export const TemplatesPage: React.FC = () => {
         </MenuItem>
       </Menu>
 
-      {/* Create Template Dialog */}
+      {/* Create / Edit Template Dialog */}
+      <DeepLinkStatusDialog
+        open={Boolean(editingId && !editingTemplate)}
+        loading={editingLoading}
+        title="Edit Template"
+        notFoundMessage="This template doesn't exist or has been deleted."
+        onClose={closeTemplateDialog}
+      />
       <CreateTemplateDialog
-        open={templateDialog}
-        onClose={() => setTemplateDialog(false)}
-        onCreate={handleCreateTemplate}
+        key={editingTemplate?.id ?? 'new'}
+        open={isCreating || Boolean(editingId && editingTemplate)}
+        template={editingId ? editingTemplate : undefined}
+        onClose={closeTemplateDialog}
+        onCreate={editingId ? handleUpdateTemplate : handleCreateTemplate}
       />
 
       {/* Create Brand Guidelines Dialog */}
@@ -772,6 +819,12 @@ export const TemplatesPage: React.FC = () => {
         onClose={() => setComplianceDialog({ open: false })}
         result={complianceDialog.result}
       />
+
+      <Snackbar open={Boolean(actionError)} autoHideDuration={6000} onClose={() => setActionError(null)}>
+        <Alert severity="error" onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      </Snackbar>
     </Container>
   );
 };
@@ -779,27 +832,31 @@ export const TemplatesPage: React.FC = () => {
 // Create Template Dialog Component
 interface CreateTemplateDialogProps {
   open: boolean;
+  template?: ContentTemplate; // edits it instead of creating one
   onClose: () => void;
   onCreate: (data: any) => void;
 }
 
 const CreateTemplateDialog: React.FC<CreateTemplateDialogProps> = ({
   open,
+  template,
   onClose,
   onCreate
 }) => {
   const [formData, setFormData] = useState({
-    name: '',
-    category: 'social_post' as ContentTemplate['category'],
+    name: template?.name ?? '',
+    category: template?.category ?? ('social_post' as ContentTemplate['category']),
     content: {
-      body: '',
-      hashtags: [] as string[]
+      ...template?.content,
+      body: template?.content.body ?? '',
+      hashtags: template?.content.hashtags ?? ([] as string[])
     }
   });
 
   const handleSubmit = () => {
     if (formData.name.trim() && formData.content.body.trim()) {
       onCreate(formData);
+      if (template) return;
       setFormData({
         name: '',
         category: 'social_post',
@@ -810,7 +867,7 @@ const CreateTemplateDialog: React.FC<CreateTemplateDialogProps> = ({
 
   return (
     <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
-      <DialogTitle>Create Content Template</DialogTitle>
+      <DialogTitle>{template ? 'Edit Content Template' : 'Create Content Template'}</DialogTitle>
       <DialogContent>
         <TextField
           fullWidth
@@ -858,7 +915,7 @@ const CreateTemplateDialog: React.FC<CreateTemplateDialogProps> = ({
           variant="contained"
           disabled={!formData.name.trim() || !formData.content.body.trim()}
         >
-          Create Template
+          {template ? 'Save Changes' : 'Create Template'}
         </Button>
       </DialogActions>
     </Dialog>
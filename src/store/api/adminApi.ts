@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface AdminUser {
   id: string;
@@ -223,19 +223,7 @@ export interface SecurityAlert {
 
 export const adminApi = createApi({
   reducerPath: 'adminApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/admin',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/admin'),
   tagTypes: ['AdminUser', 'AdminOrganization', 'SystemMetrics', 'AuditLog', 'SecurityAlert'],
   endpoints: (builder) => ({
     // System Overview
@@ -17,8 +17,8 @@
  * - Trending insights and benchmarking
  */
 
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 // Analytics Interfaces
 export interface CrossPlatformMetrics {
@@ -255,24 +255,7 @@ export interface ExportRequest {
 
 export const advancedAnalyticsApi = createApi({
   reducerPath: 'advancedAnalyticsApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/analytics/advanced',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/analytics/advanced'),
   tagTypes: [
     'CrossPlatformMetrics',
     'AudienceInsights', 
@@ -1,27 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
-
-const baseQueryWithAuth = fetchBaseQuery({
-  baseUrl: '/api/v1',
-  prepareHeaders: (headers, { getState }) => {
-    const state = getState() as RootState;
-    const token = state.auth.accessToken;
-    
-    if (token) {
-      headers.set('authorization', `Bearer ${token}`);
-    }
-    
-    const { currentOrganization, currentWorkspace } = state.tenant;
-    if (currentOrganization) {
-      headers.set('x-organization-id', currentOrganization.id);
-    }
-    if (currentWorkspace) {
-      headers.set('x-workspace-id', currentWorkspace.id);
-    }
-    
-    return headers;
-  },
-});
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface GeneratedContent {
   title?: string;
@@ -132,7 +110,7 @@ export interface LanguageDetectionResponse {
 
 export const aiContentApi = createApi({
   reducerPath: 'aiContentApi',
-  baseQuery: baseQueryWithAuth,
+  baseQuery: createBaseQuery(),
   tagTypes: ['Content', 'Voice', 'Language'],
   endpoints: (builder) => ({
     // Generate content from text prompt
@@ -8,7 +8,8 @@
  * @version 1.0.0
  */
 
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface ContentOptimizationRequest {
   contentId?: string;
@@ -223,16 +224,7 @@ export interface ABTestsResponse {
 
 export const aiContentOptimizationApi = createApi({
   reducerPath: 'aiContentOptimizationApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/optimization',
-    prepareHeaders: (headers, { getState }) => {
-      const token = (getState() as any).auth.token;
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/optimization'),
   tagTypes: ['Optimization', 'ABTest', 'ContentInsights', 'Trends'],
   endpoints: (builder) => ({
     // Content Optimization
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface SentimentAnalysis {
   id: string;
@@ -308,24 +308,7 @@ export interface CompetitorAnalysis {
 
 export const aiInsightsApi = createApi({
   reducerPath: 'aiInsightsApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/ai-insights',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/ai-insights'),
   tagTypes: ['SentimentAnalysis', 'TrendAnalysis', 'AIInsight', 'CompetitorAnalysis'],
   endpoints: (builder) => ({
     // Sentiment Analysis
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface AnalyticsMetrics {
   engagement: {
@@ -144,29 +144,7 @@ export interface ROIAnalysis {
 
 export const analyticsApi = createApi({
   reducerPath: 'analyticsApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/analytics',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/analytics'),
   tagTypes: ['Analytics', 'Report', 'Performance'],
   endpoints: (builder) => ({
     getAnalyticsOverview: builder.query<{
@@ -1,5 +1,6 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
+import type { CommentAnchor } from '../../utils/commentAnchors';
 
 export interface ApprovalWorkflow {
   id: string;
@@ -23,6 +24,9 @@ export interface ApprovalWorkflow {
     onRejection: boolean;
     onEscalation: boolean;
   };
+  sla?: {
+    reminderThresholds: number[]; // percent of a step's timeout after which assignees are reminded
+  };
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -38,12 +42,13 @@ export interface ApprovalStep {
     roleIds?: string[];
     anyOf?: boolean; // true = any assignee can approve, false = all must approve
   };
+  dependsOn?: string[]; // step ids that must finish first, see utils/approvalWorkflowGraph
   timeoutHours?: number; // auto-escalate after X hours
   escalationUserId?: string;
-  isOptional: boolean;
+  isOptional: boolean; // a rejection is recorded but doesn't reject the request
   conditions?: {
-    skipIf?: string; // JavaScript expression
-    requireIf?: string; // JavaScript expression
+    skipIf?: string; // condition expression, see utils/approvalConditions
+    requireIf?: string; // condition expression; when set, the step runs only if it holds
   };
 }
 
@@ -64,6 +69,7 @@ export interface ApprovalRequest {
     scheduledAt?: string;
     mediaFiles?: string[];
     estimatedReach?: number;
+    riskScore?: number; // 0–100, from validating the copy
   };
   
   steps: ApprovalRequestStep[];
@@ -93,6 +99,8 @@ export interface ApprovalRequestStep {
   completedAt?: string;
   escalatedAt?: string;
   escalatedTo?: string;
+  escalatedFrom?: string[]; // assignees before the step was escalated
+  remindersSent?: number[]; // reminder thresholds already sent, see utils/approvalSla
 }
 
 export interface ApprovalComment {
@@ -103,6 +111,19 @@ export interface ApprovalComment {
   message: string;
   type: 'general' | 'suggestion' | 'concern' | 'approval' | 'rejection';
   isInternal: boolean; // internal comments not visible to content creator
+  reviewerEmail?: string; // left by an external client through a review link
+  parentId?: string; // replies point at the comment that opened the thread
+  anchor?: CommentAnchor; // the text range or media item it's on, see utils/commentAnchors
+  platform?: string; // the platform preview the comment was left on
+  status?: 'open' | 'resolved'; // threads only; replies follow their parent
+  resolvedBy?: string;
+  resolvedAt?: string;
+  suggestion?: {
+    replacement: string; // proposed text for the anchored range
+    status: 'open' | 'accepted' | 'rejected';
+    decidedBy?: string;
+    decidedAt?: string;
+  };
   attachments?: {
     type: 'image' | 'document';
     url: string;
@@ -114,9 +135,10 @@ export interface ApprovalComment {
 
 export interface ApprovalHistoryEntry {
   id: string;
-  action: 'submitted' | 'approved' | 'rejected' | 'escalated' | 'commented' | 'modified' | 'cancelled';
+  action: 'submitted' | 'approved' | 'rejected' | 'changes_requested' | 'escalated' | 'commented' | 'modified' | 'cancelled';
   userId: string;
   userName: string;
+  reviewerEmail?: string; // set when an external client acted through a review link
   stepId?: string;
   stepName?: string;
   details?: string;
@@ -124,6 +146,39 @@ export interface ApprovalHistoryEntry {
   timestamp: string;
 }
 
+export type ClientReviewDecision = 'approved' | 'rejected' | 'changes_requested';
+
+// Signed, expiring link that lets a client without an account decide one step of a request
+export interface ClientReviewLink {
+  id: string;
+  requestId: string;
+  stepId: string; // references ApprovalStep.id
+  reviewerEmail: string;
+  reviewerName?: string;
+  url: string;
+  expiresAt: string;
+  createdAt: string;
+  createdBy: string;
+  revokedAt?: string;
+  lastOpenedAt?: string;
+  decision?: {
+    decision: ClientReviewDecision;
+    comment?: string;
+    decidedAt: string;
+  };
+}
+
+// What the public review page sees: the content, the client-visible comments and nothing internal
+export interface ClientReview {
+  link: Pick<ClientReviewLink, 'reviewerEmail' | 'reviewerName' | 'expiresAt' | 'decision'>;
+  workspaceName: string;
+  stepName: string;
+  state: 'awaiting_decision' | 'not_ready' | 'decided' | 'closed';
+  content: ApprovalRequest['content'];
+  media: { id: string; name: string; mimeType: string; url: string; thumbnailUrl?: string }[];
+  comments: ApprovalComment[];
+}
+
 export interface ApprovalTemplate {
   id: string;
   name: string;
@@ -131,6 +186,10 @@ export interface ApprovalTemplate {
   type: 'workflow' | 'checklist' | 'guidelines';
   organizationId: string;
   
+  workflow?: {
+    steps: ApprovalStep[];
+  };
+  
   checklist?: {
     items: {
       id: string;
@@ -153,6 +212,27 @@ export interface ApprovalTemplate {
   updatedAt: string;
 }
 
+export interface ApprovalSlaBreach {
+  requestId: string;
+  title: string;
+  stepId: string;
+  stepName: string;
+  assignees: string[]; // names
+  deadline: string;
+  overdueHours: number;
+  escalatedTo?: string; // name
+}
+
+export interface ApproverTurnaround {
+  userId: string;
+  name: string;
+  decisions: number;
+  averageHours: number;
+  onTime: number;
+  late: number;
+  escalations: number; // steps escalated away from them
+}
+
 export interface ApprovalStats {
   total: number;
   pending: number;
@@ -184,34 +264,20 @@ export interface ApprovalStats {
       count: number;
     }[];
   };
+  
+  sla: {
+    onTrack: number;
+    atRisk: number;
+    breached: number;
+    breaches: ApprovalSlaBreach[];
+  };
+  byApprover: ApproverTurnaround[];
 }
 
 export const approvalApi = createApi({
   reducerPath: 'approvalApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/approval',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
-  tagTypes: ['ApprovalWorkflow', 'ApprovalRequest', 'ApprovalTemplate', 'ApprovalStats'],
+  baseQuery: createBaseQuery('/approval'),
+  tagTypes: ['ApprovalWorkflow', 'ApprovalRequest', 'ApprovalTemplate', 'ApprovalStats', 'ClientReviewLink', 'ClientReview'],
   endpoints: (builder) => ({
     // Workflows
     getApprovalWorkflows: builder.query<{ workflows: ApprovalWorkflow[] }, { workspaceId?: string }>({
@@ -228,6 +294,7 @@ export const approvalApi = createApi({
       steps: Omit<ApprovalStep, 'id'>[];
       conditions?: ApprovalWorkflow['conditions'];
       notifications?: ApprovalWorkflow['notifications'];
+      sla?: ApprovalWorkflow['sla'];
       isDefault?: boolean;
       workspaceId?: string;
     }>({
@@ -246,6 +313,7 @@ export const approvalApi = createApi({
       steps?: Omit<ApprovalStep, 'id'>[];
       conditions?: ApprovalWorkflow['conditions'];
       notifications?: ApprovalWorkflow['notifications'];
+      sla?: ApprovalWorkflow['sla'];
       isActive?: boolean;
       isDefault?: boolean;
     }>({
@@ -350,12 +418,29 @@ export const approvalApi = createApi({
       invalidatesTags: ['ApprovalRequest', 'ApprovalStats'],
     }),
 
+    remindStep: builder.mutation<{ request: ApprovalRequest }, {
+      requestId: string;
+      stepId: string;
+      threshold: number;
+    }>({
+      query: ({ requestId, stepId, ...data }) => ({
+        url: `/requests/${requestId}/steps/${stepId}/remind`,
+        method: 'POST',
+        body: data,
+      }),
+      invalidatesTags: ['ApprovalRequest'],
+    }),
+
     addComment: builder.mutation<{ comment: ApprovalComment }, {
       requestId: string;
       message: string;
       type?: ApprovalComment['type'];
       isInternal?: boolean;
       attachments?: ApprovalComment['attachments'];
+      parentId?: string;
+      anchor?: CommentAnchor;
+      platform?: string;
+      suggestion?: { replacement: string };
     }>({
       query: ({ requestId, ...data }) => ({
         url: `/requests/${requestId}/comments`,
@@ -365,6 +450,31 @@ export const approvalApi = createApi({
       invalidatesTags: (_, __, { requestId }) => [{ type: 'ApprovalRequest', id: requestId }],
     }),
 
+    resolveCommentThread: builder.mutation<{ comment: ApprovalComment }, {
+      requestId: string;
+      commentId: string;
+      resolved: boolean;
+    }>({
+      query: ({ requestId, commentId, resolved }) => ({
+        url: `/requests/${requestId}/comments/${commentId}/${resolved ? 'resolve' : 'reopen'}`,
+        method: 'POST',
+      }),
+      invalidatesTags: (_, __, { requestId }) => [{ type: 'ApprovalRequest', id: requestId }],
+    }),
+
+    // Accepting applies the suggested edit to the content's text
+    decideSuggestion: builder.mutation<{ request: ApprovalRequest }, {
+      requestId: string;
+      commentId: string;
+      decision: 'accept' | 'reject';
+    }>({
+      query: ({ requestId, commentId, decision }) => ({
+        url: `/requests/${requestId}/comments/${commentId}/suggestion/${decision}`,
+        method: 'POST',
+      }),
+      invalidatesTags: ['ApprovalRequest'],
+    }),
+
     updateComment: builder.mutation<{ comment: ApprovalComment }, {
       requestId: string;
       commentId: string;
@@ -401,6 +511,74 @@ export const approvalApi = createApi({
       invalidatesTags: ['ApprovalRequest', 'ApprovalStats'],
     }),
 
+    // Client review links
+    getClientReviewLinks: builder.query<{ links: ClientReviewLink[] }, string>({
+      query: (requestId) => `/requests/${requestId}/review-links`,
+      providesTags: (_, __, requestId) => [{ type: 'ClientReviewLink', id: requestId }],
+    }),
+
+    createClientReviewLink: builder.mutation<{ link: ClientReviewLink }, {
+      requestId: string;
+      reviewerEmail: string;
+      reviewerName?: string;
+      stepId?: string; // defaults to the request's last step
+      expiresInHours?: number;
+    }>({
+      query: ({ requestId, ...data }) => ({
+        url: `/requests/${requestId}/review-links`,
+        method: 'POST',
+        body: data,
+      }),
+      invalidatesTags: (_, __, { requestId }) => [{ type: 'ClientReviewLink', id: requestId }],
+    }),
+
+    revokeClientReviewLink: builder.mutation<{ link: ClientReviewLink }, {
+      requestId: string;
+      linkId: string;
+    }>({
+      query: ({ requestId, linkId }) => ({
+        url: `/requests/${requestId}/review-links/${linkId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_, __, { requestId }) => [{ type: 'ClientReviewLink', id: requestId }],
+    }),
+
+    // Public: the link token is the credential, the client has no session
+    getClientReview: builder.query<{ review: ClientReview }, string>({
+      query: (token) => `/review/${token}`,
+      extraOptions: { skipReauth: true },
+      providesTags: (_, __, token) => [{ type: 'ClientReview', id: token }],
+    }),
+
+    submitClientReview: builder.mutation<{ review: ClientReview }, {
+      token: string;
+      decision: ClientReviewDecision;
+      comment?: string;
+    }>({
+      query: ({ token, ...data }) => ({
+        url: `/review/${token}/decision`,
+        method: 'POST',
+        body: data,
+      }),
+      extraOptions: { skipReauth: true },
+      invalidatesTags: (_, __, { token }) => [{ type: 'ClientReview', id: token }],
+    }),
+
+    addClientReviewComment: builder.mutation<{ comment: ApprovalComment }, {
+      token: string;
+      message: string;
+      anchor?: CommentAnchor;
+      platform?: string;
+    }>({
+      query: ({ token, ...data }) => ({
+        url: `/review/${token}/comments`,
+        method: 'POST',
+        body: data,
+      }),
+      extraOptions: { skipReauth: true },
+      invalidatesTags: (_, __, { token }) => [{ type: 'ClientReview', id: token }],
+    }),
+
     // Templates
     getApprovalTemplates: builder.query<{ templates: ApprovalTemplate[] }, {
       type?: ApprovalTemplate['type'];
@@ -416,6 +594,7 @@ export const approvalApi = createApi({
       name: string;
       description?: string;
       type: ApprovalTemplate['type'];
+      workflow?: ApprovalTemplate['workflow'];
       checklist?: ApprovalTemplate['checklist'];
       guidelines?: ApprovalTemplate['guidelines'];
     }>({
@@ -431,6 +610,7 @@ export const approvalApi = createApi({
       id: string;
       name?: string;
       description?: string;
+      workflow?: ApprovalTemplate['workflow'];
       checklist?: ApprovalTemplate['checklist'];
       guidelines?: ApprovalTemplate['guidelines'];
     }>({
@@ -529,15 +709,25 @@ export const {
   useUpdateApprovalWorkflowMutation,
   useDeleteApprovalWorkflowMutation,
   useGetApprovalRequestsQuery,
+  useLazyGetApprovalRequestsQuery,
   useGetApprovalRequestQuery,
   useSubmitForApprovalMutation,
   useApproveStepMutation,
   useRejectStepMutation,
   useEscalateStepMutation,
+  useRemindStepMutation,
   useAddCommentMutation,
   useUpdateCommentMutation,
   useDeleteCommentMutation,
+  useResolveCommentThreadMutation,
+  useDecideSuggestionMutation,
   useCancelApprovalRequestMutation,
+  useGetClientReviewLinksQuery,
+  useCreateClientReviewLinkMutation,
+  useRevokeClientReviewLinkMutation,
+  useGetClientReviewQuery,
+  useSubmitClientReviewMutation,
+  useAddClientReviewCommentMutation,
   useGetApprovalTemplatesQuery,
   useCreateApprovalTemplateMutation,
   useUpdateApprovalTemplateMutation,
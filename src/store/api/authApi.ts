@@ -1,12 +1,13 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 import type { User } from '../slices/authSlice';
 
-interface LoginRequest {
+export interface LoginRequest {
   email: string;
   password: string;
 }
 
-interface RegisterRequest {
+export interface RegisterRequest {
   email: string;
   password: string;
   firstName: string;
@@ -35,16 +36,14 @@ interface ResetPasswordRequest {
   password: string;
 }
 
-interface ChangePasswordRequest {
+export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
 }
 
 export const authApi = createApi({
   reducerPath: 'authApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/auth',
-  }),
+  baseQuery: createBaseQuery('/auth'),
   tagTypes: ['User'],
   endpoints: (builder) => ({
     login: builder.mutation<AuthResponse, LoginRequest>({
@@ -53,6 +52,7 @@ export const authApi = createApi({
         method: 'POST',
         body: credentials,
       }),
+      extraOptions: { skipReauth: true },
       transformResponse: (response: { success: boolean; data: AuthResponse }) => response.data,
       invalidatesTags: ['User'],
     }),
@@ -63,6 +63,7 @@ export const authApi = createApi({
         method: 'POST',
         body: userData,
       }),
+      extraOptions: { skipReauth: true },
       transformResponse: (response: { success: boolean; data: AuthResponse }) => response.data,
       invalidatesTags: ['User'],
     }),
@@ -73,6 +74,7 @@ export const authApi = createApi({
         method: 'POST',
         body: { refreshToken },
       }),
+      extraOptions: { skipReauth: true },
     }),
     
     logout: builder.mutation<void, void>({
@@ -95,6 +97,7 @@ export const authApi = createApi({
         method: 'POST',
         body: data,
       }),
+      extraOptions: { skipReauth: true },
     }),
     
     resetPassword: builder.mutation<{ message: string }, ResetPasswordRequest>({
@@ -103,6 +106,7 @@ export const authApi = createApi({
         method: 'POST',
         body: data,
       }),
+      extraOptions: { skipReauth: true },
     }),
     
     changePassword: builder.mutation<{ message: string }, ChangePasswordRequest>({
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import { createApi } from '@reduxjs/toolkit/query/react';
+
+import { createBaseQuery, getApiErrorMessage, normalizeApiError } from './baseApi';
+import authReducer from '../slices/authSlice';
+import tenantReducer from '../slices/tenantSlice';
+
+const testApi = createApi({
+  reducerPath: 'testApi',
+  baseQuery: createBaseQuery('/test'),
+  endpoints: (builder) => ({
+    getItem: builder.query<{ id: number }, number>({
+      query: (id) => `/items/${id}`,
+    }),
+    createItem: builder.mutation<{ id: number }, void>({
+      query: () => ({ url: '/items', method: 'POST' }),
+    }),
+  }),
+});
+
+const createTestStore = () =>
+  configureStore({
+    reducer: {
+      auth: authReducer,
+      tenant: tenantReducer,
+      [testApi.reducerPath]: testApi.reducer,
+    },
+    preloadedState: {
+      auth: {
+        user: null,
+        accessToken: 'expired-token',
+        refreshToken: 'refresh-token',
+        isAuthenticated: true,
+        isLoading: false,
+        error: null,
+      },
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(testApi.middleware),
+  });
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+const requestOf = (input: RequestInfo | URL) => input as Request;
+
+// Node's Request can't resolve relative URLs against the page like the browser does
+class BrowserLikeRequest extends Request {
+  constructor(input: RequestInfo | URL, init?: RequestInit) {
+    super(typeof input === 'string' ? new URL(input, window.location.origin) : input, init);
+  }
+}
+
+describe('createBaseQuery', () => {
+  beforeAll(() => {
+    vi.stubGlobal('Request', BrowserLikeRequest);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('refreshes the token once for concurrent 401 responses', async () => {
+    const fetchMock = vi.mocked(global.fetch);
+    fetchMock.mockImplementation(async (input) => {
+      const request = requestOf(input);
+      if (request.url.endsWith('/auth/refresh')) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return jsonResponse(200, { success: true, data: { accessToken: 'fresh-token' } });
+      }
+      if (request.headers.get('authorization') !== 'Bearer fresh-token') {
+        return jsonResponse(401, { error: { message: 'Token expired' } });
+      }
+      return jsonResponse(200, { id: Number(request.url.split('/').pop()) });
+    });
+
+    const store = createTestStore();
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => store.dispatch(testApi.endpoints.getItem.initiate(i)))
+    );
+
+    const refreshCalls = fetchMock.mock.calls.filter(([input]) => requestOf(input).url.endsWith('/auth/refresh'));
+    expect(refreshCalls).toHaveLength(1);
+    expect(results.map((result) => result.data?.id)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(store.getState().auth.accessToken).toBe('fresh-token');
+  });
+
+  it('logs out when the refresh fails', async () => {
+    vi.mocked(global.fetch).mockImplementation(async () => jsonResponse(401, { error: { message: 'Unauthorized' } }));
+
+    const store = createTestStore();
+    await store.dispatch(testApi.endpoints.getItem.initiate(1));
+
+    expect(store.getState().auth.isAuthenticated).toBe(false);
+    expect(store.getState().auth.accessToken).toBeNull();
+  });
+
+  it('retries idempotent requests on transient failures', async () => {
+    const fetchMock = vi.mocked(global.fetch);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, {}))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 7 }));
+
+    const store = createTestStore();
+    const result = await store.dispatch(testApi.endpoints.getItem.initiate(7, { forceRefetch: true }));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.data).toEqual({ id: 7 });
+  });
+
+  it('does not retry non-idempotent requests and normalizes the error', async () => {
+    const fetchMock = vi.mocked(global.fetch);
+    fetchMock.mockResolvedValue(jsonResponse(503, { error: { message: 'Service unavailable', code: 'MAINTENANCE' } }));
+
+    const store = createTestStore();
+    const result = await store.dispatch(testApi.endpoints.createItem.initiate());
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect('error' in result && result.error).toMatchObject({
+      status: 503,
+      message: 'Service unavailable',
+      code: 'MAINTENANCE',
+      retryable: true,
+    });
+  });
+});
+
+describe('getApiErrorMessage', () => {
+  it('reads the message from the backend envelope', () => {
+    const error = normalizeApiError({ status: 409, data: { error: { message: 'Slug already taken', code: 'CONFLICT' } } });
+    expect(getApiErrorMessage(error, 'Failed to save')).toBe('Slug already taken');
+  });
+
+  it('falls back when the backend sent no message', () => {
+    const error = normalizeApiError({ status: 500, data: '<html>' });
+    expect(getApiErrorMessage(error, 'Failed to save')).toBe('Failed to save');
+  });
+
+  it('explains connection failures', () => {
+    const error = normalizeApiError({ status: 'FETCH_ERROR', error: 'TypeError: Failed to fetch' });
+    expect(getApiErrorMessage(error, 'Failed to save')).toBe(error.message);
+    expect(error.message).not.toBe('Failed to save');
+  });
+
+  it('uses the message of a thrown Error and ignores anything else', () => {
+    expect(getApiErrorMessage(new Error('Could not read image'), 'Upload failed')).toBe('Could not read image');
+    expect(getApiErrorMessage(undefined, 'Upload failed')).toBe('Upload failed');
+    expect(getApiErrorMessage('boom', 'Upload failed')).toBe('Upload failed');
+  });
+});
@@ -1,78 +1,251 @@
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type {
+  BaseQueryApi,
+  BaseQueryFn,
+  FetchArgs,
+  FetchBaseQueryError,
+  FetchBaseQueryMeta,
+} from '@reduxjs/toolkit/query/react';
 import type { RootState } from '../store';
+import { logout, updateTokens } from '../slices/authSlice';
 import { config } from '../../config/environment';
 
-const baseQuery = fetchBaseQuery({
-  baseUrl: `/api/${config.api.version}`,
-  timeout: config.api.timeout,
-  prepareHeaders: (headers, { getState }) => {
-    const state = getState() as RootState;
-    const token = state.auth.accessToken;
-    
-    if (token) {
-      headers.set('authorization', `Bearer ${token}`);
+export const API_ROOT = `/api/${config.api.version}`;
+
+/**
+ * Normalized error shape returned by every RTK Query endpoint.
+ * `status` and `data` mirror FetchBaseQueryError so existing
+ * `error.data.error.message` lookups keep working.
+ */
+export interface ApiError {
+  status: FetchBaseQueryError['status'];
+  data?: unknown;
+  message: string;
+  code?: string;
+  retryable: boolean;
+}
+
+// Whether a hook's `error` or a rejected `unwrap()` holds an ApiError
+export const isApiError = (error: unknown): error is ApiError =>
+  typeof error === 'object' && error !== null && 'status' in error;
+
+export interface ApiExtraOptions {
+  // Skip the 401 refresh flow (login, register, the refresh call itself)
+  skipReauth?: boolean;
+  // Override the number of retries for idempotent requests
+  maxRetries?: number;
+}
+
+export type ApiBaseQuery = BaseQueryFn<string | FetchArgs, unknown, ApiError, ApiExtraOptions, FetchBaseQueryMeta>;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 300;
+const MAX_RETRY_DELAY_MS = 5000;
+
+const createRawBaseQuery = (baseUrl: string) =>
+  fetchBaseQuery({
+    baseUrl,
+    timeout: config.api.timeout,
+    prepareHeaders: (headers, { getState }) => {
+      const state = getState() as RootState;
+      const token = state.auth.accessToken;
+
+      if (token) {
+        headers.set('authorization', `Bearer ${token}`);
+      }
+
+      // Set tenant context headers
+      const { currentOrganization, currentWorkspace } = state.tenant;
+      if (currentOrganization) {
+        headers.set('x-organization-id', currentOrganization.id);
+      }
+      if (currentWorkspace) {
+        headers.set('x-workspace-id', currentWorkspace.id);
+      }
+
+      return headers;
+    },
+  });
+
+const rootQuery = createRawBaseQuery(API_ROOT);
+
+const isRetryableError = (error: FetchBaseQueryError): boolean => {
+  if (error.status === 'FETCH_ERROR' || error.status === 'TIMEOUT_ERROR') {
+    return true;
+  }
+  return typeof error.status === 'number' && RETRYABLE_STATUSES.includes(error.status);
+};
+
+const getRetryDelay = (attempt: number, response?: Response): number => {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+
+  // Exponential backoff with jitter
+  const delay = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(delay + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The backend's `{ error: { message, code } }` envelope, or a bare `{ message, code }`
+const errorBody = (data: unknown): { message?: string; code?: string } => {
+  const body = (data ?? {}) as { error?: { message?: string; code?: string }; message?: string; code?: string };
+  return { message: body.error?.message || body.message, code: body.error?.code || body.code };
+};
+
+/**
+ * Turn any FetchBaseQueryError into an ApiError, reading the
+ * `{ error: { message, code } }` envelope the backend returns.
+ */
+export const normalizeApiError = (error: FetchBaseQueryError): ApiError => {
+  const retryable = isRetryableError(error);
+
+  switch (error.status) {
+    case 'FETCH_ERROR':
+      return { status: error.status, message: 'Network error. Check your connection and try again.', retryable };
+    case 'TIMEOUT_ERROR':
+      return { status: error.status, message: 'The request timed out. Please try again.', retryable };
+    case 'PARSING_ERROR':
+      return {
+        status: error.status,
+        data: error.data,
+        message: `Unexpected response from server (status ${error.originalStatus})`,
+        retryable,
+      };
+    case 'CUSTOM_ERROR':
+      return { status: error.status, data: error.data, message: error.error, retryable };
+    default: {
+      const body = errorBody(error.data);
+      return {
+        status: error.status,
+        data: error.data,
+        message: body.message || `Request failed with status ${error.status}`,
+        code: body.code,
+        retryable,
+      };
     }
-    
-    // Set tenant context headers
-    const { currentOrganization, currentWorkspace } = state.tenant;
-    if (currentOrganization) {
-      headers.set('x-organization-id', currentOrganization.id);
+  }
+};
+
+/**
+ * The message to show for a failed request: what the backend said, or what
+ * went wrong on the way (offline, timed out), else `fallback`. Accepts
+ * whatever a hook's `error` or a rejected `unwrap()` holds.
+ */
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (isApiError(error)) {
+    return (typeof error.status === 'number' ? errorBody(error.data).message : error.message) || fallback;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+};
+
+const fetchWithRetry = async (
+  query: ReturnType<typeof createRawBaseQuery>,
+  args: string | FetchArgs,
+  api: BaseQueryApi,
+  extraOptions: ApiExtraOptions
+) => {
+  const method = (typeof args === 'string' ? 'GET' : args.method || 'GET').toUpperCase();
+  const maxRetries = IDEMPOTENT_METHODS.includes(method) ? extraOptions.maxRetries ?? DEFAULT_MAX_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await query(args, api, extraOptions);
+    if (!result.error || attempt >= maxRetries || !isRetryableError(result.error) || api.signal.aborted) {
+      return result;
     }
-    if (currentWorkspace) {
-      headers.set('x-workspace-id', currentWorkspace.id);
+    await wait(getRetryDelay(attempt, result.meta?.response));
+  }
+};
+
+// Shared across every API slice so parallel 401s trigger a single refresh
+let refreshInFlight: Promise<boolean> | null = null;
+
+const performRefresh = async (api: BaseQueryApi): Promise<boolean> => {
+  const refreshToken = (api.getState() as RootState).auth.refreshToken;
+
+  if (!refreshToken) {
+    api.dispatch(logout());
+    return false;
+  }
+
+  const result = await rootQuery(
+    {
+      url: '/auth/refresh',
+      method: 'POST',
+      body: { refreshToken },
+    },
+    api,
+    {}
+  );
+
+  // Accept both the `{ success, data }` envelope and a bare token payload
+  const raw = result.data as { data?: unknown } | undefined;
+  const tokens = (raw?.data ?? raw) as { accessToken?: string; refreshToken?: string } | undefined;
+
+  if (tokens?.accessToken) {
+    api.dispatch(updateTokens({ accessToken: tokens.accessToken, refreshToken: tokens.refreshToken }));
+    return true;
+  }
+
+  // Refresh failed, logout user
+  api.dispatch(logout());
+  return false;
+};
+
+// Also used by the realtime client, whose socket has no base query of its own
+export const refreshAccessToken = (api: BaseQueryApi): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = performRefresh(api).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+/**
+ * Base query used by every API slice.
+ *
+ * Adds auth and tenant headers, applies `config.api.timeout`, retries
+ * idempotent requests with backoff, refreshes the access token once on
+ * 401 (coordinated across concurrent requests) and normalizes errors.
+ */
+export const createBaseQuery = (path = ''): ApiBaseQuery => {
+  const query = createRawBaseQuery(`${API_ROOT}${path}`);
+
+  return async (args, api, extraOptions = {}) => {
+    // Don't send requests with a token that is about to be replaced
+    if (refreshInFlight && !extraOptions.skipReauth) {
+      await refreshInFlight;
     }
-    
-    return headers;
-  },
-});
 
-// Base query with token refresh logic
-const baseQueryWithReauth = async (args: any, api: any, extraOptions: any) => {
-  let result = await baseQuery(args, api, extraOptions);
-  
-  // If we get a 401, try to refresh the token
-  if (result.error && result.error.status === 401) {
-    const state = api.getState() as RootState;
-    const refreshToken = state.auth.refreshToken;
-    
-    if (refreshToken) {
-      // Attempt to refresh the token
-      const refreshResult = await baseQuery(
-        {
-          url: '/auth/refresh',
-          method: 'POST',
-          body: { refreshToken },
-        },
-        api,
-        extraOptions
-      );
-      
-      if (refreshResult.data) {
-        // Store the new token
-        const { accessToken } = refreshResult.data as any;
-        api.dispatch({
-          type: 'auth/updateTokens',
-          payload: { accessToken },
-        });
-        
-        // Retry the original query with new token
-        result = await baseQuery(args, api, extraOptions);
-      } else {
-        // Refresh failed, logout user
-        api.dispatch({ type: 'auth/logout' });
+    const tokenUsed = (api.getState() as RootState).auth.accessToken;
+    let result = await fetchWithRetry(query, args, api, extraOptions);
+
+    if (result.error?.status === 401 && !extraOptions.skipReauth) {
+      // Another request may already have refreshed the token while this one was in flight
+      const currentToken = (api.getState() as RootState).auth.accessToken;
+      const refreshed = currentToken && currentToken !== tokenUsed ? true : await refreshAccessToken(api);
+
+      if (refreshed) {
+        result = await fetchWithRetry(query, args, api, extraOptions);
       }
-    } else {
-      // No refresh token, logout user
-      api.dispatch({ type: 'auth/logout' });
     }
-  }
-  
-  return result;
+
+    if (result.error) {
+      return { error: normalizeApiError(result.error), meta: result.meta };
+    }
+
+    return { data: result.data, meta: result.meta };
+  };
 };
 
 export const baseApi = createApi({
   reducerPath: 'api',
-  baseQuery: baseQueryWithReauth,
+  baseQuery: createBaseQuery(),
   tagTypes: ['User', 'Organization', 'Workspace', 'Content', 'Analytics', 'Research', 'Hooks', 'Topics', 'Competitors', 'Trends', 'ContentGaps', 'ViralPatterns', 'Insights', 'CrossPlatformMetrics', 'AudienceInsights', 'PerformanceReport', 'ContentAnalysis', 'Recommendations', 'TrendingInsights', 'PerformanceSummary'],
   endpoints: () => ({}),
-});
\ No newline at end of file
+});
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface SubscriptionPlan {
   id: string;
@@ -119,24 +119,7 @@ export interface CreatePortalSessionRequest {
 
 export const billingApi = createApi({
   reducerPath: 'billingApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/billing',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/billing'),
   tagTypes: ['Subscription', 'Invoice', 'PaymentMethod', 'Usage'],
   endpoints: (builder) => ({
     // Get available plans
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import { waitFor } from '@testing-library/react';
+
+import { cacheInvalidationMiddleware } from './cacheInvalidation';
+import { approvalApi } from './approvalApi';
+import { contentApi } from './contentApi';
+import { mediaApi } from './mediaApi';
+import authReducer from '../slices/authSlice';
+import tenantReducer from '../slices/tenantSlice';
+
+const createTestStore = () =>
+  configureStore({
+    reducer: {
+      auth: authReducer,
+      tenant: tenantReducer,
+      [approvalApi.reducerPath]: approvalApi.reducer,
+      [contentApi.reducerPath]: contentApi.reducer,
+      [mediaApi.reducerPath]: mediaApi.reducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({ serializableCheck: false })
+        .prepend(cacheInvalidationMiddleware.middleware)
+        .concat(approvalApi.middleware, contentApi.middleware, mediaApi.middleware),
+  });
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+// Node's Request can't resolve relative URLs against the page like the browser does
+class BrowserLikeRequest extends Request {
+  constructor(input: RequestInfo | URL, init?: RequestInit) {
+    super(typeof input === 'string' ? new URL(input, window.location.origin) : input, init);
+  }
+}
+
+const request = { id: 'request-1', contentId: 'content-1' };
+const content = { id: 'content-1', title: 'Launch post' };
+
+const requestsTo = (method: string, path: string) =>
+  vi.mocked(global.fetch).mock.calls.filter(([input]) => {
+    const { method: sent, url } = input as Request;
+    return sent === method && new URL(url).pathname.endsWith(path);
+  }).length;
+
+describe('cacheInvalidationMiddleware', () => {
+  beforeAll(() => {
+    vi.stubGlobal('Request', BrowserLikeRequest);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(() => {
+    vi.mocked(global.fetch).mockImplementation(async (input) => {
+      const { url } = input as Request;
+      if (url.includes('/approval/')) return jsonResponse(200, { request });
+      if (url.includes('/content/')) return jsonResponse(200, { content, media: { id: 'media-1' } });
+      return jsonResponse(200, { files: [], total: 0, page: 1, limit: 20 });
+    });
+  });
+
+  it('refetches content after an approval step is approved', async () => {
+    const store = createTestStore();
+    store.dispatch(contentApi.endpoints.getContentById.initiate('content-1'));
+    await waitFor(() => expect(requestsTo('GET', '/content/content-1')).toBe(1));
+
+    await store.dispatch(approvalApi.endpoints.approveStep.initiate({ requestId: 'request-1', stepId: 'step-1' }));
+
+    await waitFor(() => expect(requestsTo('GET', '/content/content-1')).toBe(2));
+  });
+
+  it('refetches the approval request after its content is edited', async () => {
+    const store = createTestStore();
+    store.dispatch(approvalApi.endpoints.getApprovalRequest.initiate('request-1'));
+    await waitFor(() => expect(requestsTo('GET', '/approval/requests/request-1')).toBe(1));
+
+    await store.dispatch(contentApi.endpoints.updateContent.initiate({ id: 'content-1', title: 'Launch post v2' }));
+
+    await waitFor(() => expect(requestsTo('GET', '/approval/requests/request-1')).toBe(2));
+  });
+
+  it('refetches the media library after media is uploaded while composing', async () => {
+    const store = createTestStore();
+    store.dispatch(mediaApi.endpoints.getMediaFiles.initiate({}));
+    await waitFor(() => expect(requestsTo('GET', '/media/files')).toBe(1));
+
+    await store.dispatch(contentApi.endpoints.uploadMedia.initiate(new FormData()));
+
+    await waitFor(() => expect(requestsTo('GET', '/media/files')).toBe(2));
+  });
+
+  it('refetches the media pickers after an upload through the media library', async () => {
+    const store = createTestStore();
+    store.dispatch(mediaApi.endpoints.getMediaFiles.initiate({ filters: { type: 'image' } }));
+    await waitFor(() => expect(requestsTo('GET', '/media/files')).toBe(1));
+
+    await store.dispatch(mediaApi.endpoints.completeUpload.initiate({ uploadId: 'upload-1' }));
+
+    await waitFor(() => expect(requestsTo('GET', '/media/files')).toBe(2));
+  });
+
+  it('leaves other slices alone when nothing related changed', async () => {
+    const store = createTestStore();
+    store.dispatch(contentApi.endpoints.getContentById.initiate('content-1'));
+    await waitFor(() => expect(requestsTo('GET', '/content/content-1')).toBe(1));
+
+    await store.dispatch(mediaApi.endpoints.getMediaFiles.initiate({}));
+
+    expect(requestsTo('GET', '/content/content-1')).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { createListenerMiddleware, isAnyOf } from '@reduxjs/toolkit';
+import { approvalApi } from './approvalApi';
+import { contentApi } from './contentApi';
+import { contentCreationApi } from './contentCreationApi';
+import { mediaApi } from './mediaApi';
+import { publishingApi } from './publishingApi';
+
+/**
+ * Cross-API cache invalidation
+ *
+ * Each API slice owns its own tag namespace, so a mutation in one slice can't
+ * invalidate tags in another. These listeners bridge the slices: when a
+ * mutation succeeds, the related caches in other slices are invalidated.
+ */
+export const cacheInvalidationMiddleware = createListenerMiddleware();
+
+// Approval decisions change content status and what appears on the calendar
+cacheInvalidationMiddleware.startListening({
+  matcher: isAnyOf(
+    approvalApi.endpoints.submitForApproval.matchFulfilled,
+    approvalApi.endpoints.approveStep.matchFulfilled,
+    approvalApi.endpoints.rejectStep.matchFulfilled,
+    approvalApi.endpoints.escalateStep.matchFulfilled,
+    approvalApi.endpoints.cancelApprovalRequest.matchFulfilled
+  ),
+  effect: (action, { dispatch }) => {
+    const { contentId } = action.payload.request;
+    dispatch(
+      contentApi.util.invalidateTags([{ type: 'Content', id: contentId }, 'Content', 'ContentCalendar'])
+    );
+  },
+});
+
+// An accepted suggestion rewrites the content's text
+cacheInvalidationMiddleware.startListening({
+  matcher: approvalApi.endpoints.decideSuggestion.matchFulfilled,
+  effect: (action, { dispatch }) => {
+    dispatch(contentApi.util.invalidateTags([{ type: 'Content', id: action.payload.request.contentId }]));
+  },
+});
+
+cacheInvalidationMiddleware.startListening({
+  matcher: isAnyOf(
+    approvalApi.endpoints.bulkApprove.matchFulfilled,
+    approvalApi.endpoints.bulkReject.matchFulfilled
+  ),
+  effect: (_, { dispatch }) => {
+    dispatch(contentApi.util.invalidateTags(['Content', 'ContentCalendar']));
+  },
+});
+
+// Content moderated directly should refresh any approval request tracking it
+cacheInvalidationMiddleware.startListening({
+  matcher: isAnyOf(
+    contentApi.endpoints.approveContent.matchFulfilled,
+    contentApi.endpoints.rejectContent.matchFulfilled,
+    contentApi.endpoints.bulkAction.matchFulfilled
+  ),
+  effect: (_, { dispatch }) => {
+    dispatch(approvalApi.util.invalidateTags(['ApprovalRequest', 'ApprovalStats']));
+  },
+});
+
+// Editing content under review moves the comment anchors on its approval request
+cacheInvalidationMiddleware.startListening({
+  matcher: contentApi.endpoints.updateContent.matchFulfilled,
+  effect: (_, { dispatch }) => {
+    dispatch(approvalApi.util.invalidateTags(['ApprovalRequest']));
+  },
+});
+
+// Uploads made while composing show up in the media library. The other direction needs no
+// bridge: the composer's media pickers read `mediaApi.getMediaFiles`, which mediaApi's own
+// uploads already invalidate
+cacheInvalidationMiddleware.startListening({
+  matcher: isAnyOf(
+    contentCreationApi.endpoints.uploadMedia.matchFulfilled,
+    contentApi.endpoints.uploadMedia.matchFulfilled
+  ),
+  effect: (_, { dispatch }) => {
+    dispatch(mediaApi.util.invalidateTags(['MediaFile', 'MediaStats']));
+  },
+});
+
+// Re-queued and cancelled jobs change their content's platform status
+cacheInvalidationMiddleware.startListening({
+  matcher: isAnyOf(
+    publishingApi.endpoints.requeueJobs.matchFulfilled,
+    publishingApi.endpoints.cancelJobs.matchFulfilled
+  ),
+  effect: (_, { dispatch }) => {
+    dispatch(contentApi.util.invalidateTags(['Content', 'ContentCalendar']));
+  },
+});
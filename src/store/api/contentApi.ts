@@ -1,4 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface ContentPlatform {
   platform: 'linkedin' | 'twitter' | 'facebook' | 'instagram' | 'youtube' | 'tiktok';
@@ -12,6 +13,8 @@ export interface ContentPlatform {
     threadMode?: boolean; // For Twitter threads
     carouselMode?: boolean; // For Instagram carousels
   };
+  thread?: ThreadPost[]; // the posts, in order, when threadMode is on
+  media?: string[]; // Media IDs this platform publishes, with its variants in place of the originals
   publishingResult?: {
     postId?: string;
     url?: string;
@@ -19,6 +22,17 @@ export interface ContentPlatform {
   };
 }
 
+// One post of a thread, published as a reply to the one before. Saved posts
+// hold media IDs, also attached to the content; the composer holds the files.
+export interface ThreadPost<Media = string> {
+  body: string;
+  media: Media[];
+  publishingResult?: {
+    postId: string;
+    url: string;
+  };
+}
+
 export interface ContentMedia {
   id: string;
   type: 'image' | 'video' | 'gif' | 'document';
@@ -127,24 +141,7 @@ export interface BulkActionRequest {
 
 export const contentApi = createApi({
   reducerPath: 'contentApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/content',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as any;
-      const token = state.auth.accessToken;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/content'),
   tagTypes: ['Content', 'ContentCalendar', 'ContentAnalytics'],
   endpoints: (builder) => ({
     // Get content list with filters
@@ -273,6 +270,16 @@ export const contentApi = createApi({
       providesTags: ['ContentCalendar'],
     }),
     
+    // Same range as an iCalendar document, one VEVENT per scheduled platform post
+    exportContentCalendar: builder.query<string, ContentCalendarParams>({
+      query: (params) => ({
+        url: '/calendar.ics',
+        params,
+        responseHandler: (response) => response.text(),
+      }),
+      keepUnusedDataFor: 0,
+    }),
+    
     // Get content analytics
     getContentAnalytics: builder.query<{
       content?: Content;
@@ -331,6 +338,7 @@ export const {
   useScheduleContentMutation,
   usePublishContentMutation,
   useGetContentCalendarQuery,
+  useLazyExportContentCalendarQuery,
   useGetContentAnalyticsQuery,
   useBulkActionMutation,
   useGetContentTemplatesQuery,
@@ -1,4 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface ContentDraft {
   id: string;
@@ -147,24 +148,7 @@ export interface ValidateContentRequest {
 
 export const contentCreationApi = createApi({
   reducerPath: 'contentCreationApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/content-creation',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as any;
-      const token = state.auth.accessToken;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/content-creation'),
   tagTypes: ['Draft', 'Template', 'Media'],
   endpoints: (builder) => ({
     // Create content draft
@@ -1,4 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 import {
   ContentOptimizationRequest,
   ContentOptimizationResponse,
@@ -55,24 +56,7 @@ export interface AIContentEnhancement {
 
 export const contentOptimizationApi = createApi({
   reducerPath: 'contentOptimizationApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/content-creation',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as any;
-      const token = state.auth.accessToken;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/content-creation'),
   tagTypes: ['Optimization', 'Templates', 'Analysis'],
   endpoints: (builder) => ({
     // Optimize content for multiple platforms
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface EmailTemplate {
   id: string;
@@ -188,24 +188,7 @@ export interface EmailLog {
 
 export const emailApi = createApi({
   reducerPath: 'emailApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/email',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/email'),
   tagTypes: ['EmailTemplate', 'EmailCampaign', 'EmailAlert', 'EmailLog'],
   endpoints: (builder) => ({
     // Email Templates
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface MediaFile {
   id: string;
@@ -28,11 +28,19 @@ export interface MediaFile {
     lastUsedAt?: string;
     usageCount: number;
   };
+  // Set on a platform variant: the original it was cropped from, and how
+  variant?: MediaVariantSpec & { originalId: string };
   uploadedBy: string;
   uploadedAt: string;
   updatedAt: string;
 }
 
+export interface MediaVariantSpec {
+  platform: string;
+  preset: string; // the crop preset's id
+  focalPoint: { x: number; y: number };
+}
+
 export interface MediaFolder {
   id: string;
   name: string;
@@ -51,8 +59,25 @@ export interface UploadProgress {
   fileId: string;
   filename: string;
   progress: number;
-  status: 'uploading' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'uploading' | 'paused' | 'completed' | 'failed';
   error?: string;
+  uploadedBytes?: number;
+  totalBytes?: number;
+  // Restored after a reload: the file has to be selected again before it can resume
+  requiresFile?: boolean;
+  media?: MediaFile;
+}
+
+// A resumable upload: the file is sent in `chunkSize` parts, in any order, then completed
+export interface UploadSession {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  expiresAt: string;
 }
 
 export interface MediaFilters {
@@ -97,29 +122,7 @@ export interface MediaStats {
 
 export const mediaApi = createApi({
   reducerPath: 'mediaApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/media',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/media'),
   tagTypes: ['MediaFile', 'MediaFolder', 'MediaStats'],
   endpoints: (builder) => ({
     // Get media files with filtering and pagination
@@ -179,6 +182,58 @@ export const mediaApi = createApi({
       invalidatesTags: ['MediaFile', 'MediaStats'],
     }),
 
+    // Resumable uploads: create a session, send the chunks it's missing, then complete it
+    createUploadSession: builder.mutation<{ upload: UploadSession }, {
+      filename: string;
+      mimeType: string;
+      size: number;
+      folderId?: string;
+      tags?: string[];
+    }>({
+      query: (data) => ({
+        url: '/uploads',
+        method: 'POST',
+        body: data,
+      }),
+    }),
+
+    getUploadSession: builder.query<{ upload: UploadSession }, string>({
+      query: (id) => `/uploads/${id}`,
+    }),
+
+    uploadChunk: builder.mutation<{ upload: UploadSession }, {
+      uploadId: string;
+      index: number;
+      chunk: Blob;
+    }>({
+      query: ({ uploadId, index, chunk }) => ({
+        url: `/uploads/${uploadId}/chunks/${index}`,
+        method: 'PUT',
+        headers: { 'content-type': 'application/octet-stream' },
+        body: chunk,
+      }),
+    }),
+
+    completeUpload: builder.mutation<{ file: MediaFile }, {
+      uploadId: string;
+      metadata?: Partial<MediaFile['metadata']>;
+      thumbnail?: string;
+    }>({
+      query: ({ uploadId, ...data }) => ({
+        url: `/uploads/${uploadId}/complete`,
+        method: 'POST',
+        body: data,
+      }),
+      invalidatesTags: ['MediaFile', 'MediaStats'],
+    }),
+
+    abortUpload: builder.mutation<{ success: boolean }, string>({
+      query: (id) => ({
+        url: `/uploads/${id}`,
+        method: 'DELETE',
+      }),
+    }),
+
     // Update media file metadata
     updateMediaFile: builder.mutation<{ file: MediaFile }, {
       id: string;
@@ -345,13 +400,16 @@ export const mediaApi = createApi({
         compress?: { quality: number };
         watermark?: { text: string; position: string; opacity: number };
       };
+      // Save the result as a new file, a platform variant of this one, instead of replacing it
+      variant?: MediaVariantSpec;
+      rendered?: string; // the result already rendered in the browser, as a data URL
     }>({
-      query: ({ id, operations }) => ({
+      query: ({ id, ...body }) => ({
         url: `/files/${id}/process`,
         method: 'POST',
-        body: { operations },
+        body,
       }),
-      invalidatesTags: (_, __, { id }) => [{ type: 'MediaFile', id }],
+      invalidatesTags: (_, __, { id, variant }) => (variant ? ['MediaFile', 'MediaStats'] : [{ type: 'MediaFile', id }]),
     }),
   }),
 });
@@ -360,6 +418,11 @@ export const {
   useGetMediaFilesQuery,
   useGetMediaFileQuery,
   useUploadMediaFilesMutation,
+  useCreateUploadSessionMutation,
+  useGetUploadSessionQuery,
+  useUploadChunkMutation,
+  useCompleteUploadMutation,
+  useAbortUploadMutation,
   useUpdateMediaFileMutation,
   useDeleteMediaFileMutation,
   useBulkOperationMutation,
@@ -1,9 +1,9 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface Notification {
   id: string;
-  type: 'content_published' | 'content_failed' | 'team_invitation' | 'content_approved' | 'content_rejected' | 'mention' | 'comment' | 'system' | 'billing';
+  type: 'content_published' | 'content_failed' | 'team_invitation' | 'content_approved' | 'content_rejected' | 'mention' | 'comment' | 'approval_reminder' | 'approval_escalated' | 'system' | 'billing';
   title: string;
   message: string;
   data?: Record<string, any>;
@@ -98,29 +98,7 @@ export interface NotificationStats {
 
 export const notificationsApi = createApi({
   reducerPath: 'notificationsApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/notifications',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/notifications'),
   tagTypes: ['Notification', 'NotificationPreferences', 'NotificationChannel', 'NotificationTemplate', 'NotificationStats'],
   endpoints: (builder) => ({
     // Get notifications with filtering and pagination
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface OnboardingStep {
   id: string;
@@ -270,24 +270,7 @@ export interface HelpArticle {
 
 export const onboardingApi = createApi({
   reducerPath: 'onboardingApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/onboarding',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/onboarding'),
   tagTypes: ['OnboardingFlow', 'UserProgress', 'Tutorial', 'HelpArticle'],
   endpoints: (builder) => ({
     // Onboarding Flows
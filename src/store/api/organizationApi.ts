@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 import type { Organization } from '../slices/tenantSlice';
 
 interface CreateOrganizationRequest {
@@ -62,22 +62,60 @@ interface OrganizationInvite {
   message?: string;
 }
 
+// Organization-authored content rules, shared by the organization's workspaces
+
+type ContentRuleKind = 'regex' | 'word_list' | 'required_phrase' | 'length';
+
+interface ContentRuleSample {
+  text: string;
+  platforms?: string[];
+  pillar?: string;
+  expectViolation: boolean;
+}
+
+interface ContentRuleDefinition {
+  name: string;
+  description?: string;
+  kind: ContentRuleKind;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  message?: string; // shown instead of the generated message
+  pattern?: string; // regex
+  flags?: string;
+  replacement?: string; // regex: fixes each match, may use $1
+  words?: string[]; // word_list: "cheap → affordable" names the replacement
+  phrase?: string; // required_phrase, such as a disclosure
+  placement?: 'anywhere' | 'start' | 'end';
+  minLength?: number;
+  maxLength?: number;
+  platforms: string[]; // empty applies to every platform
+  pillars: string[]; // empty applies to every content pillar
+  workspaceIds: string[]; // empty shares the rule with every workspace
+  samples: ContentRuleSample[];
+}
+
+interface ContentRuleVersion {
+  version: number;
+  definition: ContentRuleDefinition;
+  createdBy: string;
+  createdAt: string;
+  publishedAt?: string;
+}
+
+interface ContentRule {
+  id: string;
+  organizationId: string;
+  name: string;
+  versions: ContentRuleVersion[];
+  liveVersion?: number; // the version workspaces are checked against
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export const organizationApi = createApi({
   reducerPath: 'organizationApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/organizations',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      return headers;
-    },
-  }),
-  tagTypes: ['Organization', 'OrganizationMember'],
+  baseQuery: createBaseQuery('/organizations'),
+  tagTypes: ['Organization', 'OrganizationMember', 'ContentRule'],
   endpoints: (builder) => ({
     getOrganizations: builder.query<{ organizations: Organization[] }, void>({
       query: () => '',
@@ -218,6 +256,81 @@ export const organizationApi = createApi({
       }),
       invalidatesTags: ['Organization'],
     }),
+
+    // Content rules
+    getContentRules: builder.query<{ rules: ContentRule[] }, string>({
+      query: (organizationId) => ({
+        url: `/${organizationId}/content-rules`,
+        headers: {
+          'x-organization-id': organizationId,
+        },
+      }),
+      providesTags: (_, __, organizationId) => [{ type: 'ContentRule', id: organizationId }],
+    }),
+
+    createContentRule: builder.mutation<{ rule: ContentRule }, { organizationId: string; definition: ContentRuleDefinition }>({
+      query: ({ organizationId, definition }) => ({
+        url: `/${organizationId}/content-rules`,
+        method: 'POST',
+        body: definition,
+        headers: {
+          'x-organization-id': organizationId,
+        },
+      }),
+      invalidatesTags: (_, __, { organizationId }) => [{ type: 'ContentRule', id: organizationId }],
+    }),
+
+    // Saves a new draft version; the live version keeps applying until it is published
+    updateContentRule: builder.mutation<
+      { rule: ContentRule },
+      { organizationId: string; ruleId: string; definition: ContentRuleDefinition }
+    >({
+      query: ({ organizationId, ruleId, definition }) => ({
+        url: `/${organizationId}/content-rules/${ruleId}`,
+        method: 'PUT',
+        body: definition,
+        headers: {
+          'x-organization-id': organizationId,
+        },
+      }),
+      invalidatesTags: (_, __, { organizationId }) => [{ type: 'ContentRule', id: organizationId }],
+    }),
+
+    // Makes a version live, including older ones to roll back. Every sample post must pass
+    publishContentRule: builder.mutation<{ rule: ContentRule }, { organizationId: string; ruleId: string; version: number }>({
+      query: ({ organizationId, ruleId, version }) => ({
+        url: `/${organizationId}/content-rules/${ruleId}/publish`,
+        method: 'POST',
+        body: { version },
+        headers: {
+          'x-organization-id': organizationId,
+        },
+      }),
+      invalidatesTags: (_, __, { organizationId }) => [{ type: 'ContentRule', id: organizationId }],
+    }),
+
+    setContentRuleEnabled: builder.mutation<{ rule: ContentRule }, { organizationId: string; ruleId: string; enabled: boolean }>({
+      query: ({ organizationId, ruleId, enabled }) => ({
+        url: `/${organizationId}/content-rules/${ruleId}`,
+        method: 'PATCH',
+        body: { enabled },
+        headers: {
+          'x-organization-id': organizationId,
+        },
+      }),
+      invalidatesTags: (_, __, { organizationId }) => [{ type: 'ContentRule', id: organizationId }],
+    }),
+
+    deleteContentRule: builder.mutation<{ success: boolean }, { organizationId: string; ruleId: string }>({
+      query: ({ organizationId, ruleId }) => ({
+        url: `/${organizationId}/content-rules/${ruleId}`,
+        method: 'DELETE',
+        headers: {
+          'x-organization-id': organizationId,
+        },
+      }),
+      invalidatesTags: (_, __, { organizationId }) => [{ type: 'ContentRule', id: organizationId }],
+    }),
   }),
 });
 
@@ -234,6 +347,22 @@ export const {
   useUpdateMemberMutation,
   useRemoveMemberMutation,
   useLeaveOrganizationMutation,
+  useGetContentRulesQuery,
+  useCreateContentRuleMutation,
+  useUpdateContentRuleMutation,
+  usePublishContentRuleMutation,
+  useSetContentRuleEnabledMutation,
+  useDeleteContentRuleMutation,
 } = organizationApi;
 
-export type { OrganizationMember, OrganizationInvite, InviteUserRequest, UpdateMemberRequest };
\ No newline at end of file
+export type {
+  OrganizationMember,
+  OrganizationInvite,
+  InviteUserRequest,
+  UpdateMemberRequest,
+  ContentRule,
+  ContentRuleDefinition,
+  ContentRuleKind,
+  ContentRuleSample,
+  ContentRuleVersion,
+};
\ No newline at end of file
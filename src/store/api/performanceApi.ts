@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface PerformanceMetrics {
   id: string;
@@ -244,24 +244,7 @@ export interface PerformanceReport {
 
 export const performanceApi = createApi({
   reducerPath: 'performanceApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/performance',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/performance'),
   tagTypes: ['PerformanceMetrics', 'ContentOptimization', 'PerformanceAlert', 'PerformanceReport'],
   endpoints: (builder) => ({
     // Performance Metrics
@@ -0,0 +1,166 @@
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
+import type { Content, ContentPlatform } from './contentApi';
+
+export type PublishingPlatform = ContentPlatform['platform'];
+
+export type PublishingJobStatus =
+  | 'queued'
+  | 'publishing'
+  | 'retry_scheduled'
+  | 'published'
+  | 'dead_lettered'
+  | 'cancelled';
+
+export type PublishingErrorKind = 'retryable' | 'terminal';
+
+export interface PublishingError {
+  code: string;
+  message: string;
+  kind: PublishingErrorKind;
+  httpStatus?: number;
+  occurredAt: string;
+}
+
+// One platform post of a piece of content on its way out
+export interface PublishingJob {
+  id: string;
+  contentId: string;
+  workspaceId: string;
+  platform: PublishingPlatform;
+  title: string;
+  priority: Content['priority'];
+  status: PublishingJobStatus;
+  scheduledAt: string;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string; // set while a retry is scheduled
+  startedAt?: string;
+  completedAt?: string;
+  lastError?: PublishingError;
+  errors: PublishingError[]; // every failed attempt, oldest first
+  result?: {
+    postId: string; // the first post of a thread
+    url: string;
+    threadPostIds?: string[]; // every post of a thread, in order
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Without a platform the whole workspace is paused
+export interface QueuePause {
+  id: string;
+  workspaceId: string;
+  platform?: PublishingPlatform;
+  reason?: string;
+  pausedBy: string;
+  pausedAt: string;
+}
+
+export interface PlatformQueueState {
+  platform: PublishingPlatform;
+  concurrencyLimit: number;
+  active: number;
+  waiting: number;
+  paused: boolean;
+}
+
+export interface QueueState {
+  workspaceId: string;
+  paused: boolean; // workspace-wide pause
+  pauses: QueuePause[];
+  platforms: PlatformQueueState[];
+  counts: Record<PublishingJobStatus, number>;
+  publishedLastHour: number;
+  failedLastHour: number;
+}
+
+export interface PublishingJobsParams {
+  workspaceId?: string;
+  status?: PublishingJobStatus[];
+  platform?: PublishingPlatform;
+  contentId?: string;
+}
+
+export interface QueuePauseRequest {
+  workspaceId: string;
+  platform?: PublishingPlatform;
+  reason?: string;
+}
+
+export const publishingApi = createApi({
+  reducerPath: 'publishingApi',
+  baseQuery: createBaseQuery('/publishing'),
+  tagTypes: ['PublishingJob', 'QueueState'],
+  endpoints: (builder) => ({
+    getPublishingJobs: builder.query<{ jobs: PublishingJob[] }, PublishingJobsParams>({
+      query: (params) => ({
+        url: '/jobs',
+        params: {
+          ...params,
+          status: params.status?.join(','),
+        },
+      }),
+      providesTags: (result) => [
+        'PublishingJob',
+        ...(result?.jobs.map(({ id }) => ({ type: 'PublishingJob' as const, id })) ?? []),
+      ],
+    }),
+
+    getQueueState: builder.query<{ state: QueueState }, string>({
+      query: (workspaceId) => ({
+        url: '/queue',
+        params: { workspaceId },
+      }),
+      providesTags: (_, __, workspaceId) => [{ type: 'QueueState', id: workspaceId }],
+    }),
+
+    pauseQueue: builder.mutation<{ pause: QueuePause }, QueuePauseRequest>({
+      query: (body) => ({
+        url: '/queue/pause',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: (_, __, { workspaceId }) => [{ type: 'QueueState', id: workspaceId }],
+    }),
+
+    // Lifting a workspace pause leaves platform pauses in place
+    resumeQueue: builder.mutation<{ message: string }, Omit<QueuePauseRequest, 'reason'>>({
+      query: (body) => ({
+        url: '/queue/resume',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: (_, __, { workspaceId }) => [{ type: 'QueueState', id: workspaceId }, 'PublishingJob'],
+    }),
+
+    // Puts failed, dead-lettered or cancelled jobs back in the queue with a fresh retry budget
+    requeueJobs: builder.mutation<{ jobs: PublishingJob[] }, { ids: string[] }>({
+      query: (body) => ({
+        url: '/jobs/requeue',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['PublishingJob', 'QueueState'],
+    }),
+
+    cancelJobs: builder.mutation<{ jobs: PublishingJob[] }, { ids: string[] }>({
+      query: (body) => ({
+        url: '/jobs/cancel',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['PublishingJob', 'QueueState'],
+    }),
+  }),
+});
+
+export const {
+  useGetPublishingJobsQuery,
+  useGetQueueStateQuery,
+  usePauseQueueMutation,
+  useResumeQueueMutation,
+  useRequeueJobsMutation,
+  useCancelJobsMutation,
+} = publishingApi;
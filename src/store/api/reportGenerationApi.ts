@@ -8,7 +8,8 @@
  * @version 1.0.0
  */
 
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface ReportTemplate {
   id: string;
@@ -125,16 +126,7 @@ export interface ReportsResponse {
 
 export const reportGenerationApi = createApi({
   reducerPath: 'reportGenerationApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/reports',
-    prepareHeaders: (headers, { getState }) => {
-      const token = (getState() as any).auth.token;
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/reports'),
   tagTypes: ['Report', 'Template', 'Schedule'],
   endpoints: (builder) => ({
     // Report Generation
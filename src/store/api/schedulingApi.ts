@@ -0,0 +1,82 @@
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
+import type { RecurrenceRule } from '../../types/scheduling';
+
+// A recurrence rule as the API sends it: the same fields, with dates as ISO strings
+export interface RecurrenceRuleRecord
+  extends Omit<RecurrenceRule, 'exceptions' | 'scheduling' | 'analytics'> {
+  exceptions?: string[];
+  scheduling: Omit<RecurrenceRule['scheduling'], 'startDate' | 'endDate'> & { startDate: string; endDate?: string };
+  analytics: Omit<RecurrenceRule['analytics'], 'lastRun' | 'nextRun'> & { lastRun?: string; nextRun?: string };
+}
+
+export type RecurrenceRuleRequest = Omit<RecurrenceRuleRecord, 'id' | 'analytics'>;
+
+const toDate = (value: string | undefined) => (value ? new Date(value) : undefined);
+
+// Dates stay strings in the store so it remains serializable; components convert on read
+export const toRecurrenceRule = ({ exceptions, scheduling, analytics, ...rule }: RecurrenceRuleRecord): RecurrenceRule => ({
+  ...rule,
+  exceptions: exceptions?.map((exception) => new Date(exception)),
+  scheduling: { ...scheduling, startDate: new Date(scheduling.startDate), endDate: toDate(scheduling.endDate) },
+  analytics: { ...analytics, lastRun: toDate(analytics.lastRun), nextRun: toDate(analytics.nextRun) },
+});
+
+export const toRecurrenceRuleRequest = ({
+  exceptions,
+  scheduling,
+  ...rule
+}: Omit<RecurrenceRule, 'id' | 'analytics'>): RecurrenceRuleRequest => ({
+  ...rule,
+  exceptions: exceptions?.map((exception) => exception.toISOString()),
+  scheduling: {
+    ...scheduling,
+    startDate: scheduling.startDate.toISOString(),
+    endDate: scheduling.endDate?.toISOString(),
+  },
+});
+
+export const schedulingApi = createApi({
+  reducerPath: 'schedulingApi',
+  baseQuery: createBaseQuery('/scheduling'),
+  tagTypes: ['RecurrenceRule'],
+  endpoints: (builder) => ({
+    getRecurrenceRules: builder.query<{ rules: RecurrenceRuleRecord[] }, void>({
+      query: () => '/recurrence-rules',
+      providesTags: ['RecurrenceRule'],
+    }),
+
+    createRecurrenceRule: builder.mutation<{ rule: RecurrenceRuleRecord }, RecurrenceRuleRequest>({
+      query: (body) => ({
+        url: '/recurrence-rules',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['RecurrenceRule'],
+    }),
+
+    updateRecurrenceRule: builder.mutation<{ rule: RecurrenceRuleRecord }, { id: string } & Partial<RecurrenceRuleRequest>>({
+      query: ({ id, ...body }) => ({
+        url: `/recurrence-rules/${id}`,
+        method: 'PUT',
+        body,
+      }),
+      invalidatesTags: ['RecurrenceRule'],
+    }),
+
+    deleteRecurrenceRule: builder.mutation<{ success: boolean }, string>({
+      query: (id) => ({
+        url: `/recurrence-rules/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['RecurrenceRule'],
+    }),
+  }),
+});
+
+export const {
+  useGetRecurrenceRulesQuery,
+  useCreateRecurrenceRuleMutation,
+  useUpdateRecurrenceRuleMutation,
+  useDeleteRecurrenceRuleMutation,
+} = schedulingApi;
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface SocialPlatformConnection {
   id: string;
@@ -85,9 +85,8 @@ export interface PublishContentRequest {
     carouselMode?: boolean; // For Instagram carousels
     storyMode?: boolean; // For Instagram/Facebook stories
   };
-  // TikTok-specific fields
+  // TikTok-specific fields; the video itself is passed in content.mediaUrls
   platform?: string;
-  videoData?: string; // Base64 encoded video data for TikTok
   videoInfo?: {
     title: string;
     description: string;
@@ -112,24 +111,7 @@ export interface PublishResult {
 
 export const socialPlatformsApi = createApi({
   reducerPath: 'socialPlatformsApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/social-platforms',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/social-platforms'),
   tagTypes: ['SocialConnection', 'PlatformStats'],
   endpoints: (builder) => ({
     // Get all platform connections
@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface ContentTemplate {
   id: string;
@@ -250,29 +250,7 @@ export interface BrandAsset {
 
 export const templatesApi = createApi({
   reducerPath: 'templatesApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/templates',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/templates'),
   tagTypes: ['Template', 'BrandGuidelines', 'Category', 'BrandAsset'],
   endpoints: (builder) => ({
     // Content Templates
@@ -330,6 +308,7 @@ export const templatesApi = createApi({
       id: string;
       name?: string;
       description?: string;
+      category?: ContentTemplate['category'];
       content?: ContentTemplate['content'];
       variables?: ContentTemplate['variables'];
       platforms?: ContentTemplate['platforms'];
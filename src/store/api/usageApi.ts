@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface UsageMetrics {
   id: string;
@@ -161,29 +161,7 @@ export interface QuotaLimit {
 
 export const usageApi = createApi({
   reducerPath: 'usageApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/usage',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      const currentWorkspace = state.tenant.currentWorkspace;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      if (currentWorkspace?.id) {
-        headers.set('x-workspace-id', currentWorkspace.id);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/usage'),
   tagTypes: ['Usage', 'RateLimit', 'Alert', 'Quota'],
   endpoints: (builder) => ({
     // Usage Metrics
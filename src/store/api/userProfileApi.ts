@@ -1,5 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { RootState } from '../store';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 export interface UserProfile {
   id: string;
@@ -117,19 +117,7 @@ export interface TwoFactorSetup {
 
 export const userProfileApi = createApi({
   reducerPath: 'userProfileApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/user',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as RootState;
-      const token = state.auth.accessToken;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery('/user'),
   tagTypes: ['UserProfile', 'UserSessions', 'ActivityLog'],
   endpoints: (builder) => ({
     // Get current user profile
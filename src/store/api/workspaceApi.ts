@@ -1,4 +1,5 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { createBaseQuery } from './baseApi';
 
 interface Workspace {
   id: string;
@@ -29,6 +30,7 @@ interface Workspace {
     defaultPlatforms: string[];
     approvalRequired: boolean;
     autoPublish: boolean;
+    minPostSpacingMinutes?: number; // minimum gap between any two posts in the workspace
   };
   status: 'active' | 'paused' | 'archived';
   totalContent: number;
@@ -53,27 +55,19 @@ interface CreateWorkspaceRequest {
   };
 }
 
+// Tokenized .ics subscription URL; anyone holding it can read the workspace calendar until it is revoked
+export interface CalendarFeed {
+  workspaceId: string;
+  url: string;
+  createdAt: string;
+  createdBy: string;
+  lastAccessedAt?: string;
+}
+
 export const workspaceApi = createApi({
   reducerPath: 'workspaceApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/v1/workspaces',
-    prepareHeaders: (headers, { getState }) => {
-      const state = getState() as any;
-      const token = state.auth.accessToken;
-      const currentOrganization = state.tenant.currentOrganization;
-      
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      
-      if (currentOrganization?.id) {
-        headers.set('x-organization-id', currentOrganization.id);
-      }
-      
-      return headers;
-    },
-  }),
-  tagTypes: ['Workspace'],
+  baseQuery: createBaseQuery('/workspaces'),
+  tagTypes: ['Workspace', 'CalendarFeed'],
   endpoints: (builder) => ({
     getWorkspaces: builder.query<{ workspaces: Workspace[] }, void>({
       query: () => '/',
@@ -110,6 +104,28 @@ export const workspaceApi = createApi({
       }),
       invalidatesTags: ['Workspace'],
     }),
+    
+    getCalendarFeed: builder.query<{ feed: CalendarFeed | null }, string>({
+      query: (id) => `/${id}/calendar-feed`,
+      providesTags: (_, __, id) => [{ type: 'CalendarFeed', id }],
+    }),
+    
+    // Issues a new token, invalidating any previous feed URL
+    createCalendarFeed: builder.mutation<{ feed: CalendarFeed }, string>({
+      query: (id) => ({
+        url: `/${id}/calendar-feed`,
+        method: 'POST',
+      }),
+      invalidatesTags: (_, __, id) => [{ type: 'CalendarFeed', id }],
+    }),
+    
+    revokeCalendarFeed: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/${id}/calendar-feed`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_, __, id) => [{ type: 'CalendarFeed', id }],
+    }),
   }),
 });
 
@@ -119,4 +135,7 @@ export const {
   useGetWorkspaceQuery,
   useUpdateWorkspaceMutation,
   useDeleteWorkspaceMutation,
+  useGetCalendarFeedQuery,
+  useCreateCalendarFeedMutation,
+  useRevokeCalendarFeedMutation,
 } = workspaceApi;
\ No newline at end of file
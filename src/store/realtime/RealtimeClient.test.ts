@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { RealtimeClient, getReconnectDelay, type RealtimeClientOptions } from './RealtimeClient';
+import { createPollingTransport, type TransportFactory, type TransportHandlers } from './transports';
+import type { RealtimeConnectionParams, RealtimeEvent, RealtimeTransportKind } from './types';
+
+interface FakeConnection {
+  kind: RealtimeTransportKind;
+  params: RealtimeConnectionParams;
+  handlers: TransportHandlers;
+  closed: boolean;
+}
+
+const connections: FakeConnection[] = [];
+
+const fakeFactory = (kind: RealtimeTransportKind): TransportFactory => (params, handlers) => {
+  const connection: FakeConnection = { kind, params, handlers, closed: false };
+  connections.push(connection);
+  return { kind, close: () => { connection.closed = true; } };
+};
+
+const lastConnection = () => connections[connections.length - 1];
+
+const event = (id: string): RealtimeEvent => ({
+  id,
+  type: 'approval.decided',
+  organizationId: 'org_1',
+  occurredAt: '2024-01-01T00:00:00.000Z',
+  payload: {
+    requestId: 'request_1',
+    contentId: 'content_1',
+    stepId: 'step_1',
+    decision: 'approved',
+    requestStatus: 'approved',
+    decidedBy: 'user_1',
+  },
+});
+
+const createClient = (overrides: Partial<RealtimeClientOptions> = {}) => {
+  const options: RealtimeClientOptions = {
+    transports: ['websocket', 'sse', 'polling'],
+    factories: {
+      websocket: fakeFactory('websocket'),
+      sse: fakeFactory('sse'),
+      polling: fakeFactory('polling'),
+    },
+    getParams: () => ({ accessToken: 'token', organizationId: 'org_1' }),
+    refreshToken: vi.fn().mockResolvedValue(true),
+    onEvent: vi.fn(),
+    onResync: vi.fn(),
+    onStatusChange: vi.fn(),
+    ...overrides,
+  };
+  return { client: new RealtimeClient(options), options };
+};
+
+describe('RealtimeClient', () => {
+  beforeEach(() => {
+    connections.length = 0;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('falls back to the next transport after repeated connect failures', async () => {
+    const { client, options } = createClient();
+    client.start();
+    expect(lastConnection().kind).toBe('websocket');
+
+    lastConnection().handlers.onClose({ opened: false });
+    await vi.runOnlyPendingTimersAsync();
+    expect(lastConnection().kind).toBe('websocket');
+
+    lastConnection().handlers.onClose({ opened: false });
+    await Promise.resolve();
+    expect(lastConnection().kind).toBe('sse');
+
+    lastConnection().handlers.onOpen();
+    expect(options.onStatusChange).toHaveBeenLastCalledWith('connected', 'sse', 0);
+    client.stop();
+  });
+
+  it('resumes from the last event id after a dropped connection', async () => {
+    const { client, options } = createClient();
+    client.start();
+
+    const first = lastConnection();
+    first.handlers.onOpen();
+    first.handlers.onMessage(event('41'));
+    first.handlers.onMessage(event('42'));
+    expect(options.onEvent).toHaveBeenCalledTimes(2);
+
+    first.handlers.onClose({ opened: true });
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(first.closed).toBe(true);
+    expect(lastConnection()).not.toBe(first);
+    expect(lastConnection().params.lastEventId).toBe('42');
+    client.stop();
+  });
+
+  it('refreshes the token when the server rejects it', async () => {
+    const { client, options } = createClient();
+    client.start();
+
+    lastConnection().handlers.onClose({ opened: true, authFailed: true });
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(options.refreshToken).toHaveBeenCalledTimes(1);
+    expect(connections).toHaveLength(2);
+    client.stop();
+  });
+
+  it('stops for good when the token cannot be refreshed', async () => {
+    const { client, options } = createClient({ refreshToken: vi.fn().mockResolvedValue(false) });
+    client.start();
+
+    lastConnection().handlers.onClose({ opened: true, authFailed: true });
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(connections).toHaveLength(1);
+    expect(options.onStatusChange).toHaveBeenLastCalledWith('idle', null, 0);
+  });
+
+  it('ignores messages from a transport it already replaced', async () => {
+    const { client, options } = createClient();
+    client.start();
+
+    const stale = lastConnection();
+    stale.handlers.onClose({ opened: true });
+    await vi.runOnlyPendingTimersAsync();
+
+    stale.handlers.onMessage(event('1'));
+    expect(options.onEvent).not.toHaveBeenCalled();
+    client.stop();
+  });
+
+  it('forwards resync requests without touching the cursor', () => {
+    const { client, options } = createClient();
+    client.start('7');
+
+    lastConnection().handlers.onMessage({ type: 'resync' });
+    expect(options.onResync).toHaveBeenCalledTimes(1);
+    expect(lastConnection().params.lastEventId).toBe('7');
+    client.stop();
+  });
+});
+
+describe('getReconnectDelay', () => {
+  it('backs off exponentially within the upper half of each window', () => {
+    expect(getReconnectDelay(1, () => 0)).toBe(500);
+    expect(getReconnectDelay(1, () => 1)).toBe(1000);
+    expect(getReconnectDelay(4, () => 0)).toBe(4000);
+  });
+
+  it('caps the delay at thirty seconds', () => {
+    expect(getReconnectDelay(20, () => 1)).toBe(30000);
+  });
+});
+
+describe('createPollingTransport', () => {
+  const handlers = () => ({ onOpen: vi.fn(), onMessage: vi.fn(), onClose: vi.fn() });
+  const params = { accessToken: 'token', organizationId: 'org_1' };
+
+  it('closes so the client can back off when a poll throws', async () => {
+    const poll = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    const transport = handlers();
+
+    createPollingTransport(poll, 1000)(params, transport);
+
+    await vi.waitFor(() => expect(transport.onClose).toHaveBeenCalledWith({ opened: false }));
+    expect(transport.onOpen).not.toHaveBeenCalled();
+  });
+
+  it('stays quiet when a poll fails after it was closed', async () => {
+    let fail: (error: Error) => void = () => undefined;
+    const poll = vi.fn(() => new Promise<never>((_, reject) => { fail = reject; }));
+    const transport = handlers();
+
+    createPollingTransport(poll, 1000)(params, transport).close();
+    fail(new Error('aborted'));
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(poll).toHaveBeenCalledTimes(1);
+    expect(transport.onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Realtime Client
+ *
+ * Keeps one event stream open for the current tenant. Transports are tried in
+ * order (WebSocket, then SSE, then polling); a transport that fails to connect
+ * twice in a row is skipped in favour of the next one, and the client tries to
+ * upgrade back to the preferred transport every few minutes. Dropped
+ * connections reconnect with exponential backoff and resume from the last
+ * event id so nothing is missed.
+ */
+
+import type { RealtimeTransport, TransportCloseInfo, TransportFactory } from './transports';
+import type {
+  RealtimeConnectionParams,
+  RealtimeConnectionStatus,
+  RealtimeEvent,
+  RealtimeMessage,
+  RealtimeTransportKind,
+} from './types';
+
+const MAX_CONNECT_FAILURES_PER_TRANSPORT = 2;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const HEARTBEAT_TIMEOUT_MS = 45000;
+const UPGRADE_RETRY_MS = 5 * 60 * 1000;
+
+export interface RealtimeClientOptions {
+  transports: RealtimeTransportKind[];
+  factories: Partial<Record<RealtimeTransportKind, TransportFactory>>;
+  getParams: () => Omit<RealtimeConnectionParams, 'lastEventId'> | null;
+  refreshToken: () => Promise<boolean>;
+  onEvent: (event: RealtimeEvent) => void;
+  onResync: () => void;
+  onStatusChange: (status: RealtimeConnectionStatus, transport: RealtimeTransportKind | null, attempt: number) => void;
+}
+
+export const getReconnectDelay = (attempt: number, random = Math.random) => {
+  const exponential = Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  // Full jitter in the upper half keeps reconnect storms spread out
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+};
+
+export class RealtimeClient {
+  private options: RealtimeClientOptions;
+  private transport: RealtimeTransport | null = null;
+  private generation = 0;
+  private running = false;
+  private transportIndex = 0;
+  private connectFailures = 0;
+  private attempt = 0;
+  private lastEventId: string | undefined;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private upgradeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RealtimeClientOptions) {
+    this.options = options;
+  }
+
+  start(lastEventId?: string) {
+    if (this.running) return;
+
+    this.running = true;
+    this.lastEventId = lastEventId;
+    this.transportIndex = 0;
+    this.connectFailures = 0;
+    this.attempt = 0;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    this.open();
+  }
+
+  stop() {
+    if (!this.running) return;
+
+    this.running = false;
+    this.teardown();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    this.options.onStatusChange('idle', null, 0);
+  }
+
+  private open() {
+    this.teardown();
+
+    const params = this.options.getParams();
+    if (!params) {
+      this.stop();
+      return;
+    }
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.options.onStatusChange('offline', null, this.attempt);
+      return;
+    }
+
+    const kind = this.options.transports[this.transportIndex];
+    const factory = this.options.factories[kind];
+    if (!factory) {
+      this.handleClose({ opened: false });
+      return;
+    }
+
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation && this.running;
+
+    this.options.onStatusChange(this.attempt > 0 ? 'reconnecting' : 'connecting', kind, this.attempt);
+    this.transport = factory(
+      { ...params, lastEventId: this.lastEventId },
+      {
+        onOpen: () => isCurrent() && this.handleOpen(kind),
+        onMessage: (message) => isCurrent() && this.handleMessage(kind, message),
+        onClose: (info) => isCurrent() && this.handleClose(info),
+      }
+    );
+  }
+
+  private handleOpen(kind: RealtimeTransportKind) {
+    this.attempt = 0;
+    this.connectFailures = 0;
+    this.options.onStatusChange('connected', kind, 0);
+    this.resetHeartbeat(kind);
+
+    if (this.transportIndex > 0) {
+      this.upgradeTimer = setTimeout(() => {
+        this.transportIndex = 0;
+        this.open();
+      }, UPGRADE_RETRY_MS);
+    }
+  }
+
+  private handleMessage(kind: RealtimeTransportKind, message: RealtimeMessage) {
+    this.resetHeartbeat(kind);
+
+    if (message.type === 'heartbeat') return;
+    if (message.type === 'resync') {
+      this.options.onResync();
+      return;
+    }
+
+    this.lastEventId = message.id;
+    this.options.onEvent(message);
+  }
+
+  private async handleClose(info: TransportCloseInfo) {
+    this.teardown();
+
+    if (info.fatal) {
+      this.stop();
+      return;
+    }
+
+    if (info.authFailed) {
+      const generation = this.generation;
+      const refreshed = await this.options.refreshToken();
+      if (!refreshed) {
+        this.stop();
+        return;
+      }
+      // Stopped or restarted while the token was being refreshed
+      if (!this.running || generation !== this.generation) return;
+    }
+
+    if (!info.opened) {
+      this.connectFailures += 1;
+      const canFallBack = this.transportIndex < this.options.transports.length - 1;
+      if (this.connectFailures >= MAX_CONNECT_FAILURES_PER_TRANSPORT && canFallBack) {
+        this.transportIndex += 1;
+        this.connectFailures = 0;
+        this.open();
+        return;
+      }
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    this.attempt += 1;
+    const kind = this.options.transports[this.transportIndex];
+    this.options.onStatusChange('reconnecting', kind, this.attempt);
+    this.reconnectTimer = setTimeout(() => this.open(), getReconnectDelay(this.attempt));
+  }
+
+  // Push transports must hear from the server regularly; polling has its own cadence
+  private resetHeartbeat(kind: RealtimeTransportKind) {
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    if (kind === 'polling') return;
+
+    this.heartbeatTimer = setTimeout(() => this.handleClose({ opened: true }), HEARTBEAT_TIMEOUT_MS);
+  }
+
+  private teardown() {
+    this.generation += 1;
+    this.transport?.close();
+    this.transport = null;
+    [this.reconnectTimer, this.heartbeatTimer, this.upgradeTimer].forEach((timer) => timer && clearTimeout(timer));
+    this.reconnectTimer = this.heartbeatTimer = this.upgradeTimer = null;
+  }
+
+  private handleOnline = () => {
+    if (!this.running) return;
+    this.attempt = 0;
+    this.open();
+  };
+
+  private handleOffline = () => {
+    if (!this.running) return;
+    this.teardown();
+    this.options.onStatusChange('offline', null, this.attempt);
+  };
+}
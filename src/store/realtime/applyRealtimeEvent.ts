@@ -0,0 +1,159 @@
+import type { AnyAction, ThunkDispatch } from '@reduxjs/toolkit';
+import { contentApi, type Content } from '../api/contentApi';
+import { notificationsApi, type Notification } from '../api/notificationsApi';
+import { approvalApi } from '../api/approvalApi';
+import { publishingApi } from '../api/publishingApi';
+import type { RootState } from '../store';
+import type {
+  CommentMentionedEvent,
+  NotificationCreatedEvent,
+  PublishingStatusChangedEvent,
+  RealtimeEvent,
+} from './types';
+
+type Dispatch = ThunkDispatch<RootState, unknown, AnyAction>;
+
+interface CacheContext {
+  dispatch: Dispatch;
+  getState: () => RootState;
+}
+
+// Content status follows its platforms once none are still waiting to go out
+const deriveContentStatus = (content: Content): Content['status'] => {
+  const statuses = content.platforms.map((platform) => platform.status);
+  if (statuses.some((status) => status === 'scheduled' || status === 'draft')) return content.status;
+  if (statuses.some((status) => status === 'failed')) return 'failed';
+  if (statuses.every((status) => status === 'published')) return 'published';
+  return content.status;
+};
+
+const patchContent = (content: Content, { payload }: PublishingStatusChangedEvent) => {
+  if (content.id !== payload.contentId) return;
+
+  const platform = content.platforms.find((candidate) => candidate.platform === payload.platform);
+  if (platform) {
+    platform.status = payload.status;
+    if (payload.publishedAt) platform.publishedAt = payload.publishedAt;
+    platform.publishingResult = { postId: payload.postId, url: payload.url, error: payload.error };
+  }
+
+  content.status = payload.contentStatus ?? deriveContentStatus(content);
+  if (content.status === 'published' && !content.publishedAt) {
+    content.publishedAt = payload.publishedAt;
+  }
+};
+
+const applyPublishingStatus = ({ dispatch, getState }: CacheContext, event: PublishingStatusChangedEvent) => {
+  const cached = contentApi.util.selectInvalidatedBy(getState(), ['Content', 'ContentCalendar']);
+
+  cached.forEach(({ endpointName, originalArgs }) => {
+    if (endpointName === 'getContent') {
+      dispatch(contentApi.util.updateQueryData('getContent', originalArgs, (draft) => {
+        draft.content.forEach((content) => patchContent(content, event));
+      }));
+    } else if (endpointName === 'getContentById') {
+      dispatch(contentApi.util.updateQueryData('getContentById', originalArgs, (draft) => {
+        patchContent(draft.content, event);
+      }));
+    } else if (endpointName === 'getContentCalendar') {
+      dispatch(contentApi.util.updateQueryData('getContentCalendar', originalArgs, (draft) => {
+        draft.calendar.forEach((content) => patchContent(content, event));
+      }));
+    }
+  });
+
+  dispatch(contentApi.util.invalidateTags(['ContentAnalytics']));
+  dispatch(publishingApi.util.invalidateTags(['PublishingJob', 'QueueState']));
+};
+
+type NotificationListArgs = Parameters<typeof notificationsApi.endpoints.getNotifications.initiate>[0];
+
+const matchesListFilters = (notification: Notification, args: NotificationListArgs) =>
+  args.read !== true &&
+  (!args.type || args.type === notification.type) &&
+  (!args.priority || args.priority === notification.priority) &&
+  (!args.workspaceId || args.workspaceId === notification.workspaceId) &&
+  (!args.page || args.page === 1);
+
+const applyNotification = ({ dispatch, getState }: CacheContext, { payload }: NotificationCreatedEvent) => {
+  const { notification } = payload;
+  const cached = notificationsApi.util.selectInvalidatedBy(getState(), ['Notification']);
+
+  cached.forEach(({ endpointName, originalArgs }) => {
+    if (endpointName !== 'getNotifications') return;
+
+    dispatch(notificationsApi.util.updateQueryData('getNotifications', originalArgs, (draft) => {
+      if (draft.notifications.some((existing) => existing.id === notification.id)) return;
+
+      draft.unread += notification.read ? 0 : 1;
+      if (matchesListFilters(notification, originalArgs)) {
+        draft.notifications.unshift(notification);
+        draft.total += 1;
+      }
+    }));
+  });
+
+  dispatch(notificationsApi.util.invalidateTags(['NotificationStats']));
+};
+
+const applyCommentMention = ({ dispatch, getState }: CacheContext, { payload }: CommentMentionedEvent) => {
+  const cached = approvalApi.util.selectInvalidatedBy(getState(), [{ type: 'ApprovalRequest', id: payload.requestId }]);
+
+  cached.forEach(({ endpointName, originalArgs }) => {
+    if (endpointName !== 'getApprovalRequest') return;
+
+    dispatch(approvalApi.util.updateQueryData('getApprovalRequest', originalArgs, (draft) => {
+      if (!draft.request.comments.some((comment) => comment.id === payload.comment.id)) {
+        draft.request.comments.push(payload.comment);
+      }
+    }));
+  });
+};
+
+/**
+ * Writes a realtime event into the RTK Query caches. Payloads that carry the
+ * full change are patched in place; anything else invalidates the affected
+ * tags so the next render refetches.
+ */
+export const applyRealtimeEvent = (context: CacheContext, event: RealtimeEvent) => {
+  const { currentOrganization, currentWorkspace } = context.getState().tenant;
+
+  // The server scopes the stream, but never apply another tenant's event after a switch
+  if (currentOrganization && event.organizationId !== currentOrganization.id) return;
+  if (currentWorkspace && event.workspaceId && event.workspaceId !== currentWorkspace.id) return;
+
+  switch (event.type) {
+    case 'publishing.status_changed':
+      applyPublishingStatus(context, event);
+      break;
+
+    case 'notification.created':
+      applyNotification(context, event);
+      break;
+
+    case 'approval.decided':
+      context.dispatch(approvalApi.util.invalidateTags([
+        { type: 'ApprovalRequest', id: event.payload.requestId },
+        'ApprovalRequest',
+        'ApprovalStats',
+      ]));
+      context.dispatch(contentApi.util.invalidateTags([
+        { type: 'Content', id: event.payload.contentId },
+        'Content',
+        'ContentCalendar',
+      ]));
+      break;
+
+    case 'comment.mentioned':
+      applyCommentMention(context, event);
+      break;
+  }
+};
+
+// The server could not replay missed events, so refetch everything the stream feeds
+export const resyncRealtimeCaches = ({ dispatch }: CacheContext) => {
+  dispatch(contentApi.util.invalidateTags(['Content', 'ContentCalendar', 'ContentAnalytics']));
+  dispatch(notificationsApi.util.invalidateTags(['Notification', 'NotificationStats']));
+  dispatch(approvalApi.util.invalidateTags(['ApprovalRequest', 'ApprovalStats']));
+  dispatch(publishingApi.util.invalidateTags(['PublishingJob', 'QueueState']));
+};
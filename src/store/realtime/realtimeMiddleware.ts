@@ -0,0 +1,107 @@
+import { createListenerMiddleware, type TypedStartListening } from '@reduxjs/toolkit';
+import type { BaseQueryApi } from '@reduxjs/toolkit/query/react';
+import { API_ROOT, createBaseQuery, refreshAccessToken } from '../api/baseApi';
+import { connectionChanged, eventReceived, resetRealtime } from '../slices/realtimeSlice';
+import { config } from '../../config/environment';
+import type { AppDispatch, RootState } from '../store';
+import { RealtimeClient } from './RealtimeClient';
+import { applyRealtimeEvent, resyncRealtimeCaches } from './applyRealtimeEvent';
+import {
+  createPollingTransport,
+  createSseTransport,
+  createWebSocketTransport,
+  type PollFn,
+  type PollResult,
+} from './transports';
+import type { RealtimeTransportKind } from './types';
+
+/**
+ * Realtime lifecycle
+ *
+ * Opens the event stream once the user is signed in with an organization
+ * selected, and reopens it whenever the organization or workspace changes so
+ * the stream is always scoped to the tenant on screen. Disabled unless
+ * `config.features.realTimeUpdates` is set.
+ */
+export const realtimeMiddleware = createListenerMiddleware();
+
+const startListening = realtimeMiddleware.startListening as TypedStartListening<RootState, AppDispatch>;
+
+// The mock backend only implements the polling endpoint
+const TRANSPORTS: RealtimeTransportKind[] = config.development.mockApi
+  ? ['polling']
+  : ['websocket', 'sse', 'polling'];
+
+const pollQuery = createBaseQuery('/realtime');
+
+const selectConnectionKey = (state: RootState) => {
+  const organizationId = state.tenant.currentOrganization?.id;
+  if (!state.auth.accessToken || !organizationId) return null;
+  return `${organizationId}:${state.tenant.currentWorkspace?.id ?? ''}`;
+};
+
+let client: RealtimeClient | null = null;
+
+if (config.features.realTimeUpdates) {
+  startListening({
+    predicate: (_, currentState, previousState) =>
+      selectConnectionKey(currentState) !== selectConnectionKey(previousState),
+    effect: (_, { dispatch, getState }) => {
+      client?.stop();
+      client = null;
+
+      if (!selectConnectionKey(getState())) {
+        dispatch(resetRealtime());
+        return;
+      }
+
+      const baseQueryApi = (signal: AbortSignal): BaseQueryApi => ({
+        signal,
+        abort: () => undefined,
+        dispatch,
+        getState,
+        extra: undefined,
+        endpoint: 'realtime',
+        type: 'query',
+      });
+
+      const poll: PollFn = async (params, signal) => {
+        const result = await pollQuery(
+          { url: '/events', params: { since: params.lastEventId } },
+          baseQueryApi(signal),
+          {}
+        );
+        return result.error ? { error: { status: result.error.status } } : (result.data as PollResult);
+      };
+
+      client = new RealtimeClient({
+        transports: TRANSPORTS,
+        factories: {
+          websocket: createWebSocketTransport(`${API_ROOT}/realtime/ws`),
+          sse: createSseTransport(`${API_ROOT}/realtime/stream`),
+          polling: createPollingTransport(poll),
+        },
+        getParams: () => {
+          const state = getState();
+          if (!state.auth.accessToken || !state.tenant.currentOrganization) return null;
+          return {
+            accessToken: state.auth.accessToken,
+            organizationId: state.tenant.currentOrganization.id,
+            workspaceId: state.tenant.currentWorkspace?.id,
+          };
+        },
+        refreshToken: () => refreshAccessToken(baseQueryApi(new AbortController().signal)),
+        onEvent: (event) => {
+          dispatch(eventReceived({ id: event.id, occurredAt: event.occurredAt }));
+          applyRealtimeEvent({ dispatch, getState }, event);
+        },
+        onResync: () => resyncRealtimeCaches({ dispatch, getState }),
+        onStatusChange: (status, transport, reconnectAttempt) =>
+          dispatch(connectionChanged({ status, transport, reconnectAttempt })),
+      });
+
+      // A new scope starts from "now"; the queries for the new tenant fetch current state themselves
+      client.start();
+    },
+  });
+}
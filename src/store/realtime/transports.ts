@@ -0,0 +1,156 @@
+import type {
+  RealtimeConnectionParams,
+  RealtimeEvent,
+  RealtimeMessage,
+  RealtimeTransportKind,
+} from './types';
+
+export interface TransportCloseInfo {
+  opened: boolean; // false when the transport never managed to connect
+  authFailed?: boolean; // the access token was rejected
+  fatal?: boolean; // the server refused this tenant; don't retry
+}
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (message: RealtimeMessage) => void;
+  onClose: (info: TransportCloseInfo) => void;
+}
+
+export interface RealtimeTransport {
+  readonly kind: RealtimeTransportKind;
+  close: () => void;
+}
+
+export type TransportFactory = (params: RealtimeConnectionParams, handlers: TransportHandlers) => RealtimeTransport;
+
+export type PollResult =
+  | { events: RealtimeEvent[]; cursor?: string; resync?: boolean }
+  | { error: { status: number | string } };
+
+export type PollFn = (params: RealtimeConnectionParams, signal: AbortSignal) => Promise<PollResult>;
+
+// Custom close codes sent by the realtime gateway
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_FORBIDDEN = 4403;
+
+export const POLL_INTERVAL_MS = 5000;
+
+const parseMessage = (raw: string): RealtimeMessage | null => {
+  try {
+    return JSON.parse(raw) as RealtimeMessage;
+  } catch {
+    return null;
+  }
+};
+
+// Browsers can't attach headers to WebSocket or EventSource requests, so credentials go in the query string
+const buildUrl = (path: string, params: RealtimeConnectionParams, protocol?: 'ws' | 'wss') => {
+  const url = new URL(path, window.location.origin);
+  if (protocol) url.protocol = `${protocol}:`;
+  url.searchParams.set('access_token', params.accessToken);
+  url.searchParams.set('organization_id', params.organizationId);
+  if (params.workspaceId) url.searchParams.set('workspace_id', params.workspaceId);
+  if (params.lastEventId) url.searchParams.set('last_event_id', params.lastEventId);
+  return url.toString();
+};
+
+export const createWebSocketTransport = (path: string): TransportFactory => (params, handlers) => {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  const socket = new WebSocket(buildUrl(path, params, protocol));
+  let opened = false;
+
+  socket.onopen = () => {
+    opened = true;
+    handlers.onOpen();
+  };
+  socket.onmessage = (event: MessageEvent) => {
+    const message = parseMessage(String(event.data));
+    if (message) handlers.onMessage(message);
+  };
+  socket.onclose = (event: CloseEvent) => {
+    handlers.onClose({
+      opened,
+      authFailed: event.code === CLOSE_UNAUTHORIZED,
+      fatal: event.code === CLOSE_FORBIDDEN,
+    });
+  };
+
+  return {
+    kind: 'websocket',
+    close: () => {
+      socket.onclose = null;
+      socket.close();
+    },
+  };
+};
+
+export const createSseTransport = (path: string): TransportFactory => (params, handlers) => {
+  if (typeof EventSource === 'undefined') {
+    queueMicrotask(() => handlers.onClose({ opened: false }));
+    return { kind: 'sse', close: () => undefined };
+  }
+
+  const source = new EventSource(buildUrl(path, params));
+  let opened = false;
+
+  source.onopen = () => {
+    opened = true;
+    handlers.onOpen();
+  };
+  source.onmessage = (event: MessageEvent) => {
+    const message = parseMessage(String(event.data));
+    if (message) handlers.onMessage(message);
+  };
+  // EventSource would silently retry forever; the client owns reconnects and fallbacks instead
+  source.onerror = () => {
+    source.close();
+    handlers.onClose({ opened });
+  };
+
+  return { kind: 'sse', close: () => source.close() };
+};
+
+export const createPollingTransport = (poll: PollFn, intervalMs = POLL_INTERVAL_MS): TransportFactory => (params, handlers) => {
+  const controller = new AbortController();
+  let cursor = params.lastEventId;
+  let opened = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const tick = async () => {
+    let result: PollResult;
+    try {
+      result = await poll({ ...params, lastEventId: cursor }, controller.signal);
+    } catch {
+      // A poll that throws (network down, malformed response) closes the transport; the client backs off and reconnects
+      if (!controller.signal.aborted) handlers.onClose({ opened });
+      return;
+    }
+    if (controller.signal.aborted) return;
+
+    if ('error' in result) {
+      handlers.onClose({ opened, authFailed: result.error.status === 401, fatal: result.error.status === 403 });
+      return;
+    }
+
+    if (!opened) {
+      opened = true;
+      handlers.onOpen();
+    }
+    if (result.resync) handlers.onMessage({ type: 'resync' });
+    result.events.forEach((event) => handlers.onMessage(event));
+    cursor = result.cursor ?? result.events[result.events.length - 1]?.id ?? cursor;
+
+    timer = setTimeout(tick, intervalMs);
+  };
+
+  void tick();
+
+  return {
+    kind: 'polling',
+    close: () => {
+      controller.abort();
+      if (timer) clearTimeout(timer);
+    },
+  };
+};
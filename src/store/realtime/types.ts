@@ -0,0 +1,68 @@
+import type { Content, ContentPlatform } from '../api/contentApi';
+import type { Notification } from '../api/notificationsApi';
+import type { ApprovalComment, ApprovalRequest } from '../api/approvalApi';
+
+export type RealtimeTransportKind = 'websocket' | 'sse' | 'polling';
+
+export type RealtimeConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+interface RealtimeEventBase<TType extends string, TPayload> {
+  id: string; // monotonically increasing cursor, used to resume after reconnect
+  type: TType;
+  organizationId: string;
+  workspaceId?: string;
+  occurredAt: string;
+  payload: TPayload;
+}
+
+export type PublishingStatusChangedEvent = RealtimeEventBase<'publishing.status_changed', {
+  contentId: string;
+  platform: ContentPlatform['platform'];
+  status: ContentPlatform['status'];
+  contentStatus?: Content['status'];
+  publishedAt?: string;
+  postId?: string;
+  url?: string;
+  error?: string;
+}>;
+
+export type NotificationCreatedEvent = RealtimeEventBase<'notification.created', {
+  notification: Notification;
+}>;
+
+export type ApprovalDecidedEvent = RealtimeEventBase<'approval.decided', {
+  requestId: string;
+  contentId: string;
+  stepId: string;
+  decision: 'approved' | 'rejected' | 'escalated';
+  requestStatus: ApprovalRequest['status'];
+  decidedBy: string;
+}>;
+
+export type CommentMentionedEvent = RealtimeEventBase<'comment.mentioned', {
+  requestId: string;
+  contentId: string;
+  comment: ApprovalComment;
+  mentionedUserIds: string[];
+}>;
+
+export type RealtimeEvent =
+  | PublishingStatusChangedEvent
+  | NotificationCreatedEvent
+  | ApprovalDecidedEvent
+  | CommentMentionedEvent;
+
+/**
+ * Control frames share the channel with events. `resync` tells the client
+ * the server could not replay from its cursor, so caches must be refetched.
+ */
+export type RealtimeControlMessage = { type: 'heartbeat' } | { type: 'resync' };
+
+export type RealtimeMessage = RealtimeEvent | RealtimeControlMessage;
+
+export interface RealtimeConnectionParams {
+  accessToken: string;
+  organizationId: string;
+  workspaceId?: string;
+  lastEventId?: string;
+}
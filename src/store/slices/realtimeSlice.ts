@@ -0,0 +1,49 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { RealtimeConnectionStatus, RealtimeTransportKind } from '../realtime/types';
+
+interface RealtimeState {
+  status: RealtimeConnectionStatus;
+  transport: RealtimeTransportKind | null;
+  lastEventId: string | null;
+  lastEventAt: string | null;
+  reconnectAttempt: number;
+}
+
+const initialState: RealtimeState = {
+  status: 'idle',
+  transport: null,
+  lastEventId: null,
+  lastEventAt: null,
+  reconnectAttempt: 0,
+};
+
+const realtimeSlice = createSlice({
+  name: 'realtime',
+  initialState,
+  reducers: {
+    connectionChanged: (
+      state,
+      action: PayloadAction<{
+        status: RealtimeConnectionStatus;
+        transport?: RealtimeTransportKind | null;
+        reconnectAttempt?: number;
+      }>
+    ) => {
+      const { status, transport, reconnectAttempt } = action.payload;
+      state.status = status;
+      if (transport !== undefined) state.transport = transport;
+      state.reconnectAttempt = reconnectAttempt ?? 0;
+    },
+
+    eventReceived: (state, action: PayloadAction<{ id: string; occurredAt: string }>) => {
+      state.lastEventId = action.payload.id;
+      state.lastEventAt = action.payload.occurredAt;
+    },
+
+    resetRealtime: () => initialState,
+  },
+});
+
+export const { connectionChanged, eventReceived, resetRealtime } = realtimeSlice.actions;
+
+export default realtimeSlice.reducer;
@@ -64,6 +64,7 @@ export interface ClientWorkspace {
     defaultPlatforms: string[];
     approvalRequired: boolean;
     autoPublish: boolean;
+    minPostSpacingMinutes?: number; // minimum gap between any two posts in the workspace
   };
   status: 'active' | 'paused' | 'archived';
   totalContent: number;
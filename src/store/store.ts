@@ -18,13 +18,25 @@ import { advancedAnalyticsApi } from './api/advancedAnalyticsApi';
 import { reportGenerationApi } from './api/reportGenerationApi';
 import { aiContentOptimizationApi } from './api/aiContentOptimizationApi';
 import { contentCreationApi } from './api/contentCreationApi';
+import { mediaApi } from './api/mediaApi';
+import { notificationsApi } from './api/notificationsApi';
+import { approvalApi } from './api/approvalApi';
+import { templatesApi } from './api/templatesApi';
+import { userProfileApi } from './api/userProfileApi';
+import { contentOptimizationApi } from './api/contentOptimizationApi';
+import { publishingApi } from './api/publishingApi';
+import { schedulingApi } from './api/schedulingApi';
+import { cacheInvalidationMiddleware } from './api/cacheInvalidation';
+import { realtimeMiddleware } from './realtime/realtimeMiddleware';
 import authReducer from './slices/authSlice';
 import tenantReducer from './slices/tenantSlice';
+import realtimeReducer from './slices/realtimeSlice';
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
     tenant: tenantReducer,
+    realtime: realtimeReducer,
     // RTK Query APIs
     [authApi.reducerPath]: authApi.reducer,
     [organizationApi.reducerPath]: organizationApi.reducer,
@@ -45,33 +57,51 @@ export const store = configureStore({
     [reportGenerationApi.reducerPath]: reportGenerationApi.reducer,
     [aiContentOptimizationApi.reducerPath]: aiContentOptimizationApi.reducer,
     [contentCreationApi.reducerPath]: contentCreationApi.reducer,
+    [mediaApi.reducerPath]: mediaApi.reducer,
+    [notificationsApi.reducerPath]: notificationsApi.reducer,
+    [approvalApi.reducerPath]: approvalApi.reducer,
+    [templatesApi.reducerPath]: templatesApi.reducer,
+    [userProfileApi.reducerPath]: userProfileApi.reducer,
+    [contentOptimizationApi.reducerPath]: contentOptimizationApi.reducer,
+    [publishingApi.reducerPath]: publishingApi.reducer,
+    [schedulingApi.reducerPath]: schedulingApi.reducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
       serializableCheck: {
         ignoredActions: ['persist/PERSIST', 'persist/REHYDRATE'],
       },
-    }).concat(
-      authApi.middleware,
-      organizationApi.middleware,
-      workspaceApi.middleware,
-      contentApi.middleware,
-      analyticsApi.middleware,
-      aiContentApi.middleware,
-      socialPlatformsApi.middleware,
-      billingApi.middleware,
-      usageApi.middleware,
-      adminApi.middleware,
-      emailApi.middleware,
-      onboardingApi.middleware,
-      performanceApi.middleware,
-      aiInsightsApi.middleware,
-      researchApi.middleware,
-      advancedAnalyticsApi.middleware,
-      reportGenerationApi.middleware,
-      aiContentOptimizationApi.middleware,
-      contentCreationApi.middleware
-    ),
+    })
+      .prepend(cacheInvalidationMiddleware.middleware, realtimeMiddleware.middleware)
+      .concat(
+        authApi.middleware,
+        organizationApi.middleware,
+        workspaceApi.middleware,
+        contentApi.middleware,
+        analyticsApi.middleware,
+        aiContentApi.middleware,
+        socialPlatformsApi.middleware,
+        billingApi.middleware,
+        usageApi.middleware,
+        adminApi.middleware,
+        emailApi.middleware,
+        onboardingApi.middleware,
+        performanceApi.middleware,
+        aiInsightsApi.middleware,
+        researchApi.middleware,
+        advancedAnalyticsApi.middleware,
+        reportGenerationApi.middleware,
+        aiContentOptimizationApi.middleware,
+        contentCreationApi.middleware,
+        mediaApi.middleware,
+        notificationsApi.middleware,
+        approvalApi.middleware,
+        templatesApi.middleware,
+        userProfileApi.middleware,
+        contentOptimizationApi.middleware,
+        publishingApi.middleware,
+        schedulingApi.middleware
+      ),
 });
 
 export type RootState = ReturnType<typeof store.getState>;
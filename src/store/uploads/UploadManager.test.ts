@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { UploadManager, type UploadManagerOptions, type UploadTransport } from './UploadManager';
+import type { MediaFile, UploadSession } from '../api/mediaApi';
+
+const CHUNK_SIZE = 4;
+
+interface FakeSession extends UploadSession {
+  chunks: Map<number, Blob>;
+}
+
+const sessions = new Map<string, FakeSession>();
+
+const createTransport = (): UploadTransport & { [K in keyof UploadTransport]: ReturnType<typeof vi.fn> } => ({
+  createSession: vi.fn(async ({ filename, mimeType, size }) => {
+    const session: FakeSession = {
+      id: `session_${sessions.size + 1}`,
+      filename,
+      mimeType,
+      size,
+      chunkSize: CHUNK_SIZE,
+      totalChunks: Math.ceil(size / CHUNK_SIZE),
+      receivedChunks: [],
+      expiresAt: '2030-01-01T00:00:00.000Z',
+      chunks: new Map(),
+    };
+    sessions.set(session.id, session);
+    return session;
+  }),
+  getSession: vi.fn(async (id: string) => {
+    const session = sessions.get(id);
+    return session ? { ...session, receivedChunks: [...session.chunks.keys()] } : null;
+  }),
+  uploadChunk: vi.fn(async (id: string, index: number, chunk: Blob) => {
+    sessions.get(id)!.chunks.set(index, chunk);
+  }),
+  complete: vi.fn(async (id: string) => ({ id: `media_${id}`, filename: sessions.get(id)!.filename }) as MediaFile),
+  abort: vi.fn(async (id: string) => {
+    sessions.delete(id);
+  }),
+});
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const createManager = (overrides: Partial<UploadManagerOptions> = {}) => {
+  const transport = createTransport();
+  const options: UploadManagerOptions = {
+    transport,
+    prepare: async (file) => ({ blob: file, info: { width: 10, height: 10 } }),
+    storage: createStorage(),
+    ...overrides,
+  };
+  return { manager: new UploadManager(options), transport, options };
+};
+
+const file = (name: string, content = 'abcdefghij') => new File([content], name, { type: 'image/png', lastModified: 1 });
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('UploadManager', () => {
+  beforeEach(() => {
+    sessions.clear();
+  });
+
+  it('uploads a file in chunks and completes it', async () => {
+    const { manager, transport } = createManager();
+    const [id] = manager.add([file('photo.png')]);
+
+    const media = await manager.whenComplete(id);
+
+    expect(media.id).toBe('media_session_1');
+    expect(transport.uploadChunk).toHaveBeenCalledTimes(3);
+    expect(transport.complete).toHaveBeenCalledWith('session_1', { metadata: { width: 10, height: 10 }, thumbnail: undefined });
+    expect(manager.getSnapshot()[0]).toMatchObject({ status: 'completed', progress: 100, uploadedBytes: 10 });
+    manager.dispose();
+  });
+
+  it('sends only the missing chunks when resumed', async () => {
+    const { manager, transport } = createManager();
+    let release: () => void = () => undefined;
+    transport.uploadChunk.mockImplementationOnce(async (sessionId: string, index: number, chunk: Blob) => {
+      sessions.get(sessionId)!.chunks.set(index, chunk);
+      await new Promise<void>((resolve) => (release = resolve));
+    });
+
+    const [id] = manager.add([file('photo.png')]);
+    await flush();
+    manager.pause(id);
+    release();
+    await flush();
+
+    expect(manager.getSnapshot()[0].status).toBe('paused');
+    expect(transport.uploadChunk).toHaveBeenCalledTimes(1);
+
+    manager.resume(id);
+    await manager.whenComplete(id);
+
+    expect(transport.createSession).toHaveBeenCalledTimes(1);
+    expect(transport.uploadChunk.mock.calls.map(([, index]) => index)).toEqual([0, 1, 2]);
+    manager.dispose();
+  });
+
+  it('restores unfinished uploads after a reload and resumes when the file is added again', async () => {
+    const storage = createStorage();
+    const first = createManager({ storage });
+    first.transport.uploadChunk.mockImplementationOnce(async (sessionId: string, index: number, chunk: Blob) => {
+      sessions.get(sessionId)!.chunks.set(index, chunk);
+    }).mockImplementationOnce(() => new Promise(() => undefined));
+
+    first.manager.add([file('photo.png')]);
+    await flush();
+    first.manager.dispose();
+
+    const { manager, transport } = createManager({ storage });
+    const [restored] = manager.getSnapshot();
+    expect(restored).toMatchObject({ status: 'paused', requiresFile: true, uploadedBytes: 4, progress: 40 });
+
+    const [id] = manager.add([file('photo.png')]);
+    expect(id).toBe(restored.fileId);
+    await manager.whenComplete(id);
+
+    expect(transport.createSession).not.toHaveBeenCalled();
+    expect(transport.uploadChunk.mock.calls.map(([, index]) => index)).toEqual([1, 2]);
+    expect(JSON.parse(storage.getItem('mediaUploads')!)).toEqual([]);
+    manager.dispose();
+  });
+
+  it('pauses on a dropped connection and carries on once back online', async () => {
+    const { manager, transport } = createManager();
+    transport.uploadChunk.mockRejectedValueOnce({ status: 'FETCH_ERROR', message: 'Network error' });
+
+    const [id] = manager.add([file('photo.png')]);
+    await flush();
+    expect(manager.getSnapshot()[0]).toMatchObject({ status: 'paused', error: 'Network error' });
+
+    window.dispatchEvent(new Event('online'));
+    await manager.whenComplete(id);
+    expect(manager.getSnapshot()[0].status).toBe('completed');
+    manager.dispose();
+  });
+
+  it('fails on a server error and uploads again on retry', async () => {
+    const { manager, transport } = createManager();
+    transport.complete.mockRejectedValueOnce({ status: 409, data: { error: { message: 'Missing chunks' } } });
+
+    const [id] = manager.add([file('photo.png')]);
+    await expect(manager.whenComplete(id)).rejects.toThrow('Missing chunks');
+    expect(manager.getSnapshot()[0]).toMatchObject({ status: 'failed', error: 'Missing chunks' });
+
+    manager.retry(id);
+    await expect(manager.whenComplete(id)).resolves.toMatchObject({ id: 'media_session_1' });
+    manager.dispose();
+  });
+
+  it('runs no more than the configured number of uploads at once', async () => {
+    const { manager } = createManager({ concurrency: 1, prepare: () => new Promise(() => undefined) });
+    manager.add([file('a.png'), file('b.png')]);
+
+    expect(manager.getSnapshot().map((upload) => upload.status)).toEqual(['processing', 'pending']);
+    manager.dispose();
+  });
+
+  it('aborts the server session when cancelled', async () => {
+    const { manager, transport } = createManager();
+    transport.uploadChunk.mockImplementationOnce(() => new Promise(() => undefined));
+
+    const [id] = manager.add([file('photo.png')]);
+    const completion = manager.whenComplete(id);
+    await flush();
+    manager.cancel(id);
+
+    await expect(completion).rejects.toThrow('Upload cancelled');
+    expect(transport.abort).toHaveBeenCalledWith('session_1');
+    expect(manager.getSnapshot()).toEqual([]);
+    manager.dispose();
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Upload Manager
+ *
+ * Sends media files to resumable upload sessions in chunks, a few files at a
+ * time. Each file can be paused, resumed, retried or cancelled; losing the
+ * network pauses an upload and it picks up again when the browser is back
+ * online, sending only the chunks the server doesn't have. Unfinished uploads
+ * are remembered across reloads and resume once their file is selected again.
+ */
+
+import type { MediaFile, UploadProgress, UploadSession } from '../api/mediaApi';
+import type { PreparedMedia } from '../../utils/mediaProcessing';
+import { getApiErrorMessage, isApiError } from '../api/baseApi';
+
+const STORAGE_KEY = 'mediaUploads';
+const DEFAULT_CONCURRENCY = 2;
+const RESTORED_ERROR = 'Select the file again to resume';
+
+export interface UploadOptions {
+  folderId?: string;
+  tags?: string[];
+}
+
+export interface UploadTransport {
+  createSession: (request: { filename: string; mimeType: string; size: number } & UploadOptions) => Promise<UploadSession>;
+  // Resolves to null once the session has expired or been removed
+  getSession: (id: string) => Promise<UploadSession | null>;
+  uploadChunk: (id: string, index: number, chunk: Blob) => Promise<void>;
+  complete: (id: string, data: { metadata: PreparedMedia['info']; thumbnail?: string }) => Promise<MediaFile>;
+  abort: (id: string) => Promise<void>;
+}
+
+export interface UploadManagerOptions {
+  transport: UploadTransport;
+  prepare: (file: File) => Promise<PreparedMedia>;
+  storage?: Pick<Storage, 'getItem' | 'setItem'> | null;
+  concurrency?: number;
+}
+
+// What survives a reload
+interface PersistedUpload {
+  id: string;
+  fingerprint: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  options: UploadOptions;
+  sessionId?: string;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+interface UploadEntry extends PersistedUpload {
+  status: UploadProgress['status'];
+  file?: File;
+  prepared?: PreparedMedia;
+  error?: string;
+  media?: MediaFile;
+  // Paused by a dropped connection rather than the user
+  offline?: boolean;
+  // Bumped on pause and cancel so a superseded run stops at its next step
+  run: number;
+  waiters: Array<{ resolve: (media: MediaFile) => void; reject: (error: Error) => void }>;
+}
+
+const fingerprintOf = (file: File) => `${file.name}:${file.size}:${file.lastModified}:${file.type}`;
+
+const createId = () => `upload_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const isConnectionError = (error: unknown) =>
+  (isApiError(error) && (error.status === 'FETCH_ERROR' || error.status === 'TIMEOUT_ERROR')) ||
+  (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+const toProgress = (entry: UploadEntry): UploadProgress => ({
+  fileId: entry.id,
+  filename: entry.filename,
+  progress: entry.status === 'completed'
+    ? 100
+    : entry.totalBytes ? Math.floor((entry.uploadedBytes / entry.totalBytes) * 100) : 0,
+  status: entry.status,
+  error: entry.error,
+  uploadedBytes: entry.uploadedBytes,
+  totalBytes: entry.totalBytes,
+  requiresFile: !entry.file || undefined,
+  media: entry.media,
+});
+
+export class UploadManager {
+  private options: UploadManagerOptions;
+  private entries: UploadEntry[] = [];
+  private snapshot: UploadProgress[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(options: UploadManagerOptions) {
+    this.options = options;
+    this.entries = this.restore();
+    this.snapshot = this.entries.map(toProgress);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+  }
+
+  dispose() {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    this.entries.forEach((entry) => (entry.run += 1));
+    this.listeners.clear();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  // Queue files and return their upload ids; a file that was already being uploaded picks up where it left off
+  add(files: File[], options: UploadOptions = {}): string[] {
+    const ids = files.map((file) => {
+      const fingerprint = fingerprintOf(file);
+      const existing = this.entries.find((entry) => entry.fingerprint === fingerprint && entry.status !== 'completed');
+
+      if (existing) {
+        existing.file ??= file;
+        if (existing.status === 'paused' || existing.status === 'failed') this.queue(existing);
+        return existing.id;
+      }
+
+      const entry: UploadEntry = {
+        id: createId(),
+        fingerprint,
+        filename: file.name,
+        mimeType: file.type,
+        size: file.size,
+        options,
+        uploadedBytes: 0,
+        totalBytes: file.size,
+        status: 'pending',
+        file,
+        run: 0,
+        waiters: [],
+      };
+      this.entries.push(entry);
+      return entry.id;
+    });
+
+    this.persist();
+    this.update();
+    return ids;
+  }
+
+  pause(id: string) {
+    const entry = this.find(id);
+    if (!entry || !['pending', 'processing', 'uploading'].includes(entry.status)) return;
+
+    entry.run += 1;
+    entry.status = 'paused';
+    entry.offline = false;
+    this.update();
+  }
+
+  resume(id: string) {
+    const entry = this.find(id);
+    if (!entry?.file || entry.status !== 'paused') return;
+
+    this.queue(entry);
+    this.update();
+  }
+
+  retry(id: string) {
+    const entry = this.find(id);
+    if (!entry?.file || entry.status !== 'failed') return;
+
+    this.queue(entry);
+    this.update();
+  }
+
+  // Stop an upload and discard what the server has, or dismiss a finished one
+  cancel(id: string) {
+    const entry = this.find(id);
+    if (!entry) return;
+
+    entry.run += 1;
+    this.entries = this.entries.filter((candidate) => candidate !== entry);
+    if (entry.status !== 'completed') {
+      if (entry.sessionId) this.options.transport.abort(entry.sessionId).catch(() => undefined);
+      this.settle(entry, new Error('Upload cancelled'));
+    }
+
+    this.persist();
+    this.update();
+  }
+
+  // Resolves with the stored file once the upload completes; rejects if it fails or is cancelled
+  whenComplete(id: string): Promise<MediaFile> {
+    const entry = this.find(id);
+    if (!entry) return Promise.reject(new Error('Upload not found'));
+    if (entry.media) return Promise.resolve(entry.media);
+
+    return new Promise((resolve, reject) => entry.waiters.push({ resolve, reject }));
+  }
+
+  private find(id: string) {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  private queue(entry: UploadEntry) {
+    entry.status = 'pending';
+    entry.error = undefined;
+    entry.offline = false;
+  }
+
+  private async run(entry: UploadEntry) {
+    const run = ++entry.run;
+    const isCurrent = () => entry.run === run;
+    const { transport, prepare } = this.options;
+
+    try {
+      if (!entry.prepared) {
+        entry.status = 'processing';
+        this.update();
+        entry.prepared = await prepare(entry.file!);
+        if (!isCurrent()) return;
+      }
+
+      const { blob, info, thumbnail } = entry.prepared;
+      entry.status = 'uploading';
+      entry.totalBytes = blob.size;
+      this.update();
+
+      let session = entry.sessionId ? await transport.getSession(entry.sessionId) : null;
+      if (!isCurrent()) return;
+      if (!session || session.size !== blob.size) {
+        session = await transport.createSession({
+          filename: entry.filename,
+          mimeType: entry.mimeType,
+          size: blob.size,
+          ...entry.options,
+        });
+        if (!isCurrent()) return;
+        entry.sessionId = session.id;
+      }
+
+      const { id: sessionId, chunkSize, totalChunks } = session;
+      const chunkBytes = (index: number) => Math.min(chunkSize, blob.size - index * chunkSize);
+      const missing = Array.from({ length: totalChunks }, (_, index) => index)
+        .filter((index) => !session!.receivedChunks.includes(index));
+
+      entry.uploadedBytes = blob.size - missing.reduce((total, index) => total + chunkBytes(index), 0);
+      this.persist();
+      this.update();
+
+      for (const index of missing) {
+        await transport.uploadChunk(sessionId, index, blob.slice(index * chunkSize, index * chunkSize + chunkBytes(index)));
+        if (!isCurrent()) return;
+        entry.uploadedBytes += chunkBytes(index);
+        this.persist();
+        this.update();
+      }
+
+      const media = await transport.complete(sessionId, { metadata: info, thumbnail });
+      if (!isCurrent()) return;
+      entry.status = 'completed';
+      entry.media = media;
+      entry.uploadedBytes = entry.totalBytes;
+      this.settle(entry, media);
+    } catch (error) {
+      if (!isCurrent()) return;
+      entry.error = getApiErrorMessage(error, 'Upload failed');
+      if (isConnectionError(error)) {
+        entry.status = 'paused';
+        entry.offline = true;
+      } else {
+        entry.status = 'failed';
+        this.settle(entry, new Error(entry.error));
+      }
+    }
+
+    this.persist();
+    this.update();
+  }
+
+  private settle(entry: UploadEntry, result: MediaFile | Error) {
+    const waiters = entry.waiters.splice(0);
+    waiters.forEach(({ resolve, reject }) => (result instanceof Error ? reject(result) : resolve(result)));
+  }
+
+  // Start queued uploads while there's room
+  private pump() {
+    const active = this.entries.filter((entry) => entry.status === 'processing' || entry.status === 'uploading').length;
+    this.entries
+      .filter((entry) => entry.status === 'pending' && entry.file)
+      .slice(0, Math.max(0, (this.options.concurrency ?? DEFAULT_CONCURRENCY) - active))
+      .forEach((entry) => {
+        entry.status = 'processing';
+        void this.run(entry);
+      });
+  }
+
+  private update() {
+    this.pump();
+    this.snapshot = this.entries.map(toProgress);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private persist() {
+    const unfinished: PersistedUpload[] = this.entries
+      .filter((entry) => entry.status !== 'completed')
+      .map(({ id, fingerprint, filename, mimeType, size, options, sessionId, uploadedBytes, totalBytes }) => ({
+        id, fingerprint, filename, mimeType, size, options, sessionId, uploadedBytes, totalBytes,
+      }));
+
+    try {
+      this.options.storage?.setItem(STORAGE_KEY, JSON.stringify(unfinished));
+    } catch {
+      // Storage full or unavailable: uploads still run, they just won't survive a reload
+    }
+  }
+
+  private restore(): UploadEntry[] {
+    try {
+      const saved: PersistedUpload[] = JSON.parse(this.options.storage?.getItem(STORAGE_KEY) || '[]');
+      return saved.map((upload) => ({ ...upload, status: 'paused', error: RESTORED_ERROR, run: 0, waiters: [] }));
+    } catch {
+      return [];
+    }
+  }
+
+  private handleOnline = () => {
+    const offline = this.entries.filter((entry) => entry.status === 'paused' && entry.offline);
+    if (!offline.length) return;
+
+    offline.forEach((entry) => this.queue(entry));
+    this.update();
+  };
+}
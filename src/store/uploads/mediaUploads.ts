@@ -0,0 +1,37 @@
+import { store } from '../store';
+import { mediaApi } from '../api/mediaApi';
+import { isApiError } from '../api/baseApi';
+import { prepareMedia } from '../../utils/mediaProcessing';
+import { UploadManager } from './UploadManager';
+
+/**
+ * Media uploads
+ *
+ * The one upload manager every upload surface shares, sending through the
+ * media API so auth, tenant headers and retries apply to each chunk.
+ */
+export const uploadManager = new UploadManager({
+  prepare: prepareMedia,
+  storage: typeof localStorage !== 'undefined' ? localStorage : null,
+  transport: {
+    createSession: async (request) =>
+      (await store.dispatch(mediaApi.endpoints.createUploadSession.initiate(request, { track: false })).unwrap()).upload,
+    getSession: async (id) => {
+      const result = store.dispatch(mediaApi.endpoints.getUploadSession.initiate(id, { subscribe: false, forceRefetch: true }));
+      try {
+        return (await result.unwrap()).upload;
+      } catch (error) {
+        if (isApiError(error) && error.status === 404) return null;
+        throw error;
+      }
+    },
+    uploadChunk: async (uploadId, index, chunk) => {
+      await store.dispatch(mediaApi.endpoints.uploadChunk.initiate({ uploadId, index, chunk }, { track: false })).unwrap();
+    },
+    complete: async (uploadId, data) =>
+      (await store.dispatch(mediaApi.endpoints.completeUpload.initiate({ uploadId, ...data }, { track: false })).unwrap()).file,
+    abort: async (id) => {
+      await store.dispatch(mediaApi.endpoints.abortUpload.initiate(id, { track: false })).unwrap();
+    },
+  },
+});
@@ -0,0 +1,14 @@
+/**
+ * Playwright Configuration for the Bundle Budget Check
+ *
+ * Runs against the production build in `dist`; no browser or server needed.
+ */
+
+import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: '.',
+  testMatch: 'bundle-budget.test.ts',
+  forbidOnly: !!process.env.CI,
+  reporter: [['list']],
+});
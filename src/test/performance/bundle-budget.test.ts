@@ -0,0 +1,40 @@
+/**
+ * Route Chunk Budget Tests
+ *
+ * Checks what each lazily loaded page adds on top of the initial bundle
+ * against the route budgets. Needs a production build (`vite build`).
+ */
+
+import { test, expect } from '@playwright/test';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import {
+  routeChunkFiles,
+  validateRouteChunkBudgets,
+  generateBudgetReport,
+  type BuildManifest
+} from './performance-budgets';
+
+const DIST = join(process.cwd(), 'dist');
+const MANIFEST = join(DIST, 'manifest.json');
+
+test.describe('Route Chunk Budgets', () => {
+  test('should keep every route chunk within its budget', () => {
+    expect(existsSync(MANIFEST), 'Build with `vite build` first').toBe(true);
+
+    const manifest: BuildManifest = JSON.parse(readFileSync(MANIFEST, 'utf8'));
+    const routes = routeChunkFiles(manifest);
+    expect(Object.keys(routes).length).toBeGreaterThan(0);
+
+    const sizes = Object.fromEntries(
+      Object.entries(routes).map(([page, files]) => [
+        page,
+        files.reduce((total, file) => total + gzipSync(readFileSync(join(DIST, file))).length, 0)
+      ])
+    );
+
+    const result = validateRouteChunkBudgets(sizes);
+    expect(result.violations.map(violation => violation.metric), generateBudgetReport([result])).toEqual([]);
+  });
+});
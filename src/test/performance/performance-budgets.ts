@@ -88,6 +88,28 @@ export const performanceBudgets: Record<string, PerformanceBudget> = {
     }
   },
 
+  // Code loaded when navigating to a route, on top of the initial bundle (gzipped)
+  'route-chunks': {
+    name: 'Route Chunks',
+    metrics: {},
+    resourceBudgets: {
+      'default': { budget: 60, unit: 'KB' },
+      'AdvancedAnalyticsPage': { budget: 160, unit: 'KB' },
+      'CompetitiveIntelligencePage': { budget: 160, unit: 'KB' },
+      'SocialContentCreationPage': { budget: 150, unit: 'KB' },
+      'AdminDashboard': { budget: 140, unit: 'KB' },
+      'AIInsightsPage': { budget: 140, unit: 'KB' },
+      'ContentPage': { budget: 140, unit: 'KB' },
+      'PerformancePage': { budget: 120, unit: 'KB' },
+      'UsagePage': { budget: 120, unit: 'KB' },
+      'AnalyticsPage': { budget: 120, unit: 'KB' },
+      'ReportsPage': { budget: 85, unit: 'KB' },
+      'OnboardingPage': { budget: 80, unit: 'KB' },
+      'TemplatesPage': { budget: 80, unit: 'KB' },
+      'ApprovalPage': { budget: 80, unit: 'KB' }
+    }
+  },
+
   // Mobile-specific budgets (stricter)
   'mobile': {
     name: 'Mobile Pages',
@@ -146,6 +168,14 @@ export function validatePerformanceBudget(
     throw new Error(`Unknown performance budget: ${budgetName}`);
   }
 
+  return checkBudget(budget, metrics, resources);
+}
+
+function checkBudget(
+  budget: PerformanceBudget,
+  metrics: Record<string, number>,
+  resources?: Record<string, number>
+): BudgetValidationResult {
   const violations: BudgetValidationResult['violations'] = [];
   let totalChecks = 0;
   let passedChecks = 0;
@@ -223,6 +253,65 @@ export function validatePerformanceBudget(
   };
 }
 
+/**
+ * Vite build manifest (`dist/manifest.json`), keyed by source path
+ */
+export interface BuildManifestChunk {
+  file: string;
+  src?: string;
+  isEntry?: boolean;
+  isDynamicEntry?: boolean;
+  imports?: string[];
+  css?: string[];
+}
+
+export type BuildManifest = Record<string, BuildManifestChunk>;
+
+/**
+ * Files each lazily loaded page fetches when its route is opened: its chunk
+ * and the chunks it imports, less whatever the entry has already loaded
+ */
+export function routeChunkFiles(manifest: BuildManifest): Record<string, string[]> {
+  const collect = (key: string, files: Set<string>, seen: Set<string>) => {
+    if (seen.has(key) || !manifest[key]) return;
+    seen.add(key);
+    const chunk = manifest[key];
+    files.add(chunk.file);
+    chunk.css?.forEach(file => files.add(file));
+    chunk.imports?.forEach(imported => collect(imported, files, seen));
+  };
+
+  const initial = new Set<string>();
+  Object.keys(manifest)
+    .filter(key => manifest[key].isEntry)
+    .forEach(key => collect(key, initial, new Set()));
+
+  const routes: Record<string, string[]> = {};
+  Object.entries(manifest)
+    .filter(([key, chunk]) => chunk.isDynamicEntry && key.startsWith('src/pages/'))
+    .forEach(([key]) => {
+      const files = new Set<string>();
+      collect(key, files, new Set());
+      const page = key.split('/').pop()!.replace(/\.[jt]sx?$/, '');
+      routes[page] = Array.from(files).filter(file => !initial.has(file));
+    });
+
+  return routes;
+}
+
+/**
+ * Validate route chunk sizes (bytes, by page name) against the route budgets;
+ * pages without a budget of their own get the default one
+ */
+export function validateRouteChunkBudgets(chunkSizes: Record<string, number>): BudgetValidationResult {
+  const { resourceBudgets, ...budget } = performanceBudgets['route-chunks'];
+  const routeBudgets = Object.fromEntries(
+    Object.keys(chunkSizes).map(page => [page, resourceBudgets[page] ?? resourceBudgets['default']])
+  );
+
+  return checkBudget({ ...budget, resourceBudgets: routeBudgets }, {}, chunkSizes);
+}
+
 /**
  * Generate performance budget report
  */
@@ -335,10 +424,11 @@ export const packageJsonScripts = {
   "test:performance": "playwright test src/test/performance",
   "test:performance:lighthouse": "lhci autorun",
   "test:performance:budget": "playwright test src/test/performance/performance-budget.test.ts",
+  "test:performance:bundle": "vite build && playwright test --config=src/test/performance/bundle-budget.config.ts",
   "test:performance:api": "playwright test src/test/performance/api-benchmarks.test.ts",
   "test:performance:load": "artillery run src/test/performance/load-testing.yml",
   "test:performance:report": "node scripts/generate-performance-report.js",
-  "test:performance:ci": "npm run test:performance:lighthouse && npm run test:performance:budget"
+  "test:performance:ci": "npm run test:performance:bundle && npm run test:performance:lighthouse && npm run test:performance:budget"
 };
 
 /**
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for Approval Conditions
+ *
+ * Covers parsing and type-checking the condition language, evaluating it
+ * against content facts, routing workflow steps and the builder round trip.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  conditionError,
+  evaluateCondition,
+  formatConditionGroup,
+  routeSteps,
+  toConditionGroup,
+  type ConditionFacts,
+} from '../../../utils/approvalConditions';
+import type { ApprovalStep } from '../../../store/api/approvalApi';
+
+const facts: ConditionFacts = {
+  platforms: ['linkedin', 'twitter'],
+  type: 'video',
+  priority: 'high',
+  tags: ['Launch'],
+  hasMedia: true,
+  estimatedReach: 25000,
+  riskScore: 35,
+};
+
+const step = (id: string, order: number, conditions?: ApprovalStep['conditions']): ApprovalStep => ({
+  id,
+  order,
+  name: id,
+  type: 'review',
+  assignees: { userIds: ['user_maria'] },
+  isOptional: false,
+  conditions,
+});
+
+describe('Approval Conditions', () => {
+  it('should evaluate conditions against content facts', () => {
+    expect(evaluateCondition('priority in ["high", "urgent"] and platforms contains "LinkedIn"', facts)).toBe(true);
+    expect(evaluateCondition('not hasMedia or estimatedReach >= 30000', facts)).toBe(false);
+    expect(evaluateCondition('tags contains "launch" and (riskScore > 50 or type == "video")', facts)).toBe(true);
+    expect(evaluateCondition('not tags contains "legal"', facts)).toBe(true);
+    expect(evaluateCondition("priority === 'high' && !hasMedia", facts)).toBe(false);
+  });
+
+  it('should reject conditions that are not valid', () => {
+    expect(conditionError('riskScore > 50')).toBeNull();
+    expect(conditionError('window.alert(1)')).toBe('Unexpected "." at position 7');
+    expect(conditionError('reach > 1')).toBe(
+      'Unknown field "reach" at position 1; use platforms, type, priority, tags, hasMedia, estimatedReach, riskScore'
+    );
+    expect(conditionError('riskScore > "high"')).toBe('Can\'t compare number with string using ">"');
+    expect(conditionError('priority == "high" and')).toBe('Expected a field or value but found end of condition at position 23');
+    expect(conditionError('estimatedReach')).toBe('The condition has to be yes or no, such as hasMedia or riskScore > 50');
+    expect(conditionError('type = "video"')).toBe('Unexpected "=" at position 6');
+  });
+
+  it('should route steps by their conditions', () => {
+    const routes = routeSteps(
+      [
+        step('legal', 2, { requireIf: 'riskScore >= 50' }),
+        step('copy', 1),
+        step('brand', 3, { skipIf: 'priority == "high"' }),
+        step('exec', 4, { skipIf: 'estimatedReach >= 10000', requireIf: 'type == "video"' }),
+        step('broken', 5, { skipIf: 'reach > 1' }),
+      ],
+      facts
+    );
+
+    expect(routes.map(({ step: { id }, included }) => [id, included])).toEqual([
+      ['copy', true],
+      ['legal', false],
+      ['brand', false],
+      ['exec', true],
+      ['broken', true],
+    ]);
+    expect(routes[1].reason).toBe('Not required: riskScore >= 50 is false');
+    expect(routes[4].reason).toMatch(/^Runs because its condition is invalid: Unknown field "reach"/);
+  });
+
+  it('should convert between conditions and the builder', () => {
+    const group = toConditionGroup('platforms contains "tiktok" or not hasMedia or priority in ["high", "urgent"]');
+
+    expect(group).toEqual({
+      match: 'any',
+      clauses: [
+        { field: 'platforms', operator: 'contains', value: 'tiktok' },
+        { field: 'hasMedia', operator: 'is', value: false },
+        { field: 'priority', operator: 'in', value: ['high', 'urgent'] },
+      ],
+    });
+    expect(formatConditionGroup(group!)).toBe(
+      'platforms contains "tiktok" or not hasMedia or priority in ["high", "urgent"]'
+    );
+    expect(
+      formatConditionGroup({ match: 'all', clauses: [{ field: 'tags', operator: 'excludes', value: 'ok "to" go' }] })
+    ).toBe('not tags contains "ok \\"to\\" go"');
+    expect(toConditionGroup('hasMedia and (riskScore > 50 or type == "video")')).toBeNull();
+    expect(toConditionGroup('')).toEqual({ match: 'all', clauses: [] });
+  });
+});
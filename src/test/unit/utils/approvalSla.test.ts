@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for Approval SLAs
+ *
+ * Covers step deadlines and countdowns, the reminders and escalations a
+ * sweep sends, and the breach and turnaround figures in the stats.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { approverTurnaround, formatSla, slaActions, slaSummary, stepSla } from '../../../utils/approvalSla';
+import type { ApprovalRequest, ApprovalRequestStep, ApprovalWorkflow } from '../../../store/api/approvalApi';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2024-10-01T12:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(NOW - hours * HOUR).toISOString();
+
+const workflow = {
+  id: 'workflow_standard',
+  steps: [
+    { id: 'step_review', order: 1, name: 'Copy review', type: 'review', assignees: { userIds: ['user_maria'] }, timeoutHours: 10, escalationUserId: 'user_demo', isOptional: false },
+    { id: 'step_client', order: 2, name: 'Client approval', type: 'approve', assignees: { userIds: ['user_demo'] }, isOptional: false },
+  ],
+  sla: { reminderThresholds: [50, 80] },
+} as ApprovalWorkflow;
+
+const requestStep = (stepId: string, extra: Partial<ApprovalRequestStep> = {}): ApprovalRequestStep => ({
+  id: `request_${stepId}`,
+  stepId,
+  status: 'pending',
+  assignedTo: ['user_maria'],
+  approvals: [],
+  ...extra,
+});
+
+const request = (id: string, steps: ApprovalRequestStep[]) =>
+  ({ id, workflowId: 'workflow_standard', status: 'pending', content: { title: id }, steps } as unknown as ApprovalRequest);
+
+const nameOf = (userId: string) => ({ user_maria: 'Maria Lopez', user_demo: 'Demo Agency' })[userId] ?? userId;
+
+describe('Approval SLAs', () => {
+  it('should count down to a step deadline', () => {
+    const review = workflow.steps[0];
+
+    const onTrack = stepSla(requestStep('step_review', { startedAt: hoursAgo(2) }), review, NOW)!;
+    expect(onTrack).toMatchObject({ remainingMs: 8 * HOUR, elapsedPercent: 20, state: 'on_track' });
+    expect(formatSla(onTrack, requestStep('step_review'))).toBe('8h 0m left');
+
+    expect(stepSla(requestStep('step_review', { startedAt: hoursAgo(8) }), review, NOW)?.state).toBe('at_risk');
+    const late = stepSla(requestStep('step_review', { startedAt: hoursAgo(11.5) }), review, NOW)!;
+    expect(formatSla(late, requestStep('step_review'))).toBe('Overdue 1h 30m');
+
+    expect(stepSla(requestStep('step_client', { startedAt: hoursAgo(50) }), workflow.steps[1], NOW)).toBeNull();
+    expect(stepSla(requestStep('step_review'), review, NOW)).toBeNull();
+  });
+
+  it('should remind once per threshold and escalate timed out steps', () => {
+    const actions = slaActions(
+      [
+        request('fresh', [requestStep('step_review', { startedAt: hoursAgo(2) })]),
+        request('halfway', [requestStep('step_review', { startedAt: hoursAgo(6) })]),
+        request('reminded', [requestStep('step_review', { startedAt: hoursAgo(6), remindersSent: [50] })]),
+        request('late_start', [requestStep('step_review', { startedAt: hoursAgo(9) })]),
+        request('timed_out', [requestStep('step_review', { startedAt: hoursAgo(12), remindersSent: [50, 80] })]),
+        request('escalated', [requestStep('step_review', { startedAt: hoursAgo(30), status: 'escalated' })]),
+      ],
+      [workflow],
+      NOW
+    );
+
+    expect(actions).toEqual([
+      { type: 'remind', requestId: 'halfway', stepId: 'request_step_review', threshold: 50 },
+      { type: 'remind', requestId: 'late_start', stepId: 'request_step_review', threshold: 80 },
+      {
+        type: 'escalate',
+        requestId: 'timed_out',
+        stepId: 'request_step_review',
+        escalateTo: 'user_demo',
+        reason: 'No decision within 10h',
+      },
+    ]);
+  });
+
+  it('should summarise breaches and approver turnaround', () => {
+    const requests = [
+      request('late', [
+        requestStep('step_review', {
+          status: 'approved',
+          startedAt: hoursAgo(40),
+          approvals: [{ userId: 'user_maria', decision: 'approved', decidedAt: hoursAgo(28) }],
+        }),
+        requestStep('step_client', { startedAt: hoursAgo(28), assignedTo: ['user_demo'] }),
+      ]),
+      request('quick', [
+        requestStep('step_review', {
+          status: 'approved',
+          startedAt: hoursAgo(10),
+          approvals: [{ userId: 'user_maria', decision: 'approved', decidedAt: hoursAgo(6) }],
+        }),
+      ]),
+      request('escalated', [
+        requestStep('step_review', {
+          status: 'escalated',
+          startedAt: hoursAgo(14),
+          escalatedAt: hoursAgo(4),
+          escalatedTo: 'user_demo',
+          escalatedFrom: ['user_maria'],
+          assignedTo: ['user_demo'],
+        }),
+      ]),
+      request('running', [requestStep('step_review', { startedAt: hoursAgo(1) })]),
+    ];
+
+    const summary = slaSummary(requests, [workflow], nameOf, NOW);
+    expect(summary).toMatchObject({ onTrack: 1, atRisk: 0, breached: 1 });
+    expect(summary.breaches).toEqual([
+      {
+        requestId: 'escalated',
+        title: 'escalated',
+        stepId: 'step_review',
+        stepName: 'Copy review',
+        assignees: ['Maria Lopez'],
+        deadline: hoursAgo(4),
+        overdueHours: 4,
+        escalatedTo: 'Demo Agency',
+      },
+    ]);
+
+    expect(approverTurnaround(requests, [workflow], nameOf)).toEqual([
+      { userId: 'user_maria', name: 'Maria Lopez', decisions: 2, averageHours: 8, onTime: 1, late: 1, escalations: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for the Approval Workflow Graph
+ *
+ * Covers laying steps out in parallel stages, validating the graph, editing
+ * it and working out which request steps are ready to start.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  arrangeSteps,
+  cloneSteps,
+  readySteps,
+  removeStep,
+  validateWorkflow,
+  workflowLayout,
+} from '../../../utils/approvalWorkflowGraph';
+import type { ApprovalRequestStep, ApprovalStep } from '../../../store/api/approvalApi';
+
+const step = (id: string, order: number, extra: Partial<ApprovalStep> = {}): ApprovalStep => ({
+  id,
+  order,
+  name: id,
+  type: 'review',
+  assignees: { userIds: ['user_maria'], anyOf: true },
+  isOptional: false,
+  ...extra,
+});
+
+const requestStep = (stepId: string, status: ApprovalRequestStep['status'], startedAt?: string): ApprovalRequestStep => ({
+  id: `request_${stepId}`,
+  stepId,
+  status,
+  assignedTo: ['user_maria'],
+  approvals: [],
+  startedAt,
+});
+
+const ids = (steps: ApprovalStep[]) => steps.map(({ id }) => id);
+
+// copy, then brand and legal side by side, then client
+const parallel = [
+  step('copy', 1, { dependsOn: [] }),
+  step('brand', 2, { dependsOn: ['copy'], isOptional: true }),
+  step('legal', 2, { dependsOn: ['copy'] }),
+  step('client', 3, { dependsOn: ['brand', 'legal'] }),
+];
+
+describe('Approval Workflow Graph', () => {
+  it('should lay steps out in stages', () => {
+    expect(workflowLayout(parallel).stages.map(ids)).toEqual([['copy'], ['brand', 'legal'], ['client']]);
+
+    // Without dependsOn, steps wait on the closest lower order
+    const legacy = [step('c', 5), step('a', 1), step('b1', 2), step('b2', 2)];
+    expect(workflowLayout(legacy).stages.map(ids)).toEqual([['a'], ['b1', 'b2'], ['c']]);
+    expect(arrangeSteps(legacy).map(({ id, order, dependsOn }) => [id, order, dependsOn])).toEqual([
+      ['c', 3, ['b1', 'b2']],
+      ['a', 1, []],
+      ['b1', 2, ['a']],
+      ['b2', 2, ['a']],
+    ]);
+  });
+
+  it('should report unreachable steps and missing assignees', () => {
+    const problems = validateWorkflow([
+      step('copy', 1, { dependsOn: [], timeoutHours: 24 }),
+      step('loop_a', 2, { dependsOn: ['copy', 'loop_b'] }),
+      step('loop_b', 2, { dependsOn: ['loop_a'] }),
+      step('orphan', 3, { dependsOn: ['deleted'] }),
+      step('nobody', 3, { dependsOn: ['copy'], assignees: { userIds: [], roleIds: [] } }),
+      step('broken', 3, { dependsOn: ['copy'], conditions: { skipIf: 'reach > 1' } }),
+    ]);
+
+    expect(problems.map(({ stepId, severity, message }) => [stepId, severity, message])).toEqual([
+      ['copy', 'warning', 'copy times out after 24h but has nobody to escalate to'],
+      ['loop_a', 'error', 'loop_a can never start because the steps before it wait on each other'],
+      ['loop_b', 'error', 'loop_b can never start because the steps before it wait on each other'],
+      ['orphan', 'error', 'orphan waits on a step that no longer exists'],
+      ['nobody', 'error', 'nobody has nobody assigned'],
+      ['broken', 'error', expect.stringMatching(/^broken has an invalid skipIf condition: Unknown field "reach"/)],
+    ]);
+    expect(workflowLayout(parallel).unreachable).toEqual([]);
+    expect(validateWorkflow(parallel)).toEqual([]);
+    expect(validateWorkflow([])).toEqual([{ severity: 'error', message: 'Add at least one step' }]);
+  });
+
+  it('should keep the graph connected when steps are removed or cloned', () => {
+    expect(removeStep(parallel, 'legal').find(({ id }) => id === 'client')?.dependsOn).toEqual(['brand', 'copy']);
+
+    const cloned = cloneSteps(parallel);
+    expect(cloned.every(({ id }) => !ids(parallel).includes(id))).toBe(true);
+    expect(workflowLayout(cloned).stages.map((stage) => stage.map(({ name }) => name))).toEqual([
+      ['copy'],
+      ['brand', 'legal'],
+      ['client'],
+    ]);
+  });
+
+  it('should start steps once everything they wait on has finished', () => {
+    const started = '2024-10-01T09:00:00.000Z';
+
+    expect(
+      readySteps(parallel, [
+        requestStep('copy', 'approved', started),
+        requestStep('brand', 'pending'),
+        requestStep('legal', 'pending'),
+        requestStep('client', 'pending'),
+      ]).map(({ stepId }) => stepId)
+    ).toEqual(['brand', 'legal']);
+
+    // A rejected optional step and a skipped step don't hold up the client
+    expect(
+      readySteps(parallel, [
+        requestStep('copy', 'approved', started),
+        requestStep('brand', 'rejected', started),
+        requestStep('legal', 'skipped'),
+        requestStep('client', 'pending'),
+      ]).map(({ stepId }) => stepId)
+    ).toEqual(['client']);
+
+    expect(
+      readySteps(parallel, [
+        requestStep('copy', 'approved', started),
+        requestStep('brand', 'approved', started),
+        requestStep('legal', 'pending', started),
+        requestStep('client', 'pending'),
+      ])
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for the iCalendar Export
+ *
+ * Covers one VEVENT per platform post, text escaping, line folding and the
+ * mapping of content status to calendar status.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildIcsCalendar, contentToCalendarEvents } from '../../../utils/calendarExport';
+import type { Content } from '../../../store/api/contentApi';
+
+const createContent = (overrides: Partial<Content> = {}): Content => ({
+  id: 'content_1',
+  workspaceId: 'ws_1',
+  title: 'Launch; day, recap',
+  body: 'Line one\nLine two',
+  type: 'post',
+  status: 'scheduled',
+  priority: 'medium',
+  media: [],
+  platforms: [
+    { platform: 'linkedin', status: 'scheduled', scheduledAt: '2024-05-01T09:00:00.000Z' },
+    { platform: 'twitter', status: 'published', publishedAt: '2024-05-01T10:30:00.000Z' },
+    { platform: 'instagram', status: 'draft' },
+  ],
+  scheduledAt: '2024-05-01T09:00:00.000Z',
+  tags: [],
+  aiGenerated: false,
+  approvalRequired: false,
+  createdBy: 'user_1',
+  createdAt: '2024-04-20T09:00:00.000Z',
+  updatedAt: '2024-04-20T09:00:00.000Z',
+  version: 1,
+  ...overrides,
+} as Content);
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('Calendar Export', () => {
+  const now = new Date('2024-04-30T12:00:00Z');
+
+  it('should create one event per scheduled or published platform post', () => {
+    const events = contentToCalendarEvents([createContent()], 'https://app.example.com/');
+
+    expect(events.map(({ uid, platform, start }) => [uid, platform, start.toISOString()])).toEqual([
+      ['content_1-linkedin@contentautopilot.app', 'linkedin', '2024-05-01T09:00:00.000Z'],
+      ['content_1-twitter@contentautopilot.app', 'twitter', '2024-05-01T10:30:00.000Z'],
+    ]);
+    expect(events[0].url).toBe('https://app.example.com/content/content_1');
+    expect(events[0].platforms).toEqual(['linkedin', 'twitter', 'instagram']);
+  });
+
+  it('should render title, platforms, status and deep link for each event', () => {
+    const events = contentToCalendarEvents([createContent()], 'https://app.example.com');
+    const ics = unfold(buildIcsCalendar(events, { name: 'Acme', now }));
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-CALNAME:Acme');
+    expect(ics).toContain('DTSTART:20240501T090000Z\r\nDTEND:20240501T091500Z');
+    expect(ics).toContain('SUMMARY:[LinkedIn] Launch\\; day\\, recap');
+    expect(ics).toContain('DESCRIPTION:Status: Scheduled\\n\\nPlatforms: LinkedIn\\, Twitter\\, Instagram\\n\\nLine one\\nLine two');
+    expect(ics).toContain('URL:https://app.example.com/content/content_1');
+    expect(ics.match(/STATUS:\w+/g)).toEqual(['STATUS:TENTATIVE', 'STATUS:CONFIRMED']);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+  });
+
+  it('should fold lines longer than 75 octets without splitting characters', () => {
+    const events = contentToCalendarEvents([createContent({ title: `${'é'.repeat(60)} long title` })], 'https://app.example.com');
+    const lines = buildIcsCalendar(events, { now }).split('\r\n');
+
+    lines.forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(unfold(lines.join('\r\n'))).toContain(`SUMMARY:[LinkedIn] ${'é'.repeat(60)} long title`);
+  });
+
+  it('should add a refresh hint for subscribed feeds', () => {
+    const ics = buildIcsCalendar([], { refreshIntervalMinutes: 60, now });
+
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M');
+    expect(ics).not.toContain('BEGIN:VEVENT');
+  });
+});
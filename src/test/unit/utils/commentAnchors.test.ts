@@ -0,0 +1,80 @@
+/**
+ * Unit Tests for Comment Anchors
+ *
+ * Covers anchors following the text through edits, finding a quote again
+ * when its range is replaced, and splitting text for highlighting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyEdit, createTextAnchor, diffText, findQuote, rebaseAnchor, rebaseAnchors, segmentText } from '../../../utils/commentAnchors';
+
+const TEXT = 'Our autumn range lands Friday. Book a fitting before Friday to save 20%.';
+const at = (quote: string, from = 0) => {
+  const start = TEXT.indexOf(quote, from);
+  return createTextAnchor(TEXT, start, start + quote.length);
+};
+
+describe('Comment anchors', () => {
+  it('should follow its text through edits around and inside it', () => {
+    const anchor = at('autumn range');
+
+    const before = { start: 0, end: 3, text: 'The' };
+    const moved = rebaseAnchor(anchor, before, applyEdit(TEXT, before));
+    expect(moved.quote).toBe('autumn range');
+    expect(moved.start).toBe(anchor.start);
+
+    const inside = { start: anchor.start + 6, end: anchor.start + 6, text: ' knitwear' };
+    expect(rebaseAnchor(anchor, inside, applyEdit(TEXT, inside)).quote).toBe('autumn knitwear range');
+
+    const atEdge = { start: anchor.end, end: anchor.end, text: 's' };
+    expect(rebaseAnchor(anchor, atEdge, applyEdit(TEXT, atEdge)).quote).toBe('autumn range');
+  });
+
+  it('should find its quote again or detach when the range is replaced', () => {
+    const secondFriday = at('Friday', TEXT.indexOf('before'));
+    expect(findQuote(TEXT, 'Friday', { prefix: secondFriday.prefix, suffix: secondFriday.suffix })?.start).toBe(secondFriday.start);
+
+    const retyped = TEXT.replace('lands Friday', 'lands on Friday');
+    const anchor = rebaseAnchor(at('lands Friday'), diffText(TEXT, retyped)!, retyped);
+    expect(anchor.detached).toBeUndefined();
+    expect(anchor.quote).toBe('lands on Friday');
+
+    const removed = TEXT.replace(' Book a fitting before Friday to save 20%.', '');
+    const gone = rebaseAnchor(at('save 20%'), diffText(TEXT, removed)!, removed);
+    expect(gone).toMatchObject({ detached: true, quote: 'save 20%', start: removed.length, end: removed.length });
+
+    const restored = rebaseAnchor(gone, diffText(removed, TEXT)!, TEXT);
+    expect(restored).toMatchObject({ detached: undefined, quote: 'save 20%', start: TEXT.indexOf('save 20%') });
+  });
+
+  it('should only move text anchors when rebasing comments', () => {
+    const friday = at('Friday');
+    const comments = [
+      { id: 'text', anchor: friday },
+      { id: 'media', anchor: { type: 'media' as const, mediaId: 'media_1' } },
+      { id: 'general' },
+    ];
+    const edited = `New: ${TEXT}`;
+    const [text, media, general] = rebaseAnchors(comments, TEXT, edited);
+    expect(text.anchor).toMatchObject({ start: friday.start + 5, quote: 'Friday' });
+    expect(media).toBe(comments[1]);
+    expect(general).toBe(comments[2]);
+    expect(rebaseAnchors(comments, TEXT, TEXT)).toBe(comments);
+  });
+
+  it('should split text at every range boundary', () => {
+    const segments = segmentText('abcdef', [
+      { id: 'a', start: 1, end: 4 },
+      { id: 'b', start: 3, end: 5 },
+      { id: 'point', start: 2, end: 2 },
+    ]);
+    expect(segments.map(({ text, anchorIds }) => [text, anchorIds])).toEqual([
+      ['a', []],
+      ['b', ['a']],
+      ['c', ['a']],
+      ['d', ['a', 'b']],
+      ['e', ['b']],
+      ['f', []],
+    ]);
+  });
+});
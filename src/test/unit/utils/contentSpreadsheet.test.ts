@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Content Spreadsheet Import and Export
+ *
+ * Covers CSV and .xlsx parsing, header detection, row validation and the
+ * export -> import round trip.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildXlsx, parseCsv, readXlsx, toCsv } from '../../../utils/spreadsheet';
+import {
+  buildContentImport,
+  contentToSpreadsheetRows,
+  detectColumnMapping,
+  missingRequiredColumns,
+  parseScheduledAt,
+} from '../../../utils/contentSpreadsheet';
+import type { Content } from '../../../store/api/contentApi';
+
+const now = new Date(2024, 4, 1, 12, 0);
+
+const mediaLibrary = [{ id: 'media_1', url: 'https://cdn.example.com/launch.png' }];
+
+const createContent = (overrides: Partial<Content> = {}): Content => ({
+  id: 'content_1',
+  workspaceId: 'ws_1',
+  title: 'Launch day',
+  body: 'We are live, "finally" 🚀\nRead the announcement on our blog',
+  type: 'post',
+  status: 'scheduled',
+  priority: 'high',
+  media: [{ id: 'media_1', type: 'image', url: mediaLibrary[0].url, filename: 'launch.png', size: 1024, mimeType: 'image/png' }],
+  platforms: [
+    { platform: 'linkedin', status: 'scheduled' },
+    { platform: 'twitter', status: 'scheduled' },
+  ],
+  scheduledAt: new Date(2024, 4, 6, 9, 30).toISOString(),
+  tags: ['launch', 'product'],
+  aiGenerated: false,
+  approvalRequired: false,
+  createdBy: 'user_1',
+  createdAt: '2024-04-01T00:00:00.000Z',
+  updatedAt: '2024-04-01T00:00:00.000Z',
+  version: 1,
+  ...overrides,
+});
+
+describe('Spreadsheet formats', () => {
+  it('should parse quoted CSV fields and detect semicolon delimiters', () => {
+    const csv = '\uFEFFTitle,Body\r\n"Hello, world","Line one\nLine ""two"""\r\n\r\n';
+    expect(parseCsv(csv)).toEqual([
+      ['Title', 'Body'],
+      ['Hello, world', 'Line one\nLine "two"'],
+    ]);
+    expect(parseCsv('Title;Platforms\nLaunch;LinkedIn, X')).toEqual([
+      ['Title', 'Platforms'],
+      ['Launch', 'LinkedIn, X'],
+    ]);
+
+    const rows = [['a', 'b,c'], [' padded', 'say "hi"']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('should read back the .xlsx workbooks it writes', async () => {
+    const rows = [
+      ['Title', 'Body'],
+      ['Fish & chips <3', 'Two\nlines 🚀'],
+      ['', 'Only body'],
+    ];
+    expect(await readXlsx(buildXlsx(rows))).toEqual(rows);
+  });
+});
+
+describe('Content spreadsheet import', () => {
+  it('should map client headers onto content fields', () => {
+    const mapping = detectColumnMapping(['Post Copy', 'Headline', 'Channel', 'Publish Date', 'Notes']);
+    expect(mapping).toEqual({ body: 0, title: 1, platforms: 2, scheduledAt: 3 });
+    expect(missingRequiredColumns(mapping)).toEqual([]);
+    expect(missingRequiredColumns({ title: 0 }).map(({ field }) => field)).toEqual(['body', 'platforms']);
+  });
+
+  it('should accept ISO, US and Excel serial dates', () => {
+    expect(parseScheduledAt('2024-05-06 09:30')).toEqual(new Date(2024, 4, 6, 9, 30));
+    expect(parseScheduledAt('5/6/2024 9:30 AM')).toEqual(new Date(2024, 4, 6, 9, 30));
+    expect(parseScheduledAt('45418.5')).toEqual(new Date(2024, 4, 6, 12, 0));
+    expect(parseScheduledAt('next tuesday')).toBeUndefined();
+  });
+
+  it('should report row-level errors and warnings', () => {
+    const rows = [
+      ['Title', 'Body', 'Platforms', 'Scheduled At', 'Media URLs', 'Priority'],
+      ['Good', 'Ready to go', 'LinkedIn, X', '2024-05-06 09:30', mediaLibrary[0].url, 'High'],
+      ['', 'No title', 'Myspace', 'soon', 'https://elsewhere.example.com/a.png', 'asap'],
+      ['Too long', 'x'.repeat(300), 'twitter', '2024-04-01 09:00', '', ''],
+    ];
+    const [good, broken, long] = buildContentImport(rows, detectColumnMapping(rows[0]), { mediaLibrary, now });
+
+    expect(good.errors).toEqual([]);
+    expect(good.request).toMatchObject({
+      title: 'Good',
+      type: 'post',
+      priority: 'high',
+      platforms: [{ platform: 'linkedin' }, { platform: 'twitter' }],
+      scheduledAt: new Date(2024, 4, 6, 9, 30).toISOString(),
+      media: ['media_1'],
+    });
+
+    expect(broken.rowNumber).toBe(3);
+    expect(broken.request).toBeUndefined();
+    expect(broken.errors).toEqual([
+      'Title is missing',
+      '"Myspace" is not a supported platform',
+      '"soon" is not a date and time this import understands, such as 2024-05-06 09:30',
+      '"asap" is not a priority (low, medium, high, urgent)',
+      'https://elsewhere.example.com/a.png is not in the media library. Upload it first',
+    ]);
+
+    expect(long.errors).toEqual(['Content exceeds twitter character limit by 20 characters']);
+    expect(long.warnings).toEqual(['2024-04-01 09:00 has passed, so the draft is created without a time']);
+  });
+
+  it('should import an exported calendar unchanged', () => {
+    const content = createContent();
+    const rows = parseCsv(toCsv(contentToSpreadsheetRows([content])));
+    const [row] = buildContentImport(rows, detectColumnMapping(rows[0]), { mediaLibrary, now });
+
+    expect(row.errors).toEqual([]);
+    expect(row.request).toEqual({
+      title: content.title,
+      body: content.body,
+      type: 'post',
+      priority: 'high',
+      platforms: [
+        { platform: 'linkedin', scheduledAt: content.scheduledAt },
+        { platform: 'twitter', scheduledAt: content.scheduledAt },
+      ],
+      scheduledAt: content.scheduledAt,
+      tags: ['launch', 'product'],
+      media: ['media_1'],
+    });
+  });
+});
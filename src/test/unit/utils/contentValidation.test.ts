@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Brand Guideline Validation
+ *
+ * Covers turning workspace guidelines into rules, located errors for banned
+ * phrases and hashtags, and the auto-fixes that resolve them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyAutoFixes,
+  applyTextEdits,
+  brandGuidelineRules,
+  validateBrandGuidelines,
+  validateContent,
+  type BrandGuidelineRules,
+} from '../../../utils/contentValidation';
+import type { BrandGuidelines } from '../../../store/api/templatesApi';
+
+const rules: BrandGuidelineRules = {
+  brandName: 'Acme Coffee Co',
+  bannedPhrases: [{ phrase: 'cheap', replacement: 'affordable' }, { phrase: 'world-class' }],
+  preferredTerms: ['craft'],
+  avoidedHashtags: ['#follow4follow'],
+  maxHashtags: 2,
+  keyMessages: ['Acme Coffee Co makes every day better'],
+  boilerplate: 'Acme Coffee Co roasts small-batch coffee.',
+  boilerplatePlatforms: ['linkedin'],
+};
+
+const codes = (errors: ReturnType<typeof validateBrandGuidelines>) => errors.map(({ code }) => code);
+
+describe('Brand Guideline Validation', () => {
+  it('should build rules from workspace guidelines', () => {
+    const guidelines = {
+      brand: { name: 'Acme Coffee Co' },
+      voice: { doUse: ['craft'], doNotUse: ['Cheap → affordable', 'synergy', ' '] },
+      content: {
+        messaging: { keyMessages: ['Fresh daily'], boilerplate: '' },
+        guidelines: { hashtagStrategy: { avoid: ['follow4follow', '#Like4Like'], maxPerPost: 3 } },
+      },
+      platformSpecific: [
+        { platform: 'linkedin', brandElements: { requiredElements: ['Company boilerplate'] } },
+        { platform: 'twitter', brandElements: { requiredElements: ['Logo'] } },
+      ],
+    } as unknown as BrandGuidelines;
+
+    expect(brandGuidelineRules(guidelines)).toEqual({
+      brandName: 'Acme Coffee Co',
+      bannedPhrases: [{ phrase: 'Cheap', replacement: 'affordable' }, { phrase: 'synergy', replacement: undefined }],
+      preferredTerms: ['craft'],
+      avoidedHashtags: ['#follow4follow', '#like4like'],
+      maxHashtags: 3,
+      keyMessages: ['Fresh daily'],
+      boilerplate: undefined,
+      boilerplatePlatforms: ['linkedin'],
+    });
+  });
+
+  it('should locate banned phrases as whole words and fix them', () => {
+    const content = 'Cheap beans, cheapest prices and world-class cups';
+    const errors = validateBrandGuidelines(content, rules);
+
+    expect(codes(errors)).toEqual(['BRAND_BANNED_PHRASE', 'BRAND_BANNED_PHRASE']);
+    expect(errors[0].locations).toEqual([{ start: 0, end: 5 }]);
+    expect(errors[0].message).toBe('"Cheap" is off-brand; use "Affordable" instead');
+    expect(errors[0].autoFix?.preview).toBe('Affordable beans, cheapest prices and world-class cups');
+    expect(errors[1].locations).toEqual([{ start: 33, end: 44 }]);
+    expect(errors[1].autoFix?.preview).toBe('Cheap beans, cheapest prices and cups');
+  });
+
+  it('should flag avoided hashtags and trim hashtags past the limit', () => {
+    const content = 'New roast #Coffee #Follow4Follow #latte #beans';
+    const errors = validateBrandGuidelines(content, rules);
+
+    expect(codes(errors)).toEqual(['BRAND_HASHTAG_AVOIDED', 'BRAND_HASHTAG_LIMIT']);
+    expect(errors[0].locations).toEqual([{ start: 18, end: 32 }]);
+    expect(errors[1].locations).toEqual([{ start: 33, end: 39 }, { start: 40, end: 46 }]);
+    expect(errors[1].autoFix?.preview).toBe('New roast #Coffee #Follow4Follow');
+    expect(applyAutoFixes(content, errors)).toBe('New roast #Coffee');
+  });
+
+  it('should require the boilerplate only on the platforms that need it', () => {
+    expect(validateBrandGuidelines('Hello', rules, ['twitter'])).toEqual([]);
+
+    const [missing] = validateBrandGuidelines('Hello', rules, ['linkedin', 'twitter']);
+    expect(missing.code).toBe('BRAND_BOILERPLATE_MISSING');
+    expect(missing.autoFix?.preview).toBe('Hello\n\nAcme Coffee Co roasts small-batch coffee.');
+  });
+
+  it('should only check brand rules in ContentValidator when guidelines are given', () => {
+    const platforms = [{ platform: 'linkedin' as const }];
+    const content = 'Our cheap espresso is back this week.';
+
+    expect(codes(validateContent(content, platforms).errors)).not.toContain('BRAND_BANNED_PHRASE');
+    expect(codes(validateContent(content, platforms, [], { brandGuidelines: rules }).errors)).toContain(
+      'BRAND_BANNED_PHRASE'
+    );
+  });
+
+  it('should apply non-overlapping edits against the original text', () => {
+    expect(
+      applyTextEdits('abcdef', [
+        { start: 4, end: 6, replacement: 'X' },
+        { start: 0, end: 2, replacement: '' },
+        { start: 1, end: 3, replacement: 'ignored' },
+      ])
+    ).toBe('cdX');
+  });
+});
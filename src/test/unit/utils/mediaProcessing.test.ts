@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Media Processing
+ *
+ * Covers stripping EXIF, XMP and text metadata from JPEG and PNG bytes
+ * while keeping the image data and the JPEG orientation, and reading a
+ * video whose thumbnail frame never loads.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { prepareMedia, stripImageMetadata } from '../../../utils/mediaProcessing';
+
+const bytes = (...parts: Array<number[] | string>) =>
+  new Uint8Array(parts.flatMap((part) => (typeof part === 'string' ? [...part].map((char) => char.charCodeAt(0)) : part)));
+
+const segment = (marker: number, payload: number[]) => {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+};
+
+// Little-endian EXIF with an orientation tag and a camera make
+const exif = (orientation: number) => [
+  ...[...'Exif\0\0'].map((char) => char.charCodeAt(0)),
+  0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00,
+  0x02, 0x00,
+  0x0f, 0x01, 0x02, 0x00, 0x04, 0x00, 0x00, 0x00, 0x41, 0x43, 0x4d, 0x00,
+  0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, orientation, 0x00, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+];
+
+const SOI = [0xff, 0xd8];
+const JFIF = segment(0xe0, [...'JFIF\0'].map((char) => char.charCodeAt(0)));
+const QUANT = segment(0xdb, [0x00, 0x01, 0x02]);
+const SCAN = [0xff, 0xda, 0x00, 0x04, 0x01, 0x02, 0x10, 0x20, 0xff, 0x00, 0x30, 0xff, 0xd9];
+
+const pngChunk = (type: string, data: number[]) => [0, 0, 0, data.length, ...[...type].map((char) => char.charCodeAt(0)), ...data, 0, 0, 0, 0];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const IHDR = pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+const IDAT = pngChunk('IDAT', [1, 2, 3]);
+const IEND = pngChunk('IEND', []);
+
+describe('stripImageMetadata', () => {
+  it('should remove EXIF, XMP and comment segments from a JPEG', () => {
+    const jpeg = bytes(
+      SOI,
+      JFIF,
+      segment(0xe1, exif(1)),
+      segment(0xe1, [...'http://ns.adobe.com/xap/1.0/\0<x/>'].map((char) => char.charCodeAt(0))),
+      segment(0xfe, [...'shot on a phone'].map((char) => char.charCodeAt(0))),
+      QUANT,
+      SCAN
+    );
+
+    expect(stripImageMetadata(jpeg)).toEqual(bytes(SOI, JFIF, QUANT, SCAN));
+  });
+
+  it('should keep only the orientation when a JPEG is rotated', () => {
+    const stripped = stripImageMetadata(bytes(SOI, JFIF, segment(0xe1, exif(6)), QUANT, SCAN));
+
+    expect(stripped.length).toBe(SOI.length + 36 + JFIF.length + QUANT.length + SCAN.length);
+    expect([...stripped.subarray(2, 4)]).toEqual([0xff, 0xe1]);
+    expect(String.fromCharCode(...stripped.subarray(6, 10))).toBe('Exif');
+    expect(stripped.includes(0x41)).toBe(false);
+    expect(stripImageMetadata(stripped)).toEqual(stripped);
+  });
+
+  it('should leave the scan data untouched even when it contains marker bytes', () => {
+    const jpeg = bytes(SOI, segment(0xe1, exif(1)), SCAN);
+    expect(stripImageMetadata(jpeg)).toEqual(bytes(SOI, SCAN));
+  });
+
+  it('should drop text, time and EXIF chunks from a PNG', () => {
+    const png = bytes(
+      PNG_SIGNATURE,
+      IHDR,
+      pngChunk('tEXt', [...'Author\0me'].map((char) => char.charCodeAt(0))),
+      pngChunk('eXIf', [0x4d, 0x4d]),
+      pngChunk('tIME', [7, 232, 1, 1, 0, 0, 0]),
+      IDAT,
+      IEND
+    );
+
+    expect(stripImageMetadata(png)).toEqual(bytes(PNG_SIGNATURE, IHDR, IDAT, IEND));
+  });
+
+  it('should return other formats unchanged', () => {
+    const gif = bytes('GIF89a', [1, 2, 3]);
+    expect(stripImageMetadata(gif)).toBe(gif);
+  });
+});
+
+describe('prepareMedia', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should give up on the thumbnail when a video never finishes seeking', async () => {
+    vi.useFakeTimers();
+    URL.createObjectURL = vi.fn(() => 'blob:video');
+    URL.revokeObjectURL = vi.fn();
+
+    // Loads its metadata but fires neither `seeked` nor `error`
+    const video = { videoWidth: 640, videoHeight: 360, duration: 10 } as Record<string, any>;
+    Object.defineProperty(video, 'src', { set: () => video.onloadedmetadata() });
+    const createElement = document.createElement.bind(document);
+    vi.spyOn(document, 'createElement').mockImplementation(((tag: string) =>
+      tag === 'video' ? video : createElement(tag)) as typeof document.createElement);
+
+    const prepared = prepareMedia(new File([new Uint8Array([1, 2, 3])], 'clip.mp4', { type: 'video/mp4' }));
+    await vi.runAllTimersAsync();
+
+    await expect(prepared).resolves.toMatchObject({ info: { width: 640, height: 360, duration: 10 }, thumbnail: undefined });
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:video');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for Media Variants
+ *
+ * Covers crops around a focal point, never upscaling, stepping quality and
+ * size down to fit a platform's limit, and picking each platform's media.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CROP_PRESETS,
+  cropRect,
+  encodeWithinLimit,
+  platformMediaIds,
+  variantSize,
+  type MediaVariant,
+} from '../../../utils/mediaVariants';
+import { maxImageBytes } from '../../../utils/contentValidation';
+import type { MediaFile } from '../../../store/api/mediaApi';
+
+const preset = (platform: string, id: string) => CROP_PRESETS[platform].find((entry) => entry.id === id)!;
+const landscape = { width: 4000, height: 3000 };
+
+describe('Media Variants', () => {
+  it('should crop the largest area of the preset shape around the focal point', () => {
+    expect(cropRect(landscape, preset('instagram', 'square'))).toEqual({ x: 500, y: 0, width: 3000, height: 3000 });
+    expect(cropRect(landscape, preset('instagram', 'square'), { x: 0.25, y: 0.5 })).toEqual({ x: 0, y: 0, width: 3000, height: 3000 });
+    expect(cropRect(landscape, preset('tiktok', 'vertical'), { x: 0.8, y: 0.1 })).toEqual({ x: 2312, y: 0, width: 1688, height: 3000 });
+  });
+
+  it('should keep the crop inside the image when the focal point is near an edge', () => {
+    const crop = cropRect(landscape, preset('linkedin', 'landscape'), { x: 1, y: 1 });
+
+    expect(crop.width).toBe(4000);
+    expect(crop.height).toBe(2090);
+    expect(crop.y + crop.height).toBe(3000);
+    expect(crop.width / crop.height).toBeCloseTo(1200 / 627, 2);
+  });
+
+  it('should scale down to the preset size but never up', () => {
+    const square = preset('instagram', 'square');
+    expect(variantSize(cropRect(landscape, square), square)).toEqual({ width: 1080, height: 1080 });
+    expect(variantSize(cropRect({ width: 800, height: 600 }, square), square)).toEqual({ width: 600, height: 600 });
+  });
+
+  it('should lower the quality until the image fits', async () => {
+    const calls: Array<[number, number]> = [];
+    const result = await encodeWithinLimit(async (scale, quality) => {
+      calls.push([scale, quality]);
+      return new Blob([new Uint8Array(Math.round(1000 * quality))]);
+    }, 800);
+
+    expect(result.quality).toBe(0.75);
+    expect(result.scale).toBe(1);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should shrink the image when the lowest quality is still too big', async () => {
+    const result = await encodeWithinLimit(
+      async (scale, quality) => new Blob([new Uint8Array(Math.round(4000 * scale * scale * quality))]),
+      1000
+    );
+
+    expect(result.scale).toBeLessThan(1);
+    expect(result.blob.size).toBeLessThanOrEqual(1000);
+  });
+
+  it('should give up rather than shrink past a usable size', async () => {
+    await expect(encodeWithinLimit(async () => new Blob([new Uint8Array(5000)]), 100)).rejects.toThrow(/under 0\.0 MB/);
+  });
+
+  it('should use the platform image limits', () => {
+    expect(maxImageBytes('twitter')).toBe(5 * 1024 * 1024);
+    expect(maxImageBytes('youtube')).toBe(2 * 1024 * 1024);
+    expect(maxImageBytes('mastodon')).toBeUndefined();
+  });
+
+  it('should swap in each platform variant and keep the other originals', () => {
+    const variant = (platform: string, originalId: string, id: string): MediaVariant => ({
+      platform,
+      originalId,
+      preset: CROP_PRESETS[platform][0],
+      focalPoint: { x: 0.5, y: 0.5 },
+      file: { id } as MediaFile,
+    });
+    const variants = [variant('instagram', 'a', 'a-ig'), variant('tiktok', 'b', 'b-tt')];
+
+    expect(platformMediaIds(['a', 'b'], variants, 'instagram')).toEqual(['a-ig', 'b']);
+    expect(platformMediaIds(['a', 'b'], variants, 'tiktok')).toEqual(['a', 'b-tt']);
+    expect(platformMediaIds(['a', 'b'], variants, 'linkedin')).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for Permissions
+ *
+ * Covers the permissions each organization role ends up with, access
+ * requirements, and which restricted sections each role can open.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computePermissions, hasAccess, organizationRole, routeRequirement, type OrganizationRole } from '../../../utils/permissions';
+import type { User } from '../../../store/slices/authSlice';
+
+const userWith = (role: OrganizationRole, extra: Record<string, boolean> = {}) =>
+  ({
+    id: `user_${role}`,
+    organizationMemberships: [{ organizationId: 'org_agency', role, permissions: extra, joinedAt: '2024-01-15T09:00:00.000Z' }],
+    workspaceAccess: [{ workspaceId: 'ws_acme', role: 'contributor', permissions: { publish: true, delete: false }, grantedAt: '2024-01-15T09:00:00.000Z' }],
+  } as unknown as User);
+
+const accessFor = (user: User) => ({
+  permissions: computePermissions(user, 'org_agency', 'ws_acme'),
+  role: organizationRole(user, 'org_agency'),
+});
+
+// Which restricted sections each role can open
+const MATRIX: Record<OrganizationRole, Record<string, boolean>> = {
+  owner: { '/admin': true, '/billing': true, '/billing/invoices': true, '/settings/organization': true, '/settings': true, '/team': true },
+  admin: { '/admin': true, '/billing': false, '/billing/invoices': false, '/settings/organization': false, '/settings': true, '/team': true },
+  manager: { '/admin': false, '/billing': false, '/billing/invoices': false, '/settings/organization': false, '/settings': true, '/team': true },
+  member: { '/admin': false, '/billing': false, '/billing/invoices': false, '/settings/organization': false, '/settings': true, '/team': true },
+};
+
+describe('Permissions', () => {
+  it('should combine role, membership and workspace permissions', () => {
+    expect(accessFor(userWith('admin')).permissions).toEqual(
+      ['manage_team', 'create_workspaces', 'manage_workspaces', 'view_all_analytics', 'workspace_publish']
+    );
+    expect(accessFor(userWith('member', { manage_billing: true })).permissions).toEqual(['manage_billing', 'workspace_publish']);
+    expect(computePermissions(userWith('owner'), 'org_other', 'ws_other')).toEqual([]);
+    expect(computePermissions(null, 'org_agency', 'ws_acme')).toEqual([]);
+  });
+
+  it('should require every permission and one of the roles', () => {
+    const access = { permissions: ['manage_team', 'workspace_publish'], role: 'admin' as const };
+    expect(hasAccess(access)).toBe(true);
+    expect(hasAccess(access, { permissions: ['manage_team', 'workspace_publish'] })).toBe(true);
+    expect(hasAccess(access, { permissions: ['manage_team', 'manage_billing'] })).toBe(false);
+    expect(hasAccess(access, { roles: ['owner', 'admin'] })).toBe(true);
+    expect(hasAccess(access, { permissions: ['manage_team'], roles: ['owner'] })).toBe(false);
+    expect(hasAccess({ permissions: [], role: null }, { roles: ['member'] })).toBe(false);
+  });
+
+  it.each(Object.keys(MATRIX) as OrganizationRole[])('should gate restricted sections for %s', (role) => {
+    const access = accessFor(userWith(role));
+    Object.entries(MATRIX[role]).forEach(([path, allowed]) => {
+      expect({ path, allowed: hasAccess(access, routeRequirement(path)) }).toEqual({ path, allowed });
+    });
+  });
+
+  it('should match the closest restricted path only', () => {
+    expect(routeRequirement('/settings/organization/members')).toEqual({ permissions: ['manage_organization'] });
+    expect(routeRequirement('/settings')).toBeUndefined();
+    expect(routeRequirement('/billingsupport')).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for the Publishing Queue Engine
+ *
+ * Covers error classification, exponential backoff, dead-lettering, and job
+ * selection under pauses and per-platform concurrency caps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyAttemptResult,
+  classifyPublishingError,
+  requeueJob,
+  retryDelayMs,
+  selectRunnableJobs,
+  startJob,
+} from '../../../utils/publishingQueue';
+import type { PublishingJob, QueuePause } from '../../../store/api/publishingApi';
+
+const now = new Date('2024-05-01T12:00:00Z');
+
+const createJob = (id: string, overrides: Partial<PublishingJob> = {}): PublishingJob => ({
+  id,
+  contentId: `content_${id}`,
+  workspaceId: 'ws_1',
+  platform: 'twitter',
+  title: `Post ${id}`,
+  priority: 'medium',
+  status: 'queued',
+  scheduledAt: '2024-05-01T11:00:00.000Z',
+  attempts: 0,
+  maxAttempts: 3,
+  errors: [],
+  createdAt: '2024-05-01T11:00:00.000Z',
+  updatedAt: '2024-05-01T11:00:00.000Z',
+  ...overrides,
+});
+
+const pause = (workspaceId: string, platform?: PublishingJob['platform']): QueuePause => ({
+  id: `pause_${workspaceId}_${platform ?? 'all'}`,
+  workspaceId,
+  platform,
+  pausedBy: 'user_1',
+  pausedAt: now.toISOString(),
+});
+
+const ids = (jobs: PublishingJob[]) => jobs.map(({ id }) => id);
+
+describe('Publishing Queue Engine', () => {
+  it('should classify platform errors as retryable or terminal', () => {
+    expect(classifyPublishingError({ code: 'RATE_LIMITED', message: '', httpStatus: 429 })).toBe('retryable');
+    expect(classifyPublishingError({ code: 'AUTH_EXPIRED', message: '', httpStatus: 401 })).toBe('terminal');
+    expect(classifyPublishingError({ message: '', httpStatus: 503 })).toBe('retryable');
+    expect(classifyPublishingError({ message: '', httpStatus: 422 })).toBe('terminal');
+    expect(classifyPublishingError({ message: 'socket hang up' })).toBe('retryable');
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    const noJitter = () => 1;
+    expect(retryDelayMs(1, noJitter)).toBe(30_000);
+    expect(retryDelayMs(2, noJitter)).toBe(60_000);
+    expect(retryDelayMs(3, noJitter)).toBe(120_000);
+    expect(retryDelayMs(20, noJitter)).toBe(30 * 60_000);
+    expect(retryDelayMs(2, () => 0)).toBe(30_000);
+  });
+
+  it('should schedule a retry after a retryable failure, honouring Retry-After', () => {
+    const job = startJob(createJob('a'), now);
+    const retried = applyAttemptResult(
+      job,
+      { ok: false, error: { code: 'RATE_LIMITED', message: 'Slow down', httpStatus: 429, retryAfterSeconds: 120 } },
+      now,
+      () => 0
+    );
+
+    expect(retried).toMatchObject({ status: 'retry_scheduled', attempts: 1, nextAttemptAt: '2024-05-01T12:02:00.000Z' });
+    expect(retried.lastError).toMatchObject({ code: 'RATE_LIMITED', kind: 'retryable' });
+    expect(retried.errors).toHaveLength(1);
+  });
+
+  it('should dead-letter terminal errors and exhausted jobs', () => {
+    const terminal = applyAttemptResult(
+      startJob(createJob('a'), now),
+      { ok: false, error: { code: 'ACCOUNT_DISCONNECTED', message: 'Reconnect', httpStatus: 401 } },
+      now
+    );
+    expect(terminal.status).toBe('dead_lettered');
+
+    const exhausted = applyAttemptResult(
+      startJob(createJob('b', { attempts: 2 }), now),
+      { ok: false, error: { code: 'TIMEOUT', message: 'Timed out' } },
+      now
+    );
+    expect(exhausted).toMatchObject({ status: 'dead_lettered', attempts: 3 });
+
+    expect(requeueJob(exhausted, now)).toMatchObject({ status: 'queued', attempts: 0, lastError: undefined });
+    expect(requeueJob(exhausted, now).errors).toHaveLength(1);
+  });
+
+  it('should respect per-platform concurrency caps and priority', () => {
+    const jobs = [
+      createJob('publishing', { status: 'publishing' }),
+      createJob('low', { priority: 'low', scheduledAt: '2024-05-01T10:00:00.000Z' }),
+      createJob('urgent', { priority: 'urgent' }),
+      createJob('medium'),
+      createJob('linkedin', { platform: 'linkedin' }),
+    ];
+
+    const runnable = selectRunnableJobs(jobs, [], { now, concurrencyLimits: { twitter: 3, linkedin: 1 } });
+    expect(ids(runnable)).toEqual(['urgent', 'medium', 'linkedin']);
+  });
+
+  it('should skip paused workspaces and platforms and jobs that are not due', () => {
+    const jobs = [
+      createJob('paused_ws', { workspaceId: 'ws_2' }),
+      createJob('paused_platform', { platform: 'instagram' }),
+      createJob('future', { scheduledAt: '2024-05-01T13:00:00.000Z' }),
+      createJob('retry_later', { status: 'retry_scheduled', nextAttemptAt: '2024-05-01T12:05:00.000Z' }),
+      createJob('retry_now', { status: 'retry_scheduled', nextAttemptAt: '2024-05-01T11:59:00.000Z' }),
+    ];
+
+    const runnable = selectRunnableJobs(jobs, [pause('ws_2'), pause('ws_1', 'instagram')], { now });
+    expect(ids(runnable)).toEqual(['retry_now']);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Unit Tests for the Recurrence Engine
+ *
+ * Covers RRULE expansion, DST handling in the rule's time zone, exclusions
+ * (EXDATE, weekends, holidays), post limits and iCalendar round-tripping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportRecurrenceRule,
+  getUpcomingOccurrences,
+  getHoliday,
+  importRecurrenceRule,
+  listOccurrences,
+  parseRRule,
+  formatRRule,
+  zonedTimeToUtc,
+} from '../../../utils/recurrence';
+import type { RecurrenceRule } from '../../../types/scheduling';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+const createRule = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  id: 'rule_1',
+  name: 'Test rule',
+  description: '',
+  enabled: true,
+  frequency: 'daily',
+  interval: 1,
+  times: ['09:00'],
+  platforms: ['linkedin'],
+  scheduling: {
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    timezone: 'UTC',
+  },
+  optimization: {
+    adaptTiming: false,
+    skipWeekends: false,
+    skipHolidays: false,
+    respectRateLimit: false,
+    optimalSpacing: 0,
+  },
+  analytics: { totalScheduled: 0, published: 0, failed: 0, averageEngagement: 0 },
+  ...overrides,
+});
+
+const from = new Date('2024-01-01T00:00:00Z');
+
+describe('Recurrence Engine', () => {
+  describe('parseRRule / formatRRule', () => {
+    it('should round-trip a complex rule', () => {
+      const rule = 'FREQ=MONTHLY;INTERVAL=2;COUNT=6;BYDAY=-1FR,2TU;BYSETPOS=1;WKST=SU';
+      expect(formatRRule(parseRRule(rule))).toBe(rule);
+    });
+
+    it('should reject unsupported parts instead of ignoring them', () => {
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow('Unsupported frequency');
+      expect(() => parseRRule('FREQ=DAILY;BYWEEKNO=3')).toThrow('Unsupported RRULE part');
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow();
+      expect(() => parseRRule('FREQ=DAILY;COUNT=2;UNTIL=20240101')).toThrow();
+    });
+  });
+
+  describe('expansion', () => {
+    it('should honour the interval for weekly rules and every listed time', () => {
+      const rule = createRule({ frequency: 'weekly', interval: 2, daysOfWeek: [2, 4], times: ['17:00', '09:00'] });
+
+      expect(iso(getUpcomingOccurrences(rule, 6, from))).toEqual([
+        '2024-01-02T09:00:00.000Z',
+        '2024-01-02T17:00:00.000Z',
+        '2024-01-04T09:00:00.000Z',
+        '2024-01-04T17:00:00.000Z',
+        '2024-01-16T09:00:00.000Z',
+        '2024-01-16T17:00:00.000Z',
+      ]);
+    });
+
+    it('should skip months that do not have the requested day', () => {
+      const rule = createRule({ frequency: 'monthly', daysOfMonth: [31] });
+
+      expect(iso(getUpcomingOccurrences(rule, 3, from))).toEqual([
+        '2024-01-31T09:00:00.000Z',
+        '2024-03-31T09:00:00.000Z',
+        '2024-05-31T09:00:00.000Z',
+      ]);
+    });
+
+    it('should support the last day of the month and numbered weekdays', () => {
+      expect(iso(getUpcomingOccurrences(createRule({ frequency: 'monthly', daysOfMonth: [-1] }), 2, from))).toEqual([
+        '2024-01-31T09:00:00.000Z',
+        '2024-02-29T09:00:00.000Z',
+      ]);
+      expect(iso(getUpcomingOccurrences(createRule({ frequency: 'custom', rrule: 'FREQ=MONTHLY;BYDAY=-1FR' }), 2, from))).toEqual([
+        '2024-01-26T09:00:00.000Z',
+        '2024-02-23T09:00:00.000Z',
+      ]);
+    });
+
+    it('should pick positions within each period with BYSETPOS', () => {
+      const rule = createRule({ frequency: 'custom', rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' });
+
+      expect(iso(getUpcomingOccurrences(rule, 2, from))).toEqual([
+        '2024-01-31T09:00:00.000Z',
+        '2024-02-29T09:00:00.000Z',
+      ]);
+    });
+
+    it('should stop after maxPosts and at the end date', () => {
+      expect(getUpcomingOccurrences(createRule({ scheduling: { startDate: from, timezone: 'UTC', maxPosts: 3 } }), 10, from)).toHaveLength(3);
+      expect(
+        getUpcomingOccurrences(
+          createRule({ scheduling: { startDate: from, timezone: 'UTC', endDate: new Date('2024-01-05T08:00:00Z') } }),
+          10,
+          from
+        )
+      ).toHaveLength(4);
+    });
+
+    it('should apply maxPosts after exclusions', () => {
+      const rule = createRule({
+        scheduling: { startDate: from, timezone: 'UTC', maxPosts: 7 },
+        optimization: { ...createRule().optimization, skipWeekends: true },
+        exceptions: [new Date('2024-01-03T09:00:00Z')],
+      });
+
+      // Jan 1-7 2024 is Monday to Sunday
+      expect(iso(getUpcomingOccurrences(rule, 10, from)).map((date) => date.slice(0, 10))).toEqual([
+        '2024-01-01', '2024-01-02', '2024-01-04', '2024-01-05', '2024-01-08', '2024-01-09', '2024-01-10',
+      ]);
+    });
+
+    it('should count posts before the query start towards maxPosts', () => {
+      const rule = createRule({ scheduling: { startDate: from, timezone: 'UTC', maxPosts: 3 } });
+
+      expect(iso(getUpcomingOccurrences(rule, 10, new Date('2024-01-02T12:00:00Z')))).toEqual(['2024-01-03T09:00:00.000Z']);
+    });
+
+    it('should not loop forever on rules that can never match', () => {
+      const rule = createRule({ frequency: 'custom', rrule: 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30' });
+      expect(getUpcomingOccurrences(rule, 1, from)).toEqual([]);
+    });
+  });
+
+  describe('time zones', () => {
+    it('should keep the local time across DST changes', () => {
+      const rule = createRule({
+        frequency: 'weekly',
+        daysOfWeek: [1],
+        scheduling: { startDate: new Date('2024-03-01T00:00:00Z'), timezone: 'America/New_York' },
+      });
+
+      // Clocks go forward on March 10th 2024 in New York
+      expect(iso(getUpcomingOccurrences(rule, 2, new Date('2024-03-01T00:00:00Z')))).toEqual([
+        '2024-03-04T14:00:00.000Z',
+        '2024-03-11T13:00:00.000Z',
+      ]);
+    });
+
+    it('should shift times inside a DST gap forward and pick the first of repeated times', () => {
+      expect(zonedTimeToUtc({ year: 2024, month: 3, day: 31, hour: 2, minute: 30 }, 'Europe/Berlin').toISOString())
+        .toBe('2024-03-31T01:30:00.000Z');
+      expect(zonedTimeToUtc({ year: 2024, month: 10, day: 27, hour: 2, minute: 30 }, 'Europe/Berlin').toISOString())
+        .toBe('2024-10-27T00:30:00.000Z');
+    });
+  });
+
+  describe('exclusions', () => {
+    it('should drop exception dates', () => {
+      const rule = createRule({ exceptions: [new Date('2024-01-02T09:00:00Z')] });
+      expect(iso(getUpcomingOccurrences(rule, 2, from))).toEqual([
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-03T09:00:00.000Z',
+      ]);
+    });
+
+    it('should match exception dates by local slot rather than exact instant', () => {
+      const rule = createRule({
+        scheduling: { startDate: from, timezone: 'Europe/Berlin' },
+        exceptions: [new Date('2024-01-02T08:00:42.500Z')],
+      });
+      expect(iso(getUpcomingOccurrences(rule, 2, from))).toEqual([
+        '2024-01-01T08:00:00.000Z',
+        '2024-01-03T08:00:00.000Z',
+      ]);
+    });
+
+    it('should skip holidays from the selected calendar', () => {
+      const rule = createRule({
+        scheduling: { startDate: new Date('2024-12-24T00:00:00Z'), timezone: 'Europe/London' },
+        optimization: { ...createRule().optimization, skipHolidays: true, holidayCalendar: 'GB' },
+      });
+
+      expect(iso(getUpcomingOccurrences(rule, 2, new Date('2024-12-24T00:00:00Z')))).toEqual([
+        '2024-12-24T09:00:00.000Z',
+        '2024-12-27T09:00:00.000Z',
+      ]);
+    });
+
+    it('should know observed and moveable holidays', () => {
+      expect(getHoliday('US', { year: 2021, month: 12, day: 31 })).toBe("New Year's Day (observed)");
+      expect(getHoliday('US', { year: 2024, month: 11, day: 28 })).toBe('Thanksgiving Day');
+      expect(getHoliday('GB', { year: 2024, month: 3, day: 29 })).toBe('Good Friday');
+      expect(getHoliday('GB', { year: 2024, month: 3, day: 28 })).toBeUndefined();
+    });
+  });
+
+  describe('iCalendar import/export', () => {
+    it('should export DTSTART, RRULE and EXDATE in the rule time zone', () => {
+      const rule = createRule({
+        frequency: 'weekly',
+        daysOfWeek: [2, 4],
+        times: ['09:00', '17:30'],
+        exceptions: [new Date('2024-01-04T08:00:00Z')],
+        scheduling: { startDate: new Date('2024-01-01T00:00:00Z'), timezone: 'Europe/Berlin', maxPosts: 10 },
+      });
+
+      expect(exportRecurrenceRule(rule).split('\r\n')).toEqual([
+        'DTSTART;TZID=Europe/Berlin:20240101T090000',
+        'RRULE:FREQ=WEEKLY;COUNT=10;BYDAY=TU,TH;BYHOUR=9;BYMINUTE=0',
+        'RRULE:FREQ=WEEKLY;COUNT=10;BYDAY=TU,TH;BYHOUR=17;BYMINUTE=30',
+        'EXDATE;TZID=Europe/Berlin:20240104T090000',
+      ]);
+    });
+
+    it('should import what it exports', () => {
+      const rule = createRule({
+        frequency: 'weekly',
+        interval: 2,
+        daysOfWeek: [1, 3],
+        times: ['09:00', '17:30'],
+        scheduling: { startDate: new Date('2024-01-01T08:00:00Z'), timezone: 'Europe/Berlin', maxPosts: 10 },
+      });
+      const imported = importRecurrenceRule(exportRecurrenceRule(rule));
+
+      expect(imported).toMatchObject({ frequency: 'weekly', interval: 2, daysOfWeek: [1, 3], times: ['09:00', '17:30'] });
+      expect(imported.scheduling).toMatchObject({ timezone: 'Europe/Berlin', maxPosts: 10 });
+      expect(iso(listOccurrences({
+        pattern: parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE'),
+        start: imported.scheduling.startDate,
+        timeZone: 'Europe/Berlin',
+      }, { limit: 1 }))).toEqual(['2024-01-01T08:00:00.000Z']);
+    });
+
+    it('should keep rules the editor cannot express as custom RRULEs', () => {
+      const imported = importRecurrenceRule('DTSTART:20240101T120000Z\nRRULE:FREQ=MONTHLY;BYDAY=1MO;COUNT=3');
+
+      expect(imported).toMatchObject({ frequency: 'custom', rrule: 'FREQ=MONTHLY;BYDAY=1MO', times: ['12:00'] });
+      expect(imported.scheduling.maxPosts).toBe(3);
+    });
+  });
+});
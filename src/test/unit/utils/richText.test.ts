@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for Rich Text
+ *
+ * Covers the Markdown round trip, the per-platform renderers, the editor's
+ * formatting commands and coalesced undo history.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown, renderDocument, renderMarkdown, toMarkdown } from '../../../utils/richText';
+import { activeMarks, insertLink, toggleList, toggleMark } from '../../../utils/richTextCommands';
+import { emptyHistory, recordChange, redo, undo } from '../../../utils/editHistory';
+
+const source = [
+  'Launch day 🚀 for **Acme _Cold Brew_** with @acme_co #CoffeeTime',
+  'Read the [full story](https://acme.coffee/story) or visit acme.coffee',
+  '',
+  '- **Bold** flavour',
+  '- Price: 4\\*5',
+  '',
+  '1. Order',
+  '2. Enjoy',
+].join('\n');
+
+describe('Rich Text', () => {
+  it('should parse Markdown into blocks and inline nodes', () => {
+    const { blocks } = parseMarkdown(source);
+
+    expect(blocks.map((block) => block.type)).toEqual(['paragraph', 'list', 'list']);
+    expect(blocks[0].type === 'paragraph' && blocks[0].children).toEqual([
+      { type: 'text', text: 'Launch day ', marks: [] },
+      { type: 'emoji', emoji: '🚀', marks: [] },
+      { type: 'text', text: ' for ', marks: [] },
+      { type: 'text', text: 'Acme ', marks: ['bold'] },
+      { type: 'text', text: 'Cold Brew', marks: ['bold', 'italic'] },
+      { type: 'text', text: ' with ', marks: [] },
+      { type: 'mention', handle: 'acme_co', marks: [] },
+      { type: 'text', text: ' ', marks: [] },
+      { type: 'hashtag', tag: 'CoffeeTime', marks: [] },
+      { type: 'text', text: '\nRead the ', marks: [] },
+      { type: 'link', text: 'full story', href: 'https://acme.coffee/story', marks: [] },
+      { type: 'text', text: ' or visit ', marks: [] },
+      { type: 'link', text: 'acme.coffee', href: 'acme.coffee', marks: [] },
+    ]);
+    expect(blocks[2]).toMatchObject({ type: 'list', ordered: true });
+  });
+
+  it('should round-trip through Markdown', () => {
+    const document = parseMarkdown(source);
+
+    expect(parseMarkdown(toMarkdown(document))).toEqual(document);
+    expect(toMarkdown(parseMarkdown('Price: 4\\*5, snake_case and \\_under\\_'))).toBe(
+      'Price: 4\\*5, snake_case and \\_under\\_'
+    );
+    expect(toMarkdown({ blocks: [{ type: 'paragraph', children: [{ type: 'text', text: '1. Not a list', marks: [] }] }] }))
+      .toBe('1\\. Not a list');
+  });
+
+  it('should render for each platform', () => {
+    const document = parseMarkdown(source);
+
+    expect(renderDocument(document, 'twitter')).toBe(
+      [
+        'Launch day 🚀 for Acme Cold Brew with @acme_co #CoffeeTime',
+        'Read the full story (https://acme.coffee/story) or visit acme.coffee',
+        '',
+        '• Bold flavour',
+        '• Price: 4*5',
+        '',
+        '1. Order',
+        '2. Enjoy',
+      ].join('\n')
+    );
+    expect(renderMarkdown('**Bold 1** and *it* for @acme', 'linkedin')).toBe('𝗕𝗼𝗹𝗱 𝟭 and 𝘪𝘵 for @acme');
+    expect(renderMarkdown('**_Both_**', 'linkedin')).toBe('𝘽𝙤𝙩𝙝');
+    expect(renderMarkdown('Hi <b>, **see** [this](javascript:void) or acme.coffee\n- one', 'email')).toBe(
+      '<p>Hi &lt;b&gt;, <strong>see</strong> this or <a href="https://acme.coffee">acme.coffee</a></p>\n<ul><li>one</li></ul>'
+    );
+  });
+
+  it('should toggle formatting on the selection', () => {
+    const bolded = toggleMark('Hello world', { start: 6, end: 11 }, 'bold');
+    expect(bolded).toEqual({ text: 'Hello **world**', selection: { start: 8, end: 13 } });
+    expect(activeMarks(bolded.text, bolded.selection)).toEqual(['bold']);
+    expect(toggleMark(bolded.text, bolded.selection, 'bold')).toEqual({
+      text: 'Hello world',
+      selection: { start: 6, end: 11 },
+    });
+
+    const both = toggleMark(bolded.text, bolded.selection, 'italic');
+    expect(both.text).toBe('Hello **_world_**');
+    expect(activeMarks(both.text, both.selection)).toEqual(['bold', 'italic']);
+    expect(toggleMark('a *b* c', { start: 3, end: 4 }, 'bold').text).toBe('a **_b_** c');
+
+    expect(toggleList('One\nTwo', { start: 0, end: 7 }, true).text).toBe('1. One\n2. Two');
+    expect(toggleList('- One\n- Two', { start: 2, end: 2 }, false).text).toBe('One\n- Two');
+    expect(insertLink('Read this', { start: 5, end: 9 }, 'https://acme.coffee').text).toBe(
+      'Read [this](https://acme.coffee)'
+    );
+  });
+
+  it('should undo typing a word at a time and commands as a whole', () => {
+    let history = emptyHistory;
+    let text = '';
+    const type = (next: string, now: number, coalesce = true) => {
+      history = recordChange(history, text, next, { now, coalesce });
+      text = next;
+    };
+
+    ['H', 'He', 'Hey', 'Hey ', 'Hey t', 'Hey th', 'Hey there'].forEach((next, i) => type(next, i * 100));
+    type('Hey **there**', 800, false);
+    type('Hey **there**!', 900);
+    expect(history.undo).toHaveLength(4);
+
+    const steps: string[] = [];
+    for (let step = undo(history, text); step; step = undo(step.history, step.text)) {
+      steps.push(step.text);
+      history = step.history;
+      text = step.text;
+    }
+    expect(steps).toEqual(['Hey **there**', 'Hey there', 'Hey ', '']);
+
+    const redone = redo(history, text)!;
+    expect(redone).toMatchObject({ text: 'Hey ', selection: { start: 4, end: 4 } });
+
+    history = emptyHistory;
+    text = 'Hello';
+    ['Hell', 'Hel', 'He'].forEach((next, i) => type(next, i * 100));
+    type('H', 5000);
+    expect(history.undo.map(({ removed }) => removed)).toEqual(['llo', 'e']);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit Tests for Schedule Conflict Detection
+ *
+ * Covers posting limits per platform, collisions on the same account,
+ * workspace spacing and slots in the past.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findScheduleConflicts, hasBlockingConflict, type ScheduledPost } from '../../../utils/scheduleConflicts';
+
+const now = new Date('2024-05-01T00:00:00Z');
+
+const post = (contentId: string, platform: string, time: string, title = `Post ${contentId}`): ScheduledPost => ({
+  contentId,
+  title,
+  platform,
+  scheduledAt: new Date(`2024-05-01T${time}:00Z`),
+});
+
+const types = (conflicts: ReturnType<typeof findScheduleConflicts>) => conflicts.map(({ type }) => type);
+
+describe('Schedule Conflicts', () => {
+  it('should accept a slot with nothing nearby', () => {
+    const conflicts = findScheduleConflicts([post('a', 'twitter', '09:00')], [post('b', 'twitter', '12:00')], { now });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should warn about collisions on the same account only', () => {
+    const conflicts = findScheduleConflicts(
+      [post('a', 'twitter', '09:00'), post('a', 'linkedin', '09:00')],
+      [post('b', 'twitter', '09:10'), post('c', 'instagram', '09:05')],
+      { now, minSpacingMinutes: 0 }
+    );
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'collision', severity: 'warning', platform: 'twitter' });
+    expect(conflicts[0].post?.contentId).toBe('b');
+  });
+
+  it('should report spacing once per nearby content and not repeat collisions', () => {
+    const conflicts = findScheduleConflicts(
+      [post('a', 'twitter', '09:00'), post('a', 'linkedin', '09:00')],
+      [post('b', 'twitter', '09:10'), post('c', 'instagram', '09:30'), post('c', 'facebook', '09:30')],
+      { now, minSpacingMinutes: 60 }
+    );
+
+    expect(types(conflicts)).toEqual(['collision', 'spacing']);
+    expect(conflicts[1].message).toContain('30 min away');
+    expect(hasBlockingConflict(conflicts)).toBe(false);
+  });
+
+  it('should block slots that exceed a platform limit in any rolling window', () => {
+    const existing = ['08:10', '08:20', '08:30'].map((time, index) => post(`e${index}`, 'tiktok', time));
+    const limits = { tiktok: { perHour: 3 } };
+
+    const blocked = findScheduleConflicts([post('a', 'tiktok', '09:00')], existing, { now, limits, minSpacingMinutes: 0 });
+    expect(types(blocked)).toEqual(['rate_limit']);
+    expect(blocked[0].message).toBe('TikTok allows 3 posts per hour; this slot would make 4');
+    expect(hasBlockingConflict(blocked)).toBe(true);
+
+    // 09:15 is more than an hour after 08:10, so the busiest window holds three posts
+    expect(findScheduleConflicts([post('a', 'tiktok', '09:15')], existing, { now, limits, minSpacingMinutes: 0 })).toEqual([]);
+  });
+
+  it('should ignore the old slot of the content being moved', () => {
+    const conflicts = findScheduleConflicts([post('a', 'twitter', '09:00')], [post('a', 'twitter', '09:05')], { now });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should block slots in the past', () => {
+    const conflicts = findScheduleConflicts([post('a', 'twitter', '09:00')], [], { now: new Date('2024-05-01T10:00:00Z') });
+    expect(types(conflicts)).toEqual(['past']);
+  });
+});
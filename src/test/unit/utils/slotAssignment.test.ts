@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Bulk Slot Assignment
+ *
+ * Covers priority ordering into the best slots, spacing per platform,
+ * existing calendar posts, blackout dates and explanations for items that
+ * could not be placed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { assignSlots, type SlotItem, type SlotRule } from '../../../utils/slotAssignment';
+
+// A Monday, so day offsets map straight onto weekdays
+const start = new Date(2024, 4, 6, 8, 0);
+
+const rule = (overrides: Partial<SlotRule> = {}): SlotRule => ({
+  id: 'weekday',
+  name: 'Weekday mornings',
+  enabled: true,
+  platforms: ['linkedin'],
+  timeSlots: ['09:00', '12:00'],
+  daysOfWeek: [1, 2, 3, 4, 5],
+  spacing: 2,
+  priority: 'medium',
+  ...overrides,
+});
+
+const item = (id: string, priority: SlotItem['priority'] = 'medium', platforms = ['linkedin']): SlotItem => ({
+  id,
+  title: `Post ${id}`,
+  platforms,
+  priority,
+});
+
+const times = (result: ReturnType<typeof assignSlots>) =>
+  Object.fromEntries(result.assignments.map(({ itemId, scheduledAt }) => [itemId, format(scheduledAt, 'EEE HH:mm')]));
+
+describe('Slot Assignment', () => {
+  it('should fill the earliest slots in priority order when there is no performance data', () => {
+    const result = assignSlots([item('low', 'low'), item('urgent', 'urgent'), item('medium')], [rule()], { start });
+
+    expect(times(result)).toEqual({ urgent: 'Mon 09:00', medium: 'Mon 12:00', low: 'Tue 09:00' });
+    expect(result.unplaced).toEqual([]);
+  });
+
+  it('should give higher-priority items the best-performing slots', () => {
+    const postingTimes = [
+      { dayOfWeek: 3, hour: 12, avgEngagementRate: 6.1, contentCount: 20, platform: 'linkedin' },
+      { dayOfWeek: 2, hour: 9, avgEngagementRate: 4.2, contentCount: 20, platform: 'linkedin' },
+    ];
+    const result = assignSlots([item('medium'), item('high', 'high')], [rule()], { start, postingTimes });
+
+    expect(times(result)).toEqual({ high: 'Wed 12:00', medium: 'Tue 09:00' });
+    expect(result.assignments[0].engagementRate).toBe(6.1);
+  });
+
+  it('should keep spacing per platform and around existing content', () => {
+    const existing = [{ contentId: 'old', title: 'Old', platform: 'linkedin', scheduledAt: new Date(2024, 4, 6, 9, 0) }];
+    const result = assignSlots(
+      [item('a'), item('b'), item('tw', 'medium', ['twitter'])],
+      [rule({ spacing: 4 }), rule({ id: 'twitter', platforms: ['twitter'], timeSlots: ['09:00'] })],
+      { start, existing }
+    );
+
+    // 12:00 is only three hours after the existing 09:00 post, but Twitter is unaffected
+    expect(times(result)).toEqual({ a: 'Tue 09:00', b: 'Wed 09:00', tw: 'Mon 09:00' });
+  });
+
+  it('should skip blackout dates and disabled rules', () => {
+    const result = assignSlots(
+      [item('a')],
+      [rule({ id: 'off', enabled: false, timeSlots: ['08:30'] }), rule()],
+      { start, blackoutDates: ['2024-05-06', '2024-05-07'] }
+    );
+
+    expect(times(result)).toEqual({ a: 'Wed 09:00' });
+    expect(result.assignments[0].ruleId).toBe('weekday');
+  });
+
+  it('should explain why items could not be placed', () => {
+    const result = assignSlots(
+      [item('a'), item('b'), item('yt', 'medium', ['youtube'])],
+      [rule({ timeSlots: ['09:00'], daysOfWeek: [1], spacing: 24 })],
+      { start, horizonDays: 7 }
+    );
+
+    expect(times(result)).toEqual({ a: 'Mon 09:00' });
+    expect(result.unplaced).toEqual([
+      {
+        itemId: 'b',
+        reason: 'spacing',
+        message: 'All 1 matching slots in the next 7 days are too close to other posts on LinkedIn',
+      },
+      { itemId: 'yt', reason: 'no_matching_rule', message: 'No enabled rule covers YouTube' },
+    ]);
+
+    const blocked = assignSlots([item('a')], [rule({ daysOfWeek: [0] })], { start, horizonDays: 6 });
+    expect(blocked.unplaced[0].reason).toBe('no_open_slots');
+  });
+
+  it('should be deterministic for the same input', () => {
+    const items = [item('a', 'high'), item('b', 'high'), item('c', 'low')];
+    const first = assignSlots(items, [rule()], { start });
+    const second = assignSlots([...items], [rule()], { start });
+
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for Text Metrics
+ *
+ * Covers grapheme counting, URL detection, X weighted length, measuring
+ * against limits, truncation and the validator's character limit check.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countCharacters,
+  findUrls,
+  measureText,
+  segmentGraphemes,
+  truncateToLimit,
+} from '../../../utils/textMetrics';
+import { applyAutoFixes, validateContent } from '../../../utils/contentValidation';
+
+const family = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}';
+const flag = '\u{1F1EF}\u{1F1F5}';
+const decomposed = 'e\u0301';
+
+describe('Text Metrics', () => {
+  it('should count user-perceived characters', () => {
+    expect(segmentGraphemes(`${family}${flag}${decomposed}!`)).toEqual([family, flag, decomposed, '!']);
+    expect(countCharacters(`${family}${flag}${decomposed}`, 'linkedin')).toBe(3);
+    expect(countCharacters(`${family}${flag}${decomposed}`)).toBe(3);
+  });
+
+  it('should find links with a scheme or a known domain', () => {
+    const text = 'Visit example.com, or https://acme.coffee/shop (today). Not file.txt, e.g. or ana@example.com';
+    const urls = findUrls(text).map(({ start, end }) => text.slice(start, end));
+
+    expect(urls).toEqual(['example.com', 'https://acme.coffee/shop']);
+    expect(findUrls('Menu at acme.co.uk/menu.')).toEqual([{ start: 8, end: 23 }]);
+  });
+
+  it('should weigh text the way X does', () => {
+    expect(countCharacters('hello', 'twitter')).toBe(5);
+    expect(countCharacters('café', 'twitter')).toBe(4);
+    expect(countCharacters(decomposed, 'twitter')).toBe(1);
+    expect(countCharacters('日本語', 'twitter')).toBe(6);
+    expect(countCharacters(`👍${family}${flag}`, 'twitter')).toBe(6);
+    expect(countCharacters(`Read https://example.com/${'a'.repeat(100)}`, 'twitter')).toBe(28);
+    expect(countCharacters('see example.com.', 'twitter')).toBe(28);
+  });
+
+  it('should measure against the platform limit', () => {
+    expect(measureText('x'.repeat(300), 'twitter')).toEqual({
+      count: 300,
+      limit: 280,
+      remaining: -20,
+      isOver: true,
+      overflowAt: 280,
+    });
+    expect(measureText('日'.repeat(140), 'twitter').isOver).toBe(false);
+    expect(measureText('日'.repeat(141), 'twitter').overflowAt).toBe(140);
+    expect(measureText('日'.repeat(141), 'instagram')).toMatchObject({ count: 141, limit: 2200, isOver: false });
+  });
+
+  it('should truncate between characters and within the limit', () => {
+    const truncated = truncateToLimit('日'.repeat(150), 'twitter');
+
+    expect(truncated).toBe(`${'日'.repeat(139)}…`);
+    expect(countCharacters(truncated, 'twitter')).toBe(280);
+    expect(truncateToLimit(`a${family.repeat(3)}`, 'linkedin', 3)).toBe(`a${family}…`);
+    expect(truncateToLimit('short', 'twitter')).toBe('short');
+  });
+
+  it('should check the character limit the way the platform counts', () => {
+    const twitter = [{ platform: 'twitter' as const }];
+    const longLink = `Read more: https://example.com/${'a'.repeat(300)}`;
+
+    expect(validateContent(longLink, twitter).errors.map(({ code }) => code)).not.toContain('CONTENT_TOO_LONG');
+
+    const content = 'x'.repeat(300);
+    const tooLong = validateContent(content, twitter).errors.find(({ code }) => code === 'CONTENT_TOO_LONG');
+    expect(tooLong).toMatchObject({
+      message: 'Content exceeds twitter character limit by 20 characters',
+      locations: [{ start: 280, end: 300 }],
+    });
+    expect(applyAutoFixes(content, [tooLong!])).toBe(`${'x'.repeat(278)}…`);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for Thread Splitting
+ *
+ * Covers splitting on paragraph, sentence and word boundaries within the
+ * weighted limit, "1/n" numbering and the checks run before publishing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { numberThread, splitIntoThread, stripThreadNumbering, threadProblems } from '../../../utils/threadSplitting';
+import { countCharacters } from '../../../utils/textMetrics';
+
+const sentence = (word: string, words: number) => `${Array(words).fill(word).join(' ')}.`;
+
+describe('Thread Splitting', () => {
+  it('should keep text that fits as a single post', () => {
+    expect(splitIntoThread('Short and sweet.', 'twitter', { numbering: true })).toEqual(['Short and sweet.']);
+  });
+
+  it('should break between paragraphs, then sentences', () => {
+    const first = sentence('alpha', 20); // 120 characters
+    const second = sentence('bravo', 20);
+    const third = sentence('charlie', 20); // 160 characters
+
+    expect(splitIntoThread(`${first}\n\n${second}\n\n${third}`, 'twitter')).toEqual([`${first}\n\n${second}`, third]);
+    expect(splitIntoThread(`${first} ${third} ${second}`, 'twitter')).toEqual([first, third, second]);
+  });
+
+  it('should break long sentences between words and count the platform weighting', () => {
+    const posts = splitIntoThread(Array(100).fill('日本語').join(' '), 'twitter');
+
+    expect(posts).toHaveLength(3);
+    posts.forEach((post) => {
+      expect(countCharacters(post, 'twitter')).toBeLessThanOrEqual(280);
+      expect(post).toMatch(/^日本語( 日本語)*$/);
+    });
+    expect(splitIntoThread('x'.repeat(600), 'twitter').map((post) => post.length)).toEqual([280, 280, 40]);
+  });
+
+  it('should number posts within the limit', () => {
+    const text = Array.from({ length: 24 }, (_, index) => sentence(`w${index}`, 45)).join(' ');
+    const posts = splitIntoThread(text, 'twitter', { numbering: true });
+
+    expect(posts).toHaveLength(19);
+    posts.forEach((post, index) => {
+      expect(post.endsWith(` ${index + 1}/${posts.length}`)).toBe(true);
+      expect(countCharacters(post, 'twitter')).toBeLessThanOrEqual(280);
+    });
+    expect(posts.map(stripThreadNumbering).join(' ')).toBe(text);
+    expect(numberThread(['One 1/3', 'Two 2/3'])).toEqual(['One 1/2', 'Two 2/2']);
+  });
+
+  it('should report posts that would not publish', () => {
+    const posts = [
+      { body: 'Fine', media: [] },
+      { body: '', media: [] },
+      { body: 'x'.repeat(281), media: ['1', '2', '3', '4', '5'] },
+    ];
+
+    expect(threadProblems(posts, 'twitter')).toEqual([
+      'Post 2 is empty',
+      'Post 3 is 1 character over the limit',
+      'Post 3 has 5 attachments; at most 4 are allowed',
+    ]);
+  });
+});
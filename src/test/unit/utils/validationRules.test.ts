@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Validation Rules
+ *
+ * Covers compiling organization rule definitions, scoping, fixes, sample
+ * testing, live versions and the rules ContentValidator runs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileContentRule,
+  contentRuleProblems,
+  contentRulePublishBlockers,
+  emptyContentRuleDefinition,
+  liveContentRules,
+  runValidationRules,
+  testContentRule,
+} from '../../../utils/validationRules';
+import { applyAutoFixes, validateContent } from '../../../utils/contentValidation';
+import type { ContentRule, ContentRuleDefinition } from '../../../store/api/organizationApi';
+
+const definition = (overrides: Partial<ContentRuleDefinition>): ContentRuleDefinition => ({
+  ...emptyContentRuleDefinition(),
+  name: 'Test rule',
+  ...overrides,
+});
+
+const run = (rule: ContentRuleDefinition, content: string, platforms = ['linkedin'], pillar?: string) =>
+  runValidationRules([compileContentRule('rule_1', rule)], { content, platforms, pillar });
+
+describe('Validation Rules', () => {
+  it('should locate listed words and offer their replacements', () => {
+    const words = definition({ kind: 'word_list', words: ['Clinically proven → shown in studies', 'miracle'] });
+    const errors = run(words, 'A miracle blend, clinically proven.');
+
+    expect(errors.map(({ message }) => message)).toEqual([
+      '"clinically proven" is not allowed; use "shown in studies" instead',
+      '"miracle" is not allowed',
+    ]);
+    expect(errors[0]).toMatchObject({ code: 'CUSTOM_WORD_LIST', ruleId: 'rule_1', locations: [{ start: 17, end: 34 }] });
+    expect(errors[0].autoFix?.preview).toBe('A miracle blend, shown in studies.');
+    expect(applyAutoFixes('A miracle blend, clinically proven.', errors)).toBe('A blend, shown in studies.');
+  });
+
+  it('should only check content in the rule scope', () => {
+    const scoped = definition({ kind: 'word_list', words: ['giveaway'], platforms: ['instagram'], pillars: ['Community'] });
+    const content = 'Our giveaway starts today';
+
+    expect(run(scoped, content, ['linkedin'], 'Community')).toEqual([]);
+    expect(run(scoped, content, ['instagram'], 'Product')).toEqual([]);
+    expect(run(scoped, content, ['instagram'])).toEqual([]);
+    expect(run(scoped, content, ['linkedin', 'instagram'], 'community')[0].platform).toBe('instagram');
+  });
+
+  it('should rewrite regex matches with the replacement', () => {
+    const phones = definition({ kind: 'regex', pattern: '(\\d{3})-\\d{3}-\\d{4}', replacement: '$1-XXX-XXXX' });
+    const [error] = run(phones, 'Call 555-123-4567 or 555-987-6543');
+
+    expect(error.message).toBe('Test rule: "555-123-4567" and 1 more');
+    expect(error.locations).toHaveLength(2);
+    expect(error.autoFix?.preview).toBe('Call 555-XXX-XXXX or 555-XXX-XXXX');
+
+    expect(contentRuleProblems(definition({ kind: 'regex', pattern: '(unclosed' }))[0]).toMatch(
+      /^The pattern is not a valid regular expression/
+    );
+    expect(run(definition({ kind: 'regex', pattern: '(unclosed' }), 'anything')).toEqual([]);
+  });
+
+  it('should add a required phrase, or move it to where it belongs', () => {
+    const disclosure = definition({ kind: 'required_phrase', phrase: '#ad', placement: 'end' });
+
+    expect(run(disclosure, 'Try our new blend').map(({ autoFix }) => autoFix?.preview)).toEqual(['Try our new blend\n\n#ad']);
+    expect(run(disclosure, '#ad Try our new blend').map(({ message, autoFix }) => [message, autoFix?.preview])).toEqual([
+      ['"#ad" must come at the end of the post', 'Try our new blend\n\n#ad'],
+    ]);
+    expect(run(disclosure, 'Try our new blend #ad  ')).toEqual([]);
+  });
+
+  it('should only publish definitions whose samples give the expected result', () => {
+    const rule = definition({
+      kind: 'length',
+      maxLength: 20,
+      samples: [
+        { text: 'Short and sweet', expectViolation: false },
+        { text: 'Far too long for this rule', expectViolation: false },
+      ],
+    });
+
+    expect(testContentRule(rule).map(({ passed }) => passed)).toEqual([true, false]);
+    expect(contentRulePublishBlockers(rule)).toEqual(['1 sample post does not give the expected result']);
+    expect(contentRulePublishBlockers({ ...rule, samples: [] })).toEqual([
+      'Add at least one sample post to test the rule against',
+    ]);
+    expect(contentRulePublishBlockers({ ...rule, samples: [{ ...rule.samples[1], expectViolation: true }] })).toEqual([]);
+  });
+
+  it('should enforce the live version of enabled rules shared with the workspace', () => {
+    const version = (number: number, words: string[], published: boolean) => ({
+      version: number,
+      definition: definition({ kind: 'word_list', words, workspaceIds: ['ws_1'] }),
+      createdBy: 'user_1',
+      createdAt: '2024-05-01T00:00:00.000Z',
+      publishedAt: published ? '2024-05-01T00:00:00.000Z' : undefined,
+    });
+    const rule: ContentRule = {
+      id: 'rule_1',
+      organizationId: 'org_1',
+      name: 'Test rule',
+      versions: [version(1, ['cheap'], true), version(2, ['budget'], false)],
+      liveVersion: 1,
+      enabled: true,
+      createdAt: '2024-05-01T00:00:00.000Z',
+      updatedAt: '2024-05-01T00:00:00.000Z',
+    };
+    const codes = (rules: ContentRule[], workspaceId: string) =>
+      runValidationRules(liveContentRules(rules, workspaceId), { content: 'Cheap, budget coffee', platforms: [] }).map(
+        ({ message }) => message
+      );
+
+    expect(codes([rule], 'ws_1')).toEqual(['"Cheap" is not allowed']);
+    expect(codes([rule], 'ws_2')).toEqual([]);
+    expect(codes([{ ...rule, enabled: false }], 'ws_1')).toEqual([]);
+    expect(codes([{ ...rule, liveVersion: undefined }], 'ws_1')).toEqual([]);
+  });
+
+  it('should run compliance, customRules and extra rules in ContentValidator', () => {
+    const platforms = [{ platform: 'linkedin' as const }];
+    const content = 'Big sale this week, cheap beans! #coffee #beans #latte';
+    const { errors } = validateContent(content, platforms, [], {
+      customRules: { forbiddenWords: ['cheap'], maxHashtags: 2 },
+      rules: [compileContentRule('rule_1', definition({ kind: 'word_list', words: ['week'] }))],
+    });
+
+    expect(errors.map(({ code }) => code).sort()).toEqual([
+      'COMPLIANCE_FTC_DISCLOSURE',
+      'CUSTOM_HASHTAG_LIMIT',
+      'CUSTOM_WORD_LIST',
+      'CUSTOM_WORD_LIST',
+    ]);
+    expect(applyAutoFixes(content, errors)).toBe('Big sale this, beans! #coffee #beans\n\n#ad');
+  });
+});
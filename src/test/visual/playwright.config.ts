@@ -84,6 +84,8 @@ export default defineConfig({
     url: 'http://localhost:5173',
     reuseExistingServer: !process.env.CI,
     timeout: 120000,
+    // Serve the API from the in-browser mock backend unless explicitly disabled
+    env: { VITE_MOCK_API: process.env.VITE_MOCK_API ?? 'true' },
   },
 
   /* Visual comparison settings */
@@ -1,4 +1,6 @@
 // Content Creation Types
+import type { ThreadPost } from '../store/api/contentApi';
+
 export interface ContentPlatform {
   platform: 'linkedin' | 'twitter' | 'instagram' | 'facebook' | 'tiktok' | 'youtube';
   status?: 'draft' | 'scheduled' | 'published' | 'failed';
@@ -20,6 +22,7 @@ export interface ContentPlatform {
     storyMode?: boolean;
     customSettings?: Record<string, any>;
   };
+  thread?: ThreadPost<MediaFile>[]; // the posts, in order, when threadMode is on
   scheduledAt?: string;
 }
 
@@ -0,0 +1,43 @@
+// Recurring Scheduling Types
+export interface RecurrenceRule {
+  id: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  frequency: 'daily' | 'weekly' | 'monthly' | 'custom';
+  interval: number; // Every X days/weeks/months
+  daysOfWeek?: number[]; // 0-6 (Sunday-Saturday)
+  daysOfMonth?: number[]; // 1-31, or -1 for the last day
+  times: string[]; // ["09:00", "17:00"] in scheduling.timezone
+  rrule?: string; // iCalendar RRULE for 'custom' rules, e.g. "FREQ=MONTHLY;BYDAY=-1FR"
+  exceptions?: Date[]; // EXDATE: occurrences cancelled one by one
+  platforms: string[];
+  contentTemplate?: {
+    title: string;
+    content: string;
+    tags: string[];
+    media?: { type: string; url: string }[];
+  };
+  scheduling: {
+    startDate: Date;
+    endDate?: Date;
+    maxPosts?: number;
+    timezone: string; // IANA zone, e.g. "Europe/Berlin"
+  };
+  optimization: {
+    adaptTiming: boolean;
+    skipWeekends: boolean;
+    skipHolidays: boolean;
+    holidayCalendar?: string; // defaults to the US federal calendar
+    respectRateLimit: boolean;
+    optimalSpacing: number; // minimum hours between posts
+  };
+  analytics: {
+    totalScheduled: number;
+    published: number;
+    failed: number;
+    averageEngagement: number;
+    lastRun?: Date;
+    nextRun?: Date;
+  };
+}
@@ -0,0 +1,447 @@
+/**
+ * Approval conditions
+ *
+ * The small language approval steps use for `skipIf` and `requireIf`, in
+ * place of JavaScript. It reads like a sentence:
+ *
+ *   priority in ["high", "urgent"] and platforms contains "linkedin"
+ *   not hasMedia or estimatedReach >= 10000
+ *
+ * Conditions are parsed and type-checked against a fixed set of content
+ * fields, then evaluated against facts about one piece of content; nothing
+ * in a condition can reach code or data beyond those facts. String
+ * comparisons ignore case. `&&`, `||`, `!` and `===` are accepted for
+ * conditions written before the language existed.
+ *
+ * The visual builder edits a flat list of clauses joined by "and" or "or";
+ * `toConditionGroup` returns null for anything it can't show that way.
+ */
+
+import type { ApprovalRequest, ApprovalStep } from '../store/api/approvalApi';
+import type { Content } from '../store/api/contentApi';
+import { validateContent } from './contentValidation';
+
+export type ConditionType = 'string' | 'number' | 'boolean' | 'list';
+
+export type ConditionValue = string | number | boolean | (string | number)[];
+
+export interface ConditionFieldSpec {
+  label: string;
+  type: ConditionType;
+  options?: string[]; // the values the builder offers
+}
+
+export interface ConditionFacts {
+  platforms: string[];
+  type: string;
+  priority: string;
+  tags: string[];
+  hasMedia: boolean;
+  estimatedReach: number;
+  riskScore: number; // 0–100
+}
+
+export type ConditionField = keyof ConditionFacts;
+
+export const CONDITION_FIELDS: Record<ConditionField, ConditionFieldSpec> = {
+  platforms: {
+    label: 'Platforms',
+    type: 'list',
+    options: ['linkedin', 'twitter', 'facebook', 'instagram', 'youtube', 'tiktok'],
+  },
+  type: { label: 'Content type', type: 'string', options: ['post', 'story', 'reel', 'video', 'carousel', 'thread'] },
+  priority: { label: 'Priority', type: 'string', options: ['low', 'medium', 'high', 'urgent'] },
+  tags: { label: 'Tags', type: 'list' },
+  hasMedia: { label: 'Has media', type: 'boolean' },
+  estimatedReach: { label: 'Estimated reach', type: 'number' },
+  riskScore: { label: 'Risk score', type: 'number' },
+};
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'contains';
+
+export type ConditionNode =
+  | { kind: 'literal'; value: ConditionValue }
+  | { kind: 'field'; name: ConditionField }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'compare'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+export const MAX_CONDITION_LENGTH = 1000;
+
+// Parsing
+
+interface Token {
+  type: 'number' | 'string' | 'symbol' | 'word' | 'end';
+  text: string;
+  value?: string | number;
+  position: number;
+}
+
+const TOKEN =
+  /\s*(?:(?<number>\d+(?:\.\d+)?)|(?<string>"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(?<symbol>===|!==|==|!=|<=|>=|&&|\|\||[<>!()[\],])|(?<word>[A-Za-z_]\w*))/y;
+
+// Older JavaScript-style spellings
+const SYMBOL_ALIASES: Record<string, string> = { '===': '==', '!==': '!=', '&&': 'and', '||': 'or', '!': 'not' };
+
+const COMPARISONS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>=', 'in', 'contains'];
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'contains', 'true', 'false'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    const position = TOKEN.lastIndex;
+    if (!source.slice(position).trim()) break;
+
+    const match = TOKEN.exec(source);
+    if (!match) {
+      const rest = source.slice(position);
+      const offset = position + rest.length - rest.trimStart().length;
+      throw new Error(`Unexpected "${source[offset]}" at position ${offset + 1}`);
+    }
+
+    const { number, string, symbol, word } = match.groups!;
+    const start = position + match[0].length - (number ?? string ?? symbol ?? word).length + 1;
+    if (number !== undefined) tokens.push({ type: 'number', text: number, value: Number(number), position: start });
+    else if (string !== undefined) {
+      tokens.push({ type: 'string', text: string, value: string.slice(1, -1).replace(/\\(.)/g, '$1'), position: start });
+    } else if (symbol !== undefined) {
+      const alias = SYMBOL_ALIASES[symbol] ?? symbol;
+      tokens.push({ type: /^\w/.test(alias) ? 'word' : 'symbol', text: alias, position: start });
+    } else {
+      const keyword = word.toLowerCase();
+      tokens.push({ type: 'word', text: KEYWORDS.includes(keyword) ? keyword : word, position: start });
+    }
+  }
+  tokens.push({ type: 'end', text: 'end of condition', position: source.length + 1 });
+  return tokens;
+};
+
+const isField = (name: string): name is ConditionField => Object.prototype.hasOwnProperty.call(CONDITION_FIELDS, name);
+
+const quoted = (token: Token) => (token.type === 'end' ? token.text : `"${token.text}"`);
+
+// Recursive descent: or → and → not → comparison → operand
+const parseTokens = (tokens: Token[]): ConditionNode => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const accept = (text: string) => (peek().type !== 'string' && peek().text === text ? next() : undefined);
+  const expect = (text: string) => {
+    if (!accept(text)) throw new Error(`Expected "${text}" but found ${quoted(peek())} at position ${peek().position}`);
+  };
+
+  const literal = (): string | number => {
+    const token = next();
+    if (token.type === 'string' || token.type === 'number') return token.value!;
+    throw new Error(`Expected a text or number value but found ${quoted(token)} at position ${token.position}`);
+  };
+
+  const operand = (): ConditionNode => {
+    const token = peek();
+    if (accept('(')) {
+      const inner = or();
+      expect(')');
+      return inner;
+    }
+    if (accept('[')) {
+      const items: (string | number)[] = [];
+      if (!accept(']')) {
+        do items.push(literal());
+        while (accept(','));
+        expect(']');
+      }
+      return { kind: 'literal', value: items };
+    }
+    if (token.type === 'string' || token.type === 'number') return { kind: 'literal', value: next().value! };
+    if (accept('true')) return { kind: 'literal', value: true };
+    if (accept('false')) return { kind: 'literal', value: false };
+    if (token.type === 'word' && !KEYWORDS.includes(token.text)) {
+      next();
+      if (!isField(token.text)) {
+        throw new Error(
+          `Unknown field "${token.text}" at position ${token.position}; use ${Object.keys(CONDITION_FIELDS).join(', ')}`
+        );
+      }
+      return { kind: 'field', name: token.text };
+    }
+    throw new Error(`Expected a field or value but found ${quoted(token)} at position ${token.position}`);
+  };
+
+  const comparison = (): ConditionNode => {
+    const left = operand();
+    const operator = COMPARISONS.find((candidate) => peek().type !== 'string' && peek().text === candidate);
+    if (!operator) return left;
+    next();
+    return { kind: 'compare', operator, left, right: operand() };
+  };
+
+  const not = (): ConditionNode => (accept('not') ? { kind: 'not', operand: not() } : comparison());
+
+  const and = (): ConditionNode => {
+    let left = not();
+    while (accept('and')) left = { kind: 'logical', operator: 'and', left, right: not() };
+    return left;
+  };
+
+  const or = (): ConditionNode => {
+    let left = and();
+    while (accept('or')) left = { kind: 'logical', operator: 'or', left, right: and() };
+    return left;
+  };
+
+  const node = or();
+  if (peek().type !== 'end') throw new Error(`Unexpected ${quoted(peek())} at position ${peek().position}`);
+  return node;
+};
+
+const typeOf = (node: ConditionNode): ConditionType => {
+  switch (node.kind) {
+    case 'literal':
+      return Array.isArray(node.value) ? 'list' : (typeof node.value as ConditionType);
+    case 'field':
+      return CONDITION_FIELDS[node.name].type;
+    case 'not':
+      if (typeOf(node.operand) !== 'boolean') throw new Error('"not" needs a yes/no condition after it');
+      return 'boolean';
+    case 'logical':
+      if (typeOf(node.left) !== 'boolean' || typeOf(node.right) !== 'boolean') {
+        throw new Error(`"${node.operator}" needs yes/no conditions on both sides`);
+      }
+      return 'boolean';
+    case 'compare': {
+      const left = typeOf(node.left);
+      const right = typeOf(node.right);
+      const valid =
+        node.operator === 'in'
+          ? left !== 'list' && left !== 'boolean' && right === 'list'
+          : node.operator === 'contains'
+          ? left === 'list' && (right === 'string' || right === 'number')
+          : node.operator === '==' || node.operator === '!='
+          ? left === right && left !== 'list'
+          : left === 'number' && right === 'number';
+      if (!valid) throw new Error(`Can't compare ${left} with ${right} using "${node.operator}"`);
+      return 'boolean';
+    }
+  }
+};
+
+// Throws with a message for the person who wrote the condition
+export const parseCondition = (source: string): ConditionNode => {
+  if (source.length > MAX_CONDITION_LENGTH) {
+    throw new Error(`Conditions can be at most ${MAX_CONDITION_LENGTH} characters`);
+  }
+  const node = parseTokens(tokenize(source));
+  if (typeOf(node) !== 'boolean') throw new Error('The condition has to be yes or no, such as hasMedia or riskScore > 50');
+  return node;
+};
+
+// The problem with a condition, or null when it's valid
+export const conditionError = (source: string): string | null => {
+  try {
+    parseCondition(source);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+// Evaluation
+
+const normalize = (value: string | number) => (typeof value === 'string' ? value.toLowerCase() : value);
+
+const valueOf = (node: ConditionNode, facts: ConditionFacts): ConditionValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return facts[node.name];
+    case 'not':
+      return !valueOf(node.operand, facts);
+    case 'logical':
+      return node.operator === 'and'
+        ? Boolean(valueOf(node.left, facts)) && Boolean(valueOf(node.right, facts))
+        : Boolean(valueOf(node.left, facts)) || Boolean(valueOf(node.right, facts));
+    case 'compare': {
+      const left = valueOf(node.left, facts);
+      const right = valueOf(node.right, facts);
+      switch (node.operator) {
+        case 'in':
+          return (right as (string | number)[]).map(normalize).includes(normalize(left as string | number));
+        case 'contains':
+          return (left as (string | number)[]).map(normalize).includes(normalize(right as string | number));
+        case '==':
+          return normalize(left as string | number) === normalize(right as string | number);
+        case '!=':
+          return normalize(left as string | number) !== normalize(right as string | number);
+        case '<':
+          return (left as number) < (right as number);
+        case '<=':
+          return (left as number) <= (right as number);
+        case '>':
+          return (left as number) > (right as number);
+        case '>=':
+          return (left as number) >= (right as number);
+      }
+    }
+  }
+};
+
+export const evaluateCondition = (condition: string | ConditionNode, facts: ConditionFacts): boolean =>
+  Boolean(valueOf(typeof condition === 'string' ? parseCondition(condition) : condition, facts));
+
+// Facts
+
+// How much review the copy needs, 0–100: the inverse of its validation score
+export const contentRiskScore = (content: Pick<Content, 'body' | 'platforms'>) =>
+  100 - validateContent(content.body, content.platforms.map(({ platform }) => ({ platform }))).score;
+
+export const requestFacts = ({ content, priority, tags }: Pick<ApprovalRequest, 'content' | 'priority' | 'tags'>): ConditionFacts => ({
+  platforms: content.platforms,
+  type: content.type,
+  priority,
+  tags: tags ?? [],
+  hasMedia: Boolean(content.mediaFiles?.length),
+  estimatedReach: content.estimatedReach ?? 0,
+  riskScore: content.riskScore ?? 0,
+});
+
+export const contentFacts = (
+  content: Content,
+  { estimatedReach = 0, riskScore = contentRiskScore(content) }: { estimatedReach?: number; riskScore?: number } = {}
+): ConditionFacts => ({
+  platforms: content.platforms.map(({ platform }) => platform),
+  type: content.type,
+  priority: content.priority,
+  tags: content.tags,
+  hasMedia: content.media.length > 0,
+  estimatedReach,
+  riskScore,
+});
+
+// Routing
+
+export interface StepRoute {
+  step: ApprovalStep;
+  included: boolean;
+  reason: string;
+}
+
+// requireIf wins over skipIf; a condition that doesn't parse never skips a step
+export const routeSteps = (steps: ApprovalStep[], facts: ConditionFacts): StepRoute[] =>
+  [...steps]
+    .sort((a, b) => a.order - b.order)
+    .map((step) => {
+      const { skipIf, requireIf } = step.conditions ?? {};
+      try {
+        if (requireIf?.trim()) {
+          return evaluateCondition(requireIf, facts)
+            ? { step, included: true, reason: `Required: ${requireIf}` }
+            : { step, included: false, reason: `Not required: ${requireIf} is false` };
+        }
+        if (skipIf?.trim() && evaluateCondition(skipIf, facts)) {
+          return { step, included: false, reason: `Skipped: ${skipIf}` };
+        }
+        return { step, included: true, reason: skipIf?.trim() ? `Runs: ${skipIf} is false` : 'Always runs' };
+      } catch (err) {
+        return { step, included: true, reason: `Runs because its condition is invalid: ${(err as Error).message}` };
+      }
+    });
+
+// Builder
+
+export type ClauseOperator = ComparisonOperator | 'excludes' | 'is';
+
+export interface ConditionClause {
+  field: ConditionField;
+  operator: ClauseOperator;
+  value: ConditionValue;
+}
+
+export interface ConditionGroup {
+  match: 'all' | 'any';
+  clauses: ConditionClause[];
+}
+
+export const CLAUSE_OPERATORS: Record<ConditionType, { operator: ClauseOperator; label: string }[]> = {
+  list: [
+    { operator: 'contains', label: 'include' },
+    { operator: 'excludes', label: "don't include" },
+  ],
+  string: [
+    { operator: '==', label: 'is' },
+    { operator: '!=', label: 'is not' },
+    { operator: 'in', label: 'is one of' },
+  ],
+  number: [
+    { operator: '>=', label: 'is at least' },
+    { operator: '>', label: 'is more than' },
+    { operator: '<=', label: 'is at most' },
+    { operator: '<', label: 'is less than' },
+    { operator: '==', label: 'equals' },
+  ],
+  boolean: [{ operator: 'is', label: 'is' }],
+};
+
+const formatValue = (value: ConditionValue): string =>
+  Array.isArray(value)
+    ? `[${value.map(formatValue).join(', ')}]`
+    : typeof value === 'string'
+    ? `"${value.replace(/["\\]/g, '\\$&')}"`
+    : String(value);
+
+const formatClause = ({ field, operator, value }: ConditionClause) =>
+  operator === 'is'
+    ? value
+      ? field
+      : `not ${field}`
+    : operator === 'excludes'
+    ? `not ${field} contains ${formatValue(value)}`
+    : `${field} ${operator} ${formatValue(value)}`;
+
+export const formatConditionGroup = ({ match, clauses }: ConditionGroup) =>
+  clauses.map(formatClause).join(match === 'all' ? ' and ' : ' or ');
+
+const toClause = (node: ConditionNode): ConditionClause | null => {
+  if (node.kind === 'field' && CONDITION_FIELDS[node.name].type === 'boolean') {
+    return { field: node.name, operator: 'is', value: true };
+  }
+  if (node.kind === 'not') {
+    const inner = toClause(node.operand);
+    if (inner?.operator === 'is') return { ...inner, value: !inner.value };
+    if (inner?.operator === 'contains') return { ...inner, operator: 'excludes' };
+    return null;
+  }
+  if (node.kind === 'compare' && node.left.kind === 'field' && node.right.kind === 'literal') {
+    const { type } = CONDITION_FIELDS[node.left.name];
+    if (type === 'boolean') {
+      if (node.operator !== '==' && node.operator !== '!=') return null;
+      return { field: node.left.name, operator: 'is', value: (node.operator === '==') === node.right.value };
+    }
+    if (!CLAUSE_OPERATORS[type].some(({ operator }) => operator === node.operator)) return null;
+    return { field: node.left.name, operator: node.operator, value: node.right.value };
+  }
+  return null;
+};
+
+// The builder's form of a condition, or null when it mixes "and" with "or" or uses grouping the builder can't show
+export const toConditionGroup = (source: string): ConditionGroup | null => {
+  if (!source.trim()) return { match: 'all', clauses: [] };
+  let node: ConditionNode;
+  try {
+    node = parseCondition(source);
+  } catch {
+    return null;
+  }
+
+  const match = node.kind === 'logical' && node.operator === 'or' ? 'any' : 'all';
+  const operator = match === 'all' ? 'and' : 'or';
+  const flatten = (current: ConditionNode): ConditionNode[] =>
+    current.kind === 'logical' && current.operator === operator
+      ? [...flatten(current.left), ...flatten(current.right)]
+      : [current];
+
+  const clauses = flatten(node).map(toClause);
+  return clauses.every(Boolean) ? { match, clauses: clauses as ConditionClause[] } : null;
+};
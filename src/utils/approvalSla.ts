@@ -0,0 +1,188 @@
+/**
+ * Approval SLAs
+ *
+ * A step with `timeoutHours` has a deadline counted from when it started.
+ * While it waits on a decision, its assignees are reminded as the elapsed
+ * share of the timeout crosses each of the workflow's reminder thresholds,
+ * and once the deadline passes the step is escalated to its
+ * `escalationUserId`. `slaActions` works out what is due; `useApprovalSla`
+ * carries it out through the approval API.
+ *
+ * The same deadlines feed the SLA figures in the approval stats: which
+ * steps are breached or at risk now, and how quickly each approver decides.
+ */
+
+import type {
+  ApprovalRequest,
+  ApprovalRequestStep,
+  ApprovalSlaBreach,
+  ApprovalStats,
+  ApprovalStep,
+  ApprovalWorkflow,
+  ApproverTurnaround,
+} from '../store/api/approvalApi';
+
+export const DEFAULT_REMINDER_THRESHOLDS = [50, 90];
+
+// Share of the timeout after which a step counts as at risk
+export const AT_RISK_PERCENT = 75;
+
+const HOUR = 60 * 60 * 1000;
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached';
+
+export interface StepSla {
+  deadline: number;
+  remainingMs: number;
+  elapsedPercent: number;
+  state: SlaState;
+}
+
+export type SlaAction =
+  | { type: 'remind'; requestId: string; stepId: string; threshold: number }
+  | { type: 'escalate'; requestId: string; stepId: string; escalateTo?: string; reason: string };
+
+export const workflowStepFor = (workflows: ApprovalWorkflow[], request: ApprovalRequest, step: ApprovalRequestStep) =>
+  workflows.find(({ id }) => id === request.workflowId)?.steps.find(({ id }) => id === step.stepId);
+
+export const stepDeadline = (step: ApprovalRequestStep, workflowStep?: ApprovalStep): number | null =>
+  workflowStep?.timeoutHours && step.startedAt ? Date.parse(step.startedAt) + workflowStep.timeoutHours * HOUR : null;
+
+// Null for steps without a timeout and for steps that aren't waiting on a decision
+export const stepSla = (step: ApprovalRequestStep, workflowStep?: ApprovalStep, now = Date.now()): StepSla | null => {
+  const deadline = stepDeadline(step, workflowStep);
+  const waiting = step.status === 'escalated' || (step.status === 'pending' && Boolean(step.startedAt));
+  if (deadline === null || !waiting) return null;
+
+  const timeoutMs = workflowStep!.timeoutHours! * HOUR;
+  const remainingMs = deadline - now;
+  const elapsedPercent = ((timeoutMs - remainingMs) / timeoutMs) * 100;
+  const state: SlaState =
+    step.status === 'escalated' || remainingMs <= 0 ? 'breached'
+    : elapsedPercent >= AT_RISK_PERCENT ? 'at_risk'
+    : 'on_track';
+  return { deadline, remainingMs, elapsedPercent, state };
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.floor(Math.abs(ms) / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days) return `${days}d ${hours}h`;
+  if (hours) return `${hours}h ${minutes}m`;
+  if (minutes) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+export const formatSla = (sla: StepSla, step: ApprovalRequestStep) => {
+  if (step.status === 'escalated') return 'Escalated';
+  return sla.remainingMs > 0 ? `${formatDuration(sla.remainingMs)} left` : `Overdue ${formatDuration(sla.remainingMs)}`;
+};
+
+// Reminders and escalations that are due; each step gets at most one reminder per sweep
+export const slaActions = (requests: ApprovalRequest[], workflows: ApprovalWorkflow[], now = Date.now()): SlaAction[] =>
+  requests
+    .filter(({ status }) => status === 'pending' || status === 'escalated')
+    .flatMap((request) => {
+      const workflow = workflows.find(({ id }) => id === request.workflowId);
+      const thresholds = workflow?.sla?.reminderThresholds ?? DEFAULT_REMINDER_THRESHOLDS;
+
+      return request.steps.flatMap((step): SlaAction[] => {
+        const workflowStep = workflowStepFor(workflows, request, step);
+        const sla = step.status === 'pending' ? stepSla(step, workflowStep, now) : null;
+        if (!sla) return [];
+
+        if (sla.state === 'breached') {
+          return [{
+            type: 'escalate',
+            requestId: request.id,
+            stepId: step.id,
+            escalateTo: workflowStep!.escalationUserId,
+            reason: `No decision within ${workflowStep!.timeoutHours}h`,
+          }];
+        }
+
+        // Only thresholds past the last reminder count, so a late start doesn't send a burst of them
+        const lastSent = Math.max(0, ...(step.remindersSent ?? []));
+        const due = thresholds.filter((threshold) => threshold > lastSent && sla.elapsedPercent >= threshold);
+        return due.length ? [{ type: 'remind', requestId: request.id, stepId: step.id, threshold: Math.max(...due) }] : [];
+      });
+    });
+
+export const slaSummary = (
+  requests: ApprovalRequest[],
+  workflows: ApprovalWorkflow[],
+  nameOf: (userId: string) => string,
+  now = Date.now()
+): ApprovalStats['sla'] => {
+  const summary: ApprovalStats['sla'] = { onTrack: 0, atRisk: 0, breached: 0, breaches: [] };
+
+  requests.forEach((request) =>
+    request.steps.forEach((step) => {
+      const workflowStep = workflowStepFor(workflows, request, step);
+      const sla = stepSla(step, workflowStep, now);
+      if (!sla) return;
+
+      if (sla.state === 'on_track') summary.onTrack += 1;
+      if (sla.state === 'at_risk') summary.atRisk += 1;
+      if (sla.state !== 'breached') return;
+
+      summary.breached += 1;
+      const breach: ApprovalSlaBreach = {
+        requestId: request.id,
+        title: request.content.title,
+        stepId: step.stepId,
+        stepName: workflowStep!.name,
+        assignees: (step.escalatedFrom ?? step.assignedTo).map(nameOf),
+        deadline: new Date(sla.deadline).toISOString(),
+        overdueHours: Math.max(0, -sla.remainingMs / HOUR),
+        escalatedTo: step.escalatedTo && nameOf(step.escalatedTo),
+      };
+      summary.breaches.push(breach);
+    })
+  );
+
+  summary.breaches.sort((a, b) => b.overdueHours - a.overdueHours);
+  return summary;
+};
+
+// Hours from a step starting to each approver's decision, and whether it beat the deadline
+export const approverTurnaround = (
+  requests: ApprovalRequest[],
+  workflows: ApprovalWorkflow[],
+  nameOf: (userId: string) => string
+): ApproverTurnaround[] => {
+  const byUser = new Map<string, ApproverTurnaround & { totalHours: number }>();
+  const entry = (userId: string) => {
+    if (!byUser.has(userId)) {
+      byUser.set(userId, { userId, name: nameOf(userId), decisions: 0, averageHours: 0, onTime: 0, late: 0, escalations: 0, totalHours: 0 });
+    }
+    return byUser.get(userId)!;
+  };
+
+  requests.forEach((request) =>
+    request.steps.forEach((step) => {
+      if (!step.startedAt) return;
+      const deadline = stepDeadline(step, workflowStepFor(workflows, request, step));
+
+      step.approvals.forEach(({ userId, decidedAt }) => {
+        const approver = entry(userId);
+        const decided = Date.parse(decidedAt);
+        approver.decisions += 1;
+        approver.totalHours += (decided - Date.parse(step.startedAt!)) / HOUR;
+        if (deadline !== null && decided <= deadline) approver.onTime += 1;
+        if (deadline !== null && decided > deadline) approver.late += 1;
+      });
+      if (step.escalatedAt) (step.escalatedFrom ?? []).forEach((userId) => (entry(userId).escalations += 1));
+    })
+  );
+
+  return Array.from(byUser.values())
+    .map(({ totalHours, ...approver }) => ({
+      ...approver,
+      averageHours: approver.decisions ? totalHours / approver.decisions : 0,
+    }))
+    .sort((a, b) => b.late + b.escalations - (a.late + a.escalations) || b.averageHours - a.averageHours);
+};
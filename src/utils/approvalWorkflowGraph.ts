@@ -0,0 +1,193 @@
+/**
+ * Approval workflow graph
+ *
+ * Workflow steps form a graph: each step waits for the steps in its
+ * `dependsOn` and starts once they have all finished, so steps that wait on
+ * the same steps run in parallel. Steps saved before `dependsOn` existed wait
+ * for the steps with the closest lower `order`, which keeps old workflows
+ * sequential and lets steps that share an order run side by side.
+ *
+ * Stages are the graph laid out for display: a step's stage is the length of
+ * the longest chain of steps it waits on. Steps that wait on a loop or on a
+ * step that no longer exists can never start and are left out of the stages.
+ */
+
+import type { ApprovalRequestStep, ApprovalStep } from '../store/api/approvalApi';
+import { conditionError } from './approvalConditions';
+
+export interface WorkflowProblem {
+  stepId?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface WorkflowLayout {
+  stages: ApprovalStep[][];
+  unreachable: ApprovalStep[];
+}
+
+export const newStepId = () => `step_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const stepDependencies = (step: ApprovalStep, steps: ApprovalStep[]): string[] => {
+  if (step.dependsOn) return step.dependsOn;
+
+  const earlier = steps.filter((candidate) => candidate.order < step.order);
+  if (!earlier.length) return [];
+  const previous = Math.max(...earlier.map((candidate) => candidate.order));
+  return earlier.filter((candidate) => candidate.order === previous).map(({ id }) => id);
+};
+
+// Spells out every step's dependencies so editing one step can't reshuffle the others
+export const withDependencies = (steps: ApprovalStep[]): ApprovalStep[] =>
+  steps.map((step) => ({ ...step, dependsOn: stepDependencies(step, steps) }));
+
+const stageIndexes = (steps: ApprovalStep[]) => {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const stages = new Map<string, number>();
+  const unreachable = new Set<string>();
+
+  const visit = (step: ApprovalStep, path: Set<string>): number | null => {
+    if (stages.has(step.id)) return stages.get(step.id)!;
+    if (unreachable.has(step.id) || path.has(step.id)) return null;
+
+    path.add(step.id);
+    let stage: number | null = 0;
+    for (const id of stepDependencies(step, steps)) {
+      const dependency = byId.get(id);
+      const dependencyStage = dependency ? visit(dependency, path) : null;
+      if (dependencyStage === null) {
+        stage = null;
+        break;
+      }
+      stage = Math.max(stage, dependencyStage + 1);
+    }
+    path.delete(step.id);
+
+    if (stage === null) unreachable.add(step.id);
+    else stages.set(step.id, stage);
+    return stage;
+  };
+
+  steps.forEach((step) => visit(step, new Set()));
+  return stages;
+};
+
+export const workflowLayout = (steps: ApprovalStep[]): WorkflowLayout => {
+  const indexes = stageIndexes(steps);
+  const stages: ApprovalStep[][] = [];
+  const unreachable: ApprovalStep[] = [];
+
+  [...steps]
+    .sort((a, b) => a.order - b.order)
+    .forEach((step) => {
+      const index = indexes.get(step.id);
+      if (index === undefined) unreachable.push(step);
+      else stages[index] = [...(stages[index] || []), step];
+    });
+
+  return { stages, unreachable };
+};
+
+// Dependencies made explicit and `order` set to the stage, as saved by the designer
+export const arrangeSteps = (steps: ApprovalStep[]): ApprovalStep[] => {
+  const explicit = withDependencies(steps);
+  const indexes = stageIndexes(explicit);
+  const last = Math.max(0, ...Array.from(indexes.values()));
+  return explicit.map((step) => ({ ...step, order: (indexes.get(step.id) ?? last + 1) + 1 }));
+};
+
+// Steps that waited on the removed step wait on whatever it waited on instead
+export const removeStep = (steps: ApprovalStep[], stepId: string): ApprovalStep[] => {
+  const explicit = withDependencies(steps);
+  const removed = explicit.find(({ id }) => id === stepId);
+  if (!removed) return explicit;
+
+  return explicit
+    .filter(({ id }) => id !== stepId)
+    .map((step) =>
+      step.dependsOn!.includes(stepId)
+        ? {
+            ...step,
+            dependsOn: Array.from(
+              new Set([...step.dependsOn!.filter((id) => id !== stepId), ...removed.dependsOn!])
+            ),
+          }
+        : step
+    );
+};
+
+// Copies steps with fresh ids, e.g. when starting a workflow from a template
+export const cloneSteps = (steps: ApprovalStep[]): ApprovalStep[] => {
+  const explicit = withDependencies(steps);
+  const ids = new Map(explicit.map(({ id }) => [id, newStepId()]));
+  return explicit.map((step) => ({
+    ...step,
+    id: ids.get(step.id)!,
+    dependsOn: step.dependsOn!.map((id) => ids.get(id) ?? id),
+  }));
+};
+
+export const validateWorkflow = (steps: ApprovalStep[]): WorkflowProblem[] => {
+  if (!steps.length) return [{ severity: 'error', message: 'Add at least one step' }];
+
+  const problems: WorkflowProblem[] = [];
+  const ids = new Set(steps.map(({ id }) => id));
+  const { unreachable } = workflowLayout(steps);
+
+  if (ids.size < steps.length) {
+    problems.push({ severity: 'error', message: 'Two steps share the same id' });
+  }
+
+  steps.forEach((step) => {
+    const name = step.name.trim() || 'Unnamed step';
+    const problem = (severity: WorkflowProblem['severity'], message: string) =>
+      problems.push({ stepId: step.id, severity, message });
+
+    if (!step.name.trim()) problem('error', 'A step needs a name');
+    if (!step.assignees.userIds?.length && !step.assignees.roleIds?.length) {
+      problem('error', `${name} has nobody assigned`);
+    }
+
+    if (stepDependencies(step, steps).some((id) => !ids.has(id))) {
+      problem('error', `${name} waits on a step that no longer exists`);
+    } else if (unreachable.includes(step)) {
+      problem('error', `${name} can never start because the steps before it wait on each other`);
+    }
+
+    if (step.timeoutHours !== undefined && !(step.timeoutHours > 0)) {
+      problem('error', `${name} needs a timeout of more than 0 hours`);
+    } else if (step.timeoutHours && !step.escalationUserId) {
+      problem('warning', `${name} times out after ${step.timeoutHours}h but has nobody to escalate to`);
+    } else if (!step.timeoutHours && step.escalationUserId) {
+      problem('warning', `${name} never escalates because it has no timeout`);
+    }
+
+    (['skipIf', 'requireIf'] as const).forEach((key) => {
+      const condition = step.conditions?.[key];
+      const message = condition?.trim() && conditionError(condition);
+      if (message) problem('error', `${name} has an invalid ${key} condition: ${message}`);
+    });
+  });
+
+  return problems;
+};
+
+// An optional step that's rejected doesn't hold up the steps after it
+const isFinished = (requestStep: ApprovalRequestStep, steps: ApprovalStep[]) =>
+  requestStep.status === 'approved' ||
+  requestStep.status === 'skipped' ||
+  (requestStep.status === 'rejected' && Boolean(steps.find(({ id }) => id === requestStep.stepId)?.isOptional));
+
+// Request steps that haven't started and have nothing left to wait on
+export const readySteps = (steps: ApprovalStep[], requestSteps: ApprovalRequestStep[]): ApprovalRequestStep[] =>
+  requestSteps.filter((requestStep, index) => {
+    if (requestStep.status !== 'pending' || requestStep.startedAt) return false;
+
+    // Steps since removed from the workflow fall back to waiting on the ones before them
+    const step = steps.find(({ id }) => id === requestStep.stepId);
+    const dependencies = step && stepDependencies(step, steps);
+    const waitsOn = dependencies
+      ? requestSteps.filter((candidate) => dependencies.includes(candidate.stepId))
+      : requestSteps.slice(0, index);
+    return waitsOn.every((candidate) => isFinished(candidate, steps));
+  });
@@ -0,0 +1,172 @@
+/**
+ * iCalendar (.ics) export for the content calendar
+ *
+ * Every scheduled platform post becomes its own VEVENT, so a post going out
+ * on LinkedIn and Twitter at different times shows up twice in Outlook or
+ * Google Calendar. The same builder renders manual exports and the
+ * per-workspace subscription feed.
+ */
+
+import type { Content } from '../store/api/contentApi';
+import { formatUtcDateTime } from './recurrence';
+import { platformLabel } from './platforms';
+
+export interface CalendarExportEvent {
+  uid: string;
+  title: string;
+  start: Date;
+  durationMinutes?: number;
+  platform: string;
+  platforms: string[]; // every platform the content goes out on
+  status: string;
+  url: string; // deep link back to the content
+  description?: string;
+}
+
+export interface CalendarExportOptions {
+  name?: string;
+  refreshIntervalMinutes?: number; // hint for subscribed calendars
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//ContentAutoPilot//Content Calendar//EN';
+const UID_DOMAIN = 'contentautopilot.app';
+const DEFAULT_DURATION_MINUTES = 15;
+const MAX_LINE_OCTETS = 75;
+const DESCRIPTION_EXCERPT_LENGTH = 280;
+
+const statusLabel = (status: string) =>
+  status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, ' ');
+
+// Calendar apps only know TENTATIVE, CONFIRMED and CANCELLED
+const eventStatus = (status: string) => {
+  if (status === 'published') return 'CONFIRMED';
+  if (status === 'cancelled' || status === 'failed') return 'CANCELLED';
+  return 'TENTATIVE';
+};
+
+export const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (value: string) => new TextEncoder().encode(value).length;
+
+// RFC 5545 §3.1: lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  if (utf8Length(line) <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const eventLines = (event: CalendarExportEvent, stamp: string) => {
+  const end = new Date(event.start.getTime() + (event.durationMinutes ?? DEFAULT_DURATION_MINUTES) * 60000);
+  const description = [
+    `Status: ${statusLabel(event.status)}`,
+    `Platforms: ${event.platforms.map(platformLabel).join(', ')}`,
+    event.description,
+    `Open in ContentAutoPilot: ${event.url}`,
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtcDateTime(event.start)}`,
+    `DTEND:${formatUtcDateTime(end)}`,
+    `SUMMARY:${escapeIcsText(`[${platformLabel(event.platform)}] ${event.title}`)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `URL:${event.url}`,
+    `STATUS:${eventStatus(event.status)}`,
+    `CATEGORIES:${event.platforms.map((platform) => escapeIcsText(platformLabel(platform))).join(',')}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+};
+
+/**
+ * Renders events as a VCALENDAR document with CRLF line endings, ready to
+ * download or serve as `text/calendar`.
+ */
+export const buildIcsCalendar = (events: CalendarExportEvent[], options: CalendarExportOptions = {}): string => {
+  const stamp = formatUtcDateTime(options.now ?? new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  if (options.refreshIntervalMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshIntervalMinutes}M`
+    );
+  }
+
+  [...events]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .forEach((event) => lines.push(...eventLines(event, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+// Stable per platform post, so re-imports and feed refreshes update events instead of duplicating them
+export const calendarEventUid = (contentId: string, platform: string) => `${contentId}-${platform}@${UID_DOMAIN}`;
+
+export const contentDeepLink = (contentId: string, appUrl: string) =>
+  `${appUrl.replace(/\/+$/, '')}/content/${encodeURIComponent(contentId)}`;
+
+const excerpt = (text: string) =>
+  text.length > DESCRIPTION_EXCERPT_LENGTH ? `${text.slice(0, DESCRIPTION_EXCERPT_LENGTH - 1).trimEnd()}…` : text;
+
+/**
+ * One event per platform post that has a time, using the platform's own
+ * schedule (or publish time) and falling back to the content's.
+ * Draft posts and posts without a time are left out.
+ */
+export const contentToCalendarEvents = (content: Content[], appUrl: string): CalendarExportEvent[] =>
+  content.flatMap((item) =>
+    item.platforms.flatMap((platform) => {
+      const when = platform.publishedAt ?? platform.scheduledAt ?? item.scheduledAt;
+      if (!when || platform.status === 'draft') return [];
+
+      return [{
+        uid: calendarEventUid(item.id, platform.platform),
+        title: item.title,
+        start: new Date(when),
+        platform: platform.platform,
+        platforms: item.platforms.map(({ platform: name }) => name),
+        status: platform.status,
+        url: contentDeepLink(item.id, appUrl),
+        description: item.body ? excerpt(item.body) : undefined,
+      }];
+    })
+  );
+
+export const downloadIcsFile = (ics: string, filename: string) => {
+  const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,164 @@
+/**
+ * Comment anchors
+ *
+ * Where a review comment is attached: a range of the content's text or one
+ * of its media items. Text anchors keep the quoted text and a little context
+ * on either side, so they can follow the text as it is edited and find it
+ * again when the exact range is gone.
+ */
+
+export interface TextAnchor {
+  type: 'text';
+  start: number;
+  end: number; // equal to start for a point, e.g. a suggested insertion
+  quote: string;
+  prefix: string;
+  suffix: string;
+  detached?: boolean; // the text it was on has been removed
+}
+
+export interface MediaAnchor {
+  type: 'media';
+  mediaId: string;
+  x?: number; // point on the item, 0–100 as a percentage of its width
+  y?: number;
+}
+
+export type CommentAnchor = TextAnchor | MediaAnchor;
+
+// Replace text[start, end) with `text`
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TextSegment {
+  start: number;
+  end: number;
+  text: string;
+  anchorIds: string[];
+}
+
+const CONTEXT_LENGTH = 24;
+
+export const createTextAnchor = (text: string, start: number, end: number): TextAnchor => {
+  const from = Math.max(0, Math.min(start, end, text.length));
+  const to = Math.min(text.length, Math.max(start, end));
+  return {
+    type: 'text',
+    start: from,
+    end: to,
+    quote: text.slice(from, to),
+    prefix: text.slice(Math.max(0, from - CONTEXT_LENGTH), from),
+    suffix: text.slice(to, to + CONTEXT_LENGTH),
+  };
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+/**
+ * Find a quote in the text, preferring the occurrence whose surroundings
+ * best match the anchor's context, then the one nearest `near`.
+ */
+export const findQuote = (
+  text: string,
+  quote: string,
+  { prefix = '', suffix = '', near = 0 }: { prefix?: string; suffix?: string; near?: number } = {}
+): TextAnchor | null => {
+  if (!quote) return null;
+
+  let best: { index: number; score: number } | null = null;
+  for (let index = text.indexOf(quote); index !== -1; index = text.indexOf(quote, index + 1)) {
+    const score =
+      commonSuffixLength(text.slice(0, index), prefix) + commonPrefixLength(text.slice(index + quote.length), suffix);
+    if (!best || score > best.score || (score === best.score && Math.abs(index - near) < Math.abs(best.index - near))) {
+      best = { index, score };
+    }
+  }
+  return best && createTextAnchor(text, best.index, best.index + quote.length);
+};
+
+// The single edit that turns one text into the other, or null when they're the same
+export const diffText = (oldText: string, newText: string): TextEdit | null => {
+  if (oldText === newText) return null;
+  const prefix = commonPrefixLength(oldText, newText);
+  const suffix = Math.min(commonSuffixLength(oldText, newText), oldText.length - prefix, newText.length - prefix);
+  return { start: prefix, end: oldText.length - suffix, text: newText.slice(prefix, newText.length - suffix) };
+};
+
+export const applyEdit = (text: string, { start, end, text: inserted }: TextEdit) =>
+  text.slice(0, start) + inserted + text.slice(end);
+
+/**
+ * Move an anchor through an edit. Text inserted inside a range joins it,
+ * text inserted at its edges doesn't. When the whole range is replaced the
+ * anchor looks for its quote elsewhere and is marked detached if it's gone.
+ */
+export const rebaseAnchor = <T extends CommentAnchor>(anchor: T, edit: TextEdit, newText: string): T => {
+  if (anchor.type !== 'text') return anchor;
+
+  const { start, end } = anchor;
+  const delta = edit.text.length - (edit.end - edit.start);
+  const collapsed = start === end;
+  let range: [number, number] | null;
+
+  // A detached anchor waits for its quote to come back
+  if (anchor.detached) range = null;
+  else if (edit.end <= start) range = [start + delta, end + delta];
+  else if (edit.start >= end) range = [start, end];
+  else if (collapsed) range = null;
+  else if (edit.start >= start && edit.end <= end) range = [start, end + delta];
+  else if (edit.start < start && edit.end < end) range = [edit.start + edit.text.length, end + delta];
+  else if (edit.start > start && edit.end > end) range = [start, edit.start];
+  else range = null;
+
+  if (range && (collapsed || range[1] > range[0])) {
+    return { ...anchor, ...createTextAnchor(newText, range[0], range[1]) };
+  }
+
+  const found = findQuote(newText, anchor.quote, { prefix: anchor.prefix, suffix: anchor.suffix, near: edit.start });
+  if (found) return { ...anchor, ...found, detached: undefined };
+
+  const at = Math.min(anchor.detached ? start : edit.start, newText.length);
+  return { ...anchor, start: at, end: at, detached: true };
+};
+
+// Re-anchor everything attached to a text that changed from `oldText` to `newText`
+export const rebaseAnchors = <T extends { anchor?: CommentAnchor }>(items: T[], oldText: string, newText: string): T[] => {
+  const edit = diffText(oldText, newText);
+  if (!edit) return items;
+  return items.map((item) =>
+    item.anchor?.type === 'text' ? { ...item, anchor: rebaseAnchor(item.anchor, edit, newText) } : item
+  );
+};
+
+/**
+ * Split text at every range boundary so each piece can be highlighted with
+ * the ranges that cover it.
+ */
+export const segmentText = (text: string, ranges: { id: string; start: number; end: number }[]): TextSegment[] => {
+  const boundaries = Array.from(
+    new Set([0, text.length, ...ranges.flatMap(({ start, end }) => [start, end])].filter((at) => at >= 0 && at <= text.length))
+  ).sort((a, b) => a - b);
+
+  return boundaries.slice(0, -1).map((start, index) => {
+    const end = boundaries[index + 1];
+    return {
+      start,
+      end,
+      text: text.slice(start, end),
+      anchorIds: ranges.filter((range) => range.start <= start && range.end >= end && range.end > range.start).map(({ id }) => id),
+    };
+  });
+};
@@ -0,0 +1,271 @@
+/**
+ * Content calendar spreadsheets
+ *
+ * Clients send content calendars as spreadsheets with their own headers.
+ * Columns are matched to content fields by header and can be remapped by
+ * hand. Each row becomes a CreateContentRequest, checked by the
+ * ContentValidator for every platform it targets. Exports use the same
+ * headers and formats, so an exported calendar imports unchanged.
+ */
+
+import { format, isValid, parse, parseISO } from 'date-fns';
+import type { Content, ContentPlatform, CreateContentRequest } from '../store/api/contentApi';
+import type { MediaFile } from '../store/api/mediaApi';
+import { platformLabel } from './platforms';
+import { validateContent } from './contentValidation';
+import type { ValidationRule } from './validationRules';
+import { excelSerialToDate, type SpreadsheetRows } from './spreadsheet';
+
+export type ContentColumnField = 'title' | 'body' | 'platforms' | 'scheduledAt' | 'tags' | 'media' | 'type' | 'priority';
+
+export interface ContentColumn {
+  field: ContentColumnField;
+  header: string; // used for exports
+  required: boolean;
+  aliases: string[]; // normalized headers that map to the field
+}
+
+// Field -> index of the spreadsheet column it is read from
+export type ContentColumnMapping = Partial<Record<ContentColumnField, number>>;
+
+export interface ContentImportRow {
+  rowNumber: number; // as numbered in the spreadsheet, the header being row 1
+  title: string;
+  request?: CreateContentRequest; // set when the row has no errors
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ContentImportOptions {
+  mediaLibrary?: Pick<MediaFile, 'id' | 'url'>[];
+  now?: Date;
+  rules?: ValidationRule[]; // the organization's live content rules
+}
+
+export const CONTENT_COLUMNS: ContentColumn[] = [
+  { field: 'title', header: 'Title', required: true, aliases: ['title', 'headline', 'name', 'post title', 'subject'] },
+  {
+    field: 'body',
+    header: 'Body',
+    required: true,
+    aliases: ['body', 'copy', 'post copy', 'caption', 'text', 'content', 'post', 'message'],
+  },
+  {
+    field: 'platforms',
+    header: 'Platforms',
+    required: true,
+    aliases: ['platforms', 'platform', 'channels', 'channel', 'networks', 'network', 'social network'],
+  },
+  {
+    field: 'scheduledAt',
+    header: 'Scheduled At',
+    required: false,
+    aliases: ['scheduled at', 'scheduled', 'schedule', 'publish date', 'publish at', 'post date', 'date', 'date time', 'datetime'],
+  },
+  { field: 'tags', header: 'Tags', required: false, aliases: ['tags', 'tag', 'labels', 'keywords'] },
+  {
+    field: 'media',
+    header: 'Media URLs',
+    required: false,
+    aliases: ['media urls', 'media url', 'media', 'images', 'image', 'image url', 'assets', 'asset', 'attachments'],
+  },
+  { field: 'type', header: 'Type', required: false, aliases: ['type', 'content type', 'post type', 'format'] },
+  { field: 'priority', header: 'Priority', required: false, aliases: ['priority'] },
+];
+
+export const SCHEDULED_AT_FORMAT = 'yyyy-MM-dd HH:mm';
+
+// Also accepted on import; slashed dates are read month first, as Excel writes them in the US
+const SCHEDULED_AT_FORMATS = [
+  'M/d/yyyy H:mm',
+  'M/d/yyyy h:mm a',
+  'M/d/yyyy',
+  'd.M.yyyy H:mm',
+  'd.M.yyyy',
+];
+
+const PLATFORMS: ContentPlatform['platform'][] = ['linkedin', 'twitter', 'facebook', 'instagram', 'youtube', 'tiktok'];
+
+const PLATFORM_ALIASES: Record<string, ContentPlatform['platform']> = {
+  x: 'twitter',
+  xtwitter: 'twitter',
+  twitterx: 'twitter',
+  fb: 'facebook',
+  ig: 'instagram',
+  insta: 'instagram',
+  li: 'linkedin',
+  yt: 'youtube',
+  tt: 'tiktok',
+};
+
+const CONTENT_TYPES: Content['type'][] = ['post', 'story', 'reel', 'video', 'carousel', 'thread'];
+const PRIORITIES: Content['priority'][] = ['low', 'medium', 'high', 'urgent'];
+
+// Validator findings at these severities keep a row from importing; the rest are warnings
+const BLOCKING_SEVERITIES = ['critical', 'high'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Matches each field to the first unused column whose header is one of the
+ * field's aliases. Fields without a matching header stay unmapped.
+ */
+export const detectColumnMapping = (headers: string[]): ContentColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ContentColumnMapping = {};
+
+  CONTENT_COLUMNS.forEach(({ field, aliases }) => {
+    const index = aliases
+      .map((alias) => normalized.findIndex((header, column) => header === alias && !used.has(column)))
+      .find((column) => column !== -1);
+    if (index !== undefined) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+export const missingRequiredColumns = (mapping: ContentColumnMapping) =>
+  CONTENT_COLUMNS.filter(({ field, required }) => required && mapping[field] === undefined);
+
+const splitList = (value: string) =>
+  value
+    .split(/[,;\n]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const parsePlatform = (value: string) => {
+  const key = value.toLowerCase().replace(/[^a-z]/g, '');
+  return PLATFORMS.find((platform) => platform === key) ?? PLATFORM_ALIASES[key];
+};
+
+export const parseScheduledAt = (value: string): Date | undefined => {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return excelSerialToDate(Number(trimmed));
+
+  const iso = parseISO(trimmed);
+  if (isValid(iso)) return iso;
+
+  return SCHEDULED_AT_FORMATS
+    .map((pattern) => parse(trimmed, pattern, new Date()))
+    .find(isValid);
+};
+
+const optionOf = <T extends string>(value: string, options: T[]) =>
+  options.find((option) => option === value.trim().toLowerCase());
+
+/**
+ * Turns the data rows below the header into content requests. Rows keep
+ * their spreadsheet numbers, so errors can be fixed in the original file.
+ */
+export const buildContentImport = (
+  rows: SpreadsheetRows,
+  mapping: ContentColumnMapping,
+  options: ContentImportOptions = {}
+): ContentImportRow[] => {
+  const { mediaLibrary = [], now = new Date(), rules } = options;
+  const mediaByUrl = new Map(mediaLibrary.map((file) => [file.url, file.id]));
+
+  return rows.slice(1).map((row, index) => {
+    const cell = (field: ContentColumnField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const title = cell('title');
+    const body = cell('body');
+    if (!title) errors.push('Title is missing');
+
+    const platformNames = splitList(cell('platforms'));
+    const platforms: ContentPlatform['platform'][] = [];
+    if (!platformNames.length) errors.push('No platforms are listed');
+    platformNames.forEach((value) => {
+      const platform = parsePlatform(value);
+      if (!platform) errors.push(`"${value}" is not a supported platform`);
+      else if (!platforms.includes(platform)) platforms.push(platform);
+    });
+
+    let scheduledAt: string | undefined;
+    if (cell('scheduledAt')) {
+      const date = parseScheduledAt(cell('scheduledAt'));
+      if (!date) {
+        errors.push(`"${cell('scheduledAt')}" is not a date and time this import understands, such as 2024-05-06 09:30`);
+      } else if (date <= now) {
+        warnings.push(`${format(date, SCHEDULED_AT_FORMAT)} has passed, so the draft is created without a time`);
+      } else {
+        scheduledAt = date.toISOString();
+      }
+    }
+
+    const type = cell('type') ? optionOf(cell('type'), CONTENT_TYPES) : 'post';
+    if (!type) errors.push(`"${cell('type')}" is not a content type (${CONTENT_TYPES.join(', ')})`);
+
+    const priority = cell('priority') ? optionOf(cell('priority'), PRIORITIES) : 'medium';
+    if (!priority) errors.push(`"${cell('priority')}" is not a priority (${PRIORITIES.join(', ')})`);
+
+    // Content can only reference library media, so files have to be uploaded before the import
+    const media = cell('media')
+      .split(/[\s,;]+/)
+      .filter(Boolean)
+      .flatMap((url) => {
+        const id = mediaByUrl.get(url);
+        if (!id) errors.push(`${url} is not in the media library. Upload it first`);
+        return id ? [id] : [];
+      });
+
+    const validation = validateContent(body, platforms.map((platform) => ({ platform })), [], {
+      checkAccessibility: false,
+      checkEngagement: false,
+      rules,
+    });
+    validation.errors.forEach(({ message, severity }) =>
+      (BLOCKING_SEVERITIES.includes(severity) ? errors : warnings).push(message)
+    );
+
+    return {
+      rowNumber: index + 2,
+      title,
+      errors,
+      warnings,
+      request: errors.length
+        ? undefined
+        : {
+            title,
+            body,
+            type: type!,
+            priority: priority!,
+            platforms: platforms.map((platform) => ({ platform, scheduledAt })),
+            scheduledAt,
+            tags: splitList(cell('tags')),
+            media,
+          },
+    };
+  });
+};
+
+const scheduledTimeOf = (item: Content) =>
+  item.scheduledAt ?? item.platforms.find((platform) => platform.scheduledAt)?.scheduledAt;
+
+// A header row and one row per content item, in the columns the import reads
+export const contentToSpreadsheetRows = (content: Content[]): SpreadsheetRows => [
+  CONTENT_COLUMNS.map(({ header }) => header),
+  ...content.map((item) => {
+    const scheduledAt = scheduledTimeOf(item);
+    const values: Record<ContentColumnField, string> = {
+      title: item.title,
+      body: item.body,
+      platforms: item.platforms.map(({ platform }) => platformLabel(platform)).join(', '),
+      scheduledAt: scheduledAt ? format(new Date(scheduledAt), SCHEDULED_AT_FORMAT) : '',
+      tags: item.tags.join(', '),
+      media: item.media.map(({ url }) => url).join(', '),
+      type: item.type,
+      priority: item.priority,
+    };
+    return CONTENT_COLUMNS.map(({ field }) => values[field]);
+  }),
+];
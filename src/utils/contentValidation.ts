@@ -1,9 +1,26 @@
 import { ContentPlatform, MediaFile, OptimizationSuggestion } from '../types/content';
+import type { BrandGuidelines } from '../store/api/templatesApi';
+import {
+  applyTextEdits,
+  findHashtags,
+  findPhrase,
+  matchCase,
+  parsePhraseEntry,
+  removalEdit,
+  withEdits,
+  type TextEdit,
+  type TextRange,
+} from './textEdits';
+
+import { PLATFORM_TEXT_RULES, countCharacters, measureText, truncateToLimit } from './textMetrics';
+import { COMPLIANCE_RULES, customOptionRules, runValidationRules, type ValidationRule } from './validationRules';
+
+export { applyTextEdits, type TextEdit, type TextRange };
 
 // Platform-specific configuration
 const platformConfig = {
   twitter: {
-    characterLimit: 280,
+    characterLimit: PLATFORM_TEXT_RULES.twitter.limit,
     maxImages: 4,
     maxVideos: 1,
     maxVideoSize: 512, // MB
@@ -16,7 +33,7 @@ const platformConfig = {
     mentionLimit: 10,
   },
   linkedin: {
-    characterLimit: 3000,
+    characterLimit: PLATFORM_TEXT_RULES.linkedin.limit,
     maxImages: 9,
     maxVideos: 1,
     maxVideoSize: 5120, // MB
@@ -29,7 +46,7 @@ const platformConfig = {
     mentionLimit: 50,
   },
   instagram: {
-    characterLimit: 2200,
+    characterLimit: PLATFORM_TEXT_RULES.instagram.limit,
     maxImages: 10,
     maxVideos: 1,
     maxVideoSize: 4096, // MB
@@ -42,7 +59,7 @@ const platformConfig = {
     mentionLimit: 20,
   },
   facebook: {
-    characterLimit: 63206,
+    characterLimit: PLATFORM_TEXT_RULES.facebook.limit,
     maxImages: 10,
     maxVideos: 1,
     maxVideoSize: 4096, // MB
@@ -55,7 +72,7 @@ const platformConfig = {
     mentionLimit: 50,
   },
   youtube: {
-    characterLimit: 5000, // Description
+    characterLimit: PLATFORM_TEXT_RULES.youtube.limit, // Description
     titleLimit: 100,
     maxVideoSize: 256000, // MB (256GB)
     maxThumbnailSize: 2, // MB
@@ -66,7 +83,7 @@ const platformConfig = {
     hashtagLimit: 15,
   },
   tiktok: {
-    characterLimit: 2200,
+    characterLimit: PLATFORM_TEXT_RULES.tiktok.limit,
     maxVideos: 1,
     maxVideoSize: 287, // MB
     maxImageSize: 20, // MB
@@ -78,6 +95,14 @@ const platformConfig = {
   },
 };
 
+// The largest image a platform accepts, in bytes; YouTube only takes images as thumbnails
+export const maxImageBytes = (platform: string): number | undefined => {
+  const config = platformConfig[platform as keyof typeof platformConfig];
+  if (!config) return undefined;
+  const megabytes = 'maxImageSize' in config ? config.maxImageSize : 'maxThumbnailSize' in config ? config.maxThumbnailSize : undefined;
+  return megabytes && megabytes * 1024 * 1024;
+};
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -87,21 +112,24 @@ export interface ValidationResult {
 }
 
 export interface ValidationError {
-  type: 'content' | 'media' | 'platform' | 'compliance';
+  type: 'content' | 'media' | 'platform' | 'compliance' | 'brand';
   platform?: string;
   field?: string;
   message: string;
   code: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   fixable: boolean;
+  ruleId?: string; // the validation rule that reported it
+  locations?: TextRange[]; // the spans of the text the error is about
   autoFix?: {
     action: string;
     preview: string;
+    edits?: TextEdit[]; // precise changes, for fixes that don't rewrite the whole text
   };
 }
 
 export interface ValidationWarning {
-  type: 'optimization' | 'accessibility' | 'engagement' | 'timing';
+  type: 'optimization' | 'accessibility' | 'engagement' | 'timing' | 'brand';
   platform?: string;
   message: string;
   suggestion: string;
@@ -125,7 +153,7 @@ export class ContentValidator {
     this.mediaFiles = mediaFiles;
     this.options = {
       checkAccessibility: true,
-      checkBrandGuidelines: false,
+      checkBrandGuidelines: Boolean(options.brandGuidelines),
       checkCompliance: true,
       checkEngagement: true,
       strictMode: false,
@@ -155,10 +183,18 @@ export class ContentValidator {
       warnings.push(...this.validateAccessibility());
     }
 
-    // Compliance validation
-    if (this.options.checkCompliance) {
-      errors.push(...this.validateCompliance());
-    }
+    // Compliance and custom rules
+    const ruleContext = {
+      content: this.content,
+      platforms: this.platforms.map(({ platform }) => platform),
+      pillar: this.options.contentPillar,
+    };
+    const rules = [
+      ...(this.options.checkCompliance ? COMPLIANCE_RULES : []),
+      ...customOptionRules(this.options.customRules),
+      ...(this.options.rules ?? []),
+    ];
+    errors.push(...runValidationRules(rules, ruleContext));
 
     // Engagement validation
     if (this.options.checkEngagement) {
@@ -167,8 +203,10 @@ export class ContentValidator {
     }
 
     // Brand guidelines validation
-    if (this.options.checkBrandGuidelines) {
-      warnings.push(...this.validateBrandGuidelines());
+    if (this.options.checkBrandGuidelines && this.options.brandGuidelines) {
+      const platforms = this.platforms.map(({ platform }) => platform);
+      errors.push(...validateBrandGuidelines(this.content, this.options.brandGuidelines, platforms));
+      warnings.push(...brandVoiceWarnings(this.content, this.options.brandGuidelines));
     }
 
     const score = this.calculateScore(errors, warnings);
@@ -208,16 +246,16 @@ export class ContentValidator {
         fixable: true,
         autoFix: {
           action: 'Remove excessive whitespace',
-          preview: this.content.replace(/\\s{3,}/g, ' ').replace(/\\n{3,}/g, '\\n\\n'),
+          preview: this.content.replace(/\s{3,}/g, ' ').replace(/\n{3,}/g, '\n\n'),
         },
       });
     }
 
     // Suspicious links
     const suspiciousPatterns = [
-      /bit\\.ly/gi,
+      /bit\.ly/gi,
       /tinyurl/gi,
-      /t\\.co/gi,
+      /t\.co/gi,
     ];
     
     for (const pattern of suspiciousPatterns) {
@@ -268,20 +306,22 @@ export class ContentValidator {
       return errors;
     }
 
-    // Character limit validation
-    if (this.content.length > config.characterLimit) {
-      const excess = this.content.length - config.characterLimit;
+    // Character limit validation, counted the way the platform counts
+    const measured = measureText(this.content, platform.platform, config.characterLimit);
+    if (measured.isOver) {
+      const ellipsis = '…';
+      const truncated = truncateToLimit(this.content, platform.platform, config.characterLimit, ellipsis);
       errors.push({
         type: 'content',
         platform: platform.platform,
-        message: `Content exceeds ${platform.platform} character limit by ${excess} characters`,
+        message: `Content exceeds ${platform.platform} character limit by ${-measured.remaining} characters`,
         code: 'CONTENT_TOO_LONG',
         severity: 'high',
         fixable: true,
-        autoFix: {
-          action: 'Truncate content',
-          preview: this.content.substring(0, config.characterLimit - 3) + '...',
-        },
+        locations: [{ start: measured.overflowAt!, end: this.content.length }],
+        autoFix: withEdits(this.content, 'Truncate content', [
+          { start: truncated.length - ellipsis.length, end: this.content.length, replacement: ellipsis },
+        ]),
       });
     }
 
@@ -313,8 +353,8 @@ export class ContentValidator {
 
     // YouTube-specific validation
     if (platform.platform === 'youtube') {
-      const title = this.content.split('\\n')[0] || '';
-      if (title.length > config.titleLimit!) {
+      const title = this.content.split('\n')[0] || '';
+      if (countCharacters(title, platform.platform) > config.titleLimit!) {
         errors.push({
           type: 'content',
           platform: platform.platform,
@@ -430,7 +470,7 @@ export class ContentValidator {
     }
 
     // Color contrast (basic check for emojis and special characters)
-    const hasEmojis = /[\\u{1F600}-\\u{1F64F}]|[\\u{1F300}-\\u{1F5FF}]|[\\u{1F680}-\\u{1F6FF}]|[\\u{1F1E0}-\\u{1F1FF}]/u.test(this.content);
+    const hasEmojis = /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]/u.test(this.content);
     if (!hasEmojis && this.content.length > 100) {
       warnings.push({
         type: 'accessibility',
@@ -442,7 +482,7 @@ export class ContentValidator {
 
     // Reading level check (simplified)
     const sentences = this.content.split(/[.!?]+/).filter(s => s.trim());
-    const words = this.content.split(/\\s+/).length;
+    const words = this.content.split(/\s+/).length;
     const avgWordsPerSentence = words / sentences.length;
     
     if (avgWordsPerSentence > 20) {
@@ -457,52 +497,6 @@ export class ContentValidator {
     return warnings;
   }
 
-  private validateCompliance(): ValidationError[] {
-    const errors: ValidationError[] = [];
-
-    // FTC compliance for sponsored content
-    const sponsoredKeywords = ['#ad', '#sponsored', '#partnership', 'paid partnership'];
-    const hasCommercialIntent = /buy now|click here|discount|sale|offer/gi.test(this.content);
-    const hasDisclosure = sponsoredKeywords.some(keyword => 
-      this.content.toLowerCase().includes(keyword.toLowerCase())
-    );
-
-    if (hasCommercialIntent && !hasDisclosure) {
-      errors.push({
-        type: 'compliance',
-        message: 'Commercial content may require FTC disclosure',
-        code: 'COMPLIANCE_FTC_DISCLOSURE',
-        severity: 'medium',
-        fixable: true,
-        autoFix: {
-          action: 'Add disclosure',
-          preview: this.content + '\\n\\n#ad',
-        },
-      });
-    }
-
-    // GDPR compliance for data collection mentions
-    const dataKeywords = ['email', 'subscribe', 'newsletter', 'personal data'];
-    const hasDataCollection = dataKeywords.some(keyword =>
-      this.content.toLowerCase().includes(keyword)
-    );
-
-    if (hasDataCollection) {
-      const hasPrivacyNotice = /privacy policy|terms of service|gdpr/gi.test(this.content);
-      if (!hasPrivacyNotice) {
-        errors.push({
-          type: 'compliance',
-          message: 'Data collection content should reference privacy policy',
-          code: 'COMPLIANCE_GDPR_NOTICE',
-          severity: 'medium',
-          fixable: false,
-        });
-      }
-    }
-
-    return errors;
-  }
-
   private validateEngagement(): ValidationWarning[] {
     const warnings: ValidationWarning[] = [];
 
@@ -512,7 +506,7 @@ export class ContentValidator {
       /share your/gi,
       /let me know/gi,
       /comment below/gi,
-      /thoughts\\?/gi,
+      /thoughts\?/gi,
       /click.*link/gi,
     ];
 
@@ -527,7 +521,7 @@ export class ContentValidator {
     }
 
     // Hook analysis
-    const firstSentence = this.content.split(/[.!?\\n]/)[0].trim();
+    const firstSentence = this.content.split(/[.!?\n]/)[0].trim();
     if (firstSentence.length > 100) {
       warnings.push({
         type: 'engagement',
@@ -556,34 +550,6 @@ export class ContentValidator {
     return warnings;
   }
 
-  private validateBrandGuidelines(): ValidationWarning[] {
-    // This would typically integrate with brand guidelines API
-    // For now, returning basic tone analysis
-    const warnings: ValidationWarning[] = [];
-
-    // Tone consistency check
-    const professionalWords = ['expertise', 'professional', 'strategic', 'innovative'];
-    const casualWords = ['awesome', 'cool', 'amazing', 'epic'];
-    
-    const hasProfessional = professionalWords.some(word => 
-      this.content.toLowerCase().includes(word)
-    );
-    const hasCasual = casualWords.some(word => 
-      this.content.toLowerCase().includes(word)
-    );
-
-    if (hasProfessional && hasCasual) {
-      warnings.push({
-        type: 'engagement',
-        message: 'Mixed tone detected in content',
-        suggestion: 'Maintain consistent brand voice throughout',
-        impact: 'medium',
-      });
-    }
-
-    return warnings;
-  }
-
   private validatePlatformOptimization(platform: ContentPlatform): ValidationWarning[] {
     const warnings: ValidationWarning[] = [];
     const config = platformConfig[platform.platform as keyof typeof platformConfig];
@@ -591,7 +557,7 @@ export class ContentValidator {
     if (!config) return warnings;
 
     // Character utilization
-    const utilization = (this.content.length / config.characterLimit) * 100;
+    const utilization = (countCharacters(this.content, platform.platform) / config.characterLimit) * 100;
     
     if (utilization < 30) {
       warnings.push({
@@ -654,7 +620,7 @@ export class ContentValidator {
     }
 
     // Emoji usage
-    const emojiCount = (this.content.match(/[\\u{1F600}-\\u{1F64F}]|[\\u{1F300}-\\u{1F5FF}]|[\\u{1F680}-\\u{1F6FF}]|[\\u{1F1E0}-\\u{1F1FF}]/gu) || []).length;
+    const emojiCount = (this.content.match(/[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]/gu) || []).length;
     if (emojiCount < 2 && this.content.length > 50) {
       suggestions.push({
         id: 'add-emojis',
@@ -668,7 +634,7 @@ export class ContentValidator {
     }
 
     // Line breaks for readability
-    const lines = this.content.split('\\n').filter(line => line.trim());
+    const lines = this.content.split('\n').filter(line => line.trim());
     const avgLineLength = this.content.length / lines.length;
     if (avgLineLength > 80) {
       suggestions.push({
@@ -747,10 +713,13 @@ export class ContentValidator {
 
 export interface ValidationOptions {
   checkAccessibility?: boolean;
-  checkBrandGuidelines?: boolean;
+  checkBrandGuidelines?: boolean; // on by default when brandGuidelines are given
+  brandGuidelines?: BrandGuidelineRules;
   checkCompliance?: boolean;
   checkEngagement?: boolean;
   strictMode?: boolean;
+  rules?: ValidationRule[]; // extra rules, such as the organization's live content rules
+  contentPillar?: string; // for rules scoped to content pillars
   customRules?: {
     maxHashtags?: number;
     requiredPhrases?: string[];
@@ -760,6 +729,158 @@ export interface ValidationOptions {
   };
 }
 
+// Brand guidelines
+
+export interface BannedPhrase {
+  phrase: string;
+  replacement?: string;
+}
+
+/**
+ * The parts of a workspace's brand guidelines that can be checked in copy.
+ * A doNotUse entry may name its replacement, as in "cheap → affordable".
+ */
+export interface BrandGuidelineRules {
+  brandName?: string;
+  bannedPhrases: BannedPhrase[];
+  preferredTerms: string[];
+  avoidedHashtags: string[];
+  maxHashtags?: number;
+  keyMessages: string[];
+  boilerplate?: string;
+  boilerplatePlatforms: string[]; // platforms whose posts must carry the boilerplate
+}
+
+const normalizeHashtag = (tag: string) => `#${tag.trim().replace(/^#+/, '')}`.toLowerCase();
+
+export const brandGuidelineRules = (guidelines: BrandGuidelines): BrandGuidelineRules => ({
+  brandName: guidelines.brand.name,
+  bannedPhrases: guidelines.voice.doNotUse
+    .map(parsePhraseEntry)
+    .filter(({ phrase }) => phrase),
+  preferredTerms: guidelines.voice.doUse,
+  avoidedHashtags: guidelines.content.guidelines.hashtagStrategy.avoid.map(normalizeHashtag),
+  maxHashtags: guidelines.content.guidelines.hashtagStrategy.maxPerPost || undefined,
+  keyMessages: guidelines.content.messaging.keyMessages,
+  boilerplate: guidelines.content.messaging.boilerplate || undefined,
+  boilerplatePlatforms: guidelines.platformSpecific
+    .filter(({ brandElements }) => brandElements.requiredElements.some((element) => /boilerplate/i.test(element)))
+    .map(({ platform }) => platform),
+});
+
+/**
+ * Checks copy against brand rules. Every error points at the offending text
+ * and, where there is an obvious fix, carries the edits that make it.
+ */
+export const validateBrandGuidelines = (
+  content: string,
+  rules: BrandGuidelineRules,
+  platforms: string[] = []
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  rules.bannedPhrases.forEach(({ phrase, replacement }) => {
+    findPhrase(content, phrase).forEach((range) => {
+      const found = content.slice(range.start, range.end);
+      const edit = replacement
+        ? { ...range, replacement: matchCase(replacement, found) }
+        : removalEdit(content, range);
+      errors.push({
+        type: 'brand',
+        field: 'body',
+        message: replacement
+          ? `"${found}" is off-brand; use "${edit.replacement}" instead`
+          : `"${found}" is on the brand's do-not-use list`,
+        code: 'BRAND_BANNED_PHRASE',
+        severity: 'medium',
+        fixable: true,
+        locations: [range],
+        autoFix: withEdits(content, replacement ? `Replace with "${edit.replacement}"` : `Remove "${found}"`, [edit]),
+      });
+    });
+  });
+
+  const hashtags = findHashtags(content);
+  const avoided = new Set(rules.avoidedHashtags.map(normalizeHashtag));
+  hashtags
+    .filter(({ tag }) => avoided.has(tag.toLowerCase()))
+    .forEach((hashtag) => {
+      errors.push({
+        type: 'brand',
+        field: 'body',
+        message: `${hashtag.tag} is on the brand's list of hashtags to avoid`,
+        code: 'BRAND_HASHTAG_AVOIDED',
+        severity: 'medium',
+        fixable: true,
+        locations: [{ start: hashtag.start, end: hashtag.end }],
+        autoFix: withEdits(content, `Remove ${hashtag.tag}`, [removalEdit(content, hashtag)]),
+      });
+    });
+
+  if (rules.maxHashtags && hashtags.length > rules.maxHashtags) {
+    const excess = hashtags.slice(rules.maxHashtags);
+    errors.push({
+      type: 'brand',
+      field: 'body',
+      message: `${hashtags.length} hashtags; brand guidelines allow at most ${rules.maxHashtags} per post`,
+      code: 'BRAND_HASHTAG_LIMIT',
+      severity: 'medium',
+      fixable: true,
+      locations: excess.map(({ start, end }) => ({ start, end })),
+      autoFix: withEdits(
+        content,
+        `Remove the last ${excess.length} hashtag${excess.length === 1 ? '' : 's'}`,
+        excess.map((hashtag) => removalEdit(content, hashtag))
+      ),
+    });
+  }
+
+  const boilerplate = rules.boilerplate;
+  const needsBoilerplate = platforms.filter((platform) => rules.boilerplatePlatforms.includes(platform));
+  if (boilerplate && needsBoilerplate.length && !content.includes(boilerplate)) {
+    const separator = content.trim() ? '\n\n' : '';
+    errors.push({
+      type: 'brand',
+      field: 'body',
+      message: `Posts on ${needsBoilerplate.join(', ')} must end with the brand boilerplate`,
+      code: 'BRAND_BOILERPLATE_MISSING',
+      severity: 'low',
+      fixable: true,
+      autoFix: withEdits(content, 'Append the boilerplate', [
+        { start: content.length, end: content.length, replacement: `${separator}${boilerplate}` },
+      ]),
+    });
+  }
+
+  return errors;
+};
+
+// Softer voice checks that have no single right fix
+export const brandVoiceWarnings = (content: string, rules: BrandGuidelineRules): ValidationWarning[] => {
+  const warnings: ValidationWarning[] = [];
+  const mentions = (phrase: string) => findPhrase(content, phrase).length > 0;
+
+  if (rules.keyMessages.length && content.length > 100 && !rules.keyMessages.some(mentions)) {
+    warnings.push({
+      type: 'brand',
+      message: 'None of the brand\'s key messages come through',
+      suggestion: `Work in one of: ${rules.keyMessages.join('; ')}`,
+      impact: 'low',
+    });
+  }
+
+  if (rules.preferredTerms.length && content.length > 100 && !rules.preferredTerms.some(mentions)) {
+    warnings.push({
+      type: 'brand',
+      message: 'The copy uses none of the brand\'s preferred words',
+      suggestion: `Consider: ${rules.preferredTerms.join(', ')}`,
+      impact: 'low',
+    });
+  }
+
+  return warnings;
+};
+
 // Utility function for quick validation
 export const validateContent = (
   content: string,
@@ -773,23 +894,15 @@ export const validateContent = (
 
 // Auto-fix utility
 export const applyAutoFixes = (content: string, errors: ValidationError[]): string => {
-  let fixedContent = content;
+  // Located edits all refer to the original text, so they go in together before the rest
+  const edits = errors.flatMap((error) => (error.fixable && error.autoFix?.edits) || []);
+  let fixedContent = applyTextEdits(content, edits);
 
   for (const error of errors) {
-    if (error.fixable && error.autoFix) {
+    if (error.fixable && error.autoFix && !error.autoFix.edits) {
       switch (error.code) {
         case 'CONTENT_WHITESPACE':
-          fixedContent = fixedContent.replace(/\\s{3,}/g, ' ').replace(/\\n{3,}/g, '\\n\\n');
-          break;
-        case 'CONTENT_TOO_LONG':
-          if (error.autoFix.preview) {
-            fixedContent = error.autoFix.preview;
-          }
-          break;
-        case 'COMPLIANCE_FTC_DISCLOSURE':
-          if (!fixedContent.includes('#ad') && !fixedContent.includes('#sponsored')) {
-            fixedContent += '\\n\\n#ad';
-          }
+          fixedContent = fixedContent.replace(/\s{3,}/g, ' ').replace(/\n{3,}/g, '\n\n');
           break;
       }
     }
@@ -0,0 +1,112 @@
+/**
+ * Edit history
+ *
+ * Undo and redo for a text field, kept as the change between versions
+ * rather than a copy of the whole text. Typing or deleting in one place
+ * coalesces into a single step that breaks at the start of each word and
+ * after a pause, so undo goes back a word at a time like a native field.
+ */
+
+import type { TextRange } from './textEdits';
+
+export interface TextChange {
+  from: number;
+  removed: string;
+  inserted: string;
+}
+
+interface HistoryEntry extends TextChange {
+  at: number; // when the entry last changed
+  coalesce: boolean; // whether the next keystroke may join it
+}
+
+export interface EditHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export interface HistoryStep {
+  history: EditHistory;
+  text: string;
+  selection: TextRange;
+}
+
+export const MAX_HISTORY_DEPTH = 200;
+export const COALESCE_WINDOW_MS = 1000;
+
+export const emptyHistory: EditHistory = { undo: [], redo: [] };
+
+// The single replaced span that turns one text into the other
+export const diffText = (previous: string, next: string): TextChange => {
+  const shorter = Math.min(previous.length, next.length);
+  let prefix = 0;
+  while (prefix < shorter && previous[prefix] === next[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < shorter - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return {
+    from: prefix,
+    removed: previous.slice(prefix, previous.length - suffix),
+    inserted: next.slice(prefix, next.length - suffix),
+  };
+};
+
+// Typing on from the end of the last insertion, or backspacing or deleting next to the last deletion
+const coalesceChanges = (last: TextChange, next: TextChange): TextChange | undefined => {
+  if (!next.removed && !next.inserted.includes('\n') && last.inserted && next.from === last.from + last.inserted.length) {
+    if (/\s$/.test(last.inserted) && /^\S/.test(next.inserted)) return undefined;
+    return { ...last, inserted: last.inserted + next.inserted };
+  }
+  if (!next.inserted && !last.inserted) {
+    if (next.from + next.removed.length === last.from) return { ...last, from: next.from, removed: next.removed + last.removed };
+    if (next.from === last.from) return { ...last, removed: last.removed + next.removed };
+  }
+  return undefined;
+};
+
+export const recordChange = (
+  history: EditHistory,
+  previous: string,
+  next: string,
+  { coalesce = true, now = Date.now() }: { coalesce?: boolean; now?: number } = {}
+): EditHistory => {
+  if (previous === next) return history;
+
+  const change = diffText(previous, next);
+  const last = history.undo[history.undo.length - 1];
+  const merged =
+    coalesce && last?.coalesce && now - last.at < COALESCE_WINDOW_MS ? coalesceChanges(last, change) : undefined;
+
+  return {
+    undo: merged
+      ? [...history.undo.slice(0, -1), { ...merged, at: now, coalesce: true }]
+      : [...history.undo, { ...change, at: now, coalesce }].slice(-MAX_HISTORY_DEPTH),
+    redo: [],
+  };
+};
+
+// Restores the removed text and selects it
+export const undo = (history: EditHistory, text: string): HistoryStep | null => {
+  const entry = history.undo[history.undo.length - 1];
+  if (!entry) return null;
+  return {
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, { ...entry, coalesce: false }] },
+    text: text.slice(0, entry.from) + entry.removed + text.slice(entry.from + entry.inserted.length),
+    selection: { start: entry.from, end: entry.from + entry.removed.length },
+  };
+};
+
+export const redo = (history: EditHistory, text: string): HistoryStep | null => {
+  const entry = history.redo[history.redo.length - 1];
+  if (!entry) return null;
+  const caret = entry.from + entry.inserted.length;
+  return {
+    history: { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) },
+    text: text.slice(0, entry.from) + entry.inserted + text.slice(entry.from + entry.removed.length),
+    selection: { start: caret, end: caret },
+  };
+};
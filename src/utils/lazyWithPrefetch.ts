@@ -0,0 +1,28 @@
+/**
+ * Lazy Components With Prefetch
+ *
+ * `React.lazy` for a named export, plus a `prefetch` that starts loading the
+ * chunk before the component renders (e.g. when a link is hovered). Both
+ * share one import, and a failed import is retried on the next attempt.
+ */
+
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react';
+
+export type PrefetchableComponent<P = object> = LazyExoticComponent<ComponentType<P>> & {
+  prefetch: () => Promise<unknown>;
+};
+
+export const lazyWithPrefetch = <P, K extends string>(
+  load: () => Promise<Record<K, ComponentType<P>>>,
+  exportName: K
+): PrefetchableComponent<P> => {
+  let pending: Promise<Record<K, ComponentType<P>>> | undefined;
+  const prefetch = () =>
+    (pending ??= load().catch((error) => {
+      pending = undefined;
+      throw error;
+    }));
+
+  const Component = lazy(() => prefetch().then((module) => ({ default: module[exportName] })));
+  return Object.assign(Component, { prefetch });
+};
@@ -0,0 +1,204 @@
+/**
+ * Media Processing
+ *
+ * Work done in the browser before a file is uploaded: metadata (EXIF, XMP,
+ * IPTC, text chunks) is stripped from JPEG and PNG images, dimensions and
+ * duration are read, and a small JPEG thumbnail is drawn. A JPEG keeps its
+ * orientation so photos aren't shown sideways once the EXIF is gone.
+ */
+
+export interface MediaInfo {
+  width?: number;
+  height?: number;
+  duration?: number;
+}
+
+export interface PreparedMedia {
+  blob: Blob;
+  info: MediaInfo;
+  thumbnail?: string;
+}
+
+export const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.8;
+// Far enough in to skip a black first frame, without seeking through long videos
+const THUMBNAIL_FRAME_SECONDS = 1;
+const SEEK_TIMEOUT_MS = 5000;
+
+const JPEG_STRIPPED_MARKERS = [0xe1, 0xed, 0xfe]; // APP1 (EXIF, XMP), APP13 (IPTC), comments
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_STRIPPED_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    result.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return result;
+};
+
+// Orientation from an APP1 segment's payload (after the length), or undefined when it isn't EXIF
+const readExifOrientation = (segment: Uint8Array): number | undefined => {
+  const header = String.fromCharCode(...segment.subarray(0, 6));
+  if (header !== 'Exif\0\0') return undefined;
+
+  const tiff = new DataView(segment.buffer, segment.byteOffset + 6, segment.length - 6);
+  if (tiff.byteLength < 8) return undefined;
+  const little = tiff.getUint16(0) === 0x4949;
+  const ifd = tiff.getUint32(4, little);
+  if (ifd + 2 > tiff.byteLength) return undefined;
+
+  const count = tiff.getUint16(ifd, little);
+  for (let entry = 0; entry < count; entry++) {
+    const offset = ifd + 2 + entry * 12;
+    if (offset + 12 > tiff.byteLength) break;
+    if (tiff.getUint16(offset, little) === EXIF_ORIENTATION_TAG) {
+      return tiff.getUint16(offset + 8, little);
+    }
+  }
+  return undefined;
+};
+
+// An APP1 segment holding nothing but the orientation tag
+const orientationSegment = (orientation: number) =>
+  new Uint8Array([
+    0xff, 0xe1, 0x00, 0x22,
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF header, IFD at 8
+    0x00, 0x01, // one entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00, // orientation, SHORT
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ]);
+
+const stripJpeg = (bytes: Uint8Array) => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation: number | undefined;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the image data runs to the end of the file
+    if (marker === 0xda) break;
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (JPEG_STRIPPED_MARKERS.includes(marker)) {
+      if (marker === 0xe1) orientation ??= readExifOrientation(bytes.subarray(offset + 4, end));
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  kept.push(bytes.subarray(offset));
+  if (orientation && orientation !== 1) kept.splice(1, 0, orientationSegment(orientation));
+  return concat(kept);
+};
+
+const stripPng = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (!PNG_STRIPPED_CHUNKS.includes(type)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  return concat(kept);
+};
+
+// Remove metadata from JPEG and PNG bytes; anything else is returned unchanged
+export const stripImageMetadata = (bytes: Uint8Array): Uint8Array =>
+  isJpeg(bytes) ? stripJpeg(bytes) : isPng(bytes) ? stripPng(bytes) : bytes;
+
+export const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read image'));
+    image.src = url;
+  });
+
+const loadMedia = (url: string, kind: 'video' | 'audio') =>
+  new Promise<HTMLVideoElement | HTMLAudioElement>((resolve, reject) => {
+    const element = document.createElement(kind);
+    element.preload = 'metadata';
+    element.muted = true;
+    element.onloadedmetadata = () => resolve(element);
+    element.onerror = () => reject(new Error(`Could not read ${kind}`));
+    element.src = url;
+  });
+
+// Some browsers never fire `seeked` or `error` for a frame they can't decode
+const seek = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const settle = (error?: Error) => {
+      clearTimeout(timer);
+      video.onseeked = null;
+      video.onerror = null;
+      if (error) reject(error);
+      else resolve();
+    };
+    const timer = setTimeout(() => settle(new Error('Timed out seeking video')), SEEK_TIMEOUT_MS);
+    video.onseeked = () => settle();
+    video.onerror = () => settle(new Error('Could not seek video'));
+    video.currentTime = time;
+  });
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) return undefined;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+};
+
+// Read dimensions and duration and draw a thumbnail; failures leave the fields out rather than stopping the upload
+const inspect = async (blob: Blob): Promise<Omit<PreparedMedia, 'blob'>> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    if (blob.type.startsWith('image/')) {
+      const image = await loadImage(url);
+      const info = { width: image.naturalWidth, height: image.naturalHeight };
+      return { info, thumbnail: drawThumbnail(image, info.width, info.height) };
+    }
+
+    if (blob.type.startsWith('video/')) {
+      const video = (await loadMedia(url, 'video')) as HTMLVideoElement;
+      const info = { width: video.videoWidth, height: video.videoHeight, duration: video.duration };
+      const thumbnail = await seek(video, Math.min(THUMBNAIL_FRAME_SECONDS, video.duration / 2)).then(
+        () => drawThumbnail(video, info.width, info.height),
+        () => undefined
+      );
+      return { info, thumbnail };
+    }
+
+    if (blob.type.startsWith('audio/')) {
+      const audio = await loadMedia(url, 'audio');
+      return { info: { duration: audio.duration } };
+    }
+  } catch {
+    // Unreadable in this browser; the server works it out
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return { info: {} };
+};
+
+export const prepareMedia = async (file: File): Promise<PreparedMedia> => {
+  const blob = file.type === 'image/jpeg' || file.type === 'image/png'
+    ? new Blob([stripImageMetadata(new Uint8Array(await file.arrayBuffer()))], { type: file.type })
+    : file;
+
+  return { blob, ...(await inspect(blob)) };
+};
@@ -0,0 +1,163 @@
+/**
+ * Media Variants
+ *
+ * Each platform frames images its own way: Instagram's feed is square or
+ * 4:5, TikTok and Reels are 9:16, YouTube is 16:9 and LinkedIn 1.91:1. A
+ * variant is the original cropped to one of the platform's presets around a
+ * focal point, scaled down to the preset's size (never up) and re-encoded
+ * as JPEG until it fits under the platform's image size limit.
+ */
+
+import type { MediaFile } from '../store/api/mediaApi';
+
+export interface CropPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Fractions of the image's width and height, from the top left
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderedVariant {
+  blob: Blob;
+  crop: CropRect;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+// A variant saved for one platform, standing in for the original when that platform publishes
+export interface MediaVariant {
+  platform: string;
+  originalId: string;
+  preset: CropPreset;
+  focalPoint: FocalPoint;
+  file: MediaFile;
+}
+
+// The first preset of each platform is the one it starts on
+export const CROP_PRESETS: Record<string, CropPreset[]> = {
+  instagram: [
+    { id: 'square', label: 'Feed 1:1', width: 1080, height: 1080 },
+    { id: 'portrait', label: 'Feed 4:5', width: 1080, height: 1350 },
+    { id: 'vertical', label: 'Reels 9:16', width: 1080, height: 1920 },
+  ],
+  tiktok: [{ id: 'vertical', label: '9:16', width: 1080, height: 1920 }],
+  youtube: [{ id: 'landscape', label: '16:9', width: 1280, height: 720 }],
+  linkedin: [{ id: 'landscape', label: '1.91:1', width: 1200, height: 627 }],
+  facebook: [
+    { id: 'landscape', label: '1.91:1', width: 1200, height: 630 },
+    { id: 'square', label: '1:1', width: 1080, height: 1080 },
+  ],
+  twitter: [{ id: 'landscape', label: '16:9', width: 1600, height: 900 }],
+};
+
+export const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+const JPEG_QUALITIES = [0.92, 0.85, 0.75, 0.65, 0.55];
+// Below this the image is too small to be worth posting
+const MIN_SCALE = 0.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const cropPresetsFor = (platform: string): CropPreset[] => CROP_PRESETS[platform] ?? [];
+
+// The largest rectangle of the preset's shape, centred on the focal point as far as the edges allow
+export const cropRect = (source: { width: number; height: number }, preset: CropPreset, focal: FocalPoint = CENTER): CropRect => {
+  const aspect = preset.width / preset.height;
+  const width = Math.round(Math.min(source.width, source.height * aspect));
+  const height = Math.round(Math.min(source.height, width / aspect));
+
+  return {
+    x: Math.round(clamp(focal.x * source.width - width / 2, 0, source.width - width)),
+    y: Math.round(clamp(focal.y * source.height - height / 2, 0, source.height - height)),
+    width,
+    height,
+  };
+};
+
+// Scaled down to the preset, never up: a small original stays sharp at its own size
+export const variantSize = (crop: CropRect, preset: CropPreset) => {
+  const scale = Math.min(1, preset.width / crop.width);
+  return { width: Math.max(1, Math.round(crop.width * scale)), height: Math.max(1, Math.round(crop.height * scale)) };
+};
+
+/**
+ * Encode at falling quality until the result fits; if even the lowest
+ * quality is too big, shrink the image by the overshoot and go again.
+ * `encode` draws at a fraction of the full size and returns the bytes.
+ */
+export const encodeWithinLimit = async (
+  encode: (scale: number, quality: number) => Promise<Blob>,
+  maxBytes?: number
+): Promise<{ blob: Blob; scale: number; quality: number }> => {
+  if (!maxBytes) return { blob: await encode(1, JPEG_QUALITIES[0]), scale: 1, quality: JPEG_QUALITIES[0] };
+
+  let scale = 1;
+  for (;;) {
+    let smallest = Infinity;
+    for (const quality of JPEG_QUALITIES) {
+      const blob = await encode(scale, quality);
+      if (blob.size <= maxBytes) return { blob, scale, quality };
+      smallest = blob.size;
+    }
+
+    scale *= Math.min(0.9, Math.sqrt(maxBytes / smallest));
+    if (scale < MIN_SCALE) {
+      throw new Error(`Could not compress the image under ${(maxBytes / (1024 * 1024)).toFixed(1)} MB`);
+    }
+  }
+};
+
+const canvasBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), 'image/jpeg', quality)
+  );
+
+export const renderVariant = async (
+  image: HTMLImageElement,
+  preset: CropPreset,
+  focal: FocalPoint,
+  maxBytes?: number
+): Promise<RenderedVariant> => {
+  const crop = cropRect({ width: image.naturalWidth, height: image.naturalHeight }, preset, focal);
+  const size = variantSize(crop, preset);
+  const canvas = document.createElement('canvas');
+
+  const { blob, quality } = await encodeWithinLimit((scale, quality) => {
+    canvas.width = Math.max(1, Math.round(size.width * scale));
+    canvas.height = Math.max(1, Math.round(size.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return Promise.reject(new Error('Canvas is not available'));
+    // JPEG has no transparency; fill so transparent PNGs don't turn black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+    return canvasBlob(canvas, quality);
+  }, maxBytes);
+
+  return { blob, crop, width: canvas.width, height: canvas.height, quality };
+};
+
+// The operations recorded with a variant, so the server knows how it was made
+export const variantOperations = ({ crop, width, height, quality }: RenderedVariant) => ({
+  crop,
+  resize: { width, height, quality: Math.round(quality * 100) },
+  compress: { quality: Math.round(quality * 100) },
+});
+
+// The media a platform publishes: its variant of each original where there is one
+export const platformMediaIds = (mediaIds: string[], variants: MediaVariant[], platform: string) =>
+  mediaIds.map((id) => variants.find((variant) => variant.platform === platform && variant.originalId === id)?.file.id ?? id);
@@ -0,0 +1,74 @@
+/**
+ * Permissions
+ *
+ * What a user may do in the current organization and workspace: the
+ * permissions granted on their memberships plus the ones their
+ * organization role implies. Routes, navigation and actions declare an
+ * access requirement and are checked against it with `hasAccess`.
+ */
+
+import type { User } from '../store/slices/authSlice';
+import { closestPathEntry } from './routeMatching';
+
+export type OrganizationRole = User['organizationMemberships'][number]['role'];
+
+export const ROLE_PERMISSIONS: Record<OrganizationRole, string[]> = {
+  owner: ['manage_organization', 'manage_billing', 'manage_team', 'create_workspaces', 'manage_workspaces', 'view_all_analytics'],
+  admin: ['manage_team', 'create_workspaces', 'manage_workspaces', 'view_all_analytics'],
+  manager: ['create_workspaces', 'manage_workspaces'],
+  member: [],
+};
+
+// Everything listed must hold: every permission, and one of the roles when roles are given
+export interface AccessRequirement {
+  permissions?: string[];
+  roles?: OrganizationRole[];
+}
+
+export interface Access {
+  permissions: string[];
+  role: OrganizationRole | null;
+}
+
+export const organizationRole = (user: User | null, organizationId: string | undefined): OrganizationRole | null =>
+  user?.organizationMemberships.find((membership) => membership.organizationId === organizationId)?.role ?? null;
+
+// Workspace permissions are prefixed `workspace_` so they can't be mistaken for organization ones
+export const computePermissions = (
+  user: User | null,
+  organizationId: string | undefined,
+  workspaceId: string | undefined
+): string[] => {
+  if (!user) return [];
+  const permissions: string[] = [];
+
+  const membership = user.organizationMemberships.find((candidate) => candidate.organizationId === organizationId);
+  if (membership) {
+    Object.entries(membership.permissions).forEach(([key, granted]) => granted && permissions.push(key));
+    permissions.push(...ROLE_PERMISSIONS[membership.role]);
+  }
+
+  const access = user.workspaceAccess.find((candidate) => candidate.workspaceId === workspaceId);
+  if (access) {
+    Object.entries(access.permissions).forEach(([key, granted]) => granted && permissions.push(`workspace_${key}`));
+  }
+
+  return Array.from(new Set(permissions));
+};
+
+export const hasAccess = ({ permissions, role }: Access, requirement: AccessRequirement = {}) =>
+  (requirement.permissions ?? []).every((permission) => permissions.includes(permission)) &&
+  (!requirement.roles?.length || (role !== null && requirement.roles.includes(role)));
+
+// Sections restricted beyond being signed in, by path; nested paths inherit the closest entry
+export const ROUTE_ACCESS: Record<string, AccessRequirement> = {
+  '/admin': { roles: ['owner', 'admin'] },
+  '/billing': { permissions: ['manage_billing'] },
+  '/settings/organization': { permissions: ['manage_organization'] },
+};
+
+// Escalating a step reassigns it, which is workflow oversight rather than reviewing
+export const APPROVAL_ESCALATION_ACCESS: AccessRequirement = { roles: ['owner', 'admin', 'manager'] };
+
+export const routeRequirement = (pathname: string): AccessRequirement | undefined =>
+  closestPathEntry(ROUTE_ACCESS, pathname);
@@ -0,0 +1,18 @@
+/**
+ * Platform names
+ *
+ * How each social platform is written in the UI, exports and error
+ * messages.
+ */
+
+const PLATFORM_LABELS: Record<string, string> = {
+  linkedin: 'LinkedIn',
+  twitter: 'Twitter',
+  facebook: 'Facebook',
+  instagram: 'Instagram',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+export const platformLabel = (platform: string) =>
+  PLATFORM_LABELS[platform] ?? platform.charAt(0).toUpperCase() + platform.slice(1);
@@ -0,0 +1,188 @@
+/**
+ * Publishing queue engine
+ *
+ * The rules a publishing worker follows for each platform post: which jobs
+ * may start, given workspace and platform pauses and each platform's
+ * concurrency cap, and what happens after an attempt. Retryable platform
+ * errors back off exponentially; terminal errors, and jobs that run out of
+ * attempts, go to the dead-letter queue until someone re-queues them.
+ */
+
+import type {
+  PublishingError,
+  PublishingErrorKind,
+  PublishingJob,
+  QueuePause,
+} from '../store/api/publishingApi';
+
+export interface PlatformErrorDetails {
+  code?: string;
+  message: string;
+  httpStatus?: number;
+  retryAfterSeconds?: number; // from the platform's Retry-After header
+}
+
+export type PublishAttemptOutcome =
+  | { ok: true; postId: string; url: string; threadPostIds?: string[] }
+  | { ok: false; error: PlatformErrorDetails };
+
+export interface QueueEngineOptions {
+  now?: Date;
+  concurrencyLimits?: Record<string, number>;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const RETRY_BASE_DELAY_MS = 30 * 1000;
+export const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Simultaneous publish calls per platform, kept well under each API's burst limits
+export const PLATFORM_CONCURRENCY_LIMITS: Record<string, number> = {
+  twitter: 4,
+  facebook: 3,
+  linkedin: 2,
+  instagram: 2,
+  tiktok: 1,
+  youtube: 1,
+};
+
+const DEFAULT_CONCURRENCY_LIMIT = 1;
+
+const RETRYABLE_CODES = new Set(['RATE_LIMITED', 'TIMEOUT', 'NETWORK_ERROR', 'PLATFORM_UNAVAILABLE']);
+const TERMINAL_CODES = new Set([
+  'AUTH_EXPIRED',
+  'ACCOUNT_DISCONNECTED',
+  'PERMISSION_DENIED',
+  'CONTENT_REJECTED',
+  'MEDIA_INVALID',
+  'DUPLICATE_CONTENT',
+]);
+
+const PRIORITY_ORDER: Record<PublishingJob['priority'], number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Known codes win; otherwise 408, 429 and 5xx are worth retrying and any
+ * other 4xx means the request itself is wrong. Errors with nothing to go on
+ * are retried, since the retry budget still ends in the dead-letter queue.
+ */
+export const classifyPublishingError = ({ code, httpStatus }: PlatformErrorDetails): PublishingErrorKind => {
+  if (code && RETRYABLE_CODES.has(code)) return 'retryable';
+  if (code && TERMINAL_CODES.has(code)) return 'terminal';
+  if (httpStatus === 408 || httpStatus === 429 || (httpStatus !== undefined && httpStatus >= 500)) return 'retryable';
+  if (httpStatus !== undefined && httpStatus >= 400) return 'terminal';
+  return 'retryable';
+};
+
+// Exponential backoff with jitter, so failed jobs from one outage don't retry in lockstep
+export const retryDelayMs = (attempt: number, random: () => number = Math.random) => {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
+
+export const isJobPaused = (job: Pick<PublishingJob, 'workspaceId' | 'platform'>, pauses: QueuePause[]) =>
+  pauses.some((pause) => pause.workspaceId === job.workspaceId && (!pause.platform || pause.platform === job.platform));
+
+const dueAt = (job: PublishingJob) => (job.status === 'retry_scheduled' ? job.nextAttemptAt ?? job.scheduledAt : job.scheduledAt);
+
+export const isJobDue = (job: PublishingJob, now: Date) =>
+  (job.status === 'queued' || job.status === 'retry_scheduled') && new Date(dueAt(job)) <= now;
+
+/**
+ * Jobs that may start now, highest priority and longest waiting first.
+ * Each platform only gets as many as its concurrency cap leaves free after
+ * the jobs already publishing, across every workspace.
+ */
+export const selectRunnableJobs = (
+  jobs: PublishingJob[],
+  pauses: QueuePause[],
+  options: QueueEngineOptions = {}
+): PublishingJob[] => {
+  const { now = new Date(), concurrencyLimits = PLATFORM_CONCURRENCY_LIMITS } = options;
+
+  const slots = new Map<string, number>();
+  const freeSlots = (platform: string) => {
+    if (!slots.has(platform)) {
+      const active = jobs.filter((job) => job.platform === platform && job.status === 'publishing').length;
+      slots.set(platform, (concurrencyLimits[platform] ?? DEFAULT_CONCURRENCY_LIMIT) - active);
+    }
+    return slots.get(platform)!;
+  };
+
+  return jobs
+    .filter((job) => isJobDue(job, now) && !isJobPaused(job, pauses))
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || dueAt(a).localeCompare(dueAt(b)))
+    .filter((job) => {
+      const free = freeSlots(job.platform);
+      if (free <= 0) return false;
+      slots.set(job.platform, free - 1);
+      return true;
+    });
+};
+
+export const startJob = (job: PublishingJob, now: Date = new Date()): PublishingJob => ({
+  ...job,
+  status: 'publishing',
+  attempts: job.attempts + 1,
+  startedAt: now.toISOString(),
+  nextAttemptAt: undefined,
+  updatedAt: now.toISOString(),
+});
+
+/**
+ * Moves a publishing job on after an attempt: published on success, back
+ * in the queue after a backoff for retryable errors, or dead-lettered when
+ * the error is terminal or the attempts are used up.
+ */
+export const applyAttemptResult = (
+  job: PublishingJob,
+  outcome: PublishAttemptOutcome,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): PublishingJob => {
+  const timestamp = now.toISOString();
+
+  if (outcome.ok) {
+    return {
+      ...job,
+      status: 'published',
+      completedAt: timestamp,
+      lastError: undefined,
+      result: { postId: outcome.postId, url: outcome.url, threadPostIds: outcome.threadPostIds },
+      updatedAt: timestamp,
+    };
+  }
+
+  const { code = 'UNKNOWN', message, httpStatus, retryAfterSeconds } = outcome.error;
+  const error: PublishingError = {
+    code,
+    message,
+    kind: classifyPublishingError(outcome.error),
+    httpStatus,
+    occurredAt: timestamp,
+  };
+  const failed = { ...job, lastError: error, errors: [...job.errors, error], updatedAt: timestamp };
+
+  if (error.kind === 'terminal' || job.attempts >= job.maxAttempts) {
+    return { ...failed, status: 'dead_lettered', completedAt: timestamp };
+  }
+
+  const delay = Math.max(retryDelayMs(job.attempts, random), (retryAfterSeconds ?? 0) * 1000);
+  return { ...failed, status: 'retry_scheduled', nextAttemptAt: new Date(now.getTime() + delay).toISOString() };
+};
+
+// Re-queued jobs get a fresh retry budget; the error history stays for reference
+export const requeueJob = (job: PublishingJob, now: Date = new Date()): PublishingJob => ({
+  ...job,
+  status: 'queued',
+  attempts: 0,
+  nextAttemptAt: undefined,
+  startedAt: undefined,
+  completedAt: undefined,
+  lastError: undefined,
+  updatedAt: now.toISOString(),
+});
+
+export const canRequeueJob = (job: PublishingJob) =>
+  job.status === 'dead_lettered' || job.status === 'retry_scheduled' || job.status === 'cancelled';
+
+export const canCancelJob = (job: PublishingJob) =>
+  job.status === 'queued' || job.status === 'retry_scheduled' || job.status === 'dead_lettered';
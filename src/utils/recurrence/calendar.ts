@@ -0,0 +1,45 @@
+/**
+ * Calendar-day arithmetic
+ *
+ * Dates here are plain calendar days with no time zone attached, computed on
+ * UTC so the host machine's zone never shifts them.
+ */
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDayNumber = ({ year, month, day }: LocalDate) => Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+
+export const fromDayNumber = (dayNumber: number): LocalDate => {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+export const addDays = (date: LocalDate, days: number) => fromDayNumber(toDayNumber(date) + days);
+
+// 0 = Sunday, matching Date#getDay and `RecurrenceRule.daysOfWeek`
+export const weekdayOf = (date: LocalDate) => (((toDayNumber(date) + 4) % 7) + 7) % 7;
+
+export const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const isValidDate = ({ year, month, day }: LocalDate) =>
+  month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+
+export const dateKey = ({ year, month, day }: LocalDate) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+export const nthWeekdayOfMonth = (year: number, month: number, weekday: number, nth: number): LocalDate => {
+  const first = weekdayOf({ year, month, day: 1 });
+  return { year, month, day: 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7 };
+};
+
+export const lastWeekdayOfMonth = (year: number, month: number, weekday: number): LocalDate => {
+  const lastDay = daysInMonth(year, month);
+  const last = weekdayOf({ year, month, day: lastDay });
+  return { year, month, day: lastDay - ((last - weekday + 7) % 7) };
+};
@@ -0,0 +1,139 @@
+/**
+ * Holiday calendars
+ *
+ * Public holidays used by `skipHolidays`. Dates are calendar days in the
+ * rule's own time zone, keyed as `YYYY-MM-DD`. Observed days are included
+ * where a holiday falling on a weekend moves to a weekday.
+ */
+
+import { addDays, dateKey, lastWeekdayOfMonth, nthWeekdayOfMonth, weekdayOf, type LocalDate } from './calendar';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  getHolidays: (year: number) => Holiday[];
+}
+
+const holiday = (date: LocalDate, name: string): Holiday => ({ date: dateKey(date), name });
+
+// Anonymous Gregorian algorithm
+const easterSunday = (year: number): LocalDate => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { year, month, day };
+};
+
+// US federal rule: Saturday holidays are observed on Friday, Sunday ones on Monday
+const usObserved = (date: LocalDate, name: string): Holiday[] => {
+  const weekday = weekdayOf(date);
+  if (weekday === 6) return [holiday(date, name), holiday(addDays(date, -1), `${name} (observed)`)];
+  if (weekday === 0) return [holiday(date, name), holiday(addDays(date, 1), `${name} (observed)`)];
+  return [holiday(date, name)];
+};
+
+const US: HolidayCalendar = {
+  id: 'US',
+  name: 'United States (federal)',
+  getHolidays: (year) => [
+    ...usObserved({ year, month: 1, day: 1 }, "New Year's Day"),
+    holiday(nthWeekdayOfMonth(year, 1, 1, 3), 'Martin Luther King Jr. Day'),
+    holiday(nthWeekdayOfMonth(year, 2, 1, 3), "Washington's Birthday"),
+    holiday(lastWeekdayOfMonth(year, 5, 1), 'Memorial Day'),
+    ...usObserved({ year, month: 6, day: 19 }, 'Juneteenth'),
+    ...usObserved({ year, month: 7, day: 4 }, 'Independence Day'),
+    holiday(nthWeekdayOfMonth(year, 9, 1, 1), 'Labor Day'),
+    holiday(nthWeekdayOfMonth(year, 10, 1, 2), 'Columbus Day'),
+    ...usObserved({ year, month: 11, day: 11 }, 'Veterans Day'),
+    holiday(nthWeekdayOfMonth(year, 11, 4, 4), 'Thanksgiving Day'),
+    ...usObserved({ year, month: 12, day: 25 }, 'Christmas Day'),
+  ],
+};
+
+// UK substitute days: weekend holidays move to the next weekday not already a holiday
+const gbWithSubstitutes = (dates: { date: LocalDate; name: string }[]): Holiday[] => {
+  const taken = new Set(dates.map(({ date }) => dateKey(date)));
+  return dates.flatMap(({ date, name }) => {
+    const weekday = weekdayOf(date);
+    if (weekday !== 0 && weekday !== 6) return [holiday(date, name)];
+
+    let substitute = addDays(date, weekday === 6 ? 2 : 1);
+    while (taken.has(dateKey(substitute)) || weekdayOf(substitute) === 0 || weekdayOf(substitute) === 6) {
+      substitute = addDays(substitute, 1);
+    }
+    taken.add(dateKey(substitute));
+    return [holiday(date, name), holiday(substitute, `${name} (substitute day)`)];
+  });
+};
+
+const GB: HolidayCalendar = {
+  id: 'GB',
+  name: 'United Kingdom (England & Wales)',
+  getHolidays: (year) => {
+    const easter = easterSunday(year);
+    return [
+      ...gbWithSubstitutes([
+        { date: { year, month: 1, day: 1 }, name: "New Year's Day" },
+        { date: { year, month: 12, day: 25 }, name: 'Christmas Day' },
+        { date: { year, month: 12, day: 26 }, name: 'Boxing Day' },
+      ]),
+      holiday(addDays(easter, -2), 'Good Friday'),
+      holiday(addDays(easter, 1), 'Easter Monday'),
+      holiday(nthWeekdayOfMonth(year, 5, 1, 1), 'Early May bank holiday'),
+      holiday(lastWeekdayOfMonth(year, 5, 1), 'Spring bank holiday'),
+      holiday(lastWeekdayOfMonth(year, 8, 1), 'Summer bank holiday'),
+    ];
+  },
+};
+
+const calendars = new Map<string, HolidayCalendar>([
+  [US.id, US],
+  [GB.id, GB],
+]);
+
+export const DEFAULT_HOLIDAY_CALENDAR = US.id;
+
+export const getHolidayCalendars = (): HolidayCalendar[] => Array.from(calendars.values());
+
+// Lets an organization add its own calendar (company shutdown days, regional holidays)
+export const registerHolidayCalendar = (calendar: HolidayCalendar) => {
+  calendars.set(calendar.id, calendar);
+  holidayCache.clear();
+};
+
+const holidayCache = new Map<string, Map<string, string>>();
+
+const holidaysFor = (calendarId: string, year: number) => {
+  const cacheKey = `${calendarId}:${year}`;
+  let holidays = holidayCache.get(cacheKey);
+  if (!holidays) {
+    const calendar = calendars.get(calendarId);
+    holidays = new Map((calendar?.getHolidays(year) ?? []).map(({ date, name }) => [date, name]));
+    holidayCache.set(cacheKey, holidays);
+  }
+  return holidays;
+};
+
+// Name of the holiday on this day, or undefined for a working day
+export const getHoliday = (calendarId: string, date: LocalDate): string | undefined => {
+  const key = dateKey(date);
+  // New Year's Day on a Saturday is observed on December 31st of the year before
+  return holidaysFor(calendarId, date.year).get(key)
+    ?? (date.month === 12 ? holidaysFor(calendarId, date.year + 1).get(key) : undefined);
+};
@@ -0,0 +1,182 @@
+/**
+ * iCalendar import/export for recurrence rules
+ *
+ * A `RecurrenceRule` round-trips through the DTSTART, RRULE and EXDATE
+ * properties of RFC 5545. Times sharing a minute become BYHOUR/BYMINUTE
+ * on one RRULE; times such as 09:00 and 17:30 can't be expressed as one
+ * BYHOUR × BYMINUTE product, so each distinct minute gets its own RRULE line.
+ */
+
+import type { RecurrenceRule } from '../../types/scheduling';
+import { parseTimes, toRecurrencePattern, type TimeOfDay } from './occurrences';
+import { formatRRule, formatUtcDateTime, parseRRule, type RecurrencePattern } from './rrule';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc, type LocalDateTime } from './timezone';
+
+export type ImportedRecurrence = Pick<
+  RecurrenceRule,
+  'frequency' | 'interval' | 'daysOfWeek' | 'daysOfMonth' | 'times' | 'rrule' | 'exceptions'
+> & {
+  scheduling: RecurrenceRule['scheduling'];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatLocalDateTime = ({ year, month, day, hour, minute, second = 0 }: LocalDateTime) =>
+  `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(second)}`;
+
+const formatTime = ({ hour, minute }: TimeOfDay) => `${pad(hour)}:${pad(minute)}`;
+
+// DTSTART and EXDATE carry the rule's zone so they survive DST shifts in other calendars
+const formatDateTimeProperty = (name: string, dates: Date[], timeZone: string) =>
+  timeZone === 'UTC'
+    ? `${name}:${dates.map(formatUtcDateTime).join(',')}`
+    : `${name};TZID=${timeZone}:${dates.map((date) => formatLocalDateTime(getZonedParts(date, timeZone))).join(',')}`;
+
+const groupTimesByMinute = (times: TimeOfDay[]) => {
+  const groups = new Map<number, number[]>();
+  times.forEach(({ hour, minute }) => groups.set(minute, [...(groups.get(minute) ?? []), hour]));
+  return Array.from(groups.entries()).map(([minute, hours]) => ({ minute, hours: hours.sort((a, b) => a - b) }));
+};
+
+/**
+ * Serializes a rule as iCalendar content lines (CRLF separated), ready to
+ * embed in a VEVENT or paste into another scheduler.
+ */
+export const exportRecurrenceRule = (rule: RecurrenceRule): string => {
+  const pattern = toRecurrencePattern(rule);
+  if (!pattern) throw new Error(`Rule "${rule.name}" has no recurrence pattern to export`);
+
+  const timeZone = rule.scheduling.timezone || 'UTC';
+  const times = parseTimes(rule.times);
+  const startParts = getZonedParts(rule.scheduling.startDate, timeZone);
+  const firstTime = times[0] ?? { hour: startParts.hour, minute: startParts.minute };
+  const start = zonedTimeToUtc({ ...startParts, ...firstTime, second: 0 }, timeZone);
+
+  // COUNT also counts EXDATEs, so a rule with exceptions ends a little earlier elsewhere than here
+  const base: RecurrencePattern = {
+    ...pattern,
+    count: rule.scheduling.maxPosts ?? pattern.count,
+    until: rule.scheduling.endDate ?? pattern.until,
+  };
+  const rrules = times.length
+    ? groupTimesByMinute(times).map(({ minute, hours }) => ({ ...base, byHour: hours, byMinute: [minute] }))
+    : [base];
+
+  const lines = [
+    formatDateTimeProperty('DTSTART', [start], timeZone),
+    ...rrules.map((rrule) => `RRULE:${formatRRule(rrule)}`),
+  ];
+  if (rule.exceptions?.length) lines.push(formatDateTimeProperty('EXDATE', rule.exceptions, timeZone));
+
+  return lines.join('\r\n');
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Unfolds continuation lines and splits NAME;PARAM=x:VALUE
+const parseContentLines = (text: string): ContentLine[] =>
+  text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const colon = line.indexOf(':');
+      // A bare "FREQ=...;..." line is accepted as an RRULE
+      if (colon === -1) return { name: 'RRULE', params: {}, value: line };
+
+      const [name, ...params] = line.slice(0, colon).split(';');
+      return {
+        name: name.toUpperCase(),
+        params: Object.fromEntries(params.map((param) => {
+          const [key, value = ''] = param.split('=');
+          return [key.toUpperCase(), value.replace(/^"|"$/g, '')];
+        })),
+        value: line.slice(colon + 1),
+      };
+    });
+
+const parseDateTimeValue = (value: string, timeZone: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid date-time "${value}"`);
+
+  const [year, month, day, hour = 0, minute = 0, second = 0] = match
+    .slice(1, 7)
+    .map((part) => (part === undefined ? undefined : Number(part))) as number[];
+  const utc = match[7] === 'Z';
+  return utc
+    ? new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+    : zonedTimeToUtc({ year, month, day, hour, minute, second }, timeZone);
+};
+
+const sameExceptTimes = (a: RecurrencePattern, b: RecurrencePattern) =>
+  formatRRule({ ...a, byHour: undefined, byMinute: undefined }) === formatRRule({ ...b, byHour: undefined, byMinute: undefined });
+
+// Fits the simple daily/weekly/monthly shapes the editor offers, otherwise keeps the raw RRULE
+const toRuleShape = (pattern: RecurrencePattern): Pick<RecurrenceRule, 'frequency' | 'interval' | 'daysOfWeek' | 'daysOfMonth' | 'rrule'> => {
+  const { frequency, interval, byMonth, byMonthDay, byDay, bySetPos, weekStart } = pattern;
+  const plain = !byMonth && !bySetPos && weekStart === 1;
+
+  if (plain && frequency === 'DAILY' && !byMonthDay && !byDay) return { frequency: 'daily', interval };
+  if (plain && frequency === 'WEEKLY' && !byDay?.some(({ ordinal }) => ordinal)) {
+    return { frequency: 'weekly', interval, daysOfWeek: byDay?.map(({ weekday }) => weekday) };
+  }
+  if (plain && frequency === 'MONTHLY' && !byDay) return { frequency: 'monthly', interval, daysOfMonth: byMonthDay };
+
+  return {
+    frequency: 'custom',
+    interval,
+    rrule: formatRRule({ ...pattern, count: undefined, until: undefined, byHour: undefined, byMinute: undefined }),
+  };
+};
+
+/**
+ * Reads DTSTART, RRULE and EXDATE lines (or a bare RRULE) back into the
+ * fields of a `RecurrenceRule`. Throws with a readable message when the
+ * text uses something the scheduler can't represent.
+ */
+export const importRecurrenceRule = (text: string, defaultTimeZone = 'UTC'): ImportedRecurrence => {
+  const lines = parseContentLines(text);
+  const dtstart = lines.find((line) => line.name === 'DTSTART');
+  const timeZone = dtstart?.params.TZID || defaultTimeZone;
+  if (!isValidTimeZone(timeZone)) throw new Error(`Unknown time zone "${timeZone}"`);
+
+  const patterns = lines.filter((line) => line.name === 'RRULE').map((line) => parseRRule(line.value));
+  if (!patterns.length) throw new Error('No RRULE found');
+  if (patterns.some((pattern) => !sameExceptTimes(pattern, patterns[0]))) {
+    throw new Error('Multiple RRULE lines are only supported when they differ by time of day');
+  }
+
+  const startDate = dtstart ? parseDateTimeValue(dtstart.value, timeZone) : new Date();
+  const startParts = getZonedParts(startDate, timeZone);
+
+  const times = patterns
+    .flatMap((pattern) =>
+      (pattern.byHour ?? [startParts.hour]).flatMap((hour) =>
+        (pattern.byMinute ?? [startParts.minute]).map((minute) => formatTime({ hour, minute }))
+      )
+    )
+    .filter((time, index, all) => all.indexOf(time) === index)
+    .sort();
+
+  const exceptions = lines
+    .filter((line) => line.name === 'EXDATE')
+    .flatMap((line) => line.value.split(',').map((value) => parseDateTimeValue(value, line.params.TZID || timeZone)));
+
+  const [pattern] = patterns;
+  return {
+    ...toRuleShape(pattern),
+    times,
+    exceptions: exceptions.length ? exceptions : undefined,
+    scheduling: {
+      startDate,
+      endDate: pattern.until,
+      maxPosts: pattern.count,
+      timezone: timeZone,
+    },
+  };
+};
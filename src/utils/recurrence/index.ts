@@ -0,0 +1,21 @@
+export {
+  listOccurrences,
+  getUpcomingOccurrences,
+  getNextOccurrence,
+  toRecurrencePattern,
+  toRecurrenceSet,
+  type OccurrenceQuery,
+  type RecurrenceSet,
+  type TimeOfDay,
+} from './occurrences';
+export { parseRRule, formatRRule, formatUtcDateTime, type RecurrencePattern, type WeekdayRule } from './rrule';
+export { exportRecurrenceRule, importRecurrenceRule, type ImportedRecurrence } from './ical';
+export {
+  DEFAULT_HOLIDAY_CALENDAR,
+  getHoliday,
+  getHolidayCalendars,
+  registerHolidayCalendar,
+  type Holiday,
+  type HolidayCalendar,
+} from './holidays';
+export { getZonedParts, isValidTimeZone, zonedTimeToUtc } from './timezone';
@@ -0,0 +1,292 @@
+/**
+ * Occurrence expansion
+ *
+ * Expands a recurrence pattern into concrete instants. Candidates are built
+ * period by period (day, week, month or year) as wall-clock times in the
+ * rule's time zone and only then converted to instants, so a 09:00 post
+ * stays at 09:00 local time on both sides of a DST change.
+ *
+ * COUNT limits the instances the pattern generates, as in RFC 5545;
+ * exception dates, skipped weekends and skipped holidays are removed
+ * afterwards and still count towards it. A rule's post limit is applied
+ * after them instead, so "stop after 10 posts" means 10 posts go out.
+ *
+ * Exceptions match by slot (local date, hour and minute in the rule's
+ * time zone) rather than by exact instant: a date picked in the editor
+ * rarely lands on the same millisecond, and a slot stays put when the
+ * zone's offset changes.
+ */
+
+import type { RecurrenceRule } from '../../types/scheduling';
+import {
+  daysInMonth,
+  fromDayNumber,
+  isValidDate,
+  toDayNumber,
+  weekdayOf,
+  type LocalDate,
+} from './calendar';
+import { DEFAULT_HOLIDAY_CALENDAR, getHoliday } from './holidays';
+import { parseRRule, type RecurrencePattern, type WeekdayRule } from './rrule';
+import { getZonedParts, zonedTimeToUtc, type LocalDateTime } from './timezone';
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+export interface RecurrenceSet {
+  pattern: RecurrencePattern;
+  start: Date; // DTSTART; nothing occurs before it
+  timeZone: string;
+  times?: TimeOfDay[]; // overrides BYHOUR/BYMINUTE when given
+  exceptions?: Date[]; // matched by local date and time, see slotKey
+  maxOccurrences?: number; // cap on occurrences left after exclusions
+  skipWeekends?: boolean;
+  holidayCalendar?: string; // skip holidays from this calendar
+}
+
+export interface OccurrenceQuery {
+  after?: Date; // inclusive
+  before?: Date; // exclusive
+  limit?: number;
+}
+
+// Stops rules that can never match (BYMONTH=2;BYMONTHDAY=30) from looping forever
+const MAX_PERIODS = 20000;
+
+const unique = (values: number[]) => Array.from(new Set(values)).sort((a, b) => a - b);
+
+const resolveMonthDay = (year: number, month: number, monthDay: number) =>
+  monthDay > 0 ? monthDay : daysInMonth(year, month) + monthDay + 1;
+
+// Days of `weekday` in a span of days, optionally narrowed to the nth (or nth from last)
+const weekdaysInSpan = (firstDay: number, lastDay: number, { weekday, ordinal }: WeekdayRule) => {
+  const offset = (weekday - weekdayOf(fromDayNumber(firstDay)) + 7) % 7;
+  const matches: number[] = [];
+  for (let day = firstDay + offset; day <= lastDay; day += 7) matches.push(day);
+
+  if (!ordinal) return matches;
+  const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+  return match === undefined ? [] : [match];
+};
+
+const daysOfMonth = (pattern: RecurrencePattern, year: number, month: number, start: LocalDate) => {
+  const firstDay = toDayNumber({ year, month, day: 1 });
+  const lastDay = firstDay + daysInMonth(year, month) - 1;
+
+  const byMonthDay = pattern.byMonthDay
+    ?.map((monthDay) => ({ year, month, day: resolveMonthDay(year, month, monthDay) }))
+    .filter(isValidDate)
+    .map(toDayNumber);
+
+  if (pattern.byDay?.length) {
+    const byDay = pattern.byDay.flatMap((rule) => weekdaysInSpan(firstDay, lastDay, rule));
+    return byMonthDay ? byDay.filter((day) => byMonthDay.includes(day)) : byDay;
+  }
+  if (byMonthDay) return byMonthDay;
+
+  const date = { year, month, day: start.day };
+  return isValidDate(date) ? [toDayNumber(date)] : [];
+};
+
+const matchesFilters = (pattern: RecurrencePattern, dayNumber: number) => {
+  const date = fromDayNumber(dayNumber);
+  if (pattern.byMonth && !pattern.byMonth.includes(date.month)) return false;
+  if (
+    pattern.byMonthDay &&
+    !pattern.byMonthDay.some((monthDay) => resolveMonthDay(date.year, date.month, monthDay) === date.day)
+  ) {
+    return false;
+  }
+  if (pattern.byDay && !pattern.byDay.some(({ weekday }) => weekday === weekdayOf(date))) return false;
+  return true;
+};
+
+// Calendar days of the period `index` intervals after the start
+const daysOfPeriod = (pattern: RecurrencePattern, start: LocalDate, index: number): number[] => {
+  const step = index * pattern.interval;
+  const startDay = toDayNumber(start);
+
+  switch (pattern.frequency) {
+    case 'DAILY': {
+      const day = startDay + step;
+      return matchesFilters(pattern, day) ? [day] : [];
+    }
+
+    case 'WEEKLY': {
+      const weekStart = startDay - ((weekdayOf(start) - pattern.weekStart + 7) % 7) + step * 7;
+      const weekdays = pattern.byDay?.map(({ weekday }) => weekday) ?? [weekdayOf(start)];
+      return Array.from({ length: 7 }, (_, offset) => weekStart + offset).filter(
+        (day) =>
+          weekdays.includes(weekdayOf(fromDayNumber(day))) &&
+          (!pattern.byMonth || pattern.byMonth.includes(fromDayNumber(day).month))
+      );
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      if (pattern.byMonth && !pattern.byMonth.includes(month)) return [];
+      return daysOfMonth(pattern, year, month, start);
+    }
+
+    case 'YEARLY': {
+      const year = start.year + step;
+      if (pattern.byMonth) {
+        return pattern.byMonth.flatMap((month) => daysOfMonth(pattern, year, month, start));
+      }
+      if (pattern.byDay?.length) {
+        // Without BYMONTH, numbered weekdays count through the whole year
+        const firstDay = toDayNumber({ year, month: 1, day: 1 });
+        const lastDay = toDayNumber({ year, month: 12, day: 31 });
+        const byDay = pattern.byDay.flatMap((rule) => weekdaysInSpan(firstDay, lastDay, rule));
+        return pattern.byMonthDay ? byDay.filter((day) => matchesFilters(pattern, day)) : byDay;
+      }
+      if (pattern.byMonthDay) {
+        return Array.from({ length: 12 }, (_, month) => daysOfMonth(pattern, year, month + 1, start)).flat();
+      }
+      const date = { year, month: start.month, day: start.day };
+      return isValidDate(date) ? [toDayNumber(date)] : [];
+    }
+  }
+};
+
+const timesOf = (set: RecurrenceSet, start: TimeOfDay): TimeOfDay[] => {
+  if (set.times?.length) {
+    return [...set.times].sort((a, b) => a.hour - b.hour || a.minute - b.minute);
+  }
+  const hours = set.pattern.byHour ?? [start.hour];
+  const minutes = set.pattern.byMinute ?? [start.minute];
+  return unique(hours).flatMap((hour) => unique(minutes).map((minute) => ({ hour, minute })));
+};
+
+const applySetPos = <T>(items: T[], positions?: number[]) => {
+  if (!positions?.length) return items;
+  return unique(positions.map((position) => (position > 0 ? position - 1 : items.length + position)))
+    .filter((index) => index >= 0 && index < items.length)
+    .map((index) => items[index]);
+};
+
+const slotKey = ({ year, month, day, hour, minute }: Omit<LocalDateTime, 'second'>) =>
+  `${year}-${month}-${day}T${hour}:${minute}`;
+
+const isExcluded = (set: RecurrenceSet, day: LocalDate, time: TimeOfDay, exceptions: Set<string>) => {
+  if (exceptions.has(slotKey({ ...day, ...time }))) return true;
+
+  const weekday = weekdayOf(day);
+  if (set.skipWeekends && (weekday === 0 || weekday === 6)) return true;
+  return Boolean(set.holidayCalendar && getHoliday(set.holidayCalendar, day));
+};
+
+/**
+ * Lists occurrences of a recurrence set in chronological order. Without a
+ * `limit` or `before` bound the pattern itself must end (COUNT or UNTIL).
+ */
+export const listOccurrences = (set: RecurrenceSet, query: OccurrenceQuery = {}): Date[] => {
+  const { pattern, timeZone } = set;
+  const startParts = getZonedParts(set.start, timeZone);
+  const startDate: LocalDate = { year: startParts.year, month: startParts.month, day: startParts.day };
+  const times = timesOf(set, startParts);
+  const exceptions = new Set((set.exceptions ?? []).map((date) => slotKey(getZonedParts(date, timeZone))));
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+  let kept = 0;
+
+  for (let index = 0; index < MAX_PERIODS; index += 1) {
+    const candidates = unique(daysOfPeriod(pattern, startDate, index)).flatMap((dayNumber) =>
+      times.map((time) => ({ day: fromDayNumber(dayNumber), time }))
+    );
+
+    const instants = applySetPos(candidates, pattern.bySetPos)
+      .map(({ day, time }) => ({ day, time, instant: zonedTimeToUtc({ ...day, ...time }, timeZone) }))
+      .filter(({ instant }) => instant >= set.start)
+      .sort((a, b) => a.instant.getTime() - b.instant.getTime());
+
+    for (const { day, time, instant } of instants) {
+      if (pattern.until && instant > pattern.until) return occurrences;
+      if (query.before && instant >= query.before) return occurrences;
+
+      generated += 1;
+      if (pattern.count && generated > pattern.count) return occurrences;
+      if (isExcluded(set, day, time, exceptions)) continue;
+
+      // Posts before `after` still used up the limit
+      kept += 1;
+      if (set.maxOccurrences && kept > set.maxOccurrences) return occurrences;
+
+      if (!query.after || instant >= query.after) {
+        occurrences.push(instant);
+        if (query.limit && occurrences.length >= query.limit) return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+};
+
+const parseTime = (time: string): TimeOfDay | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+};
+
+export const parseTimes = (times: string[]) =>
+  times.map(parseTime).filter((time): time is TimeOfDay => time !== null);
+
+// The RRULE a `RecurrenceRule` describes, before its own end date and post limit are applied
+export const toRecurrencePattern = (rule: RecurrenceRule): RecurrencePattern | null => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+  switch (rule.frequency) {
+    case 'daily':
+      return { frequency: 'DAILY', interval, weekStart: 1 };
+    case 'weekly':
+      return {
+        frequency: 'WEEKLY',
+        interval,
+        weekStart: 1,
+        byDay: rule.daysOfWeek?.length ? rule.daysOfWeek.map((weekday) => ({ weekday })) : undefined,
+      };
+    case 'monthly':
+      return {
+        frequency: 'MONTHLY',
+        interval,
+        weekStart: 1,
+        byMonthDay: rule.daysOfMonth?.length ? rule.daysOfMonth : undefined,
+      };
+    case 'custom':
+      return rule.rrule ? parseRRule(rule.rrule) : null;
+  }
+};
+
+export const toRecurrenceSet = (rule: RecurrenceRule): RecurrenceSet | null => {
+  const pattern = toRecurrencePattern(rule);
+  if (!pattern) return null;
+
+  return {
+    pattern: { ...pattern, until: rule.scheduling.endDate ?? pattern.until },
+    start: rule.scheduling.startDate,
+    timeZone: rule.scheduling.timezone || 'UTC',
+    times: parseTimes(rule.times),
+    exceptions: rule.exceptions,
+    maxOccurrences: rule.scheduling.maxPosts,
+    skipWeekends: rule.optimization.skipWeekends,
+    holidayCalendar: rule.optimization.skipHolidays
+      ? rule.optimization.holidayCalendar || DEFAULT_HOLIDAY_CALENDAR
+      : undefined,
+  };
+};
+
+// The next `count` posts a rule will create, starting from `from`
+export const getUpcomingOccurrences = (rule: RecurrenceRule, count: number, from = new Date()): Date[] => {
+  const set = toRecurrenceSet(rule);
+  return set ? listOccurrences(set, { after: from, limit: count }) : [];
+};
+
+export const getNextOccurrence = (rule: RecurrenceRule, from = new Date()): Date | null =>
+  getUpcomingOccurrences(rule, 1, from)[0] ?? null;
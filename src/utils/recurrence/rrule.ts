@@ -0,0 +1,161 @@
+/**
+ * RRULE parsing and formatting (RFC 5545 §3.3.10)
+ *
+ * Supports the DAILY, WEEKLY, MONTHLY and YEARLY frequencies with INTERVAL,
+ * COUNT, UNTIL, BYMONTH, BYMONTHDAY, BYDAY (with ordinals), BYSETPOS,
+ * BYHOUR, BYMINUTE and WKST. Sub-daily frequencies and BYYEARDAY/BYWEEKNO
+ * are rejected rather than silently ignored.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  weekday: number; // 0 = Sunday
+  ordinal?: number; // 2 = second, -1 = last; only with MONTHLY or YEARLY
+}
+
+export interface RecurrencePattern {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: WeekdayRule[];
+  bySetPos?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  weekStart: number;
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export const formatUtcDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// UNTIL is a UTC date-time; a bare date means the end of that day
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) throw new Error(`Invalid UNTIL value "${value}"`);
+
+  const [, year, month, day, hour = 23, minute = 59, second = 59] = match.map((part) =>
+    part === undefined ? undefined : Number(part)
+  ) as number[];
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+};
+
+const parseNumberList = (name: string, value: string, min: number, max: number, allowNegative = false) =>
+  value.split(',').map((item) => {
+    const number = Number(item);
+    const magnitude = Math.abs(number);
+    if (!Number.isInteger(number) || magnitude < min || magnitude > max || (number < 0 && !allowNegative)) {
+      throw new Error(`Invalid ${name} value "${item}"`);
+    }
+    return number;
+  });
+
+const parseWeekday = (code: string) => {
+  const weekday = WEEKDAY_CODES.indexOf(code.toUpperCase());
+  if (weekday === -1) throw new Error(`Invalid weekday "${code}"`);
+  return weekday;
+};
+
+const parseByDay = (value: string): WeekdayRule[] =>
+  value.split(',').map((item) => {
+    const match = /^([+-]?\d{1,2})?([A-Za-z]{2})$/.exec(item);
+    if (!match) throw new Error(`Invalid BYDAY value "${item}"`);
+
+    const weekday = parseWeekday(match[2]);
+    if (!match[1]) return { weekday };
+
+    const ordinal = Number(match[1]);
+    if (ordinal === 0 || Math.abs(ordinal) > 53) throw new Error(`Invalid BYDAY value "${item}"`);
+    return { weekday, ordinal };
+  });
+
+export const parseRRule = (value: string): RecurrencePattern => {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  body.split(';').filter(Boolean).forEach((part) => {
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined) throw new Error(`Invalid RRULE part "${part}"`);
+    parts.set(key.toUpperCase(), partValue);
+  });
+
+  const frequency = parts.get('FREQ')?.toUpperCase() as RecurrenceFrequency | undefined;
+  if (!frequency) throw new Error('RRULE is missing FREQ');
+  if (!FREQUENCIES.includes(frequency)) throw new Error(`Unsupported frequency "${frequency}"`);
+
+  const pattern: RecurrencePattern = { frequency, interval: 1, weekStart: 1 };
+
+  parts.forEach((partValue, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        [pattern.interval] = parseNumberList(key, partValue, 1, 1000);
+        break;
+      case 'COUNT':
+        [pattern.count] = parseNumberList(key, partValue, 1, 100000);
+        break;
+      case 'UNTIL':
+        pattern.until = parseUntil(partValue);
+        break;
+      case 'BYMONTH':
+        pattern.byMonth = parseNumberList(key, partValue, 1, 12);
+        break;
+      case 'BYMONTHDAY':
+        pattern.byMonthDay = parseNumberList(key, partValue, 1, 31, true);
+        break;
+      case 'BYDAY':
+        pattern.byDay = parseByDay(partValue);
+        break;
+      case 'BYSETPOS':
+        pattern.bySetPos = parseNumberList(key, partValue, 1, 366, true);
+        break;
+      case 'BYHOUR':
+        pattern.byHour = parseNumberList(key, partValue, 0, 23);
+        break;
+      case 'BYMINUTE':
+        pattern.byMinute = parseNumberList(key, partValue, 0, 59);
+        break;
+      case 'WKST':
+        pattern.weekStart = parseWeekday(partValue);
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  });
+
+  if (pattern.count && pattern.until) throw new Error('COUNT and UNTIL cannot be combined');
+  if (pattern.byDay?.some(({ ordinal }) => ordinal) && !['MONTHLY', 'YEARLY'].includes(frequency)) {
+    throw new Error('Numbered BYDAY values need a MONTHLY or YEARLY frequency');
+  }
+  if (pattern.byMonthDay && frequency === 'WEEKLY') throw new Error('BYMONTHDAY cannot be used with WEEKLY');
+
+  return pattern;
+};
+
+const formatByDay = ({ weekday, ordinal }: WeekdayRule) => `${ordinal ?? ''}${WEEKDAY_CODES[weekday]}`;
+
+export const formatRRule = (pattern: RecurrencePattern): string => {
+  const parts = [`FREQ=${pattern.frequency}`];
+
+  if (pattern.interval !== 1) parts.push(`INTERVAL=${pattern.interval}`);
+  if (pattern.count) parts.push(`COUNT=${pattern.count}`);
+  if (pattern.until) parts.push(`UNTIL=${formatUtcDateTime(pattern.until)}`);
+  if (pattern.byMonth?.length) parts.push(`BYMONTH=${pattern.byMonth.join(',')}`);
+  if (pattern.byMonthDay?.length) parts.push(`BYMONTHDAY=${pattern.byMonthDay.join(',')}`);
+  if (pattern.byDay?.length) parts.push(`BYDAY=${pattern.byDay.map(formatByDay).join(',')}`);
+  if (pattern.bySetPos?.length) parts.push(`BYSETPOS=${pattern.bySetPos.join(',')}`);
+  if (pattern.byHour?.length) parts.push(`BYHOUR=${pattern.byHour.join(',')}`);
+  if (pattern.byMinute?.length) parts.push(`BYMINUTE=${pattern.byMinute.join(',')}`);
+  if (pattern.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[pattern.weekStart]}`);
+
+  return parts.join(';');
+};
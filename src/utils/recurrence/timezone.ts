@@ -0,0 +1,92 @@
+/**
+ * Time zone helpers
+ *
+ * Converts between instants and wall-clock times in an IANA time zone using
+ * the platform's Intl data, so recurrences keep their local time across DST
+ * changes without shipping a time zone database.
+ */
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getZonedParts = (date: Date, timeZone: string): LocalDateTime => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const wallClockMs = ({ year, month, day, hour, minute, second = 0 }: LocalDateTime) =>
+  Date.UTC(year, month - 1, day, hour, minute, second);
+
+// Offset of the zone from UTC at an instant, in milliseconds
+export const getTimeZoneOffset = (instant: number, timeZone: string) =>
+  wallClockMs(getZonedParts(new Date(instant), timeZone)) - Math.floor(instant / 1000) * 1000;
+
+/**
+ * Resolves a wall-clock time in a zone to an instant, following RFC 5545:
+ * a time skipped by a DST gap is shifted forward by the length of the gap,
+ * and a time repeated when clocks go back resolves to its first occurrence.
+ */
+export const zonedTimeToUtc = (local: LocalDateTime, timeZone: string): Date => {
+  const wall = wallClockMs(local);
+  // Any transition near this time falls between these two offsets
+  const offsetBefore = getTimeZoneOffset(wall - 12 * HOUR, timeZone);
+  const offsetAfter = getTimeZoneOffset(wall + 12 * HOUR, timeZone);
+
+  const valid = [offsetBefore, offsetAfter]
+    .map((offset) => wall - offset)
+    .filter((instant) => wallClockMs(getZonedParts(new Date(instant), timeZone)) === wall);
+
+  if (valid.length) return new Date(Math.min(...valid));
+  return new Date(wall - offsetBefore);
+};
@@ -0,0 +1,330 @@
+/**
+ * Rich text documents
+ *
+ * The structured form of post copy: paragraphs and lists of inline nodes,
+ * which are text, links, mentions, hashtags and emoji, each optionally bold
+ * or italic. Copy is stored as Markdown; `parseMarkdown` and `toMarkdown`
+ * convert between the two. Each platform has a renderer for what it can
+ * show: Unicode bold and italic on LinkedIn, plain text on X and the other
+ * networks, and HTML for email.
+ */
+
+import { findUrls, isEmoji, segmentGraphemes } from './textMetrics';
+
+export type InlineMark = 'bold' | 'italic';
+
+export type InlineNode = (
+  | { type: 'text'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'mention'; handle: string }
+  | { type: 'hashtag'; tag: string }
+  | { type: 'emoji'; emoji: string }
+) & { marks: InlineMark[] }; // in MARK_ORDER
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] };
+
+export interface RichTextDocument {
+  blocks: BlockNode[];
+}
+
+const MARK_ORDER: InlineMark[] = ['bold', 'italic'];
+
+// Markdown parsing
+
+const LIST_ITEM = /^\s*(?:([-*•])|(\d+)[.)])\s+(.*)$/;
+
+// Emphasis as written in Markdown source, shared with the editor's formatting commands. Italic
+// with * also works inside words; with _ it only wraps whole words
+export const BOLD_SYNTAX = String.raw`\*\*(?<bold>[^\n]+?)\*\*`;
+export const ITALIC_SYNTAX = String.raw`(?<![\\*])\*(?<starItalic>[^\s*](?:[^\n*]*[^\s*\\])?)\*(?!\*)|(?<![\p{L}\p{N}\\_])_(?<underscoreItalic>[^\s_](?:[^\n_]*[^\s_\\])?)_(?![\p{L}\p{N}_])`;
+
+// Escapes, then links, bold and italic
+const INLINE_SYNTAX = new RegExp(
+  String.raw`\\(?<escaped>[\\*_[\]#@\-•.)])|\[(?<linkText>[^\]\n]+)\]\((?<href>[^)\s]+)\)|${BOLD_SYNTAX}|${ITALIC_SYNTAX}`,
+  'gu'
+);
+
+export const MENTION_PATTERN = /(?<![\p{L}\p{N}_@.])@([A-Za-z0-9_]{1,30})/gu;
+
+// A hashtag needs a letter, so "#1" stays text
+export const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_#&])#((?=[\p{N}_]*\p{L})[\p{L}\p{N}_]+)/gu;
+
+const withMarks = (marks: InlineMark[], mark: InlineMark) => MARK_ORDER.filter((m) => m === mark || marks.includes(m));
+
+const sameMarks = (a: InlineMark[], b: InlineMark[]) => a.length === b.length && a.every((mark, i) => mark === b[i]);
+
+// Links, mentions, hashtags and emoji in unformatted text
+const parseAtoms = (text: string, marks: InlineMark[]): InlineNode[] => {
+  const atoms: { start: number; end: number; node: InlineNode }[] = [
+    ...findUrls(text).map(({ start, end }) => {
+      const url = text.slice(start, end);
+      return { start, end, node: { type: 'link' as const, text: url, href: url, marks } };
+    }),
+    ...Array.from(text.matchAll(MENTION_PATTERN), (match) => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      node: { type: 'mention' as const, handle: match[1], marks },
+    })),
+    ...Array.from(text.matchAll(HASHTAG_PATTERN), (match) => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      node: { type: 'hashtag' as const, tag: match[1], marks },
+    })),
+  ];
+
+  let offset = 0;
+  segmentGraphemes(text).forEach((grapheme) => {
+    if (isEmoji(grapheme)) {
+      atoms.push({ start: offset, end: offset + grapheme.length, node: { type: 'emoji', emoji: grapheme, marks } });
+    }
+    offset += grapheme.length;
+  });
+
+  const nodes: InlineNode[] = [];
+  let position = 0;
+  atoms
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, end, node }) => {
+      if (start < position) return;
+      if (start > position) nodes.push({ type: 'text', text: text.slice(position, start), marks });
+      nodes.push(node);
+      position = end;
+    });
+  if (position < text.length) nodes.push({ type: 'text', text: text.slice(position), marks });
+  return nodes;
+};
+
+const parseInline = (source: string, marks: InlineMark[] = []): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let position = 0;
+
+  for (const match of source.matchAll(INLINE_SYNTAX)) {
+    const { escaped, linkText, href, bold, starItalic, underscoreItalic } = match.groups!;
+    nodes.push(...parseAtoms(source.slice(position, match.index), marks));
+    if (escaped !== undefined) nodes.push({ type: 'text', text: escaped, marks });
+    else if (linkText !== undefined) nodes.push({ type: 'link', text: linkText.replace(/\\(.)/g, '$1'), href, marks });
+    else if (bold !== undefined) nodes.push(...parseInline(bold, withMarks(marks, 'bold')));
+    else nodes.push(...parseInline(starItalic ?? underscoreItalic, withMarks(marks, 'italic')));
+    position = match.index! + match[0].length;
+  }
+  nodes.push(...parseAtoms(source.slice(position), marks));
+
+  // Escapes and nested marks leave neighbouring text in pieces
+  return nodes.reduce<InlineNode[]>((merged, node) => {
+    const previous = merged[merged.length - 1];
+    if (previous?.type === 'text' && node.type === 'text' && sameMarks(previous.marks, node.marks)) {
+      merged[merged.length - 1] = { ...previous, text: previous.text + node.text };
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+};
+
+export const parseMarkdown = (markdown: string): RichTextDocument => {
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map((item) => parseInline(item)) });
+    paragraph = [];
+    list = null;
+  };
+
+  markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .forEach((line) => {
+      if (!line.trim()) return flush();
+
+      const item = line.match(LIST_ITEM);
+      if (item) {
+        const ordered = item[2] !== undefined;
+        if (paragraph.length || (list && list.ordered !== ordered)) flush();
+        if (!list) list = { ordered, items: [] };
+        list.items.push(item[3]);
+        return;
+      }
+
+      if (list) flush();
+      paragraph.push(line);
+    });
+  flush();
+
+  return { blocks };
+};
+
+// Markdown serialization
+
+const escapeMarkdown = (text: string) =>
+  text
+    .replace(/[\\*[\]]/g, '\\$&')
+    .replace(/(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu, '\\_')
+    .replace(/(?<![\p{L}\p{N}_@.])@(?=[A-Za-z0-9_])/gu, '\\@')
+    .replace(/(?<![\p{L}\p{N}_#&])#(?=[\p{N}_]*\p{L})/gu, '\\#')
+    // Lines that would otherwise read as list items
+    .replace(/^(\s*)([-•])(?=\s)/gm, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s)/gm, '$1\\$2');
+
+const atomMarkdown = (node: InlineNode): string => {
+  switch (node.type) {
+    case 'text':
+      return escapeMarkdown(node.text);
+    case 'link':
+      return node.text === node.href ? node.href : `[${node.text.replace(/[\\\]]/g, '\\$&')}](${node.href})`;
+    case 'mention':
+      return `@${node.handle}`;
+    case 'hashtag':
+      return `#${node.tag}`;
+    case 'emoji':
+      return node.emoji;
+  }
+};
+
+// Consecutive nodes that do or don't carry a mark
+const markRuns = (nodes: InlineNode[], mark: InlineMark) =>
+  nodes.reduce<{ marked: boolean; nodes: InlineNode[] }[]>((runs, node) => {
+    const marked = node.marks.includes(mark);
+    const run = runs[runs.length - 1];
+    if (run?.marked === marked) run.nodes.push(node);
+    else runs.push({ marked, nodes: [node] });
+    return runs;
+  }, []);
+
+const italicMarkdown = (nodes: InlineNode[]) => {
+  const runs = markRuns(nodes, 'italic').map(({ marked, nodes: run }) => ({
+    marked,
+    markdown: run.map(atomMarkdown).join(''),
+  }));
+  return runs
+    .map(({ marked, markdown }, index) => {
+      if (!marked || !markdown.trim()) return markdown;
+      // Italic delimiters have to touch the text, and _ only works between words
+      const [, leading, core, trailing] = markdown.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      const before = leading || runs[index - 1]?.markdown.slice(-1) || '';
+      const after = trailing || runs[index + 1]?.markdown.charAt(0) || '';
+      const delimiter = /[\p{L}\p{N}]/u.test(before + after) ? '*' : '_';
+      return leading + delimiter + core + delimiter + trailing;
+    })
+    .join('');
+};
+
+// Italic nests inside bold, so "**Acme _Cold Brew_**" keeps one pair of bold delimiters
+const inlineMarkdown = (nodes: InlineNode[]) =>
+  markRuns(nodes, 'bold')
+    .map(({ marked, nodes: run }) => (marked ? `**${italicMarkdown(run)}**` : italicMarkdown(run)))
+    .join('');
+
+export const toMarkdown = ({ blocks }: RichTextDocument): string =>
+  blocks
+    .map((block) =>
+      block.type === 'paragraph'
+        ? inlineMarkdown(block.children)
+        : block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${inlineMarkdown(item)}`).join('\n')
+    )
+    .join('\n\n');
+
+// Renderers
+
+// Mathematical sans-serif letters: capital A, small a and digit zero for each style
+const UNICODE_STYLES: Record<string, [number, number, number | null]> = {
+  bold: [0x1d5d4, 0x1d5ee, 0x1d7ec],
+  italic: [0x1d608, 0x1d622, null],
+  'bold italic': [0x1d63c, 0x1d656, 0x1d7ec],
+};
+
+const styleText = (text: string, marks: InlineMark[]) => {
+  const style = UNICODE_STYLES[marks.join(' ')];
+  if (!style) return text;
+  const [capital, small, digit] = style;
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0)!;
+    if (code >= 65 && code <= 90) return String.fromCodePoint(capital + code - 65);
+    if (code >= 97 && code <= 122) return String.fromCodePoint(small + code - 97);
+    if (digit !== null && code >= 48 && code <= 57) return String.fromCodePoint(digit + code - 48);
+    return char;
+  }).join('');
+};
+
+const linkText = ({ text, href }: { text: string; href: string }) => (text === href ? href : `${text} (${href})`);
+
+const renderText = (document: RichTextDocument, inline: (node: InlineNode) => string) =>
+  document.blocks
+    .map((block) =>
+      block.type === 'paragraph'
+        ? block.children.map(inline).join('')
+        : block.items
+            .map((item, index) => `${block.ordered ? `${index + 1}.` : '•'} ${item.map(inline).join('')}`)
+            .join('\n')
+    )
+    .join('\n\n');
+
+const plainInline = (node: InlineNode): string => {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'link':
+      return linkText(node);
+    case 'mention':
+      return `@${node.handle}`;
+    case 'hashtag':
+      return `#${node.tag}`;
+    case 'emoji':
+      return node.emoji;
+  }
+};
+
+// Formatting dropped, links spelled out: what networks without rich text show
+export const renderPlainText = (document: RichTextDocument) => renderText(document, plainInline);
+
+// Bold and italic as Unicode letters, which LinkedIn shows as formatted text; mentions and hashtags stay plain so they still link
+export const renderUnicodeText = (document: RichTextDocument) =>
+  renderText(document, (node) =>
+    node.type === 'text' || node.type === 'link' ? styleText(plainInline(node), node.marks) : plainInline(node)
+  );
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Bare domains get a scheme; anything but web and mail links is dropped
+const safeHref = (href: string) => {
+  const absolute = /^[a-z][a-z\d+.-]*:/i.test(href) ? href : `https://${href}`;
+  return /^(https?|mailto):/i.test(absolute) ? absolute : undefined;
+};
+
+const htmlInline = (node: InlineNode): string => {
+  let html = escapeHtml(plainInline(node)).replace(/\n/g, '<br>');
+  if (node.type === 'link') {
+    const href = safeHref(node.href);
+    html = href ? `<a href="${escapeHtml(href)}">${escapeHtml(node.text)}</a>` : escapeHtml(node.text);
+  }
+  if (node.marks.includes('italic')) html = `<em>${html}</em>`;
+  if (node.marks.includes('bold')) html = `<strong>${html}</strong>`;
+  return html;
+};
+
+export const renderHtml = ({ blocks }: RichTextDocument) =>
+  blocks
+    .map((block) => {
+      if (block.type === 'paragraph') return `<p>${block.children.map(htmlInline).join('')}</p>`;
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map((item) => `<li>${item.map(htmlInline).join('')}</li>`).join('')}</${tag}>`;
+    })
+    .join('\n');
+
+// Platforms not listed get plain text
+const RENDERERS: Record<string, (document: RichTextDocument) => string> = {
+  linkedin: renderUnicodeText,
+  email: renderHtml,
+  markdown: toMarkdown,
+};
+
+// Renders for a platform, 'email' or 'markdown'
+export const renderDocument = (document: RichTextDocument, target: string) =>
+  (RENDERERS[target] ?? renderPlainText)(document);
+
+export const renderMarkdown = (markdown: string, target: string) => renderDocument(parseMarkdown(markdown), target);
@@ -0,0 +1,127 @@
+/**
+ * Rich text commands
+ *
+ * Toolbar and shortcut actions for Markdown copy in a plain text field.
+ * Each takes the text and selection and returns the new text with the
+ * selection to restore, so the editor records it as a single undo step.
+ */
+
+import { BOLD_SYNTAX, ITALIC_SYNTAX, type InlineMark } from './richText';
+import type { TextRange } from './textEdits';
+
+export interface EditResult {
+  text: string;
+  selection: TextRange;
+}
+
+interface MarkSpan {
+  outer: TextRange; // including the delimiters
+  inner: TextRange;
+}
+
+const MARK_SYNTAX: Record<InlineMark, string> = { bold: BOLD_SYNTAX, italic: ITALIC_SYNTAX };
+
+const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+const markSpans = (markdown: string, mark: InlineMark): MarkSpan[] =>
+  Array.from(markdown.matchAll(new RegExp(MARK_SYNTAX[mark], 'gu')), (match) => {
+    const { bold, starItalic, underscoreItalic } = match.groups!;
+    const delimiter = (match[0].length - (bold ?? starItalic ?? underscoreItalic).length) / 2;
+    const start = match.index!;
+    const end = start + match[0].length;
+    return { outer: { start, end }, inner: { start: start + delimiter, end: end - delimiter } };
+  });
+
+const within = (selection: TextRange, { start, end }: TextRange) => start <= selection.start && selection.end <= end;
+
+export const activeMarks = (markdown: string, selection: TextRange): InlineMark[] =>
+  (['bold', 'italic'] as const).filter((mark) =>
+    markSpans(markdown, mark).some(({ inner }) => within(selection, inner))
+  );
+
+export const replaceSelection = (markdown: string, { start, end }: TextRange, text: string): EditResult => ({
+  text: markdown.slice(0, start) + text + markdown.slice(end),
+  selection: { start: start + text.length, end: start + text.length },
+});
+
+// Removes the mark when the selection is inside it, otherwise wraps the selection (or a placeholder)
+export const toggleMark = (markdown: string, selection: TextRange, mark: InlineMark): EditResult => {
+  const span = markSpans(markdown, mark).find(({ inner }) => within(selection, inner));
+  if (span) {
+    const delimiter = span.inner.start - span.outer.start;
+    return {
+      text:
+        markdown.slice(0, span.outer.start) +
+        markdown.slice(span.inner.start, span.inner.end) +
+        markdown.slice(span.outer.end),
+      selection: { start: selection.start - delimiter, end: selection.end - delimiter },
+    };
+  }
+
+  // Whitespace stays outside the delimiters, or Markdown would not read them as emphasis
+  let { start, end } = selection;
+  while (start < end && /\s/.test(markdown[start])) start++;
+  while (end > start && /\s/.test(markdown[end - 1])) end--;
+  let core = markdown.slice(start, end) || 'text';
+
+  // "***" is ambiguous, so italic next to other delimiters uses _ and bold around *italic* switches it to _italic_
+  let delimiter = '**';
+  if (mark === 'italic') {
+    delimiter = /[\p{L}\p{N}]/u.test(`${markdown[start - 1] ?? ''}${markdown[end] ?? ''}`) ? '*' : '_';
+  } else {
+    const italic = markSpans(markdown, 'italic').find(
+      ({ outer, inner }) => inner.start === start && inner.end === end && markdown[outer.start] === '*'
+    );
+    if (italic) {
+      start = italic.outer.start;
+      end = italic.outer.end;
+      core = `_${core}_`;
+    }
+  }
+
+  const open = start + delimiter.length;
+  return {
+    text: markdown.slice(0, start) + delimiter + core + delimiter + markdown.slice(end),
+    selection: { start: open, end: open + core.length },
+  };
+};
+
+// Turns the selected lines into a list, or back into paragraphs when they already are one
+export const toggleList = (markdown: string, selection: TextRange, ordered: boolean): EditResult => {
+  const start = selection.start > 0 ? markdown.lastIndexOf('\n', selection.start - 1) + 1 : 0;
+  const lineEnd = markdown.indexOf('\n', selection.end);
+  const end = lineEnd === -1 ? markdown.length : lineEnd;
+  const lines = markdown.slice(start, end).split('\n');
+
+  const marker = ordered ? /^\s*\d+[.)]\s+/ : /^\s*[-*•]\s+/;
+  const filled = lines.filter((line) => line.trim());
+  const isList = filled.length > 0 && filled.every((line) => marker.test(line));
+
+  let number = 0;
+  const block = lines
+    .map((line) => {
+      if (!line.trim() && lines.length > 1) return line;
+      const body = line.replace(LIST_MARKER, '');
+      if (isList) return body;
+      number += 1;
+      return `${ordered ? `${number}.` : '-'} ${body}`;
+    })
+    .join('\n');
+
+  const collapsed = selection.start === selection.end;
+  return {
+    text: markdown.slice(0, start) + block + markdown.slice(end),
+    selection: { start: collapsed ? start + block.length : start, end: start + block.length },
+  };
+};
+
+// Links the selected words, or inserts the bare URL when nothing is selected
+export const insertLink = (markdown: string, selection: TextRange, url: string): EditResult => {
+  const href = url.trim().replace(/\s/g, '%20').replace(/\)/g, '%29');
+  const label = markdown.slice(selection.start, selection.end).trim();
+  return replaceSelection(
+    markdown,
+    selection,
+    label && label !== href ? `[${label.replace(/[\\\]]/g, '\\$&')}](${href})` : href
+  );
+};
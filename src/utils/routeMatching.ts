@@ -0,0 +1,15 @@
+/**
+ * Route Matching
+ *
+ * Tables keyed by path (route access, lazy pages) apply to nested paths
+ * too. `closestPathEntry` resolves a pathname to the entry with the
+ * longest key that equals it or is one of its parent paths, so
+ * `/billing` covers `/billing/invoices` but not `/billingsupport`.
+ */
+
+export const closestPathEntry = <T>(table: Record<string, T>, pathname: string): T | undefined => {
+  const match = Object.keys(table)
+    .filter((path) => pathname === path || pathname.startsWith(`${path}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : undefined;
+};
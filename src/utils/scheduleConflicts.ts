@@ -0,0 +1,164 @@
+/**
+ * Schedule conflict detection
+ *
+ * Checks a post's new slot before it is rescheduled: platform posting
+ * limits and slots in the past block the move, while collisions on the same
+ * account and posts closer than the workspace's minimum spacing only warn.
+ * Each platform of a piece of content is checked as its own post.
+ */
+
+import { format } from 'date-fns';
+import { platformLabel } from './platforms';
+
+export interface ScheduledPost {
+  contentId: string;
+  title: string;
+  platform: string;
+  accountId?: string; // defaults to the workspace's single account for the platform
+  scheduledAt: Date;
+}
+
+export interface PlatformPostingLimit {
+  perHour?: number;
+  perDay?: number;
+}
+
+export type ScheduleConflictType = 'past' | 'rate_limit' | 'collision' | 'spacing';
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  severity: 'error' | 'warning';
+  platform?: string;
+  message: string;
+  post?: ScheduledPost; // the post it clashes with
+}
+
+export interface ConflictCheckOptions {
+  minSpacingMinutes?: number;
+  collisionWindowMinutes?: number;
+  limits?: Record<string, PlatformPostingLimit>;
+  now?: Date;
+}
+
+// Conservative caps below each platform's publishing API quota; the server has the final say
+export const PLATFORM_POSTING_LIMITS: Record<string, PlatformPostingLimit> = {
+  twitter: { perHour: 10, perDay: 50 },
+  linkedin: { perHour: 5, perDay: 25 },
+  facebook: { perHour: 10, perDay: 50 },
+  instagram: { perHour: 5, perDay: 25 },
+  tiktok: { perHour: 3, perDay: 15 },
+  youtube: { perDay: 6 },
+};
+
+export const DEFAULT_MIN_SPACING_MINUTES = 60;
+const DEFAULT_COLLISION_WINDOW_MINUTES = 15;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const sameAccount = (a: ScheduledPost, b: ScheduledPost) =>
+  a.platform === b.platform && (a.accountId ?? '') === (b.accountId ?? '');
+
+const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / MINUTE;
+
+const describePost = (post: ScheduledPost) => `"${post.title}" at ${format(post.scheduledAt, 'MMM d, HH:mm')}`;
+
+// Most posts any rolling window of `length` ms holding `post` would contain
+const busiestWindow = (post: ScheduledPost, others: ScheduledPost[], length: number) => {
+  const times = [post, ...others].map(({ scheduledAt }) => scheduledAt.getTime());
+  const at = post.scheduledAt.getTime();
+
+  return times
+    .filter((start) => start <= at && at < start + length)
+    .reduce((max, start) => Math.max(max, times.filter((time) => time >= start && time < start + length).length), 0);
+};
+
+const rateLimitConflicts = (post: ScheduledPost, others: ScheduledPost[], limit: PlatformPostingLimit | undefined) => {
+  const windows = [
+    { max: limit?.perHour, length: HOUR, label: 'hour' },
+    { max: limit?.perDay, length: DAY, label: 'day' },
+  ];
+
+  return windows.flatMap<ScheduleConflict>(({ max, length, label }) => {
+    if (!max) return [];
+    const count = busiestWindow(post, others, length);
+    return count > max
+      ? [{
+          type: 'rate_limit',
+          severity: 'error',
+          platform: post.platform,
+          message: `${platformLabel(post.platform)} allows ${max} posts per ${label}; this slot would make ${count}`,
+        }]
+      : [];
+  });
+};
+
+/**
+ * Lists what is wrong with moving `moved` (one entry per platform, at the
+ * new time) among the `others` already on the calendar. Posts of the same
+ * content in `others` are ignored.
+ */
+export const findScheduleConflicts = (
+  moved: ScheduledPost[],
+  others: ScheduledPost[],
+  options: ConflictCheckOptions = {}
+): ScheduleConflict[] => {
+  const {
+    minSpacingMinutes = DEFAULT_MIN_SPACING_MINUTES,
+    collisionWindowMinutes = DEFAULT_COLLISION_WINDOW_MINUTES,
+    limits = PLATFORM_POSTING_LIMITS,
+    now = new Date(),
+  } = options;
+
+  const contentIds = new Set(moved.map(({ contentId }) => contentId));
+  const existing = others.filter(({ contentId }) => !contentIds.has(contentId));
+  const conflicts: ScheduleConflict[] = [];
+
+  if (moved.some(({ scheduledAt }) => scheduledAt < now)) {
+    conflicts.push({ type: 'past', severity: 'error', message: 'The new time is in the past' });
+  }
+
+  const colliding = new Set<string>();
+  moved.forEach((post) => {
+    const account = existing.filter((other) => sameAccount(post, other));
+    conflicts.push(...rateLimitConflicts(post, account, limits[post.platform]));
+
+    account
+      .filter((other) => minutesBetween(post.scheduledAt, other.scheduledAt) < collisionWindowMinutes)
+      .forEach((other) => {
+        colliding.add(other.contentId);
+        conflicts.push({
+          type: 'collision',
+          severity: 'warning',
+          platform: post.platform,
+          message: `${platformLabel(post.platform)} already has ${describePost(other)}`,
+          post: other,
+        });
+      });
+  });
+
+  // Spacing is workspace-wide, so report each nearby piece of content once
+  if (minSpacingMinutes > 0) {
+    const reported = new Set(colliding);
+    moved.forEach((post) =>
+      existing.forEach((other) => {
+        const gap = minutesBetween(post.scheduledAt, other.scheduledAt);
+        if (gap >= minSpacingMinutes || reported.has(other.contentId)) return;
+
+        reported.add(other.contentId);
+        conflicts.push({
+          type: 'spacing',
+          severity: 'warning',
+          message: `${describePost(other)} is only ${Math.round(gap)} min away; the workspace asks for ${minSpacingMinutes} min between posts`,
+          post: other,
+        });
+      })
+    );
+  }
+
+  return conflicts;
+};
+
+export const hasBlockingConflict = (conflicts: ScheduleConflict[]) =>
+  conflicts.some(({ severity }) => severity === 'error');
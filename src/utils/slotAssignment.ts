@@ -0,0 +1,226 @@
+/**
+ * Slot assignment for bulk scheduling
+ *
+ * Places content into the time slots of scheduling rules. Items are placed
+ * highest priority first and each takes the best free slot of the earliest
+ * week with room, so urgent posts get the times that have performed best.
+ * A slot is free when every platform of the item is at least the rule's
+ * spacing away from posts already placed or already on the calendar.
+ * Blackout dates are skipped.
+ * The same input always gives the same schedule, and items that could not
+ * be placed come back with the reason.
+ */
+
+import { addDays, format, startOfDay } from 'date-fns';
+import { platformLabel } from './platforms';
+import type { ScheduledPost } from './scheduleConflicts';
+import type { PostingTimeAnalysis } from '../store/api/advancedAnalyticsApi';
+
+export interface SlotRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  platforms: string[];
+  timeSlots: string[]; // HH:mm, local time
+  daysOfWeek: number[]; // 0 = Sunday
+  spacing: number; // hours between posts on the same platform
+  priority: 'low' | 'medium' | 'high';
+}
+
+export interface SlotItem {
+  id: string;
+  title: string;
+  platforms: string[];
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+}
+
+export interface SlotAssignment {
+  itemId: string;
+  ruleId: string;
+  scheduledAt: Date;
+  engagementRate?: number; // historical engagement for the slot, when known
+}
+
+export type UnplacedReason = 'no_matching_rule' | 'no_open_slots' | 'spacing';
+
+export interface UnplacedItem {
+  itemId: string;
+  reason: UnplacedReason;
+  message: string;
+}
+
+export interface SlotAssignmentResult {
+  assignments: SlotAssignment[];
+  unplaced: UnplacedItem[];
+}
+
+export interface SlotAssignmentOptions {
+  start?: Date;
+  horizonDays?: number;
+  existing?: ScheduledPost[]; // content already on the calendar
+  blackoutDates?: string[]; // yyyy-MM-dd, local time
+  postingTimes?: PostingTimeAnalysis[];
+}
+
+export const DEFAULT_HORIZON_DAYS = 30;
+
+const HOUR = 60 * 60 * 1000;
+const WEEK = 7 * 24 * HOUR;
+
+const ITEM_PRIORITY: Record<SlotItem['priority'], number> = { urgent: 4, high: 3, medium: 2, low: 1 };
+const RULE_PRIORITY: Record<SlotRule['priority'], number> = { high: 3, medium: 2, low: 1 };
+
+interface CandidateSlot {
+  rule: SlotRule;
+  time: Date;
+}
+
+// Every time slot of the enabled rules inside the horizon, earliest first
+const candidateSlots = (rules: SlotRule[], start: Date, horizonDays: number, blackoutDates: Set<string>) => {
+  const slots: CandidateSlot[] = [];
+
+  for (let offset = 0; offset < horizonDays; offset++) {
+    const day = addDays(startOfDay(start), offset);
+    if (blackoutDates.has(format(day, 'yyyy-MM-dd'))) continue;
+
+    rules
+      .filter((rule) => rule.enabled && rule.daysOfWeek.includes(day.getDay()))
+      .forEach((rule) =>
+        rule.timeSlots.forEach((timeSlot) => {
+          const [hours, minutes] = timeSlot.split(':').map(Number);
+          const time = new Date(day);
+          time.setHours(hours, minutes, 0, 0);
+          if (time > start) slots.push({ rule, time });
+        })
+      );
+  }
+
+  return slots.sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+// Mean historical engagement for the slot's weekday and hour across the item's platforms
+const engagementFor = (time: Date, platforms: string[], postingTimes: PostingTimeAnalysis[]) => {
+  const matches = postingTimes.filter(
+    (entry) =>
+      entry.dayOfWeek === time.getDay() &&
+      entry.hour === time.getHours() &&
+      (!entry.platform || platforms.includes(entry.platform))
+  );
+  return matches.length
+    ? matches.reduce((sum, entry) => sum + entry.avgEngagementRate, 0) / matches.length
+    : undefined;
+};
+
+interface RankedSlot extends CandidateSlot {
+  week: number;
+  engagementRate?: number;
+}
+
+// Weeks fill in order so nothing waits for next week's copy of a good slot. Within a
+// week the best performing slot wins; without data the rule's priority, then the earlier time
+const compareSlots = (a: RankedSlot, b: RankedSlot) =>
+  a.week - b.week ||
+  (b.engagementRate ?? -1) - (a.engagementRate ?? -1) ||
+  RULE_PRIORITY[b.rule.priority] - RULE_PRIORITY[a.rule.priority] ||
+  a.time.getTime() - b.time.getTime();
+
+// Posts on the item's platforms closer to `time` than the rule's spacing
+const spacingClashes = (time: Date, platforms: string[], spacingHours: number, posts: ScheduledPost[]) =>
+  posts.filter((post) => {
+    if (!platforms.includes(post.platform)) return false;
+    const gap = Math.abs(post.scheduledAt.getTime() - time.getTime());
+    return gap === 0 || gap < spacingHours * HOUR;
+  });
+
+const listPlatforms = (platforms: string[]) => platforms.map(platformLabel).join(', ');
+
+/**
+ * Assigns each item a time from the enabled rules that cover at least one
+ * of its platforms. Every platform of an item goes out at that time.
+ */
+export const assignSlots = (
+  items: SlotItem[],
+  rules: SlotRule[],
+  options: SlotAssignmentOptions = {}
+): SlotAssignmentResult => {
+  const {
+    start = new Date(),
+    horizonDays = DEFAULT_HORIZON_DAYS,
+    existing = [],
+    blackoutDates = [],
+    postingTimes = [],
+  } = options;
+
+  const itemIds = new Set(items.map(({ id }) => id));
+  const placed = existing.filter(({ contentId }) => !itemIds.has(contentId));
+  const firstDay = startOfDay(start);
+  const slots = candidateSlots(rules, start, horizonDays, new Set(blackoutDates));
+  const result: SlotAssignmentResult = { assignments: [], unplaced: [] };
+
+  // Stable sort keeps the caller's order within a priority
+  const ordered = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => ITEM_PRIORITY[b.item.priority] - ITEM_PRIORITY[a.item.priority] || a.index - b.index)
+    .map(({ item }) => item);
+
+  ordered.forEach((item) => {
+    const matchingRules = rules.filter(
+      (rule) => rule.enabled && rule.platforms.some((platform) => item.platforms.includes(platform))
+    );
+    if (!matchingRules.length) {
+      result.unplaced.push({
+        itemId: item.id,
+        reason: 'no_matching_rule',
+        message: item.platforms.length
+          ? `No enabled rule covers ${listPlatforms(item.platforms)}`
+          : 'The item has no platforms',
+      });
+      return;
+    }
+
+    const ruleSlots = slots.filter(({ rule }) => matchingRules.includes(rule));
+    if (!ruleSlots.length) {
+      result.unplaced.push({
+        itemId: item.id,
+        reason: 'no_open_slots',
+        message: `Its rules have no time slots in the next ${horizonDays} days outside blackout dates`,
+      });
+      return;
+    }
+
+    const best = ruleSlots
+      .filter(({ rule, time }) => !spacingClashes(time, item.platforms, rule.spacing, placed).length)
+      .map((slot): RankedSlot => ({
+        ...slot,
+        week: Math.floor((slot.time.getTime() - firstDay.getTime()) / WEEK),
+        engagementRate: engagementFor(slot.time, item.platforms, postingTimes),
+      }))
+      .sort(compareSlots)[0];
+
+    if (!best) {
+      const crowded = new Set(
+        ruleSlots.flatMap(({ rule, time }) =>
+          spacingClashes(time, item.platforms, rule.spacing, placed).map(({ platform }) => platform)
+        )
+      );
+      result.unplaced.push({
+        itemId: item.id,
+        reason: 'spacing',
+        message: `All ${ruleSlots.length} matching slots in the next ${horizonDays} days are too close to other posts on ${listPlatforms(Array.from(crowded))}`,
+      });
+      return;
+    }
+
+    result.assignments.push({
+      itemId: item.id,
+      ruleId: best.rule.id,
+      scheduledAt: best.time,
+      engagementRate: best.engagementRate,
+    });
+    item.platforms.forEach((platform) =>
+      placed.push({ contentId: item.id, title: item.title, platform, scheduledAt: best.time })
+    );
+  });
+
+  return result;
+};
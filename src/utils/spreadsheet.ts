@@ -0,0 +1,416 @@
+/**
+ * CSV and Excel (.xlsx) reading and writing
+ *
+ * Sheets come in and go out as rows of plain strings. CSV follows RFC 4180,
+ * and the delimiter is detected from the first line, because Excel writes
+ * semicolons in locales that use a decimal comma. An .xlsx file is a zip of
+ * XML parts. Only the first worksheet is read, and deflated parts are
+ * unpacked with the browser's DecompressionStream. Written workbooks hold
+ * one sheet of inline strings in an uncompressed zip, which Excel, Numbers
+ * and Google Sheets all open.
+ */
+
+export type SpreadsheetRows = string[][];
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// First line outside quotes, used to pick the delimiter
+const headerLine = (text: string) => {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (!quoted && (text[i] === '\n' || text[i] === '\r')) return text.slice(0, i);
+  }
+  return text;
+};
+
+export const detectCsvDelimiter = (text: string) => {
+  const line = headerLine(text).replace(/"[^"]*"/g, '');
+  const counts = CSV_DELIMITERS.map((delimiter) => line.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? CSV_DELIMITERS[best] : ',';
+};
+
+const isBlankRow = (row: string[]) => row.every((cell) => !cell.trim());
+
+/**
+ * Quoted fields may hold delimiters, doubled quotes and line breaks.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (input: string, delimiter = detectCsvDelimiter(input)): SpreadsheetRows => {
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (!isBlankRow(row)) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (text[i + 1] === '"') cell += text[i++];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) endRow();
+
+  return rows;
+};
+
+const quoteCsvCell = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export const toCsv = (rows: SpreadsheetRows, delimiter = ','): string =>
+  rows.map((row) => row.map((cell) => quoteCsvCell(cell, delimiter)).join(delimiter)).join('\r\n');
+
+// ZIP container
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+const ZIP_UTF8_FLAG = 0x0800;
+const ZIP_DOS_DATE_1980 = 0x21; // 1980-01-01, keeps written files byte-for-byte reproducible
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const readStream = async (stream: ReadableStream<Uint8Array>) => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    chunks.push(next.value);
+    length += next.value.length;
+  }
+
+  const bytes = new Uint8Array(length);
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return bytes;
+};
+
+const inflateRaw = (bytes: Uint8Array) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot open Excel files. Save the sheet as CSV and import that instead');
+  }
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+  return readStream(source.pipeThrough(new DecompressionStream('deflate-raw')));
+};
+
+// Every entry of a zip archive by path, read through its central directory
+const unzip = async (data: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== ZIP_END_OF_DIRECTORY) end--;
+  if (end < 0) throw new Error('The file is not a valid Excel workbook');
+
+  const entries = new Map<string, Uint8Array>();
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) throw new Error('The Excel workbook is damaged');
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(start, start + compressedSize);
+
+    if (method === ZIP_STORED) entries.set(name, raw);
+    else if (method === ZIP_DEFLATED) entries.set(name, await inflateRaw(raw));
+    else throw new Error(`Unsupported compression in "${name}"`);
+  }
+
+  return entries;
+};
+
+const writeZip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(({ name, content }) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const header = new Uint8Array(30 + nameBytes.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, ZIP_LOCAL_HEADER, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, ZIP_UTF8_FLAG, true);
+    headerView.setUint16(8, ZIP_STORED, true);
+    headerView.setUint16(12, ZIP_DOS_DATE_1980, true);
+    headerView.setUint32(14, crc, true);
+    headerView.setUint32(18, data.length, true);
+    headerView.setUint32(22, data.length, true);
+    headerView.setUint16(26, nameBytes.length, true);
+    header.set(nameBytes, 30);
+
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, ZIP_CENTRAL_HEADER, true);
+    entryView.setUint16(4, 20, true);
+    entryView.setUint16(6, 20, true);
+    entryView.setUint16(8, ZIP_UTF8_FLAG, true);
+    entryView.setUint16(10, ZIP_STORED, true);
+    entryView.setUint16(14, ZIP_DOS_DATE_1980, true);
+    entryView.setUint32(16, crc, true);
+    entryView.setUint32(20, data.length, true);
+    entryView.setUint32(24, data.length, true);
+    entryView.setUint16(28, nameBytes.length, true);
+    entryView.setUint32(42, offset, true);
+    entry.set(nameBytes, 46);
+
+    local.push(header, data);
+    central.push(entry);
+    offset += header.length + data.length;
+  });
+
+  const directorySize = central.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, ZIP_END_OF_DIRECTORY, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + directorySize + end.length);
+  [...local, ...central, end].reduce((position, part) => {
+    zip.set(part, position);
+    return position + part.length;
+  }, 0);
+  return zip;
+};
+
+// Workbook XML
+
+const parseXml = (bytes: Uint8Array | undefined) =>
+  bytes ? new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml') : undefined;
+
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// Rich text runs are joined; phonetic hints for East Asian text are left out
+const textOf = (element: Element) =>
+  elements(element, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+
+// "AB12" -> 27
+const columnIndex = (reference: string) =>
+  (reference.match(/^[A-Z]+/)?.[0] ?? 'A')
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// Path of the first worksheet, following the workbook relationships
+const firstSheetPath = (parts: Map<string, Uint8Array>) => {
+  const workbook = parseXml(parts.get('xl/workbook.xml'));
+  const relationships = parseXml(parts.get('xl/_rels/workbook.xml.rels'));
+  const sheet = workbook && elements(workbook, 'sheet')[0];
+  const relationshipId = sheet?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'id'
+  );
+  const target = relationships && elements(relationships, 'Relationship')
+    .find((relationship) => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Cell values of the first worksheet as text. Numbers, dates included,
+ * come through as Excel stores them; booleans become TRUE or FALSE.
+ */
+export const readXlsx = async (data: ArrayBuffer | Uint8Array): Promise<SpreadsheetRows> => {
+  const parts = await unzip(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const sheet = parseXml(parts.get(firstSheetPath(parts)));
+  if (!sheet) throw new Error('The Excel workbook has no worksheets');
+
+  const sharedStringsXml = parseXml(parts.get('xl/sharedStrings.xml'));
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(textOf) : [];
+
+  const rows = elements(sheet, 'row').map((rowElement) => {
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach((cellElement, position) => {
+      const reference = cellElement.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const value = elements(cellElement, 'v')[0]?.textContent ?? '';
+
+      switch (cellElement.getAttribute('t')) {
+        case 's':
+          row[index] = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr':
+          row[index] = elements(cellElement, 'is').map(textOf).join('');
+          break;
+        case 'b':
+          row[index] = value === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          row[index] = value;
+      }
+    });
+    return Array.from(row, (cell) => cell ?? '');
+  });
+
+  return rows.filter((row) => !isBlankRow(row));
+};
+
+export const buildXlsx = (rows: SpreadsheetRows, sheetName = 'Sheet1'): Uint8Array => {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) =>
+          `<c r="${columnName(columnIndex)}${rowIndex + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+        )
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const relationshipType = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relationshipType}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relationshipType}">` +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relationshipType}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ]);
+};
+
+// Excel stores dates as days since 1899-12-30, in the sheet's local time
+export const excelSerialToDate = (serial: number) => {
+  const days = Math.floor(serial);
+  const milliseconds = Math.round((serial - days) * 24 * 60 * 60 * 1000);
+  const date = new Date(1899, 11, 30 + days);
+  return new Date(date.getTime() + milliseconds);
+};
+
+export const spreadsheetFormatOf = (filename: string): SpreadsheetFormat | undefined => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  return undefined;
+};
+
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetRows> => {
+  const fileFormat = spreadsheetFormatOf(file.name);
+  if (fileFormat === 'csv') return parseCsv(await file.text());
+  if (fileFormat === 'xlsx') return readXlsx(await file.arrayBuffer());
+  if (file.name.toLowerCase().endsWith('.xls')) {
+    throw new Error('Older .xls workbooks are not supported. Save the file as .xlsx or CSV and try again');
+  }
+  throw new Error('Choose a CSV or Excel (.xlsx) file');
+};
+
+export const downloadSpreadsheet = (rows: SpreadsheetRows, filename: string, fileFormat: SpreadsheetFormat) => {
+  // The byte order mark makes Excel read CSV as UTF-8 rather than the system code page
+  const blob = fileFormat === 'xlsx'
+    ? new Blob([buildXlsx(rows)], { type: XLSX_MIME_TYPE })
+    : new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith(`.${fileFormat}`) ? filename : `${filename}.${fileFormat}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,74 @@
+/**
+ * Located text edits
+ *
+ * Helpers shared by the checks that point at spans of copy and fix them:
+ * finding phrases and hashtags, and building and applying edits that all
+ * refer to the same original text.
+ */
+
+// Character offsets into the validated text, end exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface TextEdit extends TextRange {
+  replacement: string;
+}
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive matches of a phrase
+export const findPhrase = (content: string, phrase: string): TextRange[] =>
+  Array.from(
+    content.matchAll(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, 'giu')),
+    (match) => ({ start: match.index!, end: match.index! + match[0].length })
+  );
+
+export const findHashtags = (content: string) =>
+  Array.from(content.matchAll(/#[\p{L}\p{N}_]+/gu), (match) => ({
+    tag: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+// "cheap → affordable" (or "cheap -> affordable") names the word to use instead
+export const parsePhraseEntry = (entry: string) => {
+  const [phrase, replacement] = entry.split(/\s*(?:→|->)\s*/);
+  return { phrase: phrase.trim(), replacement: replacement?.trim() || undefined };
+};
+
+// Removes a span and one space next to it, so no double spaces are left behind
+export const removalEdit = (content: string, { start, end }: TextRange): TextEdit => {
+  if (start > 0 && content[start - 1] === ' ') return { start: start - 1, end, replacement: '' };
+  if (content[end] === ' ') return { start, end: end + 1, replacement: '' };
+  return { start, end, replacement: '' };
+};
+
+export const matchCase = (replacement: string, original: string) =>
+  original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+
+/**
+ * Applies edits made against the same text. Overlapping edits keep the one
+ * that starts first.
+ */
+export const applyTextEdits = (content: string, edits: TextEdit[]): string => {
+  const ordered = [...edits].sort((a, b) => a.start - b.start || b.end - a.end);
+  let result = '';
+  let position = 0;
+  ordered.forEach((edit) => {
+    if (edit.start < position) return;
+    result += content.slice(position, edit.start) + edit.replacement;
+    position = edit.end;
+  });
+  return result + content.slice(position);
+};
+
+// The autoFix of a located error
+export const withEdits = (content: string, action: string, edits: TextEdit[]) => ({
+  action,
+  preview: applyTextEdits(content, edits),
+  edits,
+});
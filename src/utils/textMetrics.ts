@@ -0,0 +1,194 @@
+/**
+ * Text metrics
+ *
+ * Character counting the way each platform counts, so "fits in 280" means
+ * the post will publish. JS `string.length` counts UTF-16 code units, which
+ * overcounts emoji and most non-Latin scripts.
+ *
+ * X counts a weighted length (twitter-text v3): code points in the Latin,
+ * Cyrillic, Greek and general punctuation ranges weigh 1, everything else
+ * (CJK, most emoji) weighs 2, a whole emoji sequence counts once, and every
+ * URL counts 23 whatever its length because it is wrapped in a t.co link.
+ * The other platforms count user-perceived characters (grapheme clusters),
+ * so a family emoji or a flag is one character.
+ */
+
+import type { TextRange } from './textEdits';
+
+export type CharacterCounting = 'weighted' | 'graphemes';
+
+export interface PlatformTextRules {
+  limit: number;
+  counting: CharacterCounting;
+}
+
+export const PLATFORM_TEXT_RULES: Record<string, PlatformTextRules> = {
+  twitter: { limit: 280, counting: 'weighted' },
+  linkedin: { limit: 3000, counting: 'graphemes' },
+  instagram: { limit: 2200, counting: 'graphemes' },
+  facebook: { limit: 63206, counting: 'graphemes' },
+  tiktok: { limit: 2200, counting: 'graphemes' },
+  youtube: { limit: 5000, counting: 'graphemes' }, // description
+};
+
+export const DEFAULT_CHARACTER_LIMIT = 5000;
+
+// Every URL counts as a t.co link on X
+export const TRANSFORMED_URL_LENGTH = 23;
+
+// Code point ranges X weighs as one character; everything else weighs two
+const LIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+export const characterLimitOf = (platform?: string) =>
+  (platform && PLATFORM_TEXT_RULES[platform]?.limit) || DEFAULT_CHARACTER_LIMIT;
+
+const countingOf = (platform?: string): CharacterCounting => (platform && PLATFORM_TEXT_RULES[platform]?.counting) || 'graphemes';
+
+// Approximates extended grapheme clusters where Intl.Segmenter is missing
+const GRAPHEME_FALLBACK =
+  /\r\n|\p{Regional_Indicator}{2}|[^\p{M}](?:[\p{M}\u{1F3FB}-\u{1F3FF}\uFE0F\u20E3]|\u200D[^\p{M}])*|\p{M}+/gsu;
+
+// Older Safari and Firefox ship without Intl.Segmenter
+const graphemeSegmenter: Intl.Segmenter | null =
+  typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function'
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : null;
+
+interface Grapheme extends TextRange {
+  text: string;
+}
+
+const graphemesOf = (text: string): Grapheme[] =>
+  graphemeSegmenter
+    ? Array.from(graphemeSegmenter.segment(text), ({ segment, index }) => ({
+        text: segment,
+        start: index,
+        end: index + segment.length,
+      }))
+    : Array.from(text.matchAll(GRAPHEME_FALLBACK), (match) => ({
+        text: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+      }));
+
+export const segmentGraphemes = (text: string): string[] => graphemesOf(text).map(({ text: grapheme }) => grapheme);
+
+// Bare domains only count as links with a known top-level domain, so "file.txt" or "e.g." don't
+const GENERIC_TLDS = new Set([
+  'com', 'net', 'org', 'edu', 'gov', 'mil', 'int', 'io', 'co', 'ai', 'app', 'dev', 'me', 'ly', 'tv', 'info', 'biz',
+  'xyz', 'shop', 'store', 'blog', 'news', 'tech', 'online', 'site', 'cloud', 'link', 'page', 'live', 'media', 'agency',
+  'studio', 'design', 'coffee', 'health', 'fitness',
+]);
+
+const URL_CANDIDATE =
+  /(?<![\p{L}\p{N}@._\-/])(https?:\/\/)?(?:[\p{L}\p{N}](?:[\p{L}\p{N}-]*[\p{L}\p{N}])?\.)+(\p{L}{2,63})(?::\d{2,5})?(?:[/?#][^\s]*)?/giu;
+
+// Trailing punctuation ends the sentence, not the link; a closing bracket only belongs to the link if it opened one
+const trimUrlEnd = (url: string) => {
+  let end = url.length;
+  for (;;) {
+    const last = url[end - 1];
+    if (/[.,;:!?'"]/.test(last)) end--;
+    else if (last === ')' && (url.slice(0, end).match(/\(/g)?.length ?? 0) < (url.slice(0, end).match(/\)/g)?.length ?? 0)) end--;
+    else return end;
+  }
+};
+
+export const findUrls = (text: string): TextRange[] =>
+  Array.from(text.matchAll(URL_CANDIDATE)).flatMap((match) => {
+    const [candidate, scheme, tld] = match;
+    if (!scheme && tld.length > 2 && !GENERIC_TLDS.has(tld.toLowerCase())) return [];
+    return [{ start: match.index!, end: match.index! + trimUrlEnd(candidate) }];
+  });
+
+// Whether a grapheme cluster is an emoji: pictographs, flags, keycaps and emoji-presentation symbols
+export const isEmoji = (grapheme: string) =>
+  /\p{Regional_Indicator}|\uFE0F|\u20E3/u.test(grapheme) ||
+  Array.from(grapheme).some((char) => char.codePointAt(0)! > 0xff && /\p{Extended_Pictographic}/u.test(char));
+
+const codePointWeight = (codePoint: number) =>
+  LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+
+const graphemeWeight = (grapheme: string, counting: CharacterCounting) => {
+  if (counting === 'graphemes') return 1;
+  if (isEmoji(grapheme)) return 2;
+  return Array.from(grapheme.normalize('NFC')).reduce((sum, char) => sum + codePointWeight(char.codePointAt(0)!), 0);
+};
+
+interface CountedUnit extends TextRange {
+  weight: number;
+}
+
+// The text split into counted pieces: each URL whole on X, grapheme clusters everywhere else
+const unitsOf = (text: string, counting: CharacterCounting): CountedUnit[] => {
+  const urls = counting === 'weighted' ? findUrls(text) : [];
+  const units: CountedUnit[] = [];
+  let nextUrl = 0;
+
+  graphemesOf(text).forEach((grapheme) => {
+    const url = urls[nextUrl];
+    if (url && grapheme.start >= url.start) {
+      if (grapheme.start === url.start) units.push({ start: url.start, end: url.end, weight: TRANSFORMED_URL_LENGTH });
+      if (grapheme.end >= url.end) nextUrl++;
+      return;
+    }
+    units.push({ start: grapheme.start, end: grapheme.end, weight: graphemeWeight(grapheme.text, counting) });
+  });
+
+  return units;
+};
+
+// Length as the platform counts it; grapheme clusters when no platform is given
+export const countCharacters = (text: string, platform?: string): number =>
+  unitsOf(text, countingOf(platform)).reduce((sum, { weight }) => sum + weight, 0);
+
+export interface TextMeasurement {
+  count: number;
+  limit: number;
+  remaining: number;
+  isOver: boolean;
+  overflowAt?: number; // offset of the first character past the limit
+}
+
+// Counts against a limit and finds where the text runs over it
+export const measureText = (text: string, platform?: string, limit = characterLimitOf(platform)): TextMeasurement => {
+  let count = 0;
+  let overflowAt: number | undefined;
+
+  unitsOf(text, countingOf(platform)).forEach(({ start, weight }) => {
+    count += weight;
+    if (count > limit && overflowAt === undefined) overflowAt = start;
+  });
+
+  return { count, limit, remaining: limit - count, isOver: count > limit, overflowAt };
+};
+
+/**
+ * Shortens text to fit the platform's limit, ellipsis included. Cuts fall
+ * between grapheme clusters and never inside a URL.
+ */
+export const truncateToLimit = (
+  text: string,
+  platform: string,
+  limit = characterLimitOf(platform),
+  ellipsis = '…'
+): string => {
+  const counting = countingOf(platform);
+  const units = unitsOf(text, counting);
+  if (units.reduce((sum, { weight }) => sum + weight, 0) <= limit) return text;
+
+  const budget = limit - countCharacters(ellipsis, platform);
+  let used = 0;
+  let cut = 0;
+  for (const { end, weight } of units) {
+    if (used + weight > budget) break;
+    used += weight;
+    cut = end;
+  }
+  return text.slice(0, cut).trimEnd() + ellipsis;
+};
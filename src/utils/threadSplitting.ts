@@ -0,0 +1,109 @@
+/**
+ * Thread splitting
+ *
+ * Breaks long copy into a thread of posts that each fit the platform's
+ * limit, counted with the platform's own weighting. Breaks fall between
+ * paragraphs where they can, then between lines, sentences and words; only
+ * a single word longer than a whole post is cut mid-word. "1/n" markers
+ * are counted in when numbering is on.
+ */
+
+import { characterLimitOf, countCharacters, truncateToLimit } from './textMetrics';
+
+// Platforms that publish a thread as a chain of replies
+export const THREAD_PLATFORMS = ['twitter'];
+
+export const MAX_THREAD_POST_MEDIA = 4;
+
+export interface ThreadSplitOptions {
+  numbering?: boolean; // end each post with "i/n"
+  limit?: number; // defaults to the platform's character limit
+}
+
+const NUMBERING_MARKER = /\s*\d+\/\d+$/;
+
+// Coarsest boundary first; each level only splits pieces too long for a post
+const BOUNDARIES: { split: (text: string) => string[]; separator: string }[] = [
+  { split: (text) => text.split(/\n[^\S\n]*\n\s*/), separator: '\n\n' },
+  { split: (text) => text.split('\n'), separator: '\n' },
+  { split: (text) => text.split(/(?<=[.!?…]["'”’)\]]*)\s+/), separator: ' ' },
+  { split: (text) => text.split(/\s+/), separator: ' ' },
+];
+
+const cutWord = (word: string, platform: string, budget: number): string[] => {
+  const parts: string[] = [];
+  let rest = word;
+  while (countCharacters(rest, platform) > budget) {
+    const head = truncateToLimit(rest, platform, budget, '');
+    if (!head) break;
+    parts.push(head);
+    rest = rest.slice(head.length);
+  }
+  return [...parts, rest];
+};
+
+const splitAtBoundary = (text: string, platform: string, budget: number, level = 0): string[] => {
+  if (level === BOUNDARIES.length) return cutWord(text, platform, budget);
+
+  const { split, separator } = BOUNDARIES[level];
+  const posts: string[] = [];
+  let current = '';
+
+  split(text)
+    .map((piece) => piece.trim())
+    .filter(Boolean)
+    .forEach((piece) => {
+      const joined = current ? `${current}${separator}${piece}` : piece;
+      if (countCharacters(joined, platform) <= budget) {
+        current = joined;
+        return;
+      }
+      if (current) posts.push(current);
+      const parts =
+        countCharacters(piece, platform) <= budget ? [piece] : splitAtBoundary(piece, platform, budget, level + 1);
+      posts.push(...parts.slice(0, -1));
+      current = parts[parts.length - 1] ?? '';
+    });
+
+  if (current) posts.push(current);
+  return posts;
+};
+
+export const stripThreadNumbering = (post: string) => post.replace(NUMBERING_MARKER, '');
+
+// Replaces any existing markers, so it can run again after posts are added or removed
+export const numberThread = (posts: string[]) =>
+  posts.length > 1 ? posts.map((post, index) => `${stripThreadNumbering(post)} ${index + 1}/${posts.length}`) : posts;
+
+export const splitIntoThread = (
+  text: string,
+  platform: string,
+  { numbering = false, limit = characterLimitOf(platform) }: ThreadSplitOptions = {}
+): string[] => {
+  let posts = splitAtBoundary(text, platform, limit);
+  if (!numbering || posts.length < 2) return posts;
+
+  // The marker's width depends on the post count, which depends on the room the marker leaves
+  for (let count = posts.length; ; count = posts.length) {
+    posts = splitAtBoundary(text, platform, limit - countCharacters(` ${count}/${count}`, platform));
+    if (posts.length <= count) break;
+  }
+  return numberThread(posts);
+};
+
+// What stops a thread from publishing, one message per problem
+export const threadProblems = (
+  posts: { body: string; media: readonly unknown[] }[],
+  platform: string,
+  limit = characterLimitOf(platform)
+): string[] =>
+  posts.flatMap(({ body, media }, index) => {
+    const problems: string[] = [];
+    const over = countCharacters(body, platform) - limit;
+    if (!body.trim() && !media.length) problems.push(`Post ${index + 1} is empty`);
+    if (over > 0) problems.push(`Post ${index + 1} is ${over} character${over === 1 ? '' : 's'} over the limit`);
+    if (media.length > MAX_THREAD_POST_MEDIA) {
+      problems.push(`Post ${index + 1} has ${media.length} attachments; at most ${MAX_THREAD_POST_MEDIA} are allowed`);
+    }
+    return problems;
+  });
@@ -0,0 +1,429 @@
+/**
+ * Validation rules
+ *
+ * Checks `ContentValidator` runs as plugins. A rule has an id, a severity
+ * and an optional platform and content pillar scope; its detector reports
+ * findings in the copy and its optional fixer turns a finding into edits.
+ *
+ * The built-in compliance checks are rules, and so are the rules an
+ * organization authors in its settings: those are stored as versioned
+ * definitions and compiled here, so the same definition is enforced in the
+ * editor, on import and when it is tested against sample posts.
+ */
+
+import type { ValidationError, ValidationOptions } from './contentValidation';
+import type { ContentRule, ContentRuleDefinition, ContentRuleSample } from '../store/api/organizationApi';
+import {
+  findHashtags,
+  findPhrase,
+  matchCase,
+  parsePhraseEntry,
+  removalEdit,
+  withEdits,
+  type TextEdit,
+  type TextRange,
+} from './textEdits';
+import { measureText } from './textMetrics';
+
+export interface RuleContext {
+  content: string;
+  platforms: string[];
+  pillar?: string;
+}
+
+export interface RuleFinding {
+  message: string;
+  locations?: TextRange[];
+}
+
+export interface RuleFix {
+  action: string;
+  edits: TextEdit[];
+}
+
+export interface ValidationRule {
+  id: string;
+  code: string;
+  severity: ValidationError['severity'];
+  type?: ValidationError['type']; // 'compliance' unless given
+  platforms?: string[]; // only checked for content on one of these; every platform when empty
+  pillars?: string[]; // only checked for content in one of these pillars; every pillar when empty
+  detect: (context: RuleContext) => RuleFinding[];
+  fix?: (context: RuleContext, finding: RuleFinding) => RuleFix | undefined;
+}
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const ruleApplies = (rule: ValidationRule, { platforms, pillar }: RuleContext): boolean =>
+  (!rule.platforms?.length || platforms.some((platform) => rule.platforms!.includes(platform))) &&
+  (!rule.pillars?.length || Boolean(pillar && rule.pillars.some((scoped) => sameText(scoped, pillar))));
+
+// Runs the rules that apply to the content and reports each finding as a located, fixable error
+export const runValidationRules = (rules: ValidationRule[], context: RuleContext): ValidationError[] =>
+  rules
+    .filter((rule) => ruleApplies(rule, context))
+    .flatMap((rule) => {
+      const scopedPlatforms = rule.platforms?.length
+        ? context.platforms.filter((platform) => rule.platforms!.includes(platform))
+        : [];
+
+      return rule.detect(context).map((finding): ValidationError => {
+        const fix = rule.fix?.(context, finding);
+        return {
+          type: rule.type ?? 'compliance',
+          platform: scopedPlatforms.length ? scopedPlatforms.join(', ') : undefined,
+          field: 'body',
+          message: finding.message,
+          code: rule.code,
+          ruleId: rule.id,
+          severity: rule.severity,
+          fixable: Boolean(fix),
+          locations: finding.locations,
+          autoFix: fix && withEdits(context.content, fix.action, fix.edits),
+        };
+      });
+    });
+
+// Built-in compliance rules
+
+const SPONSORED_DISCLOSURES = ['#ad', '#sponsored', '#partnership', 'paid partnership'];
+const DATA_COLLECTION_KEYWORDS = ['email', 'subscribe', 'newsletter', 'personal data'];
+
+export const COMPLIANCE_RULES: ValidationRule[] = [
+  {
+    id: 'ftc-disclosure',
+    code: 'COMPLIANCE_FTC_DISCLOSURE',
+    severity: 'medium',
+    detect: ({ content }) => {
+      const hasCommercialIntent = /buy now|click here|discount|sale|offer/i.test(content);
+      const hasDisclosure = SPONSORED_DISCLOSURES.some((keyword) => content.toLowerCase().includes(keyword));
+      return hasCommercialIntent && !hasDisclosure ? [{ message: 'Commercial content may require FTC disclosure' }] : [];
+    },
+    fix: ({ content }) => ({
+      action: 'Add disclosure',
+      edits: [{ start: content.length, end: content.length, replacement: '\n\n#ad' }],
+    }),
+  },
+  {
+    id: 'gdpr-notice',
+    code: 'COMPLIANCE_GDPR_NOTICE',
+    severity: 'medium',
+    detect: ({ content }) => {
+      const hasDataCollection = DATA_COLLECTION_KEYWORDS.some((keyword) => content.toLowerCase().includes(keyword));
+      const hasPrivacyNotice = /privacy policy|terms of service|gdpr/i.test(content);
+      return hasDataCollection && !hasPrivacyNotice
+        ? [{ message: 'Data collection content should reference privacy policy' }]
+        : [];
+    },
+  },
+];
+
+// Organization rule definitions
+
+export const CONTENT_RULE_KINDS: { kind: ContentRuleDefinition['kind']; label: string; description: string }[] = [
+  { kind: 'word_list', label: 'Word list', description: 'Words and phrases posts must not use' },
+  { kind: 'required_phrase', label: 'Required phrase', description: 'A disclosure or phrase posts must include' },
+  { kind: 'regex', label: 'Pattern', description: 'A regular expression posts must not match' },
+  { kind: 'length', label: 'Length', description: 'Minimum or maximum length in characters' },
+];
+
+export const emptyContentRuleDefinition = (kind: ContentRuleDefinition['kind'] = 'word_list'): ContentRuleDefinition => ({
+  name: '',
+  kind,
+  severity: 'medium',
+  platforms: [],
+  pillars: [],
+  workspaceIds: [],
+  samples: [],
+});
+
+// Invalid patterns and flags compile to null rather than throwing
+const compilePattern = (pattern = '', flags = '') => {
+  try {
+    return pattern ? new RegExp(pattern, Array.from(new Set(`${flags}g`)).join('')) : null;
+  } catch {
+    return null;
+  }
+};
+
+const regexDetector = ({ name, message, pattern, flags }: ContentRuleDefinition) => {
+  const regex = compilePattern(pattern, flags);
+
+  return ({ content }: RuleContext): RuleFinding[] => {
+    const matches = regex ? Array.from(content.matchAll(regex)).filter((match) => match[0]) : [];
+    if (!matches.length) return [];
+
+    const more = matches.length > 1 ? ` and ${matches.length - 1} more` : '';
+    return [
+      {
+        message: message || `${name}: "${matches[0][0]}"${more}`,
+        locations: matches.map((match) => ({ start: match.index!, end: match.index! + match[0].length })),
+      },
+    ];
+  };
+};
+
+const regexFixer = ({ pattern = '', flags = '', replacement }: ContentRuleDefinition) => {
+  if (!replacement) return undefined;
+
+  return ({ content }: RuleContext, { locations = [] }: RuleFinding): RuleFix => {
+    // Each match is rewritten on its own, so $1 refers to that match's groups
+    const single = new RegExp(pattern, flags.replace('g', ''));
+    return {
+      action: `Fix ${locations.length} match${locations.length === 1 ? '' : 'es'}`,
+      edits: locations.map((range) => ({
+        ...range,
+        replacement: content.slice(range.start, range.end).replace(single, replacement),
+      })),
+    };
+  };
+};
+
+const wordEntries = ({ words = [] }: ContentRuleDefinition) =>
+  words.map(parsePhraseEntry).filter(({ phrase }) => phrase);
+
+const wordListDetector = (definition: ContentRuleDefinition) => {
+  const entries = wordEntries(definition);
+
+  return ({ content }: RuleContext): RuleFinding[] =>
+    entries.flatMap(({ phrase, replacement }) =>
+      findPhrase(content, phrase).map((range) => {
+        const found = content.slice(range.start, range.end);
+        return {
+          message:
+            definition.message ||
+            (replacement ? `"${found}" is not allowed; use "${matchCase(replacement, found)}" instead` : `"${found}" is not allowed`),
+          locations: [range],
+        };
+      })
+    );
+};
+
+const wordListFixer = (definition: ContentRuleDefinition) => {
+  const entries = wordEntries(definition);
+
+  return ({ content }: RuleContext, { locations = [] }: RuleFinding): RuleFix | undefined => {
+    const [range] = locations;
+    if (!range) return undefined;
+
+    const found = content.slice(range.start, range.end);
+    const replacement = entries.find(({ phrase }) => sameText(phrase, found))?.replacement;
+    return replacement
+      ? { action: `Replace with "${matchCase(replacement, found)}"`, edits: [{ ...range, replacement: matchCase(replacement, found) }] }
+      : { action: `Remove "${found}"`, edits: [removalEdit(content, range)] };
+  };
+};
+
+// Where the phrase already is, and whether that satisfies the placement
+const phrasePlacement = (content: string, { phrase = '', placement = 'anywhere' }: ContentRuleDefinition) => {
+  const found = findPhrase(content, phrase.trim());
+  const leading = content.length - content.trimStart().length;
+  const trailingEnd = content.trimEnd().length;
+
+  const placed =
+    placement === 'start'
+      ? found.some(({ start }) => start === leading)
+      : placement === 'end'
+        ? found.some(({ end }) => end === trailingEnd)
+        : found.length > 0;
+  return { found, placed };
+};
+
+const requiredPhraseDetector = (definition: ContentRuleDefinition) => ({ content }: RuleContext): RuleFinding[] => {
+  const phrase = definition.phrase?.trim() ?? '';
+  const { found, placed } = phrasePlacement(content, definition);
+  if (!phrase || placed) return [];
+
+  return [
+    {
+      message:
+        definition.message ||
+        (found.length ? `"${phrase}" must come at the ${definition.placement} of the post` : `Posts must include "${phrase}"`),
+      locations: found.length ? found : undefined,
+    },
+  ];
+};
+
+// Adds the phrase where it belongs and drops copies in the wrong place
+const requiredPhraseFixer = (definition: ContentRuleDefinition) => ({ content }: RuleContext): RuleFix => {
+  const phrase = definition.phrase?.trim() ?? '';
+  const { found } = phrasePlacement(content, definition);
+  const removals = definition.placement === 'anywhere' ? [] : found.map((range) => removalEdit(content, range));
+
+  const insertion: TextEdit =
+    definition.placement === 'start'
+      ? { start: 0, end: 0, replacement: content.trim() ? `${phrase}\n\n` : phrase }
+      : { start: content.length, end: content.length, replacement: content.trim() ? `\n\n${phrase}` : phrase };
+
+  return {
+    action: found.length ? `Move "${phrase}" to the ${definition.placement}` : `Add "${phrase}"`,
+    edits: [...removals, insertion],
+  };
+};
+
+// Counted in characters as the platform counts them when the rule is for one platform
+const lengthDetector = ({ message, minLength, maxLength, platforms }: ContentRuleDefinition) => ({
+  content,
+}: RuleContext): RuleFinding[] => {
+  const platform = platforms.length === 1 ? platforms[0] : undefined;
+  const { count, overflowAt } = measureText(content, platform, maxLength || Infinity);
+  if (minLength && count < minLength) {
+    return [{ message: message || `${count} characters; posts need at least ${minLength}` }];
+  }
+  if (maxLength && count > maxLength) {
+    return [
+      {
+        message: message || `${count} characters; posts may have at most ${maxLength}`,
+        locations: [{ start: overflowAt!, end: content.length }],
+      },
+    ];
+  }
+  return [];
+};
+
+export const compileContentRule = (id: string, definition: ContentRuleDefinition): ValidationRule => {
+  const base = {
+    id,
+    code: `CUSTOM_${definition.kind.toUpperCase()}`,
+    severity: definition.severity,
+    platforms: definition.platforms,
+    pillars: definition.pillars,
+  };
+
+  switch (definition.kind) {
+    case 'regex':
+      return { ...base, detect: regexDetector(definition), fix: regexFixer(definition) };
+    case 'word_list':
+      return { ...base, detect: wordListDetector(definition), fix: wordListFixer(definition) };
+    case 'required_phrase':
+      return { ...base, detect: requiredPhraseDetector(definition), fix: requiredPhraseFixer(definition) };
+    case 'length':
+      return { ...base, detect: lengthDetector(definition) };
+  }
+};
+
+// What has to change before a definition can be saved
+export const contentRuleProblems = (definition: ContentRuleDefinition): string[] => {
+  const problems: string[] = [];
+  if (!definition.name.trim()) problems.push('Give the rule a name');
+
+  switch (definition.kind) {
+    case 'regex':
+      if (!definition.pattern) problems.push('Enter a pattern');
+      else {
+        try {
+          new RegExp(definition.pattern, definition.flags);
+        } catch (error) {
+          problems.push(`The pattern is not a valid regular expression: ${(error as Error).message}`);
+        }
+      }
+      break;
+    case 'word_list':
+      if (!wordEntries(definition).length) problems.push('List at least one word or phrase');
+      break;
+    case 'required_phrase':
+      if (!definition.phrase?.trim()) problems.push('Enter the phrase posts must include');
+      break;
+    case 'length':
+      if (!definition.minLength && !definition.maxLength) problems.push('Set a minimum or maximum length');
+      else if (definition.minLength && definition.maxLength && definition.minLength > definition.maxLength) {
+        problems.push('The minimum length is above the maximum');
+      }
+      break;
+  }
+
+  return problems;
+};
+
+export interface ContentRuleSampleResult {
+  sample: ContentRuleSample;
+  errors: ValidationError[];
+  passed: boolean; // the rule flagged the sample exactly when it was expected to
+}
+
+/**
+ * Runs a definition against its sample posts. Samples without their own
+ * platforms or pillar are checked as if they were in the rule's scope.
+ */
+export const testContentRule = (definition: ContentRuleDefinition): ContentRuleSampleResult[] => {
+  const rule = compileContentRule('test', definition);
+
+  return definition.samples.map((sample) => {
+    const errors = runValidationRules([rule], {
+      content: sample.text,
+      platforms: sample.platforms ?? definition.platforms,
+      pillar: sample.pillar ?? definition.pillars[0],
+    });
+    return { sample, errors, passed: errors.length > 0 === sample.expectViolation };
+  });
+};
+
+// Why a definition cannot go live yet; empty when it can
+export const contentRulePublishBlockers = (definition: ContentRuleDefinition): string[] => {
+  const blockers = contentRuleProblems(definition);
+  if (!definition.samples.length) {
+    blockers.push('Add at least one sample post to test the rule against');
+  } else {
+    const failing = testContentRule(definition).filter(({ passed }) => !passed).length;
+    if (failing) blockers.push(`${failing} sample post${failing === 1 ? ' does' : 's do'} not give the expected result`);
+  }
+  return blockers;
+};
+
+export const liveContentRuleVersion = (rule: ContentRule) =>
+  rule.versions.find(({ version }) => version === rule.liveVersion);
+
+// The rules a workspace's content is checked against: live versions of enabled rules shared with it
+export const liveContentRules = (rules: ContentRule[], workspaceId?: string): ValidationRule[] =>
+  rules.flatMap((rule) => {
+    const live = liveContentRuleVersion(rule);
+    if (!rule.enabled || !live) return [];
+
+    const { definition } = live;
+    const shared = !definition.workspaceIds.length || Boolean(workspaceId && definition.workspaceIds.includes(workspaceId));
+    return shared && !contentRuleProblems(definition).length ? [compileContentRule(rule.id, definition)] : [];
+  });
+
+// ValidationOptions.customRules, as rules
+export const customOptionRules = (customRules: ValidationOptions['customRules'] = {}): ValidationRule[] => {
+  const { forbiddenWords = [], requiredPhrases = [], minLength, maxLength, maxHashtags } = customRules;
+  const definition = (overrides: Partial<ContentRuleDefinition>): ContentRuleDefinition => ({
+    ...emptyContentRuleDefinition(),
+    ...overrides,
+  });
+  const rules: ValidationRule[] = [];
+
+  if (forbiddenWords.length) {
+    rules.push(compileContentRule('custom-forbidden-words', definition({ kind: 'word_list', words: forbiddenWords })));
+  }
+  requiredPhrases.forEach((phrase, index) => {
+    rules.push(compileContentRule(`custom-required-phrase-${index}`, definition({ kind: 'required_phrase', phrase })));
+  });
+  if (minLength || maxLength) {
+    rules.push(compileContentRule('custom-length', definition({ kind: 'length', minLength, maxLength })));
+  }
+  if (maxHashtags !== undefined) {
+    rules.push({
+      id: 'custom-hashtag-limit',
+      code: 'CUSTOM_HASHTAG_LIMIT',
+      severity: 'medium',
+      detect: ({ content }) => {
+        const excess = findHashtags(content).slice(maxHashtags);
+        return excess.length
+          ? [
+              {
+                message: `${maxHashtags + excess.length} hashtags; at most ${maxHashtags} are allowed`,
+                locations: excess.map(({ start, end }) => ({ start, end })),
+              },
+            ]
+          : [];
+      },
+      fix: ({ content }, { locations = [] }) => ({
+        action: `Remove the last ${locations.length} hashtag${locations.length === 1 ? '' : 's'}`,
+        edits: locations.map((range) => removalEdit(content, range)),
+      }),
+    });
+  }
+
+  return rules;
+};
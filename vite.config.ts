@@ -15,6 +15,10 @@ export default defineConfig(({ mode }) => {
   
   return {
     plugins: [react()],
+    build: {
+      // dist/manifest.json lets the bundle budget check find each route's chunk
+      manifest: true
+    },
     server: {
       host: webHost,
       port: webPort,
@@ -22,7 +26,8 @@ export default defineConfig(({ mode }) => {
         '/api': {
           target: apiBaseUrl,
           changeOrigin: true,
-          secure: apiProtocol === 'https'
+          secure: apiProtocol === 'https',
+          ws: true // realtime event stream
         }
       }
     },